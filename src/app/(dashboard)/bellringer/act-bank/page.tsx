@@ -0,0 +1,457 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { localDateStr } from '@/lib/task-helpers';
+import { LibrarySkeleton } from '@/components/Skeleton';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import EmptyState from '@/components/EmptyState';
+import type { ActBankQuestion, ActBankSource } from '@/lib/types';
+
+interface PastQuestion {
+  id: number;
+  date: string;
+  act_skill: string | null;
+  act_question: string;
+  act_choice_a: string | null;
+  act_choice_b: string | null;
+  act_choice_c: string | null;
+  act_choice_d: string | null;
+  act_correct_answer: string | null;
+  act_rule: string | null;
+  in_bank: boolean;
+}
+
+type QuestionForm = Pick<ActBankQuestion,
+  'skill_category' | 'skill' | 'question' | 'choice_a' | 'choice_b' | 'choice_c' | 'choice_d' | 'correct_answer' | 'explanation' | 'rule'>;
+
+const EMPTY_FORM: QuestionForm = {
+  skill_category: 'English', skill: '', question: '',
+  choice_a: '', choice_b: '', choice_c: '', choice_d: '',
+  correct_answer: 'A', explanation: '', rule: '',
+};
+
+const CHOICES = [
+  { letter: 'A', key: 'choice_a' },
+  { letter: 'B', key: 'choice_b' },
+  { letter: 'C', key: 'choice_c' },
+  { letter: 'D', key: 'choice_d' },
+] as const;
+
+const SOURCE_LABELS: Record<ActBankSource, string> = {
+  seed: 'Starter bank',
+  manual: 'Added by you',
+  bellringer: 'From a bellringer',
+};
+
+/** The teacher's ACT question bank: browse, edit, add, and promote past bellringer questions. */
+export default function ActBankPage() {
+  const [tab, setTab] = useState<'bank' | 'past'>('bank');
+  const [questions, setQuestions] = useState<ActBankQuestion[]>([]);
+  const [past, setPast] = useState<PastQuestion[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [editing, setEditing] = useState<{ id: number | null; form: QuestionForm } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [seeding, setSeeding] = useState(false);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  const loadBank = useCallback(() => {
+    return fetch('/api/bellringers/act-bank')
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setQuestions(data); })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => { loadBank(); }, [loadBank]);
+
+  // Past bellringers load the first time that tab opens
+  useEffect(() => {
+    if (tab !== 'past' || past !== null) return;
+    fetch('/api/bellringers/act-bank/promote')
+      .then(r => r.json())
+      .then(data => setPast(Array.isArray(data) ? data : []))
+      .catch(() => setPast([]));
+  }, [tab, past]);
+
+  const categories = [...new Set(questions.map(q => q.skill_category).filter(Boolean))].sort();
+
+  const filtered = questions.filter(q => {
+    if (categoryFilter && q.skill_category !== categoryFilter) return false;
+    if (search) {
+      const s = search.toLowerCase();
+      return q.question.toLowerCase().includes(s) ||
+             q.skill.toLowerCase().includes(s) ||
+             q.rule.toLowerCase().includes(s);
+    }
+    return true;
+  });
+
+  async function importStarter() {
+    setSeeding(true);
+    try {
+      const res = await fetch('/api/bellringers/act-bank/seed', { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        showToast(data.inserted > 0 ? `Imported ${data.inserted} questions` : 'Starter questions are already in your bank');
+        loadBank();
+      } else {
+        showToast(data.error || 'Import failed', true);
+      }
+    } catch {
+      showToast('Import failed', true);
+    }
+    setSeeding(false);
+  }
+
+  async function saveQuestion() {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const res = await fetch(editing.id ? `/api/bellringers/act-bank/${editing.id}` : '/api/bellringers/act-bank', {
+        method: editing.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(editing.form),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setQuestions(prev => editing.id ? prev.map(q => q.id === data.id ? data : q) : [data, ...prev]);
+        setEditing(null);
+        showToast(editing.id ? 'Question saved' : 'Question added');
+      } else {
+        showToast(data.error || 'Failed to save', true);
+      }
+    } catch {
+      showToast('Failed to save', true);
+    }
+    setSaving(false);
+  }
+
+  async function deleteQuestion(id: number) {
+    const ok = await confirm({
+      title: 'Delete Question',
+      message: 'Remove this question from your ACT bank? Bellringers that used it keep their copy.',
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/bellringers/act-bank/${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to delete', true);
+      return;
+    }
+    setQuestions(prev => prev.filter(q => q.id !== id));
+    showToast('Question deleted');
+  }
+
+  async function promote(p: PastQuestion) {
+    try {
+      const res = await fetch('/api/bellringers/act-bank/promote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bellringer_id: p.id }),
+      });
+      const data = await res.json();
+      if (res.ok || res.status === 409) {
+        setPast(prev => prev?.map(x => x.id === p.id ? { ...x, in_bank: true } : x) ?? null);
+        if (res.ok) setQuestions(prev => [data, ...prev]);
+        showToast(res.ok ? 'Added to ACT bank' : data.error);
+      } else {
+        showToast(data.error || 'Failed to add', true);
+      }
+    } catch {
+      showToast('Failed to add', true);
+    }
+  }
+
+  function updateForm(patch: Partial<QuestionForm>) {
+    setEditing(prev => prev ? { ...prev, form: { ...prev.form, ...patch } } : prev);
+  }
+
+  const inputCls = 'px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+  const labelCls = 'block text-xs uppercase tracking-wider text-accent font-semibold mb-1';
+  const tabCls = (active: boolean) =>
+    `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
+      active
+        ? 'bg-accent/15 text-accent border border-accent/30'
+        : 'text-text-muted hover:text-text-primary hover:bg-hover'
+    }`;
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link href={`/bellringer/edit/${localDateStr()}`}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-hover transition-colors"
+            title="Back to Bellringer Generator">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">ACT Question Bank</h1>
+            <p className="text-sm text-text-muted mt-1">
+              {filtered.length} question{filtered.length === 1 ? '' : 's'} · vetted questions bellringers can use instead of new AI ones
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={importStarter}
+            disabled={seeding}
+            className="px-3 py-2 bg-bg-input text-text-secondary rounded-lg text-sm font-medium hover:bg-hover hover:text-text-primary disabled:opacity-50 transition-colors"
+          >
+            {seeding ? 'Importing...' : 'Import Starter Bank'}
+          </button>
+          <button
+            onClick={() => setEditing({ id: null, form: { ...EMPTY_FORM } })}
+            className="px-4 py-2 bg-accent text-bg-primary rounded-lg text-sm font-semibold hover:brightness-110"
+          >
+            Add Question
+          </button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2">
+        <button className={tabCls(tab === 'bank')} onClick={() => setTab('bank')}>
+          My Bank
+        </button>
+        <button className={tabCls(tab === 'past')} onClick={() => setTab('past')}>
+          From Past Bellringers
+        </button>
+      </div>
+
+      {/* BANK TAB */}
+      {tab === 'bank' && (
+        <>
+          <div className="flex gap-3 flex-wrap">
+            <input
+              type="text"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search questions, skills, rules..."
+              className={`${inputCls} flex-1 min-w-[200px]`}
+            />
+            <select
+              value={categoryFilter}
+              onChange={e => setCategoryFilter(e.target.value)}
+              className={`${inputCls} w-[180px]`}
+            >
+              <option value="">All Categories</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+
+          {loading ? (
+            <LibrarySkeleton />
+          ) : filtered.length > 0 ? (
+            <div className="space-y-3">
+              {filtered.map(q => (
+                <div key={q.id} className="rounded-xl bg-bg-card border border-border p-4 group hover:border-accent/40 transition-colors">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="text-[0.65rem] uppercase tracking-wider font-semibold px-2 py-0.5 rounded-full border bg-accent/15 text-accent border-accent/30">
+                      {q.skill_category}
+                    </span>
+                    {q.skill && <span className="text-sm font-medium text-text-primary">{q.skill}</span>}
+                  </div>
+                  <p className="text-sm text-text-primary leading-relaxed whitespace-pre-line [&_b]:underline"
+                    dangerouslySetInnerHTML={{ __html: q.question }} />
+                  <ol className="mt-2 grid sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                    {CHOICES.map(({ letter, key }) => (
+                      <li key={letter} className={q.correct_answer === letter ? 'text-accent-green font-medium' : 'text-text-secondary'}>
+                        {letter}. {q[key]}
+                      </li>
+                    ))}
+                  </ol>
+                  {q.rule && <p className="text-xs text-accent-yellow mt-2">{q.rule}</p>}
+                  <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-text-muted">
+                    <span>{SOURCE_LABELS[q.source] || q.source}</span>
+                    <span>{q.times_used > 0 ? `Used ${q.times_used}×, last ${q.last_used_date}` : 'Not used yet'}</span>
+                  </div>
+                  <div className="flex gap-2 mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => setEditing({ id: q.id, form: {
+                        skill_category: q.skill_category, skill: q.skill, question: q.question,
+                        choice_a: q.choice_a, choice_b: q.choice_b, choice_c: q.choice_c, choice_d: q.choice_d,
+                        correct_answer: q.correct_answer, explanation: q.explanation, rule: q.rule,
+                      } })}
+                      className="px-3 py-1 bg-accent/15 text-accent rounded-lg text-xs font-medium hover:bg-accent/25 transition-colors">
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteQuestion(q.id)}
+                      className="px-3 py-1 text-accent-red/70 hover:text-accent-red rounded-lg text-xs font-medium transition-colors">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : search || categoryFilter ? (
+            <EmptyState
+              preset="search"
+              title="No Matching Questions"
+              description="Try adjusting your search or category."
+              compact
+            />
+          ) : (
+            <EmptyState
+              preset="bellringer"
+              title="Your ACT Bank is Empty"
+              description="Import the starter questions, add your own, or save good AI questions from past bellringers."
+              action={{ label: 'Import Starter Bank', onClick: importStarter }}
+            />
+          )}
+        </>
+      )}
+
+      {/* PAST BELLRINGERS TAB */}
+      {tab === 'past' && (
+        past === null ? (
+          <LibrarySkeleton />
+        ) : past.length > 0 ? (
+          <div className="space-y-3">
+            {past.map(p => (
+              <div key={p.id} className="rounded-xl bg-bg-card border border-border p-4">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-3 mb-1 text-xs text-text-muted">
+                      <span>{p.date}</span>
+                      {p.act_skill && <span className="text-accent">{p.act_skill}</span>}
+                    </div>
+                    <p className="text-sm text-text-primary leading-relaxed [&_b]:underline"
+                      dangerouslySetInnerHTML={{ __html: p.act_question }} />
+                    <p className="text-xs text-text-secondary mt-1">
+                      {[p.act_choice_a, p.act_choice_b, p.act_choice_c, p.act_choice_d].filter(Boolean).join('  ·  ')}
+                      {p.act_correct_answer && <span className="text-accent-green"> — answer {p.act_correct_answer}</span>}
+                    </p>
+                  </div>
+                  {p.in_bank ? (
+                    <span className="shrink-0 text-xs text-accent-green font-medium py-1">In bank</span>
+                  ) : (
+                    <button
+                      onClick={() => promote(p)}
+                      className="shrink-0 px-3 py-1 bg-accent/15 text-accent rounded-lg text-xs font-medium hover:bg-accent/25 transition-colors">
+                      Add to Bank
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <EmptyState
+            preset="bellringer"
+            title="No Past ACT Questions"
+            description="Bellringers with an ACT question show up here so you can keep the good ones."
+            action={{ label: 'Go to Bellringer Editor', href: `/bellringer/edit/today` }}
+          />
+        )
+      )}
+
+      {/* Add / Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-overlay-in" onClick={() => setEditing(null)} />
+          <div className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-bg-card border border-border rounded-xl shadow-2xl p-5 animate-modal-in">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">{editing.id ? 'Edit Question' : 'Add Question'}</h3>
+
+            <div className="space-y-3 mb-5">
+              <div className="flex gap-3">
+                <div className="w-[160px]">
+                  <label className={labelCls}>Category</label>
+                  <input
+                    list="act-bank-categories"
+                    value={editing.form.skill_category}
+                    onChange={e => updateForm({ skill_category: e.target.value })}
+                    className={`${inputCls} w-full`}
+                  />
+                  <datalist id="act-bank-categories">
+                    {[...new Set(['English', 'Reading', ...categories])].map(c => <option key={c} value={c} />)}
+                  </datalist>
+                </div>
+                <div className="flex-1">
+                  <label className={labelCls}>Skill</label>
+                  <input
+                    value={editing.form.skill}
+                    onChange={e => updateForm({ skill: e.target.value })}
+                    placeholder="e.g., Commas — Appositives"
+                    className={`${inputCls} w-full`}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelCls}>Question</label>
+                <textarea
+                  value={editing.form.question}
+                  onChange={e => updateForm({ question: e.target.value })}
+                  rows={4}
+                  placeholder="Wrap the tested part in <b></b> to underline it on the TV"
+                  className={`${inputCls} w-full resize-y`}
+                />
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {CHOICES.map(({ letter, key }) => (
+                  <div key={letter}>
+                    <label className={labelCls}>Choice {letter}</label>
+                    <input
+                      value={editing.form[key]}
+                      onChange={e => updateForm({ [key]: e.target.value })}
+                      className={`${inputCls} w-full`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <div className="w-[120px]">
+                  <label className={labelCls}>Answer</label>
+                  <select
+                    value={editing.form.correct_answer}
+                    onChange={e => updateForm({ correct_answer: e.target.value })}
+                    className={`${inputCls} w-full`}
+                  >
+                    {CHOICES.map(({ letter }) => <option key={letter} value={letter}>{letter}</option>)}
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <label className={labelCls}>Rule</label>
+                  <input
+                    value={editing.form.rule}
+                    onChange={e => updateForm({ rule: e.target.value })}
+                    className={`${inputCls} w-full`}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelCls}>Explanation</label>
+                <textarea
+                  value={editing.form.explanation}
+                  onChange={e => updateForm({ explanation: e.target.value })}
+                  rows={2}
+                  className={`${inputCls} w-full resize-y`}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setEditing(null)}
+                className="px-4 py-2 bg-bg-input text-text-secondary rounded-lg text-sm font-medium hover:bg-hover transition-colors">
+                Cancel
+              </button>
+              <button onClick={saveQuestion} disabled={saving}
+                className="px-4 py-2 bg-accent text-bg-primary rounded-lg text-sm font-semibold hover:brightness-110 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
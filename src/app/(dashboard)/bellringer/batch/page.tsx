@@ -4,20 +4,14 @@ import { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { localDateStr, nextSchoolDay } from '@/lib/task-helpers';
+import type { Job } from '@/lib/types';
+import { DEFAULT_DAY_TYPES } from '@/lib/bellringer-schedule';
 
-interface BatchResult {
-  date: string;
-  success: boolean;
-  bellringer_id?: number;
-  error?: string;
-  skipped?: boolean;
+interface BatchJob extends Job {
+  progress: { total: number; finished: number; done: number; skipped: number; failed: number };
 }
 
-interface BatchResponse {
-  week_of: string;
-  results: BatchResult[];
-  summary: { generated: number; skipped: number; failed: number };
-}
+const POLL_INTERVAL_MS = 2000;
 
 const JOURNAL_TYPES = [
   { value: '', label: 'Random' },
@@ -35,15 +29,6 @@ const JOURNAL_TYPES = [
 
 const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
 
-// Default: each day gets a different mix of 4 types
-const DEFAULT_DAY_TYPES: string[][] = [
-  ['creative', 'quote', 'reflective', 'emoji'],
-  ['critical_thinking', 'descriptive', 'would_you_rather', 'quote'],
-  ['poetry', 'creative', 'debate', 'reflective'],
-  ['list', 'emoji', 'critical_thinking', 'descriptive'],
-  ['would_you_rather', 'poetry', 'creative', 'quote'],
-];
-
 function getMondayOfWeek(date?: Date): string {
   const d = date || new Date();
   const day = d.getDay();
@@ -82,10 +67,11 @@ function BatchBellringerContent() {
   const [weekOf, setWeekOf] = useState(urlWeekOf || getMondayOfWeek());
   const [notes, setNotes] = useState('');
   const [skipExisting, setSkipExisting] = useState(true);
-  const [generating, setGenerating] = useState(false);
-  const [response, setResponse] = useState<BatchResponse | null>(null);
+  const [actFromBank, setActFromBank] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [job, setJob] = useState<BatchJob | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState('');
+  const jobActive = job?.status === 'queued' || job?.status === 'running';
 
   // Per-day journal type selections (4 types per day)
   const [dayTypes, setDayTypes] = useState<string[][]>(DEFAULT_DAY_TYPES);
@@ -110,6 +96,31 @@ function BatchBellringerContent() {
       .catch(() => setTypesLoaded(true));
   }, []);
 
+  // Pick up a batch that's still running (e.g. after a page refresh)
+  useEffect(() => {
+    fetch('/api/jobs?type=bellringer_batch&active=true')
+      .then(r => r.json())
+      .then(jobs => {
+        if (!Array.isArray(jobs) || jobs.length === 0) return null;
+        return fetch(`/api/jobs/${jobs[0].id}`).then(r => r.json());
+      })
+      .then(active => { if (active && !active.error) setJob(active); })
+      .catch(() => {});
+  }, []);
+
+  // Poll the job until it finishes
+  const jobId = job?.id;
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+    const timer = setInterval(() => {
+      fetch(`/api/jobs/${jobId}`)
+        .then(r => r.json())
+        .then(data => { if (!data.error) setJob(data); })
+        .catch(() => {});
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, jobActive]);
+
   // Save preferences
   async function saveTypes(updated: string[][]) {
     setDayTypes(updated);
@@ -133,10 +144,9 @@ function BatchBellringerContent() {
   }
 
   async function generate() {
-    setGenerating(true);
+    setSubmitting(true);
     setError(null);
-    setResponse(null);
-    setProgress('Generating bellringers for the week... This may take 30-60 seconds.');
+    setJob(null);
 
     // Build per-date type map, filtering out empty (random) values
     const dates = getWeekDates(weekOf);
@@ -157,6 +167,7 @@ function BatchBellringerContent() {
           notes: notes.trim() || undefined,
           skip_existing: skipExisting,
           day_types: dayTypesMap,
+          act_source: actFromBank ? 'bank' : 'ai',
         }),
       });
       const data = await res.json();
@@ -164,14 +175,25 @@ function BatchBellringerContent() {
       if (!res.ok) {
         setError(data.error || 'Batch generation failed');
       } else {
-        setResponse(data);
+        setJob({ ...data.job, progress: { total: data.job.items.length, finished: 0, done: 0, skipped: 0, failed: 0 } });
       }
     } catch {
       setError('Failed to connect to server');
     }
 
-    setGenerating(false);
-    setProgress('');
+    setSubmitting(false);
+  }
+
+  async function jobAction(action: 'cancel' | 'retry') {
+    if (!job) return;
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) setError(data.error || `Failed to ${action}`);
+      else setJob(data);
+    } catch {
+      setError('Failed to connect to server');
+    }
   }
 
   return (
@@ -192,6 +214,7 @@ function BatchBellringerContent() {
             </p>
           </div>
         </div>
+        <Link href="/bellringer/schedule" className="text-sm text-accent hover:underline">Plan a grading period</Link>
       </div>
 
       {/* Config */}
@@ -226,6 +249,17 @@ function BatchBellringerContent() {
           />
           <span className="text-sm text-text-secondary">Skip days that already have bellringers</span>
         </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={actFromBank}
+            onChange={e => setActFromBank(e.target.checked)}
+            className="w-4 h-4 rounded border-border accent-accent"
+          />
+          <span className="text-sm text-text-secondary">
+            Use ACT questions from my <Link href="/bellringer/act-bank" className="text-accent hover:underline">ACT bank</Link>
+          </span>
+        </label>
       </div>
 
       {/* Per-day type config */}
@@ -274,66 +308,110 @@ function BatchBellringerContent() {
 
       {/* Generate button */}
       <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
-        <button
-          onClick={generate}
-          disabled={generating}
-          className="px-6 py-2.5 bg-accent text-bg-primary rounded-lg font-semibold hover:brightness-110 disabled:opacity-50 transition-all">
-          {generating ? 'Generating...' : 'Generate All 5 Bellringers'}
-        </button>
-
-        {progress && (
-          <div className="flex items-center gap-3">
-            <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
-            <p className="text-sm text-text-secondary">{progress}</p>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={generate}
+            disabled={submitting || jobActive}
+            className="px-6 py-2.5 bg-accent text-bg-primary rounded-lg font-semibold hover:brightness-110 disabled:opacity-50 transition-all">
+            {submitting || jobActive ? 'Generating...' : 'Generate All 5 Bellringers'}
+          </button>
+          {jobActive && (
+            <button
+              onClick={() => jobAction('cancel')}
+              disabled={job?.cancel_requested}
+              className="px-4 py-2.5 text-sm font-semibold text-text-secondary border border-border rounded-lg hover:border-accent-red hover:text-accent-red disabled:opacity-50 transition-colors">
+              {job?.cancel_requested ? 'Stopping...' : 'Cancel'}
+            </button>
+          )}
+        </div>
+
+        {jobActive && job && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+              <p className="text-sm text-text-secondary">
+                {job.status === 'queued'
+                  ? 'Waiting to start...'
+                  : `Generating ${Math.min(job.progress.finished + 1, job.progress.total)} of ${job.progress.total}... You can leave this page — the batch keeps running.`}
+              </p>
+            </div>
+            <div className="h-1.5 rounded-full bg-bg-input overflow-hidden">
+              <div
+                className="h-full bg-accent transition-all"
+                style={{ width: `${job.progress.total ? (job.progress.finished / job.progress.total) * 100 : 0}%` }}
+              />
+            </div>
           </div>
         )}
 
-        {error && <p className="text-sm text-accent-red">{error}</p>}
+        {error && <p className="text-sm text-accent-red whitespace-pre-line">{error}</p>}
       </div>
 
       {/* Results */}
-      {response && (
+      {job && (
         <div className="space-y-4">
           {/* Summary */}
-          <div className="rounded-xl bg-bg-card border border-border p-5">
-            <h2 className="text-lg font-semibold text-text-primary mb-3">Results</h2>
-            <div className="grid grid-cols-3 gap-4 mb-4">
-              <div className="text-center">
-                <div className="text-2xl font-bold text-accent-green">{response.summary.generated}</div>
-                <div className="text-xs text-text-muted uppercase">Generated</div>
-              </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-text-muted">{response.summary.skipped}</div>
-                <div className="text-xs text-text-muted uppercase">Skipped</div>
+          {!jobActive && (
+            <div className="rounded-xl bg-bg-card border border-border p-5">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-text-primary">
+                  {job.status === 'cancelled' ? 'Cancelled' : 'Results'}
+                </h2>
+                {(job.progress.failed > 0 || job.status === 'cancelled') && (
+                  <button
+                    onClick={() => jobAction('retry')}
+                    className="px-3 py-1.5 text-xs font-semibold bg-accent/15 text-accent border border-accent/30 rounded-lg hover:bg-accent/25 transition-colors">
+                    {job.status === 'cancelled' ? 'Resume' : 'Retry Failed Days'}
+                  </button>
+                )}
               </div>
-              <div className="text-center">
-                <div className="text-2xl font-bold text-accent-red">{response.summary.failed}</div>
-                <div className="text-xs text-text-muted uppercase">Failed</div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-accent-green">{job.progress.done}</div>
+                  <div className="text-xs text-text-muted uppercase">Generated</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-text-muted">{job.progress.skipped}</div>
+                  <div className="text-xs text-text-muted uppercase">Skipped</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-accent-red">{job.progress.failed}</div>
+                  <div className="text-xs text-text-muted uppercase">Failed</div>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Per-day results */}
           <div className="rounded-xl bg-bg-card border border-border p-5">
             <h2 className="text-base font-semibold text-text-primary mb-3">Day-by-Day</h2>
             <div className="space-y-2">
-              {response.results.map(r => (
-                <div key={r.date} className="flex items-center gap-3 rounded-lg bg-bg-secondary p-3">
-                  <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${
-                    r.skipped ? 'bg-text-muted' : r.success ? 'bg-accent-green' : 'bg-accent-red'
-                  }`} />
+              {job.items.map(item => (
+                <div key={item.key} className="flex items-center gap-3 rounded-lg bg-bg-secondary p-3">
+                  {item.status === 'running' ? (
+                    <span className="w-2.5 h-2.5 shrink-0 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${
+                      item.status === 'done' ? 'bg-accent-green'
+                        : item.status === 'failed' ? 'bg-accent-red'
+                          : item.status === 'skipped' ? 'bg-text-muted'
+                            : 'bg-bg-input border border-border'
+                    }`} />
+                  )}
                   <span className="text-sm text-text-primary font-medium flex-1">
-                    {formatDate(r.date)}
+                    {formatDate(item.key)}
                   </span>
-                  {r.skipped ? (
+                  {item.status === 'skipped' ? (
                     <span className="text-xs text-text-muted">Already exists</span>
-                  ) : r.success ? (
-                    <Link href={`/bellringer/edit/${r.date}`}
+                  ) : item.status === 'done' ? (
+                    <Link href={`/bellringer/edit/${item.key}`}
                       className="text-xs text-accent hover:underline">
                       Edit
                     </Link>
+                  ) : item.status === 'failed' ? (
+                    <span className="text-xs text-accent-red whitespace-pre-line">{item.error}</span>
                   ) : (
-                    <span className="text-xs text-accent-red">{r.error}</span>
+                    <span className="text-xs text-text-muted">{item.status === 'running' ? 'Generating...' : 'Waiting'}</span>
                   )}
                 </div>
               ))}
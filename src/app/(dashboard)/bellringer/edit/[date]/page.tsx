@@ -114,6 +114,7 @@ export default function BellringerEditPage() {
   });
   const [teacherNotes, setTeacherNotes] = useState('');
   const [actSkillFilter, setActSkillFilter] = useState('');
+  const [actSource, setActSource] = useState<'ai' | 'bank'>('ai');
   const [generating, setGenerating] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [dirty, setDirty] = useState(false);
@@ -436,7 +437,7 @@ export default function BellringerEditPage() {
         fetch('/api/bellringers/generate-act', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ date: viewDate, skill: actSkillFilter || undefined }),
+          body: JSON.stringify({ date: viewDate, skill: actSkillFilter || undefined, source: actSource }),
         }),
       ]);
 
@@ -528,7 +529,7 @@ export default function BellringerEditPage() {
       const res = await fetch('/api/bellringers/generate-act', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ date: viewDate, skill: actSkillFilter || undefined }),
+        body: JSON.stringify({ date: viewDate, skill: actSkillFilter || undefined, source: actSource }),
       });
       const data = await res.json();
       if (res.ok) {
@@ -542,7 +543,7 @@ export default function BellringerEditPage() {
           act_correct_answer: b.act_correct_answer || 'A',
           act_rule: b.act_rule || '',
         });
-        showToast('ACT regenerated!');
+        showToast(data.source === 'bank' ? 'ACT pulled from your bank!' : actSource === 'bank' ? 'ACT bank is empty — generated a new question' : 'ACT regenerated!');
       } else {
         showToast(data.error || 'Failed', true);
       }
@@ -553,6 +554,30 @@ export default function BellringerEditPage() {
     }
   }
 
+  async function saveActToBank() {
+    setGenerating('act-bank');
+    try {
+      // Save first so the bank gets what's on screen
+      await fetch('/api/bellringers/save', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: viewDate, prompts: getPromptPayloads(), ...getACTPayload() }),
+      });
+      setDirty(false);
+      const res = await fetch('/api/bellringers/act-bank/promote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: viewDate }),
+      });
+      const data = await res.json();
+      showToast(res.ok ? 'Saved to ACT bank!' : data.error || 'Failed to save to bank', !res.ok);
+    } catch {
+      showToast('Failed to save to bank', true);
+    } finally {
+      setGenerating(null);
+    }
+  }
+
   async function uploadSlotImage(slot: number, file: File) {
     const formData = new FormData();
     formData.append('image', file);
@@ -781,7 +806,11 @@ export default function BellringerEditPage() {
         <div className="flex gap-1.5 ml-auto items-center shrink-0 flex-wrap">
           <button className={btnMuted} onClick={clearAll}>Clear Today</button>
           <Link href="/bellringer/batch" className={btnMuted}>Batch</Link>
+          <Link href="/bellringer/schedule" className={btnMuted}>Schedule</Link>
           <Link href="/bellringer/library" className={btnMuted}>Library</Link>
+          <Link href={`/bellringer/responses/${viewDate}`} className={btnMuted}>Responses</Link>
+          <Link href="/bellringer/mastery" className={btnMuted}>Mastery</Link>
+          <Link href="/bellringer/act-bank" className={btnMuted}>ACT Bank</Link>
           <button
             className="px-4 py-2 bg-accent-yellow text-[#111] rounded-lg font-bold text-sm hover:brightness-110 transition-all"
             onClick={openDisplay}
@@ -882,29 +911,54 @@ export default function BellringerEditPage() {
         {/* ACT Prep Section */}
         <div className="flex justify-between items-center mb-3">
           <span className="text-xs uppercase tracking-widest text-[#4ECDC4] font-semibold">ACT Prep Question</span>
-          <button
-            className={btnSmall}
-            onClick={regenACT}
-            disabled={generating === 'act'}
-          >
-            {generating === 'act' ? 'Generating...' : 'Regenerate ACT'}
-            {generating === 'act' && <Spinner />}
-          </button>
+          <div className="flex gap-1.5">
+            <button
+              className={btnMutedSmall}
+              onClick={saveActToBank}
+              disabled={generating === 'act-bank' || !act.act_question}
+              title="Keep this question in your ACT bank for reuse"
+            >
+              {generating === 'act-bank' ? 'Saving...' : 'Save to Bank'}
+            </button>
+            <button
+              className={btnSmall}
+              onClick={regenACT}
+              disabled={generating === 'act'}
+            >
+              {generating === 'act' ? 'Generating...' : actSource === 'bank' ? 'Pull from Bank' : 'Regenerate ACT'}
+              {generating === 'act' && <Spinner />}
+            </button>
+          </div>
         </div>
 
-        <div className="mb-4">
-          <label className="block text-xs uppercase tracking-wider text-[#4ECDC4] font-semibold mb-1">
-            Skill to Generate
-          </label>
-          <select
-            value={actSkillFilter}
-            onChange={e => setActSkillFilter(e.target.value)}
-            className={inputCls}
-          >
-            {ACT_SKILL_OPTIONS.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
-            ))}
-          </select>
+        <div className="flex gap-4 mb-4">
+          <div className="flex-1">
+            <label className="block text-xs uppercase tracking-wider text-[#4ECDC4] font-semibold mb-1">
+              Skill to Generate
+            </label>
+            <select
+              value={actSkillFilter}
+              onChange={e => setActSkillFilter(e.target.value)}
+              className={inputCls}
+            >
+              {ACT_SKILL_OPTIONS.map(opt => (
+                <option key={opt.value} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="w-[200px]">
+            <label className="block text-xs uppercase tracking-wider text-[#4ECDC4] font-semibold mb-1">
+              Question Source
+            </label>
+            <select
+              value={actSource}
+              onChange={e => setActSource(e.target.value as 'ai' | 'bank')}
+              className={inputCls}
+            >
+              <option value="ai">New AI question</option>
+              <option value="bank">My ACT bank</option>
+            </select>
+          </div>
         </div>
 
         <div className="mb-4">
@@ -115,6 +115,20 @@ export default function BellringerLibraryPage() {
     showToast('Prompt deleted');
   }
 
+  async function saveToBank(p: LibraryPrompt) {
+    try {
+      const res = await fetch('/api/bellringers/prompt-bank', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ journal_type: p.journal_type || 'creative', prompt: p.journal_prompt, from_bellringer: true }),
+      });
+      const data = await res.json();
+      showToast(res.ok ? 'Saved to prompt bank' : data.error || 'Failed to save', !res.ok && res.status !== 409);
+    } catch {
+      showToast('Failed to save', true);
+    }
+  }
+
   async function deleteImage(img: StoredImage) {
     const ok = await confirm({
       title: 'Delete Image',
@@ -188,6 +202,10 @@ export default function BellringerLibraryPage() {
             </p>
           </div>
         </div>
+        <Link href="/bellringer/prompt-bank"
+          className="px-3 py-2 bg-bg-input text-text-secondary rounded-lg text-sm font-medium hover:bg-hover hover:text-text-primary transition-colors">
+          Prompt Bank
+        </Link>
       </div>
 
       {/* Tabs */}
@@ -261,6 +279,13 @@ export default function BellringerLibraryPage() {
                       className="px-3 py-1 bg-bg-input text-text-secondary rounded-lg text-xs font-medium hover:bg-hover hover:text-text-primary transition-colors">
                       View Day
                     </Link>
+                    {p.journal_type !== 'image' && (
+                      <button
+                        onClick={() => saveToBank(p)}
+                        className="px-3 py-1 bg-bg-input text-text-secondary rounded-lg text-xs font-medium hover:bg-hover hover:text-text-primary transition-colors">
+                        Save to Bank
+                      </button>
+                    )}
                     <button
                       onClick={() => deletePrompt(p.id)}
                       className="px-3 py-1 text-accent-red/70 hover:text-accent-red rounded-lg text-xs font-medium transition-colors">
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import EmptyState from '@/components/EmptyState';
+import type { ActMasteryReport, MasteryCell } from '@/lib/act-mastery';
+import { localDateStr } from '@/lib/task-helpers';
+
+const WEEK_OPTIONS = [8, 12, 26];
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function accuracy(cell: MasteryCell): number | null {
+  return cell.attempts > 0 ? cell.correct / cell.attempts : null;
+}
+
+/** Red under 50%, yellow under 75%, green above. */
+function levelClass(value: number | null, kind: 'bg' | 'text'): string {
+  if (value === null) return kind === 'bg' ? 'bg-bg-secondary' : 'text-text-muted';
+  if (value < 0.5) return kind === 'bg' ? 'bg-accent-red' : 'text-accent-red';
+  if (value < 0.75) return kind === 'bg' ? 'bg-accent-yellow' : 'text-accent-yellow';
+  return kind === 'bg' ? 'bg-accent-green' : 'text-accent-green';
+}
+
+function weekLabel(week: string): string {
+  const [, m, d] = week.split('-').map(Number);
+  return `${m}/${d}`;
+}
+
+/** ACT skill mastery by area, class and student, from students' bellringer answers. */
+export default function ActMasteryPage() {
+  const [report, setReport] = useState<ActMasteryReport | null>(null);
+  const [classes, setClasses] = useState<{ id: number; name: string }[]>([]);
+  const [classId, setClassId] = useState('');
+  const [weeks, setWeeks] = useState(12);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/classes')
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setClasses(data); })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ weeks: String(weeks) });
+    if (classId) params.set('class_id', classId);
+    fetch(`/api/bellringers/mastery?${params}`)
+      .then(r => r.json())
+      .then(data => { if (!data.error) setReport(data); })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [classId, weeks]);
+
+  const className = (id: number | null) => classes.find(c => c.id === id)?.name || 'No class';
+  const hasData = report ? Object.values(report.overall).some(c => c.attempts > 0) : false;
+  const selectCls = 'px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link href={`/bellringer/edit/${localDateStr()}`}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-hover transition-colors"
+            title="Back to Bellringer Generator">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">ACT Skill Mastery</h1>
+            <p className="text-sm text-text-muted mt-1">From the answers students send to each bellringer. New questions lean toward the weakest areas.</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <select value={classId} onChange={e => setClassId(e.target.value)} className={selectCls}>
+            <option value="">All classes</option>
+            {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <select value={weeks} onChange={e => setWeeks(parseInt(e.target.value))} className={selectCls}>
+            {WEEK_OPTIONS.map(w => <option key={w} value={w}>Last {w} weeks</option>)}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-64 rounded-xl bg-bg-card border border-border animate-pulse" />
+      ) : !report || !hasData ? (
+        <EmptyState
+          preset="bellringer"
+          title="No ACT answers yet"
+          description="Students answer from the code on the TV display. Mastery shows up here once answers come in."
+        />
+      ) : (
+        <>
+          {/* Mastery by area (and by class when showing every class) */}
+          <div className="rounded-xl bg-bg-card border border-border p-5 overflow-x-auto">
+            <h2 className="text-lg font-semibold text-text-primary mb-3">By skill area</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-text-muted uppercase tracking-wider">
+                  <th className="py-1.5 pr-3 font-semibold">Skill area</th>
+                  <th className="py-1.5 pr-3 font-semibold w-1/3">Mastery</th>
+                  <th className="py-1.5 pr-3 font-semibold text-right">Answers</th>
+                  {!classId && report.classes.length > 1 && report.classes.map(c => (
+                    <th key={c.class_id ?? 'none'} className="py-1.5 px-2 font-semibold text-right whitespace-nowrap">{className(c.class_id)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.areas.map(area => {
+                  const cell = report.overall[area.key];
+                  return (
+                    <tr key={area.key} className="border-t border-border">
+                      <td className="py-2 pr-3 text-text-primary whitespace-nowrap">{area.label}</td>
+                      <td className="py-2 pr-3">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2.5 rounded-full bg-bg-secondary overflow-hidden">
+                            {cell.mastery !== null && (
+                              <div className={`h-full ${levelClass(cell.mastery, 'bg')}`} style={{ width: `${cell.mastery * 100}%` }} />
+                            )}
+                          </div>
+                          <span className={`w-10 text-right tabular-nums ${levelClass(cell.mastery, 'text')}`}>{percent(cell.mastery)}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3 text-right tabular-nums text-text-secondary">
+                        {cell.attempts > 0 ? `${cell.correct}/${cell.attempts}` : '—'}
+                      </td>
+                      {!classId && report.classes.length > 1 && report.classes.map(c => (
+                        <td key={c.class_id ?? 'none'} className={`py-2 px-2 text-right tabular-nums ${levelClass(c.areas[area.key].mastery, 'text')}`}>
+                          {percent(c.areas[area.key].mastery)}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-text-muted mt-3">Mastery weights recent answers more heavily, so it moves as students improve.</p>
+          </div>
+
+          {/* Over time */}
+          <div className="rounded-xl bg-bg-card border border-border p-5 overflow-x-auto">
+            <h2 className="text-lg font-semibold text-text-primary mb-3">Week by week</h2>
+            <table className="text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {report.timeline.map(w => (
+                    <th key={w.week} className="px-0.5 pb-1 font-normal text-text-muted">{weekLabel(w.week)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.areas.map(area => (
+                  <tr key={area.key}>
+                    <td className="pr-3 py-0.5 text-text-secondary whitespace-nowrap">{area.label}</td>
+                    {report.timeline.map(w => {
+                      const cell = w.areas[area.key];
+                      const value = accuracy(cell);
+                      return (
+                        <td key={w.week} className="px-0.5 py-0.5">
+                          <div
+                            className={`w-9 h-6 rounded ${levelClass(value, 'bg')} ${value === null ? '' : 'opacity-80'}`}
+                            title={value === null ? 'No answers' : `${cell.correct}/${cell.attempts} correct`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-4 mt-3 text-xs text-text-secondary">
+              <span className="inline-flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-accent-red" />Under 50%</span>
+              <span className="inline-flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-accent-yellow" />50–74%</span>
+              <span className="inline-flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-accent-green" />75%+</span>
+            </div>
+          </div>
+
+          {/* Students */}
+          {report.students.length > 0 && (
+            <div className="rounded-xl bg-bg-card border border-border p-5 overflow-x-auto">
+              <h2 className="text-lg font-semibold text-text-primary mb-3">By student</h2>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-text-muted">
+                    <th className="text-left py-1.5 pr-3 font-semibold">Student</th>
+                    {report.areas.map(a => (
+                      <th key={a.key} className="px-1.5 py-1.5 font-semibold text-right whitespace-nowrap" title={a.label}>
+                        {a.label.split(/[\s&-]+/)[0]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.students.map(s => (
+                    <tr key={s.key} className="border-t border-border">
+                      <td className="py-1.5 pr-3 text-text-primary whitespace-nowrap">
+                        {s.student_name}
+                        {!classId && <span className="text-text-muted"> · {className(s.class_id)}</span>}
+                      </td>
+                      {report.areas.map(a => {
+                        const cell = s.areas[a.key];
+                        return (
+                          <td key={a.key} className={`px-1.5 py-1.5 text-right tabular-nums ${levelClass(cell.attempts > 0 ? cell.mastery : null, 'text')}`}
+                            title={cell.attempts > 0 ? `${cell.correct}/${cell.attempts} correct` : undefined}>
+                            {cell.attempts > 0 ? percent(cell.mastery) : '·'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,421 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { Star } from 'lucide-react';
+import { LibrarySkeleton } from '@/components/Skeleton';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import EmptyState from '@/components/EmptyState';
+import { JOURNAL_TYPES, TYPE_LABELS, type JournalBankPrompt } from '@/lib/types';
+import {
+  PROMPT_REPEAT_SETTING,
+  REPEAT_MONTH_OPTIONS,
+  bankPromptText,
+  repeatCutoff,
+  type PromptHistoryEntry,
+} from '@/lib/prompt-bank';
+
+interface BankPrompt extends JournalBankPrompt {
+  history: PromptHistoryEntry[];
+  similar_ids: number[];
+}
+
+type StatusFilter = 'active' | 'favorites' | 'retired' | 'duplicates' | 'all';
+
+interface PromptForm {
+  journal_type: string;
+  prompt: string;
+  attribution: string;
+  writing_prompt: string;
+}
+
+const EMPTY_FORM: PromptForm = { journal_type: 'creative', prompt: '', attribution: '', writing_prompt: '' };
+
+const SOURCE_LABELS: Record<JournalBankPrompt['source'], string> = {
+  seed: 'Starter bank',
+  manual: 'Added by you',
+  bellringer: 'From a bellringer',
+};
+
+function shortDate(date: string): string {
+  return new Date(date + 'T12:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: '2-digit' });
+}
+
+/** Every journal prompt in one place: import, tag, favorite, retire, and see when each was given. */
+export default function PromptBankPage() {
+  const [prompts, setPrompts] = useState<BankPrompt[]>([]);
+  const [repeatMonths, setRepeatMonths] = useState(6);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [editing, setEditing] = useState<{ id: number | null; form: PromptForm } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState<string | null>(null);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  const loadBank = useCallback(() => {
+    return fetch('/api/bellringers/prompt-bank')
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) return;
+        setPrompts(data.prompts || []);
+        setRepeatMonths(data.repeat_months);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => { loadBank(); }, [loadBank]);
+
+  const cutoff = repeatCutoff(repeatMonths);
+  const textById = new Map(prompts.map(p => [p.id, bankPromptText(p)]));
+
+  const filtered = prompts.filter(p => {
+    if (statusFilter === 'active' && p.is_retired) return false;
+    if (statusFilter === 'favorites' && !p.is_favorite) return false;
+    if (statusFilter === 'retired' && !p.is_retired) return false;
+    if (statusFilter === 'duplicates' && p.similar_ids.length === 0) return false;
+    if (typeFilter && p.journal_type !== typeFilter) return false;
+    if (search) {
+      const q = search.toLowerCase();
+      return bankPromptText(p).toLowerCase().includes(q);
+    }
+    return true;
+  });
+
+  const types = JOURNAL_TYPES.filter(t => t !== 'image');
+
+  async function saveRepeatMonths(months: number) {
+    setRepeatMonths(months);
+    try {
+      await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [PROMPT_REPEAT_SETTING]: String(months) }),
+      });
+      showToast(`Prompts won't repeat within ${months} months`);
+    } catch {
+      showToast('Failed to save setting', true);
+    }
+  }
+
+  async function importPrompts(from: 'starter' | 'library') {
+    setImporting(from);
+    try {
+      const res = await fetch('/api/bellringers/prompt-bank/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        showToast(data.inserted > 0
+          ? `Imported ${data.inserted} prompts${data.skipped ? ` (${data.skipped} duplicates skipped)` : ''}`
+          : 'Nothing new to import');
+        loadBank();
+      } else {
+        showToast(data.error || 'Import failed', true);
+      }
+    } catch {
+      showToast('Import failed', true);
+    }
+    setImporting(null);
+  }
+
+  async function updatePrompt(id: number, patch: Partial<JournalBankPrompt>) {
+    const res = await fetch(`/api/bellringers/prompt-bank/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast(data.error || 'Failed to update', true);
+      return null;
+    }
+    setPrompts(prev => prev.map(p => p.id === id ? { ...p, ...data } : p));
+    return data;
+  }
+
+  async function saveForm() {
+    if (!editing) return;
+    setSaving(true);
+    const body = {
+      ...editing.form,
+      attribution: editing.form.journal_type === 'quote' ? editing.form.attribution : '',
+      writing_prompt: editing.form.journal_type === 'quote' ? editing.form.writing_prompt : '',
+    };
+    try {
+      if (editing.id) {
+        if (await updatePrompt(editing.id, body)) {
+          setEditing(null);
+          showToast('Prompt saved');
+        }
+      } else {
+        const res = await fetch('/api/bellringers/prompt-bank', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (res.ok) {
+          setPrompts(prev => [data, ...prev]);
+          setEditing(null);
+          showToast('Prompt added');
+        } else {
+          showToast(data.error || 'Failed to add', true);
+        }
+      }
+    } catch {
+      showToast('Failed to save', true);
+    }
+    setSaving(false);
+  }
+
+  async function deletePrompt(id: number) {
+    const ok = await confirm({
+      title: 'Delete Prompt',
+      message: 'Delete this prompt from your bank? Retire it instead to keep the generator from ever giving it again.',
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/bellringers/prompt-bank/${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to delete', true);
+      return;
+    }
+    setPrompts(prev => prev.filter(p => p.id !== id));
+    showToast('Prompt deleted');
+  }
+
+  function updateForm(patch: Partial<PromptForm>) {
+    setEditing(prev => prev ? { ...prev, form: { ...prev.form, ...patch } } : prev);
+  }
+
+  const inputCls = 'px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+  const labelCls = 'block text-xs uppercase tracking-wider text-accent font-semibold mb-1';
+  const btnMuted = 'px-3 py-2 bg-bg-input text-text-secondary rounded-lg text-sm font-medium hover:bg-hover hover:text-text-primary disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link href="/bellringer/library"
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-hover transition-colors"
+            title="Back to Bellringer Library">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">Journal Prompt Bank</h1>
+            <p className="text-sm text-text-muted mt-1">{filtered.length} prompt{filtered.length === 1 ? '' : 's'}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => importPrompts('starter')} disabled={!!importing} className={btnMuted}>
+            {importing === 'starter' ? 'Importing...' : 'Import Starter Bank'}
+          </button>
+          <button onClick={() => importPrompts('library')} disabled={!!importing} className={btnMuted}
+            title="Add every prompt already given in a bellringer">
+            {importing === 'library' ? 'Importing...' : 'Import Past Prompts'}
+          </button>
+          <button
+            onClick={() => setEditing({ id: null, form: { ...EMPTY_FORM } })}
+            className="px-4 py-2 bg-accent text-bg-primary rounded-lg text-sm font-semibold hover:brightness-110"
+          >
+            Add Prompt
+          </button>
+        </div>
+      </div>
+
+      {/* No-repeat window */}
+      <div className="rounded-xl bg-bg-card border border-border p-4 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-text-secondary">The generator replaces any prompt given within the last</span>
+        <select value={repeatMonths} onChange={e => saveRepeatMonths(parseInt(e.target.value))} className={inputCls}>
+          {REPEAT_MONTH_OPTIONS.map(m => <option key={m} value={m}>{m} months</option>)}
+        </select>
+        <span className="text-text-muted">and never gives a retired one.</span>
+      </div>
+
+      {/* Search & Filter */}
+      <div className="flex gap-3 flex-wrap">
+        <input
+          type="text"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search prompts..."
+          className={`${inputCls} flex-1 min-w-[200px]`}
+        />
+        <select value={typeFilter} onChange={e => setTypeFilter(e.target.value)} className={`${inputCls} w-[180px]`}>
+          <option value="">All Types</option>
+          {types.map(t => <option key={t} value={t}>{TYPE_LABELS[t] || t}</option>)}
+        </select>
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as StatusFilter)} className={`${inputCls} w-[180px]`}>
+          <option value="active">Active</option>
+          <option value="favorites">Favorites</option>
+          <option value="retired">Retired</option>
+          <option value="duplicates">Possible duplicates</option>
+          <option value="all">All</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <LibrarySkeleton />
+      ) : filtered.length > 0 ? (
+        <div className="space-y-3">
+          {filtered.map(p => {
+            const lastGiven = p.history[0]?.date;
+            const recent = !!lastGiven && lastGiven >= cutoff;
+            return (
+              <div key={p.id} className={`rounded-xl bg-bg-card border border-border p-4 group hover:border-accent/40 transition-colors ${p.is_retired ? 'opacity-60' : ''}`}>
+                <div className="flex items-start gap-3">
+                  <span className="shrink-0 text-[0.65rem] uppercase tracking-wider font-semibold px-2 py-0.5 rounded-full border bg-accent/15 text-accent border-accent/30">
+                    {TYPE_LABELS[p.journal_type] || p.journal_type}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-text-primary leading-relaxed">
+                      {p.prompt}
+                      {p.attribution && <span className="text-text-muted"> - {p.attribution}</span>}
+                    </p>
+                    {p.writing_prompt && <p className="text-sm text-text-secondary mt-1">{p.writing_prompt}</p>}
+
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-text-muted">
+                      <span>{SOURCE_LABELS[p.source] || p.source}</span>
+                      {p.is_retired && <span className="text-accent-red">Retired</span>}
+                      {recent && !p.is_retired && <span className="text-accent-yellow">Given recently</span>}
+                      {p.history.length === 0 ? (
+                        <span>Never given</span>
+                      ) : (
+                        <span>
+                          Given {p.history.length}×:{' '}
+                          {p.history.map((h, i) => (
+                            <span key={h.bellringer_id}>
+                              {i > 0 && ', '}
+                              <Link href={`/bellringer/edit/${h.date}`} className="hover:text-accent hover:underline">{shortDate(h.date)}</Link>
+                            </span>
+                          ))}
+                        </span>
+                      )}
+                    </div>
+
+                    {p.similar_ids.length > 0 && (
+                      <p className="text-xs text-accent-yellow mt-1 line-clamp-1" title={p.similar_ids.map(id => textById.get(id)).join('\n')}>
+                        Similar to: {textById.get(p.similar_ids[0])}
+                        {p.similar_ids.length > 1 && ` (+${p.similar_ids.length - 1} more)`}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => updatePrompt(p.id, { is_favorite: !p.is_favorite })}
+                    className={`shrink-0 p-1 rounded transition-colors ${p.is_favorite ? 'text-accent-yellow' : 'text-text-muted hover:text-accent-yellow'}`}
+                    title={p.is_favorite ? 'Remove from favorites' : 'Favorite (preferred when the bank fills a slot)'}
+                  >
+                    <Star size={16} fill={p.is_favorite ? 'currentColor' : 'none'} />
+                  </button>
+                </div>
+                <div className="flex gap-2 mt-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setEditing({ id: p.id, form: {
+                      journal_type: p.journal_type,
+                      prompt: p.prompt,
+                      attribution: p.attribution || '',
+                      writing_prompt: p.writing_prompt || '',
+                    } })}
+                    className="px-3 py-1 bg-accent/15 text-accent rounded-lg text-xs font-medium hover:bg-accent/25 transition-colors">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => updatePrompt(p.id, { is_retired: !p.is_retired })}
+                    className="px-3 py-1 bg-bg-input text-text-secondary rounded-lg text-xs font-medium hover:bg-hover hover:text-text-primary transition-colors">
+                    {p.is_retired ? 'Restore' : 'Retire'}
+                  </button>
+                  <button
+                    onClick={() => deletePrompt(p.id)}
+                    className="px-3 py-1 text-accent-red/70 hover:text-accent-red rounded-lg text-xs font-medium transition-colors">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : search || typeFilter || statusFilter !== 'active' ? (
+        <EmptyState
+          preset="search"
+          title="No Matching Prompts"
+          description="Try adjusting your search or filters."
+          compact
+        />
+      ) : (
+        <EmptyState
+          preset="bellringer"
+          title="Your Prompt Bank is Empty"
+          description="Import the starter prompts and everything you've already given, or add your own."
+          action={{ label: 'Import Starter Bank', onClick: () => importPrompts('starter') }}
+        />
+      )}
+
+      {/* Add / Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-overlay-in" onClick={() => setEditing(null)} />
+          <div className="relative w-full max-w-lg bg-bg-card border border-border rounded-xl shadow-2xl p-5 animate-modal-in">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">{editing.id ? 'Edit Prompt' : 'Add Prompt'}</h3>
+
+            <div className="space-y-3 mb-5">
+              <div>
+                <label className={labelCls}>Type</label>
+                <select value={editing.form.journal_type} onChange={e => updateForm({ journal_type: e.target.value })} className={`${inputCls} w-full`}>
+                  {types.map(t => <option key={t} value={t}>{TYPE_LABELS[t] || t}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelCls}>{editing.form.journal_type === 'quote' ? 'Quote' : 'Prompt'}</label>
+                <textarea
+                  value={editing.form.prompt}
+                  onChange={e => updateForm({ prompt: e.target.value })}
+                  rows={3}
+                  className={`${inputCls} w-full resize-y`}
+                />
+              </div>
+              {editing.form.journal_type === 'quote' && (
+                <>
+                  <div>
+                    <label className={labelCls}>Said by</label>
+                    <input value={editing.form.attribution} onChange={e => updateForm({ attribution: e.target.value })} className={`${inputCls} w-full`} />
+                  </div>
+                  <div>
+                    <label className={labelCls}>Writing prompt</label>
+                    <input
+                      value={editing.form.writing_prompt}
+                      onChange={e => updateForm({ writing_prompt: e.target.value })}
+                      placeholder="e.g., Do you agree? Why or why not?"
+                      className={`${inputCls} w-full`}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => setEditing(null)}
+                className="px-4 py-2 bg-bg-input text-text-secondary rounded-lg text-sm font-medium hover:bg-hover transition-colors">
+                Cancel
+              </button>
+              <button onClick={saveForm} disabled={saving || !editing.form.prompt.trim()}
+                className="px-4 py-2 bg-accent text-bg-primary rounded-lg text-sm font-semibold hover:brightness-110 disabled:opacity-50">
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
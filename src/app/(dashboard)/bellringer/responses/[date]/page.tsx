@@ -0,0 +1,226 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { X } from 'lucide-react';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import EmptyState from '@/components/EmptyState';
+import ResponseQRCode from '@/components/ResponseQRCode';
+import { ACT_LETTERS, type ActLetter, type ResponseGroup } from '@/lib/bellringer-responses';
+import { localDateStr } from '@/lib/task-helpers';
+import { TYPE_LABELS } from '@/lib/types';
+
+interface ResponsesData {
+  code: string | null;
+  act_correct_answer: ActLetter | null;
+  prompts: { slot: number; journal_type: string | null; journal_prompt: string | null }[];
+  classes: { id: number; name: string }[];
+  total: number;
+  groups: ResponseGroup[];
+}
+
+// Students trickle in during the first minutes of class
+const REFRESH_MS = 5000;
+
+/** Live ACT tally and journal entries students sent for one day's bellringer, by class period. */
+export default function BellringerResponsesPage() {
+  const params = useParams();
+  const date = params.date === 'today' ? localDateStr() : String(params.date);
+
+  const [data, setData] = useState<ResponsesData | null>(null);
+  const [error, setError] = useState('');
+  const [groupKey, setGroupKey] = useState('');
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  const load = useCallback(() => {
+    return fetch(`/api/bellringers/${date}/responses`)
+      .then(async r => {
+        const json = await r.json();
+        if (!r.ok) throw new Error(json.error || 'Failed to load responses');
+        setData(json);
+        setError('');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load responses'));
+  }, [date]);
+
+  useEffect(() => {
+    load();
+    const refresh = setInterval(() => { if (!document.hidden) load(); }, REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [load]);
+
+  async function newCode(rotate: boolean) {
+    const ok = !rotate || await confirm({
+      title: 'Replace response code?',
+      message: 'The old code and QR stop working. Students already done keep their answers.',
+      confirmLabel: 'Replace',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/bellringers/${date}/responses`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rotate }),
+    });
+    if (!res.ok) {
+      showToast('Failed to create response code', true);
+      return;
+    }
+    load();
+  }
+
+  async function removeResponse(id: number) {
+    const res = await fetch(`/api/bellringers/${date}/responses?id=${id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to delete response', true);
+      return;
+    }
+    load();
+  }
+
+  const className = (id: number | null) => data?.classes.find(c => c.id === id)?.name || 'No class';
+  const groupLabel = (g: ResponseGroup) => (g.period ? `Period ${g.period} · ${className(g.class_id)}` : className(g.class_id));
+  const promptFor = (slot: number | null) => data?.prompts.find(p => p.slot === slot);
+  const groups = (data?.groups || [])
+    .slice()
+    .sort((a, b) => (parseInt(a.period || '99') - parseInt(b.period || '99')) || groupLabel(a).localeCompare(groupLabel(b)));
+  const shown = groupKey ? groups.filter(g => g.key === groupKey) : groups;
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Link href={`/bellringer/edit/${date}`}
+          className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-hover transition-colors"
+          title="Back to Bellringer">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary">Bellringer Responses</h1>
+          <p className="text-sm text-text-muted mt-1">
+            {new Date(date + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            {data ? ` · ${data.total} response${data.total === 1 ? '' : 's'}` : ''}
+          </p>
+        </div>
+      </div>
+
+      {error && !data && (
+        <EmptyState preset="bellringer" title="No responses to show" description={error} />
+      )}
+
+      {data && (
+        <>
+          {/* Code */}
+          <div className="rounded-xl bg-bg-card border border-border p-5 flex flex-wrap items-center justify-between gap-4">
+            {data.code ? (
+              <ResponseQRCode code={data.code} size={96} />
+            ) : (
+              <p className="text-sm text-text-muted">Students respond with a code shown on the TV display.</p>
+            )}
+            <button
+              onClick={() => newCode(!!data.code)}
+              className="px-3 py-1.5 text-sm text-text-secondary border border-border rounded-lg hover:text-text-primary hover:border-accent transition-colors"
+            >
+              {data.code ? 'New code' : 'Create code'}
+            </button>
+          </div>
+
+          {groups.length > 1 && (
+            <select
+              value={groupKey}
+              onChange={e => setGroupKey(e.target.value)}
+              className="px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none"
+            >
+              <option value="">All class periods</option>
+              {groups.map(g => <option key={g.key} value={g.key}>{groupLabel(g)}</option>)}
+            </select>
+          )}
+
+          {groups.length === 0 && (
+            <p className="text-sm text-text-muted italic">No responses yet. They show up here as students send them.</p>
+          )}
+
+          {shown.map(group => (
+            <div key={group.key} className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+              <h2 className="text-lg font-semibold text-text-primary">{groupLabel(group)}</h2>
+
+              {/* ACT tally */}
+              {group.act_total > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-text-muted uppercase tracking-wider mb-2">
+                    ACT answers · {group.act_total} student{group.act_total === 1 ? '' : 's'}
+                    {data.act_correct_answer && (
+                      <span className="ml-2 normal-case tracking-normal text-accent-green">
+                        {Math.round((group.act_tally[data.act_correct_answer] || 0) / group.act_total * 100)}% correct
+                      </span>
+                    )}
+                  </p>
+                  <div className="space-y-1.5">
+                    {ACT_LETTERS.map(letter => {
+                      const count = group.act_tally[letter];
+                      const correct = letter === data.act_correct_answer;
+                      return (
+                        <div key={letter} className="flex items-center gap-2 text-sm">
+                          <span className={`w-5 font-bold ${correct ? 'text-accent-green' : 'text-text-secondary'}`}>{letter}</span>
+                          <div className="flex-1 h-5 rounded bg-bg-secondary overflow-hidden">
+                            <div
+                              className={`h-full ${correct ? 'bg-accent-green' : 'bg-accent/60'} transition-all`}
+                              style={{ width: `${(count / group.act_total) * 100}%` }}
+                            />
+                          </div>
+                          <span className="w-8 text-right tabular-nums text-text-secondary">{count}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Journal entries */}
+              {group.journals.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold text-text-muted uppercase tracking-wider mb-2">
+                    Journal entries · {group.journals.length}
+                  </p>
+                  <ul className="space-y-2">
+                    {group.journals.map(r => {
+                      const prompt = promptFor(r.journal_slot);
+                      return (
+                        <li key={r.id} className="rounded-lg bg-bg-secondary border border-border p-3 group">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-sm font-semibold text-text-primary">{r.student_name}</span>
+                            {prompt && (
+                              <span className="text-xs text-accent">{TYPE_LABELS[prompt.journal_type || ''] || `Prompt ${r.journal_slot}`}</span>
+                            )}
+                            {!r.student_id && (
+                              <span className="text-xs text-text-muted" title="Name didn't match anyone on the roster">· not on roster</span>
+                            )}
+                            <span className="ml-auto text-xs text-text-muted">
+                              {new Date(r.created_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                            </span>
+                            <button
+                              onClick={() => removeResponse(r.id)}
+                              className="p-0.5 text-text-muted hover:text-accent-red opacity-0 group-hover:opacity-100 transition-opacity"
+                              title="Delete response"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                          <p className="text-sm text-text-secondary whitespace-pre-line">{r.journal_text}</p>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import { X } from 'lucide-react';
+import { LibrarySkeleton } from '@/components/Skeleton';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import { TYPE_LABELS, type Job } from '@/lib/types';
+import { nextSchoolDay } from '@/lib/task-helpers';
+import {
+  MAX_SCHEDULE_DAYS,
+  ROTATION_TYPES,
+  SCHEDULE_RULES_SETTING,
+  WEEKDAY_NAMES,
+  describeRule,
+  type RotationRule,
+  type ScheduleDay,
+} from '@/lib/bellringer-schedule';
+
+interface ScheduleJob extends Job {
+  progress: { total: number; finished: number; done: number; skipped: number; failed: number };
+}
+
+interface PlanResponse {
+  start: string;
+  end: string;
+  rules: RotationRule[];
+  days: ScheduleDay[];
+  grading_period_end: { date: string; title: string | null };
+  today: string;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const inputCls = 'px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+
+function shortDate(date: string): string {
+  return new Date(date + 'T12:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/** Monday-to-Friday rows for the review calendar; dates outside the range are null. */
+function weekRows(days: ScheduleDay[]): (ScheduleDay | null)[][] {
+  const rows: (ScheduleDay | null)[][] = [];
+  let row: (ScheduleDay | null)[] = [];
+  for (const day of days) {
+    const weekday = new Date(day.date + 'T12:00:00').getDay();
+    if (weekday === 1 && row.length > 0) {
+      rows.push(row);
+      row = [];
+    }
+    if (row.length === 0) row = Array(weekday - 1).fill(null);
+    row.push(day);
+  }
+  if (row.length > 0) rows.push([...row, ...Array(5 - row.length).fill(null)]);
+  return rows;
+}
+
+/** Plan a grading period of bellringers from rotation rules, queue it, then review and approve day by day. */
+export default function BellringerSchedulePage() {
+  const [plan, setPlan] = useState<PlanResponse | null>(null);
+  const [range, setRange] = useState<{ start: string; end: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [skipExisting, setSkipExisting] = useState(true);
+  const [actFromBank, setActFromBank] = useState(false);
+  const [newRule, setNewRule] = useState<{ kind: RotationRule['kind']; weekday: number; journal_type: string }>({
+    kind: 'weekday', weekday: 1, journal_type: 'emoji',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [approving, setApproving] = useState<string | null>(null);
+  const [job, setJob] = useState<ScheduleJob | null>(null);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+  const jobActive = job?.status === 'queued' || job?.status === 'running';
+
+  const loadPlan = useCallback(() => {
+    const query = range ? `?start=${range.start}&end=${range.end}` : '';
+    return fetch(`/api/bellringers/schedule${query}`)
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) showToast(data.error, true);
+        else setPlan(data);
+      })
+      .catch(() => showToast('Failed to load the schedule', true))
+      .finally(() => setLoading(false));
+  }, [range, showToast]);
+
+  useEffect(() => { loadPlan(); }, [loadPlan]);
+
+  // Pick up a batch that's still running (e.g. after a page refresh)
+  useEffect(() => {
+    fetch('/api/jobs?type=bellringer_batch&active=true')
+      .then(r => r.json())
+      .then(jobs => {
+        if (!Array.isArray(jobs) || jobs.length === 0) return null;
+        return fetch(`/api/jobs/${jobs[0].id}`).then(r => r.json());
+      })
+      .then(active => { if (active && !active.error) setJob(active); })
+      .catch(() => {});
+  }, []);
+
+  // Poll the job until it finishes, refreshing the calendar as days come in
+  const jobId = job?.id;
+  useEffect(() => {
+    if (!jobId || !jobActive) return;
+    const timer = setInterval(() => {
+      fetch(`/api/jobs/${jobId}`)
+        .then(r => r.json())
+        .then(data => { if (!data.error) setJob(data); })
+        .catch(() => {});
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [jobId, jobActive]);
+
+  const finished = job?.progress.finished;
+  useEffect(() => {
+    if (finished) loadPlan();
+  }, [finished, loadPlan]);
+
+  const start = range?.start || plan?.start || nextSchoolDay();
+  const end = range?.end || plan?.end || start;
+  const rules = plan?.rules || [];
+  const days = plan?.days || [];
+  const schoolDays = days.filter(d => d.school_day);
+  const toGenerate = schoolDays.filter(d => !(skipExisting && d.bellringer));
+  const drafts = schoolDays.filter(d => d.bellringer && !d.bellringer.is_approved);
+  const approved = schoolDays.filter(d => d.bellringer?.is_approved);
+  const daysOff = days.filter(d => !d.school_day);
+  const itemStatus = new Map((jobActive ? job?.items || [] : []).map(i => [i.key, i.status]));
+
+  function changeRange(next: { start: string; end: string }) {
+    if (!next.start || !next.end) return;
+    setLoading(true);
+    setRange(next);
+  }
+
+  async function saveRules(updated: RotationRule[]) {
+    setPlan(p => (p ? { ...p, rules: updated } : p));
+    try {
+      await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [SCHEDULE_RULES_SETTING]: JSON.stringify(updated) }),
+      });
+      await loadPlan();
+    } catch {
+      showToast('Failed to save rules', true);
+    }
+  }
+
+  function addRule() {
+    const rule: RotationRule = newRule.kind === 'weekday'
+      ? { kind: 'weekday', weekday: newRule.weekday, journal_type: newRule.journal_type }
+      : { kind: 'no_back_to_back', journal_type: newRule.journal_type };
+    if (rules.some(r => JSON.stringify(r) === JSON.stringify(rule))) {
+      showToast('That rule is already set', true);
+      return;
+    }
+    saveRules([...rules, rule]);
+  }
+
+  async function queueSchedule() {
+    const ok = await confirm({
+      title: 'Queue Bellringers',
+      message: `Generate ${toGenerate.length} bellringer${toGenerate.length === 1 ? '' : 's'} from ${shortDate(start)} to ${shortDate(end)}? They're saved as drafts for you to review.`,
+      confirmLabel: 'Queue',
+    });
+    if (!ok) return;
+
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/bellringers/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          start,
+          end,
+          notes: notes.trim() || undefined,
+          skip_existing: skipExisting,
+          act_source: actFromBank ? 'bank' : 'ai',
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast(data.error || 'Failed to queue bellringers', true);
+      } else {
+        setJob({ ...data.job, progress: { total: data.job.items.length, finished: 0, done: 0, skipped: 0, failed: 0 } });
+        showToast(`Queued ${data.job.items.length} bellringers`);
+      }
+    } catch {
+      showToast('Failed to connect to server', true);
+    }
+    setSubmitting(false);
+  }
+
+  async function jobAction(action: 'cancel' | 'retry') {
+    if (!job) return;
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) showToast(data.error || `Failed to ${action}`, true);
+      else setJob(data);
+    } catch {
+      showToast('Failed to connect to server', true);
+    }
+  }
+
+  async function approveDates(dates: string[]) {
+    let failed = 0;
+    for (const date of dates) {
+      setApproving(date);
+      try {
+        const res = await fetch('/api/bellringers/approve', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ date }),
+        });
+        if (!res.ok) failed++;
+      } catch {
+        failed++;
+      }
+    }
+    setApproving(null);
+    if (failed > 0) showToast(`${failed} bellringer${failed === 1 ? '' : 's'} couldn't be approved`, true);
+    else showToast(dates.length === 1 ? 'Approved' : `Approved ${dates.length} bellringers`);
+    loadPlan();
+  }
+
+  async function approveAll() {
+    const ok = await confirm({
+      title: 'Approve All Drafts',
+      message: `Approve all ${drafts.length} draft bellringers in this range without opening them?`,
+      confirmLabel: 'Approve All',
+    });
+    if (ok) approveDates(drafts.map(d => d.date));
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center gap-3">
+          <Link href={`/bellringer/edit/${nextSchoolDay()}`}
+            className="p-2 rounded-lg text-text-muted hover:text-text-primary hover:bg-hover transition-colors"
+            title="Back to Bellringer Generator">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">Bellringer Schedule</h1>
+            <p className="text-sm text-text-muted mt-1">
+              Plan a whole grading period from rotation rules, then review and approve each day
+            </p>
+          </div>
+        </div>
+        <Link href="/bellringer/batch" className="text-sm text-accent hover:underline">Single week</Link>
+      </div>
+
+      {/* Range */}
+      <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm text-text-secondary mb-1">From</label>
+            <input type="date" value={start} onChange={e => changeRange({ start: e.target.value, end })} className={inputCls} />
+          </div>
+          <div>
+            <label className="block text-sm text-text-secondary mb-1">Through</label>
+            <input type="date" value={end} min={start} onChange={e => changeRange({ start, end: e.target.value })} className={inputCls} />
+          </div>
+          {plan?.grading_period_end && plan.grading_period_end.date !== end && plan.grading_period_end.date >= start && (
+            <button
+              onClick={() => changeRange({ start, end: plan.grading_period_end.date })}
+              className="px-3 py-2 text-sm text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors">
+              End of grading period ({shortDate(plan.grading_period_end.date)})
+            </button>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm text-text-secondary mb-1">Theme / Notes (optional)</label>
+          <input
+            type="text"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="e.g., Poetry unit through October..."
+            className={`w-full ${inputCls}`}
+          />
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={skipExisting}
+            onChange={e => setSkipExisting(e.target.checked)}
+            className="w-4 h-4 rounded border-border accent-accent"
+          />
+          <span className="text-sm text-text-secondary">Skip days that already have bellringers</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={actFromBank}
+            onChange={e => setActFromBank(e.target.checked)}
+            className="w-4 h-4 rounded border-border accent-accent"
+          />
+          <span className="text-sm text-text-secondary">
+            Use ACT questions from my <Link href="/bellringer/act-bank" className="text-accent hover:underline">ACT bank</Link>
+          </span>
+        </label>
+      </div>
+
+      {/* Rules */}
+      <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+        <div>
+          <h2 className="text-base font-semibold text-text-primary">Rotation Rules</h2>
+          <p className="text-xs text-text-muted mt-0.5">
+            Applied on top of the weekly types from the <Link href="/bellringer/batch" className="text-accent hover:underline">batch page</Link>. Random slots are filled with the least-used type so far.
+          </p>
+        </div>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-text-muted">No rules yet — every day follows the weekly types.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {rules.map(rule => (
+              <span key={JSON.stringify(rule)} className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-bg-secondary border border-border text-sm text-text-primary">
+                {describeRule(rule)}
+                <button
+                  onClick={() => saveRules(rules.filter(r => r !== rule))}
+                  className="text-text-muted hover:text-accent-red transition-colors"
+                  title="Remove rule">
+                  <X size={14} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={newRule.kind}
+            onChange={e => setNewRule({ ...newRule, kind: e.target.value as RotationRule['kind'] })}
+            className={inputCls}>
+            <option value="weekday">Every week on</option>
+            <option value="no_back_to_back">Never two in a row</option>
+          </select>
+          {newRule.kind === 'weekday' && (
+            <select value={newRule.weekday} onChange={e => setNewRule({ ...newRule, weekday: Number(e.target.value) })} className={inputCls}>
+              {WEEKDAY_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+            </select>
+          )}
+          <select value={newRule.journal_type} onChange={e => setNewRule({ ...newRule, journal_type: e.target.value })} className={inputCls}>
+            {ROTATION_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t] || t}</option>)}
+          </select>
+          <button
+            onClick={addRule}
+            className="px-4 py-2 text-sm font-semibold bg-accent/15 text-accent border border-accent/30 rounded-lg hover:bg-accent/25 transition-colors">
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {/* Queue */}
+      <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div className="text-center">
+            <div className="text-2xl font-bold text-text-primary">{schoolDays.length}</div>
+            <div className="text-xs text-text-muted uppercase">School Days</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-text-muted">{daysOff.length}</div>
+            <div className="text-xs text-text-muted uppercase">Days Off</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-accent-yellow">{drafts.length}</div>
+            <div className="text-xs text-text-muted uppercase">To Review</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-accent-green">{approved.length}</div>
+            <div className="text-xs text-text-muted uppercase">Approved</div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={queueSchedule}
+            disabled={submitting || jobActive || toGenerate.length === 0 || toGenerate.length > MAX_SCHEDULE_DAYS}
+            className="px-6 py-2.5 bg-accent text-bg-primary rounded-lg font-semibold hover:brightness-110 disabled:opacity-50 transition-all">
+            {submitting || jobActive ? 'Generating...' : `Generate ${toGenerate.length} Bellringer${toGenerate.length === 1 ? '' : 's'}`}
+          </button>
+          {jobActive && (
+            <button
+              onClick={() => jobAction('cancel')}
+              disabled={job?.cancel_requested}
+              className="px-4 py-2.5 text-sm font-semibold text-text-secondary border border-border rounded-lg hover:border-accent-red hover:text-accent-red disabled:opacity-50 transition-colors">
+              {job?.cancel_requested ? 'Stopping...' : 'Cancel'}
+            </button>
+          )}
+          {!jobActive && job && (job.progress.failed > 0 || job.status === 'cancelled') && (
+            <button
+              onClick={() => jobAction('retry')}
+              className="px-4 py-2.5 text-sm font-semibold bg-accent/15 text-accent border border-accent/30 rounded-lg hover:bg-accent/25 transition-colors">
+              {job.status === 'cancelled' ? 'Resume' : `Retry ${job.progress.failed} Failed`}
+            </button>
+          )}
+          {drafts.length > 0 && (
+            <button
+              onClick={approveAll}
+              disabled={approving !== null}
+              className="px-4 py-2.5 text-sm font-semibold text-accent-green border border-accent-green/40 rounded-lg hover:bg-accent-green/10 disabled:opacity-50 transition-colors">
+              Approve All Drafts
+            </button>
+          )}
+        </div>
+        {toGenerate.length > MAX_SCHEDULE_DAYS && (
+          <p className="text-sm text-accent-red">Schedule at most {MAX_SCHEDULE_DAYS} school days at a time — shorten the range.</p>
+        )}
+
+        {jobActive && job && (
+          <div className="space-y-2">
+            <p className="text-sm text-text-secondary">
+              {job.status === 'queued'
+                ? 'Waiting to start...'
+                : `Generating ${Math.min(job.progress.finished + 1, job.progress.total)} of ${job.progress.total}... You can leave this page — the batch keeps running.`}
+            </p>
+            <div className="h-1.5 rounded-full bg-bg-input overflow-hidden">
+              <div
+                className="h-full bg-accent transition-all"
+                style={{ width: `${job.progress.total ? (job.progress.finished / job.progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Review calendar */}
+      {loading ? (
+        <LibrarySkeleton />
+      ) : (
+        <div className="rounded-xl bg-bg-card border border-border overflow-hidden">
+          <div className="grid grid-cols-5 border-b border-border">
+            {WEEKDAY_NAMES.map(d => (
+              <div key={d} className="text-center text-xs text-text-muted uppercase py-2 font-semibold">{d.slice(0, 3)}</div>
+            ))}
+          </div>
+          {weekRows(days).map(row => (
+            <div key={row.find(Boolean)?.date} className="grid grid-cols-5">
+              {row.map((day, i) => {
+                if (!day) return <div key={i} className="min-h-[110px] border-b border-r border-border bg-bg-primary" />;
+                const status = itemStatus.get(day.date);
+                const b = day.bellringer;
+                return (
+                  <div key={day.date} className={`min-h-[110px] p-2 border-b border-r border-border space-y-1 ${day.school_day ? 'bg-bg-secondary' : 'bg-bg-primary'}`}>
+                    <div className="flex items-center justify-between gap-1">
+                      <span className={`text-sm font-medium ${day.date === plan?.today ? 'text-accent font-bold' : 'text-text-secondary'}`}>
+                        {shortDate(day.date)}
+                      </span>
+                      {status === 'running' ? (
+                        <span className="w-3 h-3 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+                      ) : b?.is_approved ? (
+                        <span className="text-[0.65rem] font-semibold text-accent-green uppercase">Approved</span>
+                      ) : b ? (
+                        <span className="text-[0.65rem] font-semibold text-accent-yellow uppercase">Draft</span>
+                      ) : status === 'pending' ? (
+                        <span className="text-[0.65rem] text-text-muted uppercase">Queued</span>
+                      ) : null}
+                    </div>
+
+                    {!day.school_day ? (
+                      <p className="text-xs text-text-muted italic">{day.closed_reason || 'No school'}</p>
+                    ) : (
+                      <>
+                        <div className="flex flex-wrap gap-1">
+                          {day.types.map((t, slot) => (
+                            <span key={slot} className={`text-[0.65rem] px-1.5 py-0.5 rounded ${b ? 'bg-bg-input text-text-secondary' : 'border border-dashed border-border text-text-muted'}`}>
+                              {TYPE_LABELS[t] || t}
+                            </span>
+                          ))}
+                        </div>
+                        {day.warnings.map(w => (
+                          <p key={w} className="text-[0.65rem] text-accent-red">{w}</p>
+                        ))}
+                        {b && (
+                          <div className="flex items-center gap-2 pt-0.5">
+                            <Link href={`/bellringer/edit/${day.date}`} className="text-xs text-accent hover:underline">Review</Link>
+                            {!b.is_approved && (
+                              <button
+                                onClick={() => approveDates([day.date])}
+                                disabled={approving !== null}
+                                className="text-xs text-accent-green hover:underline disabled:opacity-50">
+                                {approving === day.date ? 'Approving...' : 'Approve'}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
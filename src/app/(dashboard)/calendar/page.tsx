@@ -20,6 +20,7 @@ const EVENT_TYPE_COLORS: Record<string, string> = {
   holiday: 'bg-accent-red',
   break: 'bg-card2',
   testing: 'bg-accent-yellow',
+  early_release: 'bg-card4',
   assembly: 'bg-card3',
   custom: 'bg-accent',
   school_day: 'bg-accent-green',
@@ -142,6 +143,7 @@ export default function CalendarPage() {
               <option value="holiday">Holiday</option>
               <option value="break">Break</option>
               <option value="testing">Testing</option>
+              <option value="early_release">Early Release</option>
               <option value="assembly">Assembly</option>
               <option value="school_day">School Day</option>
             </select>
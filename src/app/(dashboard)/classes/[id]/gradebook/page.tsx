@@ -0,0 +1,346 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useToast } from '@/components/Toast';
+import EmptyState from '@/components/EmptyState';
+import type { ClassInfo, Grade, RosterStudent } from '@/lib/types';
+import {
+  GRADE_CATEGORIES,
+  GRADE_CATEGORY_LABELS,
+  DEFAULT_POINTS_POSSIBLE,
+  categoryForActivityType,
+  letterGrade,
+  type GradeCategoryName,
+  type GradebookActivity,
+  type StudentAverage,
+  type ActivityAverage,
+} from '@/lib/gradebook';
+
+interface GradebookResponse {
+  class: ClassInfo;
+  activities: GradebookActivity[];
+  students: RosterStudent[];
+  grades: Grade[];
+  weights: Record<GradeCategoryName, number>;
+  student_averages: StudentAverage[];
+  activity_averages: ActivityAverage[];
+  class_average: number | null;
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return 'Undated';
+  const d = new Date(dateStr + 'T12:00:00');
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+}
+
+/** Display value for a grade cell: score, EX (excused) or M (missing). */
+function cellValue(grade: Grade | undefined): string {
+  if (!grade) return '';
+  if (grade.is_excused) return 'EX';
+  if (grade.is_missing) return 'M';
+  return grade.score === null ? '' : String(grade.score);
+}
+
+/** Parse what the teacher typed into a grade cell. */
+function parseCell(input: string): { score: number | null; is_excused: boolean; is_missing: boolean } | null {
+  const v = input.trim().toUpperCase();
+  if (v === '') return { score: null, is_excused: false, is_missing: false };
+  if (v === 'EX') return { score: null, is_excused: true, is_missing: false };
+  if (v === 'M') return { score: null, is_excused: false, is_missing: true };
+  const n = Number(v);
+  return Number.isFinite(n) ? { score: n, is_excused: false, is_missing: false } : null;
+}
+
+export default function GradebookPage() {
+  const params = useParams();
+  const classId = String(params.id);
+  const { showToast } = useToast();
+
+  const [data, setData] = useState<GradebookResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showWeights, setShowWeights] = useState(false);
+  const [weightDraft, setWeightDraft] = useState<Record<GradeCategoryName, number> | null>(null);
+
+  const loadGradebook = useCallback(() => {
+    return fetch(`/api/classes/${classId}/gradebook`)
+      .then(r => (r.ok ? r.json() : null))
+      .then(json => setData(json))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [classId]);
+
+  useEffect(() => { loadGradebook(); }, [loadGradebook]);
+
+  async function saveCell(activityId: number, studentId: number, input: string, current: Grade | undefined) {
+    if (input.trim().toUpperCase() === cellValue(current)) return;
+    const parsed = parseCell(input);
+    if (!parsed) {
+      showToast('Enter a number, EX (excused) or M (missing)', true);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/classes/${classId}/gradebook/grades`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          grades: [{ activity_id: activityId, student_id: studentId, ...parsed, comment: current?.comment ?? null }],
+        }),
+      });
+      if (res.ok) {
+        await loadGradebook();
+      } else {
+        const err = await res.json();
+        showToast(err.error || 'Save failed', true);
+      }
+    } catch {
+      showToast('Save failed', true);
+    }
+  }
+
+  async function savePoints(activity: GradebookActivity, input: string) {
+    const points = input.trim() === '' ? null : Number(input);
+    if (points !== null && (!Number.isFinite(points) || points <= 0)) {
+      showToast('Points must be a positive number', true);
+      return;
+    }
+    if (points === activity.points_possible) return;
+    try {
+      const res = await fetch(`/api/activities/${activity.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ points_possible: points }),
+      });
+      if (res.ok) {
+        await loadGradebook();
+      } else {
+        showToast('Failed to update points', true);
+      }
+    } catch {
+      showToast('Failed to update points', true);
+    }
+  }
+
+  async function saveWeights() {
+    if (!weightDraft) return;
+    try {
+      const res = await fetch(`/api/classes/${classId}/gradebook/weights`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weights: weightDraft }),
+      });
+      if (res.ok) {
+        setShowWeights(false);
+        showToast('Weights saved');
+        await loadGradebook();
+      } else {
+        const err = await res.json();
+        showToast(err.error || 'Failed to save weights', true);
+      }
+    } catch {
+      showToast('Failed to save weights', true);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <p className="text-center text-text-muted py-12">Class not found.</p>;
+  }
+
+  const gradeMap = new Map(data.grades.map(g => [`${g.activity_id}:${g.student_id}`, g]));
+  const avgMap = new Map(data.student_averages.map(a => [a.student_id, a]));
+  const actAvgMap = new Map(data.activity_averages.map(a => [a.activity_id, a]));
+  const weightTotal = weightDraft ? GRADE_CATEGORIES.reduce((sum, c) => sum + (weightDraft[c] || 0), 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {data.class.color && (
+            <span className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: data.class.color }} />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">{data.class.name} Gradebook</h1>
+            <p className="text-sm text-text-muted">
+              {data.activities.length} graded activities &middot; {data.students.length} students
+              {data.class_average !== null && (
+                <> &middot; Class average {data.class_average}% ({letterGrade(data.class_average)})</>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => { setWeightDraft({ ...data.weights }); setShowWeights(v => !v); }}
+            className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors"
+          >
+            Category Weights
+          </button>
+          <a
+            href={`/api/classes/${classId}/gradebook/export`}
+            className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors"
+          >
+            Export CSV
+          </a>
+          <Link href={`/classes/${classId}/history`} className="text-sm text-accent hover:underline ml-2">
+            Back to Class
+          </Link>
+        </div>
+      </div>
+
+      {/* Weights editor */}
+      {showWeights && weightDraft && (
+        <div className="rounded-xl bg-bg-card border border-border p-5 space-y-3">
+          <h2 className="text-base font-semibold text-text-primary">Category Weights</h2>
+          <p className="text-xs text-text-muted">
+            Activities are grouped by type: assessments, projects (also writing and labs), homework, and everything else as classwork.
+            Weights are re-balanced automatically when a category has nothing graded yet.
+          </p>
+          <div className="grid grid-cols-4 gap-3">
+            {GRADE_CATEGORIES.map(category => (
+              <label key={category} className="text-xs text-text-muted">
+                {GRADE_CATEGORY_LABELS[category]}
+                <div className="flex items-center gap-1 mt-1">
+                  <input
+                    type="number"
+                    min={0}
+                    value={weightDraft[category]}
+                    onChange={e => setWeightDraft(w => w && ({ ...w, [category]: Number(e.target.value) }))}
+                    className="w-full px-2 py-1 bg-bg-input border border-border rounded text-sm text-text-primary"
+                  />
+                  <span>%</span>
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className={`text-xs ${weightTotal === 100 ? 'text-text-muted' : 'text-accent-yellow'}`}>
+              Total: {weightTotal}%{weightTotal !== 100 && ' (weights are relative, but 100% is easiest to read)'}
+            </span>
+            <button
+              onClick={saveWeights}
+              className="px-3 py-1.5 text-xs font-semibold bg-accent text-bg-primary rounded-lg hover:brightness-110 transition-all"
+            >
+              Save Weights
+            </button>
+          </div>
+        </div>
+      )}
+
+      {data.students.length === 0 || data.activities.length === 0 ? (
+        <div className="rounded-xl bg-bg-card border border-border">
+          <EmptyState
+            preset="classes"
+            title={data.students.length === 0 ? 'No students on the roster' : 'No graded activities yet'}
+            description={data.students.length === 0
+              ? 'Add students on the class roster tab to start recording scores.'
+              : 'Mark activities as graded in your lesson plans and they will show up here as columns.'}
+            action={{ label: 'Go to class', href: `/classes/${classId}/history` }}
+          />
+        </div>
+      ) : (
+        <div className="rounded-xl bg-bg-card border border-border overflow-x-auto">
+          <table className="text-sm border-collapse min-w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="sticky left-0 z-10 bg-bg-card text-left px-3 py-2 text-xs text-text-muted uppercase tracking-wider min-w-[12rem]">
+                  Student
+                </th>
+                {data.activities.map(act => (
+                  <th key={act.id} className="px-2 py-2 text-left align-bottom min-w-[6.5rem] max-w-[9rem]">
+                    <div className="text-[0.65rem] text-text-muted">
+                      {formatDate(act.date)} &middot; {GRADE_CATEGORY_LABELS[categoryForActivityType(act.activity_type)]}
+                    </div>
+                    <div className="text-xs font-semibold text-text-primary line-clamp-2" title={act.title}>
+                      {act.title}
+                    </div>
+                    <div className="flex items-center gap-1 mt-1 text-[0.65rem] text-text-muted">
+                      <span>/</span>
+                      <input
+                        type="number"
+                        min={1}
+                        defaultValue={act.points_possible ?? ''}
+                        placeholder={String(DEFAULT_POINTS_POSSIBLE)}
+                        onBlur={e => savePoints(act, e.target.value)}
+                        className="w-12 px-1 py-0.5 bg-bg-input border border-border rounded text-xs text-text-secondary"
+                        title="Points possible"
+                      />
+                      <span>pts</span>
+                    </div>
+                  </th>
+                ))}
+                <th className="px-3 py-2 text-right text-xs text-text-muted uppercase tracking-wider">Average</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.students.map(student => {
+                const avg = avgMap.get(student.id)?.average ?? null;
+                return (
+                  <tr key={student.id} className="border-b border-border/50 hover:bg-hover/40">
+                    <td className="sticky left-0 z-10 bg-bg-card px-3 py-1.5 text-text-primary whitespace-nowrap">
+                      {student.last_name}{student.last_name ? ', ' : ''}{student.preferred_name || student.first_name}
+                      {student.period && <span className="ml-1.5 text-xs text-text-muted">P{student.period}</span>}
+                    </td>
+                    {data.activities.map(act => {
+                      const grade = gradeMap.get(`${act.id}:${student.id}`);
+                      const value = cellValue(grade);
+                      return (
+                        <td key={act.id} className="px-2 py-1">
+                          <input
+                            key={`${act.id}:${student.id}:${value}`}
+                            type="text"
+                            defaultValue={value}
+                            onBlur={e => saveCell(act.id, student.id, e.target.value, grade)}
+                            onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                            className={`w-16 px-1.5 py-0.5 bg-bg-input border border-border rounded text-sm text-right focus:outline-none focus:border-accent ${
+                              grade?.is_missing ? 'text-accent-red' : grade?.is_excused ? 'text-text-muted' : 'text-text-primary'
+                            }`}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap font-semibold text-text-primary">
+                      {avg !== null ? `${avg}%` : '—'}
+                      <span className="ml-1.5 text-xs text-text-muted">{letterGrade(avg)}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="sticky left-0 z-10 bg-bg-card px-3 py-2 text-xs text-text-muted uppercase tracking-wider">
+                  Class average
+                </td>
+                {data.activities.map(act => {
+                  const a = actAvgMap.get(act.id);
+                  return (
+                    <td key={act.id} className="px-2 py-2 text-xs text-text-muted text-right pr-4">
+                      {a?.average !== null && a?.average !== undefined ? `${a.average}%` : ''}
+                    </td>
+                  );
+                })}
+                <td className="px-3 py-2 text-right font-semibold text-accent">
+                  {data.class_average !== null ? `${data.class_average}%` : '—'}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-text-muted">
+        Type a score, <strong>EX</strong> to excuse or <strong>M</strong> for missing (counts as zero). Blank cells are not counted.
+      </p>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
+import ClassRoster from '@/components/ClassRoster';
+import SeatingChartEditor from '@/components/SeatingChartEditor';
 
 interface ClassInfo {
   id: number;
@@ -62,6 +64,7 @@ export default function ClassHistoryPage() {
 
   const [data, setData] = useState<HistoryData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<'history' | 'roster' | 'seating'>('history');
 
   const loadHistory = useCallback(async () => {
     setLoading(true);
@@ -91,6 +94,13 @@ export default function ClassHistoryPage() {
   const weekKeys = Object.keys(data.weeks).sort().reverse();
   const completionRate = data.stats.total > 0 ? Math.round((data.stats.done / data.stats.total) * 100) : 0;
 
+  const tabCls = (active: boolean) =>
+    `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
+      active
+        ? 'bg-accent/15 text-accent border border-accent/30'
+        : 'text-text-muted hover:text-text-primary hover:bg-hover'
+    }`;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -106,87 +116,113 @@ export default function ClassHistoryPage() {
             )}
           </div>
         </div>
-        <Link href={`/day/today`} className="text-sm text-accent hover:underline">
-          Back to Day View
-        </Link>
+        <div className="flex items-center gap-4">
+          <Link href={`/classes/${classId}/gradebook`} className="text-sm text-accent hover:underline">
+            Gradebook
+          </Link>
+          <Link href={`/day/today`} className="text-sm text-accent hover:underline">
+            Back to Day View
+          </Link>
+        </div>
       </div>
 
-      {/* Stats */}
-      <div className="grid grid-cols-3 gap-4">
-        <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
-          <div className="text-2xl font-bold text-accent">{data.stats.total}</div>
-          <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Total Activities</div>
-        </div>
-        <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
-          <div className="text-2xl font-bold text-accent-green">{data.stats.done}</div>
-          <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Completed</div>
-        </div>
-        <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
-          <div className="text-2xl font-bold text-text-primary">{completionRate}%</div>
-          <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Completion Rate</div>
-          <div className="w-full bg-bg-secondary rounded-full h-1.5 mt-2">
-            <div className="bg-accent-green h-1.5 rounded-full" style={{ width: `${completionRate}%` }} />
-          </div>
-        </div>
+      {/* Tabs */}
+      <div className="flex gap-2">
+        <button className={tabCls(tab === 'history')} onClick={() => setTab('history')}>
+          History
+        </button>
+        <button className={tabCls(tab === 'roster')} onClick={() => setTab('roster')}>
+          Roster
+        </button>
+        <button className={tabCls(tab === 'seating')} onClick={() => setTab('seating')}>
+          Seating Charts
+        </button>
       </div>
 
-      {/* Week-by-Week History */}
-      {weekKeys.length > 0 ? (
-        <div className="space-y-4">
-          {weekKeys.map(weekOf => {
-            const weekActs = data.weeks[weekOf] || [];
-            // Group by date within the week
-            const byDate: Record<string, ActivityItem[]> = {};
-            for (const act of weekActs) {
-              if (!byDate[act.date]) byDate[act.date] = [];
-              byDate[act.date].push(act);
-            }
-            const dates = Object.keys(byDate).sort();
-
-            return (
-              <div key={weekOf} className="rounded-xl bg-bg-card border border-border p-5">
-                <h2 className="text-base font-semibold text-text-primary mb-3">
-                  Week of {formatWeekLabel(weekOf)}
-                </h2>
-
-                <div className="space-y-3">
-                  {dates.map(dateStr => (
-                    <div key={dateStr}>
-                      <div className="text-xs text-text-muted uppercase tracking-wider mb-1.5">
-                        {formatDate(dateStr)}
-                      </div>
-                      <div className="space-y-1.5 ml-2">
-                        {byDate[dateStr].map(act => (
-                          <div key={act.id} className="flex items-center gap-2">
-                            <span className={`w-2 h-2 rounded-full shrink-0 ${
-                              act.is_done ? 'bg-accent-green'
-                                : act.material_status === 'ready' || act.material_status === 'not_needed' ? 'bg-accent'
-                                : 'bg-accent-yellow'
-                            }`} />
-                            <span className={`text-sm ${act.is_done ? 'text-text-muted line-through' : 'text-text-secondary'}`}>
-                              {act.title}
-                            </span>
-                            <span className="text-[0.65rem] text-text-muted capitalize ml-auto">
-                              {act.activity_type}
-                            </span>
-                            {act.is_graded && (
-                              <span className="text-accent-yellow text-xs">&#9733;</span>
-                            )}
+      {tab === 'roster' && <ClassRoster classId={classId} />}
+
+      {tab === 'seating' && <SeatingChartEditor classId={classId} />}
+
+      {tab === 'history' && (
+        <>
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
+              <div className="text-2xl font-bold text-accent">{data.stats.total}</div>
+              <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Total Activities</div>
+            </div>
+            <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
+              <div className="text-2xl font-bold text-accent-green">{data.stats.done}</div>
+              <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Completed</div>
+            </div>
+            <div className="rounded-xl bg-bg-card border border-border p-4 text-center">
+              <div className="text-2xl font-bold text-text-primary">{completionRate}%</div>
+              <div className="text-xs text-text-muted uppercase tracking-wider mt-1">Completion Rate</div>
+              <div className="w-full bg-bg-secondary rounded-full h-1.5 mt-2">
+                <div className="bg-accent-green h-1.5 rounded-full" style={{ width: `${completionRate}%` }} />
+              </div>
+            </div>
+          </div>
+
+          {/* Week-by-Week History */}
+          {weekKeys.length > 0 ? (
+            <div className="space-y-4">
+              {weekKeys.map(weekOf => {
+                const weekActs = data.weeks[weekOf] || [];
+                // Group by date within the week
+                const byDate: Record<string, ActivityItem[]> = {};
+                for (const act of weekActs) {
+                  if (!byDate[act.date]) byDate[act.date] = [];
+                  byDate[act.date].push(act);
+                }
+                const dates = Object.keys(byDate).sort();
+
+                return (
+                  <div key={weekOf} className="rounded-xl bg-bg-card border border-border p-5">
+                    <h2 className="text-base font-semibold text-text-primary mb-3">
+                      Week of {formatWeekLabel(weekOf)}
+                    </h2>
+
+                    <div className="space-y-3">
+                      {dates.map(dateStr => (
+                        <div key={dateStr}>
+                          <div className="text-xs text-text-muted uppercase tracking-wider mb-1.5">
+                            {formatDate(dateStr)}
                           </div>
-                        ))}
-                      </div>
+                          <div className="space-y-1.5 ml-2">
+                            {byDate[dateStr].map(act => (
+                              <div key={act.id} className="flex items-center gap-2">
+                                <span className={`w-2 h-2 rounded-full shrink-0 ${
+                                  act.is_done ? 'bg-accent-green'
+                                    : act.material_status === 'ready' || act.material_status === 'not_needed' ? 'bg-accent'
+                                    : 'bg-accent-yellow'
+                                }`} />
+                                <span className={`text-sm ${act.is_done ? 'text-text-muted line-through' : 'text-text-secondary'}`}>
+                                  {act.title}
+                                </span>
+                                <span className="text-[0.65rem] text-text-muted capitalize ml-auto">
+                                  {act.activity_type}
+                                </span>
+                                {act.is_graded && (
+                                  <span className="text-accent-yellow text-xs">&#9733;</span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      ) : (
-        <div className="rounded-xl bg-bg-card border border-border p-8 text-center">
-          <p className="text-text-muted">No activity history for this class yet.</p>
-          <p className="text-sm text-text-muted mt-1">Activities will appear here as you add them to lesson plans.</p>
-        </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="rounded-xl bg-bg-card border border-border p-8 text-center">
+              <p className="text-text-muted">No activity history for this class yet.</p>
+              <p className="text-sm text-text-muted mt-1">Activities will appear here as you add them to lesson plans.</p>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -4,7 +4,10 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import MaterialGeneratorPanel from '@/components/MaterialGeneratorPanel';
+import RescheduleModal, { type RescheduleTarget } from '@/components/RescheduleModal';
+import AttendanceModal from '@/components/AttendanceModal';
 import { localDateStr } from '@/lib/task-helpers';
+import { clockTime, formatBellRange, periodAt, type DaySchedule } from '@/lib/bell-schedule';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface CalendarEvent {
@@ -62,12 +65,14 @@ interface DayData {
   unscheduled_tasks: TaskItem[];
   bellringer: BellringerData | null;
   activities: ActivityData[];
+  bell_schedule: DaySchedule | null;
 }
 
 const EVENT_TYPE_COLORS: Record<string, string> = {
   holiday: 'bg-accent-red',
   break: 'bg-card2',
   testing: 'bg-accent-yellow',
+  early_release: 'bg-card4',
   assembly: 'bg-card3',
   custom: 'bg-accent',
   school_day: 'bg-accent-green',
@@ -95,9 +100,10 @@ export default function DayViewPage() {
   const [data, setData] = useState<DayData | null>(null);
   const [loading, setLoading] = useState(true);
   const [classes, setClasses] = useState<ClassInfo[]>([]);
-  const [bumpingId, setBumpingId] = useState<number | null>(null);
+  const [rescheduling, setRescheduling] = useState<RescheduleTarget | null>(null);
   const [newTask, setNewTask] = useState('');
   const [generatingFor, setGeneratingFor] = useState<ActivityData | null>(null);
+  const [attendanceFor, setAttendanceFor] = useState<ClassInfo | null>(null);
 
   const loadDay = useCallback(async () => {
     setLoading(true);
@@ -152,15 +158,6 @@ export default function DayViewPage() {
     loadDay();
   }
 
-  async function bumpActivity(id: number) {
-    setBumpingId(id);
-    try {
-      await fetch(`/api/activities/${id}/bump`, { method: 'POST' });
-      loadDay();
-    } catch { /* ignore */ }
-    setBumpingId(null);
-  }
-
   async function markReady(id: number) {
     await fetch(`/api/activities/${id}`, {
       method: 'PATCH',
@@ -177,6 +174,9 @@ export default function DayViewPage() {
     activitiesByClass[act.class_id].push(act);
   }
 
+  const bellDay = data?.bell_schedule ?? null;
+  const nowPeriod = bellDay && dateStr === today ? periodAt(bellDay.periods, clockTime()).current : null;
+
   const b = data?.bellringer;
   const bellStatus = !b
     ? { label: 'Not Created', color: 'text-text-muted', bg: 'bg-bg-input' }
@@ -216,6 +216,16 @@ export default function DayViewPage() {
           className="px-3 py-1.5 text-sm border border-accent/30 text-accent rounded-lg hover:bg-accent/10 transition-colors">
           Generate Sub Pack
         </Link>
+        <button onClick={() => setRescheduling({ kind: 'day', date: dateStr })}
+          className="px-3 py-1.5 text-sm border border-border text-text-secondary rounded-lg hover:border-accent-red hover:text-accent-red transition-colors"
+          title="Snow day or lost day: mark it closed and push activities forward">
+          Cancel This Day
+        </button>
+        <a href={`/api/attendance/export?start=${dateStr}&end=${dateStr}`}
+          className="px-3 py-1.5 text-sm border border-border text-text-secondary rounded-lg hover:border-accent hover:text-accent transition-colors"
+          title="Download the day's attendance for the office">
+          Attendance CSV
+        </a>
       </div>
 
       {loading ? (
@@ -280,14 +290,52 @@ export default function DayViewPage() {
                   Display on TV
                 </a>
               )}
+              {dateStr === today && (
+                <Link href="/remote"
+                  className="px-3 py-1.5 border border-border text-text-secondary rounded-lg text-xs hover:border-accent hover:text-accent transition-colors">
+                  TV Remote
+                </Link>
+              )}
             </div>
           </div>
 
+          {/* Bell Schedule */}
+          {bellDay && (
+            <div className="rounded-xl bg-bg-card border border-border p-5">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-text-primary">Bell Schedule</h2>
+                {bellDay.schedule ? (
+                  <span className="text-xs font-medium px-2.5 py-1 rounded-full bg-accent/15 text-accent">
+                    {bellDay.schedule.name}{bellDay.reason ? ` \u00b7 ${bellDay.reason}` : ''}
+                  </span>
+                ) : (
+                  <span className="text-xs font-medium px-2.5 py-1 rounded-full bg-bg-input text-text-muted">No school</span>
+                )}
+              </div>
+              {bellDay.periods.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+                  {bellDay.periods.map(p => (
+                    <div key={`${p.period}-${p.start}`}
+                      className={`flex items-center gap-3 rounded-lg px-2.5 py-1.5 text-sm ${p === nowPeriod ? 'bg-accent/15' : ''}`}>
+                      <span className="w-24 shrink-0 text-text-muted tabular-nums">{formatBellRange(p)}</span>
+                      <span className="font-medium text-text-primary">{p.label || (/^\d+$/.test(p.period) ? `Period ${p.period}` : p.period)}</span>
+                      {p.class_name && <span className="text-text-secondary truncate">{p.class_name}</span>}
+                      {p === nowPeriod && <span className="ml-auto text-[0.65rem] font-semibold uppercase tracking-wider text-accent">Now</span>}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-text-muted/60 italic">{bellDay.reason}</p>
+              )}
+            </div>
+          )}
+
           {/* Class Sections with Activities */}
           {classes.map(cls => {
             const acts = activitiesByClass[cls.id] || [];
             const readyCount = acts.filter(a => a.material_status === 'ready' || a.material_status === 'not_needed').length;
             const borderColor = cls.color ? `border-l-4` : '';
+            const bellTimes = (bellDay?.periods || []).filter(p => p.class_id === cls.id).map(formatBellRange);
 
             return (
               <div key={cls.id}
@@ -296,8 +344,10 @@ export default function DayViewPage() {
                 <div className="flex items-center justify-between mb-3">
                   <div>
                     <h2 className="text-lg font-semibold text-text-primary">{cls.name}</h2>
-                    {cls.periods && (
-                      <p className="text-xs text-text-muted">{cls.periods}</p>
+                    {(cls.periods || bellTimes.length > 0) && (
+                      <p className="text-xs text-text-muted">
+                        {[cls.periods, bellTimes.join(', ')].filter(Boolean).join(' \u00b7 ')}
+                      </p>
                     )}
                   </div>
                   <div className="flex items-center gap-2">
@@ -316,6 +366,10 @@ export default function DayViewPage() {
                         </span>
                       </>
                     )}
+                    <button onClick={() => setAttendanceFor(cls)}
+                      className="text-xs text-accent hover:underline">
+                      Attendance
+                    </button>
                     <Link href={`/classes/${cls.id}/history`}
                       className="text-xs text-accent hover:underline">
                       History
@@ -373,14 +427,13 @@ export default function DayViewPage() {
                           )}
                         </div>
 
-                        {/* Bump to tomorrow button */}
+                        {/* Bump / reschedule button */}
                         {!act.is_done && (
                           <button
-                            onClick={() => bumpActivity(act.id)}
-                            disabled={bumpingId === act.id}
+                            onClick={() => setRescheduling({ kind: 'activity', id: act.id, title: act.title, className: act.classes?.name || '' })}
                             className="mt-0.5 px-2 py-1 text-xs text-text-muted hover:text-accent hover:bg-accent/10 rounded transition-colors opacity-0 group-hover:opacity-100"
-                            title="Bump to next school day">
-                            {bumpingId === act.id ? '...' : '\u2192'}
+                            title="Bump to a later school day">
+                            {'\u2192'}
                           </button>
                         )}
                       </div>
@@ -512,6 +565,29 @@ export default function DayViewPage() {
         <p className="text-center text-text-muted">Failed to load data for this date.</p>
       )}
 
+      {/* Reschedule preview */}
+      {rescheduling && (
+        <RescheduleModal
+          target={rescheduling}
+          onClose={() => setRescheduling(null)}
+          onApplied={() => {
+            setRescheduling(null);
+            loadDay();
+          }}
+        />
+      )}
+
+      {/* Attendance */}
+      {attendanceFor && (
+        <AttendanceModal
+          classId={attendanceFor.id}
+          className={attendanceFor.name}
+          date={dateStr}
+          onClose={() => setAttendanceFor(null)}
+          onSaved={() => setAttendanceFor(null)}
+        />
+      )}
+
       {/* Material Generator Panel */}
       {generatingFor && (
         <MaterialGeneratorPanel
@@ -4,8 +4,12 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import Link from 'next/link';
 import MaterialGeneratorPanel from '@/components/MaterialGeneratorPanel';
 import { localDateStr } from '@/lib/task-helpers';
-import { ChevronLeft, ChevronRight, History, Tag, Lightbulb, Plus, RefreshCw, List, ArrowLeft } from 'lucide-react';
+import { ChevronLeft, ChevronRight, History, Tag, Lightbulb, Plus, RefreshCw, Repeat, List, ArrowLeft } from 'lucide-react';
 import EmptyState from '@/components/EmptyState';
+import WeekTemplatePicker from '@/components/WeekTemplatePicker';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import { postEventStream } from '@/lib/sse';
+import type { Unit } from '@/lib/types';
 
 // ──────────────── Types ────────────────
 
@@ -130,6 +134,8 @@ export default function LessonPlansPage() {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [chatSending, setChatSending] = useState(false);
+  const [streamingReply, setStreamingReply] = useState('');
+  const chatAbortRef = useRef<AbortController | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // State: activities grid
@@ -143,6 +149,11 @@ export default function LessonPlansPage() {
   // State: inline add
   const [addingFor, setAddingFor] = useState<{ date: string; classId: number } | null>(null);
   const [addTitle, setAddTitle] = useState('');
+  const [addRepeat, setAddRepeat] = useState(false);
+
+  // Save the week as a reusable template
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [templateSaving, setTemplateSaving] = useState(false);
 
   // State: saving
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
@@ -207,6 +218,9 @@ export default function LessonPlansPage() {
   const [stdPickerSearch, setStdPickerSearch] = useState('');
   const [stdPickerLoading, setStdPickerLoading] = useState(false);
 
+  // Curriculum units overlapping this week (they seed the brainstorm)
+  const [weekUnits, setWeekUnits] = useState<Unit[]>([]);
+
   // ──────────────── Data Loading ────────────────
 
   const loadClasses = useCallback(async () => {
@@ -258,10 +272,18 @@ export default function LessonPlansPage() {
   useEffect(() => { loadPlan(); }, [loadPlan]);
   useEffect(() => { loadActivities(); }, [loadActivities]);
 
+  useEffect(() => {
+    const dates = getWeekDates(weekOf);
+    fetch(`/api/units?start=${dates[0]}&end=${dates[4]}`)
+      .then(r => r.json())
+      .then(data => setWeekUnits(Array.isArray(data) ? data : []))
+      .catch(() => setWeekUnits([]));
+  }, [weekOf]);
+
   // Auto-scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages]);
+  }, [chatMessages, streamingReply]);
 
   // ──────────────── All Plans ────────────────
 
@@ -345,34 +367,39 @@ export default function LessonPlansPage() {
 
     // Optimistically add user message
     setChatMessages(prev => [...prev, { role: 'user', content: msg }]);
+    setStreamingReply('');
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
 
     try {
-      const res = await fetch('/api/lesson-plans/brainstorm', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ lesson_plan_id: planId, message: msg }),
-      });
-
-      if (res.ok) {
-        const data = await res.json();
-        setChatMessages(data.history);
+      const data = await postEventStream<{ response: string; history: ChatMessage[] }>(
+        '/api/lesson-plans/brainstorm',
+        { lesson_plan_id: planId, message: msg },
+        { signal: controller.signal, onDelta: text => setStreamingReply(prev => prev + text) },
+      );
+      setChatMessages(data.history);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Nothing was saved — take the message back so it can be edited and resent
+        setChatMessages(prev => prev.slice(0, -1));
+        setChatInput(msg);
       } else {
-        const err = await res.json();
         setChatMessages(prev => [
           ...prev,
-          { role: 'assistant', content: `Error: ${err.error || 'Failed to get response'}` },
+          { role: 'assistant', content: `Error: ${err instanceof Error ? err.message : 'Failed to get response'}` },
         ]);
       }
-    } catch {
-      setChatMessages(prev => [
-        ...prev,
-        { role: 'assistant', content: 'Error: Network error. Please try again.' },
-      ]);
     }
 
+    chatAbortRef.current = null;
+    setStreamingReply('');
     setChatSending(false);
   }
 
+  function stopMessage() {
+    chatAbortRef.current?.abort();
+  }
+
   // ──────────────── Parse to Grid ────────────────
 
   async function generatePlan() {
@@ -706,6 +733,7 @@ export default function LessonPlansPage() {
           lesson_plan_id: plan?.id || null,
           activity_type: 'lesson',
           material_status: 'not_needed',
+          repeat_weekdays: addRepeat ? [new Date(date + 'T12:00:00').getDay()] : undefined,
         }),
       });
       if (res.ok) {
@@ -715,9 +743,24 @@ export default function LessonPlansPage() {
     } catch { /* ignore */ }
 
     setAddTitle('');
+    setAddRepeat(false);
     setAddingFor(null);
   }
 
+  async function saveAsTemplate() {
+    if (!templateName?.trim() || templateSaving) return;
+    setTemplateSaving(true);
+    try {
+      const res = await fetch('/api/lesson-plans/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: templateName.trim(), week_of: weekOf }),
+      });
+      if (res.ok) setTemplateName(null);
+    } catch { /* ignore */ }
+    setTemplateSaving(false);
+  }
+
   // ──────────────── Save / Publish ────────────────
 
   async function savePlanField(field: string, value: unknown) {
@@ -1092,6 +1135,18 @@ export default function LessonPlansPage() {
               )}
             </div>
 
+            {/* Active units for the week */}
+            {weekUnits.length > 0 && (
+              <Link href="/units" className="block px-4 py-2 border-b border-border bg-accent/5 hover:bg-accent/10 transition-colors">
+                {weekUnits.map(u => (
+                  <div key={u.id} className="text-xs text-text-secondary truncate">
+                    <span className="font-semibold text-accent">Unit:</span> {u.title}
+                    {u.essential_question && <span className="text-text-muted"> &mdash; {u.essential_question}</span>}
+                  </div>
+                ))}
+              </Link>
+            )}
+
             {/* Chat history dropdown */}
             {historyOpen && (
               <div className="border-b border-border bg-bg-secondary max-h-[200px] overflow-y-auto">
@@ -1154,6 +1209,11 @@ export default function LessonPlansPage() {
                     Start brainstorming your lesson plan for the week of {formatWeekLabel(weekOf)}.
                     Tell me what topics you&apos;re covering, what books you&apos;re reading, or any ideas you have!
                   </p>
+                  {activities.length === 0 && (
+                    <div className="mt-4">
+                      <WeekTemplatePicker weekOf={weekOf} onApplied={p => setPlan(p as LessonPlanData)} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -1174,7 +1234,15 @@ export default function LessonPlansPage() {
                 </div>
               ))}
 
-              {chatSending && (
+              {chatSending && streamingReply && (
+                <div className="flex justify-start">
+                  <div className="max-w-[85%] rounded-xl px-3.5 py-2.5 text-sm leading-relaxed bg-bg-secondary text-text-secondary rounded-bl-sm whitespace-pre-line">
+                    {streamingReply}
+                  </div>
+                </div>
+              )}
+
+              {chatSending && !streamingReply && (
                 <div className="flex justify-start">
                   <div className="bg-bg-secondary rounded-xl px-4 py-3 rounded-bl-sm">
                     <div className="flex gap-1">
@@ -1201,12 +1269,20 @@ export default function LessonPlansPage() {
                   disabled={chatSending}
                   className="flex-1 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none disabled:opacity-50"
                 />
-                <button
-                  onClick={sendMessage}
-                  disabled={chatSending || !chatInput.trim()}
-                  className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed">
-                  Send
-                </button>
+                {chatSending ? (
+                  <button
+                    onClick={stopMessage}
+                    className="px-4 py-2 border border-border text-text-secondary rounded-lg font-semibold text-sm hover:border-accent-red hover:text-accent-red">
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={sendMessage}
+                    disabled={!chatInput.trim()}
+                    className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed">
+                    Send
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -1221,6 +1297,28 @@ export default function LessonPlansPage() {
                 Weekly Plan &mdash; {formatWeekLabel(weekOf)}
               </h2>
               <div className="flex gap-2 items-center">
+                {templateName !== null ? (
+                  <input
+                    autoFocus
+                    value={templateName}
+                    onChange={e => setTemplateName(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') saveAsTemplate();
+                      if (e.key === 'Escape') setTemplateName(null);
+                    }}
+                    onBlur={() => { if (!templateName.trim()) setTemplateName(null); }}
+                    disabled={templateSaving}
+                    placeholder="Template name, then Enter"
+                    className="w-44 px-2 py-1.5 bg-bg-input border border-accent rounded-lg text-text-primary text-xs focus:outline-none"
+                  />
+                ) : activities.length > 0 && (
+                  <button
+                    onClick={() => setTemplateName('')}
+                    title="Save this week's activities as a reusable template"
+                    className="px-3 py-1.5 bg-bg-input border border-border text-text-secondary rounded-lg text-xs font-medium hover:border-accent hover:text-text-primary transition-colors">
+                    Save as Template
+                  </button>
+                )}
                 <button
                   onClick={saveDraft}
                   disabled={!plan || saveStatus === 'saving'}
@@ -1428,10 +1526,19 @@ export default function LessonPlansPage() {
                                 placeholder="Activity title..."
                                 className="flex-1 px-2 py-1 bg-bg-input border border-accent rounded text-text-primary text-xs focus:outline-none"
                               />
+                              <button
+                                onMouseDown={e => e.preventDefault()}
+                                onClick={() => setAddRepeat(r => !r)}
+                                title={`Repeat every ${WEEKDAY_LABELS[new Date(date + 'T12:00:00').getDay()]}`}
+                                className={`px-1.5 rounded border text-xs transition-colors ${
+                                  addRepeat ? 'border-accent text-accent bg-accent/10' : 'border-border text-text-muted hover:text-accent'
+                                }`}>
+                                <Repeat size={12} />
+                              </button>
                             </div>
                           ) : (
                             <button
-                              onClick={() => { setAddingFor({ date, classId: cls.id }); setAddTitle(''); }}
+                              onClick={() => { setAddingFor({ date, classId: cls.id }); setAddTitle(''); setAddRepeat(false); }}
                               className="text-[0.65rem] text-text-muted hover:text-accent transition-colors">
                               + Add Activity
                             </button>
@@ -5,6 +5,8 @@ import Link from 'next/link';
 import DayDetailModal from '@/components/DayDetailModal';
 import TaskTable from '@/components/TaskTable';
 import EmailTaskQueue from '@/components/EmailTaskQueue';
+import SubAttendanceReports from '@/components/SubAttendanceReports';
+import SubFeedbackReports from '@/components/SubFeedbackReports';
 import { DashboardStatsSkeleton, WeekStripSkeleton, TaskTableSkeleton, LessonsSkeleton } from '@/components/Skeleton';
 import type { Task } from '@/lib/types';
 import { localDateStr, nextSchoolDay } from '@/lib/task-helpers';
@@ -369,6 +371,12 @@ export default function Dashboard() {
       {/* Email Task Queue — only renders when there are pending items */}
       <EmailTaskQueue onTaskCreated={loadWeekDays} />
 
+      {/* Sub attendance summary — only renders when there are unreviewed days */}
+      <SubAttendanceReports />
+
+      {/* Sub end-of-day reports — only renders when one is unreviewed */}
+      <SubFeedbackReports />
+
       {loading ? (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <TaskTableSkeleton />
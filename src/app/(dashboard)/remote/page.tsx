@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import DisplayControls from '@/components/DisplayControls';
+import { clockTime, periodAt, type DaySchedule } from '@/lib/bell-schedule';
+import { formatCountdown, timerRemaining, type DisplayState, type TimerAction } from '@/lib/display-state';
+import { localDateStr } from '@/lib/task-helpers';
+
+interface AgendaActivity {
+  id: number;
+  class_id: number;
+  title: string;
+  is_done: boolean;
+}
+
+interface AgendaData {
+  bell_schedule: DaySchedule | null;
+  classes: { id: number; name: string }[];
+  activities: AgendaActivity[];
+}
+
+const PRESET_MINUTES = [1, 2, 3, 5, 10, 15];
+
+/** Phone remote for the classroom TV: drive paired displays, switch to the agenda and run segment timers. */
+export default function DisplayRemotePage() {
+  const [state, setState] = useState<DisplayState | null>(null);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [agenda, setAgenda] = useState<AgendaData | null>(null);
+  const [label, setLabel] = useState('');
+  const [minutesByActivity, setMinutesByActivity] = useState<Record<number, string>>({});
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const [sending, setSending] = useState(false);
+  const { showToast } = useToast();
+  const today = localDateStr();
+
+  const applyResponse = useCallback((data: DisplayState & { server_time: string }) => {
+    setState({ mode: data.mode, timer: data.timer });
+    setClockOffsetMs(new Date(data.server_time).getTime() - Date.now());
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/display/state')
+      .then(r => r.json())
+      .then(data => { if (!data.error) applyResponse(data); })
+      .catch(() => {});
+    fetch(`/api/display/agenda?date=${today}`)
+      .then(r => r.json())
+      .then(data => { if (!data.error) setAgenda(data); })
+      .catch(() => {});
+  }, [applyResponse, today]);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  async function send(action: TimerAction) {
+    setSending(true);
+    try {
+      const res = await fetch('/api/display/state', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update display');
+      applyResponse(data);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update display', true);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  function startTimer(minutes: number, timerLabel: string, activityId: number | null = null) {
+    if (!(minutes > 0)) return;
+    send({ action: 'start', label: timerLabel || `${minutes} minute timer`, seconds: minutes * 60, activity_id: activityId });
+  }
+
+  const timer = state?.timer ?? null;
+  const left = timer ? timerRemaining(timer, nowMs + clockOffsetMs) : 0;
+
+  // Activities for whoever is in the room now (or next), else every class
+  const periods = agenda?.bell_schedule?.periods || [];
+  const { current, next } = periodAt(periods, clockTime());
+  const focusClassId = (current || next)?.class_id ?? null;
+  const classesShown = (agenda?.classes || []).filter(c =>
+    focusClassId ? c.id === focusClassId : (agenda?.activities || []).some(a => a.class_id === c.id)
+  );
+
+  const btnCls = 'px-3 py-2 rounded-lg border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent transition-colors disabled:opacity-50';
+
+  return (
+    <div className="max-w-md mx-auto space-y-5">
+      <div>
+        <h1 className="text-2xl font-bold text-text-primary">TV Remote</h1>
+        <p className="text-sm text-text-muted">Controls the classroom display while it&apos;s open on today&apos;s date.</p>
+      </div>
+
+      <DisplayControls />
+
+      {/* Mode */}
+      <div className="grid grid-cols-2 gap-2">
+        {(['bellringer', 'agenda'] as const).map(m => (
+          <button
+            key={m}
+            onClick={() => send({ action: 'mode', mode: m })}
+            disabled={sending}
+            className={`py-3 rounded-xl font-semibold text-sm border transition-colors ${
+              state?.mode === m ? 'border-accent bg-accent/15 text-accent' : 'border-border bg-bg-card text-text-secondary'
+            }`}
+          >
+            {m === 'bellringer' ? 'Bellringer' : 'Agenda & Timer'}
+          </button>
+        ))}
+      </div>
+
+      {/* Running timer */}
+      <div className="rounded-xl bg-bg-card border border-border p-5 text-center">
+        {timer ? (
+          <>
+            <p className="text-sm text-text-secondary">{timer.label}</p>
+            <p className={`text-5xl font-bold tabular-nums my-2 ${left === 0 ? 'text-accent-red' : 'text-text-primary'}`}>
+              {formatCountdown(left)}
+            </p>
+            <p className="text-xs text-text-muted mb-3">{timer.started_at ? (left === 0 ? 'Done' : 'Running') : 'Paused'}</p>
+            <div className="grid grid-cols-4 gap-2">
+              {timer.started_at
+                ? <button onClick={() => send({ action: 'pause' })} disabled={sending} className={btnCls}>Pause</button>
+                : <button onClick={() => send({ action: 'resume' })} disabled={sending} className={btnCls}>Resume</button>}
+              <button onClick={() => send({ action: 'add', seconds: 60 })} disabled={sending} className={btnCls}>+1 min</button>
+              <button onClick={() => send({ action: 'reset' })} disabled={sending} className={btnCls}>Reset</button>
+              <button onClick={() => send({ action: 'clear' })} disabled={sending} className={`${btnCls} hover:text-accent-red`}>Clear</button>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-text-muted italic py-4">No timer running</p>
+        )}
+      </div>
+
+      {/* Quick timer */}
+      <div className="rounded-xl bg-bg-card border border-border p-5 space-y-3">
+        <h2 className="text-sm font-semibold text-text-primary">Quick timer</h2>
+        <input
+          value={label}
+          onChange={e => setLabel(e.target.value)}
+          placeholder="Label (e.g. Partner share)"
+          className="w-full px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none"
+        />
+        <div className="grid grid-cols-3 gap-2">
+          {PRESET_MINUTES.map(m => (
+            <button key={m} onClick={() => startTimer(m, label.trim())} disabled={sending}
+              className="py-3 rounded-lg bg-accent/15 text-accent font-semibold text-sm hover:bg-accent/25 disabled:opacity-50">
+              {m} min
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Today's activities */}
+      <div className="rounded-xl bg-bg-card border border-border p-5">
+        <h2 className="text-sm font-semibold text-text-primary mb-3">
+          {focusClassId ? `${(current || next)?.class_name}${current ? '' : ' (next)'}` : 'Today'}
+        </h2>
+        {classesShown.length === 0 ? (
+          <p className="text-sm text-text-muted italic">No activities today.</p>
+        ) : (
+          <div className="space-y-4">
+            {classesShown.map(cls => (
+              <div key={cls.id}>
+                {!focusClassId && <p className="text-xs font-semibold text-text-muted uppercase tracking-wider mb-1.5">{cls.name}</p>}
+                <ul className="space-y-2">
+                  {(agenda?.activities || []).filter(a => a.class_id === cls.id).map(a => (
+                    <li key={a.id} className={`flex items-center gap-2 ${a.is_done ? 'opacity-50' : ''}`}>
+                      <span className={`flex-1 min-w-0 text-sm truncate ${timer?.activity_id === a.id ? 'text-accent font-semibold' : 'text-text-primary'}`}>
+                        {a.title}
+                      </span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={180}
+                        value={minutesByActivity[a.id] ?? '10'}
+                        onChange={e => setMinutesByActivity(prev => ({ ...prev, [a.id]: e.target.value }))}
+                        className="w-14 px-2 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-sm text-center focus:border-accent focus:outline-none"
+                        aria-label="Minutes"
+                      />
+                      <button
+                        onClick={() => startTimer(parseInt(minutesByActivity[a.id] ?? '10'), a.title, a.id)}
+                        disabled={sending}
+                        className="px-3 py-1.5 bg-accent text-bg-primary rounded-lg font-semibold text-xs hover:brightness-110 disabled:opacity-50"
+                      >
+                        Start
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,10 @@
 import { useEffect, useState } from 'react';
 import { SettingsSkeleton } from '@/components/Skeleton';
 import { useToast } from '@/components/Toast';
+import AIUsagePanel from '@/components/AIUsagePanel';
+import CalendarSyncPanel from '@/components/CalendarSyncPanel';
+import BellSchedulePanel from '@/components/BellSchedulePanel';
+import { parsePeriodsToNumbers } from '@/lib/bell-schedule';
 
 interface ClassInfo {
   id: number;
@@ -11,7 +15,14 @@ interface ClassInfo {
   color: string | null;
 }
 
-type AIProvider = 'gemini' | 'anthropic';
+type AIProvider = 'gemini' | 'anthropic' | 'openai' | 'fixture';
+
+const AI_PROVIDERS: { value: AIProvider; label: string }[] = [
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'anthropic', label: 'Anthropic Claude' },
+  { value: 'openai', label: 'Local Server' },
+  { value: 'fixture', label: 'Offline Demo' },
+];
 
 const GEMINI_MODELS = [
   { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (Recommended)' },
@@ -25,22 +36,6 @@ const ANTHROPIC_MODELS = [
   { value: 'claude-opus-4-20250514', label: 'Claude Opus 4 (Best)' },
 ];
 
-function parsePeriodsToNumbers(periodsStr: string | null, maxPeriod = 10): number[] {
-  if (!periodsStr) return [];
-  const nums: number[] = [];
-  // Split on common separators and extract individual numbers
-  const parts = periodsStr.split(/[,\s]+/);
-  for (const part of parts) {
-    // Extract leading digits from each part (e.g., "1st" -> 1, "3rd" -> 3)
-    const match = part.match(/^(\d+)/);
-    if (match) {
-      const n = parseInt(match[1]);
-      if (!isNaN(n) && n >= 1 && n <= maxPeriod) nums.push(n);
-    }
-  }
-  return [...new Set(nums)];
-}
-
 function periodsNumbersToString(nums: number[]): string {
   if (nums.length === 0) return '';
   const sorted = [...new Set(nums)].sort((a, b) => a - b);
@@ -58,6 +53,7 @@ export default function SettingsPage() {
   const [provider, setProvider] = useState<AIProvider>('gemini');
   const [geminiModel, setGeminiModel] = useState('gemini-2.5-flash');
   const [anthropicModel, setAnthropicModel] = useState('claude-sonnet-4-20250514');
+  const [openaiModel, setOpenaiModel] = useState('');
   const [schoolName, setSchoolName] = useState('');
   const [teacherName, setTeacherName] = useState('');
   const [schoolYear, setSchoolYear] = useState('');
@@ -96,6 +92,7 @@ export default function SettingsPage() {
         const loadedGeminiModel = settings.gemini_model || 'gemini-2.5-flash';
         setGeminiModel(validGeminiModels.includes(loadedGeminiModel) ? loadedGeminiModel : 'gemini-2.5-flash');
         setAnthropicModel(settings.anthropic_model || 'claude-sonnet-4-20250514');
+        setOpenaiModel(settings.openai_model || '');
         setSchoolName(settings.school_name || '');
         setTeacherName(settings.teacher_name || '');
         setSchoolYear(settings.school_year || '');
@@ -109,6 +106,8 @@ export default function SettingsPage() {
         setEnvStatus({
           gemini: settings._env_gemini === 'configured',
           anthropic: settings._env_anthropic === 'configured',
+          openai: settings._env_openai === 'configured',
+          openai_base_url: settings._env_openai_base_url === 'configured',
           ms_client_id: settings._env_ms_client_id === 'configured',
           ms_client_secret: settings._env_ms_client_secret === 'configured',
           ms_tenant_id: settings._env_ms_tenant_id === 'configured',
@@ -185,6 +184,7 @@ export default function SettingsPage() {
         ai_provider: provider,
         gemini_model: geminiModel,
         anthropic_model: anthropicModel,
+        openai_model: openaiModel,
       }),
     });
     showToast('AI settings saved!');
@@ -446,6 +446,9 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Bell Schedules */}
+      <BellSchedulePanel />
+
       {/* Calendar */}
       <div className="rounded-xl bg-bg-card border border-border p-5">
         <h2 className="text-lg font-semibold text-text-primary mb-4">Calendar</h2>
@@ -455,6 +458,7 @@ export default function SettingsPage() {
         <button onClick={seedCalendar} disabled={seedingCalendar} className={btnCls}>
           {seedingCalendar ? 'Importing...' : 'Import School Calendar'}
         </button>
+        <CalendarSyncPanel classes={classes} />
       </div>
 
       {/* AI Provider */}
@@ -462,27 +466,20 @@ export default function SettingsPage() {
         <h2 className="text-lg font-semibold text-text-primary mb-4">AI Provider</h2>
 
         {/* Provider Toggle */}
-        <div className="flex gap-2 mb-5">
-          <button
-            onClick={() => setProvider('gemini')}
-            className={`flex-1 py-2.5 rounded-lg font-semibold text-sm transition-all ${
-              provider === 'gemini'
-                ? 'bg-accent text-bg-primary'
-                : 'bg-bg-input text-text-muted border border-border hover:border-accent'
-            }`}
-          >
-            Google Gemini
-          </button>
-          <button
-            onClick={() => setProvider('anthropic')}
-            className={`flex-1 py-2.5 rounded-lg font-semibold text-sm transition-all ${
-              provider === 'anthropic'
-                ? 'bg-accent text-bg-primary'
-                : 'bg-bg-input text-text-muted border border-border hover:border-accent'
-            }`}
-          >
-            Anthropic Claude
-          </button>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-5">
+          {AI_PROVIDERS.map(p => (
+            <button
+              key={p.value}
+              onClick={() => setProvider(p.value)}
+              className={`py-2.5 rounded-lg font-semibold text-sm transition-all ${
+                provider === p.value
+                  ? 'bg-accent text-bg-primary'
+                  : 'bg-bg-input text-text-muted border border-border hover:border-accent'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
         </div>
 
         {/* Gemini Settings */}
@@ -541,11 +538,53 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* OpenAI-compatible Settings */}
+        <div className={`space-y-3 mt-4 ${provider === 'openai' ? '' : 'opacity-40 pointer-events-none'}`}>
+          <div>
+            <label className={labelCls}>Server URL</label>
+            <div className="flex items-center gap-2 mt-1">
+              {envStatus.openai_base_url ? (
+                <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-accent-green/10 text-accent-green text-xs font-medium border border-accent-green/30">
+                  <span className="w-1.5 h-1.5 rounded-full bg-accent-green" />
+                  Configured in .env.local
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-bg-input text-text-muted text-xs font-medium border border-border">
+                  Not set — using http://localhost:11434/v1 (set OPENAI_BASE_URL in .env.local)
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-text-muted mt-1">
+              Any OpenAI-compatible endpoint — Ollama, llama.cpp, LM Studio. An optional OPENAI_API_KEY in .env.local is sent as a bearer token
+              {envStatus.openai ? ' (configured).' : '.'}
+            </p>
+          </div>
+          <div>
+            <label className={labelCls}>Model</label>
+            <input
+              type="text"
+              value={openaiModel}
+              onChange={e => setOpenaiModel(e.target.value)}
+              placeholder="llama3.1"
+              className={inputCls}
+            />
+          </div>
+        </div>
+
+        {provider === 'fixture' && (
+          <p className="text-sm text-text-secondary mt-4">
+            Offline demo returns canned sample content without contacting any AI service. Use it to try the app or run demos without an API key.
+          </p>
+        )}
+
         <button onClick={saveAISettings} className={`${btnCls} mt-5`}>
           Save AI Settings
         </button>
       </div>
 
+      {/* AI Usage */}
+      <AIUsagePanel />
+
       {/* Email Integration */}
       <div className="rounded-xl bg-bg-card border border-border p-5">
         <h2 className="text-lg font-semibold text-text-primary mb-4">Email Integration</h2>
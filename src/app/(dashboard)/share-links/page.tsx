@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import type { ShareLink, ShareLinkAccess } from '@/lib/share-links';
+
+interface PairedDisplay {
+  id: number;
+  name: string;
+  paired_at: string | null;
+  last_seen_at: string | null;
+}
+
+const KIND_LABELS: Record<ShareLink['kind'], string> = {
+  subdash: 'Sub Plans',
+  lesson_plan: 'Lesson Plans',
+};
+
+const STATE_STYLES: Record<ShareLink['state'], string> = {
+  active: 'bg-accent-green/15 text-accent-green',
+  expired: 'bg-accent-yellow/15 text-accent-yellow',
+  revoked: 'bg-accent-red/15 text-accent-red',
+};
+
+const OUTCOME_LABELS: Record<ShareLinkAccess['outcome'], string> = {
+  viewed: 'Opened',
+  pin_failed: 'Wrong PIN',
+  expired: 'Refused (expired)',
+  revoked: 'Refused (turned off)',
+};
+
+function formatWhen(iso: string | null): string {
+  if (!iso) return 'never';
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/** ISO timestamp as a datetime-local input value, in the browser's time zone. */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
+  return d.toISOString().slice(0, 16);
+}
+
+const btnCls = 'px-3 py-1.5 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors disabled:opacity-50';
+const dangerBtnCls = 'px-3 py-1.5 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent-red hover:text-accent-red transition-colors disabled:opacity-50';
+const inputCls = 'px-3 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+
+function LinkCard({ link, onChanged }: { link: ShareLink; onChanged: () => void }) {
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+  const [expires, setExpires] = useState(toLocalInput(link.expires_at));
+  const [pin, setPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [access, setAccess] = useState<ShareLinkAccess[] | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function update(body: Record<string, unknown>, success: string) {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/share-links/${link.kind}/${link.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update link');
+      showToast(success);
+      setPin('');
+      onChanged();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update link', true);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function regenerate() {
+    const ok = await confirm({
+      title: 'Replace link?',
+      message: 'The current link will stop working right away. Anyone who still needs access will need the new one.',
+      confirmLabel: 'Replace',
+      variant: 'warning',
+    });
+    if (ok) update({ regenerate: true }, 'New link created');
+  }
+
+  function toggleAccess() {
+    if (access) {
+      setAccess(null);
+      return;
+    }
+    fetch(`/api/share-links/${link.kind}/${link.id}/access`)
+      .then(r => r.json())
+      .then(data => setAccess(Array.isArray(data) ? data : []))
+      .catch(() => showToast('Failed to load access log', true));
+  }
+
+  function copyLink() {
+    navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  return (
+    <div className="rounded-lg bg-bg-secondary border border-border/50 p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="text-sm font-semibold text-text-primary">
+            {link.title}
+            <span className={`ml-2 px-1.5 py-0.5 rounded text-[0.65rem] font-semibold ${STATE_STYLES[link.state]}`}>
+              {link.state === 'active' ? 'Active' : link.state === 'expired' ? 'Expired' : 'Turned off'}
+            </span>
+            {link.has_pin && (
+              <span className="ml-1 px-1.5 py-0.5 rounded text-[0.65rem] font-semibold bg-accent/15 text-accent">PIN</span>
+            )}
+          </h3>
+          <p className="text-xs text-text-muted mt-0.5">
+            {link.views} view{link.views === 1 ? '' : 's'} &middot; last opened {formatWhen(link.last_viewed_at)}
+            {link.failed_pins > 0 && <span className="text-accent-red"> &middot; {link.failed_pins} wrong PIN{link.failed_pins === 1 ? '' : 's'}</span>}
+            {' '}&middot; {link.expires_at ? `expires ${formatWhen(link.expires_at)}` : 'never expires'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={copyLink} className={btnCls}>{copied ? 'Copied!' : 'Copy Link'}</button>
+          <button onClick={toggleAccess} className={btnCls}>{access ? 'Hide Log' : 'Access Log'}</button>
+          {link.revoked_at ? (
+            <button onClick={() => update({ revoked: false }, 'Link turned back on')} disabled={saving} className={btnCls}>Turn On</button>
+          ) : (
+            <button onClick={() => update({ revoked: true }, 'Link turned off')} disabled={saving}
+              className={dangerBtnCls}>
+              Turn Off
+            </button>
+          )}
+          <button onClick={regenerate} disabled={saving} className={btnCls}>New Link</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="datetime-local" value={expires} onChange={e => setExpires(e.target.value)} className={inputCls} aria-label="Expires" />
+        <button
+          onClick={() => update({ expires_at: expires ? new Date(expires).toISOString() : null }, expires ? 'Expiry saved' : 'Expiry removed')}
+          disabled={saving || expires === toLocalInput(link.expires_at)}
+          className={btnCls}>
+          {expires ? 'Save Expiry' : 'Never Expire'}
+        </button>
+        <span className="w-px h-5 bg-border mx-1" />
+        <input type="text" value={pin} onChange={e => setPin(e.target.value)} placeholder={link.has_pin ? 'New PIN' : 'Set a PIN'}
+          autoComplete="off" className={`${inputCls} w-32`} />
+        <button onClick={() => update({ pin }, 'PIN saved')} disabled={saving || !pin.trim()} className={btnCls}>Save PIN</button>
+        {link.has_pin && (
+          <button onClick={() => update({ pin: null }, 'PIN removed')} disabled={saving} className={btnCls}>Remove PIN</button>
+        )}
+      </div>
+
+      {access && (
+        access.length === 0 ? (
+          <p className="text-xs text-text-muted italic">Nobody has opened this link yet.</p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto divide-y divide-border/50 text-xs">
+            {access.map(a => (
+              <li key={a.id} className="flex items-center gap-3 py-1.5">
+                <span className="w-28 shrink-0 text-text-muted">{formatWhen(a.created_at)}</span>
+                <span className={`w-32 shrink-0 font-semibold ${a.outcome === 'viewed' ? 'text-text-primary' : 'text-accent-red'}`}>
+                  {OUTCOME_LABELS[a.outcome]}
+                </span>
+                <span className="truncate text-text-muted">{a.user_agent || 'Unknown device'}</span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
+/** Every public link the teacher has handed out: sub plans, published lesson plans, paired TVs and the calendar feed. */
+export default function ShareLinksPage() {
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [displays, setDisplays] = useState<PairedDisplay[]>([]);
+  const [feed, setFeed] = useState<{ token: string | null; created_at: string | null }>({ token: null, created_at: null });
+  const [loading, setLoading] = useState(true);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const loadLinks = useCallback(() => {
+    return fetch('/api/share-links')
+      .then(r => r.json())
+      .then(data => setLinks(Array.isArray(data) ? data : []))
+      .catch(() => showToast('Failed to load links', true));
+  }, [showToast]);
+
+  useEffect(() => {
+    Promise.all([
+      loadLinks(),
+      fetch('/api/display/sessions')
+        .then(r => r.json())
+        .then(data => setDisplays(Array.isArray(data) ? data : []))
+        .catch(() => {}),
+      fetch('/api/calendar/feed')
+        .then(r => r.json())
+        .then(data => { if (!data.error) setFeed(data); })
+        .catch(() => {}),
+    ]).finally(() => setLoading(false));
+  }, [loadLinks]);
+
+  async function unpair(display: PairedDisplay) {
+    const ok = await confirm({
+      title: 'Unpair display?',
+      message: `"${display.name}" will show a new pairing code and stop taking commands.`,
+      confirmLabel: 'Unpair',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/display/sessions/${display.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to unpair display', true);
+      return;
+    }
+    setDisplays(prev => prev.filter(d => d.id !== display.id));
+  }
+
+  async function rotateFeed() {
+    const ok = await confirm({
+      title: 'Replace calendar feed link?',
+      message: 'Calendars subscribed to the old link will stop updating until they subscribe to the new one.',
+      confirmLabel: 'Replace',
+      variant: 'warning',
+    });
+    if (!ok) return;
+    const res = await fetch('/api/calendar/feed', { method: 'POST' });
+    const data = await res.json();
+    if (!res.ok) {
+      showToast(data.error || 'Failed to replace feed link', true);
+      return;
+    }
+    setFeed(data);
+    showToast('New feed link created');
+  }
+
+  async function disableFeed() {
+    const res = await fetch('/api/calendar/feed', { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to turn off feed', true);
+      return;
+    }
+    setFeed({ token: null, created_at: null });
+  }
+
+  const shown = showInactive ? links : links.filter(l => l.state === 'active');
+  const inactiveCount = links.length - links.filter(l => l.state === 'active').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary">Shared Links</h1>
+          <p className="text-sm text-text-muted">Everything that can be opened without signing in. Set expiry dates and PINs, or turn links off.</p>
+        </div>
+        {inactiveCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} />
+            Show expired and turned-off ({inactiveCount})
+          </label>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="rounded-xl bg-bg-card border border-border p-5 text-sm text-text-muted">Loading...</div>
+      ) : (
+        <>
+          {(['subdash', 'lesson_plan'] as const).map(kind => {
+            const kindLinks = shown.filter(l => l.kind === kind);
+            return (
+              <div key={kind} className="rounded-xl bg-bg-card border border-border p-5">
+                <h2 className="text-lg font-semibold text-text-primary mb-3">{KIND_LABELS[kind]}</h2>
+                {kindLinks.length === 0 ? (
+                  <p className="text-sm text-text-muted italic">No {showInactive ? '' : 'active '}links.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {kindLinks.map(link => (
+                      <LinkCard key={`${link.kind}-${link.id}-${link.path}`} link={link} onChanged={loadLinks} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="rounded-xl bg-bg-card border border-border p-5">
+            <h2 className="text-lg font-semibold text-text-primary mb-3">Classroom Displays</h2>
+            {displays.length === 0 ? (
+              <p className="text-sm text-text-muted italic">No paired displays.</p>
+            ) : (
+              <ul className="space-y-2">
+                {displays.map(d => (
+                  <li key={d.id} className="flex items-center justify-between gap-3 rounded-lg bg-bg-secondary border border-border/50 px-4 py-2.5">
+                    <div>
+                      <p className="text-sm font-semibold text-text-primary">{d.name}</p>
+                      <p className="text-xs text-text-muted">Paired {formatWhen(d.paired_at)} &middot; last seen {formatWhen(d.last_seen_at)}</p>
+                    </div>
+                    <button onClick={() => unpair(d)} className={dangerBtnCls}>Unpair</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="rounded-xl bg-bg-card border border-border p-5">
+            <h2 className="text-lg font-semibold text-text-primary mb-3">Calendar Feed</h2>
+            {feed.token ? (
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-text-secondary">On since {formatWhen(feed.created_at)}. Anyone with the subscription link can see your schedule.</p>
+                <div className="flex items-center gap-2">
+                  <button onClick={rotateFeed} className={btnCls}>New Link</button>
+                  <button onClick={disableFeed} className={dangerBtnCls}>Turn Off</button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-text-muted italic">Off. Turn it on from Settings.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
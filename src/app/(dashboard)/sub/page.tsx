@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import { localDateStr } from '@/lib/task-helpers';
 import { useConfirm } from '@/components/ConfirmDialog';
+import { useToast } from '@/components/Toast';
+import SubReportView from '@/components/SubReportView';
+import type { Job, SubDashReport } from '@/lib/types';
 
 // ── Types ──
 
@@ -37,6 +40,8 @@ interface PlanSummary {
   status: string;
   mode: string;
   sub_name: string | null;
+  sub_report_submitted_at: string | null;
+  sub_report_reviewed_at: string | null;
   created_at: string;
 }
 
@@ -67,6 +72,24 @@ interface SubDashSnapshot {
   custom_notes: string | null;
 }
 
+interface EmergencyPlanning {
+  picks: Array<{ class_id: number; class_name: string; title: string; material_type: string | null; material_error: string | null }>;
+  plan_error: string | null;
+}
+
+interface EmergencyResult {
+  share_url: string;
+  /** Planning for empty classes; null when every class already had something */
+  job: Job | null;
+  email_sent: boolean;
+  email_message: string;
+  text_sent: boolean;
+  text_message: string;
+  office_text_number: string | null;
+}
+
+const EMERGENCY_POLL_MS = 2000;
+
 // ── Helpers ──
 
 function formatDate(dateStr: string) {
@@ -207,9 +230,37 @@ function ClassroomProfileTab({ classes }: { classes: ClassInfo[] }) {
         />
       </div>
 
+      {/* Office contact for emergency sub plans */}
+      <div className="flex flex-wrap gap-4">
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1">Office Email</label>
+          <input
+            type="email"
+            value={profile.office_email || ''}
+            onChange={e => setProfile({ ...profile, office_email: e.target.value })}
+            placeholder="attendance@school.org"
+            className="w-64 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary focus:border-accent focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-text-secondary mb-1">Office Text Number</label>
+          <input
+            type="tel"
+            value={profile.office_text_number || ''}
+            onChange={e => setProfile({ ...profile, office_text_number: e.target.value })}
+            placeholder="e.g. +14055551234"
+            className="w-64 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary focus:border-accent focus:outline-none"
+          />
+        </div>
+        <p className="w-full text-xs text-text-muted -mt-2">The emergency button sends the sub plan link here.</p>
+      </div>
+
       {/* Schedule Builder */}
       <div>
-        <label className="block text-sm font-medium text-text-secondary mb-2">Schedule</label>
+        <label className="block text-sm font-medium text-text-secondary mb-1">Schedule</label>
+        <p className="text-xs text-text-muted mb-2">
+          When bell schedules are set up in Settings, sub plans use that day&apos;s times (early release, assembly) and these rows only pick the class for each period.
+        </p>
         <div className="space-y-2">
           {schedule.map((row, idx) => (
             <div key={idx} className="flex items-center gap-2">
@@ -270,7 +321,10 @@ function ClassroomProfileTab({ classes }: { classes: ClassInfo[] }) {
 
       {/* Seating Charts */}
       <div>
-        <label className="block text-sm font-medium text-text-secondary mb-2">Seating Charts</label>
+        <label className="block text-sm font-medium text-text-secondary mb-1">Seating Charts</label>
+        <p className="text-xs text-text-muted mb-2">
+          Charts built on each class&apos;s Seating Charts tab are added to sub plans automatically. Upload photos here for anything else.
+        </p>
         <div className="flex flex-wrap gap-3 mb-2">
           {seatingCharts.map((url, i) => (
             <div key={i} className="relative group">
@@ -766,14 +820,17 @@ function GenerateTab({
 
 export default function SubDashPage() {
   const { confirm } = useConfirm();
+  const { showToast } = useToast();
   const [activeTab, setActiveTab] = useState<'profile' | 'media' | 'generate'>('profile');
   const [plans, setPlans] = useState<PlanSummary[]>([]);
   const [classes, setClasses] = useState<ClassInfo[]>([]);
   const [media, setMedia] = useState<MediaItem[]>([]);
   const [loadingPlans, setLoadingPlans] = useState(true);
   const [emergencyLoading, setEmergencyLoading] = useState(false);
-  const [emergencyResult, setEmergencyResult] = useState<{ share_url: string } | null>(null);
+  const [emergencyResult, setEmergencyResult] = useState<EmergencyResult | null>(null);
+  const [emergencyJob, setEmergencyJob] = useState<Job | null>(null);
   const [copied, setCopied] = useState('');
+  const [openReport, setOpenReport] = useState<{ planId: number; report: SubDashReport | null } | null>(null);
 
   const loadPlans = useCallback(async () => {
     setLoadingPlans(true);
@@ -807,27 +864,47 @@ export default function SubDashPage() {
     loadMedia();
   }, [loadPlans, loadClasses, loadMedia]);
 
+  // Poll the planning job until the picks and handouts are in
+  const emergencyJobId = emergencyJob?.id;
+  const emergencyJobActive = emergencyJob?.status === 'queued' || emergencyJob?.status === 'running';
+  const emergencyPlanning = emergencyJob?.result as EmergencyPlanning | null | undefined;
+  useEffect(() => {
+    if (!emergencyJobId || !emergencyJobActive) return;
+    const timer = setInterval(() => {
+      fetch(`/api/jobs/${emergencyJobId}`)
+        .then(r => r.json())
+        .then(data => { if (!data.error) setEmergencyJob(data); })
+        .catch(() => {});
+    }, EMERGENCY_POLL_MS);
+    return () => clearInterval(timer);
+  }, [emergencyJobId, emergencyJobActive]);
+
   async function handleEmergency() {
     const ok = await confirm({
       title: 'Emergency SubDash',
-      message: 'Create an Emergency SubDash for TODAY? This will be immediately shareable.',
+      message: 'Out TODAY? Classes with nothing planned get a backup activity and handout, the SubDash is shared right away, and the office is emailed and texted the link.',
       confirmLabel: 'Create Now',
       variant: 'warning',
     });
     if (!ok) return;
     setEmergencyLoading(true);
     try {
-      const res = await fetch('/api/sub/plans', {
+      const res = await fetch('/api/sub/emergency', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ date: getToday(), mode: 'emergency', media_ids: [] }),
+        body: JSON.stringify({ date: getToday() }),
       });
       const data = await res.json();
       if (res.ok) {
-        setEmergencyResult({ share_url: data.share_url });
+        setEmergencyResult(data);
+        setEmergencyJob(data.job);
         loadPlans();
+      } else {
+        showToast(data.error || 'Failed to create the emergency SubDash', true);
       }
-    } catch { /* ignore */ }
+    } catch {
+      showToast('Failed to create the emergency SubDash', true);
+    }
     setEmergencyLoading(false);
   }
 
@@ -838,6 +915,32 @@ export default function SubDashPage() {
     } catch { /* ignore */ }
   }
 
+  async function toggleReport(plan: PlanSummary) {
+    if (openReport?.planId === plan.id) {
+      setOpenReport(null);
+      return;
+    }
+    setOpenReport({ planId: plan.id, report: null });
+    try {
+      const res = await fetch(`/api/sub/plans/${plan.id}`);
+      const data = await res.json();
+      if (res.ok) setOpenReport({ planId: plan.id, report: data.sub_report });
+    } catch { /* ignore */ }
+  }
+
+  async function markReportReviewed(id: number) {
+    try {
+      const res = await fetch(`/api/sub/plans/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ report_reviewed: true }),
+      });
+      if (res.ok) {
+        setPlans(plans.map(p => p.id === id ? { ...p, sub_report_reviewed_at: new Date().toISOString() } : p));
+      }
+    } catch { /* ignore */ }
+  }
+
   function copyToClipboard(text: string, key: string) {
     navigator.clipboard.writeText(text);
     setCopied(key);
@@ -866,7 +969,7 @@ export default function SubDashPage() {
         disabled={emergencyLoading}
         className="w-full py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl font-bold text-base transition-colors disabled:opacity-50"
       >
-        {emergencyLoading ? 'Creating...' : "I'm Sick — Emergency SubDash for Today"}
+        {emergencyLoading ? 'Sharing your SubDash...' : "I'm Out Today — Emergency SubDash"}
       </button>
 
       {/* Emergency result */}
@@ -882,6 +985,39 @@ export default function SubDashPage() {
               {copied === 'emergency' ? 'Copied!' : 'Copy'}
             </button>
           </div>
+          {emergencyJobActive && (
+            <p className="text-sm text-text-muted">
+              Planning empty classes and handouts… the SubDash updates as each one is ready.
+            </p>
+          )}
+          {emergencyPlanning && emergencyPlanning.picks.length > 0 && (
+            <ul className="space-y-1 text-sm text-text-secondary">
+              {emergencyPlanning.picks.map(p => (
+                <li key={p.class_id}>
+                  <span className="font-semibold text-text-primary">{p.class_name}:</span> {p.title}
+                  {p.material_type && !p.material_error && <span className="text-text-muted"> (+ {p.material_type.replace(/_/g, ' ')})</span>}
+                  {p.material_error && <span className="text-accent-red"> (handout failed: {p.material_error})</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {emergencyPlanning?.plan_error && (
+            <p className="text-sm text-accent-yellow">Empty classes were not planned: {emergencyPlanning.plan_error}. The sub will see your backup activities.</p>
+          )}
+          <div className="space-y-0.5 text-xs">
+            <p className={emergencyResult.email_sent ? 'text-accent-green' : 'text-text-muted'}>{emergencyResult.email_message}</p>
+            <p className={emergencyResult.text_sent ? 'text-accent-green' : 'text-text-muted'}>
+              {emergencyResult.text_message}
+              {!emergencyResult.text_sent && emergencyResult.office_text_number && (
+                <a
+                  href={`sms:${emergencyResult.office_text_number}?&body=${encodeURIComponent(`Sub plans for today: ${emergencyResult.share_url}`)}`}
+                  className="ml-2 font-semibold text-red-400 hover:underline"
+                >
+                  Text it from this phone
+                </a>
+              )}
+            </p>
+          </div>
           <div className="flex justify-center">
             <img
               src={`https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(emergencyResult.share_url)}`}
@@ -932,6 +1068,7 @@ export default function SubDashPage() {
                   <th className="text-left px-4 py-2 font-medium">Mode</th>
                   <th className="text-left px-4 py-2 font-medium">Status</th>
                   <th className="text-left px-4 py-2 font-medium">Sub</th>
+                  <th className="text-left px-4 py-2 font-medium">Report</th>
                   <th className="text-right px-4 py-2 font-medium">Actions</th>
                 </tr>
               </thead>
@@ -939,7 +1076,8 @@ export default function SubDashPage() {
                 {plans.map(plan => {
                   const planUrl = `${window.location.origin}/subdash/${plan.share_token}`;
                   return (
-                    <tr key={plan.id} className="border-b border-border/50 last:border-0">
+                    <Fragment key={plan.id}>
+                    <tr className="border-b border-border/50 last:border-0">
                       <td className="px-4 py-2 text-text-primary">{formatDate(plan.date)}</td>
                       <td className="px-4 py-2">
                         <span className={`inline-block px-2 py-0.5 rounded-full text-[11px] font-semibold ${
@@ -960,6 +1098,18 @@ export default function SubDashPage() {
                         </span>
                       </td>
                       <td className="px-4 py-2 text-text-muted">{plan.sub_name || '—'}</td>
+                      <td className="px-4 py-2">
+                        {plan.sub_report_submitted_at ? (
+                          <button onClick={() => toggleReport(plan)} className="text-accent hover:underline text-xs">
+                            {openReport?.planId === plan.id ? 'Hide' : 'View'}
+                            {!plan.sub_report_reviewed_at && (
+                              <span className="ml-1.5 inline-block px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-accent/15 text-accent">new</span>
+                            )}
+                          </button>
+                        ) : (
+                          <span className="text-text-muted">—</span>
+                        )}
+                      </td>
                       <td className="px-4 py-2 text-right space-x-2">
                         {plan.status === 'shared' && (
                           <>
@@ -975,6 +1125,29 @@ export default function SubDashPage() {
                         <button onClick={() => deletePlan(plan.id)} className="text-accent-red hover:underline text-xs">Delete</button>
                       </td>
                     </tr>
+                    {openReport?.planId === plan.id && (
+                      <tr className="border-b border-border/50 last:border-0">
+                        <td colSpan={6} className="px-4 py-3 bg-bg-secondary/40">
+                          {openReport.report ? (
+                            <>
+                              <div className="flex items-center justify-between mb-3">
+                                <p className="text-xs text-text-muted">
+                                  From {openReport.report.submitted_by || plan.sub_name || 'the sub'}
+                                  {plan.sub_report_submitted_at && <> &middot; {new Date(plan.sub_report_submitted_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</>}
+                                </p>
+                                {!plan.sub_report_reviewed_at && (
+                                  <button onClick={() => markReportReviewed(plan.id)} className="text-accent hover:underline text-xs">Mark Reviewed</button>
+                                )}
+                              </div>
+                              <SubReportView report={openReport.report} />
+                            </>
+                          ) : (
+                            <p className="text-xs text-text-muted">Loading...</p>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
                   );
                 })}
               </tbody>
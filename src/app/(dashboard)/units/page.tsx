@@ -0,0 +1,335 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import UnitEditor, { type UnitDraft } from '@/components/UnitEditor';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import type { CalendarEvent, ClassInfo, Standard, Unit } from '@/lib/types';
+import { localDateStr } from '@/lib/task-helpers';
+
+const MONTH_ABBR = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Event types drawn over the timeline; everything else stays on the Calendar page
+const OVERLAY_EVENTS: Record<string, { color: string; label: string }> = {
+  holiday: { color: 'bg-accent-red/40', label: 'Holiday' },
+  break: { color: 'bg-card2/40', label: 'Break' },
+  testing: { color: 'bg-accent-yellow/60', label: 'Testing' },
+};
+
+/** The school year runs August through June; before July we're still in last year's. */
+function currentSchoolYear(): number {
+  const now = new Date();
+  return now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1;
+}
+
+function toDate(dateStr: string): Date {
+  return new Date(dateStr + 'T12:00:00');
+}
+
+function formatShort(dateStr: string): string {
+  const d = toDate(dateStr);
+  return `${MONTH_ABBR[d.getMonth()]} ${d.getDate()}`;
+}
+
+function mondayOf(dateStr: string): string {
+  const d = toDate(dateStr);
+  const day = d.getDay();
+  d.setDate(d.getDate() + (day === 0 ? -6 : 1 - day));
+  return localDateStr(d);
+}
+
+function addDays(dateStr: string, days: number): string {
+  const d = toDate(dateStr);
+  d.setDate(d.getDate() + days);
+  return localDateStr(d);
+}
+
+/** Greedy lane assignment so overlapping units in one row stack instead of covering each other. */
+function assignLanes(units: Unit[]): { unit: Unit; lane: number }[] {
+  const laneEnds: string[] = [];
+  return [...units]
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .map(unit => {
+      let lane = laneEnds.findIndex(end => end < unit.start_date);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = unit.end_date;
+      return { unit, lane };
+    });
+}
+
+export default function UnitsPage() {
+  const [schoolYear, setSchoolYear] = useState(currentSchoolYear);
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [classes, setClasses] = useState<ClassInfo[]>([]);
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ unit: Unit | null; defaults?: Partial<UnitDraft> } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  const yearStart = `${schoolYear}-08-01`;
+  const yearEnd = `${schoolYear + 1}-06-30`;
+  const totalDays = Math.round((toDate(yearEnd).getTime() - toDate(yearStart).getTime()) / DAY_MS) + 1;
+  const today = localDateStr();
+
+  const loadUnits = useCallback(() => {
+    return fetch('/api/units')
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setUnits(data); })
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    Promise.all([
+      loadUnits(),
+      fetch('/api/classes').then(r => r.json()).then(data => { if (Array.isArray(data)) setClasses(data); }),
+      fetch('/api/standards').then(r => r.json()).then(data => { if (Array.isArray(data)) setStandards(data); }),
+    ])
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [loadUnits]);
+
+  useEffect(() => {
+    fetch(`/api/calendar/events?start=${yearStart}&end=${yearEnd}`)
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setEvents(data.filter((e: CalendarEvent) => OVERLAY_EVENTS[e.event_type])); })
+      .catch(() => {});
+  }, [yearStart, yearEnd]);
+
+  async function saveUnit(draft: UnitDraft) {
+    setSaving(true);
+    try {
+      const unitId = editing?.unit?.id;
+      const res = await fetch(unitId ? `/api/units/${unitId}` : '/api/units', {
+        method: unitId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save unit');
+      setEditing(null);
+      showToast(unitId ? 'Unit updated' : 'Unit created');
+      loadUnits();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save unit', true);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteUnit(unit: Unit) {
+    const ok = await confirm({
+      title: 'Delete Unit',
+      message: `Delete "${unit.title}"? Lesson plans and activities in it are kept.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/units/${unit.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to delete unit', true);
+      return;
+    }
+    setUnits(prev => prev.filter(u => u.id !== unit.id));
+    showToast('Unit deleted');
+  }
+
+  /** Clicking empty track space starts a four-week unit on that week's Monday. */
+  function startUnitAt(e: React.MouseEvent<HTMLDivElement>, classId: number | null) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dayIndex = Math.floor(((e.clientX - rect.left) / rect.width) * totalDays);
+    const start = mondayOf(addDays(yearStart, dayIndex));
+    setEditing({
+      unit: null,
+      defaults: { start_date: start, end_date: addDays(start, 25), class_ids: classId ? [classId] : [] },
+    });
+  }
+
+  const position = (start: string, end: string) => {
+    const from = Math.max(0, Math.round((toDate(start).getTime() - toDate(yearStart).getTime()) / DAY_MS));
+    const to = Math.min(totalDays, Math.round((toDate(end).getTime() - toDate(yearStart).getTime()) / DAY_MS) + 1);
+    return { left: `${(from / totalDays) * 100}%`, width: `${(Math.max(to - from, 1) / totalDays) * 100}%` };
+  };
+
+  // Month header cells, each as wide as its share of the year
+  const months: { label: string; days: number }[] = [];
+  for (let m = 0; m < 11; m++) {
+    const d = new Date(schoolYear, 7 + m, 1);
+    months.push({ label: MONTH_ABBR[d.getMonth()], days: new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate() });
+  }
+
+  const yearUnits = units.filter(u => u.start_date <= yearEnd && u.end_date >= yearStart);
+  const rows: { id: number | null; name: string; color: string }[] = classes.length > 0
+    ? classes.map(c => ({ id: c.id, name: c.name, color: c.color || '#4ECDC4' }))
+    : [{ id: null, name: 'All classes', color: '#4ECDC4' }];
+  const className = (id: number) => classes.find(c => c.id === id)?.name || 'Unknown class';
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-text-primary">Curriculum Map</h1>
+          <p className="text-sm text-text-muted">Units for the year. Weekly brainstorms are seeded with the unit each week falls in.</p>
+        </div>
+        <button
+          onClick={() => setEditing({ unit: null, defaults: { start_date: mondayOf(today), end_date: addDays(mondayOf(today), 25) } })}
+          className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110"
+        >
+          New Unit
+        </button>
+      </div>
+
+      {/* Year navigation */}
+      <div className="flex items-center justify-between">
+        <button onClick={() => setSchoolYear(y => y - 1)} className="p-2 text-text-secondary hover:text-accent transition-colors rounded-lg hover:bg-hover"><ChevronLeft size={20} /></button>
+        <h2 className="text-xl font-bold text-text-primary">{schoolYear}–{String(schoolYear + 1).slice(2)} School Year</h2>
+        <button onClick={() => setSchoolYear(y => y + 1)} className="p-2 text-text-secondary hover:text-accent transition-colors rounded-lg hover:bg-hover"><ChevronRight size={20} /></button>
+      </div>
+
+      {/* Timeline */}
+      {loading ? (
+        <div className="h-64 rounded-xl bg-bg-card border border-border animate-pulse" />
+      ) : (
+        <div className="rounded-xl bg-bg-card border border-border p-4 overflow-x-auto">
+          <div className="min-w-[900px]">
+            {/* Month header */}
+            <div className="flex ml-36 border-b border-border">
+              {months.map((m, i) => (
+                <div key={i} style={{ width: `${(m.days / totalDays) * 100}%` }}
+                  className="text-xs text-text-muted font-semibold uppercase py-1 pl-1 border-l border-border">
+                  {m.label}
+                </div>
+              ))}
+            </div>
+
+            {rows.map(row => {
+              const rowUnits = yearUnits.filter(u => row.id === null || u.class_ids.length === 0 || u.class_ids.includes(row.id));
+              const placed = assignLanes(rowUnits);
+              const lanes = Math.max(1, ...placed.map(p => p.lane + 1));
+              return (
+                <div key={row.id ?? 'all'} className="flex border-b border-border last:border-b-0">
+                  <div className="w-36 shrink-0 py-2 pr-2 flex items-center gap-2">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: row.color }} />
+                    <span className="text-sm text-text-primary truncate">{row.name}</span>
+                  </div>
+                  <div
+                    className="relative flex-1 cursor-copy"
+                    style={{ height: `${lanes * 34 + 8}px` }}
+                    onClick={e => startUnitAt(e, row.id)}
+                    title="Click an empty spot to start a unit that week"
+                  >
+                    {/* Holiday / testing overlay */}
+                    {events.map(evt => (
+                      <div key={evt.id} title={`${formatShort(evt.date)} — ${evt.title}`}
+                        className={`absolute inset-y-0 min-w-[2px] ${OVERLAY_EVENTS[evt.event_type].color}`}
+                        style={position(evt.date, evt.date)} />
+                    ))}
+                    {today >= yearStart && today <= yearEnd && (
+                      <div className="absolute inset-y-0 w-px bg-accent" style={{ left: position(today, today).left }} />
+                    )}
+                    {placed.map(({ unit, lane }) => (
+                      <button
+                        key={unit.id}
+                        onClick={e => { e.stopPropagation(); setEditing({ unit }); }}
+                        className="absolute h-[30px] rounded-md px-2 text-left text-xs font-semibold text-text-primary truncate border-l-4 hover:brightness-125 transition-all cursor-pointer"
+                        style={{
+                          ...position(unit.start_date, unit.end_date),
+                          top: `${lane * 34 + 4}px`,
+                          backgroundColor: `${row.color}33`,
+                          borderColor: row.color,
+                        }}
+                        title={`${unit.title}\n${formatShort(unit.start_date)} – ${formatShort(unit.end_date)}${unit.essential_question ? `\n${unit.essential_question}` : ''}`}
+                      >
+                        {unit.title}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+            {Object.entries(OVERLAY_EVENTS).map(([type, o]) => (
+              <span key={type} className="inline-flex items-center gap-1.5 text-xs text-text-secondary">
+                <span className={`w-2.5 h-2.5 rounded-sm ${o.color}`} />
+                {o.label}
+              </span>
+            ))}
+            <span className="inline-flex items-center gap-1.5 text-xs text-text-secondary">
+              <span className="w-px h-3 bg-accent" />
+              Today
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Unit details */}
+      {!loading && (
+        yearUnits.length === 0 ? (
+          <p className="text-sm text-text-muted text-center py-6">No units this school year yet. Click the timeline or New Unit to add one.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {[...yearUnits].sort((a, b) => a.start_date.localeCompare(b.start_date)).map(unit => {
+              const active = unit.start_date <= today && unit.end_date >= today;
+              const unitStandards = standards.filter(s => unit.standard_ids.includes(s.id));
+              return (
+                <div key={unit.id} className={`rounded-xl bg-bg-card border p-4 ${active ? 'border-accent' : 'border-border'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="text-base font-semibold text-text-primary truncate">{unit.title}</h3>
+                      <p className="text-xs text-text-muted">
+                        {formatShort(unit.start_date)} – {formatShort(unit.end_date)}
+                        {' · '}
+                        {unit.class_ids.length > 0 ? unit.class_ids.map(className).join(', ') : 'All classes'}
+                        {active && <span className="ml-2 text-accent font-semibold">Current</span>}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <button onClick={() => setEditing({ unit })} className="px-2 py-1 text-xs text-text-secondary hover:text-accent">Edit</button>
+                      <button onClick={() => deleteUnit(unit)} className="px-2 py-1 text-xs text-text-secondary hover:text-accent-red">Delete</button>
+                    </div>
+                  </div>
+                  {unit.essential_question && (
+                    <p className="text-sm text-text-primary italic mt-2">{unit.essential_question}</p>
+                  )}
+                  {unit.goals && <p className="text-sm text-text-secondary mt-2 whitespace-pre-line">{unit.goals}</p>}
+                  {unit.anchor_texts.length > 0 && (
+                    <p className="text-xs text-text-secondary mt-2">
+                      <span className="text-text-muted">Anchor texts:</span> {unit.anchor_texts.join(' · ')}
+                    </p>
+                  )}
+                  {unitStandards.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {unitStandards.map(s => (
+                        <span key={s.id} title={s.description} className="px-1.5 py-0.5 rounded bg-accent/15 text-accent text-[11px] font-mono">{s.code}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {editing && (
+        <UnitEditor
+          key={editing.unit?.id ?? 'new'}
+          unit={editing.unit}
+          defaults={editing.defaults}
+          classes={classes}
+          standards={standards}
+          saving={saving}
+          onSave={saveUnit}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
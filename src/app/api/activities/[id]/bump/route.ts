@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { localDateStr } from '@/lib/task-helpers';
-
-function getNextSchoolDay(dateStr: string): string {
-  const d = new Date(dateStr + 'T12:00:00');
-  d.setDate(d.getDate() + 1);
-  while (d.getDay() === 0 || d.getDay() === 6) {
-    d.setDate(d.getDate() + 1);
-  }
-  return localDateStr(d);
-}
+import { applyReschedule, matchesPreview, planActivityBump, RescheduleConflictError, type RescheduleMode } from '@/lib/rescheduler';
 
+/**
+ * POST — bump an activity to the next school day (skipping holidays and breaks).
+ * Body (all optional):
+ *   mode: 'single' (default) or 'shift' to move the rest of the class's unit behind it
+ *   days: school days to move (default 1)
+ *   skip_testing: treat testing days as days off
+ *   preview: true to return the moves without applying them
+ *   expected: the previewed moves ([{ id, to }]); 409 if the plan has changed since
+ */
 export async function POST(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -21,42 +21,53 @@ export async function POST(
     const { supabase } = auth;
 
     const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const mode: RescheduleMode = body.mode === 'shift' ? 'shift' : 'single';
 
-    const { data: activity, error: fetchError } = await supabase
-      .from('activities')
-      .select('*')
-      .eq('id', parseInt(id))
-      .single();
+    const options = { days: body.days, skipTesting: body.skip_testing === true };
+    let plan;
+    try {
+      plan = await planActivityBump(supabase, parseInt(id), mode, options);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error';
+      return NextResponse.json({ error: message }, { status: message === 'Activity not found' ? 404 : 400 });
+    }
 
-    if (fetchError || !activity) {
-      return NextResponse.json({ error: 'Activity not found' }, { status: 404 });
+    if (body.preview) {
+      return NextResponse.json({ preview: true, ...plan });
     }
 
-    const currentDate = activity.date;
-    if (!currentDate) {
-      return NextResponse.json({ error: 'Activity has no date to bump from' }, { status: 400 });
+    if (Array.isArray(body.expected) && !matchesPreview(plan, body.expected)) {
+      return NextResponse.json(
+        { error: 'The schedule changed since the preview. Review the new moves and apply again.', ...plan },
+        { status: 409 }
+      );
     }
 
-    const nextDay = getNextSchoolDay(currentDate);
+    try {
+      await applyReschedule(supabase, plan);
+    } catch (e) {
+      if (!(e instanceof RescheduleConflictError)) throw e;
+      // Something moved between planning and saving — send the fresh plan back, like a stale preview
+      const fresh = await planActivityBump(supabase, parseInt(id), mode, options);
+      return NextResponse.json(
+        { error: 'The schedule changed while saving. Review the new moves and apply again.', ...fresh },
+        { status: 409 }
+      );
+    }
 
-    const { data: updated, error: updateError } = await supabase
+    const { data: updated } = await supabase
       .from('activities')
-      .update({
-        date: nextDay,
-        moved_to_date: nextDay,
-      })
-      .eq('id', parseInt(id))
       .select('*, classes(name, periods, color)')
+      .eq('id', parseInt(id))
       .single();
 
-    if (updateError) {
-      return NextResponse.json({ error: updateError.message }, { status: 500 });
-    }
-
+    const own = plan.moves.find(m => m.id === parseInt(id));
     return NextResponse.json({
       activity: updated,
-      bumped_from: currentDate,
-      bumped_to: nextDay,
+      bumped_from: own?.from ?? null,
+      bumped_to: own?.to ?? null,
+      moves: plan.moves,
     });
   } catch (err) {
     return NextResponse.json(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { getAIConfig, getGeminiModel, generateWithRetry } from '@/lib/ai-service';
+import { generateWithRetry } from '@/lib/ai-service';
+import { REGENERATED_ACTIVITY_SCHEMA } from '@/lib/ai-schemas';
 import { tagActivityWithStandards } from '@/lib/standards-tagger';
 
 const REGEN_SYSTEM_PROMPT = `You are a creative lesson plan assistant for a high school teacher. Generate ONE alternative activity to replace an existing one.
@@ -69,16 +70,10 @@ ${brainstormSummary ? `Context from the teacher's brainstorm conversation:\n${br
 
 Generate a DIFFERENT activity that fits this class and day. Respond with ONLY valid JSON.`;
 
-    const aiConfig = await getAIConfig();
-    const model = aiConfig.provider === 'gemini'
-      ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-      : null;
-
     const result = await generateWithRetry(
-      model,
       REGEN_SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.9, maxOutputTokens: 500 }
+      { feature: 'brainstorm', temperature: 0.9, maxOutputTokens: 500, schema: REGENERATED_ACTIVITY_SCHEMA }
     );
 
     const title = (result.title as string) || 'Untitled Activity';
@@ -0,0 +1,276 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { requireAuth } from '@/lib/auth';
+import { parseCSV } from '@/lib/csv';
+import { rowIdentity, studentNameKey, sortRoster, toRosterStudent, studentDisplayName } from '@/lib/roster-helpers';
+import {
+  extractAnswerKey,
+  isAutoGradable,
+  parseLetterAnswers,
+  scoreAnswers,
+  analyzeItems,
+  answersFromCSVRow,
+  type AnswerKeyItem,
+} from '@/lib/quiz-grader';
+import type { RosterStudent, QuizResponse } from '@/lib/types';
+
+async function loadActivityKey(supabase: SupabaseClient, activityId: number) {
+  const { data: activity } = await supabase
+    .from('activities')
+    .select('id, class_id, title, material_content, points_possible')
+    .eq('id', activityId)
+    .maybeSingle();
+
+  if (!activity) return null;
+  return { activity, key: extractAnswerKey(activity.material_content) };
+}
+
+async function loadRoster(supabase: SupabaseClient, classId: number): Promise<RosterStudent[]> {
+  const { data } = await supabase
+    .from('class_enrollments')
+    .select('id, period, students(*)')
+    .eq('class_id', classId);
+
+  return sortRoster(
+    (data ?? []).map(row => toRosterStudent(row)).filter((s): s is RosterStudent => s !== null)
+  );
+}
+
+/** Responses joined with roster names, plus item analysis and a summary. */
+async function buildReport(supabase: SupabaseClient, activityId: number, key: AnswerKeyItem[], roster: RosterStudent[]) {
+  const { data, error } = await supabase
+    .from('quiz_responses')
+    .select('*')
+    .eq('activity_id', activityId);
+
+  if (error) throw error;
+
+  const responses = (data ?? []) as QuizResponse[];
+  const byStudent = new Map(roster.map(s => [s.id, s]));
+  const scores = responses.map(r => Number(r.score ?? 0));
+  const possible = key.filter(k => k.correct !== null).reduce((sum, k) => sum + k.points, 0);
+
+  return {
+    key,
+    roster: roster.map(s => ({ id: s.id, name: studentDisplayName(s), period: s.period })),
+    responses: responses
+      .map(r => ({ ...r, student_name: byStudent.has(r.student_id) ? studentDisplayName(byStudent.get(r.student_id)!) : 'Unknown student' }))
+      .sort((a, b) => a.student_name.localeCompare(b.student_name)),
+    item_analysis: analyzeItems(key, responses.map(r => r.answers)),
+    summary: {
+      count: responses.length,
+      possible,
+      average: scores.length > 0 ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10 : null,
+      average_percent: scores.length > 0 && possible > 0
+        ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length / possible) * 100)
+        : null,
+    },
+  };
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+    const loaded = await loadActivityKey(supabase, parseInt(id));
+    if (!loaded) {
+      return NextResponse.json({ error: 'Activity not found' }, { status: 404 });
+    }
+
+    const roster = await loadRoster(supabase, loaded.activity.class_id);
+    return NextResponse.json(await buildReport(supabase, loaded.activity.id, loaded.key, roster));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Score student answers and record the totals in the gradebook.
+ *
+ * JSON body: { entries: [{ student_id, answers: "ABDC..." }] }
+ * Multipart: file = bubble-sheet CSV with a student ID or name column and
+ * either Q1..Qn columns or a single "answers" column.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const loaded = await loadActivityKey(supabase, parseInt(id));
+    if (!loaded) {
+      return NextResponse.json({ error: 'Activity not found' }, { status: 404 });
+    }
+
+    const { activity, key } = loaded;
+    if (!isAutoGradable(key)) {
+      return NextResponse.json(
+        { error: 'This activity has no multiple-choice answer key to grade against' },
+        { status: 400 }
+      );
+    }
+
+    const roster = await loadRoster(supabase, activity.class_id);
+    const rosterIds = new Set(roster.map(s => s.id));
+    const entries: Array<{ student_id: number; answers: Array<string | null> }> = [];
+    const unmatched: string[] = [];
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!file || !(file instanceof Blob)) {
+        return NextResponse.json({ error: 'CSV file is required' }, { status: 400 });
+      }
+
+      const rows = parseCSV(await file.text());
+      const byNumber = new Map(roster.filter(s => s.student_number).map(s => [s.student_number!, s.id]));
+      const byName = new Map(roster.map(s => [studentNameKey(s), s.id]));
+
+      for (const row of rows) {
+        const ident = rowIdentity(row);
+        const studentId = (ident.student_number && byNumber.get(ident.student_number))
+          || (ident.first_name ? byName.get(studentNameKey(ident)) : undefined);
+
+        if (!studentId) {
+          unmatched.push(`${ident.first_name} ${ident.last_name}`.trim() || ident.student_number || '(blank row)');
+          continue;
+        }
+        entries.push({ student_id: studentId, answers: answersFromCSVRow(row, key.length) });
+      }
+    } else {
+      const body = await request.json();
+      for (const entry of Array.isArray(body.entries) ? body.entries : []) {
+        const studentId = Number(entry.student_id);
+        if (!rosterIds.has(studentId)) continue;
+        const answers = Array.isArray(entry.answers)
+          ? entry.answers.map((a: string | null) => (a ? String(a).toUpperCase().charAt(0) : null))
+          : parseLetterAnswers(String(entry.answers ?? ''), key.length);
+        entries.push({ student_id: studentId, answers });
+      }
+    }
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No student answers matched the class roster', unmatched },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    // A student listed twice keeps their last row
+    const latest = new Map(entries.map(e => [e.student_id, e.answers]));
+    const scored = [...latest].map(([studentId, answers]) => ({ student_id: studentId, ...scoreAnswers(key, answers) }));
+    const possible = scored[0].possible;
+
+    const { error: respError } = await supabase
+      .from('quiz_responses')
+      .upsert(
+        scored.map(s => ({
+          activity_id: activity.id,
+          student_id: s.student_id,
+          answers: s.answers,
+          score: s.score,
+          possible: s.possible,
+          updated_at: now,
+          user_id: user.id,
+        })),
+        { onConflict: 'activity_id,student_id' }
+      );
+
+    if (respError) {
+      return NextResponse.json({ error: respError.message }, { status: 500 });
+    }
+
+    // Push totals into the gradebook; the quiz total becomes the point value
+    const { error: actError } = await supabase
+      .from('activities')
+      .update({ is_graded: true, points_possible: possible })
+      .eq('id', activity.id);
+
+    if (actError) {
+      return NextResponse.json({ error: actError.message }, { status: 500 });
+    }
+
+    const { error: gradeError } = await supabase
+      .from('grades')
+      .upsert(
+        scored.map(s => ({
+          activity_id: activity.id,
+          student_id: s.student_id,
+          score: s.score,
+          is_excused: false,
+          is_missing: false,
+          updated_at: now,
+          user_id: user.id,
+        })),
+        { onConflict: 'activity_id,student_id' }
+      );
+
+    if (gradeError) {
+      return NextResponse.json({ error: gradeError.message }, { status: 500 });
+    }
+
+    const report = await buildReport(supabase, activity.id, key, roster);
+    return NextResponse.json({ ...report, scored: scored.length, unmatched });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Remove one student's response (and the score it pushed to the gradebook). */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+    const studentId = new URL(request.url).searchParams.get('student_id');
+    if (!studentId) {
+      return NextResponse.json({ error: 'student_id is required' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('quiz_responses')
+      .delete()
+      .eq('activity_id', parseInt(id))
+      .eq('student_id', parseInt(studentId));
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await supabase
+      .from('grades')
+      .delete()
+      .eq('activity_id', parseInt(id))
+      .eq('student_id', parseInt(studentId));
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
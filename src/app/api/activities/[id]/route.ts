@@ -44,7 +44,7 @@ export async function PATCH(
 
     const updates: Record<string, unknown> = {};
     const allowed = ['title', 'description', 'activity_type', 'date', 'sort_order',
-      'material_status', 'material_content', 'is_done', 'is_graded', 'moved_to_date', 'class_id'];
+      'material_status', 'material_content', 'is_done', 'is_graded', 'points_possible', 'moved_to_date', 'class_id'];
 
     for (const key of allowed) {
       if (key in body) {
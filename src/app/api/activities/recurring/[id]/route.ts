@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
+
+// DELETE — stop repeating. Past copies stay; upcoming copies that aren't done are removed too.
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+
+    const { data: removed, error: activityError } = await supabase
+      .from('activities')
+      .delete()
+      .eq('recurrence_id', parseInt(id))
+      .eq('is_done', false)
+      .gt('date', localDateStr())
+      .select('id');
+
+    if (activityError) {
+      return NextResponse.json({ error: activityError.message }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('activity_recurrences')
+      .delete()
+      .eq('id', parseInt(id));
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, removed_activities: removed?.length || 0 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
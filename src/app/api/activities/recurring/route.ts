@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
+
+// GET — recurring activity rules that haven't ended, with their class
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { data, error } = await supabase
+      .from('activity_recurrences')
+      .select('*, classes(name, color)')
+      .or(`ends_on.is.null,ends_on.gte.${localDateStr()}`)
+      .order('class_id', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
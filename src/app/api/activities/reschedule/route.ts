@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { applyReschedule, matchesPreview, planDayClosure, RescheduleConflictError } from '@/lib/rescheduler';
+
+/**
+ * POST — close a day (snow day) and shift every class's remaining unit
+ * activities forward one school day. Body: { date, title?, class_id?,
+ * skip_testing?, preview?, expected? } — same preview/apply flow as bump.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const body = await request.json();
+    const { date, title, class_id } = body;
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date (YYYY-MM-DD) is required' }, { status: 400 });
+    }
+
+    const closureTitle = title?.trim() || 'No school';
+    const options = {
+      classId: class_id ? parseInt(class_id) : undefined,
+      skipTesting: body.skip_testing === true,
+    };
+    const plan = await planDayClosure(supabase, date, closureTitle, options);
+
+    if (body.preview) {
+      return NextResponse.json({ preview: true, ...plan });
+    }
+
+    if (Array.isArray(body.expected) && !matchesPreview(plan, body.expected)) {
+      return NextResponse.json(
+        { error: 'The schedule changed since the preview. Review the new moves and apply again.', ...plan },
+        { status: 409 }
+      );
+    }
+
+    let moved: number;
+    try {
+      moved = await applyReschedule(supabase, plan);
+    } catch (e) {
+      if (!(e instanceof RescheduleConflictError)) throw e;
+      // Something moved between planning and saving — send the fresh plan back, like a stale preview
+      const fresh = await planDayClosure(supabase, date, closureTitle, options);
+      return NextResponse.json(
+        { error: 'The schedule changed while saving. Review the new moves and apply again.', ...fresh },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ moved, moves: plan.moves, closure: plan.closure });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
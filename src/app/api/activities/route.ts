@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -46,12 +47,41 @@ export async function POST(request: NextRequest) {
     const { user, supabase } = auth;
 
     const body = await request.json();
-    const { class_id, date, title, description, activity_type, lesson_plan_id, material_status, sort_order } = body;
+    const { class_id, date, title, description, activity_type, lesson_plan_id, material_status, sort_order, repeat_weekdays, repeat_until } = body;
 
     if (!class_id || !title?.trim()) {
       return NextResponse.json({ error: 'class_id and title are required' }, { status: 400 });
     }
 
+    // Optional weekly repeat: save a rule that later weeks' plans pick up (see lib/recurrence)
+    let recurrenceId: number | null = null;
+    if (Array.isArray(repeat_weekdays) && repeat_weekdays.length > 0) {
+      const weekdays = repeat_weekdays.map(Number).filter((d: number) => d >= 1 && d <= 5);
+      if (weekdays.length === 0) {
+        return NextResponse.json({ error: 'repeat_weekdays must be 1 (Mon) through 5 (Fri)' }, { status: 400 });
+      }
+      const { data: rule, error: ruleError } = await supabase
+        .from('activity_recurrences')
+        .insert({
+          class_id,
+          title: title.trim(),
+          description: description || null,
+          activity_type: activity_type || 'lesson',
+          material_status: material_status || 'not_needed',
+          weekdays,
+          starts_on: date || localDateStr(),
+          ends_on: repeat_until || null,
+          user_id: user.id,
+        })
+        .select('id')
+        .single();
+
+      if (ruleError || !rule) {
+        return NextResponse.json({ error: ruleError?.message || 'Failed to save repeat' }, { status: 500 });
+      }
+      recurrenceId = rule.id;
+    }
+
     const { data, error } = await supabase
       .from('activities')
       .insert({
@@ -63,6 +93,7 @@ export async function POST(request: NextRequest) {
         lesson_plan_id: lesson_plan_id || null,
         material_status: material_status || 'not_needed',
         sort_order: sort_order ?? 0,
+        recurrence_id: recurrenceId,
         user_id: user.id,
       })
       .select('*, classes(name, periods, color)')
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { aiDailyLimit, countAICallsToday, summarizeUsageByWeek, weekStart, type AIUsageRow } from '@/lib/ai-usage';
+
+// GET /api/ai-usage?weeks=8 — weekly usage by feature plus today's count vs. the daily limit
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const weeks = Math.min(26, Math.max(1, parseInt(request.nextUrl.searchParams.get('weeks') || '8') || 8));
+    const since = weekStart(new Date());
+    since.setDate(since.getDate() - (weeks - 1) * 7);
+
+    // Paginate — batch generation can log well over Supabase's 1000-row default
+    let rows: AIUsageRow[] = [];
+    let from = 0;
+    const pageSize = 1000;
+    while (true) {
+      const { data, error } = await supabase
+        .from('ai_usage')
+        .select('feature, input_tokens, output_tokens, cost_usd, success, created_at')
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true })
+        .range(from, from + pageSize - 1);
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+      if (data) rows = rows.concat(data);
+      if (!data || data.length < pageSize) break;
+      from += pageSize;
+    }
+
+    const todayCount = await countAICallsToday(supabase, user.id);
+
+    return NextResponse.json({
+      weeks: summarizeUsageByWeek(rows, weeks),
+      today: {
+        calls: todayCount,
+        limit: aiDailyLimit(),
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
+import { attendanceCSV } from '@/lib/attendance';
+
+/** Download attendance as CSV for the office. ?start&end (default today) and optional class_id. */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const start = searchParams.get('start') || localDateStr();
+    const end = searchParams.get('end') || start;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(start) || !/^\d{4}-\d{2}-\d{2}$/.test(end)) {
+      return NextResponse.json({ error: 'start and end must be YYYY-MM-DD' }, { status: 400 });
+    }
+    const classId = searchParams.get('class_id') ? parseInt(searchParams.get('class_id')!) : null;
+
+    const csv = await attendanceCSV(supabase, start, end, classId);
+    const filename = start === end ? `attendance_${start}.csv` : `attendance_${start}_to_${end}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
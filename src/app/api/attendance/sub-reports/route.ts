@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadSubAttendanceReports, markSubAttendanceReviewed } from '@/lib/attendance';
+
+// GET — attendance a sub took that the teacher hasn't reviewed, by class and day
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    return NextResponse.json(await loadSubAttendanceReports(supabase));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { date? } — mark the sub's attendance reviewed (all days when no date)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    await markSubAttendanceReviewed(supabase, body.date ? String(body.date) : null);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { clockTime, periodAt, resolveDaySchedule } from '@/lib/bell-schedule';
+import { localDateStr } from '@/lib/task-helpers';
+
+// GET ?date=YYYY-MM-DD&time=HH:MM — the day's bell schedule and the period at that time.
+// Clients pass their own date and time so the answer follows the classroom clock,
+// not the server's time zone.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || localDateStr();
+    const time = searchParams.get('time') || clockTime();
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}$/.test(time)) {
+      return NextResponse.json({ error: 'Use date=YYYY-MM-DD and time=HH:MM' }, { status: 400 });
+    }
+
+    const day = await resolveDaySchedule(supabase, date);
+    if (!day) {
+      return NextResponse.json({ date, time, configured: false, schedule: null, reason: null, periods: [], current: null, next: null, minutes_left: null });
+    }
+
+    return NextResponse.json({ ...day, time, configured: true, ...periodAt(day.periods, time) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { bellScheduleFieldsFromBody } from '@/lib/bell-schedule';
+
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { data, error } = await supabase
+      .from('bell_schedules')
+      .select('*')
+      .order('id', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { fields, error: fieldError } = bellScheduleFieldsFromBody(body);
+    if (fieldError) {
+      return NextResponse.json({ error: fieldError }, { status: 400 });
+    }
+
+    // Only one default schedule per teacher
+    if (fields.is_default) {
+      await supabase.from('bell_schedules').update({ is_default: false }).eq('is_default', true);
+    }
+
+    const { data, error } = await supabase
+      .from('bell_schedules')
+      .insert({ ...fields, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadPrompts } from '@/lib/db';
+import { ensureResponseCode, groupResponses } from '@/lib/bellringer-responses';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+async function findBellringer(supabase: SupabaseClient, date: string) {
+  const { data } = await supabase
+    .from('bellringers')
+    .select('id, date, response_code, act_correct_answer')
+    .eq('date', date)
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data;
+}
+
+// GET — the response code plus everything students have sent, grouped by class period
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { date } = await params;
+    const bellringer = await findBellringer(supabase, date);
+    if (!bellringer) {
+      return NextResponse.json({ error: 'No bellringer for this date' }, { status: 404 });
+    }
+
+    const [{ data: responses, error }, { data: classes }, prompts] = await Promise.all([
+      supabase
+        .from('bellringer_responses')
+        .select('*')
+        .eq('bellringer_id', bellringer.id)
+        .order('created_at', { ascending: true }),
+      supabase.from('classes').select('id, name').order('name'),
+      loadPrompts(bellringer.id, supabase),
+    ]);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      code: bellringer.response_code,
+      act_correct_answer: (bellringer.act_correct_answer || '').trim().toUpperCase() || null,
+      prompts: prompts.map(p => ({ slot: p.slot, journal_type: p.journal_type, journal_prompt: p.journal_prompt })),
+      classes: classes || [],
+      total: responses?.length || 0,
+      groups: groupResponses(responses || []),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { rotate?: boolean } — get (or replace) the code students respond with
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { date } = await params;
+    const body = await request.json().catch(() => ({}));
+    const bellringer = await findBellringer(supabase, date);
+    if (!bellringer) {
+      return NextResponse.json({ error: 'No bellringer for this date' }, { status: 404 });
+    }
+
+    const { code, error } = await ensureResponseCode(supabase, bellringer, body.rotate === true);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ code });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id= — remove a single response (joke names, duplicates)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    const { error } = await supabase.from('bellringer_responses').delete().eq('id', id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
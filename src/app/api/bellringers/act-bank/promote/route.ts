@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { bankFieldsFromBellringer, questionKey } from '@/lib/act-bank';
+import type { Bellringer } from '@/lib/types';
+
+const RECENT_LIMIT = 60;
+
+// GET — recent bellringers' ACT questions, flagged when already in the bank
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const [{ data: bellringers, error }, { data: bank, error: bankError }] = await Promise.all([
+      supabase
+        .from('bellringers')
+        .select('id, date, act_skill, act_skill_category, act_question, act_choice_a, act_choice_b, act_choice_c, act_choice_d, act_correct_answer, act_rule')
+        .not('act_question', 'is', null)
+        .neq('act_question', '')
+        .order('date', { ascending: false })
+        .limit(RECENT_LIMIT),
+      supabase.from('act_question_bank').select('question, source_bellringer_id'),
+    ]);
+
+    if (error || bankError) {
+      return NextResponse.json({ error: (error || bankError)!.message }, { status: 500 });
+    }
+
+    const bankKeys = new Set((bank ?? []).map(r => questionKey(r.question)));
+    const promotedIds = new Set((bank ?? []).map(r => r.source_bellringer_id).filter(Boolean));
+
+    return NextResponse.json((bellringers ?? []).map(b => ({
+      ...b,
+      in_bank: promotedIds.has(b.id) || bankKeys.has(questionKey(b.act_question)),
+    })));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { bellringer_id } or { date } — copy that bellringer's ACT question into the bank
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    if (!body.bellringer_id && !body.date) {
+      return NextResponse.json({ error: 'bellringer_id or date is required' }, { status: 400 });
+    }
+
+    let query = supabase.from('bellringers').select('*');
+    query = body.bellringer_id ? query.eq('id', body.bellringer_id) : query.eq('date', body.date);
+    const { data: bellringer, error: fetchError } = await query.limit(1).maybeSingle();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+    if (!bellringer) {
+      return NextResponse.json({ error: 'Bellringer not found' }, { status: 404 });
+    }
+
+    const { fields, error: fieldsError } = bankFieldsFromBellringer(bellringer as Bellringer);
+    if (!fields) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const { data: existing } = await supabase.from('act_question_bank').select('id, question');
+    const duplicate = (existing ?? []).find(r => questionKey(r.question) === questionKey(fields.question));
+    if (duplicate) {
+      return NextResponse.json({ error: 'That question is already in your bank', id: duplicate.id }, { status: 409 });
+    }
+
+    const { data, error } = await supabase
+      .from('act_question_bank')
+      .insert({ ...fields, user_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
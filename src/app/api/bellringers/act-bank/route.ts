@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { actBankFieldsFromBody, questionKey } from '@/lib/act-bank';
+
+// GET ?category=English — the teacher's ACT bank, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const category = new URL(request.url).searchParams.get('category');
+
+    let query = supabase
+      .from('act_question_bank')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+
+    if (category) {
+      query = query.eq('skill_category', category);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST — add a question by hand
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { fields, error: fieldsError } = actBankFieldsFromBody(body);
+    if (!fields) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const { data: existing } = await supabase.from('act_question_bank').select('question');
+    if ((existing ?? []).some(r => questionKey(r.question) === questionKey(fields.question!))) {
+      return NextResponse.json({ error: 'That question is already in your bank' }, { status: 409 });
+    }
+
+    const { data, error } = await supabase
+      .from('act_question_bank')
+      .insert({ ...fields, source: 'manual', user_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
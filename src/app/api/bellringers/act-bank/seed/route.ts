@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { bankFieldsFromEntry, questionKey } from '@/lib/act-bank';
+import type { ActBankEntry } from '@/lib/types';
+import bankData from '@/data/act-questions-bank.json';
+
+// POST — copy the starter bank into the teacher's bank, skipping questions already there
+export async function POST() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('act_question_bank')
+      .select('question');
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    const existingKeys = new Set((existing ?? []).map(r => questionKey(r.question)));
+    const toInsert = (bankData as ActBankEntry[])
+      .filter(entry => !existingKeys.has(questionKey(entry.question)))
+      .map(entry => ({ ...bankFieldsFromEntry(entry), user_id: user.id }));
+
+    let insertedCount = 0;
+    const BATCH_SIZE = 100;
+
+    for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
+      const batch = toInsert.slice(i, i + BATCH_SIZE);
+      const { data, error } = await supabase.from('act_question_bank').insert(batch).select('id');
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      insertedCount += data?.length ?? batch.length;
+    }
+
+    return NextResponse.json({
+      success: true,
+      count: (bankData as ActBankEntry[]).length,
+      inserted: insertedCount,
+      skipped: (bankData as ActBankEntry[]).length - toInsert.length,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getOrCreateBellringer } from '@/lib/db';
-import { generateActQuestion } from '@/lib/bellringer-generator';
+import { generateActQuestion, pickBankActQuestion } from '@/lib/bellringer-generator';
 import { requireAuth } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
@@ -10,14 +10,17 @@ export async function POST(request: NextRequest) {
     const { user, supabase } = auth;
 
     const body = await request.json();
-    const { date, notes, skill } = body;
+    const { date, notes, skill, source } = body;
 
     if (!date) {
       return NextResponse.json({ error: 'date is required' }, { status: 400 });
     }
 
-    // Generate ACT question via AI
-    const { result, error: genError } = await generateActQuestion(notes || '', skill || '');
+    // Pull from the teacher's ACT bank when asked; an empty bank falls back to AI
+    const bankResult = source === 'bank' ? await pickBankActQuestion(skill || '', date) : null;
+    const { result, error: genError } = bankResult
+      ? { result: bankResult, error: null }
+      : await generateActQuestion(notes || '', skill || '');
     if (genError || !result) {
       return NextResponse.json({ error: genError || 'Generation failed' }, { status: 500 });
     }
@@ -47,7 +50,7 @@ export async function POST(request: NextRequest) {
 
     if (updateError) throw updateError;
 
-    return NextResponse.json({ bellringer });
+    return NextResponse.json({ bellringer, source: bankResult ? 'bank' : 'ai' });
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return NextResponse.json({ error: message }, { status: 500 });
@@ -1,17 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { generateFullBellringer } from '@/lib/bellringer-generator';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { localDateStr } from '@/lib/task-helpers';
 import { requireAuth } from '@/lib/auth';
-
-function getWeekDates(mondayStr: string): string[] {
-  const d = new Date(mondayStr + 'T12:00:00');
-  const dates: string[] = [];
-  for (let i = 0; i < 5; i++) {
-    dates.push(localDateStr(d));
-    d.setDate(d.getDate() + 1);
-  }
-  return dates;
-}
+import { enqueueJob, processJobs } from '@/lib/jobs';
 
 function getMondayOfWeek(dateStr?: string): string {
   const d = dateStr ? new Date(dateStr + 'T12:00:00') : new Date();
@@ -21,6 +11,7 @@ function getMondayOfWeek(dateStr?: string): string {
   return localDateStr(d);
 }
 
+// POST — queue a week of bellringers; poll /api/jobs/[id] for progress
 export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth();
@@ -28,97 +19,18 @@ export async function POST(request: NextRequest) {
     const { user, supabase } = auth;
 
     const body = await request.json();
-    const weekOf = body.week_of || getMondayOfWeek();
-    const teacherNotes = body.notes || '';
-    const skipExisting = body.skip_existing !== false;
-    const dayTypes: Record<string, string[]> = body.day_types || {};
-
-    const dates = getWeekDates(weekOf);
-    const results: Array<{ date: string; success: boolean; bellringer_id?: number; error?: string; skipped?: boolean }> = [];
-
-    for (const dateStr of dates) {
-      // Check if bellringer already exists for this date
-      if (skipExisting) {
-        const { data: existing } = await supabase
-          .from('bellringers')
-          .select('id')
-          .eq('date', dateStr)
-          .limit(1)
-          .maybeSingle();
-
-        if (existing) {
-          results.push({ date: dateStr, success: true, bellringer_id: existing.id, skipped: true });
-          continue;
-        }
-      }
-
-      try {
-        const typesForDay = dayTypes[dateStr] || undefined;
-        const { result, error } = await generateFullBellringer(teacherNotes, typesForDay);
-        if (error || !result) {
-          results.push({ date: dateStr, success: false, error: error || 'Generation failed' });
-          continue;
-        }
 
-        // Create bellringer row
-        const { data: bellringer, error: insertError } = await supabase
-          .from('bellringers')
-          .insert({
-            date: dateStr,
-            user_id: user.id,
-            journal_type: result.journal_type as string || null,
-            journal_prompt: result.journal_prompt as string || null,
-            journal_subprompt: result.journal_subprompt as string || 'WRITE A PARAGRAPH IN YOUR JOURNAL!',
-            act_skill_category: result.act_skill_category as string || null,
-            act_skill: result.act_skill as string || null,
-            act_question: result.act_question as string || null,
-            act_choice_a: result.act_choice_a as string || null,
-            act_choice_b: result.act_choice_b as string || null,
-            act_choice_c: result.act_choice_c as string || null,
-            act_choice_d: result.act_choice_d as string || null,
-            act_correct_answer: result.act_correct_answer as string || null,
-            act_explanation: result.act_explanation as string || null,
-            act_rule: result.act_rule as string || null,
-            status: 'draft',
-            is_approved: false,
-          })
-          .select('id')
-          .single();
-
-        if (insertError || !bellringer) {
-          results.push({ date: dateStr, success: false, error: insertError?.message || 'Insert failed' });
-          continue;
-        }
-
-        // Insert prompts if available
-        const prompts = result.prompts as Array<Record<string, string>> | undefined;
-        if (prompts && prompts.length > 0) {
-          const promptRows = prompts.map((p, i) => ({
-            bellringer_id: bellringer.id,
-            slot: i,
-            journal_type: p.journal_type || null,
-            journal_prompt: p.journal_prompt || null,
-            journal_subprompt: p.journal_subprompt || 'WRITE A PARAGRAPH IN YOUR JOURNAL!',
-          }));
-
-          await supabase.from('bellringer_prompts').insert(promptRows);
-        }
-
-        results.push({ date: dateStr, success: true, bellringer_id: bellringer.id });
-      } catch (e) {
-        results.push({ date: dateStr, success: false, error: e instanceof Error ? e.message : 'Unknown error' });
-      }
-    }
+    const job = await enqueueJob(supabase, user.id, 'bellringer_batch', {
+      week_of: body.week_of || getMondayOfWeek(),
+      notes: body.notes || '',
+      skip_existing: body.skip_existing !== false,
+      day_types: body.day_types || {},
+      act_source: body.act_source === 'bank' ? 'bank' : 'ai',
+    });
 
-    const successCount = results.filter(r => r.success && !r.skipped).length;
-    const skippedCount = results.filter(r => r.skipped).length;
-    const failedCount = results.filter(r => !r.success).length;
+    after(() => processJobs(supabase, user.id));
 
-    return NextResponse.json({
-      week_of: weekOf,
-      results,
-      summary: { generated: successCount, skipped: skippedCount, failed: failedCount },
-    });
+    return NextResponse.json({ job_id: job.id, job }, { status: 202 });
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -16,8 +16,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'date and slot are required' }, { status: 400 });
     }
 
-    // Generate a single prompt via AI
-    const { result, error: genError } = await generateSinglePrompt(prompt_type, notes || '');
+    // Generate a single prompt via AI (replaced if students saw it recently)
+    const { result, error: genError } = await generateSinglePrompt(prompt_type, notes || '', date);
     if (genError || !result) {
       return NextResponse.json({ error: genError || 'Generation failed' }, { status: 500 });
     }
@@ -10,14 +10,18 @@ export async function POST(request: NextRequest) {
     const { user, supabase } = auth;
 
     const body = await request.json();
-    const { date, notes, promptsOnly } = body;
+    const { date, notes, promptsOnly, act_source } = body;
 
     if (!date) {
       return NextResponse.json({ error: 'date is required' }, { status: 400 });
     }
 
     // Generate content via AI
-    const { result, error: genError } = await generateFullBellringer(notes || '');
+    // The bank is only consulted when the ACT question is being saved (it marks the question used)
+    const { result, error: genError } = await generateFullBellringer(notes || '', undefined, {
+      actSource: !promptsOnly && act_source === 'bank' ? 'bank' : 'ai',
+      date,
+    });
     if (genError || !result) {
       return NextResponse.json({ error: genError || 'Generation failed' }, { status: 500 });
     }
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadActMastery } from '@/lib/act-mastery';
+
+// GET ?class_id=&weeks= — ACT skill mastery from student bellringer answers
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const classId = parseInt(searchParams.get('class_id') || '') || undefined;
+    const weeks = Math.min(52, Math.max(4, parseInt(searchParams.get('weeks') || '') || 12));
+
+    const report = await loadActMastery(supabase, { classId, weeks });
+    return NextResponse.json(report);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { bankFieldsFromEntry, bankPromptText, createPromptMatcher, journalTypeFor, loadGivenPrompts } from '@/lib/prompt-bank';
+import type { PromptBankEntry } from '@/lib/types';
+import promptsData from '@/data/prompts-bank.json';
+
+// POST { from: 'starter' | 'library' } — fill the bank from the starter JSON or
+// from every prompt already given in a bellringer, skipping near-duplicates
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    const from = body.from === 'library' ? 'library' : 'starter';
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('journal_prompt_bank')
+      .select('prompt, attribution, writing_prompt');
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    const candidates = from === 'starter'
+      ? (promptsData as PromptBankEntry[]).map(bankFieldsFromEntry)
+      : (await loadGivenPrompts(supabase)).map(p => ({
+          journal_type: journalTypeFor(p.journal_type),
+          prompt: p.text.trim(),
+          attribution: null,
+          writing_prompt: null,
+          source: 'bellringer' as const,
+        }));
+
+    // Compare against the bank and against what this import already added
+    const matcher = createPromptMatcher();
+    (existing ?? []).forEach((p, i) => matcher.add(bankPromptText(p), i));
+    const toInsert: (typeof candidates[number] & { user_id: string })[] = [];
+    for (const c of candidates) {
+      const text = bankPromptText(c);
+      if (matcher.matches(text).length > 0) continue;
+      matcher.add(text, -1);
+      toInsert.push({ ...c, user_id: user.id });
+    }
+
+    let insertedCount = 0;
+    const BATCH_SIZE = 100;
+
+    for (let i = 0; i < toInsert.length; i += BATCH_SIZE) {
+      const batch = toInsert.slice(i, i + BATCH_SIZE);
+      const { data, error } = await supabase.from('journal_prompt_bank').insert(batch).select('id');
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      insertedCount += data?.length ?? batch.length;
+    }
+
+    return NextResponse.json({
+      success: true,
+      count: candidates.length,
+      inserted: insertedCount,
+      skipped: candidates.length - toInsert.length,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import {
+  bankPromptText,
+  isSimilarPrompt,
+  loadGivenPrompts,
+  loadRepeatMonths,
+  promptBankFieldsFromBody,
+  promptHistory,
+  similarBankPrompts,
+} from '@/lib/prompt-bank';
+import type { JournalBankPrompt } from '@/lib/types';
+
+// GET — the whole bank with each prompt's usage history and likely duplicates
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const [{ data, error }, given, repeatMonths] = await Promise.all([
+      supabase
+        .from('journal_prompt_bank')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false }),
+      loadGivenPrompts(supabase),
+      loadRepeatMonths(supabase),
+    ]);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const bank = (data ?? []) as JournalBankPrompt[];
+    const history = promptHistory(bank, given);
+    const similar = similarBankPrompts(bank);
+
+    return NextResponse.json({
+      repeat_months: repeatMonths,
+      prompts: bank.map(p => ({
+        ...p,
+        history: history.get(p.id) || [],
+        similar_ids: similar.get(p.id) || [],
+      })),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST — add a prompt by hand, or save one from a past bellringer ({ from_bellringer: true })
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { fields, error: fieldsError } = promptBankFieldsFromBody(body);
+    if (!fields) {
+      return NextResponse.json({ error: fieldsError }, { status: 400 });
+    }
+
+    const { data: existing } = await supabase
+      .from('journal_prompt_bank')
+      .select('id, prompt, attribution, writing_prompt');
+    const text = bankPromptText({
+      prompt: fields.prompt as string,
+      attribution: (fields.attribution as string) ?? null,
+      writing_prompt: (fields.writing_prompt as string) ?? null,
+    });
+    const duplicate = (existing ?? []).find(p => isSimilarPrompt(text, bankPromptText(p)));
+    if (duplicate) {
+      return NextResponse.json({ error: 'A very similar prompt is already in your bank', id: duplicate.id }, { status: 409 });
+    }
+
+    const { data, error } = await supabase
+      .from('journal_prompt_bank')
+      .insert({ ...fields, source: body.from_bellringer ? 'bellringer' : 'manual', user_id: user.id })
+      .select('*')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...data, history: [], similar_ids: [] }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
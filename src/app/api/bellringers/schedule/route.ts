@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { enqueueJob, processJobs } from '@/lib/jobs';
+import { gradingPeriodEnd, loadSchedulePlan, MAX_SCHEDULE_DAYS } from '@/lib/bellringer-schedule';
+import { localDateStr, nextSchoolDay } from '@/lib/task-helpers';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+// A school year, so a typo in the end date can't plan a decade
+const MAX_SPAN_DAYS = 366;
+
+function checkRange(start: string, end: string): string | null {
+  if (!DATE_RE.test(start) || !DATE_RE.test(end)) return 'start and end must be YYYY-MM-DD dates';
+  if (end < start) return 'end must be on or after start';
+  const span = (new Date(end + 'T12:00:00').getTime() - new Date(start + 'T12:00:00').getTime()) / 86_400_000;
+  if (span > MAX_SPAN_DAYS) return 'Schedule at most a year at a time';
+  return null;
+}
+
+// GET ?start=&end= — planned prompt types and saved bellringers for each weekday (end defaults to the grading period end)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const params = request.nextUrl.searchParams;
+    const start = params.get('start') || nextSchoolDay();
+    const periodEnd = await gradingPeriodEnd(supabase, start);
+    const end = params.get('end') || periodEnd.date;
+
+    const rangeError = checkRange(start, end);
+    if (rangeError) return NextResponse.json({ error: rangeError }, { status: 400 });
+
+    const plan = await loadSchedulePlan(supabase, start, end);
+    return NextResponse.json({ ...plan, grading_period_end: periodEnd, today: localDateStr() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST — queue generation for every planned school day in [start, end]; poll /api/jobs/[id] for progress
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const start = String(body.start || '');
+    const end = String(body.end || '');
+    const rangeError = checkRange(start, end);
+    if (rangeError) return NextResponse.json({ error: rangeError }, { status: 400 });
+
+    const skipExisting = body.skip_existing !== false;
+    const plan = await loadSchedulePlan(supabase, start, end);
+    const days = plan.days.filter(d => d.school_day && !(skipExisting && d.bellringer));
+
+    if (days.length === 0) {
+      return NextResponse.json({ error: 'Every school day in this range already has a bellringer' }, { status: 400 });
+    }
+    if (days.length > MAX_SCHEDULE_DAYS) {
+      return NextResponse.json({ error: `That's ${days.length} school days — schedule at most ${MAX_SCHEDULE_DAYS} at a time` }, { status: 400 });
+    }
+
+    const job = await enqueueJob(supabase, user.id, 'bellringer_batch', {
+      week_of: days[0].date,
+      dates: days.map(d => d.date),
+      notes: body.notes || '',
+      skip_existing: skipExisting,
+      day_types: Object.fromEntries(days.map(d => [d.date, d.types])),
+      act_source: body.act_source === 'bank' ? 'bank' : 'ai',
+    });
+
+    after(() => processJobs(supabase, user.id));
+
+    return NextResponse.json({ job_id: job.id, job }, { status: 202 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/db';
+import { loadCalendarFeed } from '@/lib/calendar-feed';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    // Some calendar apps only subscribe to URLs ending in .ics
+    const feedToken = token.replace(/\.ics$/i, '');
+    const classId = parseInt(request.nextUrl.searchParams.get('class_id') || '') || undefined;
+
+    const { result, error } = await loadCalendarFeed(supabase, feedToken, classId);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+    if (!result) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(result, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="schedule.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+
+// GET: the current feed token (null if the feed is off)
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token, created_at')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ token: data?.token ?? null, created_at: data?.created_at ?? null });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: turn the feed on, or rotate the token (old subscription URLs stop working)
+export async function POST() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const token = crypto.randomUUID().replace(/-/g, '');
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .upsert({ user_id: user.id, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' })
+      .select('token, created_at')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: turn the feed off
+export async function DELETE() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { error } = await supabase.from('calendar_feeds').delete().eq('user_id', user.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
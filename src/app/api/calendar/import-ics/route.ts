@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isTimeZone, parseICS } from '@/lib/ics';
+
+/**
+ * Accepts an uploaded .ics file (multipart "file") or JSON { url } for a published
+ * district calendar, either with the school's "time_zone" for placing UTC times.
+ */
+async function readCalendarText(request: NextRequest): Promise<{ text: string; timeZone: string | undefined }> {
+  const zoneFrom = (value: unknown) => (typeof value === 'string' && isTimeZone(value) ? value : undefined);
+
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    const { url, time_zone } = await request.json();
+    if (!url || typeof url !== 'string') throw new Error('Calendar URL is required');
+    const res = await fetch(url.trim().replace(/^webcal:\/\//i, 'https://'), { signal: AbortSignal.timeout(15000) });
+    if (!res.ok) throw new Error(`Calendar URL returned ${res.status}`);
+    return { text: await res.text(), timeZone: zoneFrom(time_zone) };
+  }
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+  if (!file || !(file instanceof Blob)) throw new Error('ICS file is required');
+  return { text: await file.text(), timeZone: zoneFrom(formData.get('time_zone')) };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    let text: string;
+    let timeZone: string | undefined;
+    try {
+      ({ text, timeZone } = await readCalendarText(request));
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Could not read calendar' }, { status: 400 });
+    }
+
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      return NextResponse.json({ error: 'Not an iCalendar (.ics) file' }, { status: 400 });
+    }
+
+    const parsed = parseICS(text, timeZone);
+    if (parsed.length === 0) {
+      return NextResponse.json({ error: 'No events found in calendar' }, { status: 400 });
+    }
+
+    // Re-importing the same district calendar shouldn't double every event
+    const dates = parsed.map(e => e.date).sort();
+    const { data: existing } = await supabase
+      .from('calendar_events')
+      .select('date, title')
+      .gte('date', dates[0])
+      .lte('date', dates[dates.length - 1]);
+    const seen = new Set((existing || []).map(e => `${e.date}|${(e.title || '').toLowerCase()}`));
+
+    const events = [];
+    for (const e of parsed) {
+      const key = `${e.date}|${e.title.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      events.push({ ...e, user_id: user.id });
+    }
+
+    if (events.length > 0) {
+      const { error } = await supabase.from('calendar_events').insert(events);
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ imported: events.length, skipped: parsed.length - events.length }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
+import { attendanceCounts, attendanceMarksFromBody, loadClassAttendance, saveClassAttendance } from '@/lib/attendance';
+
+// GET ?date=YYYY-MM-DD — the roster with each student's mark for the day
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+    const date = request.nextUrl.searchParams.get('date') || localDateStr();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const students = await loadClassAttendance(supabase, parseInt(id), date);
+    return NextResponse.json({ date, students, counts: attendanceCounts(students) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { date, records: [{ student_id, status, note? }] } — save the day's marks
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const classId = parseInt(id);
+    const body = await request.json();
+
+    const date = String(body.date || '');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+    const { marks, error: markError } = attendanceMarksFromBody(body.records, classId);
+    if (markError) {
+      return NextResponse.json({ error: markError }, { status: 400 });
+    }
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('id')
+      .eq('id', classId)
+      .maybeSingle();
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    const saved = await saveClassAttendance(supabase, user.id, classId, date, marks);
+    return NextResponse.json({ saved });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { toCSV } from '@/lib/csv';
+import { DEFAULT_POINTS_POSSIBLE, letterGrade, loadGradebook } from '@/lib/gradebook';
+
+/** Download the gradebook grid as CSV (one row per student). */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('id, name')
+      .eq('id', parseInt(id))
+      .maybeSingle();
+
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    const gb = await loadGradebook(supabase, classInfo.id);
+
+    const headers = [
+      'Student ID',
+      'Last Name',
+      'First Name',
+      'Period',
+      ...gb.activities.map(a =>
+        `${a.title}${a.date ? ` (${a.date})` : ''} [${a.points_possible ?? DEFAULT_POINTS_POSSIBLE}]`
+      ),
+      'Average %',
+      'Letter',
+    ];
+
+    const gradeMap = new Map(gb.grades.map(g => [`${g.activity_id}:${g.student_id}`, g]));
+    const avgMap = new Map(gb.student_averages.map(a => [a.student_id, a.average]));
+
+    const rows = gb.students.map(s => {
+      const avg = avgMap.get(s.id) ?? null;
+      return [
+        s.student_number,
+        s.last_name,
+        s.first_name,
+        s.period,
+        ...gb.activities.map(a => {
+          const g = gradeMap.get(`${a.id}:${s.id}`);
+          if (!g) return '';
+          if (g.is_excused) return 'EX';
+          if (g.is_missing) return 'M';
+          return g.score;
+        }),
+        avg,
+        letterGrade(avg),
+      ];
+    });
+
+    const csv = toCSV(headers, rows);
+    const filename = `${classInfo.name.replace(/[^a-zA-Z0-9]+/g, '_')}_gradebook.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
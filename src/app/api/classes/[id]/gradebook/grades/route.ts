@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+
+interface GradeInput {
+  activity_id: number;
+  student_id: number;
+  score?: number | string | null;
+  is_excused?: boolean;
+  is_missing?: boolean;
+  comment?: string | null;
+}
+
+/**
+ * Save one or more scores. Body: { grades: GradeInput[] }.
+ * A row with a blank score and no flags clears that cell.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const body = await request.json();
+    const inputs: GradeInput[] = Array.isArray(body.grades) ? body.grades : [];
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'grades array is required' }, { status: 400 });
+    }
+
+    // Only accept scores for graded activities that belong to this class
+    const activityIds = [...new Set(inputs.map(g => Number(g.activity_id)))];
+    const { data: activities, error: actError } = await supabase
+      .from('activities')
+      .select('id')
+      .eq('class_id', parseInt(id))
+      .in('id', activityIds);
+
+    if (actError) {
+      return NextResponse.json({ error: actError.message }, { status: 500 });
+    }
+
+    const validIds = new Set((activities ?? []).map(a => a.id));
+    const upserts: Record<string, unknown>[] = [];
+    const clears: GradeInput[] = [];
+
+    for (const g of inputs) {
+      if (!validIds.has(Number(g.activity_id)) || !g.student_id) continue;
+
+      const raw = g.score === '' || g.score === undefined ? null : g.score;
+      const score = raw === null ? null : Number(raw);
+      if (score !== null && !Number.isFinite(score)) {
+        return NextResponse.json({ error: `Invalid score: ${g.score}` }, { status: 400 });
+      }
+
+      if (score === null && !g.is_excused && !g.is_missing && !g.comment) {
+        clears.push(g);
+        continue;
+      }
+
+      upserts.push({
+        activity_id: Number(g.activity_id),
+        student_id: Number(g.student_id),
+        score,
+        is_excused: !!g.is_excused,
+        is_missing: !!g.is_missing,
+        comment: g.comment || null,
+        updated_at: new Date().toISOString(),
+        user_id: user.id,
+      });
+    }
+
+    if (upserts.length > 0) {
+      const { error } = await supabase
+        .from('grades')
+        .upsert(upserts, { onConflict: 'activity_id,student_id' });
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    for (const g of clears) {
+      const { error } = await supabase
+        .from('grades')
+        .delete()
+        .eq('activity_id', g.activity_id)
+        .eq('student_id', g.student_id);
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ saved: upserts.length, cleared: clears.length });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadGradebook } from '@/lib/gradebook';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('*')
+      .eq('id', parseInt(id))
+      .maybeSingle();
+
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    const gradebook = await loadGradebook(supabase, classInfo.id);
+
+    return NextResponse.json({ class: classInfo, ...gradebook });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
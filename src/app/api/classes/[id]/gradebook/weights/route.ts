@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { GRADE_CATEGORIES, resolveWeights } from '@/lib/gradebook';
+
+/** Save category weights for a class. Body: { weights: { assessment: 50, ... } } */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const classId = parseInt(id);
+    const body = await request.json();
+    const weights = body.weights || {};
+
+    const rows = [];
+    for (const category of GRADE_CATEGORIES) {
+      if (weights[category] === undefined) continue;
+      const weight = Number(weights[category]);
+      if (!Number.isFinite(weight) || weight < 0) {
+        return NextResponse.json({ error: `Invalid weight for ${category}` }, { status: 400 });
+      }
+      rows.push({ class_id: classId, category, weight, user_id: user.id });
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No valid weights provided' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('grade_categories')
+      .upsert(rows, { onConflict: 'class_id,category' })
+      .select('category, weight');
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ weights: resolveWeights(data ?? []) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { namedSeatingChart, seatedStudentNames, seatingChartHTML } from '@/lib/seating-charts';
+import type { SeatingChart } from '@/lib/types';
+
+// GET — the chart as a printable page (Print / Save as PDF)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; chartId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id, chartId } = await params;
+
+    const { data: chart } = await supabase
+      .from('seating_charts')
+      .select('*, classes(name)')
+      .eq('id', chartId)
+      .eq('class_id', id)
+      .maybeSingle();
+    if (!chart) {
+      return NextResponse.json({ error: 'Seating chart not found' }, { status: 404 });
+    }
+
+    const [names, { data: settingsRows }, { data: room }] = await Promise.all([
+      seatedStudentNames(supabase, [chart as SeatingChart]),
+      supabase.from('settings').select('key, value').in('key', ['school_name', 'teacher_name']),
+      supabase.from('classroom_profiles').select('value').eq('key', 'room_number').maybeSingle(),
+    ]);
+    const settings: Record<string, string> = {};
+    for (const row of settingsRows ?? []) settings[row.key] = row.value;
+
+    const className = (chart.classes as { name: string } | null)?.name || 'Class';
+    const html = seatingChartHTML(namedSeatingChart(chart as SeatingChart, className, names), {
+      teacher_name: settings.teacher_name,
+      school_name: settings.school_name,
+      room_number: room?.value,
+    });
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+      },
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { activateSeatingChart, seatingChartFieldsFromBody } from '@/lib/seating-charts';
+import type { SeatingChart } from '@/lib/types';
+
+// PATCH — rename, resize, rearrange, or make the chart the period's active one
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; chartId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id, chartId } = await params;
+    const body = await request.json();
+
+    const { data: current } = await supabase
+      .from('seating_charts')
+      .select('*')
+      .eq('id', chartId)
+      .eq('class_id', id)
+      .maybeSingle();
+    if (!current) {
+      return NextResponse.json({ error: 'Seating chart not found' }, { status: 404 });
+    }
+
+    const { fields, error: fieldError } = seatingChartFieldsFromBody(body, true, current as SeatingChart);
+    if (!fields) return NextResponse.json({ error: fieldError }, { status: 400 });
+    if (Object.keys(fields).length === 0) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
+    }
+
+    const { data: chart, error } = await supabase
+      .from('seating_charts')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', chartId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!chart) {
+      return NextResponse.json({ error: 'Seating chart not found' }, { status: 404 });
+    }
+
+    // Moving an active chart to another period, or activating it, takes over that period
+    if (chart.is_active && (fields.is_active || fields.period !== undefined)) {
+      await activateSeatingChart(supabase, chart);
+    }
+
+    return NextResponse.json(chart);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE — remove the chart; if it was active, the period's newest remaining chart takes over
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; chartId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id, chartId } = await params;
+
+    const { data: chart, error } = await supabase
+      .from('seating_charts')
+      .delete()
+      .eq('id', chartId)
+      .eq('class_id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!chart) {
+      return NextResponse.json({ error: 'Seating chart not found' }, { status: 404 });
+    }
+
+    if (chart.is_active) {
+      let next = supabase
+        .from('seating_charts')
+        .select('id')
+        .eq('class_id', chart.class_id);
+      next = chart.period ? next.eq('period', chart.period) : next.is('period', null);
+      const { data: replacement } = await next
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (replacement) {
+        await supabase.from('seating_charts').update({ is_active: true }).eq('id', replacement.id);
+      }
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { activateSeatingChart, seatingChartFieldsFromBody } from '@/lib/seating-charts';
+
+// GET — every seating chart for the class, grouped by period
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+
+    const { data, error } = await supabase
+      .from('seating_charts')
+      .select('*')
+      .eq('class_id', parseInt(id))
+      .order('period', { ascending: true, nullsFirst: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST — new chart; the first chart for a period becomes the active one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const classId = parseInt(id);
+    const body = await request.json();
+
+    const { fields, error: fieldError } = seatingChartFieldsFromBody(body);
+    if (!fields) return NextResponse.json({ error: fieldError }, { status: 400 });
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('id')
+      .eq('id', classId)
+      .maybeSingle();
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    const period = (fields.period as string | null | undefined) ?? null;
+    let siblings = supabase
+      .from('seating_charts')
+      .select('id', { count: 'exact', head: true })
+      .eq('class_id', classId);
+    siblings = period ? siblings.eq('period', period) : siblings.is('period', null);
+    const { count } = await siblings;
+
+    const { data: chart, error } = await supabase
+      .from('seating_charts')
+      .insert({
+        ...fields,
+        period,
+        is_active: fields.is_active ?? !count,
+        class_id: classId,
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    if (error || !chart) {
+      return NextResponse.json({ error: error?.message || 'Failed to create chart' }, { status: 500 });
+    }
+
+    if (chart.is_active) await activateSeatingChart(supabase, chart);
+
+    return NextResponse.json(chart, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
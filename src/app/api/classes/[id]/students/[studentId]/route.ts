@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { toRosterStudent } from '@/lib/roster-helpers';
+
+const STUDENT_FIELDS = [
+  'first_name',
+  'last_name',
+  'student_number',
+  'preferred_name',
+  'grade_level',
+  'email',
+  'accommodations',
+  'notes',
+] as const;
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; studentId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id, studentId } = await params;
+    const body = await request.json();
+
+    const updates: Record<string, unknown> = {};
+    for (const field of STUDENT_FIELDS) {
+      if (body[field] === undefined) continue;
+      const value = typeof body[field] === 'string' ? body[field].trim() : body[field];
+      updates[field] = value === '' && field !== 'last_name' ? null : value;
+    }
+
+    if (updates.first_name === null) {
+      return NextResponse.json({ error: 'first_name cannot be empty' }, { status: 400 });
+    }
+
+    if (Object.keys(updates).length === 0 && body.period === undefined) {
+      return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
+    }
+
+    if (Object.keys(updates).length > 0) {
+      updates.updated_at = new Date().toISOString();
+      const { error } = await supabase
+        .from('students')
+        .update(updates)
+        .eq('id', studentId);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    // Period lives on the enrollment, since it differs per class
+    if (body.period !== undefined) {
+      const { error } = await supabase
+        .from('class_enrollments')
+        .update({ period: body.period || null })
+        .eq('class_id', id)
+        .eq('student_id', studentId);
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('class_enrollments')
+      .select('id, period, students(*)')
+      .eq('class_id', id)
+      .eq('student_id', studentId)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Student not found in this class' }, { status: 404 });
+    }
+
+    return NextResponse.json(toRosterStudent(data));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a student from this class's roster. The student record itself is
+ * kept so enrollments in other classes (and past records) stay intact.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; studentId: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id, studentId } = await params;
+
+    const { error } = await supabase
+      .from('class_enrollments')
+      .delete()
+      .eq('class_id', id)
+      .eq('student_id', studentId);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { parseCSV } from '@/lib/csv';
+import { normalizeRosterRows, studentNameKey } from '@/lib/roster-helpers';
+
+interface StudentFields {
+  student_number: string | null;
+  first_name: string;
+  last_name: string;
+  preferred_name: string | null;
+  grade_level: string | null;
+  email: string | null;
+}
+
+/** A student as the import will leave it; id is null until a new one is inserted. */
+interface StudentRecord {
+  id: number | null;
+  fields: StudentFields;
+  changed: boolean;
+}
+
+function recordKey(s: { student_number: string | null; first_name: string; last_name: string }): string {
+  return s.student_number ? `#${s.student_number}` : studentNameKey(s);
+}
+
+/**
+ * Import a roster CSV exported from the SIS.
+ * Students are matched by SIS number first, then by name, so re-importing
+ * an updated export only adds new students and refreshes existing ones.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const classId = parseInt(id);
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const defaultPeriod = (formData.get('period') as string | null) || null;
+
+    if (!file || !(file instanceof Blob)) {
+      return NextResponse.json({ error: 'CSV file is required' }, { status: 400 });
+    }
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('id')
+      .eq('id', classId)
+      .maybeSingle();
+
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    const rows = parseCSV(await file.text());
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'CSV file is empty or has no data rows' }, { status: 400 });
+    }
+
+    const { students, skipped } = normalizeRosterRows(rows);
+    if (students.length === 0) {
+      return NextResponse.json(
+        { error: 'No students found. CSV must have first/last name columns (or a single "Student Name" column).' },
+        { status: 400 }
+      );
+    }
+
+    // Index existing students so we update rather than duplicate
+    const { data: existing, error: existingError } = await supabase
+      .from('students')
+      .select('id, student_number, first_name, last_name, preferred_name, grade_level, email');
+
+    if (existingError) {
+      return NextResponse.json({ error: existingError.message }, { status: 500 });
+    }
+
+    // Work out every student's final fields in memory, then write them in one
+    // upsert (existing students) and one insert (new ones)
+    const records: StudentRecord[] = [];
+    const byNumber = new Map<string, StudentRecord>();
+    const byName = new Map<string, StudentRecord>();
+    for (const s of existing ?? []) {
+      const { id: studentId, ...fields } = s;
+      const record: StudentRecord = { id: studentId, fields, changed: false };
+      records.push(record);
+      if (s.student_number) byNumber.set(s.student_number, record);
+      byName.set(studentNameKey(s), record);
+    }
+
+    let created = 0;
+    let updated = 0;
+    // Keyed by student so duplicate rows in one export collapse to one enrollment
+    const enrollments = new Map<StudentRecord, string | null>();
+
+    for (const row of students) {
+      // A name only identifies a student when one side has no student number;
+      // two different numbers under the same name are two students.
+      const nameMatch = byName.get(studentNameKey(row));
+      const match = row.student_number
+        ? byNumber.get(row.student_number) ?? (nameMatch && !nameMatch.fields.student_number ? nameMatch : undefined)
+        : nameMatch;
+      const fields: StudentFields = {
+        student_number: row.student_number,
+        first_name: row.first_name,
+        last_name: row.last_name,
+        preferred_name: row.preferred_name,
+        grade_level: row.grade_level,
+        email: row.email,
+      };
+
+      let record: StudentRecord;
+      if (match) {
+        // Only overwrite fields the export actually provided
+        for (const [key, value] of Object.entries(fields) as [keyof StudentFields, string | null][]) {
+          if (value) match.fields[key] = value;
+        }
+        match.changed = true;
+        record = match;
+        if (row.student_number) byNumber.set(row.student_number, record);
+        updated++;
+      } else {
+        record = { id: null, fields, changed: true };
+        records.push(record);
+        if (row.student_number) byNumber.set(row.student_number, record);
+        byName.set(studentNameKey(row), record);
+        created++;
+      }
+
+      enrollments.set(record, row.period || defaultPeriod);
+    }
+
+    const now = new Date().toISOString();
+    const changedRows = records
+      .filter(r => r.id !== null && r.changed)
+      .map(r => ({ id: r.id, user_id: user.id, ...r.fields, updated_at: now }));
+    if (changedRows.length > 0) {
+      const { error } = await supabase.from('students').upsert(changedRows, { onConflict: 'id' });
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+    }
+
+    const newRecords = records.filter(r => r.id === null);
+    if (newRecords.length > 0) {
+      const { data: inserted, error } = await supabase
+        .from('students')
+        .insert(newRecords.map(r => ({ ...r.fields, user_id: user.id })))
+        .select('id, student_number, first_name, last_name');
+      if (error || !inserted) {
+        return NextResponse.json({ error: error?.message || 'Failed to add students' }, { status: 500 });
+      }
+      // New students are unique by number, or by name when they have none
+      const insertedIds = new Map(inserted.map(s => [recordKey(s), s.id as number]));
+      for (const r of newRecords) r.id = insertedIds.get(recordKey(r.fields)) ?? null;
+    }
+
+    const enrollmentRows = [...enrollments]
+      .filter(([record]) => record.id !== null)
+      .map(([record, period]) => ({ class_id: classId, student_id: record.id as number, period }));
+    const { error: enrollError } = await supabase
+      .from('class_enrollments')
+      .upsert(enrollmentRows, { onConflict: 'class_id,student_id' });
+
+    if (enrollError) {
+      return NextResponse.json({ error: enrollError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { imported: enrollmentRows.length, created, updated, skipped },
+      { status: 201 }
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
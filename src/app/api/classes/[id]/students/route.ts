@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { sortRoster, toRosterStudent } from '@/lib/roster-helpers';
+import type { RosterStudent } from '@/lib/types';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+
+    const { data, error } = await supabase
+      .from('class_enrollments')
+      .select('id, period, students(*)')
+      .eq('class_id', parseInt(id));
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const roster = (data ?? [])
+      .map(row => toRosterStudent(row))
+      .filter((s): s is RosterStudent => s !== null);
+
+    return NextResponse.json(sortRoster(roster));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const classId = parseInt(id);
+    const body = await request.json();
+    const { first_name, last_name, student_number, preferred_name, grade_level, email, accommodations, notes, period } = body;
+
+    if (!first_name || !first_name.trim()) {
+      return NextResponse.json({ error: 'first_name is required' }, { status: 400 });
+    }
+
+    const { data: classInfo } = await supabase
+      .from('classes')
+      .select('id')
+      .eq('id', classId)
+      .maybeSingle();
+
+    if (!classInfo) {
+      return NextResponse.json({ error: 'Class not found' }, { status: 404 });
+    }
+
+    // Reuse an existing student record when the SIS number matches,
+    // so a student in several classes keeps one set of records.
+    let studentId: number | null = null;
+    if (student_number && student_number.trim()) {
+      const { data: existing } = await supabase
+        .from('students')
+        .select('id')
+        .eq('student_number', student_number.trim())
+        .maybeSingle();
+      studentId = existing?.id ?? null;
+    }
+
+    if (!studentId) {
+      const { data: created, error: createError } = await supabase
+        .from('students')
+        .insert({
+          first_name: first_name.trim(),
+          last_name: (last_name || '').trim(),
+          student_number: student_number?.trim() || null,
+          preferred_name: preferred_name?.trim() || null,
+          grade_level: grade_level || null,
+          email: email?.trim() || null,
+          accommodations: accommodations || null,
+          notes: notes || null,
+          user_id: user.id,
+        })
+        .select('id')
+        .single();
+
+      if (createError) {
+        return NextResponse.json({ error: createError.message }, { status: 500 });
+      }
+      studentId = created.id;
+    }
+
+    const { data: enrollment, error } = await supabase
+      .from('class_enrollments')
+      .upsert(
+        { class_id: classId, student_id: studentId, period: period || null },
+        { onConflict: 'class_id,student_id' }
+      )
+      .select('id, period, students(*)')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(toRosterStudent(enrollment), { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
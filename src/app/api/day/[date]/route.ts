@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { resolveDaySchedule } from '@/lib/bell-schedule';
 
 export async function GET(
   _request: NextRequest,
@@ -95,6 +96,8 @@ export async function GET(
       bellringerWithPrompts = { ...bellringer, prompts: prompts ?? [] };
     }
 
+    const bellSchedule = await resolveDaySchedule(supabase, date);
+
     return NextResponse.json({
       date,
       events: events ?? [],
@@ -102,6 +105,7 @@ export async function GET(
       unscheduled_tasks: unscheduledTasks ?? [],
       bellringer: bellringerWithPrompts ?? null,
       activities: activities ?? [],
+      bell_schedule: bellSchedule,
     });
   } catch (err) {
     return NextResponse.json(
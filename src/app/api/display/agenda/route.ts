@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { resolveDaySchedule } from '@/lib/bell-schedule';
+import { localDateStr } from '@/lib/task-helpers';
+
+// GET ?date=YYYY-MM-DD — the day's bell schedule and every class's activities, for the TV agenda
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const date = new URL(request.url).searchParams.get('date') || localDateStr();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'Invalid date format. Use YYYY-MM-DD.' }, { status: 400 });
+    }
+
+    const [{ data: activities, error }, { data: classes }, bellSchedule] = await Promise.all([
+      supabase
+        .from('activities')
+        .select('id, class_id, title, description, activity_type, is_done, sort_order')
+        .eq('date', date)
+        .order('sort_order', { ascending: true }),
+      supabase
+        .from('classes')
+        .select('id, name, color')
+        .order('id', { ascending: true }),
+      resolveDaySchedule(supabase, date),
+    ]);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      date,
+      bell_schedule: bellSchedule,
+      classes: classes ?? [],
+      activities: activities ?? [],
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/db';
+import { pollDisplaySession, renewDisplayPairCode } from '@/lib/display-remote';
+import { sseResponse } from '@/lib/sse';
+
+// Poll quickly while the remote is in use, backing off to IDLE_POLL_MS when nothing happens
+const POLL_MS = 1000;
+const IDLE_POLL_MS = 5000;
+const PING_MS = 15_000;
+// Serverless functions get cut off; end cleanly and let EventSource reconnect
+const STREAM_MS = 50_000;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// GET — the display's command stream. Sends `status` ({ paired, pair_code, name })
+// when pairing changes (including a renewed pairing code) and one `command`
+// event per queued command. Event ids
+// are command ids, so a reconnect resumes from Last-Event-ID without
+// replaying or dropping anything.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const lastId = parseInt(request.headers.get('last-event-id') || '');
+    let after: number | null = Number.isNaN(lastId) ? null : lastId;
+
+    const first = await pollDisplaySession(supabase, token, after);
+    if (!first) {
+      return NextResponse.json({ error: 'Display session not found' }, { status: 404 });
+    }
+
+    return sseResponse(async send => {
+      const started = Date.now();
+      let lastStatus = '';
+      let lastPing = started;
+      let wait = POLL_MS;
+      let poll: typeof first | null = first;
+
+      while (!request.signal.aborted) {
+        if (!poll) {
+          send('error', { error: 'Display session not found' });
+          return;
+        }
+        if (!poll.paired && !poll.pair_code) {
+          await renewDisplayPairCode(supabase, token);
+          poll = await pollDisplaySession(supabase, token, after);
+          continue;
+        }
+
+        const status = { paired: poll.paired, pair_code: poll.pair_code, name: poll.name };
+        const statusKey = JSON.stringify(status);
+        if (after === null) after = poll.latest_id;
+        const active = statusKey !== lastStatus || poll.commands.length > 0;
+        if (statusKey !== lastStatus) {
+          send('status', status, after);
+          lastStatus = statusKey;
+        }
+        for (const cmd of poll.commands) {
+          send('command', cmd.payload, cmd.id);
+          after = cmd.id;
+        }
+        wait = active ? POLL_MS : Math.min(wait + POLL_MS, IDLE_POLL_MS);
+
+        if (Date.now() - lastPing >= PING_MS) {
+          send('ping', {});
+          lastPing = Date.now();
+        }
+        if (Date.now() - started >= STREAM_MS) return;
+
+        await sleep(wait);
+        if (request.signal.aborted) return;
+        poll = await pollDisplaySession(supabase, token, after);
+      }
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
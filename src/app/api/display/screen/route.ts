@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/lib/db';
+import { createDisplaySession } from '@/lib/display-remote';
+
+// POST — a classroom display (no login) starts a session and gets a pairing code
+export async function POST() {
+  try {
+    const { result, error, limited } = await createDisplaySession(supabase);
+    if (error || !result) {
+      return NextResponse.json({ error: error || 'Failed to start display session' }, { status: limited ? 429 : 500 });
+    }
+    return NextResponse.json(result, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
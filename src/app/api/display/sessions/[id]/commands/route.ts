@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { commandFromBody } from '@/lib/display-remote';
+
+// POST { action, ... } — queue a command for a paired display
+// (next, prev, page, reveal, date, message, clear_message, mode)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const body = await request.json();
+    const { command, error: commandError } = commandFromBody(body);
+    if (commandError || !command) {
+      return NextResponse.json({ error: commandError }, { status: 400 });
+    }
+
+    const { data: session } = await supabase
+      .from('display_sessions')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+    if (!session) {
+      return NextResponse.json({ error: 'Display not found' }, { status: 404 });
+    }
+
+    const { data, error } = await supabase
+      .from('display_commands')
+      .insert({ session_id: session.id, user_id: user.id, payload: command })
+      .select('id')
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ id: data.id, command }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
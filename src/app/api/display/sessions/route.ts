@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { normalizeShortCode } from '@/lib/display-remote';
+
+// GET — displays paired to this teacher
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { data, error } = await supabase
+      .from('display_sessions')
+      .select('id, name, paired_at, last_seen_at')
+      .order('paired_at', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { code, name? } — pair the display showing this code
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const body = await request.json();
+    const code = normalizeShortCode(String(body.code || ''));
+    if (!code) {
+      return NextResponse.json({ error: 'Enter the code shown on the display' }, { status: 400 });
+    }
+
+    const { data: id, error } = await supabase.rpc('pair_display_session', {
+      code,
+      display_name: String(body.name || '').trim().slice(0, 80),
+    });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: error.code === '54000' ? 429 : 500 });
+    }
+    if (!id) {
+      return NextResponse.json({ error: 'No display is showing that code. Codes change every 15 minutes.' }, { status: 404 });
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('display_sessions')
+      .select('id, name, paired_at, last_seen_at')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
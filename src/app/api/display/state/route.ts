@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { applyTimerAction, loadDisplayState, saveDisplayState, type TimerAction } from '@/lib/display-state';
+
+// GET — what the TV should show, plus the server clock so the display can
+// correct for its own clock drift when counting down.
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const state = await loadDisplayState(supabase);
+    return NextResponse.json({ ...state, server_time: new Date().toISOString() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { action: 'mode' | 'start' | 'pause' | 'resume' | 'add' | 'reset' | 'clear', ... } — phone remote
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = (await request.json()) as TimerAction;
+    const current = await loadDisplayState(supabase);
+    const { state, error: actionError } = applyTimerAction(current, body);
+    if (actionError) {
+      return NextResponse.json({ error: actionError }, { status: 400 });
+    }
+
+    const error = await saveDisplayState(supabase, user.id, state);
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...state, server_time: new Date().toISOString() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
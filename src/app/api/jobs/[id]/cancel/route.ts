@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { cancelJob, isJobActive, jobProgress } from '@/lib/jobs';
+import type { Job } from '@/lib/types';
+
+// POST — stop a job. A running job finishes its current item first.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { id } = await params;
+    const { data } = await supabase.from('jobs').select('*').eq('id', parseInt(id)).maybeSingle();
+    if (!data) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (!isJobActive(data as Job)) {
+      return NextResponse.json({ error: `Job already ${data.status}` }, { status: 409 });
+    }
+
+    const job = await cancelJob(supabase, data as Job);
+    return NextResponse.json({ ...job, progress: jobProgress(job) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
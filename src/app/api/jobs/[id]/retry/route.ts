@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isJobActive, jobProgress, processJobs, retryJob } from '@/lib/jobs';
+import type { Job } from '@/lib/types';
+
+// POST — re-run a finished job's failed items (and any left over from a cancel)
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const { data } = await supabase.from('jobs').select('*').eq('id', parseInt(id)).maybeSingle();
+    if (!data) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (isJobActive(data as Job)) {
+      return NextResponse.json({ error: 'Job is still running' }, { status: 409 });
+    }
+    if (!(data as Job).items.some(i => i.status !== 'done' && i.status !== 'skipped')) {
+      return NextResponse.json({ error: 'Nothing to retry — every item finished' }, { status: 409 });
+    }
+
+    const job = await retryJob(supabase, data as Job);
+    after(() => processJobs(supabase, user.id));
+
+    return NextResponse.json({ ...job, progress: jobProgress(job) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isJobStale, jobProgress, processJobs } from '@/lib/jobs';
+import type { Job } from '@/lib/types';
+
+// GET — job status and progress. Polling also restarts the worker if the job
+// is waiting in the queue or its worker died (e.g. the server restarted).
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const { id } = await params;
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('id', parseInt(id))
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const job = data as Job;
+    if (job.status === 'queued' || isJobStale(job)) {
+      after(() => processJobs(supabase, user.id));
+    }
+
+    return NextResponse.json({ ...job, progress: jobProgress(job) });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+
+// GET /api/jobs?type=bellringer_batch&active=true — the user's recent jobs, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const type = request.nextUrl.searchParams.get('type');
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true';
+
+    let query = supabase
+      .from('jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (type) query = query.eq('type', type);
+    if (activeOnly) query = query.in('status', ['queued', 'running']);
+
+    const { data, error } = await query;
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { localDateStr } from '@/lib/task-helpers';
 import { brainstormWithAI } from '@/lib/lesson-plan-generator';
+import { getActiveUnits, formatUnitContext } from '@/lib/units';
+import { sseResponse, wantsEventStream, type SSESend } from '@/lib/sse';
 
+// POST — one brainstorm reply, saved to the plan's history. Send Accept: text/event-stream to stream it (see lib/sse).
 export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth();
@@ -57,38 +61,48 @@ export async function POST(request: NextRequest) {
       settingsMap[row.key] = row.value;
     }
 
-    // Call AI
-    const { response, error: aiError } = await brainstormWithAI(history, {
+    // Seed the conversation with the units this week belongs to
+    const friday = new Date(plan.week_of + 'T12:00:00');
+    friday.setDate(friday.getDate() + 4);
+    const units = await getActiveUnits(supabase, plan.week_of, localDateStr(friday), plan.class_id ?? undefined);
+
+    const context = {
       classes: classes || [],
       weekOf: plan.week_of,
+      unitContext: formatUnitContext(units, classes || []) || undefined,
       teacherName: settingsMap.teacher_name || undefined,
       schoolName: settingsMap.school_name || undefined,
-    });
-
-    if (aiError) {
-      return NextResponse.json({ error: aiError }, { status: 500 });
-    }
-
-    // Add AI response to history
-    history.push({ role: 'assistant', content: response });
-
-    // Save updated history back to DB
-    const { error: updateError } = await supabase
-      .from('lesson_plans')
-      .update({
-        brainstorm_history: history,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', lesson_plan_id);
-
-    if (updateError) {
-      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    };
+
+    // Call AI, then save the exchange. A cancelled stream saves nothing.
+    const reply = async (send?: SSESend) => {
+      const { response, error: aiError } = await brainstormWithAI(history, context, {
+        signal: request.signal,
+        onText: send && (text => send('delta', { text })),
+      });
+      if (aiError) throw new Error(aiError);
+
+      // Add AI response to history
+      history.push({ role: 'assistant', content: response });
+
+      // Save updated history back to DB
+      const { error: updateError } = await supabase
+        .from('lesson_plans')
+        .update({
+          brainstorm_history: history,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', lesson_plan_id);
+
+      if (updateError) throw new Error(updateError.message);
+      return { response, history };
+    };
+
+    if (wantsEventStream(request)) {
+      return sseResponse(async send => send('done', await reply(send)));
     }
 
-    return NextResponse.json({
-      response,
-      history,
-    });
+    return NextResponse.json(await reply());
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
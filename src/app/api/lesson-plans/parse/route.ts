@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { parseBrainstormToActivities } from '@/lib/lesson-plan-generator';
 import { tagActivityWithStandards } from '@/lib/standards-tagger';
+import { getActiveUnits, formatUnitContext } from '@/lib/units';
 
 /**
  * Calculate Mon-Fri dates for a given week_of date string (YYYY-MM-DD).
@@ -80,11 +81,13 @@ export async function POST(request: NextRequest) {
 
     // Parse brainstorm into activities (optionally scoped to one class)
     const targetClassId = class_id ? parseInt(class_id) : undefined;
+    const units = await getActiveUnits(supabase, weekDates[0], weekDates[4], targetClassId);
     const { result, error: parseError } = await parseBrainstormToActivities(
       history,
       classes,
       weekDates,
-      targetClassId
+      targetClassId,
+      formatUnitContext(units, classes) || undefined
     );
 
     if (parseError || !result) {
@@ -42,6 +42,7 @@ export async function POST(request: NextRequest) {
       .update({
         status: 'published',
         publish_token: token,
+        publish_revoked_at: null,
         updated_at: new Date().toISOString(),
       })
       .eq('id', lesson_plan_id);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { materializeWeek } from '@/lib/recurrence';
 
 export async function GET(request: NextRequest) {
   try {
@@ -99,6 +100,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// POST — create the week's plan and fill in recurring activities. With template_id,
+// the template is applied too (reusing the week's plan if it already exists).
 export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth();
@@ -106,28 +109,50 @@ export async function POST(request: NextRequest) {
     const { user, supabase } = auth;
 
     const body = await request.json();
-    const { week_of } = body;
+    const { week_of, template_id, apply_recurring } = body;
 
     if (!week_of) {
       return NextResponse.json({ error: 'week_of is required' }, { status: 400 });
     }
 
-    const { data, error } = await supabase
-      .from('lesson_plans')
-      .insert({
-        week_of,
-        status: 'draft',
-        brainstorm_history: [],
-        user_id: user.id,
-      })
-      .select()
-      .single();
+    let plan: Record<string, unknown> | null = null;
+    if (template_id) {
+      const { data: existing } = await supabase
+        .from('lesson_plans')
+        .select('*')
+        .eq('week_of', week_of)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      plan = existing;
+    }
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
+    const isNew = !plan;
+    if (!plan) {
+      const { data, error } = await supabase
+        .from('lesson_plans')
+        .insert({
+          week_of,
+          status: 'draft',
+          brainstorm_history: [],
+          user_id: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+      plan = data;
     }
 
-    return NextResponse.json(data, { status: 201 });
+    // Recurring rules fill in automatically for a new week; an existing week only gets the template
+    const materialized = await materializeWeek(supabase, user.id, plan!.id as number, week_of, {
+      templateId: template_id ? parseInt(template_id) : undefined,
+      includeRecurring: apply_recurring ?? isNew,
+    });
+
+    return NextResponse.json({ ...plan, materialized }, { status: isNew ? 201 : 200 });
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -154,7 +154,7 @@ Please suggest 3-5 specific modifications or additions to address the most criti
     const suggestions = await chatWithAI(
       SYSTEM_PROMPT,
       [{ role: 'user', content: userPrompt }],
-      { temperature: 0.7, maxOutputTokens: 1500 },
+      { feature: 'tagging', temperature: 0.7, maxOutputTokens: 1500 },
     );
 
     return NextResponse.json({ suggestions });
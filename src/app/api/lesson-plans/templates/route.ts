@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { templateItemsFromActivities, weekdayDates } from '@/lib/recurrence';
+import type { WeekTemplateItem } from '@/lib/types';
+
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { data, error } = await supabase
+      .from('week_templates')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST — save a template from explicit items, or from the activities of an existing week (week_of)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { name, items, week_of } = body;
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    let templateItems: WeekTemplateItem[] = Array.isArray(items) ? items : [];
+    if (week_of) {
+      const dates = weekdayDates(week_of);
+      const { data: activities, error: fetchError } = await supabase
+        .from('activities')
+        .select('date, class_id, title, description, activity_type, material_status, sort_order')
+        .gte('date', dates.get(1)!)
+        .lte('date', dates.get(5)!)
+        .order('date', { ascending: true })
+        .order('sort_order', { ascending: true });
+
+      if (fetchError) {
+        return NextResponse.json({ error: fetchError.message }, { status: 500 });
+      }
+      templateItems = templateItemsFromActivities(activities || []);
+    }
+
+    if (templateItems.length === 0) {
+      return NextResponse.json({ error: 'A template needs at least one activity' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('week_templates')
+      .insert({ name: name.trim(), items: templateItems, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { generateMaterial, MaterialType } from '@/lib/material-generator';
+import { generateMaterial, gradeLevelFor, MaterialType } from '@/lib/material-generator';
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,13 +27,9 @@ export async function POST(request: NextRequest) {
     }
 
     const className = activity.classes?.name || 'Unknown Class';
-    const gradeLevel = className.toLowerCase().includes('french') ? 'French 1'
-      : className.includes('9') || className.includes('1') ? '9th'
-      : '10th';
-
     const { result, error } = await generateMaterial({
       class_name: className,
-      grade_level: gradeLevel,
+      grade_level: gradeLevelFor(className),
       activity_title: activity.title,
       description: activity.description || undefined,
       material_type: material_type as MaterialType,
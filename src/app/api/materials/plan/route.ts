@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { chatWithAI } from '@/lib/ai-service';
+import { chatWithAI, streamChatWithAI } from '@/lib/ai-service';
+import { sseResponse, wantsEventStream } from '@/lib/sse';
 
+// POST — one planning-chat reply. Send Accept: text/event-stream to stream it (see lib/sse).
 export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth();
@@ -43,11 +45,16 @@ If you already have enough information, say something like "Got it! Click Genera
       { role: 'user', content: message.trim() },
     ];
 
-    const response = await chatWithAI(systemPrompt, messages, {
-      temperature: 0.7,
-      maxOutputTokens: 300,
-    });
+    const aiConfig = { feature: 'material' as const, temperature: 0.7, maxOutputTokens: 300, signal: request.signal };
 
+    if (wantsEventStream(request)) {
+      return sseResponse(async send => {
+        const response = await streamChatWithAI(systemPrompt, messages, aiConfig, text => send('delta', { text }));
+        send('done', { response });
+      });
+    }
+
+    const response = await chatWithAI(systemPrompt, messages, aiConfig);
     return NextResponse.json({ response });
   } catch (err) {
     return NextResponse.json(
@@ -1,8 +1,81 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { chatWithAI, cleanJsonResponse } from '@/lib/ai-service';
+import { streamChatWithAI, cleanJsonResponse, type ChatOptions } from '@/lib/ai-service';
+import { sseResponse, wantsEventStream } from '@/lib/sse';
 import { getRefineSystemPrompt } from '@/lib/material-refiner';
+import { materialSchema, validateSchema } from '@/lib/ai-schemas';
 
+const JSON_FENCE = /```(?:json)?\s*\n([\s\S]*?)\n```/;
+
+/** Parse the fenced JSON out of a refine reply; null if there is none. */
+function extractMaterial(raw: string): { material: Record<string, unknown> | null; errors: string[] } {
+  const jsonMatch = raw.match(JSON_FENCE);
+  if (!jsonMatch) return { material: null, errors: [] };
+  try {
+    return { material: cleanJsonResponse(jsonMatch[1]), errors: [] };
+  } catch {
+    return { material: null, errors: ['(root): the JSON block could not be parsed'] };
+  }
+}
+
+/**
+ * Ask for the change, validate the returned material, and re-prompt once if
+ * it's invalid. onText streams the raw reply; onRetry fires before the
+ * re-prompt so a streaming client can discard the first attempt.
+ */
+async function refineMaterial(
+  systemPrompt: string,
+  messages: { role: string; content: string }[],
+  materialType: string,
+  currentMaterial: Record<string, unknown>,
+  aiConfig: ChatOptions,
+  onText?: (delta: string) => void,
+  onRetry?: () => void,
+): Promise<{ material: Record<string, unknown>; response: string; validation_errors?: string[] }> {
+  const schema = materialSchema(materialType);
+  let rawResponse = await streamChatWithAI(systemPrompt, messages, aiConfig, onText);
+  let { material: candidate, errors } = extractMaterial(rawResponse);
+  if (candidate) errors = validateSchema(schema, candidate);
+
+  // One re-prompt with the failing fields before giving up
+  if (errors.length > 0) {
+    onRetry?.();
+    rawResponse = await streamChatWithAI(systemPrompt, [
+      ...messages,
+      { role: 'assistant', content: rawResponse },
+      {
+        role: 'user',
+        content: `That JSON has problems:\n${errors.map(e => `- ${e}`).join('\n')}\nReturn the complete corrected material JSON in a code fence.`,
+      },
+    ], aiConfig, onText);
+    ({ material: candidate, errors } = extractMaterial(rawResponse));
+    if (candidate) errors = validateSchema(schema, candidate);
+  }
+
+  // Parse: look for JSON code fence, and text after it
+  let updatedMaterial = currentMaterial;
+  let responseText = rawResponse;
+
+  if (candidate && errors.length === 0) {
+    updatedMaterial = candidate;
+    // Preserve material_type
+    updatedMaterial.material_type = materialType;
+    // Get the text after the code fence
+    const afterFence = rawResponse.substring(rawResponse.lastIndexOf('```') + 3).trim();
+    responseText = afterFence || 'Done! I\'ve updated the material.';
+  } else if (errors.length > 0) {
+    // Keep the current material rather than saving a half-broken one
+    responseText = `I couldn't apply that change — my updated version had missing or invalid fields:\n${errors.slice(0, 8).map(e => `• ${e}`).join('\n')}\n\nYour material is unchanged. Try rephrasing the request.`;
+  }
+
+  return {
+    material: updatedMaterial,
+    response: responseText,
+    ...(errors.length > 0 ? { validation_errors: errors } : {}),
+  };
+}
+
+// POST — apply a chat instruction to the material. Send Accept: text/event-stream to stream the reply (see lib/sse).
 export async function POST(request: NextRequest) {
   try {
     const auth = await requireAuth();
@@ -48,35 +121,17 @@ export async function POST(request: NextRequest) {
       { role: 'user', content: message.trim() },
     ];
 
-    // Call AI
-    const rawResponse = await chatWithAI(systemPrompt, messages, {
-      temperature: 0.7,
-      maxOutputTokens: 8000,
-    });
-
-    // Parse: look for JSON code fence, and text after it
-    let updatedMaterial = current_material;
-    let responseText = rawResponse;
-
-    const jsonMatch = rawResponse.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
-    if (jsonMatch) {
-      try {
-        updatedMaterial = cleanJsonResponse(jsonMatch[1]);
-        // Preserve material_type
-        updatedMaterial.material_type = material_type;
-        // Get the text after the code fence
-        const afterFence = rawResponse.substring(rawResponse.lastIndexOf('```') + 3).trim();
-        responseText = afterFence || 'Done! I\'ve updated the material.';
-      } catch {
-        // If JSON parsing fails, just return the text response
-        responseText = rawResponse;
-      }
+    const aiConfig = { feature: 'material' as const, temperature: 0.7, maxOutputTokens: 8000, signal: request.signal };
+    const refineArgs = [systemPrompt, messages, material_type, current_material, aiConfig] as const;
+
+    if (wantsEventStream(request)) {
+      return sseResponse(async send => {
+        const result = await refineMaterial(...refineArgs, text => send('delta', { text }), () => send('retry', {}));
+        send('done', result);
+      });
     }
 
-    return NextResponse.json({
-      material: updatedMaterial,
-      response: responseText,
-    });
+    return NextResponse.json(await refineMaterial(...refineArgs));
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -1,43 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/db';
+import { shareClient, sharePinFrom } from '@/lib/share-links';
+import { addPlanComment, deletePlanComment, editPlanComment, loadPlanComments } from '@/lib/plan-comments';
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
   try {
     const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
 
-    // Look up the lesson plan by token
-    const { data: plan, error: planError } = await supabase
-      .from('lesson_plans')
-      .select('id')
-      .eq('publish_token', token)
-      .eq('status', 'published')
-      .single();
-
-    if (planError || !plan) {
+    const comments = await loadPlanComments(supabase, token);
+    if (!comments) {
       return NextResponse.json(
         { error: 'Published lesson plan not found' },
         { status: 404 }
       );
     }
 
-    // Fetch all comments for this lesson plan
-    const { data: comments, error: commentsError } = await supabase
-      .from('lesson_plan_comments')
-      .select('id, parent_id, author_role, author_name, content, created_at')
-      .eq('lesson_plan_id', plan.id)
-      .order('created_at', { ascending: true });
-
-    if (commentsError) {
-      return NextResponse.json(
-        { error: commentsError.message },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json(comments ?? []);
+    return NextResponse.json(comments);
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -52,6 +33,7 @@ export async function POST(
 ) {
   try {
     const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
     const body = await request.json();
     const { author_name, author_role, content, parent_id } = body;
 
@@ -62,41 +44,20 @@ export async function POST(
       );
     }
 
-    // Look up the lesson plan by token
-    const { data: plan, error: planError } = await supabase
-      .from('lesson_plans')
-      .select('id')
-      .eq('publish_token', token)
-      .eq('status', 'published')
-      .single();
+    const comment = await addPlanComment(supabase, token, {
+      author_name: author_name.trim(),
+      author_role: author_role?.trim() || 'principal',
+      content: content.trim(),
+      parent_id: parent_id || null,
+    });
 
-    if (planError || !plan) {
+    if (!comment) {
       return NextResponse.json(
         { error: 'Published lesson plan not found' },
         { status: 404 }
       );
     }
 
-    // Insert the new comment
-    const { data: comment, error: insertError } = await supabase
-      .from('lesson_plan_comments')
-      .insert({
-        lesson_plan_id: plan.id,
-        author_name: author_name.trim(),
-        author_role: author_role?.trim() || 'principal',
-        content: content.trim(),
-        parent_id: parent_id || null,
-      })
-      .select('id, parent_id, author_role, author_name, content, created_at')
-      .single();
-
-    if (insertError) {
-      return NextResponse.json(
-        { error: insertError.message },
-        { status: 500 }
-      );
-    }
-
     return NextResponse.json(comment, { status: 201 });
   } catch (err) {
     return NextResponse.json(
@@ -112,6 +73,7 @@ export async function PATCH(
 ) {
   try {
     const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
     const body = await request.json();
     const { comment_id, content } = body;
 
@@ -122,36 +84,14 @@ export async function PATCH(
       );
     }
 
-    // Verify the plan exists
-    const { data: plan, error: planError } = await supabase
-      .from('lesson_plans')
-      .select('id')
-      .eq('publish_token', token)
-      .eq('status', 'published')
-      .single();
-
-    if (planError || !plan) {
+    const comment = await editPlanComment(supabase, token, comment_id, content.trim());
+    if (!comment) {
       return NextResponse.json(
-        { error: 'Published lesson plan not found' },
+        { error: 'Comment not found' },
         { status: 404 }
       );
     }
 
-    const { data: comment, error: updateError } = await supabase
-      .from('lesson_plan_comments')
-      .update({ content: content.trim() })
-      .eq('id', comment_id)
-      .eq('lesson_plan_id', plan.id)
-      .select('id, parent_id, author_role, author_name, content, created_at')
-      .single();
-
-    if (updateError) {
-      return NextResponse.json(
-        { error: updateError.message },
-        { status: 500 }
-      );
-    }
-
     return NextResponse.json(comment);
   } catch (err) {
     return NextResponse.json(
@@ -167,6 +107,7 @@ export async function DELETE(
 ) {
   try {
     const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
     const { searchParams } = new URL(request.url);
     const commentId = searchParams.get('comment_id');
 
@@ -177,34 +118,14 @@ export async function DELETE(
       );
     }
 
-    // Verify the plan exists
-    const { data: plan, error: planError } = await supabase
-      .from('lesson_plans')
-      .select('id')
-      .eq('publish_token', token)
-      .eq('status', 'published')
-      .single();
-
-    if (planError || !plan) {
+    const removed = await deletePlanComment(supabase, token, parseInt(commentId));
+    if (removed === null) {
       return NextResponse.json(
         { error: 'Published lesson plan not found' },
         { status: 404 }
       );
     }
 
-    const { error: deleteError } = await supabase
-      .from('lesson_plan_comments')
-      .delete()
-      .eq('id', parseInt(commentId))
-      .eq('lesson_plan_id', plan.id);
-
-    if (deleteError) {
-      return NextResponse.json(
-        { error: deleteError.message },
-        { status: 500 }
-      );
-    }
-
     return NextResponse.json({ success: true });
   } catch (err) {
     return NextResponse.json(
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/db';
 import { getAuthUser } from '@/lib/auth';
+import { loadPublishedLessonPlan, openShareLink, shareClient, sharePinFrom, SHARE_LINK_ERRORS } from '@/lib/share-links';
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
   try {
@@ -16,63 +16,24 @@ export async function GET(
       );
     }
 
-    // Fetch the lesson plan by publish_token
-    const { data: plan, error: planError } = await supabase
-      .from('lesson_plans')
-      .select('*')
-      .eq('publish_token', token)
-      .eq('status', 'published')
-      .single();
+    const supabase = shareClient(sharePinFrom(request.headers));
+    const outcome = await openShareLink(supabase, 'lesson_plan', token, request.headers.get('user-agent'));
+    if (outcome !== 'ok') {
+      const { status, error } = SHARE_LINK_ERRORS[outcome];
+      return NextResponse.json({ error, outcome }, { status });
+    }
 
-    if (planError || !plan) {
+    const published = await loadPublishedLessonPlan(supabase, token);
+    if (!published) {
       return NextResponse.json(
         { error: 'Published lesson plan not found' },
         { status: 404 }
       );
     }
-
-    // Fetch activities linked to this lesson plan
-    const { data: activities } = await supabase
-      .from('activities')
-      .select('id, class_id, date, title, description, activity_type, sort_order, material_status, material_content, is_done, is_graded')
-      .eq('lesson_plan_id', plan.id)
-      .order('date', { ascending: true })
-      .order('sort_order', { ascending: true });
-
-    // Fetch standards for all activities
-    const activityIds = (activities ?? []).map((a: Record<string, unknown>) => a.id as number);
-    let standardsMap: Record<number, { code: string; description: string }[]> = {};
-    if (activityIds.length > 0) {
-      const { data: activityStandards } = await supabase
-        .from('activity_standards')
-        .select('activity_id, standards(code, description)')
-        .in('activity_id', activityIds);
-
-      if (activityStandards) {
-        for (const as_ of activityStandards) {
-          const aid = as_.activity_id as number;
-          if (!standardsMap[aid]) standardsMap[aid] = [];
-          const std = as_.standards as unknown as { code: string; description: string } | null;
-          if (std) standardsMap[aid].push(std);
-        }
-      }
-    }
-
-    // Merge standards into activities
-    const activitiesWithStandards = (activities ?? []).map((act: Record<string, unknown>) => ({
-      ...act,
-      standards: standardsMap[act.id as number] || [],
-    }));
-
-    // Fetch comments
-    const { data: comments } = await supabase
-      .from('lesson_plan_comments')
-      .select('id, parent_id, author_role, author_name, content, created_at')
-      .eq('lesson_plan_id', plan.id)
-      .order('created_at', { ascending: true });
+    const { plan, activities, comments } = published;
 
     // Fetch classes — need authenticated client to pass RLS on classes table
-    const classIds = [...new Set((activities ?? []).map((a: Record<string, unknown>) => a.class_id as number))];
+    const classIds = [...new Set(activities.map(a => a.class_id))];
     const classMap: Record<number, { name: string; periods: string | null; color: string | null }> = {};
     if (classIds.length > 0) {
       // Try authenticated client first (works if viewer is logged in), fall back to anon
@@ -89,9 +50,9 @@ export async function GET(
     }
 
     // Attach class info to each activity from the classMap
-    const activitiesWithClasses = activitiesWithStandards.map((act: Record<string, unknown>) => ({
+    const activitiesWithClasses = activities.map(act => ({
       ...act,
-      classes: classMap[act.class_id as number] || null,
+      classes: classMap[act.class_id] || null,
     }));
 
     // Fetch settings for school/teacher info
@@ -108,7 +69,7 @@ export async function GET(
     return NextResponse.json({
       plan,
       activities: activitiesWithClasses,
-      comments: comments ?? [],
+      comments,
       school_name: settings.school_name || '',
       teacher_name: settings.teacher_name || '',
     });
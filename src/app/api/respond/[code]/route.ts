@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/db';
+import { loadResponseBellringer, responseFieldsFromBody, ResponseRejectedError, submitResponse } from '@/lib/bellringer-responses';
+import { normalizeShortCode } from '@/lib/display-remote';
+
+// GET — the bellringer a student is responding to (no answer key)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const bellringer = await loadResponseBellringer(supabase, normalizeShortCode(code));
+    if (!bellringer) {
+      return NextResponse.json({ error: 'No bellringer matches that code' }, { status: 404 });
+    }
+    return NextResponse.json(bellringer);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { class_id, period, student_name, act_choice?, journal_slot?, journal_text? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await params;
+    const body = await request.json();
+    const { fields, error: fieldError } = responseFieldsFromBody(body);
+    if (fieldError || !fields) {
+      return NextResponse.json({ error: fieldError }, { status: 400 });
+    }
+
+    const id = await submitResponse(supabase, normalizeShortCode(code), fields);
+    if (!id) {
+      return NextResponse.json({ error: 'This bellringer is no longer taking responses' }, { status: 410 });
+    }
+
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (err) {
+    if (err instanceof ResponseRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,12 +5,19 @@ import { requireAuth } from '@/lib/auth';
 const SECRET_KEYS = new Set([
   'gemini_api_key',
   'anthropic_api_key',
+  'openai_api_key',
   'ms_client_id',
   'ms_client_secret',
   'ms_tenant_id',
   'resend_api_key',
 ]);
 
+// Server configuration that comes from env vars only; users may not write these
+const SERVER_ONLY_KEYS = new Set([
+  'openai_base_url',
+  'ai_daily_limit',
+]);
+
 export async function GET() {
   try {
     const auth = await requireAuth();
@@ -28,7 +35,7 @@ export async function GET() {
     const settings: Record<string, string> = {};
     for (const row of data ?? []) {
       // Never send secret keys to the client
-      if (!SECRET_KEYS.has(row.key)) {
+      if (!SECRET_KEYS.has(row.key) && !SERVER_ONLY_KEYS.has(row.key)) {
         settings[row.key] = row.value;
       }
     }
@@ -36,6 +43,8 @@ export async function GET() {
     // Append env-var status indicators (configured or not, no actual values)
     settings._env_gemini = process.env.GEMINI_API_KEY ? 'configured' : '';
     settings._env_anthropic = process.env.ANTHROPIC_API_KEY ? 'configured' : '';
+    settings._env_openai = process.env.OPENAI_API_KEY ? 'configured' : '';
+    settings._env_openai_base_url = process.env.OPENAI_BASE_URL ? 'configured' : '';
     settings._env_ms_client_id = process.env.MS_CLIENT_ID ? 'configured' : '';
     settings._env_ms_client_secret = process.env.MS_CLIENT_SECRET ? 'configured' : '';
     settings._env_ms_tenant_id = process.env.MS_TENANT_ID ? 'configured' : '';
@@ -65,8 +74,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Filter out secret keys — they must not be saved to the DB
-    const entries = Object.entries(body).filter(([key]) => !SECRET_KEYS.has(key));
+    // Filter out secret keys and server config — they must not be saved to the DB
+    const entries = Object.entries(body).filter(([key]) => !SECRET_KEYS.has(key) && !SERVER_ONLY_KEYS.has(key));
     if (entries.length === 0) {
       return NextResponse.json(
         { error: 'No settings provided' },
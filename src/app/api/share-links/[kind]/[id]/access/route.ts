@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isShareLinkKind, loadShareLinkAccess } from '@/lib/share-links';
+
+// GET — recent visits to one link, newest first
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { kind, id } = await params;
+    if (!isShareLinkKind(kind)) {
+      return NextResponse.json({ error: 'Unknown link type' }, { status: 400 });
+    }
+
+    const access = await loadShareLinkAccess(supabase, kind, parseInt(id, 10));
+    return NextResponse.json(access);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { isShareLinkKind, shareLinkUpdatesFromBody, updateShareLink } from '@/lib/share-links';
+
+// PATCH { expires_at?, pin?, revoked?, regenerate? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { kind, id } = await params;
+    if (!isShareLinkKind(kind)) {
+      return NextResponse.json({ error: 'Unknown link type' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { updates, token, error: updateError } = shareLinkUpdatesFromBody(kind, body);
+    if (updateError) {
+      return NextResponse.json({ error: updateError }, { status: 400 });
+    }
+
+    const found = await updateShareLink(supabase, kind, parseInt(id, 10), updates);
+    if (!found) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, token });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadShareLinks } from '@/lib/share-links';
+
+// GET — every shared sub plan and published lesson plan, with visit counts
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const links = await loadShareLinks(supabase);
+    return NextResponse.json(links);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { getAIConfig, getGeminiModel, generateWithRetry } from '@/lib/ai-service';
+import { generateWithRetry } from '@/lib/ai-service';
+import { STANDARDS_PARSE_SCHEMA } from '@/lib/ai-schemas';
 
 const PARSE_SYSTEM_PROMPT = `You are a standards parser. Given freeform text containing academic standards (pasted from a document, PDF, or spreadsheet), extract each standard into structured data.
 
@@ -34,11 +35,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'grade_band is required' }, { status: 400 });
     }
 
-    const aiConfig = await getAIConfig();
-    const model = aiConfig.provider === 'gemini'
-      ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-      : null;
-
     const userPrompt = `Parse the following text and extract all academic standards. The subject is "${subject}" and the grade band is "${grade_band}".
 
 TEXT:
@@ -47,10 +43,9 @@ ${text.trim()}
 Extract every standard into structured JSON. Respond with ONLY valid JSON.`;
 
     const result = await generateWithRetry(
-      model,
       PARSE_SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.2, maxOutputTokens: 4000 }
+      { feature: 'import', temperature: 0.2, maxOutputTokens: 4000, schema: STANDARDS_PARSE_SCHEMA }
     );
 
     const parsed = (result.standards as { code: string; description: string; strand?: string }[]) || [];
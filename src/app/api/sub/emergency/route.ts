@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { randomUUID } from 'crypto';
+import { requireAuth } from '@/lib/auth';
+import { findEmptyClasses } from '@/lib/emergency-sub';
+import { enqueueJob, processJobs } from '@/lib/jobs';
+import { generateSubDashSnapshot } from '@/lib/subdash-generator';
+import { defaultSubDashExpiry } from '@/lib/share-links';
+import { sendSubPlanNotification } from '@/lib/email-service';
+import { sendTextMessage } from '@/lib/sms-service';
+
+// after() shares this time limit, so leave room for the queued picks and handouts
+export const maxDuration = 300;
+
+// POST { date, custom_notes? } — "I'm out today": share a SubDash, notify the office, then queue
+// planning for empty classes; poll /api/jobs/[id] for the picks
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { date, custom_notes = null } = body;
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'Valid date (YYYY-MM-DD) is required' }, { status: 400 });
+    }
+
+    const origin = request.headers.get('origin') || new URL(request.url).origin;
+
+    // The plan goes out with what is already planned plus the standing
+    // instructions and backup list; empty classes are filled in afterwards.
+    const emptyClasses = await findEmptyClasses(supabase, date);
+
+    const { data: snapshot, error: genError } = await generateSubDashSnapshot(date, custom_notes, [], origin);
+    if (genError || !snapshot) {
+      return NextResponse.json({ error: genError || 'Failed to generate snapshot' }, { status: 500 });
+    }
+
+    const shareToken = randomUUID();
+    const { data: plan, error: insertError } = await supabase
+      .from('subdash_plans')
+      .insert({
+        date,
+        share_token: shareToken,
+        share_expires_at: defaultSubDashExpiry(date),
+        custom_notes,
+        status: 'shared',
+        mode: 'emergency',
+        snapshot,
+        user_id: user.id,
+      })
+      .select('id, date, share_token, status, mode, created_at')
+      .single();
+
+    if (insertError) {
+      return NextResponse.json({ error: insertError.message }, { status: 500 });
+    }
+
+    const shareUrl = `${origin}/subdash/${shareToken}`;
+
+    // Notify the office
+    const { data: profileRows } = await supabase
+      .from('classroom_profiles')
+      .select('key, value')
+      .in('key', ['office_email', 'office_text_number']);
+    const profile: Record<string, string> = {};
+    for (const row of profileRows ?? []) {
+      profile[row.key] = row.value;
+    }
+
+    const classLines = snapshot.periods.map(p =>
+      `${p.period}: ${p.class_name}${p.instructions.length > 0 ? ` — ${p.instructions.map(i => i.title).join(', ')}` : ''}`);
+
+    let emailResult = { success: false, message: 'No office email set in the classroom profile' };
+    if (profile.office_email) {
+      emailResult = await sendSubPlanNotification(shareUrl, date, snapshot.teacher_name, profile.office_email, classLines);
+    }
+
+    let textResult = { success: false, message: 'No office text number set in the classroom profile' };
+    if (profile.office_text_number) {
+      textResult = await sendTextMessage(
+        profile.office_text_number,
+        `${snapshot.teacher_name} is out ${date}. Sub plans for room ${snapshot.room_number || '?'}: ${shareUrl}`,
+      );
+    }
+
+    const job = emptyClasses.length > 0
+      ? await enqueueJob(supabase, user.id, 'emergency_sub', {
+          date,
+          subdash_plan_id: plan.id,
+          origin,
+          classes: emptyClasses,
+        })
+      : null;
+    if (job) after(() => processJobs(supabase, user.id));
+
+    return NextResponse.json({
+      ...plan,
+      share_url: shareUrl,
+      job,
+      email_sent: emailResult.success,
+      email_message: emailResult.message,
+      text_sent: textResult.success,
+      text_message: textResult.message,
+      office_text_number: profile.office_text_number || null,
+    }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
+import { storedSubReport } from '@/lib/sub-report';
 
 export async function GET(
   _request: NextRequest,
@@ -22,7 +23,7 @@ export async function GET(
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
-    return NextResponse.json(data);
+    return NextResponse.json({ ...data, sub_report: data.sub_report ? storedSubReport(data.sub_report) : null });
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -42,13 +43,14 @@ export async function PATCH(
 
     const { id } = await params;
     const body = await request.json();
-    const { custom_notes, sub_name, sub_contact, status } = body;
+    const { custom_notes, sub_name, sub_contact, status, report_reviewed } = body;
 
     const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
     if (custom_notes !== undefined) updates.custom_notes = custom_notes;
     if (sub_name !== undefined) updates.sub_name = sub_name;
     if (sub_contact !== undefined) updates.sub_contact = sub_contact;
     if (status !== undefined) updates.status = status;
+    if (report_reviewed !== undefined) updates.sub_report_reviewed_at = report_reviewed ? new Date().toISOString() : null;
 
     // If sharing, also update snapshot sub info
     if (status === 'shared' || sub_name !== undefined || sub_contact !== undefined) {
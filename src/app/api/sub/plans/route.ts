@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { generateSubDashSnapshot } from '@/lib/subdash-generator';
+import { defaultSubDashExpiry } from '@/lib/share-links';
 import { randomUUID } from 'crypto';
 
 export async function GET() {
@@ -11,7 +12,7 @@ export async function GET() {
 
     const { data, error } = await supabase
       .from('subdash_plans')
-      .select('id, date, share_token, custom_notes, sub_name, sub_contact, status, mode, created_at, updated_at')
+      .select('id, date, share_token, custom_notes, sub_name, sub_contact, status, mode, sub_report_submitted_at, sub_report_reviewed_at, created_at, updated_at')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -72,6 +73,7 @@ export async function POST(request: NextRequest) {
       .insert({
         date,
         share_token: shareToken,
+        share_expires_at: defaultSubDashExpiry(date),
         custom_notes,
         sub_name,
         sub_contact,
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadUnreviewedSubReports } from '@/lib/sub-report';
+
+// GET — end-of-day reports from subs that the teacher hasn't reviewed yet
+export async function GET() {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    return NextResponse.json(await loadUnreviewedSubReports(supabase));
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shareClient, sharePinFrom } from '@/lib/share-links';
+import { attendanceMarksFromBody, loadSubDashAttendance, submitSubDashAttendance } from '@/lib/attendance';
+
+// GET — rosters for the classes on this plan's schedule, with marks so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
+    const attendance = await loadSubDashAttendance(supabase, token);
+    if (!attendance) {
+      return NextResponse.json({ error: 'SubDash not found or not shared' }, { status: 404 });
+    }
+    return NextResponse.json(attendance);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { records: [{ class_id, student_id, status, note? }] }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
+    const body = await request.json();
+    const { marks, error: markError } = attendanceMarksFromBody(body.records);
+    if (markError) {
+      return NextResponse.json({ error: markError }, { status: 400 });
+    }
+
+    const saved = await submitSubDashAttendance(supabase, token, marks);
+    if (saved === null) {
+      return NextResponse.json({ error: 'This plan is no longer taking attendance' }, { status: 410 });
+    }
+
+    return NextResponse.json({ saved });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
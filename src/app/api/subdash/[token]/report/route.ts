@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shareClient, sharePinFrom } from '@/lib/share-links';
+import { loadSubDashReport, subReportFromBody, submitSubDashReport } from '@/lib/sub-report';
+
+// GET — the sub's end-of-day report so far, and whether it can still change
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
+    const state = await loadSubDashReport(supabase, token);
+    if (!state) {
+      return NextResponse.json({ error: 'SubDash not found or not shared' }, { status: 404 });
+    }
+    return NextResponse.json(state);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { submitted_by, periods, incidents, helpful_students, materials_left, general_notes }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
+    const body = await request.json();
+    const { report, error: reportError } = subReportFromBody(body);
+    if (reportError || !report) {
+      return NextResponse.json({ error: reportError }, { status: 400 });
+    }
+
+    const submittedAt = await submitSubDashReport(supabase, token, report);
+    if (!submittedAt) {
+      return NextResponse.json({ error: 'This plan is no longer taking reports' }, { status: 410 });
+    }
+
+    return NextResponse.json({ submitted_at: submittedAt });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
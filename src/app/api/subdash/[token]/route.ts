@@ -1,28 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/db';
+import { loadSharedSubDash, openShareLink, shareClient, sharePinFrom, SHARE_LINK_ERRORS } from '@/lib/share-links';
 
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
   try {
     const { token } = await params;
+    const supabase = shareClient(sharePinFrom(request.headers));
 
-    const { data, error } = await supabase
-      .from('subdash_plans')
-      .select('snapshot')
-      .eq('share_token', token)
-      .eq('status', 'shared')
-      .single();
+    const outcome = await openShareLink(supabase, 'subdash', token, request.headers.get('user-agent'));
+    if (outcome !== 'ok') {
+      const { status, error } = SHARE_LINK_ERRORS[outcome];
+      return NextResponse.json({ error, outcome }, { status });
+    }
 
-    if (error || !data) {
+    const snapshot = await loadSharedSubDash(supabase, token);
+    if (!snapshot) {
       return NextResponse.json(
         { error: 'SubDash not found or not shared' },
         { status: 404 }
       );
     }
 
-    return NextResponse.json(data.snapshot);
+    return NextResponse.json(snapshot);
   } catch (err) {
     return NextResponse.json(
       { error: err instanceof Error ? err.message : 'Unknown error' },
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getActiveUnits, unitFieldsFromBody } from '@/lib/units';
+
+// GET — all units, or ?start=&end=[&class_id=] for the units active in that range (with standards)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { supabase } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get('start');
+    const end = searchParams.get('end');
+    const classId = searchParams.get('class_id');
+
+    if (start && end) {
+      const units = await getActiveUnits(supabase, start, end, classId ? parseInt(classId) : undefined);
+      return NextResponse.json(units);
+    }
+
+    const { data, error } = await supabase
+      .from('units')
+      .select('*')
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data ?? []);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user, supabase } = auth;
+
+    const body = await request.json();
+    const { fields, error: fieldError } = unitFieldsFromBody(body);
+    if (fieldError) {
+      return NextResponse.json({ error: fieldError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('units')
+      .insert({ ...fields, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
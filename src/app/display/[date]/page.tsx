@@ -1,11 +1,17 @@
 'use client';
 
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useRouter } from 'next/navigation';
 import type { Bellringer, BellringerPrompt, PromptCard } from '@/lib/types';
 import { TYPE_LABELS } from '@/lib/types';
 import { localDateStr, nextSchoolDay } from '@/lib/task-helpers';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import PeriodClock from '@/components/PeriodClock';
+import DisplayAgenda from '@/components/DisplayAgenda';
+import ResponseQRCode from '@/components/ResponseQRCode';
+import DisplayRemoteOverlay, { useDisplayRemote, type DisplayMessage } from '@/components/DisplayRemote';
+import type { DisplayMode, SegmentTimer } from '@/lib/display-state';
+import { ANSWER_PAGE, DISPLAY_PAGE_COUNT, type DisplayCommand } from '@/lib/display-remote';
 
 // Card accent colors matching v1 display
 const CARD_COLORS = [
@@ -27,6 +33,7 @@ function splitEmojis(text: string): { instruction: string; emojis: string } {
 
 export default function DisplayPage() {
   const params = useParams();
+  const router = useRouter();
   const dateStr = params.date === 'today'
     ? nextSchoolDay()
     : String(params.date);
@@ -42,16 +49,69 @@ export default function DisplayPage() {
 
   const totalPages = 3;
 
+  // Agenda/timer mode, switched with the A key or from the teacher's phone
+  const [mode, setMode] = useState<DisplayMode>('bellringer');
+  const [timer, setTimer] = useState<SegmentTimer | null>(null);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const remoteModeRef = useRef<DisplayMode | null>(null);
+
+  // Code students answer with on their phones; Q hides it
+  const [responseCode, setResponseCode] = useState<string | null>(null);
+  const [showResponseCode, setShowResponseCode] = useState(true);
+
+  // Paired remote: page changes, answer reveal, date swaps and pushed messages
+  const [message, setMessage] = useState<DisplayMessage | null>(null);
+  const handleCommand = useCallback((command: DisplayCommand) => {
+    switch (command.action) {
+      case 'next':
+        setCurrentPage(p => Math.min(p + 1, DISPLAY_PAGE_COUNT - 1));
+        break;
+      case 'prev':
+        setCurrentPage(p => Math.max(p - 1, 0));
+        break;
+      case 'page':
+        setMode('bellringer');
+        setCurrentPage(command.page);
+        break;
+      case 'reveal':
+        setMode('bellringer');
+        setCurrentPage(ANSWER_PAGE);
+        break;
+      case 'date':
+        setCurrentPage(0);
+        router.replace(`/display/${command.date}`);
+        break;
+      case 'message':
+        setMessage({ text: command.text, image_url: command.image_url });
+        break;
+      case 'clear_message':
+        setMessage(null);
+        break;
+      case 'mode':
+        setMode(command.mode);
+        break;
+    }
+  }, [router]);
+  const remoteStatus = useDisplayRemote(handleCommand);
+  const remoteOverlay = (
+    <DisplayRemoteOverlay status={remoteStatus} message={message} onDismissMessage={() => setMessage(null)} />
+  );
+
   const fetchData = useCallback(async () => {
     try {
       const res = await fetch(`/api/bellringers/${dateStr}`);
       if (!res.ok) { setLoading(false); return; }
       const data = await res.json();
-      if (!data?.bellringer) { setLoading(false); return; }
+      if (!data?.bellringer) { setBellringer(null); setLoading(false); return; }
 
       const b = data.bellringer;
       setBellringer(b);
 
+      fetch(`/api/bellringers/${dateStr}/responses`, { method: 'POST' })
+        .then(r => (r.ok ? r.json() : null))
+        .then(json => setResponseCode(json?.code || null))
+        .catch(() => {});
+
       // Build prompt cards from bellringer_prompts
       const cards: PromptCard[] = [];
       const prompts: BellringerPrompt[] = data.prompts || [];
@@ -122,6 +182,29 @@ export default function DisplayPage() {
     return () => document.removeEventListener('visibilitychange', handler);
   }, [fetchData]);
 
+  // Poll the phone remote: mode changes and the segment timer
+  useEffect(() => {
+    const poll = () => {
+      if (document.hidden) return;
+      fetch('/api/display/state')
+        .then(r => (r.ok ? r.json() : null))
+        .then(state => {
+          if (!state) return;
+          setTimer(state.timer);
+          setClockOffsetMs(new Date(state.server_time).getTime() - Date.now());
+          // Only follow the remote when it changes, so the A key still works locally
+          if (state.mode !== remoteModeRef.current) {
+            if (remoteModeRef.current !== null) setMode(state.mode);
+            remoteModeRef.current = state.mode;
+          }
+        })
+        .catch(() => {});
+    };
+    poll();
+    const interval = setInterval(poll, 4000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Keyboard navigation
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -135,6 +218,14 @@ export default function DisplayPage() {
           e.preventDefault();
           setCurrentPage(p => Math.max(p - 1, 0));
           break;
+        case 'a':
+        case 'A':
+          setMode(m => (m === 'agenda' ? 'bellringer' : 'agenda'));
+          break;
+        case 'q':
+        case 'Q':
+          setShowResponseCode(v => !v);
+          break;
         case 'f':
         case 'F':
           if (!document.fullscreenElement) {
@@ -310,10 +401,20 @@ export default function DisplayPage() {
     return () => { clearTimeout(timer); window.removeEventListener('resize', fitAnswer); };
   }, [bellringer, currentPage, actAnswerText]);
 
+  if (mode === 'agenda') {
+    return (
+      <div className="w-screen h-screen overflow-hidden" style={{ background: '#1a1a2e', color: '#FFFFFF', fontFamily: "'Segoe UI', system-ui, sans-serif" }}>
+        <DisplayAgenda dateStr={dateStr} isToday={dateStr === localDateStr()} timer={timer} clockOffsetMs={clockOffsetMs} />
+        {remoteOverlay}
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="w-screen h-screen flex items-center justify-center" style={{ background: '#1a1a2e' }}>
         <div className="text-2xl" style={{ color: '#6c7a96' }}>Loading...</div>
+        {remoteOverlay}
       </div>
     );
   }
@@ -322,7 +423,8 @@ export default function DisplayPage() {
     return (
       <div className="w-screen h-screen flex flex-col items-center justify-center gap-5" style={{ background: '#1a1a2e' }}>
         <h2 className="text-3xl" style={{ color: '#6c7a96' }}>No Bellringer for {dateStr}</h2>
-        <p className="text-lg" style={{ color: '#6c7a96' }}>Go to the dashboard to generate or create one.</p>
+        <p className="text-lg" style={{ color: '#6c7a96' }}>Go to the dashboard to generate or create one, or press A for today&apos;s agenda.</p>
+        {remoteOverlay}
       </div>
     );
   }
@@ -474,6 +576,14 @@ export default function DisplayPage() {
         </div>
       </div>
 
+      {/* RESPONSE CODE (not over the answer) */}
+      {responseCode && showResponseCode && currentPage !== 2 && (
+        <ResponseQRCode code={responseCode} size={110} variant="tv" />
+      )}
+
+      {/* CURRENT PERIOD (only when showing today) */}
+      {dateStr === localDateStr() && <PeriodClock />}
+
       {/* NAV ARROWS */}
       <button
         onClick={() => setCurrentPage(p => Math.max(p - 1, 0))}
@@ -508,6 +618,7 @@ export default function DisplayPage() {
         <ChevronRight size={36} />
       </button>
 
+      {remoteOverlay}
     </div>
   );
 }
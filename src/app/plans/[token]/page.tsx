@@ -4,6 +4,8 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ConfirmProvider, useConfirm } from '@/components/ConfirmDialog';
+import SharePinPrompt from '@/components/SharePinPrompt';
+import { sharePinHeaders, storeSharePin } from '@/lib/share-pin';
 
 // -- Types --
 
@@ -133,6 +135,7 @@ function PublishedPlanPage() {
   const [data, setData] = useState<PlanResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
 
   // Comment form state
   const [comments, setComments] = useState<Comment[]>([]);
@@ -168,11 +171,17 @@ function PublishedPlanPage() {
   const fetchPlan = useCallback(async () => {
     setLoading(true);
     setError('');
+    setPinMessage(null);
     try {
-      const res = await fetch(`/api/plans/${token}`);
+      const res = await fetch(`/api/plans/${token}`, { headers: sharePinHeaders(token) });
       if (!res.ok) {
         const err = await res.json().catch(() => ({ error: 'Not found' }));
-        setError(err.error || 'Lesson plan not found');
+        if (res.status === 401) {
+          storeSharePin(token, null);
+          setPinMessage(err.error || 'Enter the PIN for this link');
+        } else {
+          setError(err.error || 'Lesson plan not found');
+        }
         setLoading(false);
         return;
       }
@@ -215,7 +224,7 @@ function PublishedPlanPage() {
     try {
       const res = await fetch(`/api/plans/${token}/comments`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: sharePinHeaders(token, { 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           author_name: authorName.trim(),
           author_role: 'reviewer',
@@ -237,7 +246,7 @@ function PublishedPlanPage() {
     try {
       const res = await fetch(`/api/plans/${token}/comments`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: sharePinHeaders(token, { 'Content-Type': 'application/json' }),
         body: JSON.stringify({
           author_name: authorName.trim(),
           author_role: 'reviewer',
@@ -260,7 +269,7 @@ function PublishedPlanPage() {
     try {
       const res = await fetch(`/api/plans/${token}/comments`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: sharePinHeaders(token, { 'Content-Type': 'application/json' }),
         body: JSON.stringify({ comment_id: commentId, content: editCommentText.trim() }),
       });
       if (res.ok) {
@@ -283,6 +292,7 @@ function PublishedPlanPage() {
     try {
       const res = await fetch(`/api/plans/${token}/comments?comment_id=${commentId}`, {
         method: 'DELETE',
+        headers: sharePinHeaders(token),
       });
       if (res.ok) {
         setComments(prev => prev.filter(c => c.id !== commentId && c.parent_id !== commentId));
@@ -400,6 +410,10 @@ function PublishedPlanPage() {
     );
   }
 
+  if (pinMessage) {
+    return <SharePinPrompt token={token} title="Lesson Plan" message={pinMessage} onUnlock={fetchPlan} />;
+  }
+
   // Error / not found
   if (error || !data) {
     return (
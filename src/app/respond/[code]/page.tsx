@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { parsePeriodsToNumbers } from '@/lib/bell-schedule';
+import { ACT_LETTERS, type ActLetter, type ResponseBellringer } from '@/lib/bellringer-responses';
+import { TYPE_LABELS } from '@/lib/types';
+
+// Name and class period are remembered on the student's phone between days
+const STUDENT_KEY = 'bellringer_student';
+
+interface ClassOption {
+  value: string;
+  label: string;
+  class_id: number;
+  period: string | null;
+}
+
+function classOptions(classes: ResponseBellringer['classes']): ClassOption[] {
+  const options: ClassOption[] = [];
+  for (const c of classes) {
+    const periods = parsePeriodsToNumbers(c.periods, 20);
+    if (periods.length === 0) {
+      options.push({ value: `${c.id}|`, label: c.name, class_id: c.id, period: null });
+    }
+    for (const p of periods) {
+      options.push({ value: `${c.id}|${p}`, label: `Period ${p} · ${c.name}`, class_id: c.id, period: String(p) });
+    }
+  }
+  return options.sort((a, b) => (parseInt(a.period || '99') - parseInt(b.period || '99')) || a.label.localeCompare(b.label));
+}
+
+/** Student-facing bellringer response form, reached from the code/QR on the TV. */
+export default function RespondPage() {
+  const params = useParams();
+  const code = String(params.code).toUpperCase();
+
+  const [data, setData] = useState<ResponseBellringer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [classValue, setClassValue] = useState('');
+  const [slot, setSlot] = useState<number | null>(null);
+  const [journal, setJournal] = useState('');
+  const [choice, setChoice] = useState<ActLetter | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [sent, setSent] = useState(false);
+
+  useEffect(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STUDENT_KEY) || 'null');
+      if (saved) {
+        setName(saved.name || '');
+        setClassValue(saved.class_value || '');
+      }
+    } catch {
+      // Ignore a corrupt saved value
+    }
+
+    fetch(`/api/respond/${code}`)
+      .then(async r => {
+        const json = await r.json();
+        if (!r.ok) throw new Error(json.error || 'Code not found');
+        setData(json);
+        if (json.prompts.length === 1) setSlot(json.prompts[0].slot);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Code not found'))
+      .finally(() => setLoading(false));
+  }, [code]);
+
+  const options = data ? classOptions(data.classes) : [];
+  const selected = options.find(o => o.value === classValue) || null;
+
+  async function submit() {
+    setSubmitting(true);
+    setSubmitError('');
+    try {
+      const res = await fetch(`/api/respond/${code}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          student_name: name,
+          class_id: selected?.class_id ?? null,
+          period: selected?.period ?? null,
+          act_choice: choice,
+          journal_slot: slot,
+          journal_text: journal,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to send');
+      localStorage.setItem(STUDENT_KEY, JSON.stringify({ name: name.trim(), class_value: classValue }));
+      setSent(true);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to send');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-teal-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">Code Not Found</h1>
+          <p className="text-gray-500 mb-4">{error || 'Check the code on the board and try again.'}</p>
+          <Link href="/respond" className="text-teal-600 font-medium hover:underline">Enter a different code</Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data.open) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">Responses Closed</h1>
+          <p className="text-gray-500">This bellringer is no longer taking responses.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (sent) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <div className="text-5xl mb-3">✅</div>
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">Sent!</h1>
+          <p className="text-gray-500 mb-4">Thanks, {name.trim().split(' ')[0]}.</p>
+          <button onClick={() => setSent(false)} className="text-teal-600 font-medium hover:underline">
+            Change my answer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const choices = ACT_LETTERS.filter(l => data.act_choices[l]);
+  const inputCls = 'w-full px-3 py-2.5 bg-white border border-gray-300 rounded-lg text-gray-900 focus:border-teal-500 focus:outline-none';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-xl mx-auto px-4 py-4">
+          <p className="text-xs font-medium text-gray-400 uppercase tracking-wider">Bellringer</p>
+          <h1 className="text-lg font-bold text-gray-900">
+            {new Date(data.date + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-xl mx-auto px-4 py-5 space-y-5">
+        <section className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="First and last name" autoComplete="name" className={inputCls} />
+          {options.length > 0 && (
+            <select value={classValue} onChange={e => setClassValue(e.target.value)} className={inputCls}>
+              <option value="">Choose your class period</option>
+              {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          )}
+        </section>
+
+        {data.prompts.length > 0 && (
+          <section className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+            <h2 className="text-sm font-semibold text-gray-500 uppercase">Journal</h2>
+            <div className="space-y-2">
+              {data.prompts.map(p => (
+                <label
+                  key={p.slot}
+                  className={`block rounded-lg border p-3 cursor-pointer transition-colors ${
+                    slot === p.slot ? 'border-teal-500 bg-teal-50' : 'border-gray-200'
+                  }`}
+                >
+                  <input type="radio" name="prompt" checked={slot === p.slot} onChange={() => setSlot(p.slot)} className="sr-only" />
+                  <span className="block text-xs font-semibold text-teal-600 uppercase mb-0.5">
+                    {TYPE_LABELS[p.journal_type || ''] || 'Prompt'}
+                  </span>
+                  <span className="text-sm text-gray-800" dangerouslySetInnerHTML={{ __html: p.journal_prompt }} />
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={journal}
+              onChange={e => setJournal(e.target.value)}
+              rows={6}
+              placeholder="Write your paragraph here..."
+              className={`${inputCls} resize-y`}
+            />
+          </section>
+        )}
+
+        {data.act_question && choices.length > 0 && (
+          <section className="bg-white rounded-xl border border-gray-200 p-4 space-y-3">
+            <h2 className="text-sm font-semibold text-gray-500 uppercase">ACT Question</h2>
+            {data.act_skill && <p className="text-xs text-teal-600 font-medium">{data.act_skill}</p>}
+            <p className="text-gray-800 [&_b]:underline [&_strong]:underline" dangerouslySetInnerHTML={{ __html: data.act_question }} />
+            <div className="space-y-2">
+              {choices.map(letter => (
+                <button
+                  key={letter}
+                  onClick={() => setChoice(choice === letter ? null : letter)}
+                  className={`w-full text-left rounded-lg border px-3 py-2.5 text-sm transition-colors ${
+                    choice === letter ? 'border-teal-500 bg-teal-50 text-teal-800 font-medium' : 'border-gray-200 text-gray-800'
+                  }`}
+                >
+                  {data.act_choices[letter]}
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+        <button
+          onClick={submit}
+          disabled={submitting || !name.trim() || (options.length > 0 && !selected) || (!choice && !journal.trim())}
+          className="w-full py-3 bg-teal-600 text-white rounded-xl font-semibold hover:bg-teal-700 disabled:opacity-50 transition-colors"
+        >
+          {submitting ? 'Sending...' : 'Send'}
+        </button>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { normalizeShortCode } from '@/lib/display-remote';
+
+/** Students type the code from the TV here when they can't scan the QR. */
+export default function RespondCodePage() {
+  const [code, setCode] = useState('');
+  const router = useRouter();
+  const normalized = normalizeShortCode(code);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          if (normalized) router.push(`/respond/${normalized}`);
+        }}
+        className="w-full max-w-xs text-center space-y-4"
+      >
+        <h1 className="text-2xl font-bold text-gray-800">Bellringer</h1>
+        <p className="text-gray-500 text-sm">Enter the code on the board.</p>
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          maxLength={8}
+          autoFocus
+          autoCapitalize="characters"
+          autoComplete="off"
+          className="w-full px-3 py-3 bg-white border border-gray-300 rounded-xl text-center text-2xl font-mono tracking-[0.3em] text-gray-900 focus:border-teal-500 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={normalized.length < 4}
+          className="w-full py-3 bg-teal-600 text-white rounded-xl font-semibold hover:bg-teal-700 disabled:opacity-50 transition-colors"
+        >
+          Go
+        </button>
+      </form>
+    </div>
+  );
+}
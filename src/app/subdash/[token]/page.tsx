@@ -2,6 +2,39 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
+import { clockTime, periodAt } from '@/lib/bell-schedule';
+import { localDateStr } from '@/lib/task-helpers';
+import { emptySubReport, INSTRUCTION_STATUSES, INSTRUCTION_STATUS_LABELS } from '@/lib/sub-report';
+import { sharePinHeaders, storeSharePin } from '@/lib/share-pin';
+import SharePinPrompt from '@/components/SharePinPrompt';
+import DocumentPreview from '@/components/materials/DocumentPreview';
+import MaterialPreview from '@/components/materials/MaterialPreview';
+import { printMaterialPreview } from '@/components/materials/printMaterial';
+import type { MaterialType } from '@/components/materials/types';
+import type { SubDashReport, SubReportPeriod } from '@/lib/types';
+
+interface SeatingChartData {
+  class_name: string;
+  period: string | null;
+  name: string;
+  rows: number;
+  cols: number;
+  desks: Array<{ row: number; col: number; kind: 'desk' | 'teacher' | 'door'; student_name: string | null }>;
+}
+
+interface AttendanceStudent {
+  student_id: number;
+  name: string;
+  period: string | null;
+  status: 'present' | 'absent' | 'tardy' | null;
+  note: string | null;
+}
+
+interface AttendanceData {
+  date: string;
+  open: boolean;
+  classes: Array<{ class_id: number; class_name: string; students: AttendanceStudent[] }>;
+}
 
 interface SubDashSnapshot {
   date: string;
@@ -12,7 +45,8 @@ interface SubDashSnapshot {
   sub_name: string | null;
   sub_contact: string | null;
   custom_notes: string | null;
-  schedule: Array<{ period: string; time: string; class_name: string }>;
+  day_type?: string | null;
+  schedule: Array<{ period: string; time: string; class_name: string; start?: string; end?: string }>;
   periods: Array<{
     period: string;
     time: string;
@@ -22,6 +56,7 @@ interface SubDashSnapshot {
       description: string | null;
       activity_type: string;
       material_file_path: string | null;
+      material?: Record<string, unknown> | null;
     }>;
   }>;
   bellringer: {
@@ -35,6 +70,7 @@ interface SubDashSnapshot {
   management_notes: string;
   behavior_policy: string;
   seating_chart_urls: string[];
+  seating_charts?: SeatingChartData[];
   emergency_contacts: string;
   standing_instructions: string;
   backup_activities: string[];
@@ -59,13 +95,21 @@ export default function SubDashPublicPage() {
   const [data, setData] = useState<SubDashSnapshot | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
+    setPinMessage(null);
     try {
-      const res = await fetch(`/api/subdash/${token}`);
+      const res = await fetch(`/api/subdash/${token}`, { headers: sharePinHeaders(token) });
       if (!res.ok) {
-        setError('SubDash not found or not yet shared.');
+        const err = await res.json().catch(() => ({}));
+        if (res.status === 401) {
+          storeSharePin(token, null);
+          setPinMessage(err.error || 'Enter the PIN for this link');
+        } else {
+          setError(res.status === 404 ? 'SubDash not found or not yet shared.' : err.error || 'SubDash not available.');
+        }
         setLoading(false);
         return;
       }
@@ -79,6 +123,16 @@ export default function SubDashPublicPage() {
 
   useEffect(() => { fetchData(); }, [fetchData]);
 
+  // Handout open for printing, as "period-instruction"; one at a time so Print gets the right one
+  const [openMaterial, setOpenMaterial] = useState<string | null>(null);
+
+  // Keep the "now" marker on the schedule current while the sub has the page open
+  const [clock, setClock] = useState(() => clockTime());
+  useEffect(() => {
+    const timer = setInterval(() => setClock(clockTime()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -87,6 +141,10 @@ export default function SubDashPublicPage() {
     );
   }
 
+  if (pinMessage) {
+    return <SharePinPrompt token={token} title="Sub Plans" message={pinMessage} onUnlock={fetchData} />;
+  }
+
   if (error || !data) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
@@ -98,6 +156,9 @@ export default function SubDashPublicPage() {
     );
   }
 
+  const timedSchedule = data.schedule.filter((s): s is typeof s & { start: string; end: string } => Boolean(s.start && s.end));
+  const nowPeriod = data.date === localDateStr() ? periodAt(timedSchedule, clock).current : null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -130,7 +191,7 @@ export default function SubDashPublicPage() {
 
         {/* Schedule */}
         {data.schedule.length > 0 && (
-          <Section title="Schedule" emoji="📅">
+          <Section title="Schedule" emoji="📅" subtitle={data.day_type ? `${data.day_type} schedule` : undefined}>
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-gray-200 text-gray-500">
@@ -141,8 +202,11 @@ export default function SubDashPublicPage() {
               </thead>
               <tbody>
                 {data.schedule.map((s, i) => (
-                  <tr key={i} className="border-b border-gray-100 last:border-0">
-                    <td className="py-1.5 text-gray-800 font-medium">{s.period}</td>
+                  <tr key={i} className={`border-b border-gray-100 last:border-0 ${s === nowPeriod ? 'bg-teal-50' : ''}`}>
+                    <td className="py-1.5 text-gray-800 font-medium">
+                      {s.period}
+                      {s === nowPeriod && <span className="ml-2 text-xs font-semibold text-teal-600 uppercase">Now</span>}
+                    </td>
                     <td className="py-1.5 text-gray-600">{s.time}</td>
                     <td className="py-1.5 text-gray-800">{s.class_name || '—'}</td>
                   </tr>
@@ -204,6 +268,28 @@ export default function SubDashPublicPage() {
                     {inst.material_file_path && (
                       <a href={inst.material_file_path} target="_blank" rel="noopener noreferrer" className="ml-2 text-teal-600 hover:underline text-xs">📎 Download</a>
                     )}
+                    {inst.material && (
+                      <button
+                        onClick={() => setOpenMaterial(openMaterial === `${i}-${j}` ? null : `${i}-${j}`)}
+                        className="ml-2 text-teal-600 hover:underline text-xs print:hidden">
+                        📄 {openMaterial === `${i}-${j}` ? 'Hide handout' : 'Handout'}
+                      </button>
+                    )}
+                    {inst.material && openMaterial === `${i}-${j}` && (
+                      <div className="mt-3 mb-2 space-y-2">
+                        <div className="flex justify-end">
+                          <button onClick={printMaterialPreview}
+                            className="px-3 py-1.5 bg-teal-500 text-white rounded-lg text-xs font-semibold hover:bg-teal-600">
+                            Print Handout
+                          </button>
+                        </div>
+                        <div className="overflow-x-auto">
+                          <DocumentPreview title={(inst.material.title as string) || inst.title}>
+                            <MaterialPreview material={inst.material} materialType={inst.material.material_type as MaterialType} />
+                          </DocumentPreview>
+                        </div>
+                      </div>
+                    )}
                   </li>
                 ))}
               </ol>
@@ -213,6 +299,9 @@ export default function SubDashPublicPage() {
           </Section>
         ))}
 
+        {/* Attendance */}
+        <Attendance token={token} />
+
         {/* Teacher Notes */}
         {data.custom_notes && (
           <Section title="Teacher Notes" emoji="📝">
@@ -227,6 +316,13 @@ export default function SubDashPublicPage() {
           </Section>
         )}
 
+        {/* Seating Charts */}
+        {data.seating_charts && data.seating_charts.length > 0 && (
+          <Section title="Seating Charts" emoji="🪑">
+            <SeatingCharts charts={data.seating_charts} />
+          </Section>
+        )}
+
         {/* Classroom Management */}
         {(data.management_notes || data.behavior_policy || data.seating_chart_urls.length > 0) && (
           <Section title="Classroom Management" emoji="🏫">
@@ -299,6 +395,9 @@ export default function SubDashPublicPage() {
           </Section>
         )}
 
+        {/* End-of-day report */}
+        <EndOfDayReport token={token} snapshot={data} />
+
         {/* Footer */}
         <footer className="text-center py-6 print:py-2">
           <p className="text-xs text-gray-400">
@@ -332,3 +431,411 @@ function Section({
     </div>
   );
 }
+
+/** Tap-through seating charts: pick a class period, search a name to find their seat. */
+function SeatingCharts({ charts }: { charts: SeatingChartData[] }) {
+  const [index, setIndex] = useState(0);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const chart = charts[Math.min(index, charts.length - 1)];
+  const query = search.trim().toLowerCase();
+  const byCell = new Map(chart.desks.map(d => [`${d.row},${d.col}`, d]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 print:hidden">
+        {charts.length > 1 && charts.map((c, i) => (
+          <button
+            key={i}
+            onClick={() => { setIndex(i); setSelected(null); }}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              i === index ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}>
+            {c.period ? `${c.period}: ` : ''}{c.class_name}
+          </button>
+        ))}
+        <input
+          type="search"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Find a student..."
+          className="ml-auto px-3 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-800 focus:border-teal-500 focus:outline-none"
+        />
+      </div>
+
+      <p className="text-sm text-gray-500">
+        <span className="font-medium text-gray-800">{chart.class_name}</span>
+        {chart.period && <> &middot; {chart.period}</>} &middot; {chart.name}
+      </p>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-fit">
+          <div className="text-center text-[0.65rem] font-semibold uppercase tracking-widest text-gray-500 border border-gray-300 rounded-md py-1 mb-2">
+            Front of Room
+          </div>
+          <div className="grid gap-1.5" style={{ gridTemplateColumns: `repeat(${chart.cols}, minmax(4.5rem, 1fr))` }}>
+            {Array.from({ length: chart.rows * chart.cols }, (_, i) => {
+              const desk = byCell.get(`${Math.floor(i / chart.cols)},${i % chart.cols}`);
+              if (!desk) return <div key={i} />;
+              if (desk.kind !== 'desk') {
+                return (
+                  <div key={i} className="h-12 rounded-md bg-gray-100 text-gray-500 text-[0.6rem] uppercase tracking-wider flex items-center justify-center">
+                    {desk.kind === 'teacher' ? 'Teacher' : 'Door'}
+                  </div>
+                );
+              }
+              const name = desk.student_name;
+              const highlighted = !!name && ((query && name.toLowerCase().includes(query)) || selected === name);
+              return (
+                <button
+                  key={i}
+                  onClick={() => setSelected(name && selected !== name ? name : null)}
+                  className={`h-12 rounded-md border px-1 text-xs leading-tight transition-colors ${
+                    highlighted
+                      ? 'bg-teal-500 border-teal-600 text-white font-semibold'
+                      : name ? 'bg-white border-gray-300 text-gray-800' : 'bg-gray-50 border-dashed border-gray-200 text-gray-300'
+                  }`}>
+                  {name || 'Empty'}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const ATTENDANCE_BUTTONS: Array<{ status: 'present' | 'absent' | 'tardy'; label: string; active: string }> = [
+  { status: 'present', label: 'Present', active: 'bg-green-600 border-green-600 text-white' },
+  { status: 'absent', label: 'Absent', active: 'bg-red-600 border-red-600 text-white' },
+  { status: 'tardy', label: 'Tardy', active: 'bg-amber-500 border-amber-500 text-white' },
+];
+
+/** Per-period attendance for the classes on this plan, sent back to the teacher. */
+function Attendance({ token }: { token: string }) {
+  const [data, setData] = useState<AttendanceData | null>(null);
+  const [classIndex, setClassIndex] = useState(0);
+  const [period, setPeriod] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/subdash/${token}/attendance`, { headers: sharePinHeaders(token) })
+      .then(r => (r.ok ? r.json() : null))
+      .then(setData)
+      .catch(() => {});
+  }, [token]);
+
+  if (!data || data.classes.length === 0) return null;
+
+  const cls = data.classes[Math.min(classIndex, data.classes.length - 1)];
+  const periods = [...new Set(cls.students.map(s => s.period).filter((p): p is string => !!p))].sort();
+  const shown = period ? cls.students.filter(s => s.period === period) : cls.students;
+  const unmarked = shown.filter(s => !s.status).length;
+
+  function update(studentId: number, changes: Partial<AttendanceStudent>) {
+    setData(prev => prev && {
+      ...prev,
+      classes: prev.classes.map(c => c.class_id !== cls.class_id ? c : {
+        ...c,
+        students: c.students.map(s => s.student_id === studentId ? { ...s, ...changes } : s),
+      }),
+    });
+    setMessage(null);
+  }
+
+  function markRestPresent() {
+    for (const s of shown) if (!s.status) update(s.student_id, { status: 'present' });
+  }
+
+  async function submit() {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const records = shown
+        .filter(s => s.status)
+        .map(s => ({ class_id: cls.class_id, student_id: s.student_id, status: s.status, note: s.note }));
+      const res = await fetch(`/api/subdash/${token}/attendance`, {
+        method: 'POST',
+        headers: sharePinHeaders(token, { 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ records }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Could not send attendance');
+      setMessage({ text: `Sent ${json.saved} student${json.saved === 1 ? '' : 's'} to ${cls.class_name}'s teacher. Thank you!`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not send attendance', error: true });
+    }
+    setSaving(false);
+  }
+
+  return (
+    <Section title="Attendance" emoji="✅" subtitle={data.open ? undefined : 'Closed'}>
+      <div className="space-y-3 print:hidden">
+        <div className="flex flex-wrap gap-2">
+          {data.classes.length > 1 && data.classes.map((c, i) => (
+            <button
+              key={c.class_id}
+              onClick={() => { setClassIndex(i); setPeriod(null); setMessage(null); }}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                c.class_id === cls.class_id ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}>
+              {c.class_name}
+            </button>
+          ))}
+        </div>
+        {periods.length > 1 && (
+          <div className="flex flex-wrap gap-1.5">
+            {[null, ...periods].map(p => (
+              <button
+                key={p ?? 'all'}
+                onClick={() => { setPeriod(p); setMessage(null); }}
+                className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                  period === p ? 'bg-teal-100 text-teal-800' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                }`}>
+                {p ? `Period ${p}` : 'All periods'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No students on this roster.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {shown.map(s => (
+              <div key={s.student_id} className="py-2 flex flex-wrap items-center gap-2">
+                <span className="flex-1 min-w-[8rem] text-sm text-gray-800">
+                  {s.name}
+                  {!period && s.period && periods.length > 1 && <span className="ml-2 text-xs text-gray-400">P{s.period}</span>}
+                </span>
+                {(s.status === 'absent' || s.status === 'tardy') && (
+                  <input
+                    value={s.note || ''}
+                    onChange={e => update(s.student_id, { note: e.target.value })}
+                    placeholder="Note (optional)"
+                    maxLength={200}
+                    disabled={!data.open}
+                    className="w-36 px-2 py-1 border border-gray-200 rounded-md text-xs text-gray-800 focus:border-teal-500 focus:outline-none"
+                  />
+                )}
+                <div className="flex gap-1">
+                  {ATTENDANCE_BUTTONS.map(b => (
+                    <button
+                      key={b.status}
+                      onClick={() => update(s.student_id, { status: b.status })}
+                      disabled={!data.open}
+                      className={`px-2 py-1 rounded-md border text-xs font-semibold transition-colors disabled:opacity-60 ${
+                        s.status === b.status ? b.active : 'bg-white border-gray-200 text-gray-500 hover:border-gray-400'
+                      }`}>
+                      {b.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data.open ? (
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            {unmarked > 0 && (
+              <button
+                onClick={markRestPresent}
+                className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors">
+                Mark Rest Present
+              </button>
+            )}
+            <button
+              onClick={submit}
+              disabled={saving || shown.every(s => !s.status)}
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-semibold transition-colors disabled:opacity-50">
+              {saving ? 'Sending...' : 'Submit Attendance'}
+            </button>
+            {unmarked > 0 && <span className="text-xs text-gray-400">{unmarked} not marked yet</span>}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400 italic">Attendance for this day is closed.</p>
+        )}
+        {message && (
+          <p className={`text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </Section>
+  );
+}
+
+const STATUS_ACTIVE: Record<string, string> = {
+  done: 'bg-green-600 border-green-600 text-white',
+  partial: 'bg-amber-500 border-amber-500 text-white',
+  not_done: 'bg-red-600 border-red-600 text-white',
+};
+
+/** The sub's end-of-day report back to the teacher. Can be updated until the day after. */
+function EndOfDayReport({ token, snapshot }: { token: string; snapshot: SubDashSnapshot }) {
+  const [report, setReport] = useState<SubDashReport | null>(null);
+  const [open, setOpen] = useState(true);
+  const [submittedAt, setSubmittedAt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/subdash/${token}/report`, { headers: sharePinHeaders(token) })
+      .then(r => (r.ok ? r.json() : null))
+      .then(state => {
+        if (!state) return;
+        setReport(state.report || emptySubReport(snapshot));
+        setOpen(state.open);
+        setSubmittedAt(state.submitted_at);
+      })
+      .catch(() => {});
+  }, [token, snapshot]);
+
+  if (!report) return null;
+
+  function update(changes: Partial<SubDashReport>) {
+    setReport(prev => prev && { ...prev, ...changes });
+    setMessage(null);
+  }
+
+  function updatePeriod(index: number, changes: Partial<SubReportPeriod>) {
+    update({ periods: report!.periods.map((p, i) => i === index ? { ...p, ...changes } : p) });
+  }
+
+  function updateIncident(index: number, field: 'period' | 'students' | 'description', value: string) {
+    update({ incidents: report!.incidents.map((inc, i) => i === index ? { ...inc, [field]: value } : inc) });
+  }
+
+  async function submit() {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/subdash/${token}/report`, {
+        method: 'POST',
+        headers: sharePinHeaders(token, { 'Content-Type': 'application/json' }),
+        body: JSON.stringify(report),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Could not send the report');
+      setSubmittedAt(json.submitted_at);
+      setMessage({ text: `Sent to ${snapshot.teacher_name}. Thank you!`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not send the report', error: true });
+    }
+    setSaving(false);
+  }
+
+  const inputCls = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-800 focus:border-teal-500 focus:outline-none disabled:bg-gray-50';
+  const labelCls = 'block text-xs font-semibold text-gray-500 uppercase mb-1';
+
+  return (
+    <Section
+      title="End-of-Day Report"
+      emoji="🗒️"
+      subtitle={submittedAt ? `Sent ${new Date(submittedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}` : undefined}>
+      <div className="space-y-5 print:hidden">
+        <p className="text-sm text-gray-500">
+          Let {snapshot.teacher_name} know how the day went. {open ? 'You can send it again to update it.' : 'This report is closed.'}
+        </p>
+
+        <div>
+          <label className={labelCls}>Your Name</label>
+          <input value={report.submitted_by} onChange={e => update({ submitted_by: e.target.value })}
+            disabled={!open} maxLength={200} className={inputCls} />
+        </div>
+
+        {report.periods.map((p, i) => (
+          <div key={i} className="rounded-lg border border-gray-200 p-4 space-y-3">
+            <p className="text-sm font-bold text-gray-800">{p.period}{p.class_name ? `: ${p.class_name}` : ''}</p>
+            {p.instructions.map((inst, j) => (
+              <div key={j} className="flex flex-wrap items-center gap-2">
+                <span className="flex-1 min-w-[10rem] text-sm text-gray-700">{inst.title}</span>
+                <div className="flex gap-1">
+                  {INSTRUCTION_STATUSES.map(status => (
+                    <button
+                      key={status}
+                      onClick={() => updatePeriod(i, {
+                        instructions: p.instructions.map((x, k) => k === j ? { ...x, status } : x),
+                      })}
+                      disabled={!open}
+                      className={`px-2 py-1 rounded-md border text-xs font-semibold transition-colors disabled:opacity-60 ${
+                        inst.status === status ? STATUS_ACTIVE[status] : 'bg-white border-gray-200 text-gray-500 hover:border-gray-400'
+                      }`}>
+                      {INSTRUCTION_STATUS_LABELS[status]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <textarea value={p.notes} onChange={e => updatePeriod(i, { notes: e.target.value })}
+              disabled={!open} rows={2} placeholder="How did this period go?" className={inputCls} />
+          </div>
+        ))}
+
+        <div>
+          <label className={labelCls}>Behavior Incidents</label>
+          <div className="space-y-2">
+            {report.incidents.map((inc, i) => (
+              <div key={i} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                <div className="flex gap-2">
+                  <select value={inc.period || ''} onChange={e => updateIncident(i, 'period', e.target.value)}
+                    disabled={!open} className="px-2 py-2 border border-gray-200 rounded-lg text-sm text-gray-800">
+                    <option value="">Period</option>
+                    {report.periods.map(p => <option key={p.period} value={p.period}>{p.period}</option>)}
+                  </select>
+                  <input value={inc.students} onChange={e => updateIncident(i, 'students', e.target.value)}
+                    disabled={!open} maxLength={200} placeholder="Student(s)" className={inputCls} />
+                  {open && (
+                    <button onClick={() => update({ incidents: report.incidents.filter((_, k) => k !== i) })}
+                      className="px-2 text-gray-400 hover:text-red-600 text-sm" title="Remove">
+                      &times;
+                    </button>
+                  )}
+                </div>
+                <textarea value={inc.description} onChange={e => updateIncident(i, 'description', e.target.value)}
+                  disabled={!open} rows={2} placeholder="What happened?" className={inputCls} />
+              </div>
+            ))}
+            {open && (
+              <button onClick={() => update({ incidents: [...report.incidents, { period: null, students: '', description: '' }] })}
+                className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm font-medium transition-colors">
+                + Add Incident
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelCls}>Helpful Students</label>
+          <textarea value={report.helpful_students} onChange={e => update({ helpful_students: e.target.value })}
+            disabled={!open} rows={2} placeholder="Who went out of their way to help?" className={inputCls} />
+        </div>
+
+        <div>
+          <label className={labelCls}>Materials Left Behind</label>
+          <textarea value={report.materials_left} onChange={e => update({ materials_left: e.target.value })}
+            disabled={!open} rows={2} placeholder="Collected work, where you left it, anything missing" className={inputCls} />
+        </div>
+
+        <div>
+          <label className={labelCls}>Anything Else</label>
+          <textarea value={report.general_notes} onChange={e => update({ general_notes: e.target.value })}
+            disabled={!open} rows={2} className={inputCls} />
+        </div>
+
+        {open && (
+          <button
+            onClick={submit}
+            disabled={saving || !report.submitted_by.trim()}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-semibold transition-colors disabled:opacity-50">
+            {saving ? 'Sending...' : submittedAt ? 'Update Report' : 'Send Report'}
+          </button>
+        )}
+        {message && (
+          <p className={`text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>
+        )}
+      </div>
+    </Section>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AI_FEATURES, type AIUsageTotals, type AIUsageWeek } from '@/lib/ai-usage';
+
+type Metric = 'calls' | 'tokens' | 'cost';
+
+const METRICS: { value: Metric; label: string }[] = [
+  { value: 'calls', label: 'Requests' },
+  { value: 'tokens', label: 'Tokens' },
+  { value: 'cost', label: 'Cost' },
+];
+
+const FEATURE_COLORS: Record<string, string> = {
+  bellringer: 'bg-card1',
+  material: 'bg-card2',
+  brainstorm: 'bg-card3',
+  tagging: 'bg-card4',
+  import: 'bg-accent-yellow',
+};
+
+function formatMetric(metric: Metric, value: number): string {
+  if (metric === 'cost') return `$${value.toFixed(value < 1 ? 3 : 2)}`;
+  if (metric === 'tokens' && value >= 1000) return `${(value / 1000).toFixed(value >= 100_000 ? 0 : 1)}k`;
+  return String(value);
+}
+
+function weekLabel(week: string): string {
+  const [, m, d] = week.split('-').map(Number);
+  return `${m}/${d}`;
+}
+
+/** Settings panel: weekly AI usage by feature, and today's calls against the server's daily request limit. */
+export default function AIUsagePanel() {
+  const [weeks, setWeeks] = useState<AIUsageWeek[]>([]);
+  const [todayCalls, setTodayCalls] = useState(0);
+  const [dailyLimit, setDailyLimit] = useState(0);
+  const [metric, setMetric] = useState<Metric>('calls');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/ai-usage?weeks=8')
+      .then(r => r.json())
+      .then(data => {
+        if (data.error) return;
+        setWeeks(data.weeks || []);
+        setTodayCalls(data.today?.calls || 0);
+        setDailyLimit(data.today?.limit || 0);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  const max = Math.max(...weeks.map(w => w[metric]), 0);
+  const totals = weeks.reduce<AIUsageTotals>(
+    (acc, w) => ({ calls: acc.calls + w.calls, failures: acc.failures + w.failures, tokens: acc.tokens + w.tokens, cost: acc.cost + w.cost }),
+    { calls: 0, failures: 0, tokens: 0, cost: 0 },
+  );
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">AI Usage</h2>
+        <div className="flex gap-1">
+          {METRICS.map(m => (
+            <button
+              key={m.value}
+              onClick={() => setMetric(m.value)}
+              className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-colors ${
+                metric === m.value ? 'bg-accent text-bg-primary' : 'text-text-muted hover:text-text-primary'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-40 rounded-lg bg-bg-input animate-pulse" />
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+            <div className="rounded-lg bg-bg-input px-3 py-2">
+              <div className="text-lg font-bold text-text-primary">{totals.calls}</div>
+              <div className="text-xs text-text-muted">requests (8 weeks)</div>
+            </div>
+            <div className="rounded-lg bg-bg-input px-3 py-2">
+              <div className="text-lg font-bold text-text-primary">{formatMetric('tokens', totals.tokens)}</div>
+              <div className="text-xs text-text-muted">tokens</div>
+            </div>
+            <div className="rounded-lg bg-bg-input px-3 py-2">
+              <div className="text-lg font-bold text-text-primary">{formatMetric('cost', totals.cost)}</div>
+              <div className="text-xs text-text-muted">estimated cost</div>
+            </div>
+          </div>
+
+          {/* Stacked weekly bars */}
+          <div className="flex items-end gap-2 h-40 border-b border-border">
+            {weeks.map(w => (
+              <div key={w.week} className="flex-1 h-full flex flex-col justify-end group relative">
+                <div className="absolute -top-5 inset-x-0 text-center text-[10px] text-text-muted opacity-0 group-hover:opacity-100">
+                  {formatMetric(metric, w[metric])}
+                </div>
+                {AI_FEATURES.map(f => {
+                  const value = w.byFeature[f.value]?.[metric] || 0;
+                  if (!value || !max) return null;
+                  return (
+                    <div
+                      key={f.value}
+                      className={FEATURE_COLORS[f.value]}
+                      style={{ height: `${(value / max) * 100}%` }}
+                      title={`${f.label}: ${formatMetric(metric, value)}`}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {weeks.map(w => (
+              <div key={w.week} className="flex-1 text-center text-[10px] text-text-muted">{weekLabel(w.week)}</div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3">
+            {AI_FEATURES.map(f => (
+              <span key={f.value} className="inline-flex items-center gap-1.5 text-xs text-text-secondary">
+                <span className={`w-2.5 h-2.5 rounded-sm ${FEATURE_COLORS[f.value]}`} />
+                {f.label}
+              </span>
+            ))}
+          </div>
+          {totals.failures > 0 && (
+            <p className="text-xs text-text-muted mt-2">{totals.failures} failed request{totals.failures === 1 ? '' : 's'} included.</p>
+          )}
+        </>
+      )}
+
+      {/* Daily limit */}
+      <div className="mt-5 pt-4 border-t border-border">
+        <label className="block text-xs uppercase tracking-wider text-accent font-semibold mb-1">Daily Request Limit</label>
+        <p className="text-sm text-text-secondary">
+          {todayCalls} used today{dailyLimit > 0 ? ` of ${dailyLimit}` : ' — no limit'}
+        </p>
+        <p className="text-xs text-text-muted mt-1">
+          Every call to the AI provider counts, including automatic retries. The limit is set with AI_DAILY_LIMIT in .env.local and resets at midnight.
+        </p>
+      </div>
+    </div>
+  );
+}
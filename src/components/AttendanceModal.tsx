@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ATTENDANCE_LABELS, ATTENDANCE_STATUSES, attendanceCounts, type AttendanceEntry } from '@/lib/attendance';
+import type { AttendanceStatus } from '@/lib/types';
+
+interface AttendanceModalProps {
+  classId: number;
+  className: string;
+  date: string;
+  onClose: () => void;
+  onSaved: (saved: number) => void;
+}
+
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  present: 'bg-accent-green text-white border-accent-green',
+  absent: 'bg-accent-red text-white border-accent-red',
+  tardy: 'bg-accent-yellow text-[#111] border-accent-yellow',
+};
+
+function formatDay(dateStr: string): string {
+  return new Date(dateStr + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** Take one class's attendance for a day, period by period. */
+export default function AttendanceModal({ classId, className, date, onClose, onSaved }: AttendanceModalProps) {
+  const [students, setStudents] = useState<AttendanceEntry[]>([]);
+  const [period, setPeriod] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/classes/${classId}/attendance?date=${date}`)
+      .then(r => r.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.error) setError(data.error);
+        else setStudents(data.students || []);
+      })
+      .catch(() => { if (!cancelled) setError('Failed to load roster'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [classId, date]);
+
+  const periods = [...new Set(students.map(s => s.period).filter((p): p is string => !!p))].sort();
+  const shown = period ? students.filter(s => s.period === period) : students;
+  const counts = attendanceCounts(shown);
+
+  function mark(studentId: number, status: AttendanceStatus) {
+    setStudents(prev => prev.map(s => s.student_id === studentId ? { ...s, status } : s));
+  }
+
+  function setNote(studentId: number, note: string) {
+    setStudents(prev => prev.map(s => s.student_id === studentId ? { ...s, note } : s));
+  }
+
+  function markRestPresent() {
+    const ids = new Set(shown.map(s => s.student_id));
+    setStudents(prev => prev.map(s => ids.has(s.student_id) && !s.status ? { ...s, status: 'present' } : s));
+  }
+
+  async function save() {
+    if (saving) return;
+    setSaving(true);
+    setError('');
+    try {
+      const records = students
+        .filter(s => s.status)
+        .map(s => ({ student_id: s.student_id, status: s.status, note: s.note }));
+      const res = await fetch(`/api/classes/${classId}/attendance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, records }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save attendance');
+      onSaved(data.saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save attendance');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="bg-bg-card border border-border rounded-xl w-full max-w-2xl mx-4 shadow-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-border shrink-0 flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-bold text-text-primary">Attendance &mdash; {className}</h3>
+            <p className="text-xs text-text-muted mt-0.5">{formatDay(date)}</p>
+          </div>
+          <a href={`/api/attendance/export?start=${date}&end=${date}&class_id=${classId}`}
+            className="text-xs text-accent hover:underline">
+            Export CSV
+          </a>
+        </div>
+
+        {/* Period tabs */}
+        {periods.length > 1 && (
+          <div className="px-5 py-3 border-b border-border shrink-0 flex flex-wrap gap-1.5">
+            {[null, ...periods].map(p => (
+              <button key={p ?? 'all'} onClick={() => setPeriod(p)}
+                className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                  period === p ? 'bg-accent text-bg-primary' : 'bg-bg-input text-text-secondary hover:text-accent'
+                }`}>
+                {p ? `Period ${p}` : 'All'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Roster */}
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {error && <p className="text-xs text-accent-red mb-2">{error}</p>}
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : students.length === 0 ? (
+            <p className="text-xs text-text-muted italic text-center py-8">No students on this class roster yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {shown.map(s => (
+                <div key={s.student_id} className="py-2 flex flex-wrap items-center gap-2">
+                  <div className="flex-1 min-w-[8rem]">
+                    <span className="text-sm text-text-primary">{s.name}</span>
+                    {!period && s.period && <span className="ml-2 text-[0.65rem] text-text-muted">P{s.period}</span>}
+                  </div>
+                  {(s.status === 'absent' || s.status === 'tardy' || s.note) && (
+                    <input value={s.note || ''} onChange={e => setNote(s.student_id, e.target.value)}
+                      placeholder="Note" maxLength={200}
+                      className="w-36 px-2 py-1 bg-bg-input border border-border rounded-lg text-text-primary text-xs focus:border-accent focus:outline-none" />
+                  )}
+                  <div className="flex gap-1">
+                    {ATTENDANCE_STATUSES.map(status => (
+                      <button key={status} onClick={() => mark(s.student_id, status)}
+                        title={ATTENDANCE_LABELS[status]}
+                        className={`w-8 h-7 rounded-md border text-xs font-bold transition-colors ${
+                          s.status === status ? STATUS_STYLES[status] : 'border-border text-text-muted hover:border-accent hover:text-accent'
+                        }`}>
+                        {ATTENDANCE_LABELS[status][0]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-3 border-t border-border flex flex-wrap items-center justify-between gap-2 shrink-0">
+          <span className="text-xs text-text-muted">
+            {counts.present} present &middot; {counts.absent} absent &middot; {counts.tardy} tardy
+            {counts.unmarked > 0 && <> &middot; <span className="text-accent-yellow">{counts.unmarked} unmarked</span></>}
+          </span>
+          <div className="flex gap-2">
+            {counts.unmarked > 0 && (
+              <button onClick={markRestPresent}
+                className="px-3 py-2 text-xs border border-border text-text-secondary rounded-lg hover:border-accent hover:text-accent transition-colors">
+                Mark Rest Present
+              </button>
+            )}
+            <button onClick={onClose} className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary">Cancel</button>
+            <button
+              onClick={save}
+              disabled={loading || saving || students.every(s => !s.status)}
+              className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import { ROTATION_START_SETTING } from '@/lib/bell-schedule';
+import { localDateStr } from '@/lib/task-helpers';
+import type { BellPeriod, BellSchedule } from '@/lib/types';
+
+type Draft = Omit<BellSchedule, 'id' | 'created_at'> & { id: number | null; key: string };
+
+/** Calendar event types a schedule can claim; holidays and breaks have no bells. */
+const TRIGGER_TYPES = [
+  { value: 'early_release', label: 'Early Release' },
+  { value: 'assembly', label: 'Assembly' },
+  { value: 'testing', label: 'Testing' },
+  { value: 'custom', label: 'Custom event' },
+];
+
+const ROTATION_LABELS = ['A', 'B', 'C', 'D'];
+
+function toDraft(s: BellSchedule): Draft {
+  return { ...s, key: `s${s.id}` };
+}
+
+function blankDraft(copyFrom?: Draft): Draft {
+  return {
+    id: null,
+    key: `new-${Date.now()}`,
+    name: copyFrom ? `${copyFrom.name} (copy)` : '',
+    event_types: [],
+    rotation_order: null,
+    is_default: false,
+    periods: copyFrom
+      ? copyFrom.periods.map(p => ({ ...p }))
+      : [{ period: '1', label: null, start: '08:00', end: '08:50' }],
+  };
+}
+
+/** Settings: named bell schedules (day types), what switches a date to each, and the A/B rotation. */
+export default function BellSchedulePanel() {
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [rotationStart, setRotationStart] = useState('');
+  const [today, setToday] = useState<{ schedule: { name: string } | null; reason: string | null } | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  function loadToday() {
+    fetch(`/api/bell-schedules/now?date=${localDateStr()}`)
+      .then(r => r.json())
+      .then(data => { if (data.configured) setToday(data); else setToday(null); })
+      .catch(() => {});
+  }
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/bell-schedules').then(r => r.json()),
+      fetch('/api/settings').then(r => r.json()),
+    ])
+      .then(([schedules, settings]) => {
+        if (Array.isArray(schedules)) setDrafts(schedules.map(toDraft));
+        setRotationStart(settings?.[ROTATION_START_SETTING] || '');
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+    loadToday();
+  }, []);
+
+  function update(key: string, changes: Partial<Draft>) {
+    setDrafts(prev => prev.map(d => (d.key === key ? { ...d, ...changes } : changes.is_default ? { ...d, is_default: false } : d)));
+  }
+
+  function updatePeriod(key: string, index: number, changes: Partial<BellPeriod>) {
+    setDrafts(prev => prev.map(d => d.key !== key ? d : {
+      ...d,
+      periods: d.periods.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    }));
+  }
+
+  function addPeriod(draft: Draft) {
+    const last = draft.periods[draft.periods.length - 1];
+    const next = last && /^\d+$/.test(last.period) ? String(parseInt(last.period) + 1) : '';
+    update(draft.key, { periods: [...draft.periods, { period: next, label: null, start: last?.end || '08:00', end: last?.end || '08:50' }] });
+  }
+
+  async function save(draft: Draft) {
+    setSavingKey(draft.key);
+    try {
+      const body = {
+        name: draft.name,
+        event_types: draft.event_types,
+        rotation_order: draft.rotation_order,
+        is_default: draft.is_default,
+        periods: draft.periods,
+      };
+      const res = await fetch(draft.id ? `/api/bell-schedules/${draft.id}` : '/api/bell-schedules', {
+        method: draft.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save schedule');
+      setDrafts(prev => prev.map(d => (d.key === draft.key ? { ...toDraft(data), key: draft.key } : d)));
+      showToast(`Saved ${data.name}`);
+      loadToday();
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to save schedule', true);
+    } finally {
+      setSavingKey(null);
+    }
+  }
+
+  async function remove(draft: Draft) {
+    if (draft.id) {
+      const ok = await confirm({
+        title: 'Delete bell schedule?',
+        message: `"${draft.name}" will no longer be used for any day.`,
+        confirmLabel: 'Delete',
+        variant: 'danger',
+      });
+      if (!ok) return;
+      const res = await fetch(`/api/bell-schedules/${draft.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        showToast('Failed to delete schedule', true);
+        return;
+      }
+      loadToday();
+    }
+    setDrafts(prev => prev.filter(d => d.key !== draft.key));
+  }
+
+  async function saveRotationStart(value: string) {
+    setRotationStart(value);
+    const res = await fetch('/api/settings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ [ROTATION_START_SETTING]: value }),
+    });
+    if (res.ok) loadToday();
+    else showToast('Failed to save rotation start', true);
+  }
+
+  const hasRotation = drafts.some(d => d.rotation_order !== null);
+  const inputCls = 'px-2 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-semibold text-text-primary">Bell Schedules</h2>
+        <button onClick={() => setDrafts(prev => [...prev, blankDraft()])} className="text-sm text-accent hover:underline">
+          + New Schedule
+        </button>
+      </div>
+      <p className="text-sm text-text-secondary mb-1">
+        Period times for each kind of day. Calendar events switch a day to a matching schedule; otherwise the A/B rotation or the default applies.
+        The TV display, sub plans and day view use these times.
+      </p>
+      {today && (
+        <p className="text-xs text-text-muted mb-3">
+          Today: {today.schedule ? <span className="text-accent font-medium">{today.schedule.name}</span> : 'no school'}
+          {today.reason ? ` (${today.reason})` : ''}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : drafts.length === 0 ? (
+        <p className="text-sm text-text-muted italic py-2">
+          No bell schedules yet. Sub plans use the times typed into the sub profile until you add one.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {drafts.map(draft => (
+            <div key={draft.key} className="rounded-lg border border-border bg-bg-secondary p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <input value={draft.name} onChange={e => update(draft.key, { name: e.target.value })}
+                  placeholder="e.g. Regular, A Day, Early Release" className={`${inputCls} flex-1 min-w-40`} />
+                <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer">
+                  <input type="radio" checked={draft.is_default} onChange={() => update(draft.key, { is_default: true })} className="accent-accent" />
+                  Default
+                </label>
+                <select
+                  value={draft.rotation_order ?? ''}
+                  onChange={e => update(draft.key, { rotation_order: e.target.value === '' ? null : parseInt(e.target.value) })}
+                  className={`${inputCls} text-xs`}
+                  title="Alternate with other rotation schedules on ordinary school days"
+                >
+                  <option value="">Not in rotation</option>
+                  {ROTATION_LABELS.map((label, i) => (
+                    <option key={label} value={i + 1}>{label} day in rotation</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-text-muted mr-1">Used on:</span>
+                {TRIGGER_TYPES.map(t => {
+                  const on = draft.event_types.includes(t.value);
+                  return (
+                    <button
+                      key={t.value}
+                      onClick={() => update(draft.key, {
+                        event_types: on ? draft.event_types.filter(v => v !== t.value) : [...draft.event_types, t.value],
+                      })}
+                      className={`px-2.5 py-0.5 rounded-full text-xs font-semibold border transition-colors ${
+                        on ? 'border-accent bg-accent/15 text-accent' : 'border-border text-text-secondary hover:border-accent'
+                      }`}
+                    >
+                      {t.label} days
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-1.5">
+                {draft.periods.map((p, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input value={p.period} onChange={e => updatePeriod(draft.key, i, { period: e.target.value })}
+                      placeholder="#" title="Period number, or a name like Lunch" className={`${inputCls} w-20`} />
+                    <input value={p.label || ''} onChange={e => updatePeriod(draft.key, i, { label: e.target.value || null })}
+                      placeholder="Label (optional)" className={`${inputCls} flex-1 min-w-0`} />
+                    <input type="time" value={p.start} onChange={e => updatePeriod(draft.key, i, { start: e.target.value })} className={inputCls} />
+                    <span className="text-text-muted text-xs">to</span>
+                    <input type="time" value={p.end} onChange={e => updatePeriod(draft.key, i, { end: e.target.value })} className={inputCls} />
+                    <button onClick={() => update(draft.key, { periods: draft.periods.filter((_, j) => j !== i) })}
+                      className="px-1.5 text-text-muted hover:text-accent-red transition-colors" title="Remove period">
+                      &times;
+                    </button>
+                  </div>
+                ))}
+                <button onClick={() => addPeriod(draft)} className="text-xs text-accent hover:underline">+ Add period</button>
+              </div>
+
+              <div className="flex items-center justify-end gap-2 pt-1">
+                <button onClick={() => setDrafts(prev => [...prev, blankDraft(draft)])}
+                  className="px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary">
+                  Duplicate
+                </button>
+                <button onClick={() => remove(draft)} className="px-3 py-1.5 text-xs text-text-muted hover:text-accent-red">
+                  Delete
+                </button>
+                <button onClick={() => save(draft)} disabled={savingKey === draft.key || !draft.name.trim()}
+                  className="px-3 py-1.5 bg-accent text-bg-primary rounded-lg font-semibold text-xs hover:brightness-110 disabled:opacity-50">
+                  {savingKey === draft.key ? 'Saving...' : draft.id ? 'Save' : 'Create'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasRotation && (
+        <label className="flex items-center gap-2 mt-4 text-sm text-text-secondary">
+          First &ldquo;A&rdquo; day of the rotation
+          <input type="date" value={rotationStart} onChange={e => saveRotationStart(e.target.value)} className={inputCls} />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+
+interface CalendarSyncPanelProps {
+  classes: { id: number; name: string }[];
+}
+
+/** Settings: import a district .ics calendar and manage the ICS subscription link. */
+export default function CalendarSyncPanel({ classes }: CalendarSyncPanelProps) {
+  const [icsUrl, setIcsUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [feedClassId, setFeedClassId] = useState('');
+  const [feedBusy, setFeedBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  useEffect(() => {
+    fetch('/api/calendar/feed')
+      .then(r => r.json())
+      .then(data => { if (!data.error) setFeedToken(data.token); })
+      .catch(() => {});
+  }, []);
+
+  async function runImport(init: RequestInit) {
+    setImporting(true);
+    try {
+      const res = await fetch('/api/calendar/import-ics', { method: 'POST', ...init });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Import failed');
+      showToast(`Imported ${data.imported} event${data.imported === 1 ? '' : 's'}${data.skipped ? ` (${data.skipped} already on the calendar)` : ''}`);
+      setIcsUrl('');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Import failed', true);
+    } finally {
+      setImporting(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  }
+
+  function importFile(file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('time_zone', Intl.DateTimeFormat().resolvedOptions().timeZone);
+    runImport({ body: formData });
+  }
+
+  function importUrl() {
+    if (!icsUrl.trim()) return;
+    runImport({ headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ url: icsUrl.trim(), time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone }) });
+  }
+
+  async function createFeed(rotating: boolean) {
+    if (rotating) {
+      const ok = await confirm({
+        title: 'New subscription link?',
+        message: 'Calendars subscribed with the current link will stop updating until they subscribe again.',
+        confirmLabel: 'Rotate Link',
+        variant: 'danger',
+      });
+      if (!ok) return;
+    }
+    setFeedBusy(true);
+    try {
+      const res = await fetch('/api/calendar/feed', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create link');
+      setFeedToken(data.token);
+      showToast(rotating ? 'Subscription link rotated' : 'Subscription link created');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to create link', true);
+    } finally {
+      setFeedBusy(false);
+    }
+  }
+
+  async function revokeFeed() {
+    const ok = await confirm({
+      title: 'Turn off calendar feed?',
+      message: 'Subscribed calendars will stop receiving your schedule.',
+      confirmLabel: 'Turn Off',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    setFeedBusy(true);
+    const res = await fetch('/api/calendar/feed', { method: 'DELETE' });
+    setFeedBusy(false);
+    if (!res.ok) {
+      showToast('Failed to turn off feed', true);
+      return;
+    }
+    setFeedToken(null);
+    showToast('Calendar feed turned off');
+  }
+
+  const feedUrl = feedToken
+    ? `${typeof window !== 'undefined' ? window.location.origin : ''}/api/calendar/feed/${feedToken}.ics${feedClassId ? `?class_id=${feedClassId}` : ''}`
+    : '';
+
+  function copyFeedUrl() {
+    navigator.clipboard.writeText(feedUrl)
+      .then(() => showToast('Link copied'))
+      .catch(() => showToast('Could not copy link', true));
+  }
+
+  const inputCls = 'flex-1 min-w-0 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+  const secondaryBtnCls = 'px-3 py-2 rounded-lg border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent transition-colors disabled:opacity-50';
+
+  return (
+    <div className="mt-5 pt-5 border-t border-border space-y-5">
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-1">Import from iCalendar (.ics)</h3>
+        <p className="text-xs text-text-muted mb-2">
+          Upload the district&apos;s .ics file or paste its calendar link. Multi-day events like breaks are added for every day; events already on your calendar are skipped.
+        </p>
+        <div className="flex gap-2">
+          <input
+            value={icsUrl}
+            onChange={e => setIcsUrl(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') importUrl(); }}
+            placeholder="https://... or webcal://..."
+            className={inputCls}
+          />
+          <button onClick={importUrl} disabled={importing || !icsUrl.trim()} className={secondaryBtnCls}>
+            {importing ? 'Importing...' : 'Import Link'}
+          </button>
+          <button onClick={() => fileRef.current?.click()} disabled={importing} className={secondaryBtnCls}>
+            Upload .ics
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={e => { const file = e.target.files?.[0]; if (file) importFile(file); }}
+          />
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-text-primary mb-1">Subscribe in a calendar app</h3>
+        <p className="text-xs text-text-muted mb-2">
+          A private link with your school calendar, task due dates and each class&apos;s daily activities. Anyone with the link can see it.
+        </p>
+        {feedToken ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input value={feedUrl} readOnly onFocus={e => e.target.select()} className={`${inputCls} font-mono text-xs`} />
+              <button onClick={copyFeedUrl} className={secondaryBtnCls}>Copy</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={feedClassId}
+                onChange={e => setFeedClassId(e.target.value)}
+                className="px-2 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-xs focus:border-accent focus:outline-none"
+              >
+                <option value="">All classes</option>
+                {classes.map(c => (
+                  <option key={c.id} value={c.id}>{c.name} only</option>
+                ))}
+              </select>
+              <button onClick={() => createFeed(true)} disabled={feedBusy} className="px-2 py-1.5 text-xs text-text-muted hover:text-text-primary disabled:opacity-50">
+                Rotate link
+              </button>
+              <button onClick={revokeFeed} disabled={feedBusy} className="px-2 py-1.5 text-xs text-text-muted hover:text-accent-red disabled:opacity-50">
+                Turn off
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={() => createFeed(false)} disabled={feedBusy} className={secondaryBtnCls}>
+            {feedBusy ? 'Creating...' : 'Create Subscription Link'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
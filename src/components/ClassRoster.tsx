@@ -0,0 +1,279 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { RosterStudent } from '@/lib/types';
+import { studentDisplayName } from '@/lib/roster-helpers';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import EmptyState from '@/components/EmptyState';
+
+interface ClassRosterProps {
+  classId: string;
+}
+
+const EMPTY_FORM = { first_name: '', last_name: '', student_number: '', period: '' };
+
+export default function ClassRoster({ classId }: ClassRosterProps) {
+  const [students, setStudents] = useState<RosterStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [showAdd, setShowAdd] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [periodFilter, setPeriodFilter] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  const loadRoster = useCallback(() => {
+    return fetch(`/api/classes/${classId}/students`)
+      .then(r => r.json())
+      .then(data => setStudents(Array.isArray(data) ? data : []))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [classId]);
+
+  useEffect(() => { loadRoster(); }, [loadRoster]);
+
+  async function addStudent() {
+    if (!form.first_name.trim()) return;
+    try {
+      const res = await fetch(`/api/classes/${classId}/students`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setForm(EMPTY_FORM);
+        setShowAdd(false);
+        await loadRoster();
+      } else {
+        showToast(data.error || 'Failed to add student', true);
+      }
+    } catch {
+      showToast('Failed to add student', true);
+    }
+  }
+
+  async function importCSV(file: File) {
+    setImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch(`/api/classes/${classId}/students/import`, { method: 'POST', body: formData });
+      const data = await res.json();
+      if (res.ok) {
+        showToast(`Imported ${data.imported} students (${data.created} new, ${data.updated} updated${data.skipped ? `, ${data.skipped} skipped` : ''})`);
+        await loadRoster();
+      } else {
+        showToast(data.error || 'Import failed', true);
+      }
+    } catch {
+      showToast('Import failed', true);
+    }
+    setImporting(false);
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  async function updateStudent(student: RosterStudent, field: string, value: string) {
+    if ((student as unknown as Record<string, unknown>)[field] === (value || null)) return;
+    try {
+      const res = await fetch(`/api/classes/${classId}/students/${student.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [field]: value }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setStudents(prev => prev.map(s => s.id === student.id ? data : s));
+      } else {
+        showToast(data.error || 'Update failed', true);
+      }
+    } catch {
+      showToast('Update failed', true);
+    }
+  }
+
+  async function removeStudent(student: RosterStudent) {
+    const ok = await confirm({
+      title: 'Remove student?',
+      message: `Remove ${studentDisplayName(student)} from this class? Their records in other classes are kept.`,
+      confirmLabel: 'Remove',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    try {
+      const res = await fetch(`/api/classes/${classId}/students/${student.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        setStudents(prev => prev.filter(s => s.id !== student.id));
+      } else {
+        showToast('Remove failed', true);
+      }
+    } catch {
+      showToast('Remove failed', true);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const periods = [...new Set(students.map(s => s.period).filter((p): p is string => !!p))].sort();
+  const visible = periodFilter ? students.filter(s => s.period === periodFilter) : students;
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-base font-semibold text-text-primary">
+          Roster
+          <span className="ml-2 text-sm font-normal text-text-muted">({visible.length} students)</span>
+        </h2>
+        <div className="flex items-center gap-2">
+          {periods.length > 1 && (
+            <select
+              value={periodFilter}
+              onChange={e => setPeriodFilter(e.target.value)}
+              className="text-xs bg-bg-input border border-border rounded px-2 py-1.5 text-text-secondary"
+            >
+              <option value="">All periods</option>
+              {periods.map(p => <option key={p} value={p}>Period {p}</option>)}
+            </select>
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => { const f = e.target.files?.[0]; if (f) importCSV(f); }}
+          />
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={importing}
+            className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Import SIS CSV'}
+          </button>
+          <button
+            onClick={() => setShowAdd(v => !v)}
+            className="px-3 py-1.5 text-xs font-semibold bg-accent text-bg-primary rounded-lg hover:brightness-110 transition-all"
+          >
+            + Add Student
+          </button>
+        </div>
+      </div>
+
+      {showAdd && (
+        <div className="flex flex-wrap items-end gap-2 rounded-lg bg-bg-secondary border border-border/50 p-3">
+          {([
+            ['first_name', 'First name'],
+            ['last_name', 'Last name'],
+            ['student_number', 'Student ID'],
+            ['period', 'Period'],
+          ] as const).map(([field, label]) => (
+            <input
+              key={field}
+              type="text"
+              placeholder={label}
+              value={form[field]}
+              onChange={e => setForm(f => ({ ...f, [field]: e.target.value }))}
+              onKeyDown={e => { if (e.key === 'Enter') addStudent(); }}
+              className={`px-2 py-1.5 bg-bg-input border border-border rounded text-sm text-text-primary ${field === 'period' ? 'w-20' : 'w-36'}`}
+            />
+          ))}
+          <button
+            onClick={addStudent}
+            disabled={!form.first_name.trim()}
+            className="px-3 py-1.5 text-xs font-semibold bg-accent text-bg-primary rounded-lg hover:brightness-110 transition-all disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {students.length === 0 ? (
+        <EmptyState
+          compact
+          preset="classes"
+          title="No students on this roster yet."
+          description="Import the roster CSV from your SIS, or add students one at a time."
+        />
+      ) : (
+        <div className="divide-y divide-border/50">
+          {visible.map(student => (
+            <div key={student.id} className="py-2">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setExpandedId(expandedId === student.id ? null : student.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <span className="text-sm font-medium text-text-primary">
+                    {student.last_name}{student.last_name ? ', ' : ''}{student.preferred_name || student.first_name}
+                  </span>
+                  {student.preferred_name && (
+                    <span className="ml-1.5 text-xs text-text-muted">({student.first_name})</span>
+                  )}
+                  {student.accommodations && (
+                    <span className="ml-2 text-[0.65rem] uppercase tracking-wider text-accent-yellow">Accommodations</span>
+                  )}
+                </button>
+                {student.student_number && (
+                  <span className="text-xs text-text-muted font-mono">{student.student_number}</span>
+                )}
+                {student.period && (
+                  <span className="text-xs text-text-muted w-16 text-right">Per. {student.period}</span>
+                )}
+                <button
+                  onClick={() => removeStudent(student)}
+                  className="text-xs text-text-muted hover:text-accent-red transition-colors"
+                  title="Remove from class"
+                >
+                  &times;
+                </button>
+              </div>
+
+              {expandedId === student.id && (
+                <div className="grid grid-cols-2 gap-2 mt-2 ml-2">
+                  {([
+                    ['preferred_name', 'Preferred name'],
+                    ['grade_level', 'Grade'],
+                    ['email', 'Email'],
+                    ['period', 'Period'],
+                  ] as const).map(([field, label]) => (
+                    <label key={field} className="text-xs text-text-muted">
+                      {label}
+                      <input
+                        type="text"
+                        defaultValue={student[field] || ''}
+                        onBlur={e => updateStudent(student, field, e.target.value)}
+                        className="mt-0.5 w-full px-2 py-1 bg-bg-input border border-border rounded text-sm text-text-primary"
+                      />
+                    </label>
+                  ))}
+                  {([
+                    ['accommodations', 'Accommodations (IEP / 504)'],
+                    ['notes', 'Notes'],
+                  ] as const).map(([field, label]) => (
+                    <label key={field} className="col-span-2 text-xs text-text-muted">
+                      {label}
+                      <textarea
+                        rows={2}
+                        defaultValue={student[field] || ''}
+                        onBlur={e => updateStudent(student, field, e.target.value)}
+                        className="mt-0.5 w-full px-2 py-1 bg-bg-input border border-border rounded text-sm text-text-primary resize-y"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
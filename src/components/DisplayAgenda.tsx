@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clockTime, formatBellRange, periodAt, type DaySchedule } from '@/lib/bell-schedule';
+import { formatCountdown, timerRemaining, type SegmentTimer } from '@/lib/display-state';
+
+interface AgendaActivity {
+  id: number;
+  class_id: number;
+  title: string;
+  description: string | null;
+  activity_type: string | null;
+  is_done: boolean;
+}
+
+interface AgendaData {
+  bell_schedule: DaySchedule | null;
+  classes: { id: number; name: string; color: string | null }[];
+  activities: AgendaActivity[];
+}
+
+interface DisplayAgendaProps {
+  dateStr: string;
+  isToday: boolean;
+  timer: SegmentTimer | null;
+  /** Server clock minus this device's clock, so timers started from a phone line up */
+  clockOffsetMs: number;
+}
+
+function periodName(p: { period: string; label: string | null }): string {
+  return p.label || (/^\d+$/.test(p.period) ? `Period ${p.period}` : p.period);
+}
+
+/** Seconds from `now` until "HH:MM" today. */
+function secondsUntil(time: string, now: Date): number {
+  const [h, m] = time.split(':').map(Number);
+  const target = new Date(now);
+  target.setHours(h, m, 0, 0);
+  return Math.round((target.getTime() - now.getTime()) / 1000);
+}
+
+/**
+ * Agenda mode for the classroom TV: the current period's activities, a
+ * countdown to the bell, and the segment timer started from the teacher's phone.
+ */
+export default function DisplayAgenda({ dateStr, isToday, timer, clockOffsetMs }: DisplayAgendaProps) {
+  const [data, setData] = useState<AgendaData | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  useEffect(() => {
+    const load = () => {
+      fetch(`/api/display/agenda?date=${dateStr}`)
+        .then(r => (r.ok ? r.json() : null))
+        .then(json => { if (json) setData(json); })
+        .catch(() => {});
+    };
+    load();
+    // Activities get checked off and bumped during the day
+    const refresh = setInterval(load, 60_000);
+    return () => clearInterval(refresh);
+  }, [dateStr]);
+
+  useEffect(() => {
+    const tick = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  const now = new Date(nowMs + clockOffsetMs);
+  const periods = data?.bell_schedule?.periods || [];
+  const { current, next } = isToday ? periodAt(periods, clockTime(now)) : { current: null, next: null };
+  const focus = current || next;
+  const bellSeconds = current ? secondsUntil(current.end, now) : next ? secondsUntil(next.start, now) : null;
+
+  // The class in (or about to be in) the room; without one, show every class
+  const focusClassId = focus?.class_id ?? null;
+  const classesShown = (data?.classes || []).filter(c =>
+    focusClassId ? c.id === focusClassId : (data?.activities || []).some(a => a.class_id === c.id)
+  );
+
+  const timerLeft = timer ? timerRemaining(timer, nowMs + clockOffsetMs) : 0;
+  const timerDone = timer !== null && timerLeft === 0;
+  const timerProgress = timer && timer.duration_seconds > 0 ? 1 - timerLeft / timer.duration_seconds : 0;
+
+  return (
+    <div className="w-screen h-screen flex flex-col gap-6" style={{ padding: '28px 60px' }}>
+      {/* Period + bell countdown */}
+      <div className="flex items-end justify-between shrink-0">
+        <div>
+          <div className="uppercase tracking-widest font-bold" style={{ color: '#4ECDC4', fontSize: '1.4rem' }}>
+            {focus
+              ? `${current ? '' : 'Up next · '}${periodName(focus)} · ${formatBellRange(focus)}`
+              : data?.bell_schedule?.schedule?.name || 'Today'}
+          </div>
+          <div className="font-bold" style={{ fontSize: '3.2rem', lineHeight: 1.1 }}>
+            {focus?.class_name || (classesShown.length === 1 ? classesShown[0].name : 'Agenda')}
+          </div>
+        </div>
+        {bellSeconds !== null && bellSeconds >= 0 && (
+          <div className="text-right">
+            <div className="uppercase tracking-widest" style={{ color: '#6c7a96', fontSize: '1.2rem' }}>
+              {current ? 'Bell in' : 'Starts in'}
+            </div>
+            <div className="font-bold tabular-nums" style={{ fontSize: '4rem', lineHeight: 1, color: bellSeconds <= 120 ? '#E8A87C' : '#FFFFFF' }}>
+              {formatCountdown(bellSeconds)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 flex gap-8 min-h-0">
+        {/* Activities */}
+        <div className="flex-1 overflow-hidden min-h-0 flex flex-col gap-5">
+          {classesShown.length === 0 && (
+            <div className="flex-1 flex items-center justify-center" style={{ color: '#6c7a96', fontSize: '2rem' }}>
+              Nothing on the agenda for this day.
+            </div>
+          )}
+          {classesShown.map(cls => {
+            const acts = (data?.activities || []).filter(a => a.class_id === cls.id);
+            return (
+              <div key={cls.id} className="min-h-0">
+                {!focusClassId && (
+                  <div className="font-semibold mb-2" style={{ color: cls.color || '#4ECDC4', fontSize: '1.6rem' }}>{cls.name}</div>
+                )}
+                <ol className="flex flex-col gap-3">
+                  {acts.length === 0 && (
+                    <li style={{ color: '#6c7a96', fontSize: '1.8rem' }}>No activities planned.</li>
+                  )}
+                  {acts.map((a, i) => {
+                    const active = timer?.activity_id === a.id;
+                    return (
+                      <li
+                        key={a.id}
+                        className="rounded-2xl flex gap-5 items-baseline"
+                        style={{
+                          padding: focusClassId ? '18px 26px' : '10px 20px',
+                          background: active ? 'rgba(78, 205, 196, 0.15)' : 'rgba(255,255,255,0.05)',
+                          border: `1px solid ${active ? '#4ECDC4' : 'rgba(255,255,255,0.1)'}`,
+                          opacity: a.is_done ? 0.45 : 1,
+                        }}
+                      >
+                        <span className="font-bold tabular-nums" style={{ color: '#4ECDC4', fontSize: focusClassId ? '2.2rem' : '1.5rem' }}>{i + 1}</span>
+                        <div className="min-w-0">
+                          <div className={a.is_done ? 'line-through' : ''} style={{ fontSize: focusClassId ? '2.4rem' : '1.6rem', lineHeight: 1.25 }}>
+                            {a.title}
+                          </div>
+                          {focusClassId && a.description && (
+                            <div style={{ color: '#b8c2d6', fontSize: '1.5rem', lineHeight: 1.35, marginTop: 4 }}>{a.description}</div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Segment timer */}
+        {timer && (
+          <div
+            className="w-[34%] shrink-0 rounded-3xl flex flex-col items-center justify-center gap-4 text-center"
+            style={{
+              background: timerDone ? 'rgba(231, 76, 60, 0.18)' : 'rgba(255,255,255,0.05)',
+              border: `2px solid ${timerDone ? '#E74C3C' : 'rgba(255,255,255,0.12)'}`,
+              padding: '30px',
+            }}
+          >
+            <div className="font-semibold" style={{ fontSize: '2rem', color: '#b8c2d6' }}>{timer.label}</div>
+            <div
+              className={`font-bold tabular-nums ${timerDone ? 'animate-pulse' : ''}`}
+              style={{ fontSize: '7.5rem', lineHeight: 1, color: timerDone ? '#E74C3C' : timerLeft <= 60 ? '#E8A87C' : '#FFFFFF' }}
+            >
+              {timerDone ? 'Time!' : formatCountdown(timerLeft)}
+            </div>
+            <div className="w-full rounded-full overflow-hidden" style={{ height: 12, background: 'rgba(255,255,255,0.1)' }}>
+              <div style={{ width: `${Math.min(100, timerProgress * 100)}%`, height: '100%', background: '#4ECDC4', transition: 'width 1s linear' }} />
+            </div>
+            {!timer.started_at && !timerDone && (
+              <div className="uppercase tracking-widest" style={{ color: '#6c7a96', fontSize: '1.2rem' }}>Paused</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Eye, Monitor, Send, X } from 'lucide-react';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import { localDateStr } from '@/lib/task-helpers';
+
+interface PairedDisplay {
+  id: number;
+  name: string | null;
+  paired_at: string | null;
+  last_seen_at: string | null;
+}
+
+// A display polls every second while open; older than this it's probably off
+const ONLINE_WINDOW_MS = 2 * 60 * 1000;
+
+/** Remote page: pair classroom displays and drive them live (pages, answer, date, messages). */
+export default function DisplayControls() {
+  const [displays, setDisplays] = useState<PairedDisplay[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [pairing, setPairing] = useState(false);
+  const [date, setDate] = useState(() => localDateStr());
+  const [text, setText] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [sending, setSending] = useState(false);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  useEffect(() => {
+    fetch('/api/display/sessions')
+      .then(r => r.json())
+      .then(data => {
+        if (!Array.isArray(data)) return;
+        setDisplays(data);
+        if (data.length > 0) setSelectedId(data[data.length - 1].id);
+      })
+      .catch(() => {});
+  }, []);
+
+  async function pair() {
+    setPairing(true);
+    try {
+      const res = await fetch('/api/display/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, name }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to pair display');
+      setDisplays(prev => [...prev, data]);
+      setSelectedId(data.id);
+      setCode('');
+      setName('');
+      showToast(`Paired ${data.name}`);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to pair display', true);
+    } finally {
+      setPairing(false);
+    }
+  }
+
+  async function unpair(display: PairedDisplay) {
+    const ok = await confirm({
+      title: 'Unpair display?',
+      message: `"${display.name}" will show a new pairing code and stop taking commands.`,
+      confirmLabel: 'Unpair',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    const res = await fetch(`/api/display/sessions/${display.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to unpair display', true);
+      return;
+    }
+    setDisplays(prev => prev.filter(d => d.id !== display.id));
+    if (selectedId === display.id) setSelectedId(null);
+  }
+
+  async function send(command: Record<string, unknown>) {
+    if (!selectedId) return;
+    setSending(true);
+    try {
+      const res = await fetch(`/api/display/sessions/${selectedId}/commands`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(command),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to send to display');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to send to display', true);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const btnCls = 'flex items-center justify-center gap-1.5 py-3 rounded-lg border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent transition-colors disabled:opacity-50';
+  const inputCls = 'w-full px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+  const disabled = sending || !selectedId;
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5 space-y-4">
+      <h2 className="text-sm font-semibold text-text-primary">Displays</h2>
+
+      {displays.length > 0 && (
+        <ul className="space-y-1.5">
+          {displays.map(d => {
+            const online = d.last_seen_at && Date.now() - new Date(d.last_seen_at).getTime() < ONLINE_WINDOW_MS;
+            return (
+              <li key={d.id} className="flex items-center gap-2">
+                <button
+                  onClick={() => setSelectedId(d.id)}
+                  className={`flex-1 min-w-0 flex items-center gap-2 px-3 py-2 rounded-lg border text-sm text-left transition-colors ${
+                    selectedId === d.id ? 'border-accent bg-accent/15 text-accent' : 'border-border text-text-secondary'
+                  }`}
+                >
+                  <Monitor size={14} className="shrink-0" />
+                  <span className="truncate flex-1">{d.name}</span>
+                  <span className={`w-2 h-2 rounded-full shrink-0 ${online ? 'bg-accent-green' : 'bg-text-muted'}`} title={online ? 'Online' : 'Not seen recently'} />
+                </button>
+                <button onClick={() => unpair(d)} className="p-2 text-text-muted hover:text-accent-red" title="Unpair">
+                  <X size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Pair a new display */}
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          placeholder="Code on TV"
+          maxLength={8}
+          className={`${inputCls} w-28 font-mono tracking-widest uppercase`}
+        />
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Name (e.g. Room 204)" className={inputCls} />
+        <button
+          onClick={pair}
+          disabled={pairing || code.trim().length < 4}
+          className="px-3 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50 shrink-0"
+        >
+          Pair
+        </button>
+      </div>
+      {displays.length === 0 && (
+        <p className="text-xs text-text-muted">Open the display on the classroom TV; its pairing code shows in the corner.</p>
+      )}
+
+      {selectedId && (
+        <>
+          {/* Pages */}
+          <div className="grid grid-cols-4 gap-2">
+            <button onClick={() => send({ action: 'prev' })} disabled={disabled} className={btnCls}><ChevronLeft size={16} /> Back</button>
+            <button onClick={() => send({ action: 'page', page: 1 })} disabled={disabled} className={btnCls}>Question</button>
+            <button onClick={() => send({ action: 'reveal' })} disabled={disabled} className={`${btnCls} text-accent`}><Eye size={14} /> Answer</button>
+            <button onClick={() => send({ action: 'next' })} disabled={disabled} className={btnCls}>Next <ChevronRight size={16} /></button>
+          </div>
+
+          {/* Swap date */}
+          <div className="flex gap-2">
+            <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputCls} />
+            <button onClick={() => send({ action: 'date', date })} disabled={disabled || !date} className={`${btnCls} px-3 shrink-0`}>
+              Show bellringer
+            </button>
+          </div>
+
+          {/* Push a message */}
+          <div className="space-y-2">
+            <textarea value={text} onChange={e => setText(e.target.value)} rows={2} placeholder="Message for the TV" className={`${inputCls} resize-none`} />
+            <input value={imageUrl} onChange={e => setImageUrl(e.target.value)} placeholder="Image URL (optional)" className={inputCls} />
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => send({ action: 'message', text, image_url: imageUrl })}
+                disabled={disabled || (!text.trim() && !imageUrl.trim())}
+                className="flex items-center justify-center gap-1.5 py-2.5 rounded-lg bg-accent text-bg-primary font-semibold text-sm hover:brightness-110 disabled:opacity-50"
+              >
+                <Send size={14} /> Show on TV
+              </button>
+              <button onClick={() => send({ action: 'clear_message' })} disabled={disabled} className={btnCls}>Clear message</button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { DisplayCommand } from '@/lib/display-remote';
+
+export interface DisplayRemoteStatus {
+  paired: boolean;
+  pair_code: string | null;
+  name: string | null;
+}
+
+export interface DisplayMessage {
+  text: string;
+  image_url: string | null;
+}
+
+const TOKEN_KEY = 'display_remote_token';
+const RETRY_MS = 5000;
+
+/**
+ * Connect this display to the teacher's remote. Keeps a session token in
+ * localStorage so the pairing survives reloads, listens on the command
+ * stream, and starts a new session (new pairing code) if the old one was
+ * unpaired or deleted.
+ */
+export function useDisplayRemote(onCommand: (command: DisplayCommand) => void): DisplayRemoteStatus | null {
+  const [status, setStatus] = useState<DisplayRemoteStatus | null>(null);
+  const onCommandRef = useRef(onCommand);
+
+  useEffect(() => { onCommandRef.current = onCommand; }, [onCommand]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = (fn: () => void) => {
+      if (!cancelled) retry = setTimeout(fn, RETRY_MS);
+    };
+
+    const startSession = () => {
+      fetch('/api/display/screen', { method: 'POST' })
+        .then(r => (r.ok ? r.json() : null))
+        .then(data => {
+          if (cancelled) return;
+          if (!data?.token) { schedule(startSession); return; }
+          localStorage.setItem(TOKEN_KEY, data.token);
+          setStatus({ paired: false, pair_code: data.pair_code, name: null });
+          listen(data.token);
+        })
+        .catch(() => schedule(startSession));
+    };
+
+    const forget = () => {
+      source?.close();
+      localStorage.removeItem(TOKEN_KEY);
+      setStatus(null);
+      startSession();
+    };
+
+    const listen = (token: string) => {
+      source?.close();
+      const url = `/api/display/screen/${token}/events`;
+      source = new EventSource(url);
+
+      source.addEventListener('status', e => {
+        setStatus(JSON.parse((e as MessageEvent).data));
+      });
+      source.addEventListener('command', e => {
+        onCommandRef.current(JSON.parse((e as MessageEvent).data));
+      });
+      source.addEventListener('error', e => {
+        // Named `error` events come from the route: the session is gone
+        if ((e as MessageEvent).data) { forget(); return; }
+        // Otherwise EventSource reconnects by itself — unless the route
+        // refused the connection, which is a 404 for an unknown session
+        if (source?.readyState !== EventSource.CLOSED) return;
+        schedule(() => {
+          const check = new AbortController();
+          fetch(url, { signal: check.signal })
+            .then(r => {
+              check.abort();
+              if (cancelled) return;
+              if (r.status === 404) forget();
+              else listen(token);
+            })
+            .catch(() => schedule(() => listen(token)));
+        });
+      });
+    };
+
+    const saved = localStorage.getItem(TOKEN_KEY);
+    if (saved) listen(saved);
+    else startSession();
+
+    return () => {
+      cancelled = true;
+      source?.close();
+      if (retry) clearTimeout(retry);
+    };
+  }, []);
+
+  return status;
+}
+
+interface DisplayRemoteOverlayProps {
+  status: DisplayRemoteStatus | null;
+  message: DisplayMessage | null;
+  onDismissMessage: () => void;
+}
+
+/** Pairing code while unpaired, and any message pushed from the remote. */
+export default function DisplayRemoteOverlay({ status, message, onDismissMessage }: DisplayRemoteOverlayProps) {
+  return (
+    <>
+      {status && !status.paired && status.pair_code && (
+        <div
+          className="fixed bottom-4 left-4 z-40 rounded-xl select-none"
+          style={{ background: 'rgba(0,0,0,0.45)', border: '1px solid rgba(255,255,255,0.15)', padding: '10px 16px', color: '#b8c2d6' }}
+        >
+          <div className="uppercase tracking-widest" style={{ fontSize: '0.8rem' }}>Pair from TV Remote</div>
+          <div className="font-bold tracking-[0.3em]" style={{ fontSize: '1.8rem', color: '#FFFFFF' }}>{status.pair_code}</div>
+        </div>
+      )}
+
+      {message && (
+        <div
+          onClick={onDismissMessage}
+          className="fixed inset-0 z-[60] flex flex-col items-center justify-center gap-8 cursor-pointer"
+          style={{ background: 'rgba(16, 16, 34, 0.96)', padding: '40px 80px' }}
+        >
+          {message.image_url && (
+            <img src={message.image_url} alt="" className="max-w-full object-contain rounded-2xl" style={{ maxHeight: message.text ? '65vh' : '88vh' }} />
+          )}
+          {message.text && (
+            <div className="text-center font-semibold whitespace-pre-line" style={{ fontSize: message.image_url ? '2.8rem' : '4.5rem', lineHeight: 1.3, color: '#FFFFFF' }}>
+              {message.text}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
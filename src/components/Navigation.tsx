@@ -39,6 +39,15 @@ const navLinks: NavLink[] = [
       </svg>
     ),
   },
+  {
+    href: '/units',
+    label: 'Units',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h10M4 12h16M8 18h10" />
+      </svg>
+    ),
+  },
   {
     href: '/materials',
     label: 'Materials',
@@ -84,6 +93,15 @@ const navLinks: NavLink[] = [
       </svg>
     ),
   },
+  {
+    href: '/share-links',
+    label: 'Shared Links',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+      </svg>
+    ),
+  },
   {
     href: '/settings',
     label: 'Settings',
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clockTime, periodAt, type DaySchedule } from '@/lib/bell-schedule';
+import { localDateStr } from '@/lib/task-helpers';
+
+function periodName(p: { period: string; label: string | null }): string {
+  return p.label || (/^\d+$/.test(p.period) ? `Period ${p.period}` : p.period);
+}
+
+/**
+ * TV display corner badge: the current period and minutes left, from today's
+ * bell schedule. Renders nothing when no schedule is set up or school's out.
+ */
+export default function PeriodClock() {
+  const [day, setDay] = useState<DaySchedule | null>(null);
+  const [clock, setClock] = useState(() => clockTime());
+
+  useEffect(() => {
+    const load = () => {
+      fetch(`/api/bell-schedules/now?date=${localDateStr()}&time=${clockTime()}`)
+        .then(r => (r.ok ? r.json() : null))
+        .then(data => setDay(data?.configured ? data : null))
+        .catch(() => {});
+    };
+    load();
+    const handler = () => { if (!document.hidden) load(); };
+    document.addEventListener('visibilitychange', handler);
+    return () => document.removeEventListener('visibilitychange', handler);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(clockTime()), 15_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!day || day.periods.length === 0) return null;
+  const { current, next, minutes_left } = periodAt(day.periods, clock);
+  if (!current && !next) return null;
+
+  const text = current
+    ? `${periodName(current)}${current.class_name ? ` · ${current.class_name}` : ''} · ${minutes_left} min left`
+    : `${periodName(next!)} starts in ${minutes_left} min`;
+
+  return (
+    <div
+      className="fixed top-3 right-4 z-40 rounded-full select-none"
+      style={{
+        background: 'rgba(255,255,255,0.08)',
+        border: '1px solid rgba(255,255,255,0.15)',
+        color: minutes_left !== null && minutes_left <= 5 ? '#E8A87C' : '#6c7a96',
+        padding: '4px 14px',
+        fontSize: '1.1rem',
+      }}
+    >
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ActivityMove, ReschedulePlan } from '@/lib/rescheduler';
+
+export type RescheduleTarget =
+  | { kind: 'activity'; id: number; title: string; className: string }
+  | { kind: 'day'; date: string };
+
+interface RescheduleModalProps {
+  target: RescheduleTarget;
+  onClose: () => void;
+  onApplied: (moved: number) => void;
+}
+
+function formatDay(dateStr: string): string {
+  return new Date(dateStr + 'T12:00:00').toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Preview-then-apply dialog for the rescheduling engine: bump one activity
+ * (optionally shifting the rest of its unit), or cancel a whole day.
+ */
+export default function RescheduleModal({ target, onClose, onApplied }: RescheduleModalProps) {
+  const [mode, setMode] = useState<'single' | 'shift'>('single');
+  const [days, setDays] = useState(1);
+  const [skipTesting, setSkipTesting] = useState(false);
+  const [closureTitle, setClosureTitle] = useState('Snow day');
+  const [plan, setPlan] = useState<ReschedulePlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState('');
+
+  const request = useCallback((extra: Record<string, unknown>) => {
+    const url = target.kind === 'activity' ? `/api/activities/${target.id}/bump` : '/api/activities/reschedule';
+    const body = target.kind === 'activity'
+      ? { mode, days, skip_testing: skipTesting, ...extra }
+      : { date: target.date, title: closureTitle, skip_testing: skipTesting, ...extra };
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }, [target, mode, days, skipTesting, closureTitle]);
+
+  useEffect(() => {
+    let cancelled = false;
+    request({ preview: true })
+      .then(r => r.json())
+      .then(data => {
+        if (cancelled) return;
+        if (data.error) setError(data.error);
+        else { setPlan(data); setError(''); }
+      })
+      .catch(() => { if (!cancelled) setError('Failed to load preview'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [request]);
+
+  async function apply() {
+    if (!plan || applying) return;
+    setApplying(true);
+    try {
+      const res = await request({ expected: plan.moves.map(m => ({ id: m.id, to: m.to })) });
+      const data = await res.json();
+      if (res.status === 409) {
+        // Someone changed the schedule — show the fresh plan instead
+        setPlan(data);
+        setError(data.error);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || 'Failed to reschedule');
+      onApplied(plan.moves.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reschedule');
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  const refresh = () => setLoading(true);
+  const moves: ActivityMove[] = plan?.moves || [];
+  const inputCls = 'px-2 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-xs focus:border-accent focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="bg-bg-card border border-border rounded-xl w-full max-w-2xl mx-4 shadow-2xl flex flex-col max-h-[85vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-5 py-4 border-b border-border shrink-0">
+          <h3 className="text-sm font-bold text-text-primary">
+            {target.kind === 'activity' ? `Reschedule "${target.title}"` : `Cancel ${formatDay(target.date)}`}
+          </h3>
+          <p className="text-xs text-text-muted mt-0.5">
+            {target.kind === 'activity'
+              ? target.className
+              : 'Every class’s remaining unit activities move forward one school day.'}
+          </p>
+        </div>
+
+        {/* Options */}
+        <div className="px-5 py-3 border-b border-border shrink-0 flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+          {target.kind === 'activity' ? (
+            <>
+              <select value={mode} onChange={e => { setMode(e.target.value as 'single' | 'shift'); refresh(); }} className={inputCls}>
+                <option value="single">Just this activity</option>
+                <option value="shift">This and the rest of the unit</option>
+              </select>
+              <label className="flex items-center gap-1.5">
+                by
+                <input type="number" min={1} max={20} value={days}
+                  onChange={e => { setDays(Math.max(1, parseInt(e.target.value) || 1)); refresh(); }}
+                  className={`${inputCls} w-14`} />
+                school day{days === 1 ? '' : 's'}
+              </label>
+            </>
+          ) : (
+            <label className="flex items-center gap-1.5">
+              Reason
+              <input value={closureTitle} onChange={e => setClosureTitle(e.target.value)} className={`${inputCls} w-40`} />
+            </label>
+          )}
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={skipTesting} onChange={e => { setSkipTesting(e.target.checked); refresh(); }} className="accent-accent" />
+            Skip testing days
+          </label>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {error && <p className="text-xs text-accent-red mb-2">{error}</p>}
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : moves.length === 0 ? (
+            <p className="text-xs text-text-muted italic text-center py-8">Nothing to move.</p>
+          ) : (
+            <>
+              {plan && plan.units.length > 0 && (
+                <p className="text-xs text-text-muted mb-2">
+                  Shifting within {plan.units.map(u => `"${u.title}" (ends ${formatDay(u.end_date)})`).join(', ')}.
+                </p>
+              )}
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-text-muted text-left">
+                    <th className="py-1 font-semibold">Activity</th>
+                    <th className="py-1 font-semibold">From</th>
+                    <th className="py-1 font-semibold">To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {moves.map(m => (
+                    <tr key={m.id} className="border-t border-border align-top">
+                      <td className="py-1.5 pr-2">
+                        <div className="text-text-primary">{m.title}</div>
+                        {target.kind === 'day' && <div className="text-text-muted">{m.class_name}</div>}
+                        {m.warnings.map(w => (
+                          <div key={w} className="text-accent-yellow">{w}</div>
+                        ))}
+                      </td>
+                      <td className="py-1.5 pr-2 text-text-muted whitespace-nowrap">{formatDay(m.from)}</td>
+                      <td className="py-1.5 text-text-primary font-medium whitespace-nowrap">{formatDay(m.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-5 py-3 border-t border-border flex items-center justify-between shrink-0">
+          <span className="text-xs text-text-muted">
+            {moves.length} activit{moves.length === 1 ? 'y' : 'ies'} will move{plan?.closure ? `; ${formatDay(plan.closure.date)} is marked "${plan.closure.title}"` : ''}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary">Cancel</button>
+            <button
+              onClick={apply}
+              disabled={loading || applying || (moves.length === 0 && !plan?.closure)}
+              className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50"
+            >
+              {applying ? 'Applying...' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+
+interface ResponseQRCodeProps {
+  code: string;
+  /** Rendered size in pixels */
+  size?: number;
+  /** TV badge (dark) or a card on the dashboard (light) */
+  variant?: 'tv' | 'card';
+}
+
+export function responseUrl(code: string): string {
+  return `${window.location.origin}/respond/${code}`;
+}
+
+/** QR and short code students use to answer the bellringer on their phones. */
+export default function ResponseQRCode({ code, size = 132, variant = 'card' }: ResponseQRCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [host, setHost] = useState('');
+
+  useEffect(() => {
+    QRCode.toDataURL(responseUrl(code), { margin: 1, width: size * 2, errorCorrectionLevel: 'M' })
+      .then(url => {
+        setDataUrl(url);
+        setHost(window.location.host);
+      })
+      .catch(() => setDataUrl(null));
+  }, [code, size]);
+
+  if (variant === 'tv') {
+    return (
+      <div
+        className="fixed bottom-4 right-4 z-40 rounded-2xl flex items-center gap-4 select-none"
+        style={{ background: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255,255,255,0.15)', padding: 12 }}
+      >
+        {dataUrl && <img src={dataUrl} alt="" width={size} height={size} className="rounded-lg" />}
+        <div style={{ color: '#b8c2d6' }}>
+          <div className="uppercase tracking-widest" style={{ fontSize: '0.85rem' }}>Answer at {host}/respond</div>
+          <div className="font-bold tracking-[0.25em]" style={{ fontSize: '2.2rem', color: '#FFFFFF', lineHeight: 1.2 }}>{code}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      {dataUrl && <img src={dataUrl} alt={`QR code for ${code}`} width={size} height={size} className="rounded-lg bg-white" />}
+      <div>
+        <p className="text-xs text-text-muted">{host}/respond</p>
+        <p className="text-2xl font-bold font-mono tracking-[0.25em] text-text-primary">{code}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,458 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RosterStudent, SeatingChart, SeatingDesk, SeatingDeskKind } from '@/lib/types';
+import { sortRoster, studentDisplayName } from '@/lib/roster-helpers';
+import { MAX_GRID, fillEmptyDesks, rosterForPeriod } from '@/lib/seating-charts';
+import { useToast } from '@/components/Toast';
+import { useConfirm } from '@/components/ConfirmDialog';
+import EmptyState from '@/components/EmptyState';
+
+interface SeatingChartEditorProps {
+  classId: string;
+}
+
+type Tool = 'seat' | SeatingDeskKind | 'erase';
+
+const TOOLS: { value: Tool; label: string }[] = [
+  { value: 'seat', label: 'Seat Students' },
+  { value: 'desk', label: 'Desk' },
+  { value: 'teacher', label: 'Teacher Desk' },
+  { value: 'door', label: 'Door' },
+  { value: 'erase', label: 'Erase' },
+];
+
+const inputCls = 'px-3 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+
+const cellKey = (row: number, col: number) => `${row},${col}`;
+
+/** Keep desks inside the new grid and put a desk in every cell the grid gained. */
+function resizeDesks(desks: SeatingDesk[], rows: number, cols: number, oldRows: number, oldCols: number): SeatingDesk[] {
+  const kept = desks.filter(d => d.row < rows && d.col < cols);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (row >= oldRows || col >= oldCols) kept.push({ row, col, kind: 'desk', student_id: null });
+    }
+  }
+  return kept;
+}
+
+function chartLabel(chart: Pick<SeatingChart, 'period' | 'name'>): string {
+  return `${chart.period || 'All periods'} · ${chart.name}`;
+}
+
+/** Room layout and drag-and-drop seating for one class, with several charts per period. */
+export default function SeatingChartEditor({ classId }: SeatingChartEditorProps) {
+  const [charts, setCharts] = useState<SeatingChart[]>([]);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<SeatingChart | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [tool, setTool] = useState<Tool>('seat');
+  const [picked, setPicked] = useState<number | null>(null);
+  const { showToast } = useToast();
+  const { confirm } = useConfirm();
+
+  useEffect(() => {
+    Promise.all([
+      fetch(`/api/classes/${classId}/seating-charts`).then(r => r.json()),
+      fetch(`/api/classes/${classId}/students`).then(r => r.json()),
+    ])
+      .then(([chartData, rosterData]) => {
+        const list: SeatingChart[] = Array.isArray(chartData) ? chartData : [];
+        setCharts(list);
+        setRoster(Array.isArray(rosterData) ? rosterData : []);
+        setDraft(list.find(c => c.is_active) || list[0] || null);
+      })
+      .catch(() => showToast('Failed to load seating charts', true))
+      .finally(() => setLoading(false));
+  }, [classId, showToast]);
+
+  const names = new Map(roster.map(s => [s.id, studentDisplayName(s)]));
+  const periods = [...new Set(roster.map(s => s.period).filter((p): p is string => !!p))].sort();
+  const students = draft ? sortRoster(rosterForPeriod(roster, draft.period)) : [];
+  const seated = new Set(draft?.desks.map(d => d.student_id).filter(Boolean));
+  const unseated = students.filter(s => !seated.has(s.id));
+  const deskCount = draft?.desks.filter(d => d.kind === 'desk').length ?? 0;
+
+  function update(changes: Partial<SeatingChart>) {
+    setDraft(d => (d ? { ...d, ...changes } : d));
+    setDirty(true);
+  }
+
+  function setDesks(desks: SeatingDesk[]) {
+    update({ desks });
+  }
+
+  async function selectChart(chart: SeatingChart) {
+    if (dirty && !(await confirm({ title: 'Discard Changes', message: 'This chart has unsaved changes. Switch anyway?', confirmLabel: 'Discard', variant: 'danger' }))) return;
+    setDraft(chart);
+    setDirty(false);
+    setPicked(null);
+  }
+
+  async function createChart() {
+    if (dirty && !(await confirm({ title: 'Discard Changes', message: 'This chart has unsaved changes. Start a new one anyway?', confirmLabel: 'Discard', variant: 'danger' }))) return;
+    const period = draft?.period ?? periods[0] ?? null;
+    const samePeriod = charts.filter(c => c.period === period).length;
+    try {
+      const res = await fetch(`/api/classes/${classId}/seating-charts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: samePeriod ? `Seating Chart ${samePeriod + 1}` : 'Seating Chart',
+          period,
+          // Start from the current layout (empty seats) so a new arrangement doesn't mean redrawing the room
+          ...(draft ? { rows: draft.rows, cols: draft.cols, desks: draft.desks.map(d => ({ ...d, student_id: null })) } : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast(data.error || 'Failed to create chart', true);
+        return;
+      }
+      setCharts(list => [...list, data]);
+      setDraft(data);
+      setDirty(false);
+    } catch {
+      showToast('Failed to create chart', true);
+    }
+  }
+
+  async function saveChart() {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/classes/${classId}/seating-charts/${draft.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          period: draft.period,
+          rows: draft.rows,
+          cols: draft.cols,
+          desks: draft.desks,
+          is_active: draft.is_active,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        showToast(data.error || 'Failed to save chart', true);
+      } else {
+        // Activating one chart switches off the others for that period
+        setCharts(list => list.map(c => {
+          if (c.id === data.id) return data;
+          return data.is_active && c.period === data.period ? { ...c, is_active: false } : c;
+        }));
+        setDraft(data);
+        setDirty(false);
+        showToast('Seating chart saved');
+      }
+    } catch {
+      showToast('Failed to save chart', true);
+    }
+    setSaving(false);
+  }
+
+  async function deleteChart() {
+    if (!draft) return;
+    const ok = await confirm({
+      title: 'Delete Seating Chart',
+      message: `Delete "${draft.name}"? This can't be undone.`,
+      confirmLabel: 'Delete',
+      variant: 'danger',
+    });
+    if (!ok) return;
+    try {
+      const res = await fetch(`/api/classes/${classId}/seating-charts/${draft.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        showToast(data.error || 'Failed to delete chart', true);
+        return;
+      }
+      // The server promotes another chart for the period if this one was active; reload to pick that up
+      const data = await fetch(`/api/classes/${classId}/seating-charts`).then(r => r.json());
+      const list: SeatingChart[] = Array.isArray(data) ? data : [];
+      setCharts(list);
+      setDraft(list.find(c => c.period === draft.period) || list[0] || null);
+      setDirty(false);
+    } catch {
+      showToast('Failed to delete chart', true);
+    }
+  }
+
+  function printChart() {
+    if (!draft) return;
+    if (dirty) {
+      showToast('Save the chart first to print the latest version', true);
+      return;
+    }
+    window.open(`/api/classes/${classId}/seating-charts/${draft.id}/print`, '_blank');
+  }
+
+  function resize(rows: number, cols: number) {
+    if (!draft) return;
+    const r = Math.min(MAX_GRID, Math.max(1, rows || 1));
+    const c = Math.min(MAX_GRID, Math.max(1, cols || 1));
+    update({ rows: r, cols: c, desks: resizeDesks(draft.desks, r, c, draft.rows, draft.cols) });
+  }
+
+  /** Seat a student at a desk; whoever sat there moves to the student's old desk (or stands up). */
+  function seat(studentId: number, row: number, col: number) {
+    if (!draft) return;
+    const target = draft.desks.find(d => d.row === row && d.col === col);
+    if (!target || target.kind !== 'desk') return;
+    const from = draft.desks.find(d => d.student_id === studentId);
+    setDesks(draft.desks.map(d => {
+      if (d === target) return { ...d, student_id: studentId };
+      if (d === from) return { ...d, student_id: target.student_id };
+      return d;
+    }));
+  }
+
+  function unseat(studentId: number) {
+    if (!draft) return;
+    setDesks(draft.desks.map(d => (d.student_id === studentId ? { ...d, student_id: null } : d)));
+  }
+
+  function clickCell(row: number, col: number) {
+    if (!draft) return;
+    const desk = draft.desks.find(d => d.row === row && d.col === col);
+
+    if (tool === 'seat') {
+      if (picked !== null && desk?.kind === 'desk') {
+        seat(picked, row, col);
+        setPicked(null);
+      } else if (desk?.student_id) {
+        setPicked(desk.student_id === picked ? null : desk.student_id);
+      }
+      return;
+    }
+
+    const others = draft.desks.filter(d => d !== desk);
+    if (tool === 'erase') setDesks(others);
+    else setDesks([...others, { row, col, kind: tool, student_id: tool === 'desk' ? desk?.student_id ?? null : null }]);
+  }
+
+  function dropOnCell(e: React.DragEvent, row: number, col: number) {
+    e.preventDefault();
+    const studentId = Number(e.dataTransfer.getData('text/plain'));
+    if (studentId) seat(studentId, row, col);
+  }
+
+  function fillAlphabetically() {
+    if (!draft) return;
+    setDesks(fillEmptyDesks(draft.desks, unseated));
+  }
+
+  function shuffleSeats() {
+    if (!draft) return;
+    const shuffled = [...students];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    setDesks(fillEmptyDesks(draft.desks.map(d => ({ ...d, student_id: null })), shuffled));
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!draft) {
+    return (
+      <EmptyState
+        title="No seating charts yet"
+        description="Lay out the room, then drag students from the roster into their seats. The active chart for each period goes into your sub plans."
+        action={{ label: 'New Seating Chart', onClick: createChart }}
+      />
+    );
+  }
+
+  const byCell = new Map(draft.desks.map(d => [cellKey(d.row, d.col), d]));
+
+  return (
+    <div className="space-y-4">
+      {/* Chart picker */}
+      <div className="flex flex-wrap items-center gap-2">
+        {charts.map(chart => (
+          <button
+            key={chart.id}
+            onClick={() => chart.id !== draft.id && selectChart(chart)}
+            className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+              chart.id === draft.id
+                ? 'bg-accent/15 text-accent border-accent/30 font-semibold'
+                : 'text-text-secondary border-border hover:text-text-primary hover:bg-hover'
+            }`}>
+            {chart.is_active && <span className="inline-block w-1.5 h-1.5 rounded-full bg-accent-green mr-1.5 align-middle" title="Used in sub plans" />}
+            {chartLabel(chart.id === draft.id ? draft : chart)}
+          </button>
+        ))}
+        <button
+          onClick={createChart}
+          className="px-3 py-1.5 text-sm text-text-muted border border-dashed border-border rounded-lg hover:text-accent hover:border-accent transition-colors">
+          + New Chart
+        </button>
+      </div>
+
+      {/* Chart settings */}
+      <div className="rounded-xl bg-bg-card border border-border p-4 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Name</label>
+          <input value={draft.name} onChange={e => update({ name: e.target.value })} className={inputCls} />
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Period</label>
+          <select value={draft.period || ''} onChange={e => update({ period: e.target.value || null })} className={inputCls}>
+            <option value="">All periods</option>
+            {[...new Set([...periods, ...(draft.period ? [draft.period] : [])])].map(p => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Rows</label>
+          <input type="number" min={1} max={MAX_GRID} value={draft.rows}
+            onChange={e => resize(Number(e.target.value), draft.cols)} className={`${inputCls} w-20`} />
+        </div>
+        <div>
+          <label className="block text-xs text-text-muted mb-1">Columns</label>
+          <input type="number" min={1} max={MAX_GRID} value={draft.cols}
+            onChange={e => resize(draft.rows, Number(e.target.value))} className={`${inputCls} w-20`} />
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer pb-1.5">
+          <input type="checkbox" checked={draft.is_active} onChange={e => update({ is_active: e.target.checked })}
+            className="w-4 h-4 rounded border-border accent-accent" />
+          <span className="text-sm text-text-secondary">Use in sub plans</span>
+        </label>
+        <div className="flex items-center gap-2 ml-auto">
+          {dirty && <span className="text-xs text-text-muted">(unsaved)</span>}
+          <button onClick={deleteChart}
+            className="px-3 py-1.5 text-sm text-text-muted hover:text-accent-red transition-colors">
+            Delete
+          </button>
+          <button onClick={printChart}
+            className="px-3 py-1.5 text-sm font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors">
+            Print / PDF
+          </button>
+          <button onClick={saveChart} disabled={!dirty || saving}
+            className="px-4 py-1.5 text-sm font-semibold bg-accent text-bg-primary rounded-lg hover:brightness-110 disabled:opacity-50 transition-all">
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {/* Tools */}
+      <div className="flex flex-wrap items-center gap-2">
+        {TOOLS.map(t => (
+          <button key={t.value} onClick={() => { setTool(t.value); setPicked(null); }}
+            className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-colors ${
+              tool === t.value ? 'bg-accent/15 text-accent border border-accent/30' : 'text-text-muted border border-border hover:text-text-primary hover:bg-hover'
+            }`}>
+            {t.label}
+          </button>
+        ))}
+        <span className="text-xs text-text-muted ml-2">
+          {tool === 'seat'
+            ? 'Drag students onto desks, or tap a student and then a desk'
+            : tool === 'erase' ? 'Click a cell to clear it' : 'Click cells to place'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_16rem] gap-4">
+        {/* Room */}
+        <div className="rounded-xl bg-bg-card border border-border p-4 overflow-x-auto">
+          <div className="text-center text-xs font-semibold uppercase tracking-widest text-text-muted border border-border rounded-lg py-1.5 mb-3">
+            Front of Room
+          </div>
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${draft.cols}, minmax(5.5rem, 1fr))` }}>
+            {Array.from({ length: draft.rows * draft.cols }, (_, i) => {
+              const row = Math.floor(i / draft.cols);
+              const col = i % draft.cols;
+              const desk = byCell.get(cellKey(row, col));
+              const name = desk?.student_id ? names.get(desk.student_id) || 'Unknown student' : null;
+              return (
+                <div
+                  key={cellKey(row, col)}
+                  onClick={() => clickCell(row, col)}
+                  onDragOver={e => { if (desk?.kind === 'desk') e.preventDefault(); }}
+                  onDrop={e => dropOnCell(e, row, col)}
+                  draggable={tool === 'seat' && !!desk?.student_id}
+                  onDragStart={e => desk?.student_id && e.dataTransfer.setData('text/plain', String(desk.student_id))}
+                  className={`h-16 rounded-lg flex items-center justify-center text-center px-1 text-xs transition-colors ${
+                    !desk
+                      ? 'border border-dashed border-border/60 text-text-muted'
+                      : desk.kind !== 'desk'
+                        ? 'bg-bg-secondary text-text-muted uppercase tracking-wider text-[0.65rem]'
+                        : desk.student_id && desk.student_id === picked
+                          ? 'bg-accent/25 border-2 border-accent text-text-primary font-semibold'
+                          : name
+                            ? 'bg-bg-input border border-border text-text-primary font-medium cursor-grab'
+                            : 'bg-bg-input/50 border border-border text-text-muted'
+                  } ${tool !== 'seat' || desk?.kind === 'desk' ? 'cursor-pointer hover:border-accent' : ''}`}>
+                  {desk?.kind === 'teacher' ? 'Teacher' : desk?.kind === 'door' ? 'Door' : desk ? name || 'Empty' : ''}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Unseated students */}
+        <div
+          className="rounded-xl bg-bg-card border border-border p-4 space-y-3"
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => {
+            e.preventDefault();
+            const studentId = Number(e.dataTransfer.getData('text/plain'));
+            if (studentId) unseat(studentId);
+          }}>
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Not Seated ({unseated.length})</h3>
+            <p className="text-xs text-text-muted mt-0.5">
+              {students.length} student{students.length === 1 ? '' : 's'} · {deskCount} desk{deskCount === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            <button onClick={fillAlphabetically} disabled={unseated.length === 0}
+              className="px-2 py-1 text-xs text-text-secondary border border-border rounded-lg hover:text-accent hover:border-accent disabled:opacity-50 transition-colors">
+              Fill A–Z
+            </button>
+            <button onClick={shuffleSeats} disabled={students.length === 0}
+              className="px-2 py-1 text-xs text-text-secondary border border-border rounded-lg hover:text-accent hover:border-accent disabled:opacity-50 transition-colors">
+              Shuffle
+            </button>
+            <button onClick={() => setDesks(draft.desks.map(d => ({ ...d, student_id: null })))} disabled={seated.size === 0}
+              className="px-2 py-1 text-xs text-text-secondary border border-border rounded-lg hover:text-accent-red hover:border-accent-red disabled:opacity-50 transition-colors">
+              Clear Seats
+            </button>
+          </div>
+          {students.length === 0 ? (
+            <p className="text-xs text-text-muted">No students on the roster{draft.period ? ` for ${draft.period}` : ''} yet — add them on the Roster tab.</p>
+          ) : unseated.length === 0 ? (
+            <p className="text-xs text-text-muted">Everyone has a seat. Drag a student here to unseat them.</p>
+          ) : (
+            <div className="space-y-1 max-h-[28rem] overflow-y-auto">
+              {unseated.map(s => (
+                <div
+                  key={s.id}
+                  draggable
+                  onDragStart={e => e.dataTransfer.setData('text/plain', String(s.id))}
+                  onClick={() => { setTool('seat'); setPicked(picked === s.id ? null : s.id); }}
+                  className={`px-2.5 py-1.5 rounded-lg text-sm cursor-grab transition-colors ${
+                    picked === s.id ? 'bg-accent/20 text-accent font-semibold' : 'bg-bg-secondary text-text-secondary hover:bg-hover'
+                  }`}>
+                  {studentDisplayName(s)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
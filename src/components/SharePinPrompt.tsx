@@ -0,0 +1,44 @@
+'use client';
+
+import { useState } from 'react';
+import { storeSharePin } from '@/lib/share-pin';
+
+/** PIN entry for a protected public link. Stores the PIN and calls onUnlock to retry the load. */
+export default function SharePinPrompt({ token, title, message, onUnlock }: {
+  token: string;
+  title: string;
+  message: string;
+  onUnlock: () => void;
+}) {
+  const [pin, setPin] = useState('');
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!pin.trim()) return;
+    storeSharePin(token, pin.trim());
+    onUnlock();
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form onSubmit={submit} className="w-full max-w-xs text-center">
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">{title}</h1>
+        <p className="text-gray-500 mb-4">{message}</p>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          value={pin}
+          onChange={e => setPin(e.target.value)}
+          placeholder="PIN"
+          className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-center text-lg tracking-widest text-gray-900 placeholder-gray-400 focus:border-teal-500 focus:outline-none"
+        />
+        <button type="submit" disabled={!pin.trim()}
+          className="mt-3 w-full px-4 py-2 bg-teal-500 text-white rounded-lg text-sm font-semibold hover:bg-teal-600 disabled:opacity-50">
+          Open
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import type { SubAttendanceReport } from '@/lib/attendance';
+import { formatShortDate } from '@/lib/task-helpers';
+import { useToast } from '@/components/Toast';
+
+/** Attendance a sub took while the teacher was out. Only renders when there's something unreviewed. */
+export default function SubAttendanceReports() {
+  const [reports, setReports] = useState<SubAttendanceReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const loadReports = useCallback(() => {
+    return fetch('/api/attendance/sub-reports')
+      .then(r => r.json())
+      .then(data => setReports(Array.isArray(data) ? data : []))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => { loadReports(); }, [loadReports]);
+
+  async function markReviewed(date?: string) {
+    try {
+      const res = await fetch('/api/attendance/sub-reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(date ? { date } : {}),
+      });
+      if (!res.ok) throw new Error();
+      setReports(prev => date ? prev.filter(r => r.date !== date) : []);
+    } catch {
+      showToast('Failed to mark reviewed', true);
+    }
+  }
+
+  if (loading || reports.length === 0) return null;
+
+  const dates = [...new Set(reports.map(r => r.date))];
+  const first = dates[dates.length - 1];
+  const last = dates[0];
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">
+          Attendance From Your Sub
+          <span className="ml-2 text-sm font-normal text-text-muted">
+            ({dates.length} day{dates.length === 1 ? '' : 's'})
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <a href={`/api/attendance/export?start=${first}&end=${last}`}
+            className="px-3 py-1.5 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors">
+            Export CSV
+          </a>
+          <button onClick={() => markReviewed()}
+            className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors">
+            Mark All Reviewed
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {dates.map(date => (
+          <div key={date}>
+            <div className="flex items-center justify-between mb-2">
+              <Link href={`/day/${date}`} className="text-xs font-semibold uppercase tracking-wider text-text-secondary hover:text-accent">
+                {formatShortDate(date)}
+              </Link>
+              <button onClick={() => markReviewed(date)} className="text-xs text-text-muted hover:text-accent">
+                Reviewed
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {reports.filter(r => r.date === date).map(r => (
+                <div key={r.class_id} className="rounded-lg bg-bg-secondary border border-border/50 p-3">
+                  <div className="flex items-center justify-between mb-1.5">
+                    <h3 className="text-sm font-semibold text-text-primary">{r.class_name}</h3>
+                    <span className="text-[0.65rem] text-text-muted">
+                      {r.counts.present} present &middot; {r.counts.absent} absent &middot; {r.counts.tardy} tardy
+                    </span>
+                  </div>
+                  {r.absent.length > 0 && (
+                    <p className="text-xs text-text-secondary">
+                      <span className="font-semibold text-accent-red">Absent:</span> {r.absent.join(', ')}
+                    </p>
+                  )}
+                  {r.tardy.length > 0 && (
+                    <p className="text-xs text-text-secondary mt-0.5">
+                      <span className="font-semibold text-accent-yellow">Tardy:</span>{' '}
+                      {r.tardy.map(t => t.note ? `${t.name} (${t.note})` : t.name).join(', ')}
+                    </p>
+                  )}
+                  {r.notes.map(n => (
+                    <p key={n.name} className="text-xs text-text-muted mt-0.5">{n.name}: {n.note}</p>
+                  ))}
+                  {r.absent.length === 0 && r.tardy.length === 0 && (
+                    <p className="text-xs text-text-muted italic">Everyone present</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import SubReportView from '@/components/SubReportView';
+import { instructionSummary, type UnreviewedSubReport } from '@/lib/sub-report';
+import { formatShortDate } from '@/lib/task-helpers';
+import { useToast } from '@/components/Toast';
+
+/** End-of-day reports from subs. Only renders when one is waiting to be reviewed. */
+export default function SubFeedbackReports() {
+  const [reports, setReports] = useState<UnreviewedSubReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const loadReports = useCallback(() => {
+    return fetch('/api/sub/reports')
+      .then(r => r.json())
+      .then(data => setReports(Array.isArray(data) ? data : []))
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => { loadReports(); }, [loadReports]);
+
+  async function markReviewed(planId: number) {
+    try {
+      const res = await fetch(`/api/sub/plans/${planId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ report_reviewed: true }),
+      });
+      if (!res.ok) throw new Error();
+      setReports(prev => prev.filter(r => r.plan_id !== planId));
+    } catch {
+      showToast('Failed to mark reviewed', true);
+    }
+  }
+
+  if (loading || reports.length === 0) return null;
+
+  return (
+    <div className="rounded-xl bg-bg-card border border-border p-5 space-y-5">
+      {reports.map(r => (
+        <div key={r.plan_id}>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div>
+              <h2 className="text-lg font-semibold text-text-primary">
+                Sub Report
+                <span className="ml-2 text-sm font-normal text-text-muted">
+                  <Link href={`/day/${r.date}`} className="hover:text-accent">{formatShortDate(r.date)}</Link>
+                  {' '}&middot; {r.report.submitted_by || r.sub_name || 'Substitute'}
+                </span>
+              </h2>
+              <p className="text-xs text-text-muted mt-0.5">{instructionSummary(r.report)}</p>
+            </div>
+            <button onClick={() => markReviewed(r.plan_id)}
+              className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors">
+              Mark Reviewed
+            </button>
+          </div>
+          <SubReportView report={r.report} />
+        </div>
+      ))}
+    </div>
+  );
+}
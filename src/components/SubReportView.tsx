@@ -0,0 +1,80 @@
+'use client';
+
+import type { SubDashReport, SubReportInstructionStatus } from '@/lib/types';
+import { INSTRUCTION_STATUS_LABELS } from '@/lib/sub-report';
+
+const STATUS_STYLES: Record<SubReportInstructionStatus, string> = {
+  done: 'bg-accent-green/15 text-accent-green',
+  partial: 'bg-accent-yellow/15 text-accent-yellow',
+  not_done: 'bg-accent-red/15 text-accent-red',
+};
+
+/** Read-only view of a sub's end-of-day report. */
+export default function SubReportView({ report }: { report: SubDashReport }) {
+  return (
+    <div className="space-y-4 text-sm">
+      {report.periods.length > 0 && (
+        <div className="space-y-2">
+          {report.periods.map((p, i) => (
+            <div key={i} className="rounded-lg bg-bg-secondary border border-border/50 p-3">
+              <h4 className="text-sm font-semibold text-text-primary mb-1">
+                {p.period}{p.class_name ? `: ${p.class_name}` : ''}
+              </h4>
+              {p.instructions.length > 0 && (
+                <ul className="space-y-1">
+                  {p.instructions.map((inst, j) => (
+                    <li key={j} className="flex items-center gap-2 text-xs text-text-secondary">
+                      <span className={`shrink-0 px-1.5 py-0.5 rounded text-[0.65rem] font-semibold ${
+                        inst.status ? STATUS_STYLES[inst.status] : 'bg-bg-input text-text-muted'
+                      }`}>
+                        {inst.status ? INSTRUCTION_STATUS_LABELS[inst.status] : 'No answer'}
+                      </span>
+                      {inst.title}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {p.notes && <p className="text-xs text-text-secondary mt-1.5 whitespace-pre-wrap">{p.notes}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.incidents.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-accent-red mb-1">Behavior Incidents</p>
+          <ul className="space-y-1">
+            {report.incidents.map((incident, i) => (
+              <li key={i} className="text-xs text-text-secondary">
+                {incident.period && <span className="text-text-muted">{incident.period} &middot; </span>}
+                {incident.students && <span className="font-semibold text-text-primary">{incident.students}: </span>}
+                {incident.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.helpful_students && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-accent-green mb-1">Helpful Students</p>
+          <p className="text-xs text-text-secondary whitespace-pre-wrap">{report.helpful_students}</p>
+        </div>
+      )}
+
+      {report.materials_left && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-1">Materials Left Behind</p>
+          <p className="text-xs text-text-secondary whitespace-pre-wrap">{report.materials_left}</p>
+        </div>
+      )}
+
+      {report.general_notes && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wider text-text-muted mb-1">Other Notes</p>
+          <p className="text-xs text-text-secondary whitespace-pre-wrap">{report.general_notes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -214,7 +214,7 @@ function ToastItem({
 
       {/* Message */}
       <div className="flex-1 min-w-0">
-        <span className="text-sm font-medium text-text-primary leading-snug block">
+        <span className="text-sm font-medium text-text-primary leading-snug block whitespace-pre-line">
           {toast.message}
         </span>
         {/* Progress bar */}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import type { ClassInfo, Standard, Unit } from '@/lib/types';
+
+export type UnitDraft = Pick<Unit, 'title' | 'start_date' | 'end_date' | 'class_ids' | 'standard_ids' | 'anchor_texts' | 'essential_question' | 'goals'>;
+
+interface UnitEditorProps {
+  unit: Unit | null;
+  /** Prefilled dates for a new unit */
+  defaults?: Partial<UnitDraft>;
+  classes: ClassInfo[];
+  standards: Standard[];
+  saving: boolean;
+  onSave: (draft: UnitDraft) => void;
+  onClose: () => void;
+}
+
+/** Modal form for creating or editing a curriculum unit. */
+export default function UnitEditor({ unit, defaults, classes, standards, saving, onSave, onClose }: UnitEditorProps) {
+  const [title, setTitle] = useState(unit?.title ?? defaults?.title ?? '');
+  const [startDate, setStartDate] = useState(unit?.start_date ?? defaults?.start_date ?? '');
+  const [endDate, setEndDate] = useState(unit?.end_date ?? defaults?.end_date ?? '');
+  const [classIds, setClassIds] = useState<number[]>(unit?.class_ids ?? defaults?.class_ids ?? []);
+  const [standardIds, setStandardIds] = useState<number[]>(unit?.standard_ids ?? []);
+  const [anchorTexts, setAnchorTexts] = useState((unit?.anchor_texts ?? []).join('\n'));
+  const [essentialQuestion, setEssentialQuestion] = useState(unit?.essential_question ?? '');
+  const [goals, setGoals] = useState(unit?.goals ?? '');
+  const [standardSearch, setStandardSearch] = useState('');
+
+  const canSave = title.trim() && startDate && endDate && endDate >= startDate && !saving;
+
+  function toggleClass(id: number) {
+    setClassIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  }
+
+  function toggleStandard(id: number) {
+    setStandardIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  }
+
+  function handleSave() {
+    if (!canSave) return;
+    onSave({
+      title: title.trim(),
+      start_date: startDate,
+      end_date: endDate,
+      class_ids: classIds,
+      standard_ids: standardIds,
+      anchor_texts: anchorTexts.split('\n').map(t => t.trim()).filter(Boolean),
+      essential_question: essentialQuestion.trim() || null,
+      goals: goals.trim() || null,
+    });
+  }
+
+  const q = standardSearch.toLowerCase();
+  const selectedStandards = standards.filter(s => standardIds.includes(s.id));
+  const matchingStandards = q
+    ? standards.filter(s => !standardIds.includes(s.id) && (s.code.toLowerCase().includes(q) || s.description.toLowerCase().includes(q))).slice(0, 30)
+    : [];
+
+  const inputCls = 'w-full px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm focus:border-accent focus:outline-none';
+  const labelCls = 'block text-xs uppercase tracking-wider text-accent font-semibold mb-1';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div className="bg-bg-card border border-border rounded-xl w-full max-w-2xl mx-4 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-4 border-b border-border flex items-center justify-between shrink-0">
+          <h3 className="text-sm font-bold text-text-primary">{unit ? 'Edit Unit' : 'New Unit'}</h3>
+          <button onClick={onClose} className="p-1 text-text-muted hover:text-text-primary transition-colors">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          <div>
+            <label className={labelCls}>Title</label>
+            <input value={title} onChange={e => setTitle(e.target.value)} placeholder="e.g. The Hero's Journey" className={inputCls} autoFocus />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelCls}>Starts</label>
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>Ends</label>
+              <input type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} className={inputCls} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelCls}>Classes</label>
+            <div className="flex flex-wrap gap-2">
+              {classes.map(c => {
+                const on = classIds.includes(c.id);
+                return (
+                  <button
+                    key={c.id}
+                    onClick={() => toggleClass(c.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                      on ? 'border-accent bg-accent/15 text-accent' : 'border-border text-text-secondary hover:border-accent'
+                    }`}
+                  >
+                    {c.name}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-text-muted mt-1">
+              {classIds.length === 0 ? 'No classes selected — the unit applies to every class.' : `${classIds.length} selected`}
+            </p>
+          </div>
+
+          <div>
+            <label className={labelCls}>Essential Question</label>
+            <input value={essentialQuestion} onChange={e => setEssentialQuestion(e.target.value)} placeholder="What makes someone a hero?" className={inputCls} />
+          </div>
+
+          <div>
+            <label className={labelCls}>Goals</label>
+            <textarea value={goals} onChange={e => setGoals(e.target.value)} rows={3}
+              placeholder="What students should be able to do by the end of the unit"
+              className={`${inputCls} resize-y`} />
+          </div>
+
+          <div>
+            <label className={labelCls}>Anchor Texts</label>
+            <textarea value={anchorTexts} onChange={e => setAnchorTexts(e.target.value)} rows={3}
+              placeholder="One per line"
+              className={`${inputCls} resize-y`} />
+          </div>
+
+          <div>
+            <label className={labelCls}>Target Standards</label>
+            {selectedStandards.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {selectedStandards.map(s => (
+                  <button
+                    key={s.id}
+                    onClick={() => toggleStandard(s.id)}
+                    title={`${s.description} (click to remove)`}
+                    className="px-2 py-0.5 rounded bg-accent/15 text-accent text-xs font-mono hover:bg-accent-red/15 hover:text-accent-red transition-colors"
+                  >
+                    {s.code} &times;
+                  </button>
+                ))}
+              </div>
+            )}
+            <input value={standardSearch} onChange={e => setStandardSearch(e.target.value)}
+              placeholder={standards.length ? 'Search standards by code or description...' : 'No standards loaded — add them on the Standards page'}
+              disabled={standards.length === 0}
+              className={`${inputCls} disabled:opacity-50`} />
+            {matchingStandards.length > 0 && (
+              <div className="mt-1 max-h-48 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+                {matchingStandards.map(s => (
+                  <button
+                    key={s.id}
+                    onClick={() => toggleStandard(s.id)}
+                    className="w-full text-left px-3 py-2 hover:bg-hover transition-colors"
+                  >
+                    <span className="text-xs font-mono text-accent mr-2">{s.code}</span>
+                    <span className="text-xs text-text-secondary">{s.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-5 py-3 border-t border-border flex justify-end gap-2 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-text-secondary hover:text-text-primary">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-4 py-2 bg-accent text-bg-primary rounded-lg font-semibold text-sm hover:brightness-110 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : unit ? 'Save Changes' : 'Create Unit'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
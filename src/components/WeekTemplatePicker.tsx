@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useToast } from '@/components/Toast';
+import { describeWeekdays, type MaterializeResult } from '@/lib/recurrence';
+import type { ActivityRecurrence, WeekTemplate } from '@/lib/types';
+
+type RecurrenceRow = ActivityRecurrence & { classes: { name: string; color: string | null } | null };
+
+function summarize(result: MaterializeResult): string {
+  const holidays = result.skipped.filter(s => s.reason !== 'already planned');
+  let msg = `Added ${result.created} activit${result.created === 1 ? 'y' : 'ies'}`;
+  if (holidays.length > 0) {
+    const names = [...new Set(holidays.map(s => s.reason))].join(', ');
+    msg += ` (skipped ${holidays.length} on ${names})`;
+  }
+  return msg;
+}
+
+interface WeekTemplatePickerProps {
+  weekOf: string;
+  /** Called with the week's plan once a template has been applied */
+  onApplied: (plan: { id: number }) => void;
+}
+
+/** Shown before brainstorming: start the week from a saved template and see which recurring activities will fill in. */
+export default function WeekTemplatePicker({ weekOf, onApplied }: WeekTemplatePickerProps) {
+  const [templates, setTemplates] = useState<WeekTemplate[]>([]);
+  const [recurring, setRecurring] = useState<RecurrenceRow[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [applying, setApplying] = useState(false);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    fetch('/api/lesson-plans/templates')
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setTemplates(data); })
+      .catch(() => {});
+    fetch('/api/activities/recurring')
+      .then(r => r.json())
+      .then(data => { if (Array.isArray(data)) setRecurring(data); })
+      .catch(() => {});
+  }, []);
+
+  async function applyTemplate() {
+    if (!templateId || applying) return;
+    setApplying(true);
+    try {
+      const res = await fetch('/api/lesson-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ week_of: weekOf, template_id: parseInt(templateId) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to apply template');
+      showToast(summarize(data.materialized));
+      onApplied(data);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to apply template', true);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  async function deleteTemplate() {
+    if (!templateId) return;
+    const res = await fetch(`/api/lesson-plans/templates/${templateId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to delete template', true);
+      return;
+    }
+    setTemplates(prev => prev.filter(t => t.id !== parseInt(templateId)));
+    setTemplateId('');
+    showToast('Template deleted');
+  }
+
+  async function stopRecurring(rule: RecurrenceRow) {
+    const res = await fetch(`/api/activities/recurring/${rule.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      showToast('Failed to stop repeating', true);
+      return;
+    }
+    const data = await res.json();
+    setRecurring(prev => prev.filter(r => r.id !== rule.id));
+    showToast(data.removed_activities ? `Stopped — removed ${data.removed_activities} upcoming` : 'Stopped repeating');
+  }
+
+  if (templates.length === 0 && recurring.length === 0) return null;
+
+  return (
+    <div className="text-left rounded-lg border border-border bg-bg-secondary p-3 space-y-3">
+      {templates.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-text-secondary mb-1.5">Start from a template</p>
+          <div className="flex gap-1.5">
+            <select
+              value={templateId}
+              onChange={e => setTemplateId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-bg-input border border-border rounded-lg text-text-primary text-xs focus:border-accent focus:outline-none"
+            >
+              <option value="">Choose a template...</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name} ({t.items.length})</option>
+              ))}
+            </select>
+            <button
+              onClick={applyTemplate}
+              disabled={!templateId || applying}
+              className="px-3 py-1.5 bg-accent text-bg-primary rounded-lg font-semibold text-xs hover:brightness-110 disabled:opacity-50"
+            >
+              {applying ? 'Applying...' : 'Apply'}
+            </button>
+            {templateId && (
+              <button onClick={deleteTemplate} title="Delete template"
+                className="px-2 py-1.5 text-xs text-text-muted hover:text-accent-red transition-colors">
+                &times;
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {recurring.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-text-secondary mb-1.5">Repeats every week</p>
+          <ul className="space-y-1">
+            {recurring.map(rule => (
+              <li key={rule.id} className="group flex items-center gap-2 text-xs">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: rule.classes?.color || '#4ECDC4' }} />
+                <span className="text-text-primary truncate flex-1">
+                  {rule.title}
+                  <span className="text-text-muted"> &middot; {describeWeekdays(rule.weekdays)} &middot; {rule.classes?.name}</span>
+                </span>
+                <button onClick={() => stopRecurring(rule)}
+                  className="opacity-0 group-hover:opacity-100 text-text-muted hover:text-accent-red transition-opacity"
+                  title="Stop repeating">
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-[0.65rem] text-text-muted mt-1">Added automatically when a new week is started; holidays and breaks are skipped.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -69,7 +69,7 @@ export default function MaterialBottomBar({
       )}
       <div className="flex-1" />
       {error && (
-        <span className="text-accent-red text-sm">{error}</span>
+        <span className="text-accent-red text-sm whitespace-pre-line">{error}</span>
       )}
     </div>
   );
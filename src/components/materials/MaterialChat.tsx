@@ -2,9 +2,15 @@
 
 import { useState, useRef, useEffect } from 'react';
 import type { MaterialType } from './types';
+import { postEventStream } from '@/lib/sse';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+/** While streaming, show the fenced material JSON as a placeholder instead of raw JSON. */
+function streamingDisplay(raw: string): string {
+  return raw.replace(/```(?:json)?[\s\S]*?(```|$)/, (_, closed) => closed ? '✓ Material updated\n' : 'Updating material…').trim();
+}
+
 interface MaterialChatProps {
   activityId: number;
   materialType: MaterialType;
@@ -24,11 +30,13 @@ export default function MaterialChat({
 }: MaterialChatProps) {
   const [input, setInput] = useState('');
   const [refining, setRefining] = useState(false);
+  const [streamed, setStreamed] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     scrollRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory]);
+  }, [chatHistory, streamed]);
 
   async function handleSend() {
     const message = input.trim();
@@ -38,26 +46,28 @@ export default function MaterialChat({
     const newHistory = [...chatHistory, { role: 'user' as const, content: message }];
     onChatHistoryChange(newHistory);
     setRefining(true);
+    setStreamed('');
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const res = await fetch('/api/materials/refine', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await postEventStream<{ material?: Record<string, unknown>; response?: string }>(
+        '/api/materials/refine',
+        {
           activity_id: activityId,
           material_type: materialType,
           message,
           chat_history: newHistory,
           current_material: currentMaterial,
-        }),
-      });
-
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({ error: 'Refinement failed' }));
-        throw new Error(err.error || 'Refinement failed');
-      }
+        },
+        {
+          signal: controller.signal,
+          onDelta: text => setStreamed(prev => prev + text),
+          // The first attempt failed validation and is being redone
+          onEvent: event => { if (event === 'retry') setStreamed(''); },
+        },
+      );
 
-      const data = await res.json();
       if (data.material) {
         onMaterialUpdate(data.material);
       }
@@ -66,11 +76,19 @@ export default function MaterialChat({
         { role: 'assistant', content: data.response || 'Done! I\'ve updated the material.' },
       ]);
     } catch (err) {
-      onChatHistoryChange([
-        ...newHistory,
-        { role: 'assistant', content: `Sorry, something went wrong: ${err instanceof Error ? err.message : 'Unknown error'}` },
-      ]);
+      if (controller.signal.aborted) {
+        // Cancelled — the material is untouched, so drop the request and put it back in the box
+        onChatHistoryChange(chatHistory);
+        setInput(message);
+      } else {
+        onChatHistoryChange([
+          ...newHistory,
+          { role: 'assistant', content: `Sorry, something went wrong: ${err instanceof Error ? err.message : 'Unknown error'}` },
+        ]);
+      }
     } finally {
+      abortRef.current = null;
+      setStreamed('');
       setRefining(false);
     }
   }
@@ -108,7 +126,7 @@ export default function MaterialChat({
             key={i}
             className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
           >
-            <div className={`max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed ${
+            <div className={`max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed whitespace-pre-line ${
               msg.role === 'user'
                 ? 'bg-accent text-white rounded-br-sm'
                 : 'bg-bg-secondary text-text-primary rounded-bl-sm'
@@ -117,7 +135,14 @@ export default function MaterialChat({
             </div>
           </div>
         ))}
-        {refining && (
+        {refining && streamed && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-3 py-2 rounded-xl text-xs leading-relaxed whitespace-pre-line bg-bg-secondary text-text-primary rounded-bl-sm">
+              {streamingDisplay(streamed)}
+            </div>
+          </div>
+        )}
+        {refining && !streamed && (
           <div className="flex justify-start">
             <div className="bg-bg-secondary rounded-xl px-3 py-2 rounded-bl-sm">
               <div className="flex gap-1">
@@ -142,13 +167,22 @@ export default function MaterialChat({
             disabled={refining}
             className="flex-1 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-xs placeholder:text-text-muted focus:border-accent focus:outline-none disabled:opacity-50"
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || refining}
-            className="px-3 py-2 bg-accent text-white rounded-lg text-xs font-semibold hover:brightness-110 transition-all disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
-          >
-            Send
-          </button>
+          {refining ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-3 py-2 border border-border text-text-secondary rounded-lg text-xs font-semibold hover:border-accent-red hover:text-accent-red transition-colors shrink-0"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="px-3 py-2 bg-accent text-white rounded-lg text-xs font-semibold hover:brightness-110 transition-all disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+            >
+              Send
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { exportToDocx } from '@/lib/material-exporter';
+import { GRADABLE_MATERIAL_TYPES } from '@/lib/quiz-grader';
 import { printMaterialPreview } from './printMaterial';
 import type { MaterialType, MaterialGeneratorPanelProps, MaterialCategory } from './types';
 import { ASSESSMENTS, WORKSHEETS, GAMES, FRENCH } from './constants';
@@ -12,6 +13,7 @@ import MaterialPreview from './MaterialPreview';
 import MaterialEditor from './MaterialEditor';
 import MaterialChat from './MaterialChat';
 import DocumentPreview from './DocumentPreview';
+import QuizScoring from './QuizScoring';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -49,6 +51,7 @@ export default function MaterialGeneratorPanel({
   const [error, setError] = useState<string | null>(null);
   const [viewingExisting, setViewingExisting] = useState(false);
   const [editing, setEditing] = useState(false);
+  const [scoring, setScoring] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [loadingExisting, setLoadingExisting] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatMsg[]>([]);
@@ -225,6 +228,8 @@ export default function MaterialGeneratorPanel({
   }
 
   const isFullScreen = !!(generatedMaterial && selectedType);
+  const canScore = viewingExisting && !!selectedType
+    && (GRADABLE_MATERIAL_TYPES as readonly string[]).includes(selectedType);
 
   return (
     <div className="material-panel-root fixed inset-0 z-50 flex items-center justify-center">
@@ -250,9 +255,12 @@ export default function MaterialGeneratorPanel({
           viewingExisting={viewingExisting}
           isFullScreen={isFullScreen}
           exporting={exporting}
+          canScore={canScore}
+          scoring={scoring}
           onExport={handleExport}
           onPrint={printMaterialPreview}
           onEditToggle={() => setEditing(!editing)}
+          onScoringToggle={() => setScoring(!scoring)}
           onClose={onClose}
         />
 
@@ -267,7 +275,9 @@ export default function MaterialGeneratorPanel({
           )}
 
           {/* Show generated/existing content — FULL SCREEN */}
-          {!loadingExisting && generatedMaterial && selectedType ? (
+          {!loadingExisting && scoring && canScore ? (
+            <QuizScoring activityId={activity.id} />
+          ) : !loadingExisting && generatedMaterial && selectedType ? (
             <div className="h-full flex flex-col">
               {/* Content area: preview + optional chat sidebar */}
               <div className="flex-1 min-h-0 flex overflow-hidden">
@@ -316,6 +326,7 @@ export default function MaterialGeneratorPanel({
                 onRegenerate={() => generate(selectedType)}
                 onGenerateNew={() => {
                   setViewingExisting(false);
+                  setScoring(false);
                   setGeneratedMaterial(null);
                   setSelectedType(null);
                   setEditing(false);
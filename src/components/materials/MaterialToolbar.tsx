@@ -11,9 +11,13 @@ interface MaterialToolbarProps {
   viewingExisting: boolean;
   isFullScreen: boolean;
   exporting: boolean;
+  /** Saved quiz-style materials can have student answers entered and scored */
+  canScore: boolean;
+  scoring: boolean;
   onExport: (includeAnswers: boolean) => void;
   onPrint: () => void;
   onEditToggle: () => void;
+  onScoringToggle: () => void;
   onClose: () => void;
 }
 
@@ -26,9 +30,12 @@ export default function MaterialToolbar({
   viewingExisting,
   isFullScreen,
   exporting,
+  canScore,
+  scoring,
   onExport,
   onPrint,
   onEditToggle,
+  onScoringToggle,
   onClose,
 }: MaterialToolbarProps) {
   return (
@@ -36,7 +43,7 @@ export default function MaterialToolbar({
       <div className="flex items-center gap-4 min-w-0">
         <div className="min-w-0">
           <h2 className="text-lg font-semibold text-text-primary truncate">
-            {editing ? 'Edit Materials' : viewingExisting ? 'Materials' : 'Material Generator'}
+            {editing ? 'Edit Materials' : scoring ? 'Score Answers' : viewingExisting ? 'Materials' : 'Material Generator'}
           </h2>
           <div className="flex items-center gap-2 mt-0.5">
             <p className="text-sm text-accent truncate">{activityTitle}</p>
@@ -53,7 +60,15 @@ export default function MaterialToolbar({
         )}
       </div>
       <div className="flex items-center gap-2 shrink-0 ml-4">
-        {isFullScreen && !editing && (
+        {isFullScreen && scoring && (
+          <button
+            onClick={onScoringToggle}
+            className="px-3 py-1.5 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors"
+          >
+            Back to Material
+          </button>
+        )}
+        {isFullScreen && !editing && !scoring && (
           <>
             <button
               onClick={() => onExport(false)}
@@ -81,6 +96,14 @@ export default function MaterialToolbar({
             >
               Edit
             </button>
+            {canScore && (
+              <button
+                onClick={onScoringToggle}
+                className="px-3 py-1.5 text-xs font-semibold bg-accent-green/15 text-accent-green border border-accent-green/30 rounded-lg hover:bg-accent-green/25 transition-colors"
+              >
+                Enter Answers
+              </button>
+            )}
           </>
         )}
         {isFullScreen && editing && (
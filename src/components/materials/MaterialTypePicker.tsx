@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import type { MaterialType, MaterialCategory } from './types';
+import { postEventStream } from '@/lib/sse';
 
 type ChatMsg = { role: 'user' | 'assistant'; content: string };
 
@@ -63,6 +64,8 @@ export default function MaterialTypePicker({
   const [planHistory, setPlanHistory] = useState<ChatMsg[]>([]);
   const [planInput, setPlanInput] = useState('');
   const [planning, setPlanning] = useState(false);
+  const [streamed, setStreamed] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -79,7 +82,7 @@ export default function MaterialTypePicker({
   // Auto-scroll chat
   useEffect(() => {
     scrollRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [planHistory]);
+  }, [planHistory, streamed]);
 
   async function handlePlanSend() {
     const message = planInput.trim();
@@ -90,28 +93,37 @@ export default function MaterialTypePicker({
     setPlanHistory(newHistory);
     setPlanning(true);
 
+    setStreamed('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const res = await fetch('/api/materials/plan', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await postEventStream<{ response: string }>(
+        '/api/materials/plan',
+        {
           material_type: pickedType,
           message,
           chat_history: planHistory,
           activity_title: activityTitle,
           class_name: activityClassName,
-        }),
-      });
-
-      if (!res.ok) throw new Error('Failed to get response');
-      const data = await res.json();
+        },
+        { signal: controller.signal, onDelta: text => setStreamed(prev => prev + text) },
+      );
       setPlanHistory([...newHistory, { role: 'assistant', content: data.response }]);
     } catch {
-      setPlanHistory([
-        ...newHistory,
-        { role: 'assistant', content: "I had trouble responding. You can keep describing what you want, or click Generate whenever you're ready!" },
-      ]);
+      if (controller.signal.aborted) {
+        // Stopped mid-reply — drop the message and let the teacher edit it
+        setPlanHistory(planHistory);
+        setPlanInput(message);
+      } else {
+        setPlanHistory([
+          ...newHistory,
+          { role: 'assistant', content: "I had trouble responding. You can keep describing what you want, or click Generate whenever you're ready!" },
+        ]);
+      }
     } finally {
+      abortRef.current = null;
+      setStreamed('');
       setPlanning(false);
       setTimeout(() => inputRef.current?.focus(), 50);
     }
@@ -180,7 +192,14 @@ export default function MaterialTypePicker({
               </div>
             </div>
           ))}
-          {planning && (
+          {planning && streamed && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] px-3 py-2 rounded-xl text-sm leading-relaxed bg-bg-secondary text-text-primary rounded-bl-sm">
+                {streamed}
+              </div>
+            </div>
+          )}
+          {planning && !streamed && (
             <div className="flex justify-start">
               <div className="bg-bg-secondary rounded-xl px-3 py-2 rounded-bl-sm">
                 <div className="flex gap-1">
@@ -211,13 +230,22 @@ export default function MaterialTypePicker({
               disabled={planning}
               className="flex-1 px-3 py-2 bg-bg-input border border-border rounded-lg text-text-primary text-sm placeholder:text-text-muted focus:border-accent focus:outline-none disabled:opacity-50"
             />
-            <button
-              onClick={handlePlanSend}
-              disabled={!planInput.trim() || planning}
-              className="px-3 py-2 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
-            >
-              Send
-            </button>
+            {planning ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="px-3 py-2 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent-red hover:text-accent-red transition-colors shrink-0"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handlePlanSend}
+                disabled={!planInput.trim()}
+                className="px-3 py-2 text-xs font-semibold text-text-secondary border border-border rounded-lg hover:border-accent hover:text-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+              >
+                Send
+              </button>
+            )}
           </div>
           <button
             onClick={handleGenerate}
@@ -231,7 +259,7 @@ export default function MaterialTypePicker({
         {/* Error */}
         {error && (
           <div className="mx-3 mb-3 rounded-lg bg-accent-red/15 border border-accent-red/30 p-3">
-            <p className="text-accent-red text-sm">{error}</p>
+            <p className="text-accent-red text-sm whitespace-pre-line">{error}</p>
             <button onClick={onDismissError} className="text-xs text-accent-red/70 hover:text-accent-red mt-1 underline">
               Dismiss
             </button>
@@ -303,7 +331,7 @@ export default function MaterialTypePicker({
       {/* Error */}
       {error && (
         <div className="rounded-lg bg-accent-red/15 border border-accent-red/30 p-4">
-          <p className="text-accent-red text-sm">{error}</p>
+          <p className="text-accent-red text-sm whitespace-pre-line">{error}</p>
           <button onClick={onDismissError} className="text-xs text-accent-red/70 hover:text-accent-red mt-1 underline">
             Dismiss
           </button>
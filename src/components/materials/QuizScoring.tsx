@@ -0,0 +1,248 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { AnswerKeyItem, ItemAnalysis } from '@/lib/quiz-grader';
+import type { QuizResponse } from '@/lib/types';
+
+interface ScoringReport {
+  key: AnswerKeyItem[];
+  roster: Array<{ id: number; name: string; period: string | null }>;
+  responses: Array<QuizResponse & { student_name: string }>;
+  item_analysis: ItemAnalysis[];
+  summary: {
+    count: number;
+    possible: number;
+    average: number | null;
+    average_percent: number | null;
+  };
+}
+
+function answersToText(answers: Array<string | null> | undefined): string {
+  if (!answers) return '';
+  return answers.map(a => a || '-').join('').replace(/-+$/, '');
+}
+
+export default function QuizScoring({ activityId }: { activityId: number }) {
+  const [report, setReport] = useState<ScoringReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const applyReport = useCallback((data: ScoringReport) => {
+    setReport(data);
+    const next: Record<number, string> = {};
+    for (const r of data.responses) next[r.student_id] = answersToText(r.answers);
+    setDrafts(next);
+  }, []);
+
+  const loadReport = useCallback(() => {
+    return fetch(`/api/activities/${activityId}/responses`)
+      .then(r => r.json())
+      .then(data => { if (data.key) applyReport(data); })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+  }, [activityId, applyReport]);
+
+  useEffect(() => { loadReport(); }, [loadReport]);
+
+  async function submit(init: RequestInit) {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/activities/${activityId}/responses`, { method: 'POST', ...init });
+      const data = await res.json();
+      if (res.ok) {
+        applyReport(data);
+        const unmatched = data.unmatched?.length ? ` ${data.unmatched.length} row(s) didn't match the roster: ${data.unmatched.join(', ')}` : '';
+        setMessage({ text: `Scored ${data.scored} students and updated the gradebook.${unmatched}`, isError: false });
+      } else {
+        setMessage({ text: data.error || 'Scoring failed', isError: true });
+      }
+    } catch {
+      setMessage({ text: 'Scoring failed', isError: true });
+    }
+    setSaving(false);
+  }
+
+  function scoreTyped() {
+    const entries = Object.entries(drafts)
+      .filter(([, text]) => text.trim())
+      .map(([studentId, answers]) => ({ student_id: Number(studentId), answers }));
+    if (entries.length === 0) return;
+    submit({
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entries }),
+    });
+  }
+
+  async function clearResponse(studentId: number) {
+    const res = await fetch(`/api/activities/${activityId}/responses?student_id=${studentId}`, { method: 'DELETE' });
+    if (res.ok) {
+      setLoading(true);
+      loadReport();
+    }
+  }
+
+  function uploadCSV(file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
+    submit({ body: formData });
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="w-8 h-8 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!report || !report.key.some(k => k.correct)) {
+    return (
+      <p className="text-center text-sm text-text-muted py-16">
+        This material has no multiple-choice answer key, so it can&apos;t be auto-graded.
+      </p>
+    );
+  }
+
+  const responseByStudent = new Map(report.responses.map(r => [r.student_id, r]));
+  const gradableCount = report.key.filter(k => k.correct).length;
+
+  return (
+    <div className="h-full overflow-y-auto p-6 lg:px-16">
+      <div className="max-w-5xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Answer entry */}
+        <div className="rounded-xl bg-bg-secondary border border-border p-5 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-text-primary">Student Answers</h3>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) uploadCSV(f); }}
+            />
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={saving}
+              className="px-3 py-1.5 text-xs font-semibold text-accent border border-accent/30 rounded-lg hover:bg-accent/10 transition-colors disabled:opacity-50"
+            >
+              Upload Bubble CSV
+            </button>
+          </div>
+          <p className="text-xs text-text-muted">
+            Type each student&apos;s letters in order (e.g. <span className="font-mono">ABDCA</span>, or <span className="font-mono">1A 2B 3D</span>).
+            Use <span className="font-mono">-</span> for a skipped question. {report.key.length} questions, {gradableCount} auto-graded.
+          </p>
+
+          {report.roster.length === 0 ? (
+            <p className="text-sm text-text-muted py-4">Add students to this class&apos;s roster to enter answers.</p>
+          ) : (
+            <div className="space-y-1.5 max-h-[55vh] overflow-y-auto pr-1">
+              {report.roster.map(student => {
+                const response = responseByStudent.get(student.id);
+                return (
+                  <div key={student.id} className="flex items-center gap-2">
+                    <span className="w-40 truncate text-sm text-text-secondary" title={student.name}>{student.name}</span>
+                    <input
+                      type="text"
+                      value={drafts[student.id] ?? ''}
+                      onChange={e => setDrafts(d => ({ ...d, [student.id]: e.target.value }))}
+                      placeholder="ABCD..."
+                      className="flex-1 px-2 py-1 bg-bg-input border border-border rounded text-sm font-mono uppercase text-text-primary focus:outline-none focus:border-accent"
+                    />
+                    <span className="w-16 text-right text-xs text-text-muted">
+                      {response ? `${response.score}/${response.possible}` : ''}
+                    </span>
+                    <button
+                      onClick={() => clearResponse(student.id)}
+                      disabled={!response}
+                      className="text-text-muted hover:text-accent-red text-xs disabled:invisible"
+                      title="Clear response and grade"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            {message ? (
+              <p className={`text-xs ${message.isError ? 'text-accent-red' : 'text-accent-green'}`}>{message.text}</p>
+            ) : <span />}
+            <button
+              onClick={scoreTyped}
+              disabled={saving || report.roster.length === 0}
+              className="px-4 py-2 text-sm font-semibold bg-accent text-bg-primary rounded-lg hover:brightness-110 transition-all disabled:opacity-50 shrink-0"
+            >
+              {saving ? 'Scoring...' : 'Score & Save'}
+            </button>
+          </div>
+        </div>
+
+        {/* Item analysis */}
+        <div className="rounded-xl bg-bg-secondary border border-border p-5 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-base font-semibold text-text-primary">Item Analysis</h3>
+            {report.summary.count > 0 && (
+              <span className="text-xs text-text-muted">
+                {report.summary.count} scored &middot; avg {report.summary.average}/{report.summary.possible}
+                {report.summary.average_percent !== null && ` (${report.summary.average_percent}%)`}
+              </span>
+            )}
+          </div>
+
+          {report.summary.count === 0 ? (
+            <p className="text-sm text-text-muted py-4">Item analysis appears once answers are scored.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-text-muted uppercase tracking-wider">
+                  <th className="text-left py-1">#</th>
+                  <th className="text-left py-1">Key</th>
+                  <th className="text-left py-1">Correct</th>
+                  <th className="text-left py-1">Top distractor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.item_analysis.map(item => (
+                  <tr key={item.number} className="border-t border-border/50">
+                    <td className="py-1.5 text-text-muted">{item.number}</td>
+                    <td className="py-1.5 font-mono text-text-primary">{item.correct ?? '—'}</td>
+                    <td className="py-1.5">
+                      {item.percent_correct === null ? (
+                        <span className="text-xs text-text-muted">manual</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <div className="w-24 bg-bg-card rounded-full h-1.5">
+                            <div
+                              className={`h-1.5 rounded-full ${
+                                item.percent_correct >= 70 ? 'bg-accent-green' : item.percent_correct >= 50 ? 'bg-accent-yellow' : 'bg-accent-red'
+                              }`}
+                              style={{ width: `${item.percent_correct}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-text-secondary">{item.percent_correct}%</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-xs text-text-secondary">
+                      {item.top_distractor
+                        ? <><span className="font-mono">{item.top_distractor}</span> ({item.top_distractor_count})</>
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
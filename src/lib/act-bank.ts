@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActBankEntry, ActBankQuestion, Bellringer } from './types';
+import { normalizeActFields } from './ai-service';
+import { actSkillAreaLabel, classifyActSkill } from './act-mastery';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// ACT question bank
+//
+// Each teacher keeps their own bank of vetted ACT questions: the starter set
+// from src/data/act-questions-bank.json, questions written by hand, and AI
+// questions promoted from past bellringers. Bellringer generation can pull
+// today's question from the bank instead of asking the AI for a new one.
+// ============================================================
+
+export type ActBankFields = Omit<ActBankQuestion, 'id' | 'user_id' | 'times_used' | 'last_used_date' | 'created_at' | 'updated_at'>;
+
+const LETTERS = ['A', 'B', 'C', 'D'] as const;
+const CHOICE_KEYS = ['choice_a', 'choice_b', 'choice_c', 'choice_d'] as const;
+const TEXT_FIELDS = ['skill_category', 'skill', 'question', ...CHOICE_KEYS, 'explanation', 'rule'] as const;
+
+// A question used this recently is held back while others are available
+const REUSE_AFTER_DAYS = 30;
+
+/** Bellringer choices are stored as "A. text"; the bank keeps the bare text. */
+export function stripChoiceLetter(text: string | null | undefined): string {
+  return String(text || '').trim().replace(/^[A-D][.)]\s*/, '');
+}
+
+/**
+ * Validate a bank question from a request body. With `partial`, only the
+ * fields present are checked (PATCH).
+ */
+export function actBankFieldsFromBody(
+  body: Record<string, unknown>,
+  partial = false,
+): { fields: Partial<ActBankFields> | null; error: string | null } {
+  const fields: Partial<ActBankFields> = {};
+
+  for (const key of TEXT_FIELDS) {
+    if (body[key] === undefined) continue;
+    const value = String(body[key] ?? '').trim();
+    (fields as Record<string, string>)[key] = CHOICE_KEYS.includes(key as typeof CHOICE_KEYS[number]) ? stripChoiceLetter(value) : value;
+  }
+  if (body.correct_answer !== undefined) {
+    const answer = String(body.correct_answer || '').trim().toUpperCase();
+    if (!LETTERS.includes(answer as typeof LETTERS[number])) return { fields: null, error: 'correct_answer must be A, B, C or D' };
+    fields.correct_answer = answer;
+  }
+
+  const required = ['question', ...CHOICE_KEYS] as const;
+  for (const key of required) {
+    if (partial ? fields[key] === '' : !fields[key]) {
+      return { fields: null, error: key === 'question' ? 'Question is required' : 'All four choices are required' };
+    }
+  }
+  if (!partial && !fields.correct_answer) return { fields: null, error: 'correct_answer is required' };
+  if (fields.skill_category === '') fields.skill_category = 'English';
+
+  return { fields, error: null };
+}
+
+/** A starter-bank JSON entry as a row for the teacher's bank. */
+export function bankFieldsFromEntry(entry: ActBankEntry): ActBankFields {
+  return {
+    skill_category: entry.skill_category || 'English',
+    skill: entry.skill || '',
+    question: entry.question,
+    choice_a: stripChoiceLetter(entry.choice_a),
+    choice_b: stripChoiceLetter(entry.choice_b),
+    choice_c: stripChoiceLetter(entry.choice_c),
+    choice_d: stripChoiceLetter(entry.choice_d),
+    correct_answer: entry.correct_answer.trim().toUpperCase(),
+    explanation: entry.explanation || '',
+    rule: entry.rule || '',
+    source: 'seed',
+    source_bellringer_id: null,
+  };
+}
+
+/**
+ * A bellringer's ACT question as a bank row, or an error when it has no
+ * complete question to save. Bellringer questions all come from the English
+ * test, so that is the category; the skill keeps the AI's label.
+ */
+export function bankFieldsFromBellringer(bellringer: Bellringer): { fields: ActBankFields | null; error: string | null } {
+  const answer = String(bellringer.act_correct_answer || '').trim().toUpperCase();
+  const choices = [bellringer.act_choice_a, bellringer.act_choice_b, bellringer.act_choice_c, bellringer.act_choice_d].map(stripChoiceLetter);
+  if (!bellringer.act_question || choices.some(c => !c) || !LETTERS.includes(answer as typeof LETTERS[number])) {
+    return { fields: null, error: 'This bellringer has no complete ACT question' };
+  }
+  return {
+    fields: {
+      skill_category: 'English',
+      skill: bellringer.act_skill || bellringer.act_skill_category || '',
+      question: bellringer.act_question,
+      choice_a: choices[0],
+      choice_b: choices[1],
+      choice_c: choices[2],
+      choice_d: choices[3],
+      correct_answer: answer,
+      explanation: bellringer.act_explanation || '',
+      rule: bellringer.act_rule || '',
+      source: 'bellringer',
+      source_bellringer_id: bellringer.id,
+    },
+    error: null,
+  };
+}
+
+/** Normalize question text for duplicate checks. */
+export function questionKey(question: string): string {
+  return question.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Bellringer ACT fields for a bank question, in the shape the generator
+ * returns (choices lettered and shuffled). The skill category is the mastery
+ * skill area when one matches, so student answers still count toward mastery.
+ */
+export function bellringerFieldsFromBank(question: ActBankQuestion): Record<string, unknown> {
+  const area = classifyActSkill(question.skill);
+  const result: Record<string, unknown> = {
+    act_skill: question.skill || question.skill_category,
+    act_skill_category: area ? actSkillAreaLabel(area) : question.skill_category,
+    act_question: question.question,
+    act_choice_a: `A. ${question.choice_a}`,
+    act_choice_b: `B. ${question.choice_b}`,
+    act_choice_c: `C. ${question.choice_c}`,
+    act_choice_d: `D. ${question.choice_d}`,
+    act_correct_answer: question.correct_answer,
+    act_explanation: question.explanation,
+    act_rule: question.rule,
+    act_bank_id: question.id,
+  };
+  return normalizeActFields(result);
+}
+
+/**
+ * Choose the bank question for a bellringer: questions in the ACT focus area
+ * first, then anything whose skill wasn't in the last few bellringers, then
+ * the least used. Questions used within the last month wait their turn
+ * unless nothing else is left.
+ */
+export function chooseBankQuestion(
+  questions: ActBankQuestion[],
+  options: { focusArea?: string | null; recentSkills?: string[]; category?: string; asOf?: string } = {},
+  random = Math.random,
+): ActBankQuestion | null {
+  let pool = options.category ? questions.filter(q => q.skill_category === options.category) : questions;
+  if (pool.length === 0) return null;
+
+  const asOf = options.asOf || localDateStr();
+  const cutoff = new Date(asOf + 'T12:00:00');
+  cutoff.setDate(cutoff.getDate() - REUSE_AFTER_DAYS);
+  const cutoffStr = localDateStr(cutoff);
+  const rested = pool.filter(q => !q.last_used_date || q.last_used_date < cutoffStr);
+  if (rested.length > 0) pool = rested;
+
+  const recent = new Set((options.recentSkills || []).slice(0, 5).map(s => s.toLowerCase()));
+  const score = (q: ActBankQuestion) =>
+    (options.focusArea && classifyActSkill(q.skill) === options.focusArea ? 0 : 2) +
+    (recent.has(q.skill.toLowerCase()) ? 1 : 0);
+
+  const ranked = pool
+    .map(q => ({ q, score: score(q), tiebreak: random() }))
+    .sort((a, b) => a.score - b.score || a.q.times_used - b.q.times_used || a.tiebreak - b.tiebreak);
+  return ranked[0].q;
+}
+
+/** Record that a bank question went into the bellringer for `date`. */
+export async function markBankQuestionUsed(supabase: SupabaseClient, question: ActBankQuestion, date: string) {
+  const { error } = await supabase
+    .from('act_question_bank')
+    .update({ times_used: question.times_used + 1, last_used_date: date })
+    .eq('id', question.id);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Pick a question from the signed-in teacher's bank for `date` and mark it
+ * used. Null when the bank is empty (or has nothing in `category`).
+ */
+export async function pickBankQuestion(
+  supabase: SupabaseClient,
+  options: { date: string; focusArea?: string | null; recentSkills?: string[]; category?: string },
+): Promise<ActBankQuestion | null> {
+  const { data, error } = await supabase.from('act_question_bank').select('*');
+  if (error) throw new Error(error.message);
+
+  const question = chooseBankQuestion((data || []) as ActBankQuestion[], { ...options, asOf: options.date });
+  if (question) await markBankQuestionUsed(supabase, question, options.date);
+  return question;
+}
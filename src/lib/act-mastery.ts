@@ -0,0 +1,264 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { weekStart } from './ai-usage';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// ACT skill mastery
+//
+// Built from the ACT letters students send for each bellringer. Every
+// question is filed under one of the skill areas the bellringer prompts
+// draw from; mastery is the recency-weighted share answered correctly,
+// per class and per student. The generator uses it to steer the next
+// question toward whatever the class is weakest at.
+// ============================================================
+
+export interface ActSkillArea {
+  key: string;
+  label: string;
+  /** Matched against act_skill / act_skill_category text */
+  pattern: RegExp;
+}
+
+// The SKILL CATEGORIES from the bellringer prompts, in matching order:
+// "comma splice" is sentence structure rather than commas, and
+// "pronoun-antecedent agreement" is a pronoun error rather than subject-verb.
+export const ACT_SKILL_AREAS: ActSkillArea[] = [
+  { key: 'sentence_structure', label: 'Sentence Structure', pattern: /fragment|run-?on|comma splice|sentence structure|subordinat/i },
+  { key: 'commas', label: 'Commas', pattern: /comma/i },
+  { key: 'apostrophes', label: 'Apostrophes', pattern: /apostrophe|possessi|its\/it|who'?s|they'?re/i },
+  { key: 'semicolons_colons', label: 'Semicolons & Colons', pattern: /semicolon|colon/i },
+  { key: 'pronouns', label: 'Pronouns', pattern: /pronoun|who\/whom|antecedent|\bcase\b/i },
+  { key: 'subject_verb', label: 'Subject-Verb Agreement', pattern: /subject.?verb|agreement/i },
+  { key: 'verb_tense', label: 'Verb Tense', pattern: /tense|verb form|conditional|perfect/i },
+  { key: 'parallelism', label: 'Parallelism', pattern: /parallel/i },
+  { key: 'modifiers', label: 'Modifiers', pattern: /modifier|adjective|adverb/i },
+  { key: 'wordiness', label: 'Wordiness & Redundancy', pattern: /wordi|redundan|concise/i },
+  { key: 'word_choice', label: 'Word Choice', pattern: /word choice|usage|affect|than\/then|fewer|lie\/lay|accept|diction/i },
+];
+
+export interface MasteryCell {
+  attempts: number;
+  correct: number;
+  /** 0–1; null until there is at least one answer */
+  mastery: number | null;
+}
+
+export interface StudentMastery {
+  key: string;
+  student_id: number | null;
+  student_name: string;
+  class_id: number | null;
+  areas: Record<string, MasteryCell>;
+}
+
+export interface MasteryWeek {
+  week: string;
+  areas: Record<string, MasteryCell>;
+}
+
+export interface ActMasteryReport {
+  areas: { key: string; label: string }[];
+  overall: Record<string, MasteryCell>;
+  classes: { class_id: number | null; areas: Record<string, MasteryCell> }[];
+  students: StudentMastery[];
+  timeline: MasteryWeek[];
+}
+
+interface AnswerRow {
+  class_id: number | null;
+  student_id: number | null;
+  student_name: string;
+  act_choice: string;
+  created_at: string;
+  bellringer_id: number;
+  bellringers: {
+    date: string;
+    act_skill: string | null;
+    act_skill_category: string | null;
+    act_correct_answer: string | null;
+  } | null;
+}
+
+interface ScoredAnswer {
+  area: string;
+  correct: boolean;
+  date: string;
+  class_id: number | null;
+  student_key: string;
+  student_id: number | null;
+  student_name: string;
+}
+
+// Older answers count for less: a skill practiced in September says little about May
+const HALF_LIFE_DAYS = 30;
+// Prior of one right and one wrong keeps a single answer from reading as 0% or 100%
+const PRIOR_CORRECT = 1;
+const PRIOR_ATTEMPTS = 2;
+
+/** The skill area a question belongs to, from its category or skill name. */
+export function classifyActSkill(skill: string | null | undefined, category?: string | null): string | null {
+  for (const text of [category, skill]) {
+    if (!text) continue;
+    const byKey = ACT_SKILL_AREAS.find(a => a.key === text || a.label.toLowerCase() === text.toLowerCase());
+    if (byKey) return byKey.key;
+    const match = ACT_SKILL_AREAS.find(a => a.pattern.test(text));
+    if (match) return match.key;
+  }
+  return null;
+}
+
+export function actSkillAreaLabel(key: string | null): string {
+  return ACT_SKILL_AREAS.find(a => a.key === key)?.label || 'Other';
+}
+
+function emptyCells(): Record<string, MasteryCell> {
+  return Object.fromEntries(ACT_SKILL_AREAS.map(a => [a.key, { attempts: 0, correct: 0, mastery: null }]));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, (new Date(to + 'T12:00:00').getTime() - new Date(from + 'T12:00:00').getTime()) / 86_400_000);
+}
+
+/** Raw counts plus a recency-weighted, smoothed mastery per area. */
+function summarize(answers: ScoredAnswer[], asOf: string, weighted = true): Record<string, MasteryCell> {
+  const cells = emptyCells();
+  const weights: Record<string, { correct: number; attempts: number }> = {};
+  for (const a of answers) {
+    const cell = cells[a.area];
+    cell.attempts++;
+    if (a.correct) cell.correct++;
+    const w = weighted ? Math.pow(0.5, daysBetween(a.date, asOf) / HALF_LIFE_DAYS) : 1;
+    const acc = (weights[a.area] ||= { correct: 0, attempts: 0 });
+    acc.attempts += w;
+    if (a.correct) acc.correct += w;
+  }
+  for (const [key, acc] of Object.entries(weights)) {
+    cells[key].mastery = (acc.correct + PRIOR_CORRECT) / (acc.attempts + PRIOR_ATTEMPTS);
+  }
+  return cells;
+}
+
+/** One scored answer per student per question (their last), filed under a skill area. */
+function scoreAnswers(rows: AnswerRow[]): ScoredAnswer[] {
+  const latest = new Map<string, ScoredAnswer>();
+  for (const r of rows) {
+    const b = r.bellringers;
+    const answer = (b?.act_correct_answer || '').trim().toUpperCase();
+    const area = b ? classifyActSkill(b.act_skill, b.act_skill_category) : null;
+    if (!b || !answer || !area) continue;
+    const studentKey = r.student_id ? `s${r.student_id}` : `${r.class_id ?? ''}|${r.student_name.toLowerCase()}`;
+    latest.set(`${r.bellringer_id}|${studentKey}`, {
+      area,
+      correct: r.act_choice === answer,
+      date: b.date,
+      class_id: r.class_id,
+      student_key: studentKey,
+      student_id: r.student_id,
+      student_name: r.student_name,
+    });
+  }
+  return [...latest.values()];
+}
+
+async function loadScoredAnswers(supabase: SupabaseClient, classId?: number): Promise<ScoredAnswer[]> {
+  let query = supabase
+    .from('bellringer_responses')
+    .select('class_id, student_id, student_name, act_choice, created_at, bellringer_id, bellringers(date, act_skill, act_skill_category, act_correct_answer)')
+    .not('act_choice', 'is', null)
+    .order('created_at', { ascending: true });
+  if (classId) query = query.eq('class_id', classId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return scoreAnswers((data || []) as unknown as AnswerRow[]);
+}
+
+/** Mastery per area overall, per class, per student, and week by week. */
+export async function loadActMastery(
+  supabase: SupabaseClient,
+  options: { classId?: number; weeks?: number } = {},
+): Promise<ActMasteryReport> {
+  const answers = await loadScoredAnswers(supabase, options.classId);
+  const today = localDateStr();
+
+  const byClass = new Map<number | null, ScoredAnswer[]>();
+  const byStudent = new Map<string, ScoredAnswer[]>();
+  for (const a of answers) {
+    if (!byClass.has(a.class_id)) byClass.set(a.class_id, []);
+    byClass.get(a.class_id)!.push(a);
+    if (!byStudent.has(a.student_key)) byStudent.set(a.student_key, []);
+    byStudent.get(a.student_key)!.push(a);
+  }
+
+  // Week buckets, oldest first; each week is plain accuracy for that week alone
+  const weekCount = options.weeks ?? 12;
+  const current = weekStart(new Date(today + 'T12:00:00'));
+  const timeline: MasteryWeek[] = [];
+  for (let i = weekCount - 1; i >= 0; i--) {
+    const start = new Date(current);
+    start.setDate(start.getDate() - i * 7);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+    const from = localDateStr(start);
+    const to = localDateStr(end);
+    const inWeek = answers.filter(a => a.date >= from && a.date < to);
+    timeline.push({ week: from, areas: summarize(inWeek, today, false) });
+  }
+
+  return {
+    areas: ACT_SKILL_AREAS.map(a => ({ key: a.key, label: a.label })),
+    overall: summarize(answers, today),
+    classes: [...byClass.entries()].map(([classId, list]) => ({ class_id: classId, areas: summarize(list, today) })),
+    students: [...byStudent.entries()].map(([key, list]) => ({
+      key,
+      student_id: list[list.length - 1].student_id,
+      student_name: list[list.length - 1].student_name,
+      class_id: list[list.length - 1].class_id,
+      areas: summarize(list, today),
+    })).sort((a, b) => a.student_name.localeCompare(b.student_name)),
+    timeline,
+  };
+}
+
+/**
+ * Pick the skill area for the next ACT question: weighted toward low mastery,
+ * with untested areas treated as unknown (middling) and anything used in the
+ * last few bellringers held back. Null when no answers have been recorded yet,
+ * so generation falls back to plain variety.
+ */
+export function chooseActFocusArea(
+  overall: Record<string, MasteryCell>,
+  recentSkills: string[],
+  random = Math.random,
+): string | null {
+  const tested = Object.values(overall).some(c => c.attempts > 0);
+  if (!tested) return null;
+
+  const recent = new Set(recentSkills.slice(0, 3).map(s => classifyActSkill(s)).filter(Boolean));
+  const candidates = ACT_SKILL_AREAS.filter(a => !recent.has(a.key));
+  const pool = candidates.length > 0 ? candidates : ACT_SKILL_AREAS;
+
+  // Weight grows quickly as mastery drops: 90% -> 0.05, 50% -> 0.3, 20% -> 0.7
+  const weights = pool.map(a => {
+    const mastery = overall[a.key]?.mastery ?? 0.6;
+    return 0.05 + Math.pow(1 - mastery, 1.5);
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let pick = random() * total;
+  for (let i = 0; i < pool.length; i++) {
+    pick -= weights[i];
+    if (pick <= 0) return pool[i].key;
+  }
+  return pool[pool.length - 1].key;
+}
+
+/** Focus area for the signed-in teacher's next ACT question (across all classes). */
+export async function loadActFocusArea(supabase: SupabaseClient, recentSkills: string[]): Promise<string | null> {
+  try {
+    const answers = await loadScoredAnswers(supabase);
+    return chooseActFocusArea(summarize(answers, localDateStr()), recentSkills);
+  } catch {
+    // Mastery is a nudge; never block generation on it
+    return null;
+  }
+}
@@ -0,0 +1,200 @@
+import type { AICompletionRequest } from './ai-providers';
+
+// Canned responses for the offline "fixture" AI provider. Responses are
+// picked by matching the system prompt, so the same request always gets
+// the same answer. Good enough to click through the app without an API
+// key; register more specific fixtures in tests with registerAIFixture().
+
+type FixtureResponder = string | ((request: AICompletionRequest) => string | Record<string, unknown>);
+
+interface Fixture {
+  match: RegExp;
+  respond: FixtureResponder;
+}
+
+const customFixtures: Fixture[] = [];
+
+/** Add a fixture that takes priority over the built-in ones. */
+export function registerAIFixture(match: RegExp, respond: FixtureResponder) {
+  customFixtures.unshift({ match, respond });
+}
+
+export function clearAIFixtures() {
+  customFixtures.length = 0;
+}
+
+const ACT_FIXTURE = {
+  act_skill: 'Commas with Introductory Phrases',
+  act_question: 'After finishing the experiment <b>the students</b> recorded their observations.',
+  act_choices: 'A. the students\nB. , the students\nC. the students,\nD. : the students',
+  act_answer: 'B',
+  act_rule: 'Comma after introductory phrases.',
+};
+
+const SUBPROMPT = 'WRITE A PARAGRAPH IN YOUR JOURNAL!';
+
+function lastUserMessage(request: AICompletionRequest): string {
+  for (let i = request.messages.length - 1; i >= 0; i--) {
+    if (request.messages[i].role === 'user') return request.messages[i].content;
+  }
+  return '';
+}
+
+function materialFixture(request: AICompletionRequest): Record<string, unknown> {
+  const prompt = request.messages[0]?.content ?? '';
+  const type = prompt.match(/MATERIAL TYPE:\s*(\w+)/)?.[1] ?? 'worksheet';
+  const activity = prompt.match(/ACTIVITY:\s*(.+)/)?.[1]?.trim() || 'Practice';
+
+  switch (type) {
+    case 'quiz':
+    case 'grammar_test':
+      return {
+        title: `${activity} Quiz`,
+        instructions: 'Choose the best answer for each question.',
+        questions: [
+          { question: 'Which sentence uses a comma correctly?', choices: ['A) After lunch we left.', 'B) After lunch, we left.', 'C) After, lunch we left.', 'D) After lunch we, left.'], correct: 'B', explanation: 'Introductory phrases are followed by a comma.', points: 2 },
+          { question: 'A thesis statement belongs in the introduction.', choices: ['A) True', 'B) False'], correct: 'A', explanation: 'The thesis frames the whole essay.', points: 2 },
+          { question: 'Which word is a synonym for "brief"?', choices: ['A) lengthy', 'B) short', 'C) loud', 'D) bright'], correct: 'B', explanation: 'Brief means short in duration.', points: 2 },
+        ],
+      };
+    case 'discussion_questions':
+      return {
+        title: `${activity} Discussion`,
+        questions: [
+          { question: 'What stood out to you most?', follow_up: 'Why do you think that is?', type: 'recall' },
+          { question: 'Is the main character justified?', follow_up: 'What evidence supports your view?', type: 'evaluation' },
+        ],
+      };
+    case 'writing_prompt':
+      return {
+        title: `${activity} Writing Prompt`,
+        prompt: 'Write about a time you changed your mind about something important.',
+        requirements: ['Clear thesis', 'Two supporting examples', 'A conclusion that reflects'],
+        pre_writing: ['List three moments you changed your mind'],
+        word_count: '300-500 words',
+        rubric: [
+          { category: 'Content/Ideas', points: 25, criteria: 'Clear, developed ideas' },
+          { category: 'Organization', points: 25, criteria: 'Logical structure' },
+          { category: 'Style/Voice', points: 25, criteria: 'Engaging voice' },
+          { category: 'Conventions', points: 25, criteria: 'Few errors' },
+        ],
+      };
+    case 'jeopardy':
+      return {
+        title: `${activity} Jeopardy`,
+        setup: 'Split the class into teams and project the board.',
+        categories: ['Vocabulary', 'Grammar', 'Characters'].map(name => ({
+          name,
+          questions: [100, 200, 300].map(points => ({ points, question: `${name} clue for ${points}`, answer: `${name} answer for ${points}` })),
+        })),
+        final_jeopardy: { question: 'This punctuation mark joins two independent clauses.', answer: 'What is a semicolon?' },
+      };
+    case 'dice_game':
+    case 'card_match':
+    case 'relay_race':
+    case 'buzzer_quiz':
+    case 'guess_who':
+    case 'four_corners':
+    case 'vocab_bingo':
+      return {
+        title: `${activity} Game`,
+        setup: 'Form teams of four.',
+        rules: ['Take turns answering', 'Correct answers earn a point'],
+        items: [{ prompt: 'Define "brief"', answer: 'short' }, { prompt: 'Define "vivid"', answer: 'bright and clear' }],
+      };
+    case 'flashcard_set':
+      return {
+        title: `${activity} Flashcards`,
+        instructions: 'Study each card.',
+        cards: [{ front: 'bonjour', back: 'hello', pronunciation: 'bohn-ZHOOR', example_sentence: 'Bonjour, madame !' }],
+      };
+    case 'sentence_dressup':
+      return {
+        title: `${activity} Sentence Dressup`,
+        instructions: 'Improve each sentence with the technique shown.',
+        sentences: [{ base: 'The dog ran.', technique: 'strong verb', example: 'The dog bolted.' }],
+      };
+    case 'reading_guide':
+      return {
+        title: `${activity} Reading Guide`,
+        before_reading: ['What do you already know about this topic?'],
+        during_reading: [{ page_or_section: 'Chapter 1', question: 'How is the setting introduced?' }],
+        after_reading: ['What is the central theme?'],
+      };
+    default:
+      return {
+        title: `${activity} Worksheet`,
+        instructions: 'Complete each section.',
+        sections: [
+          { heading: 'Vocabulary', type: 'matching', items: [{ prompt: 'brief', answer: 'short' }, { prompt: 'vivid', answer: 'bright and clear' }] },
+          { heading: 'Fill in the Blank', type: 'fill_in', items: [{ prompt: 'A __________ introduces the main argument.', answer: 'thesis' }] },
+          { heading: 'Short Answer', type: 'short_answer', items: [{ prompt: 'Explain the main idea in your own words.', answer: 'Answers will vary.' }] },
+        ],
+      };
+  }
+}
+
+const BUILTIN_FIXTURES: Fixture[] = [
+  {
+    match: /You generate bellringer content/,
+    respond: () => ({
+      prompts: [
+        { journal_type: 'creative', journal_prompt: 'Two strangers are stuck in an elevator. What happens next?', journal_subprompt: SUBPROMPT },
+        { journal_type: 'quote', journal_prompt: '\'The only way out is through.\' - Robert Frost. What does this mean to you?', journal_subprompt: SUBPROMPT },
+        { journal_type: 'emoji', journal_prompt: 'Tell a story using these emojis: 🚀🌕👽🍕', journal_subprompt: SUBPROMPT },
+        { journal_type: 'reflective', journal_prompt: 'Who deserves a thank you letter from you?', journal_subprompt: SUBPROMPT },
+      ],
+      ...ACT_FIXTURE,
+    }),
+  },
+  {
+    match: /You generate ONE journal prompt/,
+    respond: () => ({ journal_type: 'creative', journal_prompt: 'You wake up with one new skill. What is it and how do you use it?', journal_subprompt: SUBPROMPT }),
+  },
+  {
+    match: /journal prompt .* based on an image/,
+    respond: () => ({ journal_prompt: 'Write a story about this image.', journal_subprompt: SUBPROMPT }),
+  },
+  { match: /ACT English test-style question/, respond: () => ACT_FIXTURE },
+  { match: /material generator/, respond: materialFixture },
+  { match: /lesson plan parser|Parse this lesson plan/i, respond: () => ({ days: [] }) },
+  { match: /standards tagger/, respond: () => ({ codes: [], reasoning: 'Offline demo provider does not tag standards' }) },
+  { match: /standards parser/, respond: () => ({ standards: [] }) },
+  { match: /task extraction assistant/, respond: () => ({ tasks: [] }) },
+  {
+    match: /school calendar parser/,
+    respond: () => JSON.stringify([
+      { date: `${new Date().getFullYear()}-11-27`, event_type: 'holiday', title: 'Thanksgiving' },
+      { date: `${new Date().getFullYear()}-12-22`, event_type: 'break', title: 'Winter Break' },
+    ]),
+  },
+  {
+    match: /emergency sub plan assistant/,
+    respond: request => ({
+      classes: [...(request.messages[0]?.content ?? '').matchAll(/CLASS_ID (\d+)/g)].map(m => ({
+        class_id: Number(m[1]),
+        title: 'Independent Reading and Response',
+        description: 'Students read silently for 25 minutes, then complete the response worksheet.',
+        activity_type: 'writing',
+        material_type: 'worksheet',
+      })),
+    }),
+  },
+  {
+    match: /Generate ONE alternative activity/,
+    respond: () => ({ title: 'Gallery Walk Review', description: 'Students rotate through posters and answer review questions in pairs.', activity_type: 'review' }),
+  },
+];
+
+/** Resolve the canned response for a request. Unknown JSON requests get an empty object. */
+export function fixtureResponse(request: AICompletionRequest): string {
+  for (const fixture of [...customFixtures, ...BUILTIN_FIXTURES]) {
+    if (!fixture.match.test(request.system)) continue;
+    const out = typeof fixture.respond === 'function' ? fixture.respond(request) : fixture.respond;
+    return typeof out === 'string' ? out : JSON.stringify(out);
+  }
+
+  if (request.json) return '{}';
+  const prompt = lastUserMessage(request).split('\n')[0].slice(0, 120);
+  return `(Offline demo response) You said: "${prompt}". Connect an AI provider in Settings for real suggestions.`;
+}
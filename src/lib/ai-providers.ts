@@ -0,0 +1,387 @@
+import { GoogleGenerativeAI, type Part, type UsageMetadata } from '@google/generative-ai';
+import Anthropic from '@anthropic-ai/sdk';
+import { fixtureResponse } from './ai-fixtures';
+
+// ============================================================
+// Provider interface
+// ============================================================
+
+export interface AIConfig {
+  provider: string;
+  geminiApiKey: string;
+  anthropicApiKey: string;
+  geminiModel: string;
+  anthropicModel: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  /** Max provider calls per user per day; 0 means no limit */
+  dailyLimit: number;
+}
+
+/** Inline file sent alongside the prompt (images for journal prompts, PDFs for calendars). */
+export interface AIAttachment {
+  mimeType: string;
+  /** Base64-encoded file contents */
+  data: string;
+}
+
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AICompletionRequest {
+  system: string;
+  messages: AIMessage[];
+  temperature: number;
+  maxOutputTokens: number;
+  /** True when the caller expects a JSON object back */
+  json?: boolean;
+  /** Attached to the first user message (the original request) */
+  attachments?: AIAttachment[];
+  /** Aborts the provider call (e.g. the user cancelled a streaming chat) */
+  signal?: AbortSignal;
+}
+
+/** Token counts reported by the provider (estimated when it doesn't report them). */
+export interface AITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletion {
+  text: string;
+  usage: AITokenUsage;
+}
+
+export interface AIProviderAdapter {
+  id: string;
+  label: string;
+  /** Why this provider can't run with the given config, or null if it can. */
+  checkConfig(config: AIConfig): string | null;
+  /** Model name recorded in the usage log */
+  modelName(config: AIConfig): string;
+  /** Run one completion and return the raw text. Errors are thrown as-is for the caller's retry logic. */
+  complete(config: AIConfig, request: AICompletionRequest): Promise<AICompletion>;
+  /** Like complete(), but calls onText with each chunk as it arrives. Optional — callers fall back to complete(). */
+  stream?(config: AIConfig, request: AICompletionRequest, onText: (delta: string) => void): Promise<AICompletion>;
+}
+
+/** Rough token count (~4 characters per token) for providers that don't report usage. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateUsage(request: AICompletionRequest, text: string): AITokenUsage {
+  const prompt = request.system + request.messages.map(m => m.content).join('');
+  return { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) };
+}
+
+// ============================================================
+// Gemini
+// ============================================================
+
+export function getGeminiModel(apiKey: string, modelName?: string) {
+  if (!apiKey) return null;
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return genAI.getGenerativeModel({ model: modelName || 'gemini-2.5-flash' });
+}
+
+function geminiRequest(request: AICompletionRequest) {
+  const contents = request.messages.map((msg, i) => {
+    const parts: Part[] = [{ text: msg.content }];
+    if (i === 0 && request.attachments) {
+      for (const a of request.attachments) {
+        parts.unshift({ inlineData: { mimeType: a.mimeType, data: a.data } });
+      }
+    }
+    return { role: msg.role === 'assistant' ? 'model' : 'user', parts };
+  });
+
+  return {
+    contents,
+    systemInstruction: { role: 'model', parts: [{ text: request.system }] },
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      // Disable thinking for JSON generation — thinking tokens eat into
+      // maxOutputTokens and can truncate the actual response
+      // (thinkingConfig isn't in the SDK types yet)
+      ...(request.json ? { thinkingConfig: { thinkingBudget: 0 } } : {}),
+    },
+  };
+}
+
+function geminiUsage(request: AICompletionRequest, text: string, meta: UsageMetadata | undefined): AITokenUsage {
+  return meta
+    ? { inputTokens: meta.promptTokenCount, outputTokens: meta.candidatesTokenCount }
+    : estimateUsage(request, text);
+}
+
+function requireGeminiModel(config: AIConfig) {
+  const model = getGeminiModel(config.geminiApiKey, config.geminiModel);
+  if (!model) throw new Error('Gemini API key not configured. Go to Settings to add your API key.');
+  return model;
+}
+
+const geminiProvider: AIProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  checkConfig(config) {
+    return config.geminiApiKey ? null : 'Gemini API key not configured. Go to Settings to add your API key.';
+  },
+  modelName(config) {
+    return config.geminiModel || 'gemini-2.5-flash';
+  },
+  async complete(config, request) {
+    const model = requireGeminiModel(config);
+    const result = await model.generateContent(geminiRequest(request), { signal: request.signal });
+    const text = result.response.text();
+    return { text, usage: geminiUsage(request, text, result.response.usageMetadata) };
+  },
+  async stream(config, request, onText) {
+    const model = requireGeminiModel(config);
+    const result = await model.generateContentStream(geminiRequest(request), { signal: request.signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (!delta) continue;
+      text += delta;
+      onText(delta);
+    }
+    const response = await result.response;
+    return { text, usage: geminiUsage(request, text, response.usageMetadata) };
+  },
+};
+
+// ============================================================
+// Anthropic
+// ============================================================
+
+type AnthropicContent = Anthropic.MessageParam['content'];
+
+function anthropicAttachmentBlock(a: AIAttachment): Exclude<AnthropicContent, string>[number] {
+  if (a.mimeType === 'application/pdf') {
+    return { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: a.data } };
+  }
+  const mediaType = a.mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data: a.data } };
+}
+
+function anthropicParams(config: AIConfig, request: AICompletionRequest): Anthropic.MessageCreateParamsNonStreaming {
+  const messages: Anthropic.MessageParam[] = request.messages.map((m, i) => {
+    const role = m.role === 'assistant' ? 'assistant' as const : 'user' as const;
+    if (i === 0 && request.attachments?.length) {
+      return {
+        role,
+        content: [...request.attachments.map(anthropicAttachmentBlock), { type: 'text' as const, text: m.content }],
+      };
+    }
+    return { role, content: m.content };
+  });
+
+  return {
+    model: config.anthropicModel,
+    max_tokens: request.maxOutputTokens,
+    temperature: Math.min(request.temperature, 1.0), // Anthropic max temp is 1.0
+    system: request.system,
+    messages,
+  };
+}
+
+function anthropicCompletion(message: Anthropic.Message): AICompletion {
+  const text = message.content
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  return {
+    text,
+    usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+  };
+}
+
+function anthropicClient(config: AIConfig) {
+  if (!config.anthropicApiKey) throw new Error('Anthropic API key not configured. Go to Settings to add your API key.');
+  return new Anthropic({ apiKey: config.anthropicApiKey });
+}
+
+const anthropicProvider: AIProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Claude',
+  checkConfig(config) {
+    return config.anthropicApiKey ? null : 'Anthropic API key not configured. Go to Settings to add your API key.';
+  },
+  modelName(config) {
+    return config.anthropicModel;
+  },
+  async complete(config, request) {
+    const message = await anthropicClient(config).messages.create(anthropicParams(config, request), { signal: request.signal });
+    return anthropicCompletion(message);
+  },
+  async stream(config, request, onText) {
+    const stream = anthropicClient(config).messages.stream(anthropicParams(config, request), { signal: request.signal });
+    stream.on('text', onText);
+    return anthropicCompletion(await stream.finalMessage());
+  },
+};
+
+// ============================================================
+// OpenAI-compatible (Ollama, llama.cpp, LM Studio, vLLM, OpenAI)
+// ============================================================
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+function openaiMessages(request: AICompletionRequest) {
+  const messages: Array<{ role: string; content: string | OpenAIContentPart[] }> = [
+    { role: 'system', content: request.system },
+  ];
+  request.messages.forEach((m, i) => {
+    if (i === 0 && request.attachments?.length) {
+      const parts: OpenAIContentPart[] = [{ type: 'text', text: m.content }];
+      for (const a of request.attachments) {
+        if (!a.mimeType.startsWith('image/')) {
+          throw new Error(`The OpenAI-compatible provider can't read ${a.mimeType} files. Switch providers in Settings to use this feature.`);
+        }
+        parts.push({ type: 'image_url', image_url: { url: `data:${a.mimeType};base64,${a.data}` } });
+      }
+      messages.push({ role: m.role, content: parts });
+    } else {
+      messages.push({ role: m.role, content: m.content });
+    }
+  });
+  return messages;
+}
+
+async function openaiFetch(config: AIConfig, request: AICompletionRequest, stream: boolean): Promise<Response> {
+  const res = await fetch(`${config.openaiBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.openaiApiKey ? { Authorization: `Bearer ${config.openaiApiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: config.openaiModel,
+      messages: openaiMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+    signal: request.signal,
+  });
+
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new Error(`AI server returned ${res.status} ${res.statusText}: ${detail.slice(0, 300)}`);
+  }
+  return res;
+}
+
+function openaiUsage(request: AICompletionRequest, text: string, usage?: { prompt_tokens?: number; completion_tokens?: number }): AITokenUsage {
+  return usage
+    ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 }
+    : estimateUsage(request, text);
+}
+
+const openaiCompatibleProvider: AIProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI-compatible (local server)',
+  checkConfig(config) {
+    return config.openaiBaseUrl ? null : 'No server URL configured for the OpenAI-compatible provider. Go to Settings to add one.';
+  },
+  modelName(config) {
+    return config.openaiModel;
+  },
+  async complete(config, request) {
+    const res = await openaiFetch(config, request, false);
+    const data = await res.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('AI server returned no message content');
+    return { text: content, usage: openaiUsage(request, content, data.usage) };
+  },
+  async stream(config, request, onText) {
+    const res = await openaiFetch(config, request, true);
+    if (!res.body) throw new Error('AI server returned no response body');
+
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+        const chunk = JSON.parse(payload);
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+    }
+    return { text, usage: openaiUsage(request, text, usage) };
+  },
+};
+
+// ============================================================
+// Fixture (deterministic, no network — for tests and demos)
+// ============================================================
+
+const fixtureProvider: AIProviderAdapter = {
+  id: 'fixture',
+  label: 'Offline demo (canned responses)',
+  checkConfig() {
+    return null;
+  },
+  modelName() {
+    return 'fixture';
+  },
+  async complete(_config, request) {
+    const text = fixtureResponse(request);
+    return { text, usage: estimateUsage(request, text) };
+  },
+  async stream(_config, request, onText) {
+    const text = fixtureResponse(request);
+    // Word by word with a short pause, so the demo looks like a live model
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      if (request.signal?.aborted) throw new Error('Request aborted');
+      onText(word);
+      await new Promise(resolve => setTimeout(resolve, 15));
+    }
+    return { text, usage: estimateUsage(request, text) };
+  },
+};
+
+// ============================================================
+// Registry
+// ============================================================
+
+const providers = new Map<string, AIProviderAdapter>();
+
+export function registerAIProvider(provider: AIProviderAdapter) {
+  providers.set(provider.id, provider);
+}
+
+export function getAIProvider(id: string): AIProviderAdapter | null {
+  return providers.get(id) ?? null;
+}
+
+export function listAIProviders(): AIProviderAdapter[] {
+  return [...providers.values()];
+}
+
+registerAIProvider(geminiProvider);
+registerAIProvider(anthropicProvider);
+registerAIProvider(openaiCompatibleProvider);
+registerAIProvider(fixtureProvider);
@@ -0,0 +1,420 @@
+import type { MaterialType } from './material-generator';
+
+// Output schemas for every AI generator. generateWithRetry() validates the
+// parsed JSON against one of these and re-prompts the model with the
+// failing fields, so half-built materials never get saved.
+
+export interface Schema<T> {
+  /** Append "path: problem" strings to errors for anything that doesn't match. */
+  check(value: unknown, path: string, errors: string[]): void;
+  /** Rewrite a value that passed check() into its typed form; obj() and arr() store the result in place */
+  coerce?(value: unknown): unknown;
+  /** Type marker only — never set at runtime */
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function label(path: string): string {
+  return path || '(root)';
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// ============================================================
+// Builders
+// ============================================================
+
+/** String; non-empty (after trimming) unless allowEmpty is set. */
+export function str(opts: { allowEmpty?: boolean; pattern?: RegExp; hint?: string } = {}): Schema<string> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'string') {
+        errors.push(`${label(path)}: expected text, got ${describe(value)}`);
+      } else if (!opts.allowEmpty && !value.trim()) {
+        errors.push(`${label(path)}: is empty`);
+      } else if (opts.pattern && !opts.pattern.test(value.trim())) {
+        errors.push(`${label(path)}: ${opts.hint || `doesn't match ${opts.pattern}`}`);
+      }
+    },
+  };
+}
+
+/** Number, also accepting numeric strings ("100") since models often quote them; those are converted to numbers. */
+export function num(): Schema<number> {
+  return {
+    check(value, path, errors) {
+      const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) {
+        errors.push(`${label(path)}: expected a number, got ${describe(value)}`);
+      }
+    },
+    coerce: value => (typeof value === 'string' ? Number(value) : value),
+  };
+}
+
+export function oneOf<V extends string>(...values: V[]): Schema<V> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'string' || !(values as string[]).includes(value)) {
+        errors.push(`${label(path)}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+    },
+  };
+}
+
+export function arr<T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors.push(`${label(path)}: expected a list, got ${describe(value)}`);
+        return;
+      }
+      if (opts.min !== undefined && value.length < opts.min) {
+        errors.push(`${label(path)}: expected at least ${opts.min} item${opts.min === 1 ? '' : 's'}, got ${value.length}`);
+      }
+      if (opts.max !== undefined && value.length > opts.max) {
+        errors.push(`${label(path)}: expected at most ${opts.max} items, got ${value.length}`);
+      }
+      value.forEach((v, i) => {
+        const before = errors.length;
+        item.check(v, `${path}[${i}]`, errors);
+        if (item.coerce && errors.length === before) value[i] = item.coerce(v);
+      });
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+/** Object with the given fields. Extra fields are allowed and kept. */
+export function obj<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    check(value, path, errors) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${label(path)}: expected an object, got ${describe(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape)) {
+        const before = errors.length;
+        schema.check(record[key], path ? `${path}.${key}` : key, errors);
+        if (schema.coerce && errors.length === before && key in record) record[key] = schema.coerce(record[key]);
+      }
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    check(value, path, errors) {
+      if (value === undefined || value === null) return;
+      schema.check(value, path, errors);
+    },
+    coerce: schema.coerce && (value => (value === undefined || value === null ? value : schema.coerce!(value))),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    check(value, path, errors) {
+      if (value === null) return;
+      schema.check(value, path, errors);
+    },
+    coerce: schema.coerce && (value => (value === null ? value : schema.coerce!(value))),
+  };
+}
+
+/** Extra cross-field rule, run only when the base schema passed. */
+export function refine<T>(schema: Schema<T>, rule: (value: T) => string | null): Schema<T> {
+  return {
+    check(value, path, errors) {
+      const before = errors.length;
+      schema.check(value, path, errors);
+      if (errors.length > before) return;
+      const problem = rule(value as T);
+      if (problem) errors.push(`${label(path)}: ${problem}`);
+    },
+    coerce: schema.coerce,
+  };
+}
+
+/** Validate a value, returning a list of "path: problem" strings (empty when valid). */
+export function validateSchema<T>(schema: Schema<T>, value: unknown): string[] {
+  const errors: string[] = [];
+  schema.check(value, '', errors);
+  return errors;
+}
+
+// ============================================================
+// Bellringer
+// ============================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const isoDate = () => str({ pattern: DATE_PATTERN, hint: 'expected a YYYY-MM-DD date' });
+
+const ACT_FIELDS = {
+  act_skill: str(),
+  act_question: str(),
+  act_choices: optional(str()),
+  act_choice_a: optional(str()),
+  act_choice_b: optional(str()),
+  act_choice_c: optional(str()),
+  act_choice_d: optional(str()),
+  act_answer: optional(str()),
+  act_correct_answer: optional(str()),
+  act_rule: str(),
+};
+
+/** ACT questions need all four choices and a correct letter, in either the combined or split format. */
+function actRule(value: Record<string, unknown>): string | null {
+  const split = ['act_choice_a', 'act_choice_b', 'act_choice_c', 'act_choice_d'].filter(k => String(value[k] ?? '').trim());
+  const combined = String(value.act_choices ?? '').split('\n').map(l => l.trim()).filter(Boolean);
+  if (split.length < 4 && combined.length < 4) {
+    return `act_choices: expected 4 answer choices (A-D), got ${Math.max(split.length, combined.length)}`;
+  }
+  const answer = String(value.act_answer ?? value.act_correct_answer ?? '').trim().toUpperCase();
+  if (!/^[A-D]$/.test(answer)) {
+    return `act_answer: expected A, B, C or D, got ${JSON.stringify(answer)}`;
+  }
+  return null;
+}
+
+const journalPrompt = obj({
+  journal_type: str(),
+  journal_prompt: str(),
+  journal_subprompt: optional(str({ allowEmpty: true })),
+});
+
+export const BELLRINGER_SCHEMA = refine(
+  obj({ prompts: arr(journalPrompt, { min: 1 }), ...ACT_FIELDS }),
+  actRule,
+);
+
+export const ACT_QUESTION_SCHEMA = refine(obj(ACT_FIELDS), actRule);
+
+export const JOURNAL_PROMPT_SCHEMA = obj({
+  journal_type: optional(str()),
+  journal_prompt: str(),
+  journal_subprompt: optional(str({ allowEmpty: true })),
+});
+
+export const IMAGE_PROMPT_SCHEMA = obj({
+  journal_prompt: str(),
+  journal_subprompt: optional(str({ allowEmpty: true })),
+});
+
+// ============================================================
+// Materials
+// ============================================================
+
+const promptAnswer = obj({ prompt: str(), answer: str() });
+const frenchEnglish = obj({ french: str(), english: str() });
+
+const quizQuestion = refine(
+  obj({
+    question: str(),
+    choices: optional(arr(str(), { min: 2 })),
+    correct: str(),
+    explanation: optional(str({ allowEmpty: true })),
+    points: optional(num()),
+  }),
+  q => {
+    if (!q.choices) return null;
+    // "B", "B)", "B. text" or the full choice text
+    const letter = q.correct.trim().match(/^\(?([A-Fa-f])(?:[).:\-\s]|$)/)?.[1]?.toUpperCase();
+    const inRange = letter && letter.charCodeAt(0) - 65 < q.choices.length;
+    const matchesText = q.choices.some(c => c.toLowerCase().includes(q.correct.trim().toLowerCase()));
+    return inRange || matchesText ? null : `correct answer ${JSON.stringify(q.correct)} doesn't match any of the ${q.choices.length} choices`;
+  },
+);
+
+const sectioned = {
+  title: str(),
+  instructions: optional(str({ allowEmpty: true })),
+  word_bank: optional(arr(str())),
+  sections: arr(obj({ heading: str(), type: str(), items: arr(promptAnswer, { min: 1 }) }), { min: 1 }),
+};
+
+const QUIZ_SCHEMA = obj({
+  title: str(),
+  instructions: optional(str({ allowEmpty: true })),
+  word_bank: optional(arr(str())),
+  questions: arr(quizQuestion, { min: 1 }),
+});
+
+const JEOPARDY_SCHEMA = refine(
+  obj({
+    title: str(),
+    setup: optional(str({ allowEmpty: true })),
+    categories: arr(
+      obj({
+        name: str(),
+        questions: arr(obj({ points: num(), question: str(), answer: str() }), { min: 1 }),
+      }),
+      { min: 2 },
+    ),
+  }),
+  board => {
+    // Every column needs the same number of clues or the board renders with holes
+    const counts = board.categories.map(c => c.questions.length);
+    const uneven = board.categories.findIndex(c => c.questions.length !== counts[0]);
+    return uneven === -1
+      ? null
+      : `categories[${uneven}].questions: has ${counts[uneven]} clues but categories[0] has ${counts[0]} — every category needs the same number`;
+  },
+);
+
+const GAME_SCHEMA = obj({
+  title: str(),
+  setup: optional(str({ allowEmpty: true })),
+  rules: optional(arr(str())),
+  items: arr(promptAnswer, { min: 1 }),
+});
+
+export const MATERIAL_SCHEMAS: Record<MaterialType, Schema<Record<string, unknown>>> = {
+  quiz: QUIZ_SCHEMA,
+  grammar_test: QUIZ_SCHEMA,
+  vocabulary_test: obj(sectioned),
+  worksheet: obj({ ...sectioned, extension: optional(str({ allowEmpty: true })) }),
+  sentence_dressup: obj({
+    title: str(),
+    sentences: arr(obj({ base: str(), technique: str(), example: str() }), { min: 1 }),
+  }),
+  discussion_questions: obj({
+    title: str(),
+    questions: arr(obj({ question: str(), follow_up: optional(str({ allowEmpty: true })) }), { min: 1 }),
+  }),
+  writing_prompt: obj({
+    title: str(),
+    prompt: str(),
+    requirements: arr(str(), { min: 1 }),
+    rubric: arr(obj({ category: str(), points: num(), criteria: str() }), { min: 1 }),
+  }),
+  reading_guide: obj({
+    title: str(),
+    before_reading: arr(str(), { min: 1 }),
+    during_reading: arr(obj({ page_or_section: optional(str({ allowEmpty: true })), question: str() }), { min: 1 }),
+    after_reading: arr(str(), { min: 1 }),
+  }),
+  jeopardy: JEOPARDY_SCHEMA,
+  dice_game: GAME_SCHEMA,
+  card_match: GAME_SCHEMA,
+  relay_race: GAME_SCHEMA,
+  buzzer_quiz: GAME_SCHEMA,
+  guess_who: GAME_SCHEMA,
+  four_corners: GAME_SCHEMA,
+  vocab_bingo: GAME_SCHEMA,
+  flashcard_set: obj({
+    title: str(),
+    cards: arr(obj({ front: str(), back: str() }), { min: 1 }),
+  }),
+  conjugation_drill: obj({
+    title: str(),
+    verbs: arr(
+      obj({
+        infinitive: str(),
+        english: str(),
+        conjugations: obj({ je: str(), tu: str(), 'il/elle': str(), nous: str(), vous: str(), 'ils/elles': str() }),
+      }),
+      { min: 1 },
+    ),
+    exercises: optional(arr(promptAnswer)),
+  }),
+  dialogue_builder: obj({
+    title: str(),
+    scenario: str(),
+    vocabulary: optional(arr(frenchEnglish)),
+    model_dialogue: arr(obj({ speaker: str(), french: str(), english: str() }), { min: 2 }),
+    practice_prompts: optional(arr(str())),
+  }),
+  cultural_activity: obj({
+    title: str(),
+    topic: str(),
+    background: str(),
+    activities: arr(obj({ type: str(), description: str(), instructions: optional(str({ allowEmpty: true })) }), { min: 1 }),
+    vocabulary: optional(arr(frenchEnglish)),
+  }),
+};
+
+/** Schema for a material type, falling back to "has a title" for unknown types. */
+export function materialSchema(materialType: string): Schema<Record<string, unknown>> {
+  return MATERIAL_SCHEMAS[materialType as MaterialType] ?? obj({ title: str() });
+}
+
+// ============================================================
+// Planning, calendar and tasks
+// ============================================================
+
+const activityType = str();
+
+export const LESSON_PLAN_SCHEMA = obj({
+  days: arr(obj({
+    date: isoDate(),
+    activities: arr(obj({
+      class_id: num(),
+      title: str(),
+      description: str({ allowEmpty: true }),
+      activity_type: activityType,
+      material_status: optional(oneOf('not_needed', 'needs_material')),
+    })),
+  })),
+});
+
+export const LESSON_PLAN_IMPORT_SCHEMA = obj({
+  days: arr(obj({
+    date: optional(str({ allowEmpty: true })),
+    day_name: str(),
+    activities: arr(obj({
+      class_name: str(),
+      title: str(),
+      description: str({ allowEmpty: true }),
+      activity_type: activityType,
+    })),
+  })),
+});
+
+export const CALENDAR_EVENTS_SCHEMA = arr(
+  obj({ date: isoDate(), event_type: str(), title: str() }),
+  { min: 1 },
+);
+
+export const EXTRACTED_TASKS_SCHEMA = obj({
+  tasks: arr(obj({
+    text: str(),
+    due_date: nullable(isoDate()),
+    class_id: nullable(num()),
+    confidence: oneOf('high', 'medium'),
+  })),
+});
+
+export const REGENERATED_ACTIVITY_SCHEMA = obj({
+  title: str(),
+  description: str({ allowEmpty: true }),
+  activity_type: activityType,
+});
+
+export const STANDARDS_TAG_SCHEMA = obj({
+  codes: arr(str(), { max: 3 }),
+  reasoning: optional(str({ allowEmpty: true })),
+});
+
+export const STANDARDS_PARSE_SCHEMA = obj({
+  standards: arr(obj({ code: str(), description: str(), strand: optional(str({ allowEmpty: true })) })),
+});
+
+export const EMERGENCY_SUB_MATERIAL_TYPES = ['worksheet', 'reading_guide', 'writing_prompt', 'discussion_questions', 'flashcard_set', 'conjugation_drill'] as const;
+
+export const EMERGENCY_SUB_SCHEMA = obj({
+  classes: arr(obj({
+    class_id: num(),
+    title: str(),
+    description: str({ allowEmpty: true }),
+    activity_type: activityType,
+    material_type: nullable(oneOf(...EMERGENCY_SUB_MATERIAL_TYPES)),
+  })),
+});
@@ -1,34 +1,39 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import Anthropic from '@anthropic-ai/sdk';
 import { createSupabaseServer } from './supabase-server';
+import {
+  getAIProvider,
+  type AIConfig,
+  type AIAttachment,
+  type AIMessage,
+  type AICompletionRequest,
+  type AIProviderAdapter,
+} from './ai-providers';
+import { validateSchema, type Schema } from './ai-schemas';
+import { AIUsageLimitError, aiDailyLimit, countAICallsToday, recordAIUsage, type AIFeature } from './ai-usage';
+import { loadActFocusArea } from './act-mastery';
+
+export type { AIConfig, AIAttachment } from './ai-providers';
+export type { AIFeature } from './ai-usage';
 
 // ============================================================
 // Provider types
 // ============================================================
-export type AIProvider = 'gemini' | 'anthropic';
-
-interface AIConfig {
-  provider: AIProvider;
-  geminiApiKey: string;
-  anthropicApiKey: string;
-  geminiModel: string;
-  anthropicModel: string;
-}
+/** Built-in providers. Others can be added with registerAIProvider(). */
+export type AIProvider = 'gemini' | 'anthropic' | 'openai' | 'fixture';
 
 // ============================================================
 // Settings helpers
 // ============================================================
 
-/** Fetch AI config: API keys from env vars, provider/model from authenticated DB. */
+/** Fetch AI config: API keys and the OpenAI-compatible server URL from env vars, provider/model from authenticated DB. */
 export async function getAIConfig(): Promise<AIConfig> {
   // Provider and model preferences come from the DB (non-secret)
-  let map: Record<string, string> = {};
+  const map: Record<string, string> = {};
   try {
     const supabase = await createSupabaseServer();
     const { data } = await supabase
       .from('settings')
       .select('key, value')
-      .in('key', ['ai_provider', 'gemini_model', 'anthropic_model']);
+      .in('key', ['ai_provider', 'gemini_model', 'anthropic_model', 'openai_model']);
 
     for (const row of data || []) {
       map[row.key] = row.value;
@@ -38,35 +43,34 @@ export async function getAIConfig(): Promise<AIConfig> {
   }
 
   return {
-    provider: (map.ai_provider as AIProvider) || 'gemini',
+    provider: map.ai_provider || process.env.AI_PROVIDER || 'gemini',
     geminiApiKey: process.env.GEMINI_API_KEY || '',
     anthropicApiKey: process.env.ANTHROPIC_API_KEY || '',
     geminiModel: map.gemini_model || 'gemini-2.5-flash',
     anthropicModel: map.anthropic_model || 'claude-sonnet-4-20250514',
+    // Server-only: OPENAI_API_KEY is sent to this URL, so users must not be able to change it
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
+    openaiModel: map.openai_model || process.env.OPENAI_MODEL || 'llama3.1',
+    dailyLimit: aiDailyLimit(),
   };
 }
 
-// Backwards compat — used by some callers
-export async function getApiKey(): Promise<string> {
-  const config = await getAIConfig();
-  return config.provider === 'anthropic' ? config.anthropicApiKey : config.geminiApiKey;
-}
-
-// ============================================================
-// Gemini helpers
-// ============================================================
-export function getGeminiModel(apiKey: string, modelName?: string) {
-  if (!apiKey) return null;
-  const genAI = new GoogleGenerativeAI(apiKey);
-  return genAI.getGenerativeModel({ model: modelName || 'gemini-2.5-flash' });
+/** Look up the configured provider, or return why it can't be used. */
+function resolveProvider(config: AIConfig): { provider: AIProviderAdapter | null; error: string | null } {
+  const provider = getAIProvider(config.provider);
+  if (!provider) {
+    return { provider: null, error: `Unknown AI provider "${config.provider}". Go to Settings to pick a provider.` };
+  }
+  return { provider, error: provider.checkConfig(config) };
 }
 
-// ============================================================
-// Anthropic helpers
-// ============================================================
-function getAnthropicClient(apiKey: string): Anthropic | null {
-  if (!apiKey) return null;
-  return new Anthropic({ apiKey });
+/**
+ * Returns a user-facing message if the current provider can't run
+ * (e.g. missing API key), or null when generation can proceed.
+ */
+export async function getAIConfigError(): Promise<string | null> {
+  return resolveProvider(await getAIConfig()).error;
 }
 
 // ============================================================
@@ -84,9 +88,16 @@ function getRateLimitDelay(error: unknown): number | null {
 }
 
 // ============================================================
-// JSON cleaning (unchanged — still needed for both providers)
+// JSON parsing (shared by every provider)
 // ============================================================
-export function cleanJsonResponse(text: string): Record<string, unknown> {
+
+/**
+ * Parse model output as JSON. Strips markdown fences and surrounding prose,
+ * and fixes the two mistakes that don't change meaning (trailing commas and
+ * raw newlines inside strings). Anything more damaged is rejected so the
+ * caller can re-prompt instead of keeping a partial object.
+ */
+export function parseJsonResponse(text: string): unknown {
   text = text.trim();
 
   if (text.startsWith('```')) {
@@ -101,157 +112,209 @@ export function cleanJsonResponse(text: string): Record<string, unknown> {
   }
   text = text.trim();
 
-  // Strategy 1: Direct parse
   try { return JSON.parse(text); } catch { /* continue */ }
 
-  // Strategy 2: Find JSON object
-  const start = text.indexOf('{');
-  const end = text.lastIndexOf('}');
-  if (start !== -1 && end !== -1 && end > start) {
-    let fragment = text.substring(start, end + 1);
+  // Outermost object or array, ignoring prose around it
+  const objStart = text.indexOf('{');
+  const arrStart = text.indexOf('[');
+  const isArray = arrStart !== -1 && (objStart === -1 || arrStart < objStart);
+  const start = isArray ? arrStart : objStart;
+  const end = text.lastIndexOf(isArray ? ']' : '}');
+  if (start !== -1 && end > start) {
+    const fragment = text.substring(start, end + 1);
     try { return JSON.parse(fragment); } catch { /* continue */ }
 
-    // Strategy 3: Fix trailing commas
-    let cleaned = fragment.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
+    const cleaned = fragment.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
     try { return JSON.parse(cleaned); } catch { /* continue */ }
 
-    // Strategy 4: Fix unescaped control chars
     const fixed = cleaned.replace(
       /(?<=": ")(.*?)(?="[,\s}])/gs,
       (match) => match.replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '')
     );
     try { return JSON.parse(fixed); } catch { /* continue */ }
+  }
 
-    // Strategy 5: Truncate at last complete pair
-    const lines = cleaned.split('\n');
-    for (let i = lines.length - 1; i > 0; i--) {
-      const attempt = lines.slice(0, i).join('\n').trimEnd().replace(/,\s*$/, '') + '\n}';
-      try { return JSON.parse(attempt); } catch { continue; }
-    }
+  throw new Error('Could not parse JSON from AI response');
+}
 
-    // Strategy 6: Regex rebuild — handles string, number, boolean, and null values
-    try {
-      const obj: Record<string, unknown> = {};
-      // Match string values
-      const stringPairs = [...cleaned.matchAll(/"(\w+)"\s*:\s*"((?:[^"\\]|\\.)*)"/g)];
-      for (const match of stringPairs) {
-        obj[match[1]] = match[2].replace(/\\n/g, '\n').replace(/\\\\n/g, '\n');
-      }
-      // Match non-string values (numbers, booleans, null)
-      const nonStringPairs = [...cleaned.matchAll(/"(\w+)"\s*:\s*(true|false|null|-?\d+(?:\.\d+)?)\s*[,}\]]/g)];
-      for (const match of nonStringPairs) {
-        if (!(match[1] in obj)) {
-          const val = match[2];
-          if (val === 'true') obj[match[1]] = true;
-          else if (val === 'false') obj[match[1]] = false;
-          else if (val === 'null') obj[match[1]] = null;
-          else obj[match[1]] = Number(val);
-        }
-      }
-      if (Object.keys(obj).length > 0) {
-        return obj;
-      }
-    } catch { /* continue */ }
+/** parseJsonResponse() for callers that expect a single JSON object. */
+export function cleanJsonResponse(text: string): Record<string, unknown> {
+  const parsed = parseJsonResponse(text);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Could not parse JSON from AI response');
   }
+  return parsed as Record<string, unknown>;
+}
 
-  throw new Error('Could not parse JSON from AI response');
+/** Thrown when the model's JSON still fails its schema after every re-prompt. */
+export class AIValidationError extends Error {
+  fields: string[];
+
+  constructor(fields: string[]) {
+    const shown = fields.slice(0, 8).map(f => `• ${f}`).join('\n');
+    const more = fields.length > 8 ? `\n• …and ${fields.length - 8} more` : '';
+    super(`The AI response had missing or invalid fields:\n${shown}${more}`);
+    this.name = 'AIValidationError';
+    this.fields = fields;
+  }
 }
 
 // ============================================================
 // Provider-agnostic generation
 // ============================================================
 
-/**
- * Generate JSON from a system + user prompt, with retry.
- * Works with either Gemini or Anthropic based on the current provider setting.
- */
-export async function generateWithRetry(
-  modelOrNull: ReturnType<GoogleGenerativeAI['getGenerativeModel']> | null,
-  systemPrompt: string,
-  userPrompt: string,
-  config: { temperature: number; maxOutputTokens: number },
-  maxRetries = 2
-): Promise<Record<string, unknown>> {
-  const aiConfig = await getAIConfig();
-
-  if (aiConfig.provider === 'anthropic') {
-    return generateWithAnthropic(aiConfig, systemPrompt, userPrompt, config, maxRetries);
+/** The signed-in user and their client, for the usage log. Null outside a request. */
+async function getUsageMeter() {
+  try {
+    const supabase = await createSupabaseServer();
+    const { data: { user } } = await supabase.auth.getUser();
+    return user ? { supabase, userId: user.id } : null;
+  } catch {
+    return null;
   }
+}
 
-  // Gemini path (original)
-  const model = modelOrNull || getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel);
-  if (!model) throw new Error('No AI model configured. Go to Settings to add your API key.');
-
-  let lastError: Error | null = null;
-  let temperature = config.temperature;
+/**
+ * Bind the configured provider to its config, throwing if it can't run.
+ * Every call through the returned function is checked against the daily
+ * limit and logged to ai_usage with its tokens, latency and outcome.
+ */
+async function getActiveProvider(
+  feature: AIFeature,
+): Promise<(request: AICompletionRequest, onText?: (delta: string) => void) => Promise<string>> {
+  const config = await getAIConfig();
+  const { provider, error } = resolveProvider(config);
+  if (!provider || error) throw new Error(error || 'No AI provider configured. Go to Settings to pick a provider.');
+  const meter = await getUsageMeter();
+  const model = provider.modelName(config);
+
+  return async (request, onText) => {
+    if (meter && config.dailyLimit > 0) {
+      let used: number;
+      try {
+        used = await countAICallsToday(meter.supabase, meter.userId);
+      } catch {
+        // Without the count the limit can't be enforced, so the call is refused
+        throw new Error("Couldn't check today's AI usage against your daily limit. Try again in a moment.");
+      }
+      if (used >= config.dailyLimit) throw new AIUsageLimitError(config.dailyLimit);
+    }
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const started = Date.now();
     try {
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
-        systemInstruction: { role: 'model', parts: [{ text: systemPrompt }] },
-        generationConfig: {
-          temperature,
-          maxOutputTokens: config.maxOutputTokens,
-          // Disable thinking for JSON generation — thinking tokens eat into
-          // maxOutputTokens and can truncate the actual response
-          // @ts-expect-error thinkingConfig not in types yet
-          thinkingConfig: { thinkingBudget: 0 },
-        },
-      });
-      return cleanJsonResponse(result.response.text());
+      // Providers without streaming hand back the whole reply as one chunk
+      const { text, usage } = onText && provider.stream
+        ? await provider.stream(config, request, onText)
+        : await provider.complete(config, request);
+      if (onText && !provider.stream) onText(text);
+      if (meter) {
+        await recordAIUsage(meter.supabase, meter.userId, {
+          feature, provider: provider.id, model, usage, latencyMs: Date.now() - started, success: true,
+        });
+      }
+      return text;
     } catch (e) {
-      lastError = e instanceof Error ? e : new Error(String(e));
-      const delay = getRateLimitDelay(e);
-      if (delay) { await sleep(delay); continue; }
-      temperature = Math.max(0.3, temperature - 0.3);
+      if (meter) {
+        await recordAIUsage(meter.supabase, meter.userId, {
+          feature,
+          provider: provider.id,
+          model,
+          usage: { inputTokens: 0, outputTokens: 0 },
+          latencyMs: Date.now() - started,
+          success: false,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+      throw e;
     }
-  }
-  throw lastError;
+  };
+}
+
+export interface GenerateOptions<T> {
+  /** Recorded in the usage log */
+  feature: AIFeature;
+  temperature: number;
+  maxOutputTokens: number;
+  /** Validate the parsed JSON; failures are sent back to the model to fix */
+  schema?: Schema<T>;
+  attachments?: AIAttachment[];
+}
+
+function fixRequest(problem: string): string {
+  return `${problem}\n\nRespond again with the COMPLETE corrected JSON only — no markdown, no commentary.`;
 }
 
 /**
- * Anthropic-specific JSON generation with retry.
+ * Generate JSON from a system + user prompt, with retry.
+ * Works with whichever provider is selected in Settings.
+ *
+ * When a schema is given, the parsed output is validated against it. If it
+ * doesn't parse or doesn't match, the model sees its previous answer plus
+ * the list of problems and gets another try. After the last attempt an
+ * AIValidationError lists the fields that never came back right.
  */
-async function generateWithAnthropic(
-  aiConfig: AIConfig,
+export async function generateWithRetry<T = Record<string, unknown>>(
   systemPrompt: string,
   userPrompt: string,
-  config: { temperature: number; maxOutputTokens: number },
-  maxRetries: number,
-): Promise<Record<string, unknown>> {
-  const client = getAnthropicClient(aiConfig.anthropicApiKey);
-  if (!client) throw new Error('Anthropic API key not configured. Go to Settings to add your API key.');
-
+  config: GenerateOptions<T>,
+  maxRetries = 2,
+): Promise<T> {
+  const complete = await getActiveProvider(config.feature);
   let lastError: Error | null = null;
-  let temperature = Math.min(config.temperature, 1.0); // Anthropic max temp is 1.0
+  let temperature = config.temperature;
+  let messages: AIMessage[] = [{ role: 'user', content: userPrompt }];
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let text: string;
     try {
-      const message = await client.messages.create({
-        model: aiConfig.anthropicModel,
-        max_tokens: config.maxOutputTokens,
-        temperature,
+      text = await complete({
         system: systemPrompt,
-        messages: [{ role: 'user', content: userPrompt }],
+        messages,
+        temperature,
+        maxOutputTokens: config.maxOutputTokens,
+        json: true,
+        attachments: config.attachments,
       });
-
-      const text = message.content
-        .filter(block => block.type === 'text')
-        .map(block => block.text)
-        .join('');
-
-      return cleanJsonResponse(text);
     } catch (e) {
+      if (e instanceof AIUsageLimitError) throw e;
       lastError = e instanceof Error ? e : new Error(String(e));
       const delay = getRateLimitDelay(e);
       if (delay) { await sleep(delay); continue; }
-      temperature = Math.max(0.3, temperature - 0.2);
+      temperature = Math.max(0.3, temperature - 0.3);
+      continue;
     }
+
+    let problem: string;
+    try {
+      const parsed = config.schema ? parseJsonResponse(text) : cleanJsonResponse(text);
+      const errors = config.schema ? validateSchema(config.schema, parsed) : [];
+      if (errors.length === 0) return parsed as T;
+
+      lastError = new AIValidationError(errors);
+      problem = `Your JSON failed validation:\n${errors.map(err => `- ${err}`).join('\n')}\nFix these fields and keep everything else the same.`;
+    } catch (e) {
+      lastError = e instanceof Error ? e : new Error(String(e));
+      problem = 'That response was not valid JSON.';
+    }
+
+    messages = [
+      { role: 'user', content: userPrompt },
+      { role: 'assistant', content: text },
+      { role: 'user', content: fixRequest(problem) },
+    ];
   }
   throw lastError;
 }
 
+export interface ChatOptions {
+  /** Recorded in the usage log */
+  feature: AIFeature;
+  temperature: number;
+  maxOutputTokens: number;
+  /** Stops the provider call, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
 /**
  * Provider-agnostic chat (for brainstorm conversations).
  * Returns plain text, not JSON.
@@ -259,64 +322,43 @@ async function generateWithAnthropic(
 export async function chatWithAI(
   systemPrompt: string,
   messages: { role: string; content: string }[],
-  config: { temperature: number; maxOutputTokens: number },
+  config: ChatOptions,
 ): Promise<string> {
-  const aiConfig = await getAIConfig();
-
-  if (aiConfig.provider === 'anthropic') {
-    const client = getAnthropicClient(aiConfig.anthropicApiKey);
-    if (!client) throw new Error('Anthropic API key not configured. Go to Settings to add your API key.');
-
-    const anthropicMessages = messages.map(m => ({
-      role: m.role === 'assistant' ? 'assistant' as const : 'user' as const,
-      content: m.content,
-    }));
-
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        const message = await client.messages.create({
-          model: aiConfig.anthropicModel,
-          max_tokens: config.maxOutputTokens,
-          temperature: Math.min(config.temperature, 1.0),
-          system: systemPrompt,
-          messages: anthropicMessages,
-        });
-
-        return message.content
-          .filter(block => block.type === 'text')
-          .map(block => block.text)
-          .join('');
-      } catch (e) {
-        const delay = getRateLimitDelay(e);
-        if (delay) { await sleep(delay); continue; }
-        throw e;
-      }
-    }
-    throw new Error('Rate limited — please wait a minute and try again.');
-  }
-
-  // Gemini path
-  const model = getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel);
-  if (!model) throw new Error('No AI model configured. Go to Settings to add your API key.');
+  return streamChatWithAI(systemPrompt, messages, config);
+}
 
-  const geminiContents = messages.map(msg => ({
-    role: msg.role === 'assistant' ? 'model' as const : 'user' as const,
-    parts: [{ text: msg.content }],
+/**
+ * chatWithAI() that reports the reply as it is generated: onText gets each
+ * chunk, and the full text is returned at the end. Rate-limit retries only
+ * happen before the first chunk — once text has been shown it can't be
+ * taken back, so later failures are thrown.
+ */
+export async function streamChatWithAI(
+  systemPrompt: string,
+  messages: { role: string; content: string }[],
+  config: ChatOptions,
+  onText?: (delta: string) => void,
+): Promise<string> {
+  const chatMessages = messages.map(m => ({
+    role: m.role === 'assistant' ? 'assistant' as const : 'user' as const,
+    content: m.content,
   }));
 
+  const complete = await getActiveProvider(config.feature);
+  let started = false;
+  const relay = onText && ((delta: string) => { started = true; onText(delta); });
+
   for (let attempt = 0; attempt < 3; attempt++) {
     try {
-      const result = await model.generateContent({
-        contents: geminiContents,
-        systemInstruction: { role: 'model' as const, parts: [{ text: systemPrompt }] },
-        generationConfig: {
-          temperature: config.temperature,
-          maxOutputTokens: config.maxOutputTokens,
-        },
-      });
-      return result.response.text();
+      return await complete({
+        system: systemPrompt,
+        messages: chatMessages,
+        temperature: config.temperature,
+        maxOutputTokens: config.maxOutputTokens,
+        signal: config.signal,
+      }, relay);
     } catch (e) {
-      const delay = getRateLimitDelay(e);
+      const delay = !started && !config.signal?.aborted ? getRateLimitDelay(e) : null;
       if (delay) { await sleep(delay); continue; }
       throw e;
     }
@@ -409,12 +451,15 @@ export async function buildContext() {
 
   const recentActSkills = (recent || []).map(r => r.act_skill).filter(Boolean) as string[];
   const recentJournalTypes = (recent || []).map(r => r.journal_type).filter(Boolean) as string[];
+  const actFocusArea = await loadActFocusArea(supabase, recentActSkills);
 
   return {
     today: `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`,
     dayOfWeek: dayNames[today.getDay()],
     recentActSkills,
     recentJournalTypes,
+    // Weakest-leaning ACT skill area from recorded student answers (null until there are some)
+    actFocusArea,
   };
 }
 
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AITokenUsage } from './ai-providers';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Features and pricing
+// ============================================================
+
+/** What an AI call was for. Every generateWithRetry/chatWithAI caller tags one. */
+export type AIFeature = 'bellringer' | 'material' | 'brainstorm' | 'tagging' | 'import';
+
+export const AI_FEATURES: { value: AIFeature; label: string }[] = [
+  { value: 'bellringer', label: 'Bellringers' },
+  { value: 'material', label: 'Materials' },
+  { value: 'brainstorm', label: 'Lesson Planning' },
+  { value: 'tagging', label: 'Standards Tagging' },
+  { value: 'import', label: 'Imports' },
+];
+
+/** USD per million tokens as [input, output]. Unlisted models (local servers, the offline demo) cost nothing. */
+const MODEL_PRICES: Record<string, [number, number]> = {
+  'gemini-2.5-flash': [0.30, 2.50],
+  'gemini-2.5-pro': [1.25, 10.00],
+  'gemini-2.0-flash-lite': [0.075, 0.30],
+  'claude-sonnet-4-20250514': [3.00, 15.00],
+  'claude-haiku-4-5-20251001': [1.00, 5.00],
+  'claude-opus-4-20250514': [15.00, 75.00],
+};
+
+export function estimateCost(model: string, usage: AITokenUsage): number {
+  const price = MODEL_PRICES[model];
+  if (!price) return 0;
+  return (usage.inputTokens * price[0] + usage.outputTokens * price[1]) / 1_000_000;
+}
+
+// ============================================================
+// Logging and the daily cap
+// ============================================================
+
+export interface AIUsageEntry {
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  usage: AITokenUsage;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+/** Thrown before a provider call once the user has used up their daily allowance. */
+export class AIUsageLimitError extends Error {
+  constructor(limit: number) {
+    super(`Daily AI limit reached (${limit} requests). It resets at midnight.`);
+    this.name = 'AIUsageLimitError';
+  }
+}
+
+/** Midnight at the start of the school's local day, not the UTC one. */
+function startOfToday(): Date {
+  return new Date(`${localDateStr()}T00:00:00`);
+}
+
+/** Server-configured cap on provider calls per user per day; 0 means no limit. */
+export function aiDailyLimit(): number {
+  return Math.max(0, parseInt(process.env.AI_DAILY_LIMIT || '0') || 0);
+}
+
+/** Provider calls the user has made since midnight, failed ones included. */
+export async function countAICallsToday(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('ai_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', startOfToday().toISOString());
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Write one row to ai_usage. Logging never fails the generation it describes, so errors are only reported. */
+export async function recordAIUsage(supabase: SupabaseClient, userId: string, entry: AIUsageEntry) {
+  const { error } = await supabase.from('ai_usage').insert({
+    user_id: userId,
+    feature: entry.feature,
+    provider: entry.provider,
+    model: entry.model,
+    input_tokens: entry.usage.inputTokens,
+    output_tokens: entry.usage.outputTokens,
+    latency_ms: entry.latencyMs,
+    success: entry.success,
+    error: entry.error?.slice(0, 500) ?? null,
+    cost_usd: estimateCost(entry.model, entry.usage),
+  });
+  if (error) {
+    console.error(`Failed to record ${entry.feature} AI usage for ${entry.model}:`, error.message);
+  }
+}
+
+// ============================================================
+// Weekly summary (settings chart)
+// ============================================================
+
+export interface AIUsageRow {
+  feature: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | string | null;
+  success: boolean;
+  created_at: string;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  failures: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface AIUsageWeek extends AIUsageTotals {
+  /** Monday of the week, YYYY-MM-DD */
+  week: string;
+  byFeature: Record<string, AIUsageTotals>;
+}
+
+function emptyTotals(): AIUsageTotals {
+  return { calls: 0, failures: 0, tokens: 0, cost: 0 };
+}
+
+function addRow(totals: AIUsageTotals, row: AIUsageRow) {
+  totals.calls++;
+  if (!row.success) totals.failures++;
+  totals.tokens += (row.input_tokens || 0) + (row.output_tokens || 0);
+  totals.cost += Number(row.cost_usd) || 0;
+}
+
+/** Monday on or before the given date. */
+export function weekStart(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+}
+
+/** Bucket usage rows into the last `weeks` weeks (oldest first), including empty weeks. */
+export function summarizeUsageByWeek(rows: AIUsageRow[], weeks: number, now = new Date()): AIUsageWeek[] {
+  const result: AIUsageWeek[] = [];
+  const index = new Map<string, AIUsageWeek>();
+  const current = weekStart(now);
+  for (let i = weeks - 1; i >= 0; i--) {
+    const d = new Date(current);
+    d.setDate(d.getDate() - i * 7);
+    const week: AIUsageWeek = { week: localDateStr(d), byFeature: {}, ...emptyTotals() };
+    result.push(week);
+    index.set(week.week, week);
+  }
+
+  for (const row of rows) {
+    const week = index.get(localDateStr(weekStart(new Date(row.created_at))));
+    if (!week) continue;
+    addRow(week, row);
+    addRow(week.byFeature[row.feature] ??= emptyTotals(), row);
+  }
+  return result;
+}
@@ -0,0 +1,300 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AttendanceRecord, AttendanceStatus, RosterStudent, Student } from './types';
+import { sortRoster, studentDisplayName, toRosterStudent } from './roster-helpers';
+import { toCSV } from './csv';
+
+// ============================================================
+// Attendance
+//
+// One mark per student per class per day: present, absent or tardy. The
+// teacher takes it from the day view; a sub takes it from the shared SubDash
+// page through SECURITY DEFINER functions keyed by the share token, limited
+// to the classes on that plan's schedule. Sub marks come back to the teacher
+// as a summary on the dashboard until marked reviewed.
+// ============================================================
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ['present', 'absent', 'tardy'];
+
+export const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  absent: 'Absent',
+  tardy: 'Tardy',
+};
+
+const MAX_NOTE_LENGTH = 200;
+
+/** A student's row on an attendance sheet, marked or not. */
+export interface AttendanceEntry {
+  student_id: number;
+  name: string;
+  last_name: string;
+  first_name: string;
+  period: string | null;
+  status: AttendanceStatus | null;
+  note: string | null;
+}
+
+export interface AttendanceMark {
+  class_id: number;
+  student_id: number;
+  status: AttendanceStatus;
+  note: string | null;
+}
+
+export interface AttendanceCounts {
+  present: number;
+  absent: number;
+  tardy: number;
+  unmarked: number;
+}
+
+/** What the sub sees for a share token: rosters for the plan's classes on its date. */
+export interface SubDashAttendance {
+  date: string;
+  open: boolean;
+  classes: { class_id: number; class_name: string; students: AttendanceEntry[] }[];
+}
+
+/** One class-day of sub-taken attendance the teacher hasn't reviewed yet. */
+export interface SubAttendanceReport {
+  date: string;
+  class_id: number;
+  class_name: string;
+  counts: AttendanceCounts;
+  absent: string[];
+  tardy: { name: string; note: string | null }[];
+  notes: { name: string; note: string }[];
+}
+
+/**
+ * Validate marks from a request body. `classId` fills in the class when the
+ * route is already scoped to one. The last mark for a student wins.
+ */
+export function attendanceMarksFromBody(value: unknown, classId?: number): { marks: AttendanceMark[]; error: string | null } {
+  if (!Array.isArray(value)) return { marks: [], error: 'records must be an array' };
+
+  const marks = new Map<string, AttendanceMark>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') return { marks: [], error: 'Invalid attendance record' };
+    const record = item as Record<string, unknown>;
+    const cls = classId ?? Number(record.class_id);
+    const studentId = Number(record.student_id);
+    if (!Number.isInteger(cls) || !Number.isInteger(studentId)) {
+      return { marks: [], error: 'Each record needs a class_id and student_id' };
+    }
+    const status = String(record.status || '') as AttendanceStatus;
+    if (!ATTENDANCE_STATUSES.includes(status)) {
+      return { marks: [], error: `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}` };
+    }
+    const note = String(record.note ?? '').trim().slice(0, MAX_NOTE_LENGTH) || null;
+    marks.set(`${cls}:${studentId}`, { class_id: cls, student_id: studentId, status, note });
+  }
+  return { marks: [...marks.values()], error: null };
+}
+
+/** Tally a sheet. */
+export function attendanceCounts(entries: Pick<AttendanceEntry, 'status'>[]): AttendanceCounts {
+  const counts: AttendanceCounts = { present: 0, absent: 0, tardy: 0, unmarked: 0 };
+  for (const e of entries) counts[e.status ?? 'unmarked']++;
+  return counts;
+}
+
+function toEntry(
+  student: Pick<Student, 'id' | 'first_name' | 'last_name' | 'preferred_name'>,
+  period: string | null,
+  mark: Pick<AttendanceRecord, 'status' | 'note'> | undefined,
+): AttendanceEntry {
+  return {
+    student_id: student.id,
+    name: studentDisplayName(student),
+    last_name: student.last_name,
+    first_name: student.first_name,
+    period,
+    status: mark?.status ?? null,
+    note: mark?.note ?? null,
+  };
+}
+
+/** The class roster with each student's mark for the date. */
+export async function loadClassAttendance(supabase: SupabaseClient, classId: number, date: string): Promise<AttendanceEntry[]> {
+  const [{ data: enrollments, error }, { data: records, error: recordError }] = await Promise.all([
+    supabase.from('class_enrollments').select('id, period, students(*)').eq('class_id', classId),
+    supabase.from('attendance').select('student_id, status, note').eq('class_id', classId).eq('date', date),
+  ]);
+  if (error) throw new Error(error.message);
+  if (recordError) throw new Error(recordError.message);
+
+  const marks = new Map((records || []).map(r => [r.student_id as number, r as Pick<AttendanceRecord, 'status' | 'note'>]));
+  const roster = sortRoster(
+    (enrollments || []).map(row => toRosterStudent(row)).filter((s): s is RosterStudent => s !== null),
+  );
+  return roster.map(s => toEntry(s, s.period, marks.get(s.id)));
+}
+
+/** Save the teacher's marks for one class. Students not enrolled in the class are skipped. */
+export async function saveClassAttendance(
+  supabase: SupabaseClient,
+  userId: string,
+  classId: number,
+  date: string,
+  marks: AttendanceMark[],
+): Promise<number> {
+  const { data: enrollments, error } = await supabase
+    .from('class_enrollments')
+    .select('student_id, period')
+    .eq('class_id', classId);
+  if (error) throw new Error(error.message);
+
+  const periods = new Map((enrollments || []).map(e => [e.student_id as number, e.period as string | null]));
+  const now = new Date().toISOString();
+  const rows = marks
+    .filter(m => periods.has(m.student_id))
+    .map(m => ({
+      user_id: userId,
+      class_id: classId,
+      student_id: m.student_id,
+      date,
+      period: periods.get(m.student_id) ?? null,
+      status: m.status,
+      note: m.note,
+      recorded_by: 'teacher',
+      subdash_plan_id: null,
+      reviewed_at: now,
+      updated_at: now,
+    }));
+  if (rows.length === 0) return 0;
+
+  const { error: upsertError } = await supabase
+    .from('attendance')
+    .upsert(rows, { onConflict: 'class_id,student_id,date' });
+  if (upsertError) throw new Error(upsertError.message);
+  return rows.length;
+}
+
+type SubDashAttendanceRow = Pick<Student, 'first_name' | 'last_name' | 'preferred_name'> & {
+  student_id: number;
+  period: string | null;
+  status: AttendanceStatus | null;
+  note: string | null;
+};
+
+export async function loadSubDashAttendance(supabase: SupabaseClient, token: string): Promise<SubDashAttendance | null> {
+  const { data, error } = await supabase.rpc('subdash_attendance', { token });
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const raw = data as { date: string; open: boolean; classes: { class_id: number; class_name: string; students: SubDashAttendanceRow[] }[] };
+  return {
+    date: raw.date,
+    open: raw.open,
+    classes: raw.classes.map(c => ({
+      class_id: c.class_id,
+      class_name: c.class_name,
+      students: c.students.map(s => toEntry({ ...s, id: s.student_id }, s.period, s.status ? { status: s.status, note: s.note } : undefined)),
+    })),
+  };
+}
+
+/** Store a sub's marks. Returns null if the plan is unknown, unshared or closed. */
+export async function submitSubDashAttendance(supabase: SupabaseClient, token: string, marks: AttendanceMark[]): Promise<number | null> {
+  const { data, error } = await supabase.rpc('submit_subdash_attendance', { token, records: marks });
+  if (error) throw new Error(error.message);
+  return (data as number) ?? null;
+}
+
+/** Sub-taken attendance not yet reviewed, one report per class-day (newest first). */
+export async function loadSubAttendanceReports(supabase: SupabaseClient): Promise<SubAttendanceReport[]> {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('date, class_id, status, note, classes(name), students(first_name, last_name, preferred_name)')
+    .eq('recorded_by', 'sub')
+    .is('reviewed_at', null)
+    .order('date', { ascending: false });
+  if (error) throw new Error(error.message);
+
+  const reports = new Map<string, SubAttendanceReport>();
+  for (const row of data || []) {
+    const cls = Array.isArray(row.classes) ? row.classes[0] : row.classes;
+    const student = Array.isArray(row.students) ? row.students[0] : row.students;
+    if (!student) continue;
+    const key = `${row.date}:${row.class_id}`;
+    let report = reports.get(key);
+    if (!report) {
+      report = {
+        date: row.date,
+        class_id: row.class_id,
+        class_name: (cls as { name: string } | null)?.name || 'Class',
+        counts: { present: 0, absent: 0, tardy: 0, unmarked: 0 },
+        absent: [],
+        tardy: [],
+        notes: [],
+      };
+      reports.set(key, report);
+    }
+    const name = studentDisplayName(student as Pick<Student, 'first_name' | 'last_name' | 'preferred_name'>);
+    const status = row.status as AttendanceStatus;
+    report.counts[status]++;
+    if (status === 'absent') report.absent.push(name);
+    if (status === 'tardy') report.tardy.push({ name, note: row.note });
+    else if (row.note) report.notes.push({ name, note: row.note });
+  }
+
+  return [...reports.values()].map(r => ({ ...r, absent: r.absent.sort() }));
+}
+
+/** Mark sub-taken attendance reviewed, optionally just for one date. */
+export async function markSubAttendanceReviewed(supabase: SupabaseClient, date?: string | null): Promise<void> {
+  let query = supabase
+    .from('attendance')
+    .update({ reviewed_at: new Date().toISOString() })
+    .eq('recorded_by', 'sub')
+    .is('reviewed_at', null);
+  if (date) query = query.eq('date', date);
+  const { error } = await query;
+  if (error) throw new Error(error.message);
+}
+
+/** Attendance for a date range as CSV for the office, one row per mark. */
+export async function attendanceCSV(
+  supabase: SupabaseClient,
+  start: string,
+  end: string,
+  classId?: number | null,
+): Promise<string> {
+  let query = supabase
+    .from('attendance')
+    .select('date, period, status, note, recorded_by, classes(name), students(student_number, first_name, last_name)')
+    .gte('date', start)
+    .lte('date', end)
+    .order('date', { ascending: true })
+    .order('class_id', { ascending: true });
+  if (classId) query = query.eq('class_id', classId);
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []).map(row => {
+    const cls = (Array.isArray(row.classes) ? row.classes[0] : row.classes) as { name: string } | null;
+    const student = (Array.isArray(row.students) ? row.students[0] : row.students) as
+      Pick<Student, 'student_number' | 'first_name' | 'last_name'> | null;
+    return {
+      sort: `${row.date}|${cls?.name ?? ''}|${row.period ?? ''}|${student?.last_name ?? ''}|${student?.first_name ?? ''}`,
+      cells: [
+        row.date,
+        cls?.name ?? '',
+        row.period,
+        student?.student_number,
+        student?.last_name,
+        student?.first_name,
+        ATTENDANCE_LABELS[row.status as AttendanceStatus],
+        row.note,
+        row.recorded_by === 'sub' ? 'Substitute' : 'Teacher',
+      ],
+    };
+  });
+  rows.sort((a, b) => a.sort.localeCompare(b.sort));
+
+  return toCSV(
+    ['Date', 'Class', 'Period', 'Student ID', 'Last Name', 'First Name', 'Status', 'Note', 'Taken By'],
+    rows.map(r => r.cells),
+  );
+}
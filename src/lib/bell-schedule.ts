@@ -0,0 +1,249 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BellPeriod, BellSchedule, ScheduleEntry } from './types';
+import { loadSchoolCalendar, NO_SCHOOL_EVENT_TYPES } from './school-calendar';
+
+// ============================================================
+// Bell schedules
+//
+// Which set of period times a date runs on. A calendar event whose type a
+// schedule claims (early_release → "Early Release") wins; otherwise schedules
+// in the A/B rotation alternate by school day from the rotation start date;
+// otherwise the default schedule applies. Classes are placed into numeric
+// periods from their free-text `periods` ("1st and 3rd").
+// ============================================================
+
+/** Settings key: the date that runs the first schedule of the A/B rotation. */
+export const ROTATION_START_SETTING = 'bell_rotation_start';
+
+export interface DayBellPeriod extends BellPeriod {
+  class_id: number | null;
+  class_name: string | null;
+}
+
+export interface DaySchedule {
+  date: string;
+  schedule: { id: number; name: string } | null;
+  /** Why the schedule applies (the calendar event title, "A/B rotation") or why there's no school */
+  reason: string | null;
+  periods: DayBellPeriod[];
+}
+
+export interface PeriodStatus<T extends Pick<BellPeriod, 'start' | 'end'> = DayBellPeriod> {
+  current: T | null;
+  next: T | null;
+  /** Minutes until the current period ends, or until the next one starts between periods */
+  minutes_left: number | null;
+}
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Period numbers from a class's free-text periods ("1st, 3rd" → [1, 3]). */
+export function parsePeriodsToNumbers(periodsStr: string | null, maxPeriod = 10): number[] {
+  if (!periodsStr) return [];
+  const nums: number[] = [];
+  // Split on common separators and extract individual numbers
+  const parts = periodsStr.split(/[,\s]+/);
+  for (const part of parts) {
+    // Extract leading digits from each part (e.g., "1st" -> 1, "3rd" -> 3)
+    const match = part.match(/^(\d+)/);
+    if (match) {
+      const n = parseInt(match[1]);
+      if (!isNaN(n) && n >= 1 && n <= maxPeriod) nums.push(n);
+    }
+  }
+  return [...new Set(nums)];
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** "13:05" → "1:05" */
+export function formatBellTime(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')}`;
+}
+
+export function formatBellRange(period: Pick<BellPeriod, 'start' | 'end'>): string {
+  return `${formatBellTime(period.start)}–${formatBellTime(period.end)}`;
+}
+
+/** Current local time as "HH:MM". */
+export function clockTime(date = new Date()): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/** What's happening at `time` ("HH:MM") given a day's periods, sorted by start. */
+export function periodAt<T extends Pick<BellPeriod, 'start' | 'end'>>(periods: T[], time: string): PeriodStatus<T> {
+  const now = toMinutes(time);
+  const current = periods.find(p => toMinutes(p.start) <= now && now < toMinutes(p.end)) || null;
+  const next = periods.find(p => toMinutes(p.start) > now) || null;
+  const minutes_left = current ? toMinutes(current.end) - now : next ? toMinutes(next.start) - now : null;
+  return { current, next, minutes_left };
+}
+
+/** Validate a periods array from a request body; sorted by start time. */
+function periodsFromBody(input: unknown): { periods: BellPeriod[]; error: string | null } {
+  if (!Array.isArray(input)) return { periods: [], error: 'periods must be an array' };
+  const periods: BellPeriod[] = [];
+  for (const raw of input) {
+    const p = (raw || {}) as Record<string, unknown>;
+    const period = String(p.period ?? '').trim();
+    const start = String(p.start ?? '');
+    const end = String(p.end ?? '');
+    if (!period) return { periods, error: 'Every period needs a name or number' };
+    if (!TIME_RE.test(start) || !TIME_RE.test(end)) return { periods, error: `Period ${period}: times must be HH:MM` };
+    if (end <= start) return { periods, error: `Period ${period}: end must be after start` };
+    periods.push({ period, label: String(p.label ?? '').trim() || null, start, end });
+  }
+  periods.sort((a, b) => a.start.localeCompare(b.start));
+  for (let i = 1; i < periods.length; i++) {
+    if (periods[i].start < periods[i - 1].end) {
+      return { periods, error: `Period ${periods[i].period} overlaps period ${periods[i - 1].period}` };
+    }
+  }
+  return { periods, error: null };
+}
+
+/** Validate and pick the editable bell schedule columns from a request body. */
+export function bellScheduleFieldsFromBody(
+  body: Record<string, unknown>,
+  partial = false,
+): { fields: Record<string, unknown>; error: string | null } {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined) fields.name = String(body.name).trim();
+  if (body.event_types !== undefined) {
+    fields.event_types = Array.isArray(body.event_types)
+      ? [...new Set(body.event_types.map(t => String(t).trim()).filter(Boolean))]
+      : [];
+  }
+  if (body.rotation_order !== undefined) {
+    const order = parseInt(String(body.rotation_order));
+    fields.rotation_order = body.rotation_order === null || isNaN(order) ? null : order;
+  }
+  if (body.is_default !== undefined) fields.is_default = Boolean(body.is_default);
+  if (body.periods !== undefined) {
+    const { periods, error } = periodsFromBody(body.periods);
+    if (error) return { fields, error };
+    fields.periods = periods;
+  }
+
+  if (!partial && !fields.name) return { fields, error: 'name is required' };
+  if (fields.name === '') return { fields, error: 'name cannot be empty' };
+  return { fields, error: null };
+}
+
+/** Which rotation schedule `date` runs, counting school days from the rotation start. */
+async function rotationFor(
+  supabase: SupabaseClient,
+  rotation: BellSchedule[],
+  date: string,
+): Promise<BellSchedule | null> {
+  if (rotation.length === 0) return null;
+  const { data } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', ROTATION_START_SETTING)
+    .maybeSingle();
+  const start = data?.value;
+  if (!start || date < start) return null;
+
+  const calendar = await loadSchoolCalendar(supabase, start, date);
+  if (!calendar.isSchoolDay(date)) return null;
+  let index = 0;
+  for (let d = calendar.addSchoolDays(start, 0); d < date; d = calendar.addSchoolDays(d, 1)) index++;
+  return rotation[index % rotation.length];
+}
+
+/**
+ * Resolve the bell schedule for a date, with classes placed in their periods.
+ * Returns null when no bell schedules are set up, so callers can fall back to
+ * whatever they showed before.
+ */
+export async function resolveDaySchedule(supabase: SupabaseClient, date: string): Promise<DaySchedule | null> {
+  const { data: scheduleRows } = await supabase
+    .from('bell_schedules')
+    .select('*')
+    .order('id', { ascending: true });
+  const schedules = (scheduleRows || []) as BellSchedule[];
+  if (schedules.length === 0) return null;
+
+  const closed = (reason: string): DaySchedule => ({ date, schedule: null, reason, periods: [] });
+
+  const weekday = new Date(date + 'T12:00:00').getDay();
+  if (weekday === 0 || weekday === 6) return closed('Weekend');
+
+  const { data: events } = await supabase
+    .from('calendar_events')
+    .select('event_type, title')
+    .eq('date', date);
+  const noSchool = (events || []).find(e => NO_SCHOOL_EVENT_TYPES.includes(e.event_type));
+  if (noSchool) return closed(noSchool.title || 'No school');
+
+  let chosen: BellSchedule | null = null;
+  let reason: string | null = null;
+  for (const e of events || []) {
+    const match = schedules.find(s => s.event_types.includes(e.event_type));
+    if (match) { chosen = match; reason = e.title || e.event_type; break; }
+  }
+  if (!chosen) {
+    const rotation = schedules
+      .filter(s => s.rotation_order !== null)
+      .sort((a, b) => (a.rotation_order ?? 0) - (b.rotation_order ?? 0));
+    chosen = await rotationFor(supabase, rotation, date);
+    if (chosen) reason = 'A/B rotation';
+  }
+  if (!chosen) {
+    chosen = schedules.find(s => s.is_default)
+      || schedules.find(s => s.event_types.length === 0 && s.rotation_order === null)
+      || null;
+  }
+  if (!chosen) return closed('No bell schedule for this day');
+
+  const { data: classes } = await supabase
+    .from('classes')
+    .select('id, name, periods')
+    .order('id', { ascending: true });
+  const classByPeriod = new Map<number, { id: number; name: string }>();
+  for (const c of classes || []) {
+    for (const n of parsePeriodsToNumbers(c.periods, 20)) {
+      if (!classByPeriod.has(n)) classByPeriod.set(n, { id: c.id, name: c.name });
+    }
+  }
+
+  const periods = chosen.periods.map(p => {
+    const n = parseInt(p.period);
+    const cls = /^\d+$/.test(p.period) ? classByPeriod.get(n) : undefined;
+    return { ...p, class_id: cls?.id ?? null, class_name: cls?.name ?? null };
+  });
+  return { date, schedule: { id: chosen.id, name: chosen.name }, reason, periods };
+}
+
+/**
+ * Sub-plan schedule rows for a resolved day. The sub profile's schedule still
+ * decides which class is in which period (it may differ from `classes.periods`);
+ * the times always come from the bell schedule.
+ */
+export function scheduleEntriesFor(day: DaySchedule, profileSchedule: ScheduleEntry[]): ScheduleEntry[] {
+  const profileByPeriod = new Map<string, ScheduleEntry>();
+  for (const entry of profileSchedule) {
+    const key = entry.period.match(/\d+/)?.[0] ?? entry.period.trim().toLowerCase();
+    if (!profileByPeriod.has(key)) profileByPeriod.set(key, entry);
+  }
+
+  return day.periods.map(p => {
+    const fromProfile = profileByPeriod.get(/^\d+$/.test(p.period) ? String(parseInt(p.period)) : p.period.toLowerCase());
+    const classId = fromProfile ? fromProfile.class_id : p.class_id;
+    const className = fromProfile ? fromProfile.class_name : p.class_name;
+    return {
+      period: p.label || (/^\d+$/.test(p.period) ? `Period ${p.period}` : p.period),
+      time: formatBellRange(p),
+      class_id: classId,
+      class_name: className || p.label || '',
+      start: p.start,
+      end: p.end,
+    };
+  });
+}
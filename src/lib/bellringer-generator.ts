@@ -1,5 +1,10 @@
-import { getAIConfig, getGeminiModel, generateWithRetry, normalizeActFields, buildContext, cleanJsonResponse } from './ai-service';
-import Anthropic from '@anthropic-ai/sdk';
+import { getAIConfigError, generateWithRetry, normalizeActFields, buildContext } from './ai-service';
+import { BELLRINGER_SCHEMA, JOURNAL_PROMPT_SCHEMA, IMAGE_PROMPT_SCHEMA, ACT_QUESTION_SCHEMA } from './ai-schemas';
+import { actSkillAreaLabel, classifyActSkill } from './act-mastery';
+import { bellringerFieldsFromBank, pickBankQuestion } from './act-bank';
+import { acceptPrompt, bankPromptText, findRepeat, loadRepeatGuard, pickFreshBankPrompt, type RepeatGuard } from './prompt-bank';
+import { createSupabaseServer } from './supabase-server';
+import { localDateStr } from './task-helpers';
 
 // ============================================================
 // SYSTEM PROMPTS — Ported verbatim from services/ai_service.py
@@ -128,28 +133,77 @@ EXAMPLE 4 (Subject-Verb Agreement):
 Generate ONE question in valid JSON. Do NOT wrap in markdown. Vary the skill from the examples above.`;
 
 // ============================================================
-// Helper to get model or null (for provider routing)
+// Generation functions
 // ============================================================
-async function getModelIfGemini() {
-  const config = await getAIConfig();
-  if (config.provider === 'gemini') {
-    const model = getGeminiModel(config.geminiApiKey, config.geminiModel);
-    if (!model) return { model: null, config, error: 'API key not configured. Go to Settings to add your API key.' };
-    return { model, config, error: null };
+
+/** File the question under a mastery skill area so student answers can be tracked by area. */
+function tagActSkillArea(result: Record<string, unknown>, focusArea: string | null) {
+  if (result.act_skill_category) return;
+  const area = classifyActSkill(result.act_skill as string) ?? focusArea;
+  if (area) result.act_skill_category = actSkillAreaLabel(area);
+}
+
+/**
+ * Swap in a question from the teacher's ACT bank. Returns false when the bank
+ * is empty or unavailable, leaving any AI question in place.
+ */
+async function applyBankQuestion(
+  result: Record<string, unknown>,
+  options: { date: string; focusArea: string | null; recentSkills: string[] },
+): Promise<boolean> {
+  try {
+    const supabase = await createSupabaseServer();
+    const question = await pickBankQuestion(supabase, options);
+    if (!question) return false;
+    Object.assign(result, bellringerFieldsFromBank(question));
+    return true;
+  } catch {
+    return false;
   }
-  // Anthropic — model is null, generateWithRetry handles it
-  if (!config.anthropicApiKey) {
-    return { model: null, config, error: 'Anthropic API key not configured. Go to Settings to add your API key.' };
+}
+
+// Fresh AI attempts before a repeated prompt is swapped for one from the bank
+const REPEAT_RETRIES = 2;
+
+/** The teacher's no-repeat window, or null if it can't be loaded (generation goes ahead unchecked). */
+async function loadGuard(date: string): Promise<RepeatGuard | null> {
+  try {
+    return await loadRepeatGuard(await createSupabaseServer(), date);
+  } catch {
+    return null;
   }
-  return { model: null, config, error: null };
 }
 
-// ============================================================
-// Generation functions
-// ============================================================
+/**
+ * Make sure a prompt isn't one students saw inside the no-repeat window (or a
+ * retired bank prompt): ask the AI again, steering away from the match, then
+ * fall back to an unused bank prompt of the same type. Mutates `prompt`.
+ */
+async function freshenPrompt(prompt: Record<string, string>, guard: RepeatGuard, notes: string, date: string) {
+  if (prompt.journal_type === 'image') return;
+  for (let attempt = 0; attempt < REPEAT_RETRIES; attempt++) {
+    const repeat = findRepeat(prompt.journal_prompt || '', guard);
+    if (!repeat) break;
+    const avoid = `Must be clearly different from this earlier prompt: "${repeat.text}"`;
+    const { result } = await requestSinglePrompt(prompt.journal_type, notes ? `${notes}\n${avoid}` : avoid);
+    if (result?.journal_prompt) prompt.journal_prompt = String(result.journal_prompt);
+  }
+  if (findRepeat(prompt.journal_prompt || '', guard)) {
+    const banked = pickFreshBankPrompt(guard, prompt.journal_type);
+    if (banked) prompt.journal_prompt = bankPromptText(banked);
+  }
+  acceptPrompt(guard, prompt.journal_prompt || '', prompt.journal_type, date);
+}
+
+export interface FullBellringerOptions {
+  /** 'bank' fills the ACT question from the teacher's bank (AI if the bank is empty) */
+  actSource?: 'ai' | 'bank';
+  /** Bellringer date, recorded as the bank question's last use */
+  date?: string;
+}
 
-export async function generateFullBellringer(teacherNotes = '', journalTypes?: string[]) {
-  const { model, error } = await getModelIfGemini();
+export async function generateFullBellringer(teacherNotes = '', journalTypes?: string[], options: FullBellringerOptions = {}) {
+  const error = await getAIConfigError();
   if (error) return { result: null, error };
 
   const context = await buildContext();
@@ -158,6 +212,10 @@ export async function generateFullBellringer(teacherNotes = '', journalTypes?: s
 Avoid these recent ACT skills: ${context.recentActSkills.slice(0, 5).join(', ') || 'None'}
 Vary from these recent journal types: ${context.recentJournalTypes.slice(0, 5).join(', ') || 'None'}`;
 
+  if (context.actFocusArea) {
+    userPrompt += `\nACT skill area for today: ${actSkillAreaLabel(context.actFocusArea)} (students have been missing these).`;
+  }
+
   if (journalTypes && journalTypes.length > 0) {
     userPrompt += `\nIMPORTANT: The 4 journal prompts MUST use these types in this order: ${journalTypes.join(', ')}. Generate exactly one prompt per type listed.`;
   }
@@ -167,15 +225,19 @@ Vary from these recent journal types: ${context.recentJournalTypes.slice(0, 5).j
   userPrompt += '\nKeep prompts SHORT. Respond with ONLY valid JSON.';
 
   try {
-    const result = await generateWithRetry(
-      model,
+    const result: Record<string, unknown> = await generateWithRetry(
       SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.9, maxOutputTokens: 2000 }
+      { feature: 'bellringer', temperature: 0.9, maxOutputTokens: 2000, schema: BELLRINGER_SCHEMA }
     );
 
     const prompts = result.prompts as Array<Record<string, string>> | undefined;
     if (prompts && prompts.length > 0) {
+      const date = options.date || context.today;
+      const guard = await loadGuard(date);
+      if (guard) {
+        for (const p of prompts) await freshenPrompt(p, guard, teacherNotes, date);
+      }
       const first = prompts[0];
       result.journal_type = first.journal_type;
       result.journal_prompt = first.journal_prompt;
@@ -183,6 +245,15 @@ Vary from these recent journal types: ${context.recentJournalTypes.slice(0, 5).j
     }
 
     normalizeActFields(result);
+    tagActSkillArea(result, context.actFocusArea);
+    if (options.actSource === 'bank') {
+      const fromBank = await applyBankQuestion(result, {
+        date: options.date || context.today,
+        focusArea: context.actFocusArea,
+        recentSkills: context.recentActSkills,
+      });
+      result.act_source = fromBank ? 'bank' : 'ai';
+    }
     return { result, error: null };
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -193,8 +264,8 @@ Vary from these recent journal types: ${context.recentJournalTypes.slice(0, 5).j
   }
 }
 
-export async function generateSinglePrompt(promptType?: string, notes = '') {
-  const { model, error } = await getModelIfGemini();
+async function requestSinglePrompt(promptType?: string, notes = '') {
+  const error = await getAIConfigError();
   if (error) return { result: null, error };
 
   let userPrompt = 'Generate ONE short journal prompt.';
@@ -204,10 +275,9 @@ export async function generateSinglePrompt(promptType?: string, notes = '') {
 
   try {
     const result = await generateWithRetry(
-      model,
       SINGLE_PROMPT_SYSTEM,
       userPrompt,
-      { temperature: 0.9, maxOutputTokens: 500 }
+      { feature: 'bellringer', temperature: 0.9, maxOutputTokens: 500, schema: JOURNAL_PROMPT_SCHEMA }
     );
     return { result, error: null };
   } catch (e) {
@@ -216,69 +286,42 @@ export async function generateSinglePrompt(promptType?: string, notes = '') {
   }
 }
 
-export async function generateFromImage(imageBase64: string, mimeType: string, notes = '') {
-  const aiConfig = await getAIConfig();
-
-  if (aiConfig.provider === 'anthropic') {
-    // Anthropic vision
-    const client = new Anthropic({ apiKey: aiConfig.anthropicApiKey });
-    if (!aiConfig.anthropicApiKey) {
-      return { result: null, error: 'Anthropic API key not configured. Go to Settings to add your API key.' };
-    }
-
-    let userPrompt = 'Write a SHORT journal prompt for this image. Do NOT describe the image. Just a brief writing instruction.';
-    if (notes) userPrompt += `\nTeacher idea: ${notes}`;
-    userPrompt += '\nRespond with ONLY valid JSON.';
-
-    try {
-      const mediaType = mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
-      const message = await client.messages.create({
-        model: aiConfig.anthropicModel,
-        max_tokens: 300,
-        temperature: 0.9,
-        system: IMAGE_PROMPT_SYSTEM,
-        messages: [{
-          role: 'user',
-          content: [
-            { type: 'image', source: { type: 'base64', media_type: mediaType, data: imageBase64 } },
-            { type: 'text', text: userPrompt },
-          ],
-        }],
-      });
-
-      const text = message.content.filter(b => b.type === 'text').map(b => b.text).join('');
-      const result = cleanJsonResponse(text);
-      result.journal_type = 'image';
-      return { result, error: null };
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      return { result: null, error: `Image prompt generation error: ${msg}` };
-    }
+/** One journal prompt, checked against the no-repeat window like full bellringers. */
+export async function generateSinglePrompt(promptType?: string, notes = '', date?: string) {
+  const { result, error } = await requestSinglePrompt(promptType, notes);
+  if (!result) return { result, error };
+
+  const day = date || localDateStr();
+  const guard = await loadGuard(day);
+  if (guard) {
+    const prompt = { journal_type: String(result.journal_type || promptType || ''), journal_prompt: String(result.journal_prompt || '') };
+    await freshenPrompt(prompt, guard, notes, day);
+    result.journal_prompt = prompt.journal_prompt;
   }
+  return { result, error: null };
+}
 
-  // Gemini path
-  const model = getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel);
-  if (!model) {
-    return { result: null, error: 'Gemini API key not configured. Go to Settings to add your API key.' };
-  }
+export async function generateFromImage(imageBase64: string, mimeType: string, notes = '') {
+  const error = await getAIConfigError();
+  if (error) return { result: null, error };
 
   let userPrompt = 'Write a SHORT journal prompt for this image. Do NOT describe the image. Just a brief writing instruction.';
   if (notes) userPrompt += `\nTeacher idea: ${notes}`;
   userPrompt += '\nRespond with ONLY valid JSON.';
 
   try {
-    const genResult = await model.generateContent({
-      contents: [{
-        role: 'user',
-        parts: [
-          { text: IMAGE_PROMPT_SYSTEM + '\n\n' + userPrompt },
-          { inlineData: { mimeType, data: imageBase64 } },
-        ],
-      }],
-      generationConfig: { temperature: 0.9, maxOutputTokens: 300 },
-    });
-
-    const result = cleanJsonResponse(genResult.response.text());
+    const result: Record<string, unknown> = await generateWithRetry(
+      IMAGE_PROMPT_SYSTEM,
+      userPrompt,
+      {
+        feature: 'bellringer',
+        temperature: 0.9,
+        maxOutputTokens: 300,
+        schema: IMAGE_PROMPT_SCHEMA,
+        attachments: [{ mimeType, data: imageBase64 }],
+      },
+      1
+    );
     result.journal_type = 'image';
     return { result, error: null };
   } catch (e) {
@@ -288,7 +331,7 @@ export async function generateFromImage(imageBase64: string, mimeType: string, n
 }
 
 export async function generateActQuestion(notes = '', skill = '') {
-  const { model, error } = await getModelIfGemini();
+  const error = await getAIConfigError();
   if (error) return { result: null, error };
 
   const context = await buildContext();
@@ -298,18 +341,21 @@ export async function generateActQuestion(notes = '', skill = '') {
     userPrompt += `\nSkill: ${skill} (generate a question specifically testing this skill)`;
   } else {
     userPrompt += `\nAvoid: ${context.recentActSkills.slice(0, 5).join(', ') || 'None'}`;
+    if (context.actFocusArea) {
+      userPrompt += `\nSkill area: ${actSkillAreaLabel(context.actFocusArea)} (students have been missing these)`;
+    }
   }
   if (notes) userPrompt += `\nTeacher idea: ${notes}`;
   userPrompt += '\nKeep it SHORT. Respond with ONLY valid JSON, no markdown.';
 
   try {
-    const result = await generateWithRetry(
-      model,
+    const result: Record<string, unknown> = await generateWithRetry(
       ACT_SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.9, maxOutputTokens: 800 }
+      { feature: 'bellringer', temperature: 0.9, maxOutputTokens: 800, schema: ACT_QUESTION_SCHEMA }
     );
     normalizeActFields(result);
+    tagActSkillArea(result, skill ? null : context.actFocusArea);
     return { result, error: null };
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -317,4 +363,19 @@ export async function generateActQuestion(notes = '', skill = '') {
   }
 }
 
+/**
+ * An ACT question from the teacher's bank instead of the AI, preferring
+ * `skill`'s area when given. Null result when the bank has nothing to offer.
+ */
+export async function pickBankActQuestion(skill = '', date?: string) {
+  const context = await buildContext();
+  const result: Record<string, unknown> = {};
+  const fromBank = await applyBankQuestion(result, {
+    date: date || context.today,
+    focusArea: skill ? classifyActSkill(skill) : context.actFocusArea,
+    recentSkills: context.recentActSkills,
+  });
+  return fromBank ? result : null;
+}
+
 export { IMAGE_PROMPT_SYSTEM };
@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BellringerResponse } from './types';
+import { newShortCode } from './display-remote';
+
+// ============================================================
+// Student bellringer responses
+//
+// The TV shows a short code (and QR) for the day's bellringer. Students open
+// /respond/<code>, pick their class period and send a journal paragraph
+// and/or an ACT letter without an account. The public side goes through
+// SECURITY DEFINER functions keyed by the code; the teacher reads the rows
+// directly under RLS.
+// ============================================================
+
+export type ActLetter = 'A' | 'B' | 'C' | 'D';
+
+export const ACT_LETTERS: ActLetter[] = ['A', 'B', 'C', 'D'];
+
+/** What a student sees for a code — never the ACT answer. */
+export interface ResponseBellringer {
+  date: string;
+  open: boolean;
+  prompts: { slot: number; journal_type: string | null; journal_prompt: string }[];
+  act_skill: string | null;
+  act_question: string | null;
+  act_choices: Record<ActLetter, string | null>;
+  classes: { id: number; name: string; periods: string | null }[];
+}
+
+export interface ResponseFields {
+  class_id: number | null;
+  period: string | null;
+  student_name: string;
+  act_choice: ActLetter | null;
+  journal_slot: number | null;
+  journal_text: string | null;
+}
+
+/** Responses from one class period, with the ACT tally. */
+export interface ResponseGroup {
+  key: string;
+  class_id: number | null;
+  period: string | null;
+  /** Latest answer per student (by roster match, else by name), so resubmitting changes a vote instead of adding one */
+  act_tally: Record<ActLetter, number>;
+  act_total: number;
+  journals: BellringerResponse[];
+}
+
+const MAX_JOURNAL_LENGTH = 4000;
+
+/** Validate a student submission. */
+export function responseFieldsFromBody(body: Record<string, unknown>): { fields: ResponseFields | null; error: string | null } {
+  const studentName = String(body.student_name || '').trim().replace(/\s+/g, ' ').slice(0, 80);
+  if (!studentName) return { fields: null, error: 'Enter your name' };
+
+  const choice = String(body.act_choice || '').trim().toUpperCase();
+  if (choice && !ACT_LETTERS.includes(choice as ActLetter)) return { fields: null, error: 'Pick A, B, C or D' };
+
+  const journal = String(body.journal_text || '').trim();
+  if (journal.length > MAX_JOURNAL_LENGTH) {
+    return { fields: null, error: `Journal entries are limited to ${MAX_JOURNAL_LENGTH} characters` };
+  }
+  if (!choice && !journal) return { fields: null, error: 'Write a journal entry or pick an answer' };
+
+  const classId = body.class_id == null || body.class_id === '' ? null : Number(body.class_id);
+  if (classId !== null && !Number.isInteger(classId)) return { fields: null, error: 'Invalid class' };
+  const slot = body.journal_slot == null || body.journal_slot === '' ? null : Number(body.journal_slot);
+
+  return {
+    fields: {
+      class_id: classId,
+      period: String(body.period || '').trim().slice(0, 20) || null,
+      student_name: studentName,
+      act_choice: (choice as ActLetter) || null,
+      journal_slot: journal && Number.isInteger(slot) ? slot : null,
+      journal_text: journal || null,
+    },
+    error: null,
+  };
+}
+
+/** Group responses by class period (in submission order) and tally ACT answers. */
+export function groupResponses(responses: BellringerResponse[]): ResponseGroup[] {
+  const groups = new Map<string, ResponseGroup & { latest: Map<string, ActLetter> }>();
+  for (const r of responses) {
+    const key = `${r.class_id ?? ''}|${r.period ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        class_id: r.class_id,
+        period: r.period,
+        act_tally: { A: 0, B: 0, C: 0, D: 0 },
+        act_total: 0,
+        journals: [],
+        latest: new Map(),
+      };
+      groups.set(key, group);
+    }
+    if (r.act_choice) group.latest.set(r.student_id ? `#${r.student_id}` : r.student_name.toLowerCase(), r.act_choice);
+    if (r.journal_text) group.journals.push(r);
+  }
+
+  return [...groups.values()].map(({ latest, ...group }) => {
+    for (const choice of latest.values()) group.act_tally[choice]++;
+    return { ...group, act_total: latest.size };
+  });
+}
+
+/** The bellringer's response code, creating one (or a fresh one when rotating). */
+export async function ensureResponseCode(
+  supabase: SupabaseClient,
+  bellringer: { id: number; response_code?: string | null },
+  rotate = false,
+): Promise<{ code: string | null; error: string | null }> {
+  if (bellringer.response_code && !rotate) return { code: bellringer.response_code, error: null };
+
+  // A collision with another bellringer's code just means trying another one
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = newShortCode();
+    const { error } = await supabase.from('bellringers').update({ response_code: code }).eq('id', bellringer.id);
+    if (!error) return { code, error: null };
+    if (error.code !== '23505') return { code: null, error: error.message };
+  }
+  return { code: null, error: 'Could not allocate a response code' };
+}
+
+export async function loadResponseBellringer(supabase: SupabaseClient, code: string): Promise<ResponseBellringer | null> {
+  const { data, error } = await supabase.rpc('bellringer_for_response', { code });
+  if (error) throw new Error(error.message);
+  return (data as ResponseBellringer) ?? null;
+}
+
+/** A submission the database refused: bad input (400) or too many responses (429). */
+export class ResponseRejectedError extends Error {
+  status: 400 | 429;
+
+  constructor(message: string, status: 400 | 429) {
+    super(message);
+    this.name = 'ResponseRejectedError';
+    this.status = status;
+  }
+}
+
+/** Store a submission. Returns null if the code is unknown or closed. */
+export async function submitResponse(supabase: SupabaseClient, code: string, fields: ResponseFields): Promise<number | null> {
+  const { data, error } = await supabase.rpc('submit_bellringer_response', {
+    code,
+    response_class_id: fields.class_id,
+    response_period: fields.period,
+    name: fields.student_name,
+    choice: fields.act_choice,
+    slot: fields.journal_slot,
+    entry: fields.journal_text,
+  });
+  if (error?.code === '22023') throw new ResponseRejectedError(error.message, 400);
+  if (error?.code === '54000') throw new ResponseRejectedError(error.message, 429);
+  if (error) throw new Error(error.message);
+  return (data as number) ?? null;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DAY_TYPES, ROTATION_TYPES, SLOTS_PER_DAY, planRotation, type RotationRule } from './bellringer-schedule';
+
+// Monday 2026-10-19 through Friday 2026-10-30
+const WEEK_ONE = ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23'];
+const WEEK_TWO = ['2026-10-26', '2026-10-27', '2026-10-28', '2026-10-29', '2026-10-30'];
+const BLANK_WEEK = Array.from({ length: 5 }, () => Array(SLOTS_PER_DAY).fill(''));
+
+const slotsInOrder = (plan: { types: string[] }[]) => plan.flatMap(d => d.types);
+
+describe('planRotation', () => {
+  it('uses the weekly template as-is when there are no rules', () => {
+    const plan = planRotation(WEEK_ONE, DEFAULT_DAY_TYPES, []);
+    expect(plan.map(d => d.types)).toEqual(DEFAULT_DAY_TYPES);
+    expect(plan.every(d => d.warnings.length === 0)).toBe(true);
+  });
+
+  it('puts a weekday rule type on every matching weekday', () => {
+    const rules: RotationRule[] = [{ kind: 'weekday', weekday: 1, journal_type: 'poetry' }];
+    const plan = planRotation([...WEEK_ONE, ...WEEK_TWO], DEFAULT_DAY_TYPES, rules);
+    const mondays = plan.filter(d => d.date === '2026-10-19' || d.date === '2026-10-26');
+    for (const day of mondays) {
+      expect(day.types).toContain('poetry');
+      expect(day.types).toHaveLength(SLOTS_PER_DAY);
+    }
+  });
+
+  it('never places a no-back-to-back type in consecutive slots, across days too', () => {
+    const template = Array.from({ length: 5 }, () => Array(SLOTS_PER_DAY).fill('quote'));
+    const rules: RotationRule[] = [{ kind: 'no_back_to_back', journal_type: 'quote' }];
+    const slots = slotsInOrder(planRotation([...WEEK_ONE, ...WEEK_TWO], template, rules));
+    for (let i = 1; i < slots.length; i++) {
+      expect(slots[i] === 'quote' && slots[i - 1] === 'quote').toBe(false);
+    }
+  });
+
+  it('fills random slots evenly with types the generator can produce', () => {
+    const plan = planRotation([...WEEK_ONE, ...WEEK_TWO], BLANK_WEEK, []);
+    const counts = new Map<string, number>();
+    for (const type of slotsInOrder(plan)) {
+      expect(ROTATION_TYPES).toContain(type);
+      counts.set(type, (counts.get(type) || 0) + 1);
+    }
+    const used = ROTATION_TYPES.map(t => counts.get(t) || 0);
+    expect(Math.max(...used) - Math.min(...used)).toBeLessThanOrEqual(1);
+    for (const day of plan) expect(new Set(day.types).size).toBe(SLOTS_PER_DAY);
+  });
+
+  it('keeps fixed days and counts them toward the back-to-back check', () => {
+    const fixed = { '2026-10-19': ['creative', 'reflective', 'emoji', 'quote'] };
+    const template = DEFAULT_DAY_TYPES.map(() => ['quote', 'list', 'debate', 'poetry']);
+    const rules: RotationRule[] = [{ kind: 'no_back_to_back', journal_type: 'quote' }];
+    const [monday, tuesday] = planRotation(WEEK_ONE.slice(0, 2), template, rules, fixed);
+    expect(monday.types).toEqual(fixed['2026-10-19']);
+    expect(tuesday.types[0]).not.toBe('quote');
+    expect(tuesday.types).toContain('quote');
+  });
+
+  it('warns instead of failing when weekday rules outnumber the slots', () => {
+    const types = ['list', 'debate', 'poetry', 'descriptive', 'would_you_rather'];
+    const rules: RotationRule[] = types.map(journal_type => ({ kind: 'weekday', weekday: 1, journal_type }));
+    const [monday] = planRotation(['2026-10-19'], DEFAULT_DAY_TYPES, rules);
+    expect(monday.types).toHaveLength(SLOTS_PER_DAY);
+    expect(monday.warnings).toEqual(['No slot left for Would You Rather every Monday']);
+  });
+});
@@ -0,0 +1,341 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { JOURNAL_TYPES, TYPE_LABELS } from './types';
+import { loadSchoolCalendar } from './school-calendar';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Bellringer scheduling
+//
+// Plans a grading period of bellringers at once. Each school day starts from
+// the weekly template the batch page saves (four prompt types per weekday),
+// then the teacher's rotation rules are applied: "emoji every Monday" puts a
+// type into that weekday, "never two quotes in a row" keeps a type out of
+// back-to-back slots (across day boundaries too). Random slots are filled
+// with whichever type has been used least so far, so the period stays varied.
+// Days that already have a bellringer keep the types they were given.
+// ============================================================
+
+export const SCHEDULE_RULES_SETTING = 'bellringer_schedule_rules';
+/** The batch page's weekly template: five weekdays of four types ('' = random) */
+export const WEEK_TYPES_SETTING = 'bellringer_batch_types';
+export const SLOTS_PER_DAY = 4;
+/** About a semester of school days; longer runs should be split */
+export const MAX_SCHEDULE_DAYS = 100;
+
+// Types the batch generator can fill on its own (visual prompts need an image)
+export const ROTATION_TYPES: string[] = JOURNAL_TYPES.filter(t => t !== 'image' && t !== 'emoji_story_starter');
+
+export const DEFAULT_DAY_TYPES: string[][] = [
+  ['creative', 'quote', 'reflective', 'emoji'],
+  ['critical_thinking', 'descriptive', 'would_you_rather', 'quote'],
+  ['poetry', 'creative', 'debate', 'reflective'],
+  ['list', 'emoji', 'critical_thinking', 'descriptive'],
+  ['would_you_rather', 'poetry', 'creative', 'quote'],
+];
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+export type RotationRule =
+  /** Every `weekday` (1 = Monday … 5 = Friday) includes `journal_type` */
+  | { kind: 'weekday'; weekday: number; journal_type: string }
+  /** `journal_type` never fills two slots in a row */
+  | { kind: 'no_back_to_back'; journal_type: string };
+
+export interface ScheduledBellringer {
+  id: number;
+  status: string;
+  is_approved: boolean;
+}
+
+export interface ScheduleDay {
+  date: string;
+  school_day: boolean;
+  /** Holiday/break title when the day is off */
+  closed_reason: string | null;
+  /** Planned types for school days; the saved prompt types when a bellringer exists */
+  types: string[];
+  bellringer: ScheduledBellringer | null;
+  /** Rules the plan couldn't satisfy on this day */
+  warnings: string[];
+}
+
+export interface SchedulePlan {
+  start: string;
+  end: string;
+  rules: RotationRule[];
+  days: ScheduleDay[];
+}
+
+interface Slot {
+  type: string;
+  /** Placed by a weekday rule or already generated; never moved */
+  locked: boolean;
+}
+
+/** Position of `type` in the rotation when it starts at the `offset`-th type. */
+function rotationOrder(type: string, offset: number): number {
+  const n = ROTATION_TYPES.length;
+  return (((ROTATION_TYPES.indexOf(type) - offset) % n) + n) % n;
+}
+
+function typeLabel(type: string): string {
+  return TYPE_LABELS[type] || type.replace(/_/g, ' ');
+}
+
+/** Rotation rules from a request body or the saved setting; bad entries are dropped. */
+export function parseScheduleRules(value: unknown): RotationRule[] {
+  let list = value;
+  if (typeof value === 'string') {
+    try { list = JSON.parse(value); } catch { return []; }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const rules: RotationRule[] = [];
+  const seen = new Set<string>();
+  for (const raw of list) {
+    if (!raw || typeof raw !== 'object') continue;
+    const r = raw as Record<string, unknown>;
+    const type = String(r.journal_type || '');
+    if (!ROTATION_TYPES.includes(type)) continue;
+
+    let rule: RotationRule | null = null;
+    if (r.kind === 'weekday') {
+      const weekday = Number(r.weekday);
+      if (Number.isInteger(weekday) && weekday >= 1 && weekday <= 5) rule = { kind: 'weekday', weekday, journal_type: type };
+    } else if (r.kind === 'no_back_to_back') {
+      rule = { kind: 'no_back_to_back', journal_type: type };
+    }
+    if (!rule) continue;
+
+    const key = JSON.stringify(rule);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    rules.push(rule);
+  }
+  return rules;
+}
+
+/** The batch page's weekly template, or the defaults when it isn't saved. */
+export function parseWeekTypes(value: unknown): string[][] {
+  try {
+    const saved = typeof value === 'string' ? JSON.parse(value) : value;
+    if (Array.isArray(saved) && saved.length === 5 && saved.every(Array.isArray)) {
+      return saved.map((day: unknown[]) => day.map(t => (ROTATION_TYPES.includes(String(t)) ? String(t) : '')));
+    }
+  } catch { /* use defaults */ }
+  return DEFAULT_DAY_TYPES;
+}
+
+export function describeRule(rule: RotationRule): string {
+  const type = typeLabel(rule.journal_type);
+  return rule.kind === 'weekday'
+    ? `${type} every ${WEEKDAY_NAMES[rule.weekday - 1]}`
+    : `never two ${type} slots in a row`;
+}
+
+/**
+ * Plan prompt types for each school day. `fixed` holds the types of days
+ * that already have a bellringer; they count toward rotation and back-to-back
+ * checks but aren't changed. Days the rules can't satisfy get a warning
+ * rather than failing the whole plan.
+ */
+export function planRotation(
+  dates: string[],
+  template: string[][],
+  rules: RotationRule[],
+  fixed: Record<string, string[]> = {},
+): { date: string; types: string[]; warnings: string[] }[] {
+  const noRepeat = new Set(rules.filter(r => r.kind === 'no_back_to_back').map(r => r.journal_type));
+  const uses = new Map<string, number>(ROTATION_TYPES.map(t => [t, 0]));
+  let previous: string | null = null;
+
+  const plan = [];
+  for (const [dayIndex, date] of dates.entries()) {
+    const warnings: string[] = [];
+
+    if (fixed[date]) {
+      for (const t of fixed[date]) uses.set(t, (uses.get(t) || 0) + 1);
+      plan.push({ date, types: fixed[date], warnings });
+      previous = fixed[date][fixed[date].length - 1] ?? previous;
+      continue;
+    }
+
+    const weekday = new Date(date + 'T12:00:00').getDay();
+    const base = template[weekday - 1] || [];
+    const slots: Slot[] = Array.from({ length: SLOTS_PER_DAY }, (_, i) => ({ type: base[i] || '', locked: false }));
+
+    // Weekday rules: keep the type where the template already has it, else take a Random slot
+    // (one not beside the same type when it can't repeat), else the last unclaimed one
+    for (const rule of rules) {
+      if (rule.kind !== 'weekday' || rule.weekday !== weekday) continue;
+      const type = rule.journal_type;
+      const besideSame = (i: number) => (i > 0 ? slots[i - 1].type : previous) === type || slots[i + 1]?.type === type;
+      const open = slots.filter(s => !s.type && !s.locked);
+      const existing = slots.find(s => s.type === type && !s.locked);
+      const target = existing
+        || (noRepeat.has(type) && open.find(s => !besideSame(slots.indexOf(s))))
+        || open[0]
+        || [...slots].reverse().find(s => !s.locked);
+      if (!target) {
+        warnings.push(`No slot left for ${describeRule(rule)}`);
+        continue;
+      }
+      target.type = type;
+      target.locked = true;
+    }
+
+    // Least used first; ties rotate with the day so fills don't always start from the same type
+    const freshType = (avoid: Set<string>): string => {
+      const pool = ROTATION_TYPES.filter(t => !avoid.has(t));
+      const candidates = pool.length > 0 ? pool : ROTATION_TYPES;
+      return [...candidates].sort((a, b) =>
+        (uses.get(a)! - uses.get(b)!)
+        || rotationOrder(a, dayIndex) - rotationOrder(b, dayIndex),
+      )[0];
+    };
+
+    for (let i = 0; i < slots.length; i++) {
+      const prev = i > 0 ? slots[i - 1].type : previous;
+      const slot = slots[i];
+      const repeats = (type: string) => type === prev && noRepeat.has(type);
+
+      if (!slot.type || (repeats(slot.type) && !slot.locked)) {
+        // Swap with a later unlocked slot before giving up the template's choice
+        const swap = slot.type
+          ? slots.findIndex((s, j) => j > i && !s.locked && s.type && !repeats(s.type) && s.type !== slot.type)
+          : -1;
+        if (swap >= 0) {
+          [slot.type, slots[swap].type] = [slots[swap].type, slot.type];
+        } else {
+          const today = new Set(slots.map(s => s.type).filter(Boolean));
+          if (prev && noRepeat.has(prev)) today.add(prev);
+          const next = slots[i + 1];
+          if (next?.locked && noRepeat.has(next.type)) today.add(next.type);
+          slot.type = freshType(today);
+        }
+      } else if (repeats(slot.type)) {
+        // Locked by a weekday rule: move the neighbour instead when it's ours to change
+        const before = slots[i - 1];
+        if (before && !before.locked) {
+          const avoid = new Set(slots.map(s => s.type).filter(Boolean));
+          if (i === 1 && previous) avoid.add(previous);
+          uses.set(before.type, uses.get(before.type)! - 1);
+          before.type = freshType(avoid);
+          uses.set(before.type, uses.get(before.type)! + 1);
+        } else {
+          warnings.push(`${typeLabel(slot.type)} follows ${typeLabel(slot.type)}`);
+        }
+      }
+      uses.set(slot.type, (uses.get(slot.type) || 0) + 1);
+    }
+
+    const types = slots.map(s => s.type);
+    plan.push({ date, types, warnings });
+    previous = types[types.length - 1];
+  }
+  return plan;
+}
+
+/** Saved rotation rules and weekly template for the signed-in teacher. */
+export async function loadScheduleSettings(supabase: SupabaseClient) {
+  const { data } = await supabase
+    .from('settings')
+    .select('key, value')
+    .in('key', [SCHEDULE_RULES_SETTING, WEEK_TYPES_SETTING]);
+  const value = (key: string) => (data || []).find(s => s.key === key)?.value;
+  return {
+    rules: parseScheduleRules(value(SCHEDULE_RULES_SETTING)),
+    template: parseWeekTypes(value(WEEK_TYPES_SETTING)),
+  };
+}
+
+/** Every date in [start, end], including weekends. */
+function datesBetween(start: string, end: string): string[] {
+  const dates: string[] = [];
+  const d = new Date(start + 'T12:00:00');
+  for (let date = start; date <= end; date = localDateStr(d)) {
+    dates.push(date);
+    d.setDate(d.getDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * The plan for [start, end]: weekdays only, with holidays and breaks from
+ * calendar_events marked as days off and each school day's bellringer (if
+ * one is saved) alongside its planned types.
+ */
+export async function loadSchedulePlan(supabase: SupabaseClient, start: string, end: string): Promise<SchedulePlan> {
+  const [{ rules, template }, calendar, { data: bellringers, error }] = await Promise.all([
+    loadScheduleSettings(supabase),
+    loadSchoolCalendar(supabase, start, end),
+    supabase
+      .from('bellringers')
+      .select('id, date, status, is_approved, journal_type, bellringer_prompts(slot, journal_type)')
+      .gte('date', start)
+      .lte('date', end)
+      .order('id', { ascending: true }),
+  ]);
+  if (error) throw new Error(error.message);
+
+  // The newest bellringer per date is the one the display and approve use
+  const byDate = new Map<string, NonNullable<typeof bellringers>[number]>();
+  for (const b of bellringers || []) byDate.set(b.date, b);
+
+  const weekdays = datesBetween(start, end).filter(date => {
+    const day = new Date(date + 'T12:00:00').getDay();
+    return day !== 0 && day !== 6;
+  });
+  const schoolDays = weekdays.filter(date => calendar.isSchoolDay(date));
+
+  const fixed: Record<string, string[]> = {};
+  for (const [date, b] of byDate) {
+    const prompts = [...(b.bellringer_prompts || [])].sort((x, y) => x.slot - y.slot);
+    const types = prompts.map(p => p.journal_type).filter(Boolean) as string[];
+    fixed[date] = types.length > 0 ? types : b.journal_type ? [b.journal_type] : [];
+  }
+
+  const planned = new Map(planRotation(schoolDays, template, rules, fixed).map(p => [p.date, p]));
+
+  return {
+    start,
+    end,
+    rules,
+    days: weekdays.map(date => {
+      const b = byDate.get(date);
+      const p = planned.get(date);
+      return {
+        date,
+        school_day: !!p,
+        closed_reason: p ? null : calendar.closedReason(date),
+        types: p?.types || [],
+        bellringer: b ? { id: b.id, status: b.status, is_approved: !!b.is_approved } : null,
+        warnings: p?.warnings || [],
+      };
+    }),
+  };
+}
+
+// Same wording the dashboard countdown matches ("End of 2nd Nine Weeks")
+const GRADING_END_PATTERN = /end\s+of\s+(\d+\w*\s+)?(nine\s*weeks|9\s*weeks|grading\s*period|marking\s*period|quarter)/i;
+const DEFAULT_PERIOD_WEEKS = 9;
+
+/**
+ * Where the current grading period ends: the saved grading_period_end when
+ * it's still ahead, else the next "End of … Nine Weeks" calendar event,
+ * else nine weeks out.
+ */
+export async function gradingPeriodEnd(supabase: SupabaseClient, from: string): Promise<{ date: string; title: string | null }> {
+  const [{ data: setting }, { data: events }] = await Promise.all([
+    supabase.from('settings').select('value').eq('key', 'grading_period_end').maybeSingle(),
+    supabase.from('calendar_events').select('date, title').gte('date', from).order('date', { ascending: true }),
+  ]);
+  if (setting?.value && setting.value >= from) return { date: setting.value, title: null };
+
+  const event = (events || []).find(e => GRADING_END_PATTERN.test(e.title || ''));
+  if (event) return { date: event.date, title: event.title };
+
+  const d = new Date(from + 'T12:00:00');
+  d.setDate(d.getDate() + DEFAULT_PERIOD_WEEKS * 7 - 1);
+  return { date: localDateStr(d), title: null };
+}
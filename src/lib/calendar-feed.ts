@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildICS, type IcsFeedEvent } from './ics';
+
+// ============================================================
+// ICS subscription feed
+//
+// Calendar apps poll /api/calendar/feed/<token> without a session. The
+// calendar_feed() database function checks the token and returns the owner's
+// calendar events, open task due dates and activities; this module turns that
+// into all-day VEVENTs — one per class per day for activities.
+// ============================================================
+
+interface FeedRows {
+  school_name: string | null;
+  events: { id: number; date: string; event_type: string; title: string | null; notes: string | null }[];
+  tasks: { id: number; due_date: string; text: string; class_id: number | null }[];
+  activities: {
+    id: number;
+    date: string;
+    title: string;
+    activity_type: string | null;
+    class_id: number;
+    class_name: string;
+    periods: string | null;
+  }[];
+}
+
+const UID_DOMAIN = 'teacher-dashboard';
+
+/** Fetch a feed by token. Returns null for an unknown or revoked token. */
+export async function loadCalendarFeed(
+  supabase: SupabaseClient,
+  token: string,
+  classId?: number,
+): Promise<{ result: string | null; error: string | null }> {
+  const { data, error } = await supabase.rpc('calendar_feed', { feed_token: token });
+  if (error) return { result: null, error: error.message };
+  if (!data) return { result: null, error: null };
+  return { result: buildFeed(data as FeedRows, classId), error: null };
+}
+
+function buildFeed(rows: FeedRows, classId?: number): string {
+  const events: IcsFeedEvent[] = [];
+
+  for (const e of rows.events) {
+    if (e.event_type === 'school_day') continue;
+    events.push({
+      uid: `event-${e.id}@${UID_DOMAIN}`,
+      date: e.date,
+      title: e.title || e.event_type,
+      description: e.notes,
+      category: e.event_type,
+    });
+  }
+
+  for (const t of rows.tasks) {
+    if (classId && t.class_id !== classId) continue;
+    events.push({ uid: `task-${t.id}@${UID_DOMAIN}`, date: t.due_date, title: `Due: ${t.text}`, category: 'task' });
+  }
+
+  // Group a class's activities for the day into a single entry
+  const byClassDay = new Map<string, FeedRows['activities']>();
+  for (const a of rows.activities) {
+    if (classId && a.class_id !== classId) continue;
+    const key = `${a.class_id}:${a.date}`;
+    if (!byClassDay.has(key)) byClassDay.set(key, []);
+    byClassDay.get(key)!.push(a);
+  }
+  for (const group of byClassDay.values()) {
+    const first = group[0];
+    const label = first.periods ? `${first.class_name} (${first.periods})` : first.class_name;
+    events.push({
+      uid: `activities-${first.class_id}-${first.date}@${UID_DOMAIN}`,
+      date: first.date,
+      title: `${label}: ${group.map(a => a.title).join('; ')}`,
+      description: group.map(a => `- ${a.title}${a.activity_type ? ` (${a.activity_type})` : ''}`).join('\n'),
+      category: first.class_name,
+    });
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date));
+  const name = rows.school_name ? `${rows.school_name} — Class Schedule` : 'Class Schedule';
+  return buildICS(name, events);
+}
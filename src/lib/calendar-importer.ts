@@ -0,0 +1,92 @@
+import { getAIConfigError, generateWithRetry } from './ai-service';
+import { CALENDAR_EVENTS_SCHEMA } from './ai-schemas';
+
+export interface ParsedCalendarEvent {
+  date: string;
+  event_type: string;
+  title: string;
+}
+
+const CALENDAR_PARSE_SYSTEM_PROMPT = `You are a school calendar parser. Parse this school calendar document and extract all dates with events.
+
+Return ONLY valid JSON as an array of events:
+[
+  {
+    "date": "YYYY-MM-DD",
+    "event_type": "holiday|break|testing|early_release|assembly|school_day|custom",
+    "title": "Event name"
+  }
+]
+
+RULES:
+- Extract EVERY date with a meaningful event
+- Use consistent date format: YYYY-MM-DD
+- Event types:
+  - "holiday" = no school (Christmas, Thanksgiving, MLK Day, etc.)
+  - "break" = multi-day no school (Spring Break, Fall Break, etc.)
+  - "testing" = standardized testing days (ACT, state tests, etc.)
+  - "early_release" = early dismissal / shortened days
+  - "assembly" = school assemblies, pep rallies, etc.
+  - "school_day" = regular school days if listed
+  - "custom" = anything else (parent-teacher conferences, etc.)
+- For date ranges (e.g., "Spring Break March 10-14"), create a separate entry for each date
+- For school year start/end dates, use the "school_day" type
+- If a year is ambiguous, assume the current or upcoming school year
+- Skip vague or unspecific entries that don't have concrete dates
+- Keep event titles concise but descriptive`;
+
+/** Extract dated events from a school calendar PDF (base64). */
+export async function parseCalendarPdf(
+  base64Data: string
+): Promise<{ result: ParsedCalendarEvent[] | null; error: string | null }> {
+  const aiError = await getAIConfigError();
+  if (aiError) {
+    return { result: null, error: aiError };
+  }
+
+  try {
+    const events = await generateWithRetry(
+      CALENDAR_PARSE_SYSTEM_PROMPT,
+      'Parse this school calendar PDF. Extract all dates with events. Return ONLY a valid JSON array.',
+      {
+        feature: 'import',
+        temperature: 0.2,
+        maxOutputTokens: 8000,
+        schema: CALENDAR_EVENTS_SCHEMA,
+        attachments: [{ mimeType: 'application/pdf', data: base64Data }],
+      }
+    );
+    const parsed = events
+      .filter((e) => isValidDate(e.date))
+      .map((e) => ({
+        date: e.date,
+        event_type: normalizeEventType(e.event_type),
+        title: e.title.trim(),
+      }));
+    return { result: parsed, error: null };
+  } catch (e) {
+    return { result: null, error: `Failed to parse calendar PDF: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function isValidDate(dateStr: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false;
+  const d = new Date(dateStr + 'T12:00:00');
+  return !isNaN(d.getTime());
+}
+
+export function normalizeEventType(type: string): string {
+  if (!type) return 'custom';
+  const lower = type.toLowerCase().trim();
+  if (lower === 'holiday' || lower.includes('holiday')) return 'holiday';
+  if (lower === 'break' || lower.includes('break')) return 'break';
+  if (lower === 'testing' || lower.includes('test')) return 'testing';
+  if (lower === 'early_release' || lower.includes('early')) return 'early_release';
+  if (lower === 'assembly' || lower.includes('assembl') || lower.includes('rally')) return 'assembly';
+  if (lower === 'school_day' || lower === 'school day') return 'school_day';
+  return 'custom';
+}
@@ -1,4 +1,5 @@
 import { supabase } from './db';
+import { getActiveUnits, type UnitWithStandards } from './units';
 
 interface ContextOptions {
   classId?: number;
@@ -93,6 +94,8 @@ interface FullContext {
   standardsGaps: StandardsGap[];
   upcomingEvents: CalendarEventRow[];
   recentLessonPlans: (LessonPlanRow & { activities: ActivityRow[] })[];
+  // Units covering the relevant week — the longer arc the recent plans belong to
+  activeUnits: UnitWithStandards[];
 }
 
 /**
@@ -139,6 +142,7 @@ export async function buildFullContext(options?: ContextOptions): Promise<FullCo
     recentPlansResult,
     allStandardsResult,
     recentActivityStandardsResult,
+    activeUnits,
   ] = await Promise.all([
     // School day number: count school_day events from start of year to today
     supabase
@@ -202,6 +206,9 @@ export async function buildFullContext(options?: ContextOptions): Promise<FullCo
       .from('activity_standards')
       .select('activity_id, standard_id, standards(id, code, description)')
       .order('created_at', { ascending: false }),
+
+    // Units active this week
+    getActiveUnits(supabase, mondayStr, fridayStr, options?.classId),
   ]);
 
   // Process school day number
@@ -368,5 +375,6 @@ export async function buildFullContext(options?: ContextOptions): Promise<FullCo
     standardsGaps,
     upcomingEvents,
     recentLessonPlans,
+    activeUnits,
   };
 }
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV, toCSV } from './csv';
+
+describe('parseCSV', () => {
+  it('keeps a quoted cell with line breaks in one row', () => {
+    const text = 'Name,Notes\r\n"Doe, Jane","line one\nline ""two"""\r\nBob,ok\n';
+    expect(parseCSV(text)).toEqual([
+      { name: 'Doe, Jane', notes: 'line one\nline "two"' },
+      { name: 'Bob', notes: 'ok' },
+    ]);
+  });
+
+  it('skips blank lines between rows', () => {
+    expect(parseCSV('Name\n\nAda\n\r\n\nGrace')).toEqual([{ name: 'Ada' }, { name: 'Grace' }]);
+  });
+
+  it('reads back what toCSV writes', () => {
+    const text = toCSV(['Name', 'Comment'], [['Lee', 'said "hi",\nthen left']]);
+    expect(parseCSV(text)).toEqual([{ name: 'Lee', comment: 'said "hi",\nthen left' }]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Minimal CSV helpers shared by the importers and exporters.
+ * Handles quoted fields with embedded commas, line breaks and escaped quotes ("").
+ */
+
+/** Parse CSV text into rows keyed by lowercased, trimmed header names. */
+export function parseCSV(text: string): Record<string, string>[] {
+  const records = parseCSVRecords(text.replace(/^\uFEFF/, ''))
+    // Blank lines come through as a single empty cell
+    .filter((values) => values.length > 1 || values[0].trim() !== '');
+  if (records.length < 2) return [];
+
+  const headers = records[0].map((h) => h.trim().toLowerCase());
+
+  return records.slice(1).map((values) => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (values[index] ?? '').trim();
+    });
+    return row;
+  });
+}
+
+/** Split CSV text into records of raw cell values. A newline inside quotes stays in its cell. */
+function parseCSVRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(current);
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      values.push(current);
+      records.push(values);
+      values = [];
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  records.push(values);
+  return records;
+}
+
+/**
+ * Quote a single CSV cell if it contains a comma, quote or newline. Text
+ * starting with = + - @ (or a tab/CR) gets a leading ' so spreadsheets show
+ * it instead of running it as a formula; numbers are left as numbers.
+ */
+export function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let str = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/** Serialize a header row plus data rows into CSV text. */
+export function toCSV(headers: string[], rows: Array<Array<string | number | null | undefined>>): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
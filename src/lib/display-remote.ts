@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DisplayMode } from './display-state';
+
+// ============================================================
+// Classroom display remote control
+//
+// A display (TV browser, no login) creates a session and shows its pairing
+// code. The teacher enters the code on the remote page, which ties the
+// session to them; from then on commands they send are queued in
+// display_commands and streamed to the display as server-sent events.
+// The display reads through SECURITY DEFINER functions keyed by its secret
+// token, so it never needs the teacher's session. Pairing codes expire after
+// 15 minutes and the display's stream renews them.
+// ============================================================
+
+export type DisplayCommand =
+  | { action: 'next' }
+  | { action: 'prev' }
+  | { action: 'page'; page: number }
+  | { action: 'reveal' }
+  | { action: 'date'; date: string }
+  | { action: 'message'; text: string; image_url: string | null }
+  | { action: 'clear_message' }
+  | { action: 'mode'; mode: DisplayMode };
+
+export interface DisplayPoll {
+  paired: boolean;
+  pair_code: string | null;
+  name: string | null;
+  latest_id: number;
+  commands: { id: number; payload: DisplayCommand }[];
+}
+
+/** Bellringer pages on the display: journal prompts, ACT question, ACT answer. */
+export const DISPLAY_PAGE_COUNT = 3;
+export const ANSWER_PAGE = 2;
+
+// No 0/O or 1/I/L — codes get read off a TV across the room
+const SHORT_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** Random code for typing in from the TV (display pairing, student responses). */
+export function newShortCode(length = 6): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, b => SHORT_CODE_ALPHABET[b % SHORT_CODE_ALPHABET.length]).join('');
+}
+
+export function normalizeShortCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** Validate a command from the remote. */
+export function commandFromBody(body: Record<string, unknown>): { command: DisplayCommand | null; error: string | null } {
+  switch (body.action) {
+    case 'next':
+    case 'prev':
+    case 'reveal':
+    case 'clear_message':
+      return { command: { action: body.action }, error: null };
+    case 'page': {
+      const page = Number(body.page);
+      if (!Number.isInteger(page) || page < 0 || page >= DISPLAY_PAGE_COUNT) return { command: null, error: 'Invalid page' };
+      return { command: { action: 'page', page }, error: null };
+    }
+    case 'date': {
+      const date = String(body.date || '');
+      if (date !== 'today' && !/^\d{4}-\d{2}-\d{2}$/.test(date)) return { command: null, error: 'date must be YYYY-MM-DD' };
+      return { command: { action: 'date', date }, error: null };
+    }
+    case 'message': {
+      const text = String(body.text || '').trim().slice(0, 500);
+      const imageUrl = String(body.image_url || '').trim();
+      if (!text && !imageUrl) return { command: null, error: 'Send some text or an image' };
+      if (imageUrl && !/^https?:\/\//i.test(imageUrl) && !imageUrl.startsWith('/')) {
+        return { command: null, error: 'Image must be a web address' };
+      }
+      return { command: { action: 'message', text, image_url: imageUrl || null }, error: null };
+    }
+    case 'mode':
+      if (body.mode !== 'bellringer' && body.mode !== 'agenda') return { command: null, error: 'Unknown display mode' };
+      return { command: { action: 'mode', mode: body.mode }, error: null };
+    default:
+      return { command: null, error: 'Unknown action' };
+  }
+}
+
+/** Start a new unpaired display session. */
+export async function createDisplaySession(
+  supabase: SupabaseClient,
+): Promise<{ result: { token: string; pair_code: string } | null; error: string | null; limited: boolean }> {
+  // A code collision just means trying another one
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const token = crypto.randomUUID().replace(/-/g, '');
+    const pairCode = newShortCode();
+    const { error } = await supabase.rpc('create_display_session', { session_token: token, code: pairCode });
+    if (!error) return { result: { token, pair_code: pairCode }, error: null, limited: false };
+    if (error.code !== '23505') return { result: null, error: error.message, limited: error.code === '54000' };
+  }
+  return { result: null, error: 'Could not allocate a pairing code', limited: false };
+}
+
+/** Give an unpaired display a fresh code once its old one has expired. */
+export async function renewDisplayPairCode(supabase: SupabaseClient, token: string): Promise<void> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { error } = await supabase.rpc('renew_display_pair_code', { session_token: token, code: newShortCode() });
+    if (!error) return;
+    if (error.code !== '23505') throw new Error(error.message);
+  }
+  throw new Error('Could not allocate a pairing code');
+}
+
+/** Session status plus commands after `afterId` (null: skip history). Null if the session is gone. */
+export async function pollDisplaySession(
+  supabase: SupabaseClient,
+  token: string,
+  afterId: number | null,
+): Promise<DisplayPoll | null> {
+  const { data, error } = await supabase.rpc('poll_display_session', { session_token: token, after_id: afterId });
+  if (error) throw new Error(error.message);
+  return (data as DisplayPoll) ?? null;
+}
@@ -0,0 +1,143 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================================
+// TV display run-of-show state
+//
+// What the classroom display is showing (bellringer pages or the agenda) and
+// the segment timer the teacher drives from their phone. Kept as one JSON
+// settings value; the display polls it and counts down locally.
+// ============================================================
+
+export type DisplayMode = 'bellringer' | 'agenda';
+
+export interface SegmentTimer {
+  label: string;
+  activity_id: number | null;
+  duration_seconds: number;
+  /** Seconds left when last started or paused */
+  remaining_seconds: number;
+  /** When the timer was (re)started; null while paused */
+  started_at: string | null;
+}
+
+export interface DisplayState {
+  mode: DisplayMode;
+  timer: SegmentTimer | null;
+}
+
+export type TimerAction =
+  | { action: 'mode'; mode: DisplayMode }
+  | { action: 'start'; label: string; seconds: number; activity_id?: number | null }
+  | { action: 'pause' }
+  | { action: 'resume' }
+  | { action: 'add'; seconds: number }
+  | { action: 'reset' }
+  | { action: 'clear' };
+
+export const DISPLAY_STATE_SETTING = 'display_state';
+
+const MAX_TIMER_SECONDS = 3 * 60 * 60;
+
+export const DEFAULT_DISPLAY_STATE: DisplayState = { mode: 'bellringer', timer: null };
+
+/** Seconds left on a timer at `nowMs` (never negative). */
+export function timerRemaining(timer: SegmentTimer, nowMs = Date.now()): number {
+  if (!timer.started_at) return timer.remaining_seconds;
+  const elapsed = (nowMs - new Date(timer.started_at).getTime()) / 1000;
+  return Math.max(0, Math.ceil(timer.remaining_seconds - elapsed));
+}
+
+/** "mm:ss", or "h:mm:ss" past an hour. */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const rest = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${rest}` : `${m}:${rest}`;
+}
+
+function clampSeconds(seconds: number): number {
+  return Math.min(MAX_TIMER_SECONDS, Math.max(0, Math.round(seconds || 0)));
+}
+
+/** Apply a remote-control action. Returns an error string for an invalid action. */
+export function applyTimerAction(
+  state: DisplayState,
+  input: TimerAction,
+  now = new Date(),
+): { state: DisplayState; error: string | null } {
+  const timer = state.timer;
+  switch (input.action) {
+    case 'mode':
+      if (input.mode !== 'bellringer' && input.mode !== 'agenda') return { state, error: 'Unknown display mode' };
+      return { state: { ...state, mode: input.mode }, error: null };
+    case 'start': {
+      const seconds = clampSeconds(input.seconds);
+      if (seconds === 0) return { state, error: 'Timer length must be at least one second' };
+      return {
+        state: {
+          // Starting a segment timer brings the agenda up on the TV
+          mode: 'agenda',
+          timer: {
+            label: String(input.label || 'Timer').trim().slice(0, 120) || 'Timer',
+            activity_id: input.activity_id ?? null,
+            duration_seconds: seconds,
+            remaining_seconds: seconds,
+            started_at: now.toISOString(),
+          },
+        },
+        error: null,
+      };
+    }
+    case 'pause':
+      if (!timer || !timer.started_at) return { state, error: null };
+      return { state: { ...state, timer: { ...timer, remaining_seconds: timerRemaining(timer, now.getTime()), started_at: null } }, error: null };
+    case 'resume':
+      if (!timer || timer.started_at) return { state, error: null };
+      return { state: { ...state, timer: { ...timer, started_at: now.toISOString() } }, error: null };
+    case 'add': {
+      if (!timer) return { state, error: 'No timer is running' };
+      const remaining = clampSeconds(timerRemaining(timer, now.getTime()) + input.seconds);
+      return {
+        state: {
+          ...state,
+          timer: {
+            ...timer,
+            duration_seconds: clampSeconds(timer.duration_seconds + input.seconds),
+            remaining_seconds: remaining,
+            started_at: timer.started_at ? now.toISOString() : null,
+          },
+        },
+        error: null,
+      };
+    }
+    case 'reset':
+      if (!timer) return { state, error: null };
+      return { state: { ...state, timer: { ...timer, remaining_seconds: timer.duration_seconds, started_at: null } }, error: null };
+    case 'clear':
+      return { state: { ...state, timer: null }, error: null };
+    default:
+      return { state, error: 'Unknown action' };
+  }
+}
+
+export async function loadDisplayState(supabase: SupabaseClient): Promise<DisplayState> {
+  const { data } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', DISPLAY_STATE_SETTING)
+    .maybeSingle();
+  if (!data?.value) return DEFAULT_DISPLAY_STATE;
+  try {
+    return { ...DEFAULT_DISPLAY_STATE, ...JSON.parse(data.value) };
+  } catch {
+    return DEFAULT_DISPLAY_STATE;
+  }
+}
+
+export async function saveDisplayState(supabase: SupabaseClient, userId: string, state: DisplayState): Promise<string | null> {
+  const { error } = await supabase
+    .from('settings')
+    .upsert({ key: DISPLAY_STATE_SETTING, user_id: userId, value: JSON.stringify(state) }, { onConflict: 'key,user_id' });
+  return error ? error.message : null;
+}
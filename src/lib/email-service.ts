@@ -58,6 +58,57 @@ export async function sendPrincipalNotification(
   }
 }
 
+/**
+ * Tell the front office the teacher is out and where the sub plans are.
+ */
+export async function sendSubPlanNotification(
+  shareUrl: string,
+  date: string,
+  teacherName: string,
+  officeEmail: string,
+  classLines: string[]
+): Promise<EmailResult> {
+  const apiKey = process.env.RESEND_API_KEY || '';
+
+  if (!apiKey) {
+    return {
+      success: false,
+      message: 'Email not sent: No Resend API key configured. Set RESEND_API_KEY in .env.local.',
+    };
+  }
+
+  const resend = new Resend(apiKey);
+  const dayDisplay = formatWeekOf(date);
+  const subject = `${teacherName} is out ${dayDisplay} - Sub Plans`;
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: 'Teacher Dashboard <onboarding@resend.dev>',
+      to: officeEmail,
+      subject,
+      html: buildSubPlanEmailHtml(shareUrl, teacherName, dayDisplay, classLines),
+    });
+
+    if (error) {
+      return {
+        success: false,
+        message: `Email failed: ${error.message}`,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Email sent to ${officeEmail}`,
+      id: data?.id,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      message: `Email failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    };
+  }
+}
+
 /**
  * Format a week_of string (e.g. "2026-02-23") into a short display like "Feb 23".
  */
@@ -73,6 +124,14 @@ function formatWeekOf(weekOf: string): string {
 /**
  * Build the HTML body for the principal notification email.
  */
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 function buildEmailHtml(
   publishUrl: string,
   weekOf: string,
@@ -96,7 +155,7 @@ function buildEmailHtml(
     <tr>
       <td style="padding:32px;">
         <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
-          <strong>${teacherName}</strong> has published their lesson plan for the
+          <strong>${escapeHtml(teacherName)}</strong> has published their lesson plan for the
           <strong>week of ${weekDisplay}</strong>.
         </p>
         <p style="margin:0 0 24px;color:#555;font-size:14px;line-height:1.6;">
@@ -117,3 +176,52 @@ function buildEmailHtml(
 </body>
 </html>`.trim();
 }
+
+/**
+ * Build the HTML body for the office's sub plan email.
+ */
+function buildSubPlanEmailHtml(
+  shareUrl: string,
+  teacherName: string,
+  dayDisplay: string,
+  classLines: string[]
+): string {
+  const classList = classLines.length > 0
+    ? `<ul style="margin:0 0 24px;padding-left:20px;color:#555;font-size:14px;line-height:1.6;">${classLines.map(l => `<li>${escapeHtml(l)}</li>`).join('')}</ul>`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:40px auto;background:#ffffff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+    <tr>
+      <td style="background:#1a1a2e;padding:28px 32px;">
+        <h1 style="margin:0;color:#4ECDC4;font-size:20px;font-weight:700;">Sub Plans Ready</h1>
+      </td>
+    </tr>
+    <tr>
+      <td style="padding:32px;">
+        <p style="margin:0 0 16px;color:#333;font-size:16px;line-height:1.6;">
+          <strong>${escapeHtml(teacherName)}</strong> is out on <strong>${dayDisplay}</strong>.
+          Please pass this link to the substitute.
+        </p>
+        ${classList}
+        <a href="${shareUrl}"
+           style="display:inline-block;background:#4ECDC4;color:#1a1a2e;padding:12px 28px;border-radius:8px;text-decoration:none;font-weight:600;font-size:14px;">
+          Open Sub Plans
+        </a>
+        <p style="margin:24px 0 0;color:#999;font-size:12px;line-height:1.5;">
+          The page has the schedule, each period's activity, printable handouts,
+          attendance and an end-of-day report. It does not require a login.
+        </p>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`.trim();
+}
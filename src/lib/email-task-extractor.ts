@@ -1,5 +1,6 @@
 import { supabase } from './db';
 import { generateWithRetry } from './ai-service';
+import { EXTRACTED_TASKS_SCHEMA } from './ai-schemas';
 import { stripHtml } from './ms-graph';
 import type { ClassInfo } from './types';
 
@@ -98,14 +99,13 @@ Return an empty tasks array if no actionable items are found. Set confidence to
 
     try {
       const result = await generateWithRetry(
-        null,
         systemPrompt,
         userPrompt,
-        { temperature: 0.3, maxOutputTokens: 1024 },
+        { feature: 'import', temperature: 0.3, maxOutputTokens: 1024, schema: EXTRACTED_TASKS_SCHEMA },
         1,
       );
 
-      const tasks = (result.tasks as ExtractedTask[]) || [];
+      const tasks: ExtractedTask[] = result.tasks;
 
       for (const task of tasks) {
         if (!task.text) continue;
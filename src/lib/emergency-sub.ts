@@ -0,0 +1,232 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateWithRetry, getAIConfigError } from './ai-service';
+import { EMERGENCY_SUB_SCHEMA } from './ai-schemas';
+import { generateMaterial, gradeLevelFor, type MaterialType } from './material-generator';
+import { generateSubDashSnapshot } from './subdash-generator';
+import { formatUnitContext, getActiveUnits } from './units';
+import type { ScheduleEntry } from './types';
+
+// ============================================================
+// "I'm out today" emergency sub plans
+//
+// The SubDash is shared and the office notified first, with whatever is
+// already planned. Then an 'emergency_sub' job (see job-handlers.ts) fills
+// every class on the profile schedule that has nothing planned for the date:
+// the AI picks one of the teacher's backup activities (or something close to
+// it) that fits the current unit and what the class has been doing, and says
+// whether it needs a printable handout. Picks are saved as real activities,
+// handouts are generated one class at a time, and the shared snapshot is
+// refreshed so the sub sees them; the teacher finds them in Materials later.
+// ============================================================
+
+export interface EmergencyClass {
+  id: number;
+  name: string;
+}
+
+/** One class the emergency flow filled in. */
+export interface EmergencyPick {
+  class_id: number;
+  class_name: string;
+  activity_id: number;
+  title: string;
+  description: string;
+  material_type: MaterialType | null;
+  /** Set when the handout could not be generated; the activity is still planned */
+  material_error: string | null;
+}
+
+const RECENT_DAYS = 14;
+const RECENT_PER_CLASS = 6;
+
+const EMERGENCY_SYSTEM_PROMPT = `You are an emergency sub plan assistant for a high school English and French teacher who is out unexpectedly today. A substitute who does not know the material will run each class.
+
+For each class listed, choose ONE activity for the whole period.
+
+Rules:
+- Prefer the teacher's own backup activities; adapt one to the current unit when possible
+- It must continue or review what the class has been doing, never introduce new material
+- The substitute must be able to run it from the description alone
+- Students work independently or in pairs; nothing that needs the teacher's judgment to grade live
+- Pick a material_type when students need a printed handout, otherwise null
+- Keep the title concise (3-8 words) and the description to 2-3 sentences written for the substitute
+
+Respond with ONLY valid JSON:
+{"classes": [{"class_id": 1, "title": "...", "description": "...", "activity_type": "lesson|discussion|writing|review|assessment", "material_type": "worksheet|reading_guide|writing_prompt|discussion_questions|flashcard_set|conjugation_drill|null"}]}`;
+
+function daysBefore(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T12:00:00`);
+  d.setDate(d.getDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Classes on the profile schedule (every class if none is set) with nothing planned for the date. */
+export async function findEmptyClasses(supabase: SupabaseClient, dateStr: string): Promise<EmergencyClass[]> {
+  const [{ data: profileRows }, { data: classRows }, { data: planned }] = await Promise.all([
+    supabase.from('classroom_profiles').select('key, value').eq('key', 'schedule_json'),
+    supabase.from('classes').select('id, name').order('id', { ascending: true }),
+    supabase.from('activities').select('class_id').eq('date', dateStr),
+  ]);
+
+  let schedule: ScheduleEntry[] = [];
+  const scheduleJson = profileRows?.[0]?.value;
+  if (scheduleJson) {
+    try { schedule = JSON.parse(scheduleJson); } catch { schedule = []; }
+  }
+  const scheduledIds = schedule.map(e => e.class_id).filter((id): id is number => !!id);
+  const plannedIds = new Set((planned ?? []).map(a => a.class_id as number));
+  return ((classRows ?? []) as EmergencyClass[]).filter(c =>
+    (scheduledIds.length === 0 || scheduledIds.includes(c.id)) && !plannedIds.has(c.id));
+}
+
+/**
+ * Pick and save one activity for each of the given classes. Handouts are
+ * left 'pending' for generateEmergencyHandout(). Throws when the AI can't be
+ * used, so the job shows why the classes were not planned.
+ */
+export async function pickEmergencyActivities(
+  supabase: SupabaseClient,
+  userId: string,
+  dateStr: string,
+  emptyClasses: EmergencyClass[],
+): Promise<EmergencyPick[]> {
+  if (emptyClasses.length === 0) return [];
+
+  const aiError = await getAIConfigError();
+  if (aiError) throw new Error(aiError);
+
+  const [{ data: profileRows }, { data: classRows }] = await Promise.all([
+    supabase.from('classroom_profiles').select('key, value'),
+    supabase.from('classes').select('id, name').order('id', { ascending: true }),
+  ]);
+  const profile: Record<string, string> = {};
+  for (const row of profileRows ?? []) profile[row.key] = row.value;
+
+  let backupActivities: string[] = [];
+  if (profile.default_backup_activities) {
+    try { backupActivities = JSON.parse(profile.default_backup_activities); } catch { backupActivities = []; }
+  }
+
+  const units = await getActiveUnits(supabase, dateStr, dateStr);
+  const { data: recent } = await supabase
+    .from('activities')
+    .select('class_id, date, title, description')
+    .in('class_id', emptyClasses.map(c => c.id))
+    .lt('date', dateStr)
+    .gte('date', daysBefore(dateStr, RECENT_DAYS))
+    .order('date', { ascending: false });
+
+  const classBlocks = emptyClasses.map(c => {
+    const lines = [`CLASS_ID ${c.id}: ${c.name}`];
+    const recentForClass = (recent ?? []).filter(a => a.class_id === c.id).slice(0, RECENT_PER_CLASS);
+    if (recentForClass.length > 0) {
+      lines.push('  Recent activities:');
+      for (const a of recentForClass) {
+        lines.push(`  - ${a.date}: ${a.title}${a.description ? ` — ${a.description}` : ''}`);
+      }
+    } else {
+      lines.push('  Recent activities: (none recorded)');
+    }
+    return lines.join('\n');
+  });
+
+  const unitContext = formatUnitContext(units, (classRows ?? []) as EmergencyClass[]);
+  const userPrompt = `Date: ${dateStr}
+
+${classBlocks.join('\n\n')}
+
+${unitContext ? `Current units:\n${unitContext}\n` : ''}
+Teacher's backup activities:
+${backupActivities.length > 0 ? backupActivities.map(a => `- ${a}`).join('\n') : '(none listed)'}
+${profile.standing_instructions ? `\nStanding instructions for subs:\n${profile.standing_instructions}\n` : ''}
+Choose one activity for each class above. Respond with ONLY valid JSON.`;
+
+  let result;
+  try {
+    result = await generateWithRetry(
+      EMERGENCY_SYSTEM_PROMPT,
+      userPrompt,
+      { feature: 'brainstorm', temperature: 0.6, maxOutputTokens: 2000, schema: EMERGENCY_SUB_SCHEMA }
+    );
+  } catch (e) {
+    throw new Error(`Could not plan the day: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const chosen = emptyClasses.flatMap(cls => {
+    const choice = result.classes.find(p => p.class_id === cls.id);
+    return choice ? [{ cls, choice }] : [];
+  });
+  if (chosen.length === 0) return [];
+
+  // One insert, so a job re-run never finds only some of the classes planned
+  const { data: inserted, error: insertError } = await supabase
+    .from('activities')
+    .insert(chosen.map(({ cls, choice }) => ({
+      class_id: cls.id,
+      date: dateStr,
+      title: choice.title.trim(),
+      description: choice.description.trim() || null,
+      activity_type: choice.activity_type || 'lesson',
+      material_status: choice.material_type ? 'pending' : 'not_needed',
+      sort_order: 0,
+      user_id: userId,
+    })))
+    .select('id, class_id');
+  if (insertError || !inserted) throw new Error(insertError?.message || 'Failed to save activities');
+
+  const picks: EmergencyPick[] = [];
+  for (const { cls, choice } of chosen) {
+    const activity = inserted.find(a => a.class_id === cls.id);
+    if (!activity) continue;
+    picks.push({
+      class_id: cls.id,
+      class_name: cls.name,
+      activity_id: activity.id,
+      title: choice.title.trim(),
+      description: choice.description.trim(),
+      material_type: choice.material_type,
+      material_error: null,
+    });
+  }
+
+  return picks;
+}
+
+/** Generate and attach the printable handout for one pick. */
+export async function generateEmergencyHandout(supabase: SupabaseClient, pick: EmergencyPick): Promise<void> {
+  if (!pick.material_type) return;
+  const { result: material, error } = await generateMaterial({
+    class_name: pick.class_name,
+    grade_level: gradeLevelFor(pick.class_name),
+    activity_title: pick.title,
+    description: pick.description || undefined,
+    material_type: pick.material_type,
+    teacher_notes: 'For a substitute teacher: students complete it independently, include clear directions.',
+  });
+  if (!material) throw new Error(error || 'Material generation failed');
+
+  const { error: updateError } = await supabase
+    .from('activities')
+    .update({ material_content: { ...material, material_type: pick.material_type }, material_status: 'ready' })
+    .eq('id', pick.activity_id);
+  if (updateError) throw new Error(updateError.message);
+}
+
+/** Rebuild an emergency plan's snapshot so the sub sees the activities and handouts added since it went out. */
+export async function refreshEmergencySnapshot(supabase: SupabaseClient, planId: number, origin: string): Promise<void> {
+  const { data: plan, error } = await supabase
+    .from('subdash_plans')
+    .select('date, custom_notes')
+    .eq('id', planId)
+    .single();
+  if (error || !plan) throw new Error(error?.message || 'Sub plan not found');
+
+  const { data: snapshot, error: genError } = await generateSubDashSnapshot(plan.date, plan.custom_notes, [], origin);
+  if (genError || !snapshot) throw new Error(genError || 'Failed to generate snapshot');
+
+  const { error: updateError } = await supabase
+    .from('subdash_plans')
+    .update({ snapshot, updated_at: new Date().toISOString() })
+    .eq('id', planId);
+  if (updateError) throw new Error(updateError.message);
+}
@@ -0,0 +1,246 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Grade, RosterStudent } from './types';
+import { sortRoster, toRosterStudent } from './roster-helpers';
+
+// Weighted grade categories. Each graded activity lands in one category
+// based on its activity_type.
+export const GRADE_CATEGORIES = ['assessment', 'project', 'homework', 'classwork'] as const;
+
+export type GradeCategoryName = (typeof GRADE_CATEGORIES)[number];
+
+export const GRADE_CATEGORY_LABELS: Record<GradeCategoryName, string> = {
+  assessment: 'Assessments',
+  project: 'Projects',
+  homework: 'Homework',
+  classwork: 'Classwork',
+};
+
+// Used until the teacher saves weights for a class
+export const DEFAULT_CATEGORY_WEIGHTS: Record<GradeCategoryName, number> = {
+  assessment: 50,
+  project: 25,
+  homework: 15,
+  classwork: 10,
+};
+
+export const DEFAULT_POINTS_POSSIBLE = 100;
+
+/** Map an activity_type onto its gradebook category. */
+export function categoryForActivityType(activityType: string): GradeCategoryName {
+  switch (activityType) {
+    case 'assessment':
+      return 'assessment';
+    case 'project':
+    case 'writing':
+    case 'lab':
+      return 'project';
+    case 'homework':
+      return 'homework';
+    default:
+      return 'classwork';
+  }
+}
+
+export interface GradebookActivity {
+  id: number;
+  title: string;
+  date: string | null;
+  activity_type: string;
+  points_possible: number | null;
+}
+
+export interface StudentAverage {
+  student_id: number;
+  /** Weighted percentage (0-100), or null if nothing graded yet */
+  average: number | null;
+  by_category: Partial<Record<GradeCategoryName, number | null>>;
+}
+
+export interface ActivityAverage {
+  activity_id: number;
+  /** Mean percentage across students with a counted score */
+  average: number | null;
+  graded_count: number;
+}
+
+type GradeLike = Pick<Grade, 'activity_id' | 'student_id' | 'score' | 'is_excused' | 'is_missing'>;
+
+function gradeKey(activityId: number, studentId: number): string {
+  return `${activityId}:${studentId}`;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Resolve per-class weights, falling back to the defaults for any
+ * category the teacher hasn't set.
+ */
+export function resolveWeights(saved: Array<{ category: string; weight: number }>): Record<GradeCategoryName, number> {
+  const weights = { ...DEFAULT_CATEGORY_WEIGHTS };
+  for (const row of saved) {
+    if ((GRADE_CATEGORIES as readonly string[]).includes(row.category)) {
+      weights[row.category as GradeCategoryName] = Number(row.weight);
+    }
+  }
+  return weights;
+}
+
+/**
+ * Compute each student's weighted average.
+ *
+ * Within a category, points earned are summed over points possible.
+ * Excused and blank (not yet entered) scores are left out; missing work
+ * counts as zero. Categories with nothing graded drop out and the
+ * remaining weights are re-normalized.
+ */
+export function computeStudentAverages(
+  studentIds: number[],
+  activities: GradebookActivity[],
+  grades: GradeLike[],
+  weights: Record<GradeCategoryName, number>
+): StudentAverage[] {
+  const gradeMap = new Map<string, GradeLike>();
+  for (const g of grades) gradeMap.set(gradeKey(g.activity_id, g.student_id), g);
+
+  return studentIds.map(studentId => {
+    const earned: Partial<Record<GradeCategoryName, number>> = {};
+    const possible: Partial<Record<GradeCategoryName, number>> = {};
+
+    for (const act of activities) {
+      const grade = gradeMap.get(gradeKey(act.id, studentId));
+      if (!grade || grade.is_excused) continue;
+      if (grade.score === null && !grade.is_missing) continue;
+
+      const category = categoryForActivityType(act.activity_type);
+      const points = Number(act.points_possible ?? DEFAULT_POINTS_POSSIBLE);
+      earned[category] = (earned[category] ?? 0) + (grade.is_missing ? 0 : Number(grade.score));
+      possible[category] = (possible[category] ?? 0) + points;
+    }
+
+    const byCategory: StudentAverage['by_category'] = {};
+    let weightedSum = 0;
+    let weightTotal = 0;
+    for (const category of GRADE_CATEGORIES) {
+      const pts = possible[category];
+      if (!pts) {
+        byCategory[category] = null;
+        continue;
+      }
+      const pct = ((earned[category] ?? 0) / pts) * 100;
+      byCategory[category] = round1(pct);
+      weightedSum += pct * weights[category];
+      weightTotal += weights[category];
+    }
+
+    return {
+      student_id: studentId,
+      average: weightTotal > 0 ? round1(weightedSum / weightTotal) : null,
+      by_category: byCategory,
+    };
+  });
+}
+
+/** Mean percentage per activity across students with a counted score. */
+export function computeActivityAverages(activities: GradebookActivity[], grades: GradeLike[]): ActivityAverage[] {
+  return activities.map(act => {
+    const points = Number(act.points_possible ?? DEFAULT_POINTS_POSSIBLE);
+    const counted = grades.filter(g =>
+      g.activity_id === act.id && !g.is_excused && (g.score !== null || g.is_missing)
+    );
+    if (counted.length === 0 || points <= 0) {
+      return { activity_id: act.id, average: null, graded_count: 0 };
+    }
+    const total = counted.reduce((sum, g) => sum + (g.is_missing ? 0 : Number(g.score)) / points, 0);
+    return {
+      activity_id: act.id,
+      average: round1((total / counted.length) * 100),
+      graded_count: counted.length,
+    };
+  });
+}
+
+/** Running class average: mean of every student's weighted average. */
+export function computeClassAverage(studentAverages: StudentAverage[]): number | null {
+  const values = studentAverages.map(s => s.average).filter((a): a is number => a !== null);
+  if (values.length === 0) return null;
+  return round1(values.reduce((a, b) => a + b, 0) / values.length);
+}
+
+/** Standard US letter grade for a percentage. */
+export function letterGrade(pct: number | null): string {
+  if (pct === null) return '';
+  if (pct >= 90) return 'A';
+  if (pct >= 80) return 'B';
+  if (pct >= 70) return 'C';
+  if (pct >= 60) return 'D';
+  return 'F';
+}
+
+export interface GradebookData {
+  activities: GradebookActivity[];
+  students: RosterStudent[];
+  grades: Grade[];
+  weights: Record<GradeCategoryName, number>;
+  student_averages: StudentAverage[];
+  activity_averages: ActivityAverage[];
+  class_average: number | null;
+}
+
+/**
+ * Load everything the gradebook grid needs for one class: graded
+ * activities in date order, the roster, scores, weights and averages.
+ */
+export async function loadGradebook(db: SupabaseClient, classId: number): Promise<GradebookData> {
+  const [activitiesRes, rosterRes, weightsRes] = await Promise.all([
+    db
+      .from('activities')
+      .select('id, title, date, activity_type, points_possible')
+      .eq('class_id', classId)
+      .eq('is_graded', true)
+      .order('date', { ascending: true, nullsFirst: false })
+      .order('sort_order', { ascending: true }),
+    db
+      .from('class_enrollments')
+      .select('id, period, students(*)')
+      .eq('class_id', classId),
+    db
+      .from('grade_categories')
+      .select('category, weight')
+      .eq('class_id', classId),
+  ]);
+
+  if (activitiesRes.error) throw activitiesRes.error;
+  if (rosterRes.error) throw rosterRes.error;
+
+  const activities = (activitiesRes.data ?? []) as GradebookActivity[];
+  const students = sortRoster(
+    (rosterRes.data ?? [])
+      .map(row => toRosterStudent(row))
+      .filter((s): s is RosterStudent => s !== null)
+  );
+
+  let grades: Grade[] = [];
+  if (activities.length > 0) {
+    const { data, error } = await db
+      .from('grades')
+      .select('*')
+      .in('activity_id', activities.map(a => a.id));
+    if (error) throw error;
+    grades = data ?? [];
+  }
+
+  const weights = resolveWeights(weightsRes.data ?? []);
+  const studentAverages = computeStudentAverages(students.map(s => s.id), activities, grades, weights);
+
+  return {
+    activities,
+    students,
+    grades,
+    weights,
+    student_averages: studentAverages,
+    activity_averages: computeActivityAverages(activities, grades),
+    class_average: computeClassAverage(studentAverages),
+  };
+}
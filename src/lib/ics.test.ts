@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseICS } from './ics';
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+const dates = (text: string, timeZone?: string) => parseICS(text, timeZone).map(e => e.date);
+
+describe('parseICS dates', () => {
+  it('treats an all-day DTEND as exclusive', () => {
+    const text = calendar(['SUMMARY:Winter Break', 'DTSTART;VALUE=DATE:20251222', 'DTEND;VALUE=DATE:20251225']);
+    expect(dates(text)).toEqual(['2025-12-22', '2025-12-23', '2025-12-24']);
+  });
+
+  it('moves UTC times into the school time zone before taking the date', () => {
+    // 6pm Central on Jan 20 is 00:00Z on Jan 21
+    const text = calendar(['SUMMARY:Board Meeting', 'DTSTART:20250121T000000Z', 'DTEND:20250121T020000Z']);
+    expect(dates(text, 'America/Chicago')).toEqual(['2025-01-20']);
+    expect(dates(text, 'UTC')).toEqual(['2025-01-21']);
+  });
+
+  it('keeps an evening UTC event on its own day west of Greenwich', () => {
+    const text = calendar(['SUMMARY:Concert', 'DTSTART:20250314T230000Z', 'DTEND:20250315T010000Z']);
+    expect(dates(text, 'America/Los_Angeles')).toEqual(['2025-03-14']);
+  });
+
+  it('does not count a timed DTEND at midnight as another day', () => {
+    const text = calendar(['SUMMARY:Late Rehearsal', 'DTSTART:20250120T190000', 'DTEND:20250121T000000']);
+    expect(dates(text)).toEqual(['2025-01-20']);
+  });
+
+  it('applies the midnight rule after converting a UTC DTEND', () => {
+    // Ends 00:00 Central on Jan 22 (06:00Z), so it covers the 20th and 21st only
+    const text = calendar(['SUMMARY:Testing Window', 'DTSTART:20250120T140000Z', 'DTEND:20250122T060000Z']);
+    expect(dates(text, 'America/Chicago')).toEqual(['2025-01-20', '2025-01-21']);
+  });
+
+  it('covers every date a timed event touches', () => {
+    const text = calendar(['SUMMARY:Field Trip', 'DTSTART:20250120T080000', 'DTEND:20250122T170000']);
+    expect(dates(text)).toEqual(['2025-01-20', '2025-01-21', '2025-01-22']);
+  });
+
+  it('drops cancelled events', () => {
+    const text = calendar(['SUMMARY:Assembly', 'STATUS:CANCELLED', 'DTSTART;VALUE=DATE:20250120']);
+    expect(parseICS(text)).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+import { normalizeEventType, type ParsedCalendarEvent } from './calendar-importer';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// iCalendar (RFC 5545) import and export
+//
+// District calendars publish VEVENTs that are mostly all-day and often span
+// several days (Winter Break, testing windows). The parser flattens those into
+// one calendar_events row per date. The exporter writes all-day events only —
+// the feed is a day planner, not a bell schedule.
+// ============================================================
+
+export interface ParsedIcsEvent extends ParsedCalendarEvent {
+  notes: string | null;
+}
+
+export interface IcsFeedEvent {
+  /** Stable across feed refreshes so calendar apps update rather than duplicate */
+  uid: string;
+  date: string;
+  title: string;
+  description?: string | null;
+  category?: string | null;
+}
+
+/** Longest range a single VEVENT may expand to (a whole summer break fits). */
+const MAX_EVENT_DAYS = 120;
+
+const NO_SCHOOL_PATTERN = /no school|school closed|closed|no classes|staff development|teacher work/i;
+
+// ------------------------------------------------------------
+// Parsing
+// ------------------------------------------------------------
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_m, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/** Split "NAME;PARAM=x;PARAM="a:b":value", ignoring colons inside quoted params. */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+interface IcsDate {
+  date: string;
+  allDay: boolean;
+  /** Timed and exactly 00:00:00, so as an end it covers none of `date` */
+  midnight: boolean;
+}
+
+/** Whether Intl knows this IANA zone name ("America/Chicago"). */
+export function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and HHMMSS of an instant in the school's zone (the server's when unset). */
+function zonedDateTime(instant: Date, timeZone?: string): { date: string; time: string } {
+  if (!timeZone) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return { date: localDateStr(instant), time: `${pad(instant.getHours())}${pad(instant.getMinutes())}${pad(instant.getSeconds())}` };
+  }
+  const parts: Record<string, string> = {};
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+  for (const part of format.formatToParts(instant)) parts[part.type] = part.value;
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}${parts.minute}${parts.second}` };
+}
+
+/**
+ * "20250120", "20250120T083000" or "20250120T230000Z" → { date: "2025-01-20", allDay, midnight }.
+ * UTC times are moved into the school's time zone first, so a 6pm Central
+ * event stored as 23:00Z stays on its own day. Floating and TZID times are
+ * taken as already local.
+ */
+function parseIcsDate(prop: IcsProperty, timeZone?: string): IcsDate | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '00', utc] = match;
+  if (hour === undefined || prop.params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}`, allDay: true, midnight: false };
+  }
+  if (!utc) {
+    return { date: `${year}-${month}-${day}`, allDay: false, midnight: `${hour}${minute}${second}` === '000000' };
+  }
+  const instant = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  const local = zonedDateTime(instant, timeZone);
+  return { date: local.date, allDay: false, midnight: local.time === '000000' };
+}
+
+function addDays(dateStr: string, days: number): string {
+  const d = new Date(dateStr + 'T12:00:00');
+  d.setDate(d.getDate() + days);
+  return localDateStr(d);
+}
+
+/** Whole days in a DURATION like P3D or P1W (time parts are ignored). */
+function durationDays(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+  if (!match) return 0;
+  return (parseInt(match[1] || '0') * 7) + parseInt(match[2] || '0');
+}
+
+function guessEventType(summary: string, categories: string): string {
+  const fromCategory = categories ? normalizeEventType(categories) : 'custom';
+  if (fromCategory !== 'custom') return fromCategory;
+  const fromSummary = normalizeEventType(summary);
+  if (fromSummary !== 'custom') return fromSummary;
+  return NO_SCHOOL_PATTERN.test(summary) ? 'holiday' : 'custom';
+}
+
+/**
+ * Parse an .ics file into one event per date. All-day DTEND is exclusive
+ * (RFC 5545), timed events cover every date they touch in `timeZone` (an
+ * end at midnight doesn't touch its day), and cancelled events are dropped.
+ * Recurrence rules aren't expanded — district calendars list each date
+ * explicitly.
+ */
+export function parseICS(text: string, timeZone?: string): ParsedIcsEvent[] {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) { current = {}; continue; }
+    if (/^END:VEVENT$/i.test(line.trim())) {
+      if (current) events.push(...expandEvent(current, timeZone));
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+    const prop = parseProperty(line);
+    // First occurrence wins; a VALARM inside the event can repeat DESCRIPTION
+    if (prop && !current[prop.name]) current[prop.name] = prop;
+  }
+  return events;
+}
+
+function expandEvent(props: Record<string, IcsProperty>, timeZone?: string): ParsedIcsEvent[] {
+  if (!props.DTSTART || props.STATUS?.value.toUpperCase() === 'CANCELLED') return [];
+  const start = parseIcsDate(props.DTSTART, timeZone);
+  if (!start) return [];
+
+  const title = unescapeText(props.SUMMARY?.value || '').trim();
+  const description = unescapeText(props.DESCRIPTION?.value || '').trim();
+  const categories = unescapeText(props.CATEGORIES?.value || '');
+
+  // Last date the event covers (inclusive)
+  let last = start.date;
+  const end = props.DTEND ? parseIcsDate(props.DTEND, timeZone) : null;
+  if (end) {
+    last = start.allDay || end.midnight ? addDays(end.date, -1) : end.date;
+  } else if (props.DURATION) {
+    const days = durationDays(props.DURATION.value);
+    if (days > 0) last = addDays(start.date, start.allDay ? days - 1 : days);
+  }
+  if (last < start.date) last = start.date;
+
+  const event_type = guessEventType(title, categories);
+  const dates: ParsedIcsEvent[] = [];
+  for (let date = start.date; date <= last && dates.length < MAX_EVENT_DAYS; date = addDays(date, 1)) {
+    dates.push({ date, event_type, title: title || 'Event', notes: description || null });
+  }
+  return dates;
+}
+
+// ------------------------------------------------------------
+// Export
+// ------------------------------------------------------------
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold to 75 octets per line, breaking between characters rather than inside a UTF-8 sequence. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts toward their 75
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsDate(dateStr: string): string {
+  return dateStr.replace(/-/g, '');
+}
+
+/** Build a VCALENDAR of all-day events. */
+export function buildICS(calendarName: string, events: IcsFeedEvent[], now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Teacher Dashboard//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(event.date, 1))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.category) lines.push(`CATEGORIES:${escapeText(event.category)}`);
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
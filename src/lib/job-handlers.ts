@@ -0,0 +1,402 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JobItem, JobType } from './types';
+import type { JobContext, JobHandler } from './jobs';
+import { generateFullBellringer } from './bellringer-generator';
+import { importLessonPlanDocx, matchClassName } from './lesson-plan-importer';
+import { parseCalendarPdf } from './calendar-importer';
+import {
+  generateEmergencyHandout,
+  pickEmergencyActivities,
+  refreshEmergencySnapshot,
+  type EmergencyClass,
+  type EmergencyPick,
+} from './emergency-sub';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Shared helpers
+// ============================================================
+
+/** Uploaded documents wait in storage until their import job finishes. */
+export const JOB_UPLOAD_BUCKET = 'uploads';
+
+async function downloadUpload(supabase: SupabaseClient, path: string): Promise<Buffer> {
+  const { data, error } = await supabase.storage.from(JOB_UPLOAD_BUCKET).download(path);
+  if (error || !data) throw new Error(`Uploaded file is no longer available: ${error?.message || path}`);
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/** Remove the upload once the job no longer needs it (kept on failure so Retry can re-read it). */
+async function finishImport(ctx: JobContext, path: string): Promise<Record<string, unknown> | null> {
+  const item = ctx.job.items[0];
+  if (item?.status === 'done') {
+    await ctx.supabase.storage.from(JOB_UPLOAD_BUCKET).remove([path]);
+  }
+  return item?.result ?? null;
+}
+
+// ============================================================
+// Batch bellringers — one item per weekday, or per scheduled date
+// ============================================================
+
+interface BellringerBatchPayload {
+  week_of: string;
+  /** Explicit dates (a scheduled grading period); overrides the week */
+  dates?: string[];
+  notes?: string;
+  skip_existing?: boolean;
+  day_types?: Record<string, string[]>;
+  /** 'bank' fills ACT questions from the teacher's ACT bank */
+  act_source?: 'ai' | 'bank';
+}
+
+function getWeekDates(mondayStr: string): string[] {
+  const d = new Date(mondayStr + 'T12:00:00');
+  const dates: string[] = [];
+  for (let i = 0; i < 5; i++) {
+    dates.push(localDateStr(d));
+    d.setDate(d.getDate() + 1);
+  }
+  return dates;
+}
+
+const bellringerBatch: JobHandler<BellringerBatchPayload> = {
+  plan(payload) {
+    const dates = payload.dates?.length ? payload.dates : getWeekDates(payload.week_of);
+    return dates.map(date => ({ key: date, label: date, status: 'pending' }));
+  },
+
+  async runItem({ supabase, userId, job }, item, payload) {
+    const dateStr = item.key;
+
+    // One made since the job was queued is this item's own, from a run that died before saving
+    const { data: existing, error: existingError } = await supabase
+      .from('bellringers')
+      .select('id, created_at')
+      .eq('date', dateStr)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (existingError) throw new Error(existingError.message);
+    if (existing && new Date(existing.created_at) >= new Date(job.created_at)) {
+      return { result: { bellringer_id: existing.id } };
+    }
+    if (existing && payload.skip_existing !== false) {
+      return { skipped: true, result: { bellringer_id: existing.id } };
+    }
+
+    const typesForDay = payload.day_types?.[dateStr] || undefined;
+    const { result, error } = await generateFullBellringer(payload.notes || '', typesForDay, {
+      actSource: payload.act_source,
+      date: dateStr,
+    });
+    if (error || !result) throw new Error(error || 'Generation failed');
+
+    const { data: bellringer, error: insertError } = await supabase
+      .from('bellringers')
+      .insert({
+        date: dateStr,
+        user_id: userId,
+        journal_type: result.journal_type as string || null,
+        journal_prompt: result.journal_prompt as string || null,
+        journal_subprompt: result.journal_subprompt as string || 'WRITE A PARAGRAPH IN YOUR JOURNAL!',
+        act_skill_category: result.act_skill_category as string || null,
+        act_skill: result.act_skill as string || null,
+        act_question: result.act_question as string || null,
+        act_choice_a: result.act_choice_a as string || null,
+        act_choice_b: result.act_choice_b as string || null,
+        act_choice_c: result.act_choice_c as string || null,
+        act_choice_d: result.act_choice_d as string || null,
+        act_correct_answer: result.act_correct_answer as string || null,
+        act_explanation: result.act_explanation as string || null,
+        act_rule: result.act_rule as string || null,
+        status: 'draft',
+        is_approved: false,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !bellringer) throw new Error(insertError?.message || 'Insert failed');
+
+    // Insert prompts if available
+    const prompts = result.prompts as Array<Record<string, string>> | undefined;
+    if (prompts && prompts.length > 0) {
+      const promptRows = prompts.map((p, i) => ({
+        bellringer_id: bellringer.id,
+        slot: i,
+        journal_type: p.journal_type || null,
+        journal_prompt: p.journal_prompt || null,
+        journal_subprompt: p.journal_subprompt || 'WRITE A PARAGRAPH IN YOUR JOURNAL!',
+      }));
+
+      const { error: promptError } = await supabase.from('bellringer_prompts').insert(promptRows);
+      if (promptError) {
+        // Without its prompts the bellringer is unusable; remove it so a retry starts clean
+        await supabase.from('bellringers').delete().eq('id', bellringer.id);
+        throw new Error(`Failed to save journal prompts: ${promptError.message}`);
+      }
+    }
+
+    return { result: { bellringer_id: bellringer.id } };
+  },
+
+  async finish({ job }, payload) {
+    const count = (status: string) => job.items.filter(i => i.status === status).length;
+    return {
+      week_of: payload.week_of,
+      summary: { generated: count('done'), skipped: count('skipped'), failed: count('failed') },
+    };
+  },
+};
+
+// ============================================================
+// Lesson plan .docx import — a single item
+// ============================================================
+
+interface LessonPlanImportPayload {
+  week_of: string;
+  file_path: string;
+  file_name: string;
+}
+
+const lessonPlanImport: JobHandler<LessonPlanImportPayload> = {
+  plan(payload) {
+    return [{ key: 'import', label: payload.file_name, status: 'pending' }];
+  },
+
+  async runItem({ supabase, userId, job }, _item, payload) {
+    const rawInput = `Imported from: ${payload.file_name}`;
+    // A plan saved by a run that died before the job was saved
+    const { data: earlier, error: earlierError } = await supabase
+      .from('lesson_plans')
+      .select('id')
+      .eq('week_of', payload.week_of)
+      .eq('raw_input', rawInput)
+      .gte('created_at', job.created_at)
+      .limit(1)
+      .maybeSingle();
+    if (earlierError) throw new Error(earlierError.message);
+    if (earlier) {
+      const { count } = await supabase
+        .from('activities')
+        .select('id', { count: 'exact', head: true })
+        .eq('lesson_plan_id', earlier.id);
+      return { result: { lesson_plan_id: earlier.id, activities_created: count ?? 0, days: [] } };
+    }
+
+    const buffer = await downloadUpload(supabase, payload.file_path);
+
+    const { result, error: parseError } = await importLessonPlanDocx(buffer, payload.week_of);
+    if (parseError || !result) throw new Error(parseError || 'Failed to parse lesson plan document');
+
+    // Fetch existing classes for name matching
+    const { data: classes, error: classError } = await supabase
+      .from('classes')
+      .select('id, name')
+      .order('id', { ascending: true });
+
+    if (classError) throw new Error(`Failed to fetch classes: ${classError.message}`);
+    if (!classes || classes.length === 0) throw new Error('No classes found. Create classes in Settings first.');
+
+    const { data: lessonPlan, error: planError } = await supabase
+      .from('lesson_plans')
+      .insert({
+        week_of: payload.week_of,
+        status: 'imported',
+        raw_input: rawInput,
+        brainstorm_history: [],
+        user_id: userId,
+      })
+      .select()
+      .single();
+
+    if (planError || !lessonPlan) {
+      throw new Error(`Failed to create lesson plan: ${planError?.message || 'Unknown error'}`);
+    }
+
+    // Match class names from parsed data to existing classes and create activities
+    const allActivities: Record<string, unknown>[] = [];
+    for (const day of result.days) {
+      for (let i = 0; i < day.activities.length; i++) {
+        const act = day.activities[i];
+        const matchedClass = matchClassName(act.class_name, classes);
+
+        if (!matchedClass) {
+          // Skip activities where we can't match a class
+          continue;
+        }
+
+        allActivities.push({
+          class_id: matchedClass.id,
+          lesson_plan_id: lessonPlan.id,
+          date: day.date || null,
+          title: act.title,
+          description: act.description || null,
+          activity_type: act.activity_type || 'lesson',
+          material_status: 'not_needed',
+          sort_order: i,
+          user_id: userId,
+        });
+      }
+    }
+
+    let activitiesCreated = 0;
+    if (allActivities.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('activities')
+        .insert(allActivities)
+        .select('id');
+
+      if (insertError) {
+        // Don't leave an empty plan behind for the re-run to find
+        await supabase.from('lesson_plans').delete().eq('id', lessonPlan.id);
+        throw new Error(`Failed to create activities: ${insertError.message}`);
+      }
+      activitiesCreated = inserted?.length || 0;
+    }
+
+    return {
+      result: {
+        lesson_plan_id: lessonPlan.id,
+        activities_created: activitiesCreated,
+        days: result.days,
+      },
+    };
+  },
+
+  finish(ctx, payload) {
+    return finishImport(ctx, payload.file_path);
+  },
+};
+
+// ============================================================
+// School calendar PDF import — a single item
+// ============================================================
+
+interface CalendarImportPayload {
+  file_path: string;
+  file_name: string;
+}
+
+const calendarImport: JobHandler<CalendarImportPayload> = {
+  plan(payload) {
+    return [{ key: 'import', label: payload.file_name, status: 'pending' }];
+  },
+
+  async runItem({ supabase, userId, job }, _item, payload) {
+    const notes = `Imported from: ${payload.file_name}`;
+    // The events go in as one insert, so any found here are all of a dead run's
+    const { data: earlier, error: earlierError } = await supabase
+      .from('calendar_events')
+      .select()
+      .eq('notes', notes)
+      .gte('created_at', job.created_at);
+    if (earlierError) throw new Error(earlierError.message);
+    if (earlier && earlier.length > 0) {
+      return { result: { events_created: earlier.length, events: earlier } };
+    }
+
+    const buffer = await downloadUpload(supabase, payload.file_path);
+
+    const { result: parsedEvents, error } = await parseCalendarPdf(buffer.toString('base64'));
+    if (error || !parsedEvents) throw new Error(error || 'Failed to parse calendar PDF');
+    if (parsedEvents.length === 0) throw new Error('No calendar events could be extracted from the PDF');
+
+    const eventsToInsert = parsedEvents.map((e) => ({
+      date: e.date,
+      event_type: e.event_type,
+      title: e.title,
+      notes,
+      user_id: userId,
+    }));
+
+    const { data: insertedEvents, error: insertError } = await supabase
+      .from('calendar_events')
+      .insert(eventsToInsert)
+      .select();
+
+    if (insertError) throw new Error(`Failed to save calendar events: ${insertError.message}`);
+
+    return {
+      result: {
+        events_created: insertedEvents?.length || 0,
+        events: insertedEvents || [],
+      },
+    };
+  },
+
+  finish(ctx, payload) {
+    return finishImport(ctx, payload.file_path);
+  },
+};
+
+// ============================================================
+// Emergency sub plan — pick activities, then one handout per class
+// ============================================================
+
+interface EmergencySubPayload {
+  date: string;
+  subdash_plan_id: number;
+  /** Base URL for links inside the refreshed snapshot */
+  origin: string;
+  /** Classes that had nothing planned when the SubDash went out */
+  classes: EmergencyClass[];
+}
+
+const EMERGENCY_PICK_KEY = 'pick';
+
+/** The picks saved by the job's first item (ctx.job holds the items as they were when the job was claimed). */
+async function savedEmergencyPicks(supabase: SupabaseClient, jobId: number): Promise<EmergencyPick[]> {
+  const { data } = await supabase.from('jobs').select('items').eq('id', jobId).single();
+  const pickItem = ((data?.items ?? []) as JobItem[]).find(i => i.key === EMERGENCY_PICK_KEY);
+  return (pickItem?.result?.picks as EmergencyPick[] | undefined) ?? [];
+}
+
+const emergencySub: JobHandler<EmergencySubPayload> = {
+  plan(payload) {
+    return [
+      { key: EMERGENCY_PICK_KEY, label: 'Backup activities', status: 'pending' },
+      ...payload.classes.map(c => ({ key: `handout:${c.id}`, label: c.name, status: 'pending' as const })),
+    ];
+  },
+
+  async runItem({ supabase, userId, job, checkpoint }, item, payload) {
+    if (item.key === EMERGENCY_PICK_KEY) {
+      // Picks checkpointed by a run that died while refreshing the snapshot are already saved
+      let picks = item.result?.picks as EmergencyPick[] | undefined;
+      if (!picks) {
+        picks = await pickEmergencyActivities(supabase, userId, payload.date, payload.classes);
+        await checkpoint(item, { picks });
+      }
+      await refreshEmergencySnapshot(supabase, payload.subdash_plan_id, payload.origin);
+      return { result: { picks } };
+    }
+
+    const pick = (await savedEmergencyPicks(supabase, job.id)).find(p => `handout:${p.class_id}` === item.key);
+    if (!pick?.material_type) return { skipped: true };
+    const { data: activity } = await supabase.from('activities').select('material_status').eq('id', pick.activity_id).maybeSingle();
+    if (activity?.material_status !== 'ready') await generateEmergencyHandout(supabase, pick);
+    return { result: { activity_id: pick.activity_id } };
+  },
+
+  async finish({ supabase, job }, payload) {
+    await refreshEmergencySnapshot(supabase, payload.subdash_plan_id, payload.origin);
+    const pickItem = job.items.find(i => i.key === EMERGENCY_PICK_KEY);
+    const picks = (pickItem?.result?.picks as EmergencyPick[] | undefined) ?? [];
+    return {
+      picks: picks.map(p => ({
+        ...p,
+        material_error: job.items.find(i => i.key === `handout:${p.class_id}`)?.error ?? null,
+      })),
+      plan_error: pickItem?.error ?? null,
+    };
+  },
+};
+
+// Handlers are stored loosely typed; each one reads its own payload shape
+export const JOB_HANDLERS = {
+  bellringer_batch: bellringerBatch,
+  lesson_plan_import: lessonPlanImport,
+  calendar_import: calendarImport,
+  emergency_sub: emergencySub,
+} as unknown as Record<JobType, JobHandler>;
@@ -0,0 +1,226 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job, JobItem, JobType } from './types';
+import { JOB_HANDLERS } from './job-handlers';
+
+// ============================================================
+// Background jobs
+//
+// Slow AI work (a week of bellringers, document imports) is stored as a
+// row in `jobs` and split into items. The worker runs items one at a time
+// and saves after each, so a timeout or restart only loses the item in
+// flight — the next status poll picks the job back up where it stopped.
+// That item runs again, so handlers check for the rows it already wrote.
+// ============================================================
+
+export interface JobContext {
+  supabase: SupabaseClient;
+  userId: string;
+  job: Job;
+  /** Save a running item's partial result; a re-run after a crash finds it on item.result. */
+  checkpoint(item: JobItem, result: Record<string, unknown>): Promise<void>;
+}
+
+export interface JobHandler<P = Record<string, unknown>> {
+  /** Split the payload into the items the worker will run. */
+  plan(payload: P): JobItem[];
+  /** Run one item. Throw to mark it failed; return skipped for no-op items. */
+  runItem(ctx: JobContext, item: JobItem, payload: P): Promise<{ skipped?: boolean; result?: Record<string, unknown> }>;
+  /** Build the job's result once every item has run (and clean up, e.g. uploaded files). */
+  finish?(ctx: JobContext, payload: P): Promise<Record<string, unknown> | null>;
+}
+
+/** A running job whose last save is older than this is assumed dead and re-queued. */
+const STALE_AFTER_MS = 5 * 60 * 1000;
+/** How often a running item touches updated_at, well inside STALE_AFTER_MS. */
+const HEARTBEAT_MS = 60 * 1000;
+
+export function jobProgress(job: Pick<Job, 'items'>) {
+  const count = (status: JobItem['status']) => job.items.filter(i => i.status === status).length;
+  const done = count('done');
+  const skipped = count('skipped');
+  const failed = count('failed');
+  return { total: job.items.length, finished: done + skipped + failed, done, skipped, failed };
+}
+
+export function isJobActive(job: Pick<Job, 'status'>) {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export function isJobStale(job: Pick<Job, 'status' | 'updated_at'>) {
+  return job.status === 'running' && Date.now() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+}
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  userId: string,
+  type: JobType,
+  payload: Record<string, unknown>,
+): Promise<Job> {
+  const items = JOB_HANDLERS[type].plan(payload);
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert({ user_id: userId, type, payload, items, status: 'queued' })
+    .select()
+    .single();
+  if (error || !data) throw new Error(`Failed to queue job: ${error?.message || 'Unknown error'}`);
+  return data as Job;
+}
+
+/** Ask a job to stop. Queued jobs stop now; running jobs stop after the current item. */
+export async function cancelJob(supabase: SupabaseClient, job: Job): Promise<Job> {
+  const update: Record<string, unknown> = { cancel_requested: true, updated_at: new Date().toISOString() };
+  if (job.status === 'queued') {
+    update.status = 'cancelled';
+    update.finished_at = new Date().toISOString();
+  }
+  const { data, error } = await supabase.from('jobs').update(update).eq('id', job.id).select().single();
+  if (error || !data) throw new Error(error?.message || 'Failed to cancel job');
+  return data as Job;
+}
+
+/** Re-queue a finished or cancelled job; only its failed and unfinished items run again. */
+export async function retryJob(supabase: SupabaseClient, job: Job): Promise<Job> {
+  const items = job.items.map(item =>
+    item.status === 'failed' || item.status === 'running'
+      ? { key: item.key, label: item.label, status: 'pending' as const }
+      : item
+  );
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      items,
+      status: 'queued',
+      error: null,
+      cancel_requested: false,
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .select()
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Failed to retry job');
+  return data as Job;
+}
+
+async function saveJob(supabase: SupabaseClient, jobId: number, update: Record<string, unknown>) {
+  await supabase
+    .from('jobs')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+}
+
+/** Claim a queued job and run its pending items. Returns false if someone else claimed it first. */
+export async function runJob(supabase: SupabaseClient, userId: string, jobId: number): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data: claimed } = await supabase
+    .from('jobs')
+    .update({ status: 'running', started_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select()
+    .maybeSingle();
+  if (!claimed) return false;
+
+  const job = claimed as Job;
+  const handler = JOB_HANDLERS[job.type];
+  const items = job.items.map(i => ({ ...i }));
+  const ctx: JobContext = {
+    supabase,
+    userId,
+    job,
+    async checkpoint(item, result) {
+      item.result = result;
+      await saveJob(supabase, job.id, { items });
+    },
+  };
+
+  await supabase.from('jobs').update({ attempts: job.attempts + 1 }).eq('id', job.id);
+
+  for (const item of items) {
+    // 'running' here means a previous worker died mid-item
+    if (item.status !== 'pending' && item.status !== 'running') continue;
+
+    // Cancellation is checked between items
+    const { data: current } = await supabase.from('jobs').select('cancel_requested').eq('id', job.id).single();
+    if (current?.cancel_requested) {
+      await saveJob(supabase, job.id, { status: 'cancelled', items, finished_at: new Date().toISOString() });
+      return true;
+    }
+
+    item.status = 'running';
+    await saveJob(supabase, job.id, { items });
+
+    // AI calls can outlast STALE_AFTER_MS; keep the job from looking dead meanwhile
+    const heartbeat = setInterval(() => { void saveJob(supabase, job.id, {}); }, HEARTBEAT_MS);
+    try {
+      const outcome = await handler.runItem(ctx, item, job.payload);
+      item.status = outcome.skipped ? 'skipped' : 'done';
+      item.result = outcome.result;
+      delete item.error;
+    } catch (e) {
+      item.status = 'failed';
+      item.error = e instanceof Error ? e.message : String(e);
+    } finally {
+      clearInterval(heartbeat);
+    }
+    await saveJob(supabase, job.id, { items });
+  }
+
+  const { failed, total } = jobProgress({ items });
+  let result: Record<string, unknown> | null = null;
+  let finishError: string | null = null;
+  try {
+    result = handler.finish ? await handler.finish({ ...ctx, job: { ...job, items } }, job.payload) : null;
+  } catch (e) {
+    finishError = e instanceof Error ? e.message : String(e);
+  }
+
+  const error = finishError
+    || (failed === 0 ? null : total === 1 ? items[0].error || 'Job failed' : `${failed} of ${total} items failed`);
+  await saveJob(supabase, job.id, {
+    status: error ? 'failed' : 'succeeded',
+    items,
+    result,
+    error,
+    finished_at: new Date().toISOString(),
+  });
+  return true;
+}
+
+// One worker loop per user per server process
+const activeWorkers = new Set<string>();
+
+/**
+ * Worker loop: run the user's queued jobs oldest-first until none are left,
+ * re-queuing any running job that stopped saving progress (server restart,
+ * request timeout). Safe to call repeatedly — a second call while the loop
+ * is running is a no-op.
+ */
+export async function processJobs(supabase: SupabaseClient, userId: string) {
+  if (activeWorkers.has(userId)) return;
+  activeWorkers.add(userId);
+  try {
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+    await supabase
+      .from('jobs')
+      .update({ status: 'queued' })
+      .eq('user_id', userId)
+      .eq('status', 'running')
+      .lt('updated_at', staleBefore);
+
+    while (true) {
+      const { data: next } = await supabase
+        .from('jobs')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('status', 'queued')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      if (!next) break;
+      if (!await runJob(supabase, userId, next.id)) break;
+    }
+  } finally {
+    activeWorkers.delete(userId);
+  }
+}
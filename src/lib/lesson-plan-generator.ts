@@ -1,4 +1,5 @@
-import { chatWithAI, generateWithRetry, getAIConfig, getGeminiModel, cleanJsonResponse } from './ai-service';
+import { streamChatWithAI, generateWithRetry, getAIConfigError } from './ai-service';
+import { LESSON_PLAN_SCHEMA } from './ai-schemas';
 
 interface ChatMessage {
   role: string;
@@ -9,6 +10,8 @@ interface BrainstormContext {
   classes?: { id: number; name: string; periods?: string | null }[];
   weekOf?: string;
   existingActivities?: string[];
+  /** Active curriculum units for the week (see formatUnitContext) */
+  unitContext?: string;
   teacherName?: string;
   schoolName?: string;
 }
@@ -62,10 +65,12 @@ Keep your responses concise but helpful. Ask follow-up questions to understand w
 /**
  * Send a brainstorm conversation to the AI and get the response.
  * Uses whichever provider is configured (Gemini or Anthropic).
+ * Pass onText to receive the reply as it streams in.
  */
 export async function brainstormWithAI(
   messages: ChatMessage[],
-  context: BrainstormContext
+  context: BrainstormContext,
+  options: { onText?: (delta: string) => void; signal?: AbortSignal } = {}
 ): Promise<{ response: string; error: string | null }> {
   // Build context string
   let contextStr = '';
@@ -79,13 +84,18 @@ export async function brainstormWithAI(
     contextStr += `\nAlready planned: ${context.existingActivities.join(', ')}`;
   }
 
-  const systemPrompt = buildBrainstormPrompt(context.teacherName, context.schoolName) + (contextStr ? `\n\nCurrent context:${contextStr}` : '');
+  let systemPrompt = buildBrainstormPrompt(context.teacherName, context.schoolName) + (contextStr ? `\n\nCurrent context:${contextStr}` : '');
+  if (context.unitContext) {
+    systemPrompt += `\n\nThis week falls inside the following curriculum unit(s). Build the week's activities toward these goals, texts and standards, and point out when a suggestion drifts away from them:\n${context.unitContext}`;
+  }
 
   try {
-    const text = await chatWithAI(systemPrompt, messages, {
+    const text = await streamChatWithAI(systemPrompt, messages, {
+      feature: 'brainstorm',
       temperature: 0.9,
       maxOutputTokens: 4000,
-    });
+      signal: options.signal,
+    }, options.onText);
     return { response: text, error: null };
   } catch (e) {
     const errMsg = e instanceof Error ? e.message : String(e);
@@ -124,17 +134,20 @@ RULES:
 - If the conversation is too vague to extract activities, return {"days": []} with empty days
 - Do NOT invent activities that weren't discussed
 - Do NOT include bellringers, journal prompts, warm-ups, or daily openers — those are handled by a separate system
-- Each day should have at least an activity per class if discussed`;
+- Each day should have at least an activity per class if discussed
+- If CURRENT UNITS are listed, keep titles and descriptions consistent with the unit (name the anchor text where relevant)`;
 
 /**
  * Parse a brainstorm conversation into structured activities per day per class.
  * If targetClassId is provided, only extract activities for that specific class.
+ * unitContext describes the week's active units (see formatUnitContext).
  */
 export async function parseBrainstormToActivities(
   brainstormHistory: ChatMessage[],
   classes: { id: number; name: string }[],
   weekDates: string[],
-  targetClassId?: number
+  targetClassId?: number,
+  unitContext?: string
 ): Promise<{ result: ParseResult | null; error: string | null }> {
   const classListStr = classes.map(c => `ID ${c.id}: ${c.name}`).join('\n');
   const datesStr = weekDates.join(', ');
@@ -153,37 +166,25 @@ export async function parseBrainstormToActivities(
 ${classListStr}
 
 WEEK DATES (Mon-Fri): ${datesStr}
-
+${unitContext ? `\nCURRENT UNITS:\n${unitContext}\n` : ''}
 BRAINSTORM CONVERSATION:
 ${conversationStr}
 
 Parse this conversation into structured activities. Output ONLY valid JSON.${classFilter}`;
 
   try {
-    const aiConfig = await getAIConfig();
-
-    // For Anthropic, generateWithRetry handles everything
-    // For Gemini, we pass the model
-    const model = aiConfig.provider === 'gemini'
-      ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-      : null;
-
-    if (aiConfig.provider === 'gemini' && !model) {
-      return { result: null, error: 'Gemini API key not configured. Go to Settings to add your API key.' };
+    const aiError = await getAIConfigError();
+    if (aiError) {
+      return { result: null, error: aiError };
     }
 
     const result = await generateWithRetry(
-      model,
       PARSE_SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.3, maxOutputTokens: 4000 }
+      { feature: 'brainstorm', temperature: 0.3, maxOutputTokens: 4000, schema: LESSON_PLAN_SCHEMA }
     );
 
-    const parsed = result as unknown as ParseResult;
-    if (!parsed.days || !Array.isArray(parsed.days)) {
-      throw new Error('Invalid response structure: missing days array');
-    }
-
+    const parsed = result as ParseResult;
     return { result: parsed, error: null };
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
@@ -1,5 +1,6 @@
 import mammoth from 'mammoth';
-import { getAIConfig, getGeminiModel, cleanJsonResponse, generateWithRetry } from './ai-service';
+import { getAIConfigError, generateWithRetry } from './ai-service';
+import { LESSON_PLAN_IMPORT_SCHEMA } from './ai-schemas';
 
 interface ParsedActivity {
   class_name: string;
@@ -94,33 +95,21 @@ ${extractedText}
 Parse this lesson plan document into structured activities. Output ONLY valid JSON.`;
 
   try {
-    const aiConfig = await getAIConfig();
-    const model = aiConfig.provider === 'gemini'
-      ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-      : null;
-
-    if (aiConfig.provider === 'gemini' && !model) {
-      return { result: null, error: 'Gemini API key not configured. Go to Settings to add your API key.' };
+    const aiError = await getAIConfigError();
+    if (aiError) {
+      return { result: null, error: aiError };
     }
 
     const result = await generateWithRetry(
-      model,
       IMPORT_SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.3, maxOutputTokens: 4000 }
+      { feature: 'import', temperature: 0.3, maxOutputTokens: 4000, schema: LESSON_PLAN_IMPORT_SCHEMA }
     );
 
-    const parsed = result as unknown as ImportResult;
-
-    if (!parsed.days || !Array.isArray(parsed.days)) {
-      throw new Error('Invalid response structure: missing days array');
-    }
+    const parsed = result as ImportResult;
 
     // Fill in missing dates
     for (const day of parsed.days) {
-      if (!day.activities || !Array.isArray(day.activities)) {
-        day.activities = [];
-      }
       if (!day.date && day.day_name) {
         const dayIndex = dayNames.findIndex(
           d => d.toLowerCase() === day.day_name.toLowerCase()
@@ -152,3 +141,52 @@ function getWeekDates(weekOf: string): string[] {
   }
   return dates;
 }
+
+/**
+ * Fuzzy-match a class name from the parsed document to an existing class in the DB.
+ */
+export function matchClassName(
+  parsedName: string,
+  classes: { id: number; name: string }[]
+): { id: number; name: string } | null {
+  if (!parsedName) return null;
+  const lower = parsedName.toLowerCase().trim();
+
+  const exact = classes.find(c => c.name.toLowerCase() === lower);
+  if (exact) return exact;
+
+  const contains = classes.find(c => lower.includes(c.name.toLowerCase()));
+  if (contains) return contains;
+
+  const reverseContains = classes.find(c => c.name.toLowerCase().includes(lower));
+  if (reverseContains) return reverseContains;
+
+  if (lower.includes('french') || lower.includes('fran')) {
+    const french = classes.find(c => c.name.toLowerCase().includes('french'));
+    if (french) return french;
+  }
+
+  if (lower.includes('english') || lower.includes('eng')) {
+    const numMatch = lower.match(/(\d+)/);
+    if (numMatch) {
+      const num = numMatch[1];
+      const specific = classes.find(c =>
+        c.name.toLowerCase().includes('english') && c.name.includes(num)
+      );
+      if (specific) return specific;
+    }
+    const english = classes.find(c => c.name.toLowerCase().includes('english'));
+    if (english) return english;
+  }
+
+  if (lower.includes('1st') || lower.includes('3rd') || lower.includes('5th')) {
+    const eng2 = classes.find(c => c.name.toLowerCase().includes('english-2'));
+    if (eng2) return eng2;
+  }
+  if (lower.includes('4th') || lower.includes('6th')) {
+    const eng1 = classes.find(c => c.name.toLowerCase().includes('english-1'));
+    if (eng1) return eng1;
+  }
+
+  return null;
+}
@@ -1,5 +1,6 @@
-import { getAIConfig, getGeminiModel, generateWithRetry } from './ai-service';
+import { getAIConfigError, generateWithRetry } from './ai-service';
 import { getPromptForType } from './material-prompts';
+import { materialSchema } from './ai-schemas';
 
 export type MaterialType =
   | 'quiz' | 'vocabulary_test' | 'grammar_test' | 'sentence_dressup'
@@ -17,6 +18,18 @@ interface MaterialContext {
   teacher_notes?: string;
 }
 
+/**
+ * Grade level for the material prompt from a class name. A grade (9-12) in
+ * the name wins; otherwise course number 1 ("English 1") is the 9th grade
+ * course and everything else is pitched at 10th.
+ */
+export function gradeLevelFor(className: string): string {
+  if (className.toLowerCase().includes('french')) return 'French 1';
+  const grade = className.match(/\b(9|10|11|12)(?:th)?\b/)?.[1];
+  if (grade) return `${grade}th`;
+  return /\b1\b/.test(className) ? '9th' : '10th';
+}
+
 const MATERIAL_SYSTEM_PROMPT = `You are a material generator for a high school English and French teacher at Stratford High School in Stratford, Oklahoma.
 
 Generate classroom materials based on the provided context. Output ONLY valid JSON, no markdown.
@@ -80,16 +93,9 @@ RULES:
 - NEVER include numbers/numbering in item text (question, prompt, etc.) — the UI adds numbering automatically`;
 
 export async function generateMaterial(context: MaterialContext) {
-  const aiConfig = await getAIConfig();
-  const model = aiConfig.provider === 'gemini'
-    ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-    : null;
-
-  if (aiConfig.provider === 'gemini' && !model) {
-    return { result: null, error: 'Gemini API key not configured. Go to Settings to add your API key.' };
-  }
-  if (aiConfig.provider === 'anthropic' && !aiConfig.anthropicApiKey) {
-    return { result: null, error: 'Anthropic API key not configured. Go to Settings to add your API key.' };
+  const aiError = await getAIConfigError();
+  if (aiError) {
+    return { result: null, error: aiError };
   }
 
   const isFrench = context.class_name.toLowerCase().includes('french');
@@ -108,10 +114,9 @@ Respond with ONLY valid JSON.`;
 
   try {
     const result = await generateWithRetry(
-      model,
       systemPrompt,
       userPrompt,
-      { temperature: 0.8, maxOutputTokens: 8000 }
+      { feature: 'material', temperature: 0.8, maxOutputTokens: 8000, schema: materialSchema(context.material_type) }
     );
     return { result, error: null };
   } catch (e) {
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LessonPlanComment } from './types';
+
+// ============================================================
+// Comments on published lesson plans
+//
+// Reviewers comment on /plans/<token> without an account. Every call goes
+// through a SECURITY DEFINER function keyed by the publish token, which
+// checks the link (expiry, revocation, PIN and lockout) first and returns
+// null when it is refused. Call these with shareClient() so the PIN travels.
+// ============================================================
+
+export type PlanComment = Omit<LessonPlanComment, 'lesson_plan_id'>;
+
+export async function loadPlanComments(client: SupabaseClient, token: string): Promise<PlanComment[] | null> {
+  const { data, error } = await client.rpc('published_plan_comments', { token });
+  if (error) throw new Error(error.message);
+  return (data as PlanComment[]) ?? null;
+}
+
+export async function addPlanComment(
+  client: SupabaseClient,
+  token: string,
+  comment: { author_name: string; author_role: string; content: string; parent_id: number | null },
+): Promise<PlanComment | null> {
+  const { data, error } = await client.rpc('add_plan_comment', {
+    token,
+    commenter: comment.author_name,
+    commenter_role: comment.author_role,
+    body: comment.content,
+    reply_to: comment.parent_id,
+  });
+  if (error) throw new Error(error.message);
+  return (data as PlanComment) ?? null;
+}
+
+export async function editPlanComment(
+  client: SupabaseClient,
+  token: string,
+  commentId: number,
+  content: string,
+): Promise<PlanComment | null> {
+  const { data, error } = await client.rpc('edit_plan_comment', { token, comment_id: commentId, body: content });
+  if (error) throw new Error(error.message);
+  return (data as PlanComment) ?? null;
+}
+
+/** Null when the link is refused, otherwise whether a comment was removed. */
+export async function deletePlanComment(client: SupabaseClient, token: string, commentId: number): Promise<boolean | null> {
+  const { data, error } = await client.rpc('delete_plan_comment', { token, comment_id: commentId });
+  if (error) throw new Error(error.message);
+  return (data as boolean) ?? null;
+}
@@ -0,0 +1,341 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { JOURNAL_TYPES, type JournalBankPrompt, type PromptBankEntry } from './types';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Journal prompt bank
+//
+// One place for every journal prompt the teacher might give: the starter set
+// from src/data/prompts-bank.json, prompts saved from past bellringers, and
+// ones written by hand. Prompts can be favorited (preferred when the bank
+// fills a slot) or retired (never given again). Similarity matching against
+// bellringer_prompts gives each prompt a usage history, and lets the
+// generator replace anything students saw within the last few months.
+// ============================================================
+
+export const PROMPT_REPEAT_SETTING = 'prompt_repeat_months';
+export const DEFAULT_REPEAT_MONTHS = 6;
+export const REPEAT_MONTH_OPTIONS = [3, 6, 9, 12];
+
+// Dice score at or above this counts as the same prompt reworded
+export const SIMILAR_THRESHOLD = 0.6;
+
+// Starter-bank types that aren't journal types; anything else unknown is creative
+const TYPE_ALIASES: Record<string, string> = { visual: 'creative' };
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'how', 'if', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'this', 'to', 'was', 'what', 'when', 'which', 'who',
+  'why', 'with', 'you', 'your', 'about', 'would', 'could', 'one', 'have', 'has', 'write', 'paragraph', 'journal',
+]);
+
+export interface GivenPrompt {
+  bellringer_id: number;
+  date: string;
+  journal_type: string | null;
+  text: string;
+}
+
+export interface PromptHistoryEntry {
+  bellringer_id: number;
+  date: string;
+}
+
+/** What the generator checks new prompts against. */
+export interface RepeatGuard {
+  months: number;
+  /** Prompts given since the cutoff (plus any accepted during this run) */
+  given: GivenPrompt[];
+  /** Retired bank prompts, never to be given again */
+  retired: JournalBankPrompt[];
+  /** Active bank prompts, for filling a slot when the AI keeps repeating itself */
+  bank: JournalBankPrompt[];
+}
+
+export function journalTypeFor(type: string | null | undefined): string {
+  const t = (type || '').trim();
+  if ((JOURNAL_TYPES as readonly string[]).includes(t)) return t;
+  return TYPE_ALIASES[t] || 'creative';
+}
+
+/** The text a bank prompt puts on the board (quotes carry their author and question). */
+export function bankPromptText(p: Pick<JournalBankPrompt, 'prompt' | 'attribution' | 'writing_prompt'>): string {
+  const quote = p.attribution ? `${p.prompt} - ${p.attribution}` : p.prompt;
+  return [quote, p.writing_prompt].filter(Boolean).join(' ');
+}
+
+export function bankFieldsFromEntry(entry: PromptBankEntry) {
+  return {
+    journal_type: journalTypeFor(entry.type),
+    prompt: entry.prompt.trim(),
+    attribution: entry.source?.trim() || null,
+    writing_prompt: entry.writing_prompt?.trim() || null,
+    source: 'seed' as const,
+  };
+}
+
+function plainText(text: string): string {
+  return text.replace(/<[^>]+>/g, ' ').replace(/&[a-z]+;/g, ' ').toLowerCase();
+}
+
+/** Content words, lightly stemmed, stopwords dropped. */
+function wordTokens(text: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of plainText(text).replace(/['’]/g, '').match(/[a-z0-9]+/g) || []) {
+    if (STOPWORDS.has(word) || word.length < 2) continue;
+    tokens.add(word.length > 3 ? word.replace(/(ing|ed|es|s)$/, '') : word);
+  }
+  return tokens;
+}
+
+function emojiTokens(text: string): Set<string> {
+  return new Set(plainText(text).match(/\p{Extended_Pictographic}/gu) || []);
+}
+
+/** A prompt tokenized once, for comparing against many others. */
+interface PromptTokens {
+  /** Trimmed lowercase text, compared exactly when there are no content words */
+  plain: string;
+  words: Set<string>;
+  emoji: Set<string>;
+}
+
+function promptTokens(text: string): PromptTokens {
+  return { plain: text.trim().toLowerCase(), words: wordTokens(text), emoji: emojiTokens(text) };
+}
+
+// Given and bank prompt objects live for one request; tokenize each only once
+const tokenCache = new WeakMap<object, PromptTokens>();
+
+function cachedTokens(owner: object, text: string): PromptTokens {
+  let tokens = tokenCache.get(owner);
+  if (!tokens) {
+    tokens = promptTokens(text);
+    tokenCache.set(owner, tokens);
+  }
+  return tokens;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * 0–1 overlap between two prompts (Dice coefficient over content words).
+ * Emoji prompts all share the same instruction, so when both have emoji
+ * it's the emoji that decide.
+ */
+export function promptSimilarity(a: string, b: string): number {
+  return tokenSimilarity(promptTokens(a), promptTokens(b));
+}
+
+function tokenSimilarity(a: PromptTokens, b: PromptTokens): number {
+  if (a.emoji.size > 0 && b.emoji.size > 0) return dice(a.emoji, b.emoji);
+  if (a.words.size === 0 || b.words.size === 0) return a.plain === b.plain ? 1 : 0;
+  return dice(a.words, b.words);
+}
+
+export function isSimilarPrompt(a: string, b: string): boolean {
+  return promptSimilarity(a, b) >= SIMILAR_THRESHOLD;
+}
+
+/** Keys a similar prompt must share: any content word or emoji, or the exact text when it has no words. */
+function indexKeys(tokens: PromptTokens): string[] {
+  const keys = [...tokens.words].map(w => `w:${w}`).concat([...tokens.emoji].map(e => `e:${e}`));
+  if (tokens.words.size === 0) keys.push(`x:${tokens.plain}`);
+  return keys;
+}
+
+export interface PromptMatcher {
+  /** Index a prompt; matches() hands back its id. */
+  add(text: string, id: number): void;
+  /** Ids of indexed prompts similar to `text`, in the order they were added. */
+  matches(text: string): number[];
+}
+
+/**
+ * Similarity search over many prompts. Each is tokenized once, and a lookup
+ * only scores the prompts sharing a word or emoji with it instead of all of them.
+ */
+export function createPromptMatcher(): PromptMatcher {
+  const entries: { id: number; tokens: PromptTokens }[] = [];
+  const index = new Map<string, number[]>();
+
+  return {
+    add(text, id) {
+      const tokens = promptTokens(text);
+      for (const key of indexKeys(tokens)) {
+        const positions = index.get(key);
+        if (positions) positions.push(entries.length);
+        else index.set(key, [entries.length]);
+      }
+      entries.push({ id, tokens });
+    },
+
+    matches(text) {
+      const tokens = promptTokens(text);
+      const candidates = new Set<number>();
+      for (const key of indexKeys(tokens)) {
+        for (const position of index.get(key) || []) candidates.add(position);
+      }
+      return [...candidates]
+        .sort((a, b) => a - b)
+        .filter(position => tokenSimilarity(tokens, entries[position].tokens) >= SIMILAR_THRESHOLD)
+        .map(position => entries[position].id);
+    },
+  };
+}
+
+/** Validate a bank prompt from a request body; `partial` for PATCH. */
+export function promptBankFieldsFromBody(body: Record<string, unknown>, partial = false) {
+  const fields: Record<string, unknown> = {};
+
+  if (body.prompt !== undefined || !partial) {
+    const prompt = String(body.prompt || '').trim();
+    if (!prompt) return { fields: null, error: 'Prompt text is required' };
+    fields.prompt = prompt;
+  }
+  if (body.journal_type !== undefined || !partial) {
+    const type = String(body.journal_type || '');
+    if (!(JOURNAL_TYPES as readonly string[]).includes(type)) return { fields: null, error: 'Unknown journal type' };
+    fields.journal_type = type;
+  }
+  for (const key of ['attribution', 'writing_prompt'] as const) {
+    if (body[key] !== undefined) fields[key] = String(body[key] || '').trim() || null;
+  }
+  for (const key of ['is_favorite', 'is_retired'] as const) {
+    if (body[key] !== undefined) fields[key] = !!body[key];
+  }
+
+  return { fields, error: null };
+}
+
+/** Months of no-repeat from settings (DEFAULT_REPEAT_MONTHS when unset). */
+export async function loadRepeatMonths(supabase: SupabaseClient): Promise<number> {
+  const { data } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', PROMPT_REPEAT_SETTING)
+    .maybeSingle();
+  const months = parseInt(data?.value || '');
+  return Number.isFinite(months) && months > 0 ? months : DEFAULT_REPEAT_MONTHS;
+}
+
+export function repeatCutoff(months: number, asOf = localDateStr()): string {
+  const d = new Date(asOf + 'T12:00:00');
+  d.setMonth(d.getMonth() - months);
+  return localDateStr(d);
+}
+
+/** Prompts actually put in bellringers, newest first, optionally only since `since`. */
+export async function loadGivenPrompts(supabase: SupabaseClient, since?: string): Promise<GivenPrompt[]> {
+  // Paginate — a few years of bellringers passes Supabase's 1000-row default
+  let data: Record<string, unknown>[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  while (true) {
+    let query = supabase
+      .from('bellringer_prompts')
+      .select('id, bellringer_id, journal_type, journal_prompt, bellringers!inner(date)')
+      .not('journal_prompt', 'is', null);
+    if (since) query = query.gte('bellringers.date', since);
+
+    const { data: page, error } = await query
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+    if (error) throw new Error(error.message);
+    if (page) data = data.concat(page);
+    if (!page || page.length < pageSize) break;
+    from += pageSize;
+  }
+
+  return data
+    .map(row => ({
+      bellringer_id: row.bellringer_id as number,
+      date: (row.bellringers as unknown as { date: string }).date,
+      journal_type: row.journal_type as string | null,
+      text: String(row.journal_prompt || ''),
+    }))
+    // Image prompts share boilerplate instructions; the picture is what changes
+    .filter(p => p.text.trim() && p.journal_type !== 'image')
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** Dates each bank prompt was given, newest first. */
+export function promptHistory(bank: JournalBankPrompt[], given: GivenPrompt[]): Map<number, PromptHistoryEntry[]> {
+  const matcher = createPromptMatcher();
+  given.forEach((g, i) => matcher.add(g.text, i));
+
+  const history = new Map<number, PromptHistoryEntry[]>();
+  for (const p of bank) {
+    const seen = new Set<number>();
+    const uses: PromptHistoryEntry[] = [];
+    for (const i of matcher.matches(bankPromptText(p))) {
+      const g = given[i];
+      if (seen.has(g.bellringer_id)) continue;
+      seen.add(g.bellringer_id);
+      uses.push({ bellringer_id: g.bellringer_id, date: g.date });
+    }
+    history.set(p.id, uses);
+  }
+  return history;
+}
+
+/** Bank prompts that look like rewordings of each other, by id. */
+export function similarBankPrompts(bank: JournalBankPrompt[]): Map<number, number[]> {
+  const similar = new Map<number, number[]>();
+  const matcher = createPromptMatcher();
+  for (const p of bank) {
+    const text = bankPromptText(p);
+    // Each pair is found once, when its later prompt is looked up
+    for (const earlier of matcher.matches(text)) {
+      similar.set(earlier, [...(similar.get(earlier) || []), p.id]);
+      similar.set(p.id, [...(similar.get(p.id) || []), earlier]);
+    }
+    matcher.add(text, p.id);
+  }
+  return similar;
+}
+
+export async function loadRepeatGuard(supabase: SupabaseClient, asOf = localDateStr()): Promise<RepeatGuard> {
+  const months = await loadRepeatMonths(supabase);
+  const [given, { data: bank }] = await Promise.all([
+    loadGivenPrompts(supabase, repeatCutoff(months, asOf)),
+    supabase.from('journal_prompt_bank').select('*'),
+  ]);
+  const rows = (bank || []) as JournalBankPrompt[];
+  return {
+    months,
+    given,
+    retired: rows.filter(p => p.is_retired),
+    bank: rows.filter(p => !p.is_retired),
+  };
+}
+
+/** Why `text` can't be used: the earlier prompt it repeats, or a retired one. Null when it's fresh. */
+export function findRepeat(text: string, guard: RepeatGuard): { date: string | null; text: string } | null {
+  const tokens = promptTokens(text);
+  const similar = (owner: object, other: string) => tokenSimilarity(tokens, cachedTokens(owner, other)) >= SIMILAR_THRESHOLD;
+  const given = guard.given.find(g => similar(g, g.text));
+  if (given) return { date: given.date, text: given.text };
+  const retired = guard.retired.find(p => similar(p, bankPromptText(p)));
+  if (retired) return { date: null, text: bankPromptText(retired) };
+  return null;
+}
+
+/** A bank prompt of `type` that hasn't been given inside the window, favorites first. */
+export function pickFreshBankPrompt(guard: RepeatGuard, type: string, random = Math.random): JournalBankPrompt | null {
+  const fresh = guard.bank.filter(p => p.journal_type === type && !findRepeat(bankPromptText(p), guard));
+  if (fresh.length === 0) return null;
+  const favorites = fresh.filter(p => p.is_favorite);
+  const pool = favorites.length > 0 ? favorites : fresh;
+  return pool[Math.floor(random() * pool.length)];
+}
+
+/** Count a prompt as given for the rest of this run, so one batch can't repeat itself. */
+export function acceptPrompt(guard: RepeatGuard, text: string, type: string | null, date: string) {
+  guard.given.unshift({ bellringer_id: 0, date, journal_type: type, text });
+}
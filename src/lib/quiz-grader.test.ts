@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeItems, answersFromCSVRow, extractAnswerKey, isAutoGradable, parseLetterAnswers, scoreAnswers } from './quiz-grader';
+
+const material = {
+  questions: [
+    { question: 'Capital of France?', choices: ['A) Paris', 'B) Rome', 'C) Madrid'], correct: 'A' },
+    { question: 'Pick the verb', choices: ['(A) run', '(B) blue', '(C) quickly'], correct: 'run', points: '2' },
+    { question: 'The sun is a star.', choices: ['True', 'False'], correct: 'A) True' },
+    { question: 'Explain your answer.' },
+  ],
+};
+
+describe('extractAnswerKey', () => {
+  const key = extractAnswerKey(material);
+
+  it('resolves letters, full choice text and labeled answers to a letter', () => {
+    expect(key.map(k => k.correct)).toEqual(['A', 'A', 'A', null]);
+    expect(key[1].choices).toEqual({ A: 'run', B: 'blue', C: 'quickly' });
+  });
+
+  it('reads points and defaults bad or missing ones to 1', () => {
+    expect(key.map(k => k.points)).toEqual([1, 2, 1, 1]);
+    expect(extractAnswerKey({ questions: [{ choices: ['A', 'B'], correct: 'B', points: -3 }] })[0].points).toBe(1);
+  });
+
+  it('is empty for materials without questions', () => {
+    expect(extractAnswerKey(null)).toEqual([]);
+    expect(isAutoGradable(extractAnswerKey({ questions: [{ question: 'Why?' }] }))).toBe(false);
+    expect(isAutoGradable(key)).toBe(true);
+  });
+});
+
+describe('parseLetterAnswers', () => {
+  it('reads run-together, spaced and comma-separated answers', () => {
+    expect(parseLetterAnswers('abdca')).toEqual(['A', 'B', 'D', 'C', 'A']);
+    expect(parseLetterAnswers('A B - C')).toEqual(['A', 'B', null, 'C']);
+    expect(parseLetterAnswers('A,B,,C')).toEqual(['A', 'B', null, 'C']);
+  });
+
+  it('places numbered answers by number and leaves gaps blank', () => {
+    expect(parseLetterAnswers('1A 2B 4C')).toEqual(['A', 'B', null, 'C']);
+    expect(parseLetterAnswers('1. A\n2. true\n3. ?')).toEqual(['A', 'T', null]);
+  });
+
+  it('trims to the question count', () => {
+    expect(parseLetterAnswers('ABCDE', 3)).toEqual(['A', 'B', 'C']);
+    expect(parseLetterAnswers('   ')).toEqual([]);
+  });
+});
+
+describe('scoreAnswers', () => {
+  const key = extractAnswerKey(material);
+
+  it('weights points and skips open-ended questions', () => {
+    expect(scoreAnswers(key, ['A', 'A', 'B', 'C'])).toEqual({
+      answers: ['A', 'A', 'B', 'C'],
+      score: 3,
+      possible: 4,
+      correct_count: 2,
+    });
+  });
+
+  it('maps T/F onto the True/False choice letters', () => {
+    const result = scoreAnswers(key, [null, null, 'T']);
+    expect(result.answers).toEqual([null, null, 'A', null]);
+    expect(result.score).toBe(1);
+  });
+});
+
+describe('analyzeItems', () => {
+  it('reports percent correct over all responses and the most-chosen distractor', () => {
+    const key = extractAnswerKey(material);
+    const [first, , , open] = analyzeItems(key, [['A'], ['B'], ['C'], ['B'], [null]]);
+    expect(first).toMatchObject({
+      answered: 4,
+      percent_correct: 20,
+      choice_counts: { A: 1, B: 2, C: 1 },
+      top_distractor: 'B',
+      top_distractor_count: 2,
+    });
+    expect(open.percent_correct).toBeNull();
+  });
+});
+
+describe('answersFromCSVRow', () => {
+  it('reads a single answers column', () => {
+    expect(answersFromCSVRow({ name: 'Ada', answers: 'A B C' }, 2)).toEqual(['A', 'B']);
+  });
+
+  it('reads one column per question in any header style', () => {
+    const row = { name: 'Ada', q1: 'b', 'question 2': '', '3': 'false', '#4': 'D', q9: 'A' };
+    expect(answersFromCSVRow(row, 4)).toEqual(['B', null, 'F', 'D']);
+  });
+});
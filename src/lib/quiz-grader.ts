@@ -0,0 +1,231 @@
+// Auto-grading for generated multiple-choice materials (quiz, grammar_test).
+// The answer key comes straight from material_content.questions[].correct.
+
+export const GRADABLE_MATERIAL_TYPES = ['quiz', 'grammar_test'] as const;
+
+const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export interface AnswerKeyItem {
+  /** 1-based question number as printed on the student copy */
+  number: number;
+  question: string;
+  /** Correct letter, or null for open-ended questions that need manual grading */
+  correct: string | null;
+  letters: string[];
+  /** Maps a letter to its choice text (used for true/false answers typed as words) */
+  choices: Record<string, string>;
+  points: number;
+}
+
+export interface ScoredResponse {
+  answers: Array<string | null>;
+  score: number;
+  possible: number;
+  correct_count: number;
+}
+
+export interface ItemAnalysis {
+  number: number;
+  correct: string | null;
+  answered: number;
+  percent_correct: number | null;
+  choice_counts: Record<string, number>;
+  /** Most-chosen wrong answer, if anyone picked one */
+  top_distractor: string | null;
+  top_distractor_count: number;
+}
+
+interface QuizQuestion {
+  question?: string;
+  choices?: string[];
+  correct?: string;
+  points?: number | string;
+}
+
+/** Letter a choice is labeled with ("B) ...", "(B) ...", "B. ..."), else its position. */
+function choiceLetter(choice: string, index: number): string {
+  const m = String(choice).match(/^\s*\(?([A-Fa-f])[).:\-]\s*/);
+  return m ? m[1].toUpperCase() : LETTERS[index];
+}
+
+function stripChoiceLabel(choice: string): string {
+  return String(choice).replace(/^\s*\(?[A-Fa-f][).:\-]\s*/, '').trim();
+}
+
+/** Resolve a question's `correct` field to a choice letter. */
+function resolveCorrect(q: QuizQuestion, letters: string[], choices: Record<string, string>): string | null {
+  const correct = String(q.correct ?? '').trim();
+  if (!correct || letters.length === 0) return null;
+
+  const letterMatch = correct.match(/^\(?([A-Fa-f])(?:[).:\-\s]|$)/);
+  if (letterMatch && letters.includes(letterMatch[1].toUpperCase())) {
+    return letterMatch[1].toUpperCase();
+  }
+
+  // Some generations put the full choice text in `correct`
+  const lower = stripChoiceLabel(correct).toLowerCase();
+  for (const letter of letters) {
+    if (choices[letter].toLowerCase() === lower) return letter;
+  }
+  return null;
+}
+
+/** Build the answer key for a saved material, or an empty key if it has no questions. */
+export function extractAnswerKey(material: Record<string, unknown> | null): AnswerKeyItem[] {
+  const questions = Array.isArray(material?.questions) ? (material!.questions as QuizQuestion[]) : [];
+
+  return questions.map((q, i) => {
+    const rawChoices = Array.isArray(q.choices) ? q.choices : [];
+    const letters: string[] = [];
+    const choices: Record<string, string> = {};
+    rawChoices.forEach((c, ci) => {
+      const letter = choiceLetter(c, ci);
+      letters.push(letter);
+      choices[letter] = stripChoiceLabel(c);
+    });
+
+    const points = Number(q.points);
+    return {
+      number: i + 1,
+      question: String(q.question ?? ''),
+      correct: resolveCorrect(q, letters, choices),
+      letters,
+      choices,
+      points: Number.isFinite(points) && points > 0 ? points : 1,
+    };
+  });
+}
+
+/** True if at least one question in the key can be scored automatically. */
+export function isAutoGradable(key: AnswerKeyItem[]): boolean {
+  return key.some(item => item.correct !== null);
+}
+
+/**
+ * Parse one student's typed answers. Accepts "ABDCA", "A B D C", "A,B,,C"
+ * (blank third answer) and numbered forms like "1A 2B 3C" or "1. A\n2. B".
+ * A dash, underscore or question mark marks a skipped question.
+ */
+export function parseLetterAnswers(input: string, questionCount?: number): Array<string | null> {
+  const text = input.trim().toUpperCase();
+  if (!text) return [];
+
+  let answers: Array<string | null> = [];
+
+  if (/\d/.test(text)) {
+    for (const m of text.matchAll(/(\d+)\s*[.):\-]?\s*(TRUE|FALSE|[A-FT?_-])?/g)) {
+      const idx = parseInt(m[1], 10) - 1;
+      if (idx < 0) continue;
+      while (answers.length < idx) answers.push(null);
+      answers[idx] = normalizeToken(m[2] ?? '');
+    }
+  } else if (text.includes(',') || text.includes(';')) {
+    answers = text.split(/[,;]/).map(normalizeToken);
+  } else if (/\s/.test(text)) {
+    answers = text.split(/\s+/).map(normalizeToken);
+  } else {
+    answers = text.split('').map(normalizeToken);
+  }
+
+  if (questionCount !== undefined) {
+    answers = answers.slice(0, questionCount);
+  }
+  return answers;
+}
+
+function normalizeToken(token: string): string | null {
+  const t = token.trim().toUpperCase();
+  if (!t || t === '-' || t === '_' || t === '?') return null;
+  if (t === 'TRUE') return 'T';
+  if (t === 'FALSE') return 'F';
+  return t.charAt(0);
+}
+
+/** Map T/F answers onto the True/False choice letters when the question is true/false. */
+function resolveAnswer(item: AnswerKeyItem, answer: string | null): string | null {
+  if (!answer) return null;
+  if (answer === 'T' || answer === 'F') {
+    const word = answer === 'T' ? 'true' : 'false';
+    const match = item.letters.find(l => item.choices[l]?.toLowerCase() === word);
+    if (match) return match;
+  }
+  return answer;
+}
+
+/** Score one student's answers against the key. Open-ended questions are skipped. */
+export function scoreAnswers(key: AnswerKeyItem[], rawAnswers: Array<string | null>): ScoredResponse {
+  let score = 0;
+  let possible = 0;
+  let correctCount = 0;
+  const answers: Array<string | null> = [];
+
+  key.forEach((item, i) => {
+    const answer = resolveAnswer(item, rawAnswers[i] ?? null);
+    answers.push(answer);
+    if (item.correct === null) return;
+    possible += item.points;
+    if (answer === item.correct) {
+      score += item.points;
+      correctCount++;
+    }
+  });
+
+  return { answers, score, possible, correct_count: correctCount };
+}
+
+/** Per-question percent correct and most-chosen distractor across a class. */
+export function analyzeItems(key: AnswerKeyItem[], responses: Array<Array<string | null>>): ItemAnalysis[] {
+  return key.map((item, i) => {
+    const counts: Record<string, number> = {};
+    let answered = 0;
+    for (const answers of responses) {
+      const a = answers[i];
+      if (!a) continue;
+      answered++;
+      counts[a] = (counts[a] ?? 0) + 1;
+    }
+
+    let topDistractor: string | null = null;
+    let topCount = 0;
+    for (const [letter, count] of Object.entries(counts)) {
+      if (letter === item.correct) continue;
+      if (count > topCount) {
+        topDistractor = letter;
+        topCount = count;
+      }
+    }
+
+    const correctCount = item.correct ? counts[item.correct] ?? 0 : 0;
+    return {
+      number: item.number,
+      correct: item.correct,
+      answered,
+      percent_correct: item.correct && responses.length > 0
+        ? Math.round((correctCount / responses.length) * 100)
+        : null,
+      choice_counts: counts,
+      top_distractor: topDistractor,
+      top_distractor_count: topCount,
+    };
+  });
+}
+
+/**
+ * Pull answers out of a bubble-sheet CSV row. Supports one column per
+ * question ("Q1", "Question 1", "1") or a single "answers" column.
+ */
+export function answersFromCSVRow(row: Record<string, string>, questionCount: number): Array<string | null> {
+  const single = row['answers'] ?? row['responses'] ?? row['response string'];
+  if (single !== undefined && single.trim()) {
+    return parseLetterAnswers(single, questionCount);
+  }
+
+  const answers: Array<string | null> = new Array(questionCount).fill(null);
+  for (const [header, value] of Object.entries(row)) {
+    const m = header.match(/^(?:q|question\s*|item\s*|#)?\s*(\d+)$/);
+    if (!m) continue;
+    const idx = parseInt(m[1], 10) - 1;
+    if (idx >= 0 && idx < questionCount) answers[idx] = normalizeToken(value);
+  }
+  return answers;
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivityRecurrence, WeekTemplate, WeekTemplateItem } from './types';
+import { getNoSchoolDates } from './school-calendar';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Recurring activities and week templates
+//
+// Both are materialized into real `activities` rows when a week is
+// planned: recurring rules automatically when the week's lesson plan is
+// created, templates when the teacher picks one. Dates the school
+// calendar marks as a holiday or break are skipped.
+// ============================================================
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface MaterializeResult {
+  created: number;
+  /** Dates left empty, with the reason (holiday name or "already planned") */
+  skipped: { date: string; title: string; reason: string }[];
+}
+
+/** Mon–Fri dates for the week containing `weekOf`, keyed by weekday number (1–5). */
+export function weekdayDates(weekOf: string): Map<number, string> {
+  const d = new Date(weekOf + 'T12:00:00');
+  const day = d.getDay();
+  d.setDate(d.getDate() + (day === 0 ? -6 : 1 - day));
+  const dates = new Map<number, string>();
+  for (let weekday = 1; weekday <= 5; weekday++) {
+    dates.set(weekday, localDateStr(d));
+    d.setDate(d.getDate() + 1);
+  }
+  return dates;
+}
+
+export function describeWeekdays(weekdays: number[]): string {
+  const sorted = [...weekdays].sort();
+  if (sorted.join() === '1,2,3,4,5') return 'Every weekday';
+  return sorted.map(d => WEEKDAY_LABELS[d]).join(', ');
+}
+
+/** Turn a planned week's activities back into template items. */
+export function templateItemsFromActivities(
+  activities: { date: string | null; class_id: number; title: string; description: string | null; activity_type: string; material_status: string }[],
+): WeekTemplateItem[] {
+  return activities
+    .filter(a => a.date)
+    .map(a => ({
+      weekday: new Date(a.date + 'T12:00:00').getDay(),
+      class_id: a.class_id,
+      title: a.title,
+      description: a.description,
+      activity_type: a.activity_type,
+      material_status: a.material_status === 'ready' ? 'needs_material' : a.material_status,
+    }))
+    .filter(item => item.weekday >= 1 && item.weekday <= 5);
+}
+
+interface PendingActivity {
+  date: string;
+  class_id: number;
+  title: string;
+  description: string | null;
+  activity_type: string;
+  material_status: string;
+  recurrence_id: number | null;
+}
+
+/**
+ * Create activities for the week from the user's active recurring rules and
+ * (optionally) one template. Idempotent: a recurring rule never creates a
+ * second copy on the same date, and a template item is skipped when that
+ * class already has an activity with the same title that day.
+ */
+export async function materializeWeek(
+  supabase: SupabaseClient,
+  userId: string,
+  lessonPlanId: number,
+  weekOf: string,
+  options: { templateId?: number; includeRecurring?: boolean } = {},
+): Promise<MaterializeResult> {
+  const dates = weekdayDates(weekOf);
+  const monday = dates.get(1)!;
+  const friday = dates.get(5)!;
+  const pending: PendingActivity[] = [];
+
+  if (options.includeRecurring !== false) {
+    const { data: rules } = await supabase
+      .from('activity_recurrences')
+      .select('*')
+      .lte('starts_on', friday)
+      .or(`ends_on.is.null,ends_on.gte.${monday}`);
+
+    for (const rule of (rules || []) as ActivityRecurrence[]) {
+      for (const weekday of rule.weekdays) {
+        const date = dates.get(weekday);
+        if (!date || date < rule.starts_on || (rule.ends_on && date > rule.ends_on)) continue;
+        pending.push({
+          date,
+          class_id: rule.class_id,
+          title: rule.title,
+          description: rule.description,
+          activity_type: rule.activity_type,
+          material_status: rule.material_status,
+          recurrence_id: rule.id,
+        });
+      }
+    }
+  }
+
+  if (options.templateId) {
+    const { data: template, error } = await supabase
+      .from('week_templates')
+      .select('*')
+      .eq('id', options.templateId)
+      .single();
+    if (error || !template) throw new Error('Template not found');
+
+    for (const item of (template as WeekTemplate).items) {
+      const date = dates.get(item.weekday);
+      if (!date) continue;
+      pending.push({ ...item, date, recurrence_id: null });
+    }
+  }
+
+  const result: MaterializeResult = { created: 0, skipped: [] };
+  if (pending.length === 0) return result;
+
+  const [noSchool, { data: existing }] = await Promise.all([
+    getNoSchoolDates(supabase, monday, friday),
+    supabase
+      .from('activities')
+      .select('class_id, date, title, recurrence_id, sort_order')
+      .gte('date', monday)
+      .lte('date', friday),
+  ]);
+
+  const taken = new Set<string>();
+  const nextSort = new Map<string, number>();
+  for (const a of existing || []) {
+    taken.add(a.recurrence_id ? `r:${a.recurrence_id}:${a.date}` : `t:${a.class_id}:${a.date}:${a.title.toLowerCase()}`);
+    const slot = `${a.class_id}:${a.date}`;
+    nextSort.set(slot, Math.max(nextSort.get(slot) ?? 0, (a.sort_order ?? 0) + 1));
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  for (const p of pending) {
+    const holiday = noSchool.get(p.date);
+    if (holiday) {
+      result.skipped.push({ date: p.date, title: p.title, reason: holiday });
+      continue;
+    }
+    const key = p.recurrence_id ? `r:${p.recurrence_id}:${p.date}` : `t:${p.class_id}:${p.date}:${p.title.toLowerCase()}`;
+    if (taken.has(key)) {
+      result.skipped.push({ date: p.date, title: p.title, reason: 'already planned' });
+      continue;
+    }
+    taken.add(key);
+
+    const slot = `${p.class_id}:${p.date}`;
+    const sortOrder = nextSort.get(slot) ?? 0;
+    nextSort.set(slot, sortOrder + 1);
+
+    rows.push({
+      ...p,
+      lesson_plan_id: lessonPlanId,
+      sort_order: sortOrder,
+      user_id: userId,
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('activities').insert(rows);
+    if (error) throw new Error(`Failed to create activities: ${error.message}`);
+    result.created = rows.length;
+  }
+  return result;
+}
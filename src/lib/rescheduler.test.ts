@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { applyReschedule, matchesPreview, RescheduleConflictError, type ActivityMove, type ReschedulePlan } from './rescheduler';
+
+function move(id: number, from: string, to: string): ActivityMove {
+  return { id, title: `Activity ${id}`, class_id: 1, class_name: 'English 9', from, to, warnings: [] };
+}
+
+const plan: ReschedulePlan = {
+  moves: [move(1, '2025-01-20', '2025-01-21'), move(2, '2025-01-21', '2025-01-22')],
+  closure: { date: '2025-01-20', title: 'Snow day' },
+  units: [],
+};
+
+/** Just enough of a client for applyReschedule(): one rpc() answer, recording the call. */
+function rpcClient(result: { data: unknown; error: { code: string; message: string } | null }) {
+  const calls: { fn: string; args: unknown }[] = [];
+  const client = {
+    rpc: async (fn: string, args: unknown) => {
+      calls.push({ fn, args });
+      return result;
+    },
+  } as unknown as SupabaseClient;
+  return { client, calls };
+}
+
+describe('matchesPreview', () => {
+  it('accepts the same moves in any order', () => {
+    expect(matchesPreview(plan, [{ id: 2, to: '2025-01-22' }, { id: 1, to: '2025-01-21' }])).toBe(true);
+  });
+
+  it('rejects a move that now lands on another day', () => {
+    expect(matchesPreview(plan, [{ id: 1, to: '2025-01-21' }, { id: 2, to: '2025-01-23' }])).toBe(false);
+  });
+
+  it('rejects a plan that gained or lost moves', () => {
+    expect(matchesPreview(plan, [{ id: 1, to: '2025-01-21' }])).toBe(false);
+  });
+});
+
+describe('applyReschedule', () => {
+  it('sends every move with its expected from date and the closure', async () => {
+    const { client, calls } = rpcClient({ data: 2, error: null });
+    await expect(applyReschedule(client, plan)).resolves.toBe(2);
+    expect(calls).toEqual([{
+      fn: 'reschedule_activities',
+      args: {
+        moves: [
+          { id: 1, from_date: '2025-01-20', to_date: '2025-01-21' },
+          { id: 2, from_date: '2025-01-21', to_date: '2025-01-22' },
+        ],
+        closed_date: '2025-01-20',
+        closed_title: 'Snow day',
+      },
+    }]);
+  });
+
+  it('throws RescheduleConflictError when an activity moved since the preview', async () => {
+    const { client } = rpcClient({
+      data: null,
+      error: { code: '40001', message: 'Schedule changed since the preview (1 of 2 activities still in place); nothing was moved' },
+    });
+    const attempt = applyReschedule(client, plan);
+    await expect(attempt).rejects.toBeInstanceOf(RescheduleConflictError);
+    await expect(attempt).rejects.toThrow('Schedule changed since the preview');
+  });
+
+  it('passes other database errors through as plain errors', async () => {
+    const { client } = rpcClient({ data: null, error: { code: '42501', message: 'permission denied' } });
+    const attempt = applyReschedule(client, plan);
+    await expect(attempt).rejects.toThrow('permission denied');
+    await expect(attempt).rejects.not.toBeInstanceOf(RescheduleConflictError);
+  });
+});
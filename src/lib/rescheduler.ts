@@ -0,0 +1,210 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadSchoolCalendar, type SchoolCalendar } from './school-calendar';
+import { getActiveUnits } from './units';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// Rescheduling engine
+//
+// Works out where activities land when one is bumped, when the rest of a
+// class's unit shifts behind it, or when a whole day is lost (snow day).
+// Moves count school days from the calendar, so holidays and breaks are
+// skipped and testing / early-release landings are flagged. Plans are
+// previewed first and applied in one database call (reschedule_activities),
+// which refuses the whole batch if any activity changed since the preview.
+// ============================================================
+
+export type RescheduleMode = 'single' | 'shift';
+
+export interface ActivityMove {
+  id: number;
+  title: string;
+  class_id: number;
+  class_name: string;
+  from: string;
+  to: string;
+  warnings: string[];
+}
+
+export interface ReschedulePlan {
+  moves: ActivityMove[];
+  /** Day being closed (snow day), saved as a holiday when the plan is applied */
+  closure: { date: string; title: string } | null;
+  /** Units whose remaining activities were shifted, per class */
+  units: { class_id: number; title: string; end_date: string }[];
+}
+
+interface RescheduleOptions {
+  days?: number;
+  skipTesting?: boolean;
+}
+
+interface ActivityRow {
+  id: number;
+  class_id: number;
+  date: string;
+  title: string;
+  is_done: boolean;
+  classes: { name: string } | null;
+}
+
+const MAX_SHIFT_DAYS = 20;
+
+function clampDays(days: number | undefined): number {
+  return Math.min(MAX_SHIFT_DAYS, Math.max(1, Math.floor(days || 1)));
+}
+
+/** Calendar covering the activities being moved plus room to push past them. */
+function calendarFor(supabase: SupabaseClient, from: string, activities: ActivityRow[], options: RescheduleOptions, extraClosed?: Record<string, string>) {
+  const last = activities.reduce((max, a) => (a.date > max ? a.date : max), from);
+  const end = new Date(last + 'T12:00:00');
+  end.setDate(end.getDate() + 60);
+  return loadSchoolCalendar(supabase, from, localDateStr(end), { extraClosed, skipTesting: options.skipTesting });
+}
+
+/** Activities of one class from `from` onward that haven't been taught, bounded by the class's current unit. */
+async function remainingInUnit(supabase: SupabaseClient, classId: number, from: string) {
+  const [unit] = await getActiveUnits(supabase, from, from, classId);
+
+  let query = supabase
+    .from('activities')
+    .select('id, class_id, date, title, is_done, classes(name)')
+    .eq('class_id', classId)
+    .eq('is_done', false)
+    .gte('date', from)
+    .order('date', { ascending: true })
+    .order('sort_order', { ascending: true });
+  if (unit) query = query.lte('date', unit.end_date);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return { unit: unit || null, activities: (data || []) as unknown as ActivityRow[] };
+}
+
+async function buildMoves(
+  supabase: SupabaseClient,
+  calendar: SchoolCalendar,
+  activities: ActivityRow[],
+  days: number,
+  unitEnds: Map<number, { title: string; end_date: string }>,
+): Promise<ActivityMove[]> {
+  const moving = new Set(activities.map(a => a.id));
+  const moves = activities.map(a => {
+    const to = calendar.addSchoolDays(a.date, days);
+    const warnings: string[] = [];
+    const flags = calendar.flags(to);
+    if (flags.includes('testing')) warnings.push('Testing day');
+    if (flags.includes('early_release')) warnings.push('Early release');
+    const unit = unitEnds.get(a.class_id);
+    if (unit && to > unit.end_date) warnings.push(`Past the end of "${unit.title}" (${unit.end_date})`);
+    return { id: a.id, title: a.title, class_id: a.class_id, class_name: a.classes?.name || '', from: a.date, to, warnings };
+  });
+
+  // Point out landings on days that already hold activities that aren't moving
+  const targets = [...new Set(moves.map(m => m.to))];
+  if (targets.length > 0) {
+    const { data: existing } = await supabase
+      .from('activities')
+      .select('id, class_id, date, title')
+      .in('date', targets);
+    for (const m of moves) {
+      const sharing = (existing || []).filter(e => e.class_id === m.class_id && e.date === m.to && !moving.has(e.id));
+      if (sharing.length > 0) m.warnings.push(`Shares the day with "${sharing[0].title}"${sharing.length > 1 ? ` +${sharing.length - 1}` : ''}`);
+    }
+  }
+  return moves.filter(m => m.to !== m.from);
+}
+
+/**
+ * Bump one activity forward. In 'shift' mode everything after it in the
+ * class's current unit (or the rest of the class's schedule, without a
+ * unit) moves by the same number of school days.
+ */
+export async function planActivityBump(
+  supabase: SupabaseClient,
+  activityId: number,
+  mode: RescheduleMode,
+  options: RescheduleOptions = {},
+): Promise<ReschedulePlan> {
+  const { data: activity, error } = await supabase
+    .from('activities')
+    .select('id, class_id, date, title, is_done, classes(name)')
+    .eq('id', activityId)
+    .single();
+  if (error || !activity) throw new Error('Activity not found');
+  const row = activity as unknown as ActivityRow;
+  if (!row.date) throw new Error('Activity has no date to bump from');
+
+  const days = clampDays(options.days);
+  const units: ReschedulePlan['units'] = [];
+  let activities: ActivityRow[] = [row];
+
+  if (mode === 'shift') {
+    const rest = await remainingInUnit(supabase, row.class_id, row.date);
+    // Other activities on the same day stay put; later days shift behind this one
+    activities = [row, ...rest.activities.filter(a => a.id !== row.id && a.date > row.date)];
+    if (rest.unit) units.push({ class_id: row.class_id, title: rest.unit.title, end_date: rest.unit.end_date });
+  }
+
+  const calendar = await calendarFor(supabase, row.date, activities, options);
+  const unitEnds = new Map(units.map(u => [u.class_id, u]));
+  const moves = await buildMoves(supabase, calendar, activities, days, unitEnds);
+  return { moves, closure: null, units };
+}
+
+/**
+ * Lose a whole day (snow day, surprise assembly): mark it closed and push
+ * every class's untaught activities from that day through the end of its
+ * current unit forward by one school day. With classId only that class moves.
+ */
+export async function planDayClosure(
+  supabase: SupabaseClient,
+  date: string,
+  title: string,
+  options: RescheduleOptions & { classId?: number } = {},
+): Promise<ReschedulePlan> {
+  let classQuery = supabase.from('classes').select('id').order('id', { ascending: true });
+  if (options.classId) classQuery = classQuery.eq('id', options.classId);
+  const { data: classes } = await classQuery;
+
+  const units: ReschedulePlan['units'] = [];
+  const activities: ActivityRow[] = [];
+  for (const cls of classes || []) {
+    const rest = await remainingInUnit(supabase, cls.id, date);
+    activities.push(...rest.activities);
+    if (rest.unit) units.push({ class_id: cls.id, title: rest.unit.title, end_date: rest.unit.end_date });
+  }
+
+  const calendar = await calendarFor(supabase, date, activities, options, { [date]: title });
+  const unitEnds = new Map(units.map(u => [u.class_id, u]));
+  const moves = await buildMoves(supabase, calendar, activities, 1, unitEnds);
+  // A day lost by one class (assembly, field trip) isn't a school-wide closure
+  return { moves, closure: options.classId ? null : { date, title }, units };
+}
+
+/** True when a freshly computed plan still matches the moves the teacher previewed. */
+export function matchesPreview(plan: ReschedulePlan, expected: { id: number; to: string }[]): boolean {
+  if (plan.moves.length !== expected.length) return false;
+  const byId = new Map(expected.map(m => [m.id, m.to]));
+  return plan.moves.every(m => byId.get(m.id) === m.to);
+}
+
+/** Thrown by applyReschedule() when an activity moved between the plan and the update; nothing was changed. */
+export class RescheduleConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RescheduleConflictError';
+  }
+}
+
+/** Apply a previewed plan in one transaction. Throws RescheduleConflictError (and changes nothing) if any activity moved since. */
+export async function applyReschedule(supabase: SupabaseClient, plan: Pick<ReschedulePlan, 'moves' | 'closure'>): Promise<number> {
+  const { data, error } = await supabase.rpc('reschedule_activities', {
+    moves: plan.moves.map(m => ({ id: m.id, from_date: m.from, to_date: m.to })),
+    closed_date: plan.closure?.date ?? null,
+    closed_title: plan.closure?.title ?? null,
+  });
+  if (error?.code === '40001') throw new RescheduleConflictError(error.message);
+  if (error) throw new Error(error.message);
+  return (data as number) ?? plan.moves.length;
+}
@@ -0,0 +1,115 @@
+import type { RosterStudent, Student } from './types';
+
+export interface RosterImportRow {
+  student_number: string | null;
+  first_name: string;
+  last_name: string;
+  preferred_name: string | null;
+  grade_level: string | null;
+  email: string | null;
+  period: string | null;
+}
+
+// Header aliases seen in common SIS roster exports (PowerSchool, Infinite Campus).
+// Headers are lowercased by parseCSV before lookup.
+const COLUMN_ALIASES: Record<keyof RosterImportRow | 'full_name', string[]> = {
+  student_number: ['student_number', 'student number', 'student id', 'studentid', 'student_id', 'id', 'sis id', 'local id', 'state id'],
+  first_name: ['first_name', 'first name', 'firstname', 'first', 'given name'],
+  last_name: ['last_name', 'last name', 'lastname', 'last', 'surname', 'family name'],
+  preferred_name: ['preferred_name', 'preferred name', 'nickname', 'goes by'],
+  grade_level: ['grade_level', 'grade level', 'grade', 'gr'],
+  email: ['email', 'student email', 'e-mail', 'email address'],
+  period: ['period', 'per', 'class period', 'section', 'hour'],
+  full_name: ['name', 'student name', 'student', 'full name', 'lastfirst', 'last, first'],
+};
+
+function pick(row: Record<string, string>, key: keyof typeof COLUMN_ALIASES): string | null {
+  for (const alias of COLUMN_ALIASES[key]) {
+    const value = row[alias];
+    if (value && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/** Split a single "Last, First" or "First Last" name column into parts. */
+export function splitFullName(name: string): { first_name: string; last_name: string } {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (trimmed.includes(',')) {
+    const [last, ...rest] = trimmed.split(',');
+    return { first_name: rest.join(',').trim(), last_name: last.trim() };
+  }
+  const parts = trimmed.split(' ');
+  if (parts.length === 1) return { first_name: parts[0], last_name: '' };
+  return { first_name: parts.slice(0, -1).join(' '), last_name: parts[parts.length - 1] };
+}
+
+/**
+ * Pull the identifying fields (SIS number and name) out of any CSV row,
+ * such as a roster export or a bubble-sheet scan.
+ */
+export function rowIdentity(row: Record<string, string>): { student_number: string | null; first_name: string; last_name: string } {
+  let firstName = pick(row, 'first_name');
+  let lastName = pick(row, 'last_name');
+
+  if (!firstName && !lastName) {
+    const fullName = pick(row, 'full_name');
+    if (fullName) {
+      const split = splitFullName(fullName);
+      firstName = split.first_name;
+      lastName = split.last_name;
+    }
+  }
+
+  return { student_number: pick(row, 'student_number'), first_name: firstName || '', last_name: lastName || '' };
+}
+
+/**
+ * Normalize rows from an SIS roster export into student records.
+ * Rows without a usable name are skipped and counted.
+ */
+export function normalizeRosterRows(rows: Record<string, string>[]): { students: RosterImportRow[]; skipped: number } {
+  const students: RosterImportRow[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const ident = rowIdentity(row);
+    if (!ident.first_name) {
+      skipped++;
+      continue;
+    }
+
+    students.push({
+      ...ident,
+      preferred_name: pick(row, 'preferred_name'),
+      grade_level: pick(row, 'grade_level'),
+      email: pick(row, 'email'),
+      period: pick(row, 'period'),
+    });
+  }
+
+  return { students, skipped };
+}
+
+/** Key used to match a student without an SIS number against existing records. */
+export function studentNameKey(s: { first_name: string; last_name: string }): string {
+  return `${s.first_name.trim().toLowerCase()}|${s.last_name.trim().toLowerCase()}`;
+}
+
+/** "Preferred Last" if a preferred name is set, otherwise "First Last". */
+export function studentDisplayName(s: Pick<Student, 'first_name' | 'last_name' | 'preferred_name'>): string {
+  return `${s.preferred_name || s.first_name} ${s.last_name}`.trim();
+}
+
+/** Flatten a class_enrollments row joined with students(*) into a roster entry. */
+export function toRosterStudent(row: { id: number; period: string | null; students: Student | Student[] | null }): RosterStudent | null {
+  const student = Array.isArray(row.students) ? row.students[0] : row.students;
+  if (!student) return null;
+  return { ...student, enrollment_id: row.id, period: row.period };
+}
+
+/** Sort roster entries by last name, then first name. */
+export function sortRoster<T extends Pick<Student, 'first_name' | 'last_name'>>(students: T[]): T[] {
+  return [...students].sort((a, b) =>
+    a.last_name.localeCompare(b.last_name) || a.first_name.localeCompare(b.first_name)
+  );
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { localDateStr } from './task-helpers';
+
+// ============================================================
+// School calendar
+//
+// Which weekdays students are actually in the building, according to
+// `calendar_events`. Holidays and breaks are days off; every other event
+// type (testing, early release, assembly, custom) still counts as a school
+// day, with testing and early release flagged for the rescheduler.
+// ============================================================
+
+export const NO_SCHOOL_EVENT_TYPES = ['holiday', 'break'];
+
+/** Dates in [start, end] marked as a holiday or break, mapped to the event title. */
+export async function getNoSchoolDates(supabase: SupabaseClient, start: string, end: string): Promise<Map<string, string>> {
+  const { data } = await supabase
+    .from('calendar_events')
+    .select('date, title')
+    .in('event_type', NO_SCHOOL_EVENT_TYPES)
+    .gte('date', start)
+    .lte('date', end);
+
+  const dates = new Map<string, string>();
+  for (const e of data || []) dates.set(e.date, e.title);
+  return dates;
+}
+
+/** School days that still happen but change what fits in them. */
+export type SchoolDayFlag = 'early_release' | 'testing';
+
+const FLAG_EVENT_TYPES: SchoolDayFlag[] = ['early_release', 'testing'];
+
+export interface SchoolCalendar {
+  isSchoolDay(date: string): boolean;
+  /** The `count`-th school day after `date` (count 0: the date itself, or the next school day if it's off). */
+  addSchoolDays(date: string, count: number): string;
+  flags(date: string): SchoolDayFlag[];
+  /** Title of the holiday/break (or closure) that makes this a day off */
+  closedReason(date: string): string | null;
+}
+
+function nextDate(date: string): string {
+  const d = new Date(date + 'T12:00:00');
+  d.setDate(d.getDate() + 1);
+  return localDateStr(d);
+}
+
+/**
+ * Load the school calendar for [start, end]. Weekends, holidays and breaks
+ * are days off; `extraClosed` adds closures that aren't saved yet (e.g. a
+ * snow day being previewed). With `skipTesting`, testing days count as days
+ * off too. Dates past `end` fall back to "every weekday is a school day".
+ */
+export async function loadSchoolCalendar(
+  supabase: SupabaseClient,
+  start: string,
+  end: string,
+  options: { extraClosed?: Record<string, string>; skipTesting?: boolean } = {},
+): Promise<SchoolCalendar> {
+  const { data } = await supabase
+    .from('calendar_events')
+    .select('date, event_type, title')
+    .in('event_type', [...NO_SCHOOL_EVENT_TYPES, ...FLAG_EVENT_TYPES])
+    .gte('date', start)
+    .lte('date', end);
+
+  const closed = new Map<string, string>(Object.entries(options.extraClosed || {}));
+  const flagged = new Map<string, SchoolDayFlag[]>();
+  for (const e of data || []) {
+    if (NO_SCHOOL_EVENT_TYPES.includes(e.event_type)) {
+      if (!closed.has(e.date)) closed.set(e.date, e.title);
+    } else {
+      const list = flagged.get(e.date) || [];
+      list.push(e.event_type as SchoolDayFlag);
+      flagged.set(e.date, list);
+      if (options.skipTesting && e.event_type === 'testing' && !closed.has(e.date)) closed.set(e.date, e.title);
+    }
+  }
+
+  const isSchoolDay = (date: string) => {
+    const day = new Date(date + 'T12:00:00').getDay();
+    return day !== 0 && day !== 6 && !closed.has(date);
+  };
+
+  return {
+    isSchoolDay,
+    addSchoolDays(date, count) {
+      let d = date;
+      if (count === 0) {
+        while (!isSchoolDay(d)) d = nextDate(d);
+        return d;
+      }
+      for (let i = 0; i < count; i++) {
+        d = nextDate(d);
+        while (!isSchoolDay(d)) d = nextDate(d);
+      }
+      return d;
+    },
+    flags: date => flagged.get(date) || [],
+    closedReason: date => closed.get(date) || null,
+  };
+}
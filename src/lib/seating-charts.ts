@@ -0,0 +1,268 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SeatingChart, SeatingDesk, SeatingDeskKind, Student, SubDashSeatingChart } from './types';
+import { parsePeriodsToNumbers } from './bell-schedule';
+import { studentDisplayName } from './roster-helpers';
+
+// ============================================================
+// Seating charts
+//
+// A chart is a rows × cols room grid. Each occupied cell is a student desk,
+// the teacher's desk, or the door; student desks carry the roster student
+// sitting there. A class keeps as many charts per period as the teacher
+// likes, and the active one for each period is copied into sub plans with
+// names filled in (so later roster changes don't rewrite a shared plan).
+// ============================================================
+
+export const MAX_GRID = 12;
+export const DEFAULT_ROWS = 5;
+export const DEFAULT_COLS = 6;
+export const DESK_KINDS: SeatingDeskKind[] = ['desk', 'teacher', 'door'];
+
+/** Desks inside the grid, one per cell, each student seated at most once; fixtures never hold a student. */
+export function sanitizeDesks(value: unknown, rows: number, cols: number): SeatingDesk[] {
+  if (!Array.isArray(value)) return [];
+  const cells = new Set<string>();
+  const seated = new Set<number>();
+  const desks: SeatingDesk[] = [];
+  for (const raw of value) {
+    if (!raw || typeof raw !== 'object') continue;
+    const d = raw as Record<string, unknown>;
+    const row = Number(d.row);
+    const col = Number(d.col);
+    const kind = DESK_KINDS.includes(d.kind as SeatingDeskKind) ? d.kind as SeatingDeskKind : 'desk';
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || col < 0 || row >= rows || col >= cols) continue;
+    if (cells.has(`${row},${col}`)) continue;
+    cells.add(`${row},${col}`);
+
+    let studentId = kind === 'desk' && d.student_id ? Number(d.student_id) : null;
+    if (studentId !== null && (!Number.isInteger(studentId) || seated.has(studentId))) studentId = null;
+    if (studentId !== null) seated.add(studentId);
+    desks.push({ row, col, kind, student_id: studentId });
+  }
+  return desks.sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+function gridSize(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === null || value === '') return fallback;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_GRID ? n : null;
+}
+
+/**
+ * Validate a chart from a request body. With `partial` (PATCH), `current`
+ * supplies the grid size so desks can be checked against it.
+ */
+export function seatingChartFieldsFromBody(
+  body: Record<string, unknown>,
+  partial = false,
+  current?: Pick<SeatingChart, 'rows' | 'cols' | 'desks'>,
+): { fields: Record<string, unknown> | null; error: string | null } {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name || '').trim();
+    if (!name && partial) return { fields: null, error: 'Chart name cannot be empty' };
+    fields.name = name || 'Seating Chart';
+  }
+  if (body.period !== undefined) fields.period = String(body.period || '').trim() || null;
+
+  const rows = body.rows !== undefined || !partial ? gridSize(body.rows, DEFAULT_ROWS) : current?.rows ?? DEFAULT_ROWS;
+  const cols = body.cols !== undefined || !partial ? gridSize(body.cols, DEFAULT_COLS) : current?.cols ?? DEFAULT_COLS;
+  if (rows === null || cols === null) return { fields: null, error: `Rows and columns must be between 1 and ${MAX_GRID}` };
+  if (body.rows !== undefined || !partial) fields.rows = rows;
+  if (body.cols !== undefined || !partial) fields.cols = cols;
+
+  // Shrinking the grid drops desks that fall outside it
+  if (body.desks !== undefined) fields.desks = sanitizeDesks(body.desks, rows, cols);
+  else if (!partial) fields.desks = defaultDesks(rows, cols);
+  else if (current && (fields.rows !== undefined || fields.cols !== undefined)) fields.desks = sanitizeDesks(current.desks, rows, cols);
+
+  if (body.is_active !== undefined) fields.is_active = !!body.is_active;
+
+  return { fields, error: null };
+}
+
+/** A fresh room: a student desk in every cell. */
+export function defaultDesks(rows: number, cols: number): SeatingDesk[] {
+  const desks: SeatingDesk[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) desks.push({ row, col, kind: 'desk', student_id: null });
+  }
+  return desks;
+}
+
+/**
+ * Roster entries that belong in a chart for `period`. Periods are free text
+ * on both sides ("3rd", "Period 3"), so they're compared by number, falling
+ * back to the text; students with no period could be in any of them.
+ */
+export function rosterForPeriod<T extends { period: string | null }>(roster: T[], period: string | null): T[] {
+  if (!period) return roster;
+  const wanted = parsePeriodsToNumbers(period);
+  return roster.filter(s => {
+    if (!s.period) return true;
+    const nums = parsePeriodsToNumbers(s.period);
+    if (wanted.length > 0 && nums.length > 0) return nums.some(n => wanted.includes(n));
+    return s.period.trim().toLowerCase() === period.trim().toLowerCase();
+  });
+}
+
+/** Seat `students` (in the order given) into the empty desks, front row first. */
+export function fillEmptyDesks(desks: SeatingDesk[], students: Pick<Student, 'id'>[]): SeatingDesk[] {
+  const seated = new Set(desks.map(d => d.student_id).filter(Boolean));
+  const waiting = students.filter(s => !seated.has(s.id));
+  return [...desks]
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map(d => (d.kind === 'desk' && !d.student_id && waiting.length > 0 ? { ...d, student_id: waiting.shift()!.id } : d));
+}
+
+/** Make `chart` the one sub plans use for its period, switching off the others. */
+export async function activateSeatingChart(supabase: SupabaseClient, chart: Pick<SeatingChart, 'id' | 'class_id' | 'period'>) {
+  let others = supabase
+    .from('seating_charts')
+    .update({ is_active: false })
+    .eq('class_id', chart.class_id)
+    .neq('id', chart.id);
+  others = chart.period ? others.eq('period', chart.period) : others.is('period', null);
+  const { error } = await others;
+  if (error) throw new Error(error.message);
+}
+
+/** A chart with names in place of student ids, as sub plans and printouts show it. */
+export function namedSeatingChart(
+  chart: Pick<SeatingChart, 'period' | 'name' | 'rows' | 'cols' | 'desks'>,
+  className: string,
+  names: Map<number, string>,
+): SubDashSeatingChart {
+  return {
+    class_name: className,
+    period: chart.period,
+    name: chart.name,
+    rows: chart.rows,
+    cols: chart.cols,
+    desks: chart.desks.map(({ student_id, ...desk }) => ({
+      ...desk,
+      student_name: student_id ? names.get(student_id) ?? null : null,
+    })),
+  };
+}
+
+/** Display names for every student seated in `charts`. */
+export async function seatedStudentNames(supabase: SupabaseClient, charts: Pick<SeatingChart, 'desks'>[]): Promise<Map<number, string>> {
+  const ids = [...new Set(charts.flatMap(c => c.desks.map(d => d.student_id)).filter((id): id is number => !!id))];
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('students')
+    .select('id, first_name, last_name, preferred_name')
+    .in('id', ids);
+  if (error) throw new Error(error.message);
+  return new Map((data || []).map(s => [s.id, studentDisplayName(s)]));
+}
+
+/** Active charts for the given classes, in the order the classes are listed. */
+export async function loadSubDashSeatingCharts(
+  supabase: SupabaseClient,
+  classes: { id: number; name: string }[],
+): Promise<SubDashSeatingChart[]> {
+  if (classes.length === 0) return [];
+  const { data, error } = await supabase
+    .from('seating_charts')
+    .select('*')
+    .eq('is_active', true)
+    .in('class_id', classes.map(c => c.id))
+    .order('period', { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const charts = (data || []) as SeatingChart[];
+  const names = await seatedStudentNames(supabase, charts);
+  return classes.flatMap(c =>
+    charts.filter(chart => chart.class_id === c.id).map(chart => namedSeatingChart(chart, c.name, names)),
+  );
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const FIXTURE_LABELS: Record<SeatingDeskKind, string> = { desk: '', teacher: 'Teacher', door: 'Door' };
+
+/** A printable page for one chart, laid out landscape with the front of the room at the top. */
+export function seatingChartHTML(
+  chart: SubDashSeatingChart,
+  header: { teacher_name?: string; school_name?: string; room_number?: string },
+): string {
+  const byCell = new Map(chart.desks.map(d => [`${d.row},${d.col}`, d]));
+  const cells: string[] = [];
+  for (let row = 0; row < chart.rows; row++) {
+    for (let col = 0; col < chart.cols; col++) {
+      const desk = byCell.get(`${row},${col}`);
+      if (!desk) {
+        cells.push('<div class="cell"></div>');
+      } else if (desk.kind !== 'desk') {
+        cells.push(`<div class="cell fixture">${FIXTURE_LABELS[desk.kind]}</div>`);
+      } else {
+        cells.push(`<div class="cell desk">${desk.student_name ? escapeHtml(desk.student_name) : '<span class="empty">Empty</span>'}</div>`);
+      }
+    }
+  }
+
+  const subtitle = [chart.class_name, chart.period, header.room_number ? `Room ${header.room_number}` : '']
+    .filter(Boolean)
+    .map(s => escapeHtml(s as string))
+    .join(' &middot; ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(chart.name)} - ${escapeHtml(chart.class_name)}</title>
+  <style>
+    @media print {
+      body { margin: 0; padding: 0; }
+      .no-print { display: none !important; }
+      @page { size: landscape; margin: 0.5in; }
+    }
+    * { box-sizing: border-box; }
+    body {
+      margin: 0;
+      padding: 32px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #ffffff;
+      color: #1f2937;
+    }
+    .front { text-align: center; padding: 6px; margin-bottom: 12px; border: 2px solid #1a1a2e; border-radius: 6px; font-size: 12px; font-weight: 700; letter-spacing: 2px; text-transform: uppercase; }
+    .grid { display: grid; grid-template-columns: repeat(${chart.cols}, 1fr); gap: 8px; }
+    .cell { min-height: 56px; border-radius: 6px; display: flex; align-items: center; justify-content: center; text-align: center; padding: 4px; font-size: 13px; }
+    .desk { border: 1.5px solid #1f2937; font-weight: 600; }
+    .fixture { background: #e5e7eb; color: #4b5563; font-size: 11px; text-transform: uppercase; letter-spacing: 1px; }
+    .empty { color: #9ca3af; font-weight: 400; font-size: 11px; }
+  </style>
+</head>
+<body>
+  <div style="max-width:1000px;margin:0 auto;">
+    <div style="text-align:center;margin-bottom:20px;">
+      ${header.school_name ? `<p style="margin:0 0 4px;font-size:12px;color:#6b7280;text-transform:uppercase;letter-spacing:1px;">${escapeHtml(header.school_name)}</p>` : ''}
+      <h1 style="margin:0 0 4px;font-size:22px;font-weight:700;color:#1a1a2e;">${escapeHtml(chart.name)}</h1>
+      <p style="margin:0;font-size:14px;color:#4b5563;">${subtitle}</p>
+      ${header.teacher_name ? `<p style="margin:4px 0 0;font-size:13px;color:#6b7280;">${escapeHtml(header.teacher_name)}</p>` : ''}
+    </div>
+
+    <div class="front">Front of Room</div>
+    <div class="grid">
+      ${cells.join('\n      ')}
+    </div>
+
+    <div class="no-print" style="text-align:center;margin-top:32px;">
+      <button onclick="window.print()" style="padding:10px 24px;background:#4ECDC4;color:#1a1a2e;border:none;border-radius:8px;font-weight:600;font-size:14px;cursor:pointer;">
+        Print / Save as PDF
+      </button>
+    </div>
+  </div>
+</body>
+</html>`;
+}
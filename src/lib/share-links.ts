@@ -0,0 +1,324 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { SHARE_PIN_HEADER } from './share-pin';
+import type { PlanComment } from './plan-comments';
+import type { SubDashSnapshot } from './types';
+
+// ============================================================
+// Share link lifecycle
+//
+// Sub plans (/subdash/<token>) and published lesson plans (/plans/<token>)
+// are opened without an account. Each link can expire, be revoked,
+// be regenerated (old URL stops working) and require a PIN. Anonymous
+// requests never read the tables directly: every public route goes through
+// SECURITY DEFINER functions that run share_link_check() on the token and
+// the PIN in the x-share-pin header, which applies the wrong-PIN lockout and
+// writes the access log the teacher sees. open_share_link() is the page-load
+// check that also counts the visit.
+// ============================================================
+
+export type ShareLinkKind = 'subdash' | 'lesson_plan';
+
+export const SHARE_LINK_KINDS: ShareLinkKind[] = ['subdash', 'lesson_plan'];
+
+export type ShareLinkOutcome = 'ok' | 'not_found' | 'revoked' | 'expired' | 'pin_required' | 'pin_invalid' | 'locked';
+
+/** Response for each refused outcome. 401s tell the public page to ask for a PIN. */
+export const SHARE_LINK_ERRORS: Record<Exclude<ShareLinkOutcome, 'ok'>, { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Link not found' },
+  revoked: { status: 410, error: 'This link has been turned off' },
+  expired: { status: 410, error: 'This link has expired' },
+  pin_required: { status: 401, error: 'Enter the PIN for this link' },
+  pin_invalid: { status: 401, error: 'Wrong PIN' },
+  locked: { status: 429, error: 'Too many wrong PINs. Try again in 15 minutes.' },
+};
+
+export type ShareLinkAccessOutcome = 'viewed' | 'pin_failed' | 'expired' | 'revoked';
+
+export interface ShareLinkAccess {
+  id: number;
+  outcome: ShareLinkAccessOutcome;
+  user_agent: string | null;
+  created_at: string;
+}
+
+/** One public link as listed on the Shared Links page. */
+export interface ShareLink {
+  kind: ShareLinkKind;
+  id: number;
+  title: string;
+  path: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  has_pin: boolean;
+  state: 'active' | 'expired' | 'revoked';
+  views: number;
+  failed_pins: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+const LINK_COLUMNS: Record<ShareLinkKind, {
+  table: string;
+  token: string;
+  expires: string;
+  pin: string;
+  revoked: string;
+  path: string;
+}> = {
+  subdash: {
+    table: 'subdash_plans',
+    token: 'share_token',
+    expires: 'share_expires_at',
+    pin: 'share_pin_hash',
+    revoked: 'share_revoked_at',
+    path: '/subdash/',
+  },
+  lesson_plan: {
+    table: 'lesson_plans',
+    token: 'publish_token',
+    expires: 'publish_expires_at',
+    pin: 'publish_pin_hash',
+    revoked: 'publish_revoked_at',
+    path: '/plans/',
+  },
+};
+
+const PIN_MIN = 4;
+const PIN_MAX = 32;
+
+export function isShareLinkKind(value: string): value is ShareLinkKind {
+  return SHARE_LINK_KINDS.includes(value as ShareLinkKind);
+}
+
+/** The PIN a public page sent along, if any. */
+export function sharePinFrom(headers: Headers): string | null {
+  return headers.get(SHARE_PIN_HEADER)?.trim() || null;
+}
+
+/** An anon client whose requests carry the PIN for share_link_check(). */
+export function shareClient(pin: string | null): SupabaseClient {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !key || url === 'your-supabase-url') {
+    throw new Error('Supabase not configured. Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY in .env.local');
+  }
+  const headers: Record<string, string> = {};
+  if (pin) headers[SHARE_PIN_HEADER] = pin;
+  return createClient(url, key, {
+    global: { headers },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/** Check a visit against expiry, revocation and PIN, and log it. */
+export async function openShareLink(
+  client: SupabaseClient,
+  kind: ShareLinkKind,
+  token: string,
+  userAgent: string | null,
+): Promise<ShareLinkOutcome> {
+  const { data, error } = await client.rpc('open_share_link', {
+    link_kind: kind,
+    link_token: token,
+    visitor_agent: userAgent,
+  });
+  if (error) throw new Error(error.message);
+  return (data as ShareLinkOutcome) ?? 'not_found';
+}
+
+/** The SubDash snapshot behind a link, or null when the link is refused. */
+export async function loadSharedSubDash(client: SupabaseClient, token: string): Promise<SubDashSnapshot | null> {
+  const { data, error } = await client.rpc('subdash_snapshot', { token });
+  if (error) throw new Error(error.message);
+  return (data as SubDashSnapshot) ?? null;
+}
+
+export interface PublishedLessonPlan {
+  plan: {
+    id: number;
+    week_of: string;
+    class_id: number | null;
+    status: string;
+    announcements: string | null;
+    writers_corner: Record<string, string> | null;
+    created_at: string;
+    updated_at: string | null;
+  };
+  activities: (Record<string, unknown> & { id: number; class_id: number; standards: { code: string; description: string }[] })[];
+  comments: PlanComment[];
+}
+
+/** A published plan with its activities and comments, or null when the link is refused. */
+export async function loadPublishedLessonPlan(client: SupabaseClient, token: string): Promise<PublishedLessonPlan | null> {
+  const { data, error } = await client.rpc('published_lesson_plan', { token });
+  if (error) throw new Error(error.message);
+  return (data as PublishedLessonPlan) ?? null;
+}
+
+/** Store as "salt$sha256(salt || pin)" — the format share_pin_matches() checks. */
+export function hashSharePin(pin: string): string {
+  const salt = randomBytes(8).toString('hex');
+  return `${salt}$${createHash('sha256').update(salt + pin, 'utf8').digest('hex')}`;
+}
+
+/** Links for a sub plan close at the end of the day after the plan's date. */
+export function defaultSubDashExpiry(date: string): string {
+  const expires = new Date(`${date}T00:00:00`);
+  expires.setDate(expires.getDate() + 2);
+  return expires.toISOString();
+}
+
+/**
+ * Column updates for a PATCH body: { expires_at?, pin?, revoked?, regenerate? }.
+ * pin: null clears it; regenerate issues a new token and un-revokes.
+ */
+export function shareLinkUpdatesFromBody(
+  kind: ShareLinkKind,
+  body: Record<string, unknown>,
+): { updates: Record<string, unknown>; token: string | null; error: string | null } {
+  const cols = LINK_COLUMNS[kind];
+  const updates: Record<string, unknown> = {};
+  let token: string | null = null;
+
+  if (body.expires_at !== undefined) {
+    if (body.expires_at === null || body.expires_at === '') {
+      updates[cols.expires] = null;
+    } else {
+      const expires = new Date(String(body.expires_at));
+      if (isNaN(expires.getTime())) return { updates, token, error: 'Invalid expiry date' };
+      updates[cols.expires] = expires.toISOString();
+    }
+  }
+
+  if (body.pin !== undefined) {
+    if (body.pin === null || body.pin === '') {
+      updates[cols.pin] = null;
+    } else {
+      const pin = String(body.pin).trim();
+      if (pin.length < PIN_MIN || pin.length > PIN_MAX) {
+        return { updates, token, error: `PINs are ${PIN_MIN} to ${PIN_MAX} characters` };
+      }
+      updates[cols.pin] = hashSharePin(pin);
+    }
+  }
+
+  if (body.revoked !== undefined) {
+    updates[cols.revoked] = body.revoked ? new Date().toISOString() : null;
+  }
+
+  if (body.regenerate) {
+    token = randomUUID();
+    updates[cols.token] = token;
+    updates[cols.revoked] = null;
+  }
+
+  if (Object.keys(updates).length === 0) return { updates, token, error: 'Nothing to update' };
+  return { updates, token, error: null };
+}
+
+export async function updateShareLink(
+  supabase: SupabaseClient,
+  kind: ShareLinkKind,
+  id: number,
+  updates: Record<string, unknown>,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from(LINK_COLUMNS[kind].table)
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('id');
+  if (error) throw new Error(error.message);
+  return (data || []).length > 0;
+}
+
+function linkState(expiresAt: string | null, revokedAt: string | null): ShareLink['state'] {
+  if (revokedAt) return 'revoked';
+  if (expiresAt && new Date(expiresAt) <= new Date()) return 'expired';
+  return 'active';
+}
+
+/** Every shared sub plan and published lesson plan, with visit counts. */
+export async function loadShareLinks(supabase: SupabaseClient): Promise<ShareLink[]> {
+  const [subRes, planRes, accessRes] = await Promise.all([
+    supabase
+      .from('subdash_plans')
+      .select('id, date, sub_name, share_token, share_expires_at, share_pin_hash, share_revoked_at, created_at')
+      .eq('status', 'shared')
+      .order('date', { ascending: false }),
+    supabase
+      .from('lesson_plans')
+      .select('id, week_of, publish_token, publish_expires_at, publish_pin_hash, publish_revoked_at, created_at')
+      .eq('status', 'published')
+      .not('publish_token', 'is', null)
+      .order('week_of', { ascending: false }),
+    supabase
+      .from('share_link_access')
+      .select('link_kind, link_id, outcome, created_at')
+      .order('created_at', { ascending: true }),
+  ]);
+  if (subRes.error) throw new Error(subRes.error.message);
+  if (planRes.error) throw new Error(planRes.error.message);
+  if (accessRes.error) throw new Error(accessRes.error.message);
+
+  const stats = new Map<string, { views: number; failed_pins: number; last_viewed_at: string | null }>();
+  for (const a of accessRes.data || []) {
+    const key = `${a.link_kind}:${a.link_id}`;
+    const s = stats.get(key) ?? { views: 0, failed_pins: 0, last_viewed_at: null };
+    if (a.outcome === 'viewed') {
+      s.views++;
+      s.last_viewed_at = a.created_at;
+    } else if (a.outcome === 'pin_failed') {
+      s.failed_pins++;
+    }
+    stats.set(key, s);
+  }
+  const statsFor = (kind: ShareLinkKind, id: number) =>
+    stats.get(`${kind}:${id}`) ?? { views: 0, failed_pins: 0, last_viewed_at: null };
+
+  const subLinks: ShareLink[] = (subRes.data || []).map(p => ({
+    kind: 'subdash',
+    id: p.id,
+    title: `Sub plan for ${p.date}${p.sub_name ? ` (${p.sub_name})` : ''}`,
+    path: `${LINK_COLUMNS.subdash.path}${p.share_token}`,
+    expires_at: p.share_expires_at,
+    revoked_at: p.share_revoked_at,
+    has_pin: !!p.share_pin_hash,
+    state: linkState(p.share_expires_at, p.share_revoked_at),
+    ...statsFor('subdash', p.id),
+    created_at: p.created_at,
+  }));
+
+  const planLinks: ShareLink[] = (planRes.data || []).map(p => ({
+    kind: 'lesson_plan',
+    id: p.id,
+    title: `Lesson plan, week of ${p.week_of}`,
+    path: `${LINK_COLUMNS.lesson_plan.path}${p.publish_token}`,
+    expires_at: p.publish_expires_at,
+    revoked_at: p.publish_revoked_at,
+    has_pin: !!p.publish_pin_hash,
+    state: linkState(p.publish_expires_at, p.publish_revoked_at),
+    ...statsFor('lesson_plan', p.id),
+    created_at: p.created_at,
+  }));
+
+  return [...subLinks, ...planLinks];
+}
+
+/** Most recent visits to one link. */
+export async function loadShareLinkAccess(
+  supabase: SupabaseClient,
+  kind: ShareLinkKind,
+  id: number,
+  limit = 100,
+): Promise<ShareLinkAccess[]> {
+  const { data, error } = await supabase
+    .from('share_link_access')
+    .select('id, outcome, user_agent, created_at')
+    .eq('link_kind', kind)
+    .eq('link_id', id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []) as ShareLinkAccess[];
+}
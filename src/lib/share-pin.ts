@@ -0,0 +1,35 @@
+// ============================================================
+// PINs on public share links (browser side)
+//
+// Once a visitor enters the PIN for a /subdash or /plans link it is kept in
+// sessionStorage for that token and sent as a header on every request the
+// page makes, so the sub isn't asked again on each save. See
+// src/lib/share-links.ts for the server side.
+// ============================================================
+
+export const SHARE_PIN_HEADER = 'x-share-pin';
+
+function storageKey(token: string): string {
+  return `share-pin:${token}`;
+}
+
+export function storedSharePin(token: string): string | null {
+  try {
+    return sessionStorage.getItem(storageKey(token));
+  } catch {
+    return null;
+  }
+}
+
+export function storeSharePin(token: string, pin: string | null): void {
+  try {
+    if (pin) sessionStorage.setItem(storageKey(token), pin);
+    else sessionStorage.removeItem(storageKey(token));
+  } catch { /* storage unavailable */ }
+}
+
+/** Request headers for a public page, with the stored PIN if there is one. */
+export function sharePinHeaders(token: string, headers: Record<string, string> = {}): Record<string, string> {
+  const pin = storedSharePin(token);
+  return pin ? { ...headers, [SHARE_PIN_HEADER]: pin } : headers;
+}
@@ -0,0 +1,52 @@
+interface TextResult {
+  success: boolean;
+  message: string;
+  id?: string;
+}
+
+/**
+ * Send a text message through Twilio's REST API.
+ * Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER in .env.local.
+ */
+export async function sendTextMessage(to: string, body: string): Promise<TextResult> {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID || '';
+  const authToken = process.env.TWILIO_AUTH_TOKEN || '';
+  const from = process.env.TWILIO_FROM_NUMBER || '';
+
+  if (!accountSid || !authToken || !from) {
+    return {
+      success: false,
+      message: 'Text not sent: Twilio is not configured. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER in .env.local.',
+    };
+  }
+
+  try {
+    const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: body }),
+    });
+    const data = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      return {
+        success: false,
+        message: `Text failed: ${data.message || res.statusText}`,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Text sent to ${to}`,
+      id: data.sid,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      message: `Text failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+// Server-sent events for streaming chat replies.
+//
+// Routes that support streaming check wantsEventStream() and answer with
+// sseResponse(), sending `delta` events ({ text }) as the reply is generated
+// and one `done` event carrying the same JSON the non-streaming route
+// returns. Failures arrive as an `error` event ({ error }). Clients use
+// postEventStream(), and cancel by aborting its signal — the route sees
+// request.signal abort and stops the provider call.
+//
+// Long-lived feeds (the classroom display channel) pass an event id so a
+// reconnecting EventSource resumes from Last-Event-ID.
+
+export type SSESend = (event: string, data: unknown, id?: string | number) => void;
+
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+/** Run `handler` and stream whatever it sends as server-sent events. */
+export function sseResponse(handler: (send: SSESend) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data, id) => {
+        try {
+          const idLine = id !== undefined ? `id: ${id}\n` : '';
+          controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // Client disconnected
+        }
+      };
+      try {
+        await handler(send);
+      } catch (err) {
+        send('error', { error: err instanceof Error ? err.message : 'Unknown error' });
+      } finally {
+        try { controller.close(); } catch { /* already closed */ }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  /** Each chunk of the reply as it arrives */
+  onDelta?: (text: string) => void;
+  /** Other named events the route sends (e.g. `retry`) */
+  onEvent?: (event: string, data: unknown) => void;
+}
+
+/**
+ * POST `body` as JSON to a streaming route and resolve with the `done`
+ * event's payload. Rejects with the route's error message, or an
+ * AbortError if the signal fires.
+ */
+export async function postEventStream<T>(url: string, body: unknown, options: StreamOptions = {}): Promise<T> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.error || `Request failed (${res.status})`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let sep: number;
+    while ((sep = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      const payload = data ? JSON.parse(data) : null;
+
+      if (event === 'delta') options.onDelta?.(payload.text);
+      else if (event === 'done') return payload as T;
+      else if (event === 'error') throw new Error(payload?.error || 'Unknown error');
+      else options.onEvent?.(event, payload);
+    }
+  }
+  throw new Error('The response ended before it finished. Please try again.');
+}
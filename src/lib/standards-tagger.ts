@@ -1,4 +1,5 @@
-import { getAIConfig, getGeminiModel, generateWithRetry } from './ai-service';
+import { getAIConfigError, generateWithRetry } from './ai-service';
+import { STANDARDS_TAG_SCHEMA } from './ai-schemas';
 import { supabase } from './db';
 
 interface TaggableActivity {
@@ -71,16 +72,9 @@ export async function tagActivityWithStandards(
     return { codes: [], reasoning: 'Not an academic activity', error: null };
   }
 
-  const aiConfig = await getAIConfig();
-  const model = aiConfig.provider === 'gemini'
-    ? getGeminiModel(aiConfig.geminiApiKey, aiConfig.geminiModel)
-    : null;
-
-  if (aiConfig.provider === 'gemini' && !model) {
-    return { codes: [], reasoning: '', error: 'Gemini API key not configured. Go to Settings to add your API key.' };
-  }
-  if (aiConfig.provider === 'anthropic' && !aiConfig.anthropicApiKey) {
-    return { codes: [], reasoning: '', error: 'Anthropic API key not configured. Go to Settings to add your API key.' };
+  const aiError = await getAIConfigError();
+  if (aiError) {
+    return { codes: [], reasoning: '', error: aiError };
   }
 
   const subject = classToSubject(activity.class_name);
@@ -121,10 +115,9 @@ Select the 1-3 most relevant standard codes. Respond with ONLY valid JSON.`;
 
   try {
     const result = await generateWithRetry(
-      model,
       SYSTEM_PROMPT,
       userPrompt,
-      { temperature: 0.3, maxOutputTokens: 1024 }
+      { feature: 'tagging', temperature: 0.3, maxOutputTokens: 1024, schema: STANDARDS_TAG_SCHEMA }
     );
 
     const codes = (result.codes as string[]) || [];
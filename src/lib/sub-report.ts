@@ -0,0 +1,173 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SubDashReport, SubReportInstructionStatus } from './types';
+
+// ============================================================
+// Substitute end-of-day reports
+//
+// The shared SubDash page ends with a report form: for each period, which
+// instructions got done and any notes, plus behavior incidents, helpful
+// students and materials left behind. It is stored on the subdash_plans row
+// through SECURITY DEFINER functions keyed by the share token (the sub has
+// no account), and shown on the teacher's dashboard until marked reviewed.
+// ============================================================
+
+export const INSTRUCTION_STATUSES: SubReportInstructionStatus[] = ['done', 'partial', 'not_done'];
+
+export const INSTRUCTION_STATUS_LABELS: Record<SubReportInstructionStatus, string> = {
+  done: 'Done',
+  partial: 'Partly',
+  not_done: 'Not done',
+};
+
+const MAX_TEXT = 2000;
+const MAX_SHORT_TEXT = 200;
+const MAX_INCIDENTS = 20;
+const MAX_PERIODS = 20;
+const MAX_INSTRUCTIONS = 30;
+
+/** What the sub sees for a share token: their report so far, if any. */
+export interface SubDashReportState {
+  open: boolean;
+  report: SubDashReport | null;
+  submitted_at: string | null;
+}
+
+/** A submitted report the teacher hasn't reviewed yet. */
+export interface UnreviewedSubReport {
+  plan_id: number;
+  date: string;
+  sub_name: string | null;
+  submitted_at: string;
+  report: SubDashReport;
+}
+
+/** A blank report laid out from the plan's periods and instructions. */
+export function emptySubReport(snapshot: {
+  sub_name: string | null;
+  periods: Array<{ period: string; class_name: string; instructions: Array<{ title: string }> }>;
+}): SubDashReport {
+  return {
+    submitted_by: snapshot.sub_name || '',
+    periods: snapshot.periods.map(p => ({
+      period: p.period,
+      class_name: p.class_name,
+      instructions: p.instructions.map(i => ({ title: i.title, status: null })),
+      notes: '',
+    })),
+    incidents: [],
+    helpful_students: '',
+    materials_left: '',
+    general_notes: '',
+  };
+}
+
+function text(value: unknown, max = MAX_TEXT): string {
+  return String(value ?? '').trim().slice(0, max);
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object') : [];
+}
+
+/** Keep the known fields with their expected types, capping text. */
+function cleanSubReport(body: Record<string, unknown>): SubDashReport {
+  return {
+    submitted_by: text(body.submitted_by, MAX_SHORT_TEXT),
+    periods: list(body.periods).map(p => ({
+      period: text(p.period, MAX_SHORT_TEXT),
+      class_name: text(p.class_name, MAX_SHORT_TEXT),
+      instructions: list(p.instructions).map(i => ({
+        title: text(i.title, MAX_SHORT_TEXT),
+        status: INSTRUCTION_STATUSES.includes(i.status as SubReportInstructionStatus)
+          ? i.status as SubReportInstructionStatus
+          : null,
+      })),
+      notes: text(p.notes),
+    })),
+    incidents: list(body.incidents)
+      .map(i => ({
+        period: text(i.period, MAX_SHORT_TEXT) || null,
+        students: text(i.students, MAX_SHORT_TEXT),
+        description: text(i.description),
+      }))
+      .filter(i => i.students || i.description),
+    helpful_students: text(body.helpful_students),
+    materials_left: text(body.materials_left),
+    general_notes: text(body.general_notes),
+  };
+}
+
+/** Validate a report from the sub page. Unknown fields are dropped and text is capped. */
+export function subReportFromBody(body: Record<string, unknown>): { report: SubDashReport | null; error: string | null } {
+  const report = cleanSubReport(body);
+  if (report.periods.length > MAX_PERIODS) {
+    return { report: null, error: `Reports are limited to ${MAX_PERIODS} periods` };
+  }
+  if (report.periods.some(p => p.instructions.length > MAX_INSTRUCTIONS)) {
+    return { report: null, error: `Reports are limited to ${MAX_INSTRUCTIONS} instructions per period` };
+  }
+  if (report.incidents.length > MAX_INCIDENTS) {
+    return { report: null, error: `Reports are limited to ${MAX_INCIDENTS} incidents` };
+  }
+  if (!report.submitted_by) return { report: null, error: 'Enter your name' };
+  return { report, error: null };
+}
+
+/**
+ * A report as read back from subdash_plans.sub_report. Rows written before
+ * submit_subdash_report() checked the shape can hold anything, so this
+ * always returns something the report views can render.
+ */
+export function storedSubReport(value: unknown): SubDashReport {
+  const report = cleanSubReport(value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {});
+  return {
+    ...report,
+    periods: report.periods.slice(0, MAX_PERIODS).map(p => ({ ...p, instructions: p.instructions.slice(0, MAX_INSTRUCTIONS) })),
+    incidents: report.incidents.slice(0, MAX_INCIDENTS),
+  };
+}
+
+/** One-line count of how the day's instructions went, e.g. "5 of 7 done, 1 partly". */
+export function instructionSummary(report: SubDashReport): string {
+  const statuses = report.periods.flatMap(p => p.instructions.map(i => i.status));
+  if (statuses.length === 0) return 'No instructions';
+  const done = statuses.filter(s => s === 'done').length;
+  const partial = statuses.filter(s => s === 'partial').length;
+  return `${done} of ${statuses.length} done${partial ? `, ${partial} partly` : ''}`;
+}
+
+export async function loadSubDashReport(supabase: SupabaseClient, token: string): Promise<SubDashReportState | null> {
+  const { data, error } = await supabase.rpc('subdash_report', { token });
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+  const state = data as SubDashReportState;
+  return { ...state, report: state.report ? storedSubReport(state.report) : null };
+}
+
+/** Store the sub's report. Returns null if the plan is unknown, unshared or closed. */
+export async function submitSubDashReport(supabase: SupabaseClient, token: string, report: SubDashReport): Promise<string | null> {
+  const { data, error } = await supabase.rpc('submit_subdash_report', { token, report });
+  if (error) throw new Error(error.message);
+  return (data as string) ?? null;
+}
+
+/** Submitted reports not yet reviewed, newest plan first. */
+export async function loadUnreviewedSubReports(supabase: SupabaseClient): Promise<UnreviewedSubReport[]> {
+  const { data, error } = await supabase
+    .from('subdash_plans')
+    .select('id, date, sub_name, sub_report, sub_report_submitted_at')
+    .not('sub_report_submitted_at', 'is', null)
+    .is('sub_report_reviewed_at', null)
+    .order('date', { ascending: false });
+  if (error) throw new Error(error.message);
+
+  return (data || []).map(row => ({
+    plan_id: row.id,
+    date: row.date,
+    sub_name: row.sub_name,
+    submitted_at: row.sub_report_submitted_at,
+    report: storedSubReport(row.sub_report),
+  }));
+}
@@ -1,4 +1,6 @@
 import { supabase } from './db';
+import { resolveDaySchedule, scheduleEntriesFor } from './bell-schedule';
+import { loadSubDashSeatingCharts } from './seating-charts';
 import type { SubDashSnapshot, ScheduleEntry, SubDashPeriod, SubDashMediaItem } from './types';
 
 export async function generateSubDashSnapshot(
@@ -54,6 +56,7 @@ export async function generateSubDashSnapshot(
       description: string | null;
       activity_type: string;
       material_file_path: string | null;
+      material: Record<string, unknown> | null;
     }>>();
     for (const a of activities ?? []) {
       if (!activitiesByClass.has(a.class_id)) {
@@ -64,6 +67,7 @@ export async function generateSubDashSnapshot(
         description: a.description,
         activity_type: a.activity_type,
         material_file_path: a.material_file_path,
+        material: a.material_status === 'ready' ? a.material_content : null,
       });
     }
 
@@ -124,11 +128,15 @@ export async function generateSubDashSnapshot(
       }));
     }
 
-    // 7. Parse schedule from profile
+    // 7. Parse schedule from profile; times come from the day's bell schedule when one is set up
     let schedule: ScheduleEntry[] = [];
     if (profile.schedule_json) {
       try { schedule = JSON.parse(profile.schedule_json); } catch { schedule = []; }
     }
+    const daySchedule = await resolveDaySchedule(supabase, dateStr);
+    if (daySchedule?.schedule) {
+      schedule = scheduleEntriesFor(daySchedule, schedule);
+    }
 
     // 8. Build period-by-period instructions
     const periods: SubDashPeriod[] = schedule.map(entry => {
@@ -145,6 +153,7 @@ export async function generateSubDashSnapshot(
           description: a.description,
           activity_type: a.activity_type,
           material_file_path: a.material_file_path,
+          material: a.material,
         })),
       };
     });
@@ -161,6 +170,13 @@ export async function generateSubDashSnapshot(
       try { seatingChartUrls = JSON.parse(profile.seating_chart_urls); } catch { seatingChartUrls = []; }
     }
 
+    // Active seating charts for the classes on today's schedule
+    const scheduledClassIds = [...new Set(schedule.map(e => e.class_id).filter((id): id is number => !!id))];
+    const seatingCharts = await loadSubDashSeatingCharts(
+      supabase,
+      scheduledClassIds.map(id => ({ id, name: classMap.get(id)?.name || 'Class' })),
+    );
+
     const snapshot: SubDashSnapshot = {
       date: dateStr,
       teacher_name: settings.teacher_name || 'Teacher',
@@ -170,12 +186,14 @@ export async function generateSubDashSnapshot(
       sub_name: null,
       sub_contact: null,
       custom_notes: customNotes,
+      day_type: daySchedule?.schedule?.name ?? null,
       schedule,
       periods,
       bellringer: bellringerData,
       management_notes: profile.management_notes || '',
       behavior_policy: profile.behavior_policy || '',
       seating_chart_urls: seatingChartUrls,
+      seating_charts: seatingCharts,
       emergency_contacts: profile.emergency_contacts || '',
       standing_instructions: profile.standing_instructions || '',
       backup_activities: backupActivities,
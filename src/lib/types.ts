@@ -27,6 +27,74 @@ export interface ClassInfo {
   color: string | null;
 }
 
+export interface Student {
+  id: number;
+  student_number: string | null;
+  first_name: string;
+  last_name: string;
+  preferred_name: string | null;
+  grade_level: string | null;
+  email: string | null;
+  accommodations: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface ClassEnrollment {
+  id: number;
+  class_id: number;
+  student_id: number;
+  period: string | null;
+  enrolled_at: string;
+}
+
+// A student as listed on one class's roster
+export interface RosterStudent extends Student {
+  enrollment_id: number;
+  period: string | null;
+}
+
+export type SeatingDeskKind = 'desk' | 'teacher' | 'door';
+
+export interface SeatingDesk {
+  row: number;
+  col: number;
+  kind: SeatingDeskKind;
+  student_id: number | null;
+}
+
+export interface SeatingChart {
+  id: number;
+  class_id: number;
+  period: string | null;
+  name: string;
+  rows: number;
+  cols: number;
+  desks: SeatingDesk[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'tardy';
+
+export interface AttendanceRecord {
+  id: number;
+  class_id: number;
+  student_id: number;
+  date: string;
+  period: string | null;
+  status: AttendanceStatus;
+  note: string | null;
+  recorded_by: 'teacher' | 'sub';
+  subdash_plan_id: number | null;
+  /** Set once the teacher has seen a sub's marks */
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
 export interface Activity {
   id: number;
   class_id: number;
@@ -41,8 +109,69 @@ export interface Activity {
   material_file_path: string | null;
   is_done: boolean;
   is_graded: boolean;
+  points_possible: number | null;
   moved_to_date: string | null;
+  recurrence_id: number | null;
+  created_at: string;
+}
+
+// Weekday numbers follow Date.getDay(): 1 = Monday ... 5 = Friday
+export interface ActivityRecurrence {
+  id: number;
+  class_id: number;
+  title: string;
+  description: string | null;
+  activity_type: string;
+  material_status: string;
+  weekdays: number[];
+  starts_on: string;
+  ends_on: string | null;
+  created_at: string;
+}
+
+export interface WeekTemplateItem {
+  weekday: number;
+  class_id: number;
+  title: string;
+  description: string | null;
+  activity_type: string;
+  material_status: string;
+}
+
+export interface WeekTemplate {
+  id: number;
+  name: string;
+  items: WeekTemplateItem[];
+  created_at: string;
+}
+
+export interface Grade {
+  id: number;
+  activity_id: number;
+  student_id: number;
+  score: number | null;
+  is_excused: boolean;
+  is_missing: boolean;
+  comment: string | null;
+  updated_at: string;
+}
+
+export interface QuizResponse {
+  id: number;
+  activity_id: number;
+  student_id: number;
+  answers: Array<string | null>;
+  score: number | null;
+  possible: number | null;
   created_at: string;
+  updated_at: string | null;
+}
+
+export interface GradeCategory {
+  id: number;
+  class_id: number;
+  category: string;
+  weight: number;
 }
 
 export interface Bellringer {
@@ -62,6 +191,7 @@ export interface Bellringer {
   act_correct_answer: string | null;
   act_explanation: string | null;
   act_rule: string | null;
+  response_code?: string | null;
   status: string;
   is_approved: boolean;
   created_at: string;
@@ -82,6 +212,19 @@ export interface BellringerWithPrompts extends Bellringer {
   prompts: BellringerPrompt[];
 }
 
+export interface BellringerResponse {
+  id: number;
+  bellringer_id: number;
+  class_id: number | null;
+  period: string | null;
+  student_name: string;
+  student_id: number | null;
+  act_choice: 'A' | 'B' | 'C' | 'D' | null;
+  journal_slot: number | null;
+  journal_text: string | null;
+  created_at: string;
+}
+
 export interface ReferenceDoc {
   id: number;
   name: string;
@@ -98,6 +241,9 @@ export interface LessonPlan {
   raw_input: string | null;
   brainstorm_history: Record<string, unknown> | null;
   publish_token: string | null;
+  publish_expires_at: string | null;
+  publish_pin_hash: string | null;
+  publish_revoked_at: string | null;
   status: string;
   created_at: string;
   updated_at: string | null;
@@ -106,12 +252,51 @@ export interface LessonPlan {
 export interface LessonPlanComment {
   id: number;
   lesson_plan_id: number;
+  parent_id: number | null;
   author_role: string;
   author_name: string;
   content: string;
   created_at: string;
 }
 
+// A curriculum unit spanning several weeks; an empty class_ids means every class
+export interface Unit {
+  id: number;
+  title: string;
+  start_date: string;
+  end_date: string;
+  class_ids: number[];
+  standard_ids: number[];
+  anchor_texts: string[];
+  essential_question: string | null;
+  goals: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// One slot in a bell schedule. Numeric periods ("1".."8") hold the classes
+// whose `periods` include that number; others (Lunch, Advisory) hold none.
+export interface BellPeriod {
+  period: string;
+  label: string | null;
+  /** 24-hour "HH:MM" */
+  start: string;
+  end: string;
+}
+
+// A named day type (Regular, A Day, Early Release). `event_types` lists the
+// calendar_events types that switch a date to it; schedules with a
+// rotation_order alternate on ordinary school days (A/B days).
+export interface BellSchedule {
+  id: number;
+  name: string;
+  event_types: string[];
+  rotation_order: number | null;
+  is_default: boolean;
+  periods: BellPeriod[];
+  created_at: string;
+}
+
 export interface Standard {
   id: number;
   subject: string;
@@ -172,6 +357,21 @@ export interface PromptBankEntry {
   writing_prompt?: string;
 }
 
+/** A prompt in the teacher's journal prompt bank (journal_prompt_bank). */
+export interface JournalBankPrompt {
+  id: number;
+  user_id?: string;
+  journal_type: string;
+  prompt: string;
+  attribution: string | null;
+  writing_prompt: string | null;
+  source: 'seed' | 'manual' | 'bellringer';
+  is_favorite: boolean;
+  is_retired: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 // ACT bank entry
 export interface ActBankEntry {
   day: number;
@@ -189,6 +389,30 @@ export interface ActBankEntry {
   rule: string;
 }
 
+export type ActBankSource = 'seed' | 'manual' | 'bellringer';
+
+/** A question in the teacher's own ACT bank (act_question_bank). */
+export interface ActBankQuestion {
+  id: number;
+  user_id?: string;
+  skill_category: string;
+  skill: string;
+  question: string;
+  choice_a: string;
+  choice_b: string;
+  choice_c: string;
+  choice_d: string;
+  correct_answer: string;
+  explanation: string;
+  rule: string;
+  source: ActBankSource;
+  source_bellringer_id: number | null;
+  times_used: number;
+  last_used_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Display types
 export interface PromptCard {
   type: string;
@@ -215,6 +439,37 @@ export interface EmailTaskQueueItem {
   created_at: string;
 }
 
+// Background job types
+
+export type JobType = 'bellringer_batch' | 'lesson_plan_import' | 'calendar_import' | 'emergency_sub';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+// One unit of work inside a job (e.g. one date of a batch); retried individually
+export interface JobItem {
+  key: string;
+  label: string;
+  status: JobItemStatus;
+  error?: string;
+  result?: Record<string, unknown>;
+}
+
+export interface Job {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  items: JobItem[];
+  result: Record<string, unknown> | null;
+  error: string | null;
+  cancel_requested: boolean;
+  attempts: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
 // SubDash types
 
 export interface ScheduleEntry {
@@ -222,6 +477,9 @@ export interface ScheduleEntry {
   time: string;
   class_id: number | null;
   class_name: string;
+  /** Bell times ("HH:MM") when the entry came from a bell schedule */
+  start?: string;
+  end?: string;
 }
 
 export interface MediaLibraryItem {
@@ -245,6 +503,14 @@ export interface SubDashPlan {
   status: 'draft' | 'shared';
   mode: 'planned' | 'emergency';
   snapshot: SubDashSnapshot;
+  /** The sub's end-of-day report, once submitted from the shared page */
+  sub_report: SubDashReport | null;
+  sub_report_submitted_at: string | null;
+  sub_report_reviewed_at: string | null;
+  /** Share link lifecycle (see src/lib/share-links.ts) */
+  share_expires_at: string | null;
+  share_pin_hash: string | null;
+  share_revoked_at: string | null;
   created_at: string;
   updated_at: string | null;
 }
@@ -261,6 +527,8 @@ export interface SubDashInstruction {
   description: string | null;
   activity_type: string;
   material_file_path: string | null;
+  /** Generated handout (material_content, tagged with material_type) for the sub to print */
+  material?: Record<string, unknown> | null;
 }
 
 export interface SubDashPeriod {
@@ -270,6 +538,15 @@ export interface SubDashPeriod {
   instructions: SubDashInstruction[];
 }
 
+export interface SubDashSeatingChart {
+  class_name: string;
+  period: string | null;
+  name: string;
+  rows: number;
+  cols: number;
+  desks: Array<Omit<SeatingDesk, 'student_id'> & { student_name: string | null }>;
+}
+
 export interface SubDashSnapshot {
   date: string;
   teacher_name: string;
@@ -279,6 +556,8 @@ export interface SubDashSnapshot {
   sub_name: string | null;
   sub_contact: string | null;
   custom_notes: string | null;
+  /** Bell schedule in effect that day (e.g. "Early Release"), when one is set up */
+  day_type?: string | null;
   schedule: ScheduleEntry[];
   periods: SubDashPeriod[];
   bellringer: {
@@ -292,9 +571,36 @@ export interface SubDashSnapshot {
   management_notes: string;
   behavior_policy: string;
   seating_chart_urls: string[];
+  /** Active seating charts for the day's classes (snapshots before these existed lack it) */
+  seating_charts?: SubDashSeatingChart[];
   emergency_contacts: string;
   standing_instructions: string;
   backup_activities: string[];
   media: SubDashMediaItem[];
   generated_at: string;
 }
+
+export type SubReportInstructionStatus = 'done' | 'partial' | 'not_done';
+
+export interface SubReportPeriod {
+  period: string;
+  class_name: string;
+  /** Lines up with the snapshot period's instructions */
+  instructions: Array<{ title: string; status: SubReportInstructionStatus | null }>;
+  notes: string;
+}
+
+export interface SubReportIncident {
+  period: string | null;
+  students: string;
+  description: string;
+}
+
+export interface SubDashReport {
+  submitted_by: string;
+  periods: SubReportPeriod[];
+  incidents: SubReportIncident[];
+  helpful_students: string;
+  materials_left: string;
+  general_notes: string;
+}
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Unit } from './types';
+
+// ============================================================
+// Curriculum units
+//
+// A unit covers a date span for one or more classes (none = all classes).
+// Weekly planning looks up the units active during the week and feeds
+// their goals into the brainstorm and plan-parsing prompts.
+// ============================================================
+
+export interface UnitWithStandards extends Unit {
+  standards: { id: number; code: string; description: string }[];
+}
+
+/** True when the unit overlaps [start, end] and applies to the class (if given). */
+export function unitIsActive(unit: Pick<Unit, 'start_date' | 'end_date' | 'class_ids'>, start: string, end: string, classId?: number): boolean {
+  if (unit.start_date > end || unit.end_date < start) return false;
+  return !classId || unit.class_ids.length === 0 || unit.class_ids.includes(classId);
+}
+
+/** Units overlapping the date range, with their target standards resolved. */
+export async function getActiveUnits(
+  supabase: SupabaseClient,
+  start: string,
+  end: string,
+  classId?: number,
+): Promise<UnitWithStandards[]> {
+  const { data } = await supabase
+    .from('units')
+    .select('*')
+    .lte('start_date', end)
+    .gte('end_date', start)
+    .order('start_date', { ascending: true });
+
+  const units = ((data || []) as Unit[]).filter(u => unitIsActive(u, start, end, classId));
+  const standardIds = [...new Set(units.flatMap(u => u.standard_ids))];
+
+  const standardsById = new Map<number, { id: number; code: string; description: string }>();
+  if (standardIds.length > 0) {
+    const { data: standards } = await supabase
+      .from('standards')
+      .select('id, code, description')
+      .in('id', standardIds);
+    for (const s of standards || []) standardsById.set(s.id, s);
+  }
+
+  return units.map(u => ({
+    ...u,
+    standards: u.standard_ids.map(id => standardsById.get(id)).filter((s): s is NonNullable<typeof s> => Boolean(s)),
+  }));
+}
+
+/** Describe active units for an AI prompt. Returns '' when there are none. */
+export function formatUnitContext(units: UnitWithStandards[], classes: { id: number; name: string }[]): string {
+  if (units.length === 0) return '';
+
+  return units.map(u => {
+    const classNames = u.class_ids.length > 0
+      ? u.class_ids.map(id => classes.find(c => c.id === id)?.name).filter(Boolean).join(', ')
+      : 'all classes';
+    const lines = [`Unit: "${u.title}" (${u.start_date} to ${u.end_date}) — ${classNames}`];
+    if (u.essential_question) lines.push(`  Essential question: ${u.essential_question}`);
+    if (u.goals) lines.push(`  Goals: ${u.goals}`);
+    if (u.anchor_texts.length > 0) lines.push(`  Anchor texts: ${u.anchor_texts.join('; ')}`);
+    if (u.standards.length > 0) {
+      lines.push(`  Target standards: ${u.standards.map(s => `${s.code} (${s.description})`).join('; ')}`);
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function toIdList(value: unknown): number[] {
+  return Array.isArray(value) ? value.map(Number).filter(n => Number.isInteger(n) && n > 0) : [];
+}
+
+function toTextList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+}
+
+/**
+ * Pick the editable unit columns out of a request body. With `partial`,
+ * missing fields are left out (PATCH); otherwise title and dates are required.
+ */
+export function unitFieldsFromBody(
+  body: Record<string, unknown>,
+  partial = false,
+): { fields: Record<string, unknown>; error: string | null } {
+  const fields: Record<string, unknown> = {};
+
+  if (body.title !== undefined) fields.title = String(body.title).trim();
+  if (body.start_date !== undefined) fields.start_date = body.start_date;
+  if (body.end_date !== undefined) fields.end_date = body.end_date;
+  if (body.class_ids !== undefined) fields.class_ids = toIdList(body.class_ids);
+  if (body.standard_ids !== undefined) fields.standard_ids = toIdList(body.standard_ids);
+  if (body.anchor_texts !== undefined) fields.anchor_texts = toTextList(body.anchor_texts);
+  if (body.essential_question !== undefined) fields.essential_question = String(body.essential_question || '').trim() || null;
+  if (body.goals !== undefined) fields.goals = String(body.goals || '').trim() || null;
+
+  if (!partial && (!fields.title || !fields.start_date || !fields.end_date)) {
+    return { fields, error: 'title, start_date, and end_date are required' };
+  }
+  if (fields.title === '') return { fields, error: 'title cannot be empty' };
+  for (const key of ['start_date', 'end_date'] as const) {
+    if (fields[key] !== undefined && !DATE_RE.test(String(fields[key]))) {
+      return { fields, error: `${key} must be YYYY-MM-DD` };
+    }
+  }
+  if (fields.start_date && fields.end_date && String(fields.end_date) < String(fields.start_date)) {
+    return { fields, error: 'end_date must be on or after start_date' };
+  }
+  return { fields, error: null };
+}
@@ -9,12 +9,16 @@ const PUBLIC_ROUTES = [
   '/display/',        // TV display — used on classroom TV without login
   '/plans/',          // Principal's read-only view — token-based access
   '/subdash/',        // Substitute teacher dashboard — token-based access
+  '/respond',         // Student bellringer responses — code-based, no account
 ];
 
 // API routes that don't require authentication
 const PUBLIC_API_ROUTES = [
   '/api/plans/',      // Public lesson plan view
   '/api/subdash/',    // Public sub dashboard view
+  '/api/calendar/feed/', // ICS subscription feed — token-based access
+  '/api/display/screen', // Classroom display pairing + command stream
+  '/api/respond/',    // Student bellringer responses
   '/api/auth/',       // Auth endpoints
 ];
 
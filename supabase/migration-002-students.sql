@@ -0,0 +1,60 @@
+-- ============================================================
+-- Migration 002: Student roster and class enrollments
+-- Run this in the Supabase SQL Editor after migration 001.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS students (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_number TEXT,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  preferred_name TEXT,
+  grade_level TEXT,
+  email TEXT,
+  accommodations TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  UNIQUE(user_id, student_number)
+);
+
+CREATE TABLE IF NOT EXISTS class_enrollments (
+  id SERIAL PRIMARY KEY,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  period TEXT,
+  enrolled_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_students_user ON students(user_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_class ON class_enrollments(class_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_student ON class_enrollments(student_id);
+
+ALTER TABLE students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- === STUDENTS ===
+CREATE POLICY "Users manage own students"
+  ON students FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- === CLASS ENROLLMENTS ===
+CREATE POLICY "Users manage own class enrollments"
+  ON class_enrollments FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = class_enrollments.class_id
+        AND classes.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = class_enrollments.class_id
+        AND classes.user_id = auth.uid()
+    )
+  );
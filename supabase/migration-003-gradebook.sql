@@ -0,0 +1,48 @@
+-- ============================================================
+-- Migration 003: Gradebook (points, scores, category weights)
+-- Run this in the Supabase SQL Editor after migration 002.
+-- ============================================================
+
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS points_possible NUMERIC;
+
+CREATE TABLE IF NOT EXISTS grades (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_id INTEGER NOT NULL REFERENCES activities(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  score NUMERIC,
+  is_excused BOOLEAN DEFAULT FALSE,
+  is_missing BOOLEAN DEFAULT FALSE,
+  comment TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(activity_id, student_id)
+);
+
+CREATE TABLE IF NOT EXISTS grade_categories (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  weight NUMERIC NOT NULL DEFAULT 0,
+  UNIQUE(class_id, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grades_activity ON grades(activity_id);
+CREATE INDEX IF NOT EXISTS idx_grades_student ON grades(student_id);
+CREATE INDEX IF NOT EXISTS idx_grades_user ON grades(user_id);
+CREATE INDEX IF NOT EXISTS idx_grade_categories_class ON grade_categories(class_id);
+
+ALTER TABLE grades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grade_categories ENABLE ROW LEVEL SECURITY;
+
+-- === GRADES ===
+CREATE POLICY "Users manage own grades"
+  ON grades FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- === GRADE CATEGORIES ===
+CREATE POLICY "Users manage own grade categories"
+  ON grade_categories FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,27 @@
+-- ============================================================
+-- Migration 004: Quiz responses for auto-grading
+-- Run this in the Supabase SQL Editor after migration 003.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS quiz_responses (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_id INTEGER NOT NULL REFERENCES activities(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL DEFAULT '[]',
+  score NUMERIC,
+  possible NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  UNIQUE(activity_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_activity ON quiz_responses(activity_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_user ON quiz_responses(user_id);
+ALTER TABLE quiz_responses ENABLE ROW LEVEL SECURITY;
+
+-- === QUIZ RESPONSES ===
+CREATE POLICY "Users manage own quiz responses"
+  ON quiz_responses FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
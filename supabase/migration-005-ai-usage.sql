@@ -0,0 +1,29 @@
+-- ============================================================
+-- Migration 005: AI usage log (tokens, latency, cost per call)
+-- Run this in the Supabase SQL Editor after migration 004.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  error TEXT,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- === AI USAGE ===
+CREATE POLICY "Users manage own ai usage"
+  ON ai_usage FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- ============================================================
+-- Migration 006: Background jobs (batch bellringers, imports)
+-- Run this in the Supabase SQL Editor after migration 005.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  items JSONB NOT NULL DEFAULT '[]',
+  result JSONB,
+  error TEXT,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_status ON jobs(user_id, status, created_at);
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+-- === JOBS ===
+CREATE POLICY "Users manage own jobs"
+  ON jobs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- ============================================================
+-- Migration 007: Curriculum units (year map above weekly plans)
+-- Run this in the Supabase SQL Editor after migration 006.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS units (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  class_ids INTEGER[] NOT NULL DEFAULT '{}',
+  standard_ids INTEGER[] NOT NULL DEFAULT '{}',
+  anchor_texts TEXT[] NOT NULL DEFAULT '{}',
+  essential_question TEXT,
+  goals TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_units_user_dates ON units(user_id, start_date, end_date);
+ALTER TABLE units ENABLE ROW LEVEL SECURITY;
+
+-- === UNITS ===
+CREATE POLICY "Users manage own units"
+  ON units FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
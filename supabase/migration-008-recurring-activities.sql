@@ -0,0 +1,49 @@
+-- ============================================================
+-- Migration 008: Recurring activities and week templates
+-- Run this in the Supabase SQL Editor after migration 007.
+-- ============================================================
+
+-- A weekly rule ("Vocab quiz every Friday") materialized into each new week's plan
+CREATE TABLE IF NOT EXISTS activity_recurrences (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  activity_type TEXT NOT NULL DEFAULT 'lesson',
+  material_status TEXT NOT NULL DEFAULT 'not_needed',
+  weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A saved week of activities (weekday + class) that can be stamped onto any week
+CREATE TABLE IF NOT EXISTS week_templates (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS recurrence_id INTEGER REFERENCES activity_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activity_recurrences_user ON activity_recurrences(user_id);
+CREATE INDEX IF NOT EXISTS idx_week_templates_user ON week_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_activities_recurrence ON activities(recurrence_id, date);
+
+ALTER TABLE activity_recurrences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE week_templates ENABLE ROW LEVEL SECURITY;
+
+-- === ACTIVITY RECURRENCES ===
+CREATE POLICY "Users manage own activity recurrences"
+  ON activity_recurrences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- === WEEK TEMPLATES ===
+CREATE POLICY "Users manage own week templates"
+  ON week_templates FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
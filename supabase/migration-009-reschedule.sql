@@ -0,0 +1,35 @@
+-- ============================================================
+-- Migration 009: Atomic activity rescheduling
+-- Run this in the Supabase SQL Editor after migration 008.
+-- ============================================================
+
+-- Apply a batch of moves ([{ id, from_date, to_date }]) in one transaction.
+-- Every activity must still be on its from_date, otherwise nothing changes.
+-- Optionally records the lost day (snow day) as a holiday in the same step.
+CREATE OR REPLACE FUNCTION reschedule_activities(moves JSONB, closed_date TEXT DEFAULT NULL, closed_title TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  expected INTEGER := jsonb_array_length(moves);
+  moved INTEGER;
+BEGIN
+  UPDATE activities a
+  SET date = m.to_date, moved_to_date = m.to_date
+  FROM jsonb_to_recordset(moves) AS m(id INTEGER, from_date TEXT, to_date TEXT)
+  WHERE a.id = m.id AND a.date = m.from_date AND a.user_id = auth.uid();
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  IF moved <> expected THEN
+    RAISE EXCEPTION 'Schedule changed since the preview (% of % activities still in place); nothing was moved', moved, expected;
+  END IF;
+
+  IF closed_date IS NOT NULL THEN
+    INSERT INTO calendar_events (date, event_type, title, notes, user_id)
+    VALUES (closed_date, 'holiday', COALESCE(closed_title, 'No school'), 'Added by reschedule', auth.uid());
+  END IF;
+
+  RETURN moved;
+END;
+$$;
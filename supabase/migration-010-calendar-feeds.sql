@@ -0,0 +1,64 @@
+-- ============================================================
+-- Migration 010: ICS calendar subscription feed
+-- Run this in the Supabase SQL Editor after migration 009.
+-- ============================================================
+
+-- One secret feed token per teacher; rotating it breaks old subscriptions
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own calendar feed"
+  ON calendar_feeds FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Calendar apps fetch the feed without a session, so the token is checked here
+-- and only the feed's rows (60 days back, a year ahead) are returned.
+CREATE OR REPLACE FUNCTION calendar_feed(feed_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner UUID;
+  range_start TEXT := to_char(CURRENT_DATE - 60, 'YYYY-MM-DD');
+  range_end TEXT := to_char(CURRENT_DATE + 365, 'YYYY-MM-DD');
+BEGIN
+  SELECT user_id INTO owner FROM calendar_feeds WHERE token = feed_token;
+  IF owner IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'school_name', (SELECT value FROM settings WHERE user_id = owner AND key = 'school_name'),
+    'events', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'date', date, 'event_type', event_type, 'title', title, 'notes', notes) ORDER BY date)
+      FROM calendar_events
+      WHERE user_id = owner AND date BETWEEN range_start AND range_end
+    ), '[]'::jsonb),
+    'tasks', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'due_date', due_date, 'text', text, 'class_id', class_id) ORDER BY due_date)
+      FROM tasks
+      WHERE user_id = owner AND is_done = FALSE AND due_date BETWEEN range_start AND range_end
+    ), '[]'::jsonb),
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', a.id, 'date', a.date, 'title', a.title, 'activity_type', a.activity_type,
+                                          'class_id', a.class_id, 'class_name', c.name, 'periods', c.periods)
+                       ORDER BY a.date, a.class_id, a.sort_order)
+      FROM activities a
+      JOIN classes c ON c.id = a.class_id
+      WHERE a.user_id = owner AND a.date BETWEEN range_start AND range_end
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calendar_feed(TEXT) TO anon, authenticated;
@@ -0,0 +1,28 @@
+-- ============================================================
+-- Migration 011: Bell schedules
+-- Run this in the Supabase SQL Editor after migration 010.
+-- ============================================================
+
+-- Named day types with period times. A date uses the schedule whose
+-- event_types match one of its calendar events (early release, assembly),
+-- else the A/B rotation (rotation_order), else the default schedule.
+CREATE TABLE IF NOT EXISTS bell_schedules (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  rotation_order INTEGER,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  periods JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bell_schedules_user ON bell_schedules(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bell_schedules_one_default ON bell_schedules(user_id) WHERE is_default;
+
+ALTER TABLE bell_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bell schedules"
+  ON bell_schedules FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
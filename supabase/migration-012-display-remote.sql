@@ -0,0 +1,117 @@
+-- ============================================================
+-- Migration 012: Classroom display remote control
+-- Run this in the Supabase SQL Editor after migration 011.
+-- ============================================================
+
+-- A TV/projector browser. It starts unpaired showing pair_code; once a teacher
+-- enters the code the session belongs to them and the code is cleared.
+CREATE TABLE IF NOT EXISTS display_sessions (
+  id SERIAL PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  pair_code TEXT UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  paired_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Commands queued for a display (next page, reveal answer, message...), streamed in id order
+CREATE TABLE IF NOT EXISTS display_commands (
+  id BIGSERIAL PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES display_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_commands_session ON display_commands(session_id, id);
+
+ALTER TABLE display_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE display_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own display sessions"
+  ON display_sessions FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users send commands to own displays"
+  ON display_commands FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM display_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+  );
+
+-- The display itself has no login: it creates its session and reads its
+-- commands through these functions, keyed by its secret token.
+CREATE OR REPLACE FUNCTION create_display_session(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Codes from displays that never got paired are recycled after a day
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND created_at < NOW() - INTERVAL '1 day';
+  INSERT INTO display_sessions (token, pair_code) VALUES (session_token, code);
+$$;
+
+CREATE OR REPLACE FUNCTION poll_display_session(session_token TEXT, after_id BIGINT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s display_sessions%ROWTYPE;
+  latest BIGINT;
+BEGIN
+  UPDATE display_sessions SET last_seen_at = NOW() WHERE token = session_token RETURNING * INTO s;
+  IF s.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(id), 0) INTO latest FROM display_commands WHERE session_id = s.id;
+
+  RETURN jsonb_build_object(
+    'paired', s.user_id IS NOT NULL,
+    'pair_code', s.pair_code,
+    'name', s.name,
+    'latest_id', latest,
+    -- Without after_id (first connect) history is skipped; only new commands matter
+    'commands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'payload', c.payload) ORDER BY c.id)
+      FROM display_commands c
+      WHERE c.session_id = s.id AND after_id IS NOT NULL AND c.id > after_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Called by the signed-in teacher with the code shown on the TV
+CREATE OR REPLACE FUNCTION pair_display_session(code TEXT, display_name TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paired_id INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  UPDATE display_sessions
+  SET user_id = auth.uid(), paired_at = NOW(), pair_code = NULL, name = COALESCE(NULLIF(display_name, ''), 'Classroom display')
+  WHERE pair_code = UPPER(code) AND user_id IS NULL AND created_at > NOW() - INTERVAL '1 day'
+  RETURNING id INTO paired_id;
+
+  RETURN paired_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_display_session(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION poll_display_session(TEXT, BIGINT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION pair_display_session(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,125 @@
+-- ============================================================
+-- Migration 013: Student bellringer responses
+-- Run this in the Supabase SQL Editor after migration 012.
+-- ============================================================
+
+-- Short code shown on the TV (and in its QR) that students use to respond
+ALTER TABLE bellringers ADD COLUMN IF NOT EXISTS response_code TEXT UNIQUE;
+
+-- One row per submission: a journal entry, an ACT letter, or both
+CREATE TABLE IF NOT EXISTS bellringer_responses (
+  id SERIAL PRIMARY KEY,
+  bellringer_id INTEGER NOT NULL REFERENCES bellringers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER REFERENCES classes(id) ON DELETE SET NULL,
+  period TEXT,
+  student_name TEXT NOT NULL,
+  -- Matched against the roster by name when possible
+  student_id INTEGER REFERENCES students(id) ON DELETE SET NULL,
+  act_choice TEXT CHECK (act_choice IN ('A', 'B', 'C', 'D')),
+  journal_slot INTEGER,
+  journal_text TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bellringer_responses_bellringer ON bellringer_responses(bellringer_id);
+
+ALTER TABLE bellringer_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bellringer responses"
+  ON bellringer_responses FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Students have no account: the response page reads the bellringer and
+-- submits through these functions, keyed by the response code. The ACT
+-- answer is never returned.
+CREATE OR REPLACE FUNCTION bellringer_for_response(code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+BEGIN
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  IF b.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', b.date,
+    'open', b.date::date >= CURRENT_DATE - 1,
+    'prompts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('slot', p.slot, 'journal_type', p.journal_type, 'journal_prompt', p.journal_prompt) ORDER BY p.slot)
+      FROM bellringer_prompts p
+      WHERE p.bellringer_id = b.id AND p.journal_prompt IS NOT NULL AND p.journal_prompt <> ''
+    ), '[]'::jsonb),
+    'act_skill', b.act_skill,
+    'act_question', b.act_question,
+    'act_choices', jsonb_build_object('A', b.act_choice_a, 'B', b.act_choice_b, 'C', b.act_choice_c, 'D', b.act_choice_d),
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name, 'periods', c.periods) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = b.user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+BEGIN
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(TRIM(name))
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(TRIM(name))
+    )
+  LIMIT 1;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(response_period, ''), TRIM(name), matched_student,
+     NULLIF(UPPER(choice), ''), slot, NULLIF(TRIM(entry), ''))
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bellringer_for_response(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_bellringer_response(TEXT, INTEGER, TEXT, TEXT, TEXT, INTEGER, TEXT) TO anon, authenticated;
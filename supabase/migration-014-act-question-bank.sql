@@ -0,0 +1,37 @@
+-- ============================================================
+-- Migration 014: ACT question bank
+-- Run this in the Supabase SQL Editor after migration 013.
+-- ============================================================
+
+-- Vetted ACT questions the teacher can reuse instead of generating new ones.
+-- Seeded from src/data/act-questions-bank.json, added by hand, or promoted
+-- from a past bellringer's AI question.
+CREATE TABLE IF NOT EXISTS act_question_bank (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  skill_category TEXT NOT NULL DEFAULT 'English',
+  skill TEXT NOT NULL DEFAULT '',
+  question TEXT NOT NULL,
+  choice_a TEXT NOT NULL,
+  choice_b TEXT NOT NULL,
+  choice_c TEXT NOT NULL,
+  choice_d TEXT NOT NULL,
+  correct_answer TEXT NOT NULL CHECK (correct_answer IN ('A', 'B', 'C', 'D')),
+  explanation TEXT NOT NULL DEFAULT '',
+  rule TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'bellringer')),
+  source_bellringer_id INTEGER REFERENCES bellringers(id) ON DELETE SET NULL,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_act_question_bank_user ON act_question_bank(user_id, skill_category);
+
+ALTER TABLE act_question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own ACT question bank"
+  ON act_question_bank FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,33 @@
+-- ============================================================
+-- Migration 015: Journal prompt bank
+-- Run this in the Supabase SQL Editor after migration 014.
+-- ============================================================
+
+-- The teacher's own journal prompts: the starter set from
+-- src/data/prompts-bank.json, prompts saved from past bellringers, and ones
+-- written by hand. Usage history comes from bellringer_prompts by matching
+-- text, so nothing here needs updating when a bellringer is saved.
+CREATE TABLE IF NOT EXISTS journal_prompt_bank (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  journal_type TEXT NOT NULL DEFAULT 'creative',
+  prompt TEXT NOT NULL,
+  -- Quotes: who said it, and the question students write about
+  attribution TEXT,
+  writing_prompt TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'bellringer')),
+  is_favorite BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Retired prompts are never given again, and generated prompts too close to them are replaced
+  is_retired BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_prompt_bank_user ON journal_prompt_bank(user_id, journal_type);
+
+ALTER TABLE journal_prompt_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own journal prompt bank"
+  ON journal_prompt_bank FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
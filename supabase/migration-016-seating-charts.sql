@@ -0,0 +1,32 @@
+-- ============================================================
+-- Migration 016: Seating charts
+-- Run this in the Supabase SQL Editor after migration 015.
+-- ============================================================
+
+-- Structured seating charts built from the class roster. A class can have
+-- several charts per period (e.g. "Testing" and "Groups"); the active one
+-- for each period goes into sub plans. `desks` holds the room layout:
+-- [{ "row": 0, "col": 2, "kind": "desk" | "teacher" | "door", "student_id": 12 }]
+CREATE TABLE IF NOT EXISTS seating_charts (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  -- Matches class_enrollments.period; NULL covers every period of the class
+  period TEXT,
+  name TEXT NOT NULL DEFAULT 'Seating Chart',
+  rows INTEGER NOT NULL DEFAULT 5 CHECK (rows BETWEEN 1 AND 12),
+  cols INTEGER NOT NULL DEFAULT 6 CHECK (cols BETWEEN 1 AND 12),
+  desks JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seating_charts_class ON seating_charts(class_id, period);
+
+ALTER TABLE seating_charts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own seating charts"
+  ON seating_charts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
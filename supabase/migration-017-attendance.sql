@@ -0,0 +1,136 @@
+-- ============================================================
+-- Migration 017: Attendance
+-- Run this in the Supabase SQL Editor after migration 016.
+-- ============================================================
+
+-- One mark per student per class per day. The teacher takes it from the day
+-- view; a sub takes it from the shared SubDash page, which goes through the
+-- functions below. Sub marks stay unreviewed until the teacher has seen
+-- the summary on the dashboard.
+CREATE TABLE IF NOT EXISTS attendance (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  date TEXT NOT NULL,
+  -- Copied from class_enrollments.period when the mark is taken
+  period TEXT,
+  status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'tardy')),
+  note TEXT,
+  recorded_by TEXT NOT NULL DEFAULT 'teacher' CHECK (recorded_by IN ('teacher', 'sub')),
+  subdash_plan_id INTEGER REFERENCES subdash_plans(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(class_id, student_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_user_date ON attendance(user_id, date);
+
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own attendance"
+  ON attendance FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Subs have no account: the SubDash page reads the rosters and submits marks
+-- through these functions, keyed by the plan's share token. Only classes on
+-- that plan's schedule and only the plan's date are reachable, and the plan
+-- stops taking marks the day after.
+CREATE OR REPLACE FUNCTION subdash_attendance(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', p.date,
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'class_id', c.id,
+        'class_name', c.name,
+        'students', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'student_id', s.id,
+            'first_name', s.first_name,
+            'last_name', s.last_name,
+            'preferred_name', s.preferred_name,
+            'period', e.period,
+            'status', a.status,
+            'note', a.note
+          ) ORDER BY s.last_name, s.first_name)
+          FROM class_enrollments e
+          JOIN students s ON s.id = e.student_id
+          LEFT JOIN attendance a ON a.class_id = c.id AND a.student_id = s.id AND a.date = p.date
+          WHERE e.class_id = c.id
+        ), '[]'::jsonb)
+      ) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = p.user_id
+        AND c.id IN (
+          SELECT (entry->>'class_id')::INTEGER
+          FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+          WHERE entry->>'class_id' IS NOT NULL
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- records: [{ "class_id": 3, "student_id": 12, "status": "absent", "note": "..." }]
+CREATE OR REPLACE FUNCTION submit_subdash_attendance(token TEXT, records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+  saved INTEGER;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO attendance
+    (user_id, class_id, student_id, date, period, status, note, recorded_by, subdash_plan_id)
+  SELECT p.user_id, e.class_id, e.student_id, p.date, e.period, r->>'status',
+         NULLIF(TRIM(r->>'note'), ''), 'sub', p.id
+  FROM jsonb_array_elements(records) r
+  JOIN class_enrollments e
+    ON e.class_id = (r->>'class_id')::INTEGER AND e.student_id = (r->>'student_id')::INTEGER
+  JOIN classes c ON c.id = e.class_id AND c.user_id = p.user_id
+  WHERE r->>'status' IN ('present', 'absent', 'tardy')
+    AND e.class_id IN (
+      SELECT (entry->>'class_id')::INTEGER
+      FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+      WHERE entry->>'class_id' IS NOT NULL
+    )
+  ON CONFLICT (class_id, student_id, date) DO UPDATE SET
+    period = EXCLUDED.period,
+    status = EXCLUDED.status,
+    note = EXCLUDED.note,
+    recorded_by = 'sub',
+    subdash_plan_id = EXCLUDED.subdash_plan_id,
+    reviewed_at = NULL,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_attendance(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_subdash_attendance(TEXT, JSONB) TO anon, authenticated;
@@ -0,0 +1,68 @@
+-- ============================================================
+-- Migration 018: Substitute end-of-day reports
+-- Run this in the Supabase SQL Editor after migration 017.
+-- ============================================================
+
+-- The sub fills in a report on the shared SubDash page: per-period notes,
+-- whether each instruction got done, behavior incidents, helpful students
+-- and materials left behind. It lives on the plan row; the teacher sees it
+-- on the dashboard until marked reviewed. `sub_report` holds:
+-- { "submitted_by": "...", "periods": [{ "period", "class_name", "notes",
+--   "instructions": [{ "title", "status": "done" | "partial" | "not_done" }] }],
+--   "incidents": [{ "period", "students", "description" }],
+--   "helpful_students": "...", "materials_left": "...", "general_notes": "..." }
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report JSONB;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report_submitted_at TIMESTAMPTZ;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report_reviewed_at TIMESTAMPTZ;
+
+-- Like attendance, the sub reads and writes the report through the share
+-- token, and it stops taking changes the day after the plan's date.
+CREATE OR REPLACE FUNCTION subdash_report(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'report', p.sub_report,
+    'submitted_at', p.sub_report_submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_report(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_subdash_report(TEXT, JSONB) TO anon, authenticated;
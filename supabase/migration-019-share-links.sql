@@ -0,0 +1,350 @@
+-- ============================================================
+-- Migration 019: Share link lifecycle
+-- Run this in the Supabase SQL Editor after migration 018.
+-- ============================================================
+
+-- Sub plan and lesson plan links used to be permanent, and the public
+-- policies exposed every row that had a token. Links now carry an optional
+-- expiry, an optional PIN and a revoked time, and anonymous reads only see
+-- the row whose token (and PIN) the request presents in the x-share-token /
+-- x-share-pin headers (see src/lib/share-links.ts). PINs are stored as
+-- "salt$sha256(salt || pin)".
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_expires_at TIMESTAMPTZ;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_pin_hash TEXT;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_revoked_at TIMESTAMPTZ;
+
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_expires_at TIMESTAMPTZ;
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_pin_hash TEXT;
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_revoked_at TIMESTAMPTZ;
+
+-- One row per visit to a public link (and per refused visit)
+CREATE TABLE IF NOT EXISTS share_link_access (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  link_kind TEXT NOT NULL CHECK (link_kind IN ('subdash', 'lesson_plan')),
+  link_id INTEGER NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('viewed', 'pin_failed', 'expired', 'revoked')),
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_link_access_link ON share_link_access(link_kind, link_id, created_at);
+
+ALTER TABLE share_link_access ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own share link access"
+  ON share_link_access FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION share_pin_matches(pin_hash TEXT, pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT pin_hash IS NULL OR (
+    pin IS NOT NULL
+    AND encode(sha256(convert_to(split_part(pin_hash, '$', 1) || pin, 'UTF8')), 'hex') = split_part(pin_hash, '$', 2)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION share_link_header(name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json->>name;
+$$;
+
+-- True when the request presents this link's token (and PIN) and the link is live
+CREATE OR REPLACE FUNCTION share_link_allows(token TEXT, pin_hash TEXT, expires_at TIMESTAMPTZ, revoked_at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT token IS NOT NULL
+    AND token = share_link_header('x-share-token')
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND share_pin_matches(pin_hash, share_link_header('x-share-pin'));
+$$;
+
+DROP POLICY IF EXISTS "Subdash plans are public via token" ON subdash_plans;
+CREATE POLICY "Subdash plans are public via token"
+  ON subdash_plans FOR SELECT
+  USING (status = 'shared' AND share_link_allows(share_token, share_pin_hash, share_expires_at, share_revoked_at));
+
+DROP POLICY IF EXISTS "Subdash media readable via public plan" ON subdash_media;
+CREATE POLICY "Subdash media readable via public plan"
+  ON subdash_media FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM subdash_plans
+    WHERE subdash_plans.id = subdash_media.subdash_plan_id
+      AND subdash_plans.status = 'shared'
+      AND share_link_allows(subdash_plans.share_token, subdash_plans.share_pin_hash,
+                            subdash_plans.share_expires_at, subdash_plans.share_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Published plans are public" ON lesson_plans;
+CREATE POLICY "Published plans are public"
+  ON lesson_plans FOR SELECT
+  USING (status = 'published' AND share_link_allows(publish_token, publish_pin_hash, publish_expires_at, publish_revoked_at));
+
+DROP POLICY IF EXISTS "Comments on published plans are public" ON lesson_plan_comments;
+CREATE POLICY "Comments on published plans are public"
+  ON lesson_plan_comments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = lesson_plan_comments.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = lesson_plan_comments.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Activities in published plans are public" ON activities;
+CREATE POLICY "Activities in published plans are public"
+  ON activities FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = activities.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Activity standards in published plans are public" ON activity_standards;
+CREATE POLICY "Activity standards in published plans are public"
+  ON activity_standards FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM activities
+      JOIN lesson_plans ON lesson_plans.id = activities.lesson_plan_id
+    WHERE activities.id = activity_standards.activity_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+-- The public pages call this first: it says whether the link may be opened
+-- ('ok', 'not_found', 'revoked', 'expired', 'pin_required', 'pin_invalid',
+-- 'locked') and logs the visit. Ten wrong PINs in 15 minutes lock the link
+-- for the rest of that window.
+CREATE OR REPLACE FUNCTION open_share_link(link_kind TEXT, link_token TEXT, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  link INTEGER;
+  pin_hash TEXT;
+  expires TIMESTAMPTZ;
+  revoked TIMESTAMPTZ;
+  pin TEXT := share_link_header('x-share-pin');
+  outcome TEXT;
+BEGIN
+  IF link_kind = 'subdash' THEN
+    SELECT user_id, id, share_pin_hash, share_expires_at, share_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM subdash_plans WHERE share_token = link_token AND status = 'shared';
+  ELSIF link_kind = 'lesson_plan' THEN
+    SELECT user_id, id, publish_pin_hash, publish_expires_at, publish_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM lesson_plans WHERE publish_token = link_token AND status = 'published';
+  END IF;
+  IF link IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF revoked IS NOT NULL THEN
+    outcome := 'revoked';
+  ELSIF expires IS NOT NULL AND expires <= NOW() THEN
+    outcome := 'expired';
+  ELSIF pin_hash IS NOT NULL AND pin IS NULL THEN
+    RETURN 'pin_required';
+  ELSIF (
+    SELECT COUNT(*) FROM share_link_access a
+    WHERE a.link_kind = open_share_link.link_kind AND a.link_id = link
+      AND a.outcome = 'pin_failed' AND a.created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RETURN 'locked';
+  ELSIF NOT share_pin_matches(pin_hash, pin) THEN
+    outcome := 'pin_failed';
+  ELSE
+    outcome := 'viewed';
+  END IF;
+
+  INSERT INTO share_link_access (user_id, link_kind, link_id, outcome, user_agent)
+  VALUES (owner_id, link_kind, link, outcome, LEFT(visitor_agent, 300));
+
+  RETURN CASE outcome WHEN 'viewed' THEN 'ok' WHEN 'pin_failed' THEN 'pin_invalid' ELSE outcome END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_share_link(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- The sub-facing functions from migrations 017 and 018 now go through the
+-- same checks (PIN from the request header) before touching a plan.
+CREATE OR REPLACE FUNCTION live_subdash_plan(token TEXT)
+RETURNS subdash_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM subdash_plans
+  WHERE share_token = token
+    AND status = 'shared'
+    AND share_revoked_at IS NULL
+    AND (share_expires_at IS NULL OR share_expires_at > NOW())
+    AND share_pin_matches(share_pin_hash, share_link_header('x-share-pin'));
+$$;
+
+REVOKE EXECUTE ON FUNCTION live_subdash_plan(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION subdash_attendance(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', p.date,
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'class_id', c.id,
+        'class_name', c.name,
+        'students', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'student_id', s.id,
+            'first_name', s.first_name,
+            'last_name', s.last_name,
+            'preferred_name', s.preferred_name,
+            'period', e.period,
+            'status', a.status,
+            'note', a.note
+          ) ORDER BY s.last_name, s.first_name)
+          FROM class_enrollments e
+          JOIN students s ON s.id = e.student_id
+          LEFT JOIN attendance a ON a.class_id = c.id AND a.student_id = s.id AND a.date = p.date
+          WHERE e.class_id = c.id
+        ), '[]'::jsonb)
+      ) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = p.user_id
+        AND c.id IN (
+          SELECT (entry->>'class_id')::INTEGER
+          FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+          WHERE entry->>'class_id' IS NOT NULL
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_attendance(token TEXT, records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+  saved INTEGER;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO attendance
+    (user_id, class_id, student_id, date, period, status, note, recorded_by, subdash_plan_id)
+  SELECT p.user_id, e.class_id, e.student_id, p.date, e.period, r->>'status',
+         NULLIF(TRIM(r->>'note'), ''), 'sub', p.id
+  FROM jsonb_array_elements(records) r
+  JOIN class_enrollments e
+    ON e.class_id = (r->>'class_id')::INTEGER AND e.student_id = (r->>'student_id')::INTEGER
+  JOIN classes c ON c.id = e.class_id AND c.user_id = p.user_id
+  WHERE r->>'status' IN ('present', 'absent', 'tardy')
+    AND e.class_id IN (
+      SELECT (entry->>'class_id')::INTEGER
+      FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+      WHERE entry->>'class_id' IS NOT NULL
+    )
+  ON CONFLICT (class_id, student_id, date) DO UPDATE SET
+    period = EXCLUDED.period,
+    status = EXCLUDED.status,
+    note = EXCLUDED.note,
+    recorded_by = 'sub',
+    subdash_plan_id = EXCLUDED.subdash_plan_id,
+    reviewed_at = NULL,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION subdash_report(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'report', p.sub_report,
+    'submitted_at', p.sub_report_submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
@@ -0,0 +1,308 @@
+-- ============================================================
+-- Migration 020: Share link lockout on every public path
+-- Run this in the Supabase SQL Editor after migration 019.
+-- ============================================================
+
+-- Migration 019 only applied the wrong-PIN lockout, and only logged failed
+-- PINs, in open_share_link(). The sub's attendance and report calls, the
+-- plan comment routes and anon reads through the public RLS policies each
+-- checked the PIN on their own, so a PIN could be guessed there without
+-- limit. share_link_check() is now the one place a token and PIN are judged,
+-- and public reads go through SECURITY DEFINER functions that call it
+-- instead of through RLS.
+
+-- Judge a request by its token and x-share-pin header: 'ok', 'not_found',
+-- 'revoked', 'expired', 'pin_required', 'pin_invalid' or 'locked'. Refused
+-- requests are always logged; allowed ones only when log_visit is set, so a
+-- page load counts as a view but the saves it makes afterwards do not. Ten
+-- wrong PINs in 15 minutes lock the link for the rest of that window.
+CREATE OR REPLACE FUNCTION share_link_check(link_kind TEXT, link_token TEXT, log_visit BOOLEAN, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  link INTEGER;
+  pin_hash TEXT;
+  expires TIMESTAMPTZ;
+  revoked TIMESTAMPTZ;
+  pin TEXT := share_link_header('x-share-pin');
+  outcome TEXT;
+BEGIN
+  IF link_kind = 'subdash' THEN
+    SELECT user_id, id, share_pin_hash, share_expires_at, share_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM subdash_plans WHERE share_token = link_token AND status = 'shared';
+  ELSIF link_kind = 'lesson_plan' THEN
+    SELECT user_id, id, publish_pin_hash, publish_expires_at, publish_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM lesson_plans WHERE publish_token = link_token AND status = 'published';
+  END IF;
+  IF link IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF revoked IS NOT NULL THEN
+    outcome := 'revoked';
+  ELSIF expires IS NOT NULL AND expires <= NOW() THEN
+    outcome := 'expired';
+  ELSIF pin_hash IS NOT NULL AND pin IS NULL THEN
+    RETURN 'pin_required';
+  ELSIF pin_hash IS NOT NULL AND (
+    SELECT COUNT(*) FROM share_link_access a
+    WHERE a.link_kind = share_link_check.link_kind AND a.link_id = link
+      AND a.outcome = 'pin_failed' AND a.created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RETURN 'locked';
+  ELSIF NOT share_pin_matches(pin_hash, pin) THEN
+    outcome := 'pin_failed';
+  ELSIF NOT log_visit THEN
+    RETURN 'ok';
+  ELSE
+    outcome := 'viewed';
+  END IF;
+
+  INSERT INTO share_link_access (user_id, link_kind, link_id, outcome, user_agent)
+  VALUES (owner_id, link_kind, link, outcome, LEFT(visitor_agent, 300));
+
+  RETURN CASE outcome WHEN 'viewed' THEN 'ok' WHEN 'pin_failed' THEN 'pin_invalid' ELSE outcome END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION share_link_check(TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The public pages call this first, on load
+CREATE OR REPLACE FUNCTION open_share_link(link_kind TEXT, link_token TEXT, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT share_link_check(link_kind, link_token, true, visitor_agent);
+$$;
+
+-- The plan behind a token, or an empty row when share_link_check() refuses.
+-- These now write to the access log, so the sub-facing readers from
+-- migrations 017 and 018 can no longer be STABLE.
+CREATE OR REPLACE FUNCTION live_subdash_plan(token TEXT)
+RETURNS subdash_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  IF share_link_check('subdash', token, false, NULL) = 'ok' THEN
+    SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  END IF;
+  RETURN p;
+END;
+$$;
+
+ALTER FUNCTION subdash_attendance(TEXT) VOLATILE;
+ALTER FUNCTION subdash_report(TEXT) VOLATILE;
+
+CREATE OR REPLACE FUNCTION live_lesson_plan(token TEXT)
+RETURNS lesson_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  IF share_link_check('lesson_plan', token, false, NULL) = 'ok' THEN
+    SELECT * INTO p FROM lesson_plans WHERE publish_token = token AND status = 'published';
+  END IF;
+  RETURN p;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION live_lesson_plan(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION plan_comment_list(plan_id INTEGER)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(c) - 'lesson_plan_id' ORDER BY c.created_at), '[]'::jsonb)
+  FROM lesson_plan_comments c
+  WHERE c.lesson_plan_id = plan_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION plan_comment_list(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- The sub's view of a shared plan
+CREATE OR REPLACE FUNCTION subdash_snapshot(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  RETURN p.snapshot;
+END;
+$$;
+
+-- A published lesson plan with its activities (and their standards) and comments
+CREATE OR REPLACE FUNCTION published_lesson_plan(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan', to_jsonb(p) - 'publish_pin_hash',
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'class_id', a.class_id,
+        'date', a.date,
+        'title', a.title,
+        'description', a.description,
+        'activity_type', a.activity_type,
+        'sort_order', a.sort_order,
+        'material_status', a.material_status,
+        'material_content', a.material_content,
+        'is_done', a.is_done,
+        'is_graded', a.is_graded,
+        'standards', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('code', s.code, 'description', s.description))
+          FROM activity_standards st
+          JOIN standards s ON s.id = st.standard_id
+          WHERE st.activity_id = a.id
+        ), '[]'::jsonb)
+      ) ORDER BY a.date, a.sort_order)
+      FROM activities a
+      WHERE a.lesson_plan_id = p.id
+    ), '[]'::jsonb),
+    'comments', plan_comment_list(p.id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION published_plan_comments(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN plan_comment_list(p.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_plan_comment(token TEXT, commenter TEXT, commenter_role TEXT, body TEXT, reply_to INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  c lesson_plan_comments%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL OR NULLIF(TRIM(commenter), '') IS NULL OR NULLIF(TRIM(body), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO lesson_plan_comments (lesson_plan_id, parent_id, author_role, author_name, content)
+  VALUES (
+    p.id,
+    (SELECT r.id FROM lesson_plan_comments r WHERE r.id = reply_to AND r.lesson_plan_id = p.id),
+    LEFT(COALESCE(NULLIF(TRIM(commenter_role), ''), 'principal'), 40),
+    LEFT(TRIM(commenter), 80),
+    LEFT(TRIM(body), 4000)
+  )
+  RETURNING * INTO c;
+
+  RETURN to_jsonb(c) - 'lesson_plan_id';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION edit_plan_comment(token TEXT, comment_id INTEGER, body TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  c lesson_plan_comments%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL OR NULLIF(TRIM(body), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE lesson_plan_comments
+  SET content = LEFT(TRIM(body), 4000)
+  WHERE id = comment_id AND lesson_plan_id = p.id
+  RETURNING * INTO c;
+
+  IF c.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN to_jsonb(c) - 'lesson_plan_id';
+END;
+$$;
+
+-- NULL when the link is refused, otherwise whether a comment was removed
+CREATE OR REPLACE FUNCTION delete_plan_comment(token TEXT, comment_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  removed INTEGER;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM lesson_plan_comments WHERE id = comment_id AND lesson_plan_id = p.id;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_snapshot(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION published_lesson_plan(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION published_plan_comments(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_plan_comment(TEXT, TEXT, TEXT, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION edit_plan_comment(TEXT, INTEGER, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_plan_comment(TEXT, INTEGER) TO anon, authenticated;
+
+-- Anonymous table access is gone: the functions above are the only way in
+DROP POLICY IF EXISTS "Subdash plans are public via token" ON subdash_plans;
+DROP POLICY IF EXISTS "Subdash media readable via public plan" ON subdash_media;
+DROP POLICY IF EXISTS "Published plans are public" ON lesson_plans;
+DROP POLICY IF EXISTS "Comments on published plans are public" ON lesson_plan_comments;
+DROP POLICY IF EXISTS "Activities in published plans are public" ON activities;
+DROP POLICY IF EXISTS "Activity standards in published plans are public" ON activity_standards;
+
+DROP FUNCTION IF EXISTS share_link_allows(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ);
@@ -0,0 +1,68 @@
+-- ============================================================
+-- Migration 021: Substitute report shape checks
+-- Run this in the Supabase SQL Editor after migration 020.
+-- ============================================================
+
+-- submit_subdash_report() is open to anon and stored whatever JSON it was
+-- given, so a call that skipped the Next route could save '{}' or
+-- '{"periods": null}' and break the teacher's report view. The report must
+-- now have the shape subReportFromBody() produces (src/lib/sub-report.ts),
+-- within the same limits on periods, instructions and incidents.
+CREATE OR REPLACE FUNCTION sub_report_is_valid(report JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(report) = 'object'
+    AND jsonb_typeof(report->'submitted_by') = 'string'
+    AND jsonb_typeof(report->'helpful_students') = 'string'
+    AND jsonb_typeof(report->'materials_left') = 'string'
+    AND jsonb_typeof(report->'general_notes') = 'string'
+    AND jsonb_typeof(report->'periods') = 'array'
+    AND jsonb_typeof(report->'incidents') = 'array'
+    -- About twice the largest report subReportFromBody() lets through
+    AND octet_length(report::text) <= 524288
+    AND CASE WHEN jsonb_typeof(report->'periods') = 'array'
+               AND jsonb_typeof(report->'incidents') = 'array'
+        THEN jsonb_array_length(report->'periods') <= 20
+          AND jsonb_array_length(report->'incidents') <= 20
+          AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(report->'periods') p
+            WHERE CASE WHEN jsonb_typeof(p) = 'object' AND jsonb_typeof(p->'instructions') = 'array'
+                       THEN jsonb_array_length(p->'instructions') > 30
+                       ELSE true END
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(report->'incidents') i
+            WHERE jsonb_typeof(i) <> 'object'
+          )
+        ELSE false END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  IF NOT COALESCE(sub_report_is_valid(report), false) THEN
+    RAISE EXCEPTION 'Invalid report';
+  END IF;
+
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
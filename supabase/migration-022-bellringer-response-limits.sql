@@ -0,0 +1,84 @@
+-- ============================================================
+-- Migration 022: Bellringer response limits
+-- Run this in the Supabase SQL Editor after migration 021.
+-- ============================================================
+
+-- submit_bellringer_response() is open to anon, but the name and entry
+-- limits and the answer checks only lived in the Next route
+-- (responseFieldsFromBody in src/lib/bellringer-responses.ts). The function
+-- now applies them itself: names are capped at 80 characters and entries at
+-- 4000, the ACT answer must be A-D, and a journal slot must be one of the
+-- bellringer's prompts.
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+  student TEXT := LEFT(regexp_replace(TRIM(COALESCE(name, '')), '\s+', ' ', 'g'), 80);
+  answer TEXT := NULLIF(UPPER(TRIM(COALESCE(choice, ''))), '');
+  journal TEXT := LEFT(NULLIF(TRIM(COALESCE(entry, '')), ''), 4000);
+  prompt_slot INTEGER := slot;
+BEGIN
+  IF student = '' THEN
+    RAISE EXCEPTION 'Enter your name';
+  END IF;
+  IF answer IS NOT NULL AND answer NOT IN ('A', 'B', 'C', 'D') THEN
+    RAISE EXCEPTION 'Pick A, B, C or D';
+  END IF;
+  IF answer IS NULL AND journal IS NULL THEN
+    RAISE EXCEPTION 'Write a journal entry or pick an answer';
+  END IF;
+
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF journal IS NULL THEN
+    prompt_slot := NULL;
+  ELSIF prompt_slot IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bellringer_prompts p WHERE p.bellringer_id = b.id AND p.slot = prompt_slot
+  ) THEN
+    RAISE EXCEPTION 'Unknown journal prompt';
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(student)
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(student)
+    )
+  LIMIT 1;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(LEFT(TRIM(response_period), 20), ''), student, matched_student,
+     answer, prompt_slot, journal)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
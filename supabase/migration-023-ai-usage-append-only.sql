@@ -0,0 +1,17 @@
+-- ============================================================
+-- Migration 023: Append-only AI usage log
+-- Run this in the Supabase SQL Editor after migration 022.
+-- ============================================================
+
+-- The daily AI limit counts today's ai_usage rows, and the FOR ALL policy
+-- from migration 005 let users delete (or edit) their own rows to reset it.
+-- Users can now only read and add their usage.
+DROP POLICY IF EXISTS "Users manage own ai usage" ON ai_usage;
+
+CREATE POLICY "Users read own ai usage"
+  ON ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users log own ai usage"
+  ON ai_usage FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
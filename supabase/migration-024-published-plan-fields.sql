@@ -0,0 +1,62 @@
+-- ============================================================
+-- Migration 024: Public fields only for published lesson plans
+-- Run this in the Supabase SQL Editor after migration 023.
+-- ============================================================
+
+-- published_lesson_plan() returned the whole lesson_plans row (minus the PIN
+-- hash) to anonymous visitors, including user_id, the publish token, the raw
+-- brainstorm input and the link settings. It now returns only the fields the
+-- /plans/<token> page renders.
+
+CREATE OR REPLACE FUNCTION published_lesson_plan(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan', jsonb_build_object(
+      'id', p.id,
+      'week_of', p.week_of,
+      'class_id', p.class_id,
+      'status', p.status,
+      'announcements', p.announcements,
+      'writers_corner', p.writers_corner,
+      'created_at', p.created_at,
+      'updated_at', p.updated_at
+    ),
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'class_id', a.class_id,
+        'date', a.date,
+        'title', a.title,
+        'description', a.description,
+        'activity_type', a.activity_type,
+        'sort_order', a.sort_order,
+        'material_status', a.material_status,
+        'material_content', a.material_content,
+        'is_done', a.is_done,
+        'is_graded', a.is_graded,
+        'standards', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('code', s.code, 'description', s.description))
+          FROM activity_standards st
+          JOIN standards s ON s.id = st.standard_id
+          WHERE st.activity_id = a.id
+        ), '[]'::jsonb)
+      ) ORDER BY a.date, a.sort_order)
+      FROM activities a
+      WHERE a.lesson_plan_id = p.id
+    ), '[]'::jsonb),
+    'comments', plan_comment_list(p.id)
+  );
+END;
+$$;
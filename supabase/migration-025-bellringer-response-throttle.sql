@@ -0,0 +1,109 @@
+-- ============================================================
+-- Migration 025: Bellringer response throttle and roster names
+-- Run this in the Supabase SQL Editor after migration 024.
+-- ============================================================
+
+-- Anyone with a response code could send answers without limit under made-up
+-- names, and the ACT tally counts one vote per name. When the class has a
+-- roster the name must now match an enrolled student (the tally then counts
+-- one vote per student), and each code takes at most 120 responses a minute,
+-- 5 of them under any one name. Bad input is raised as SQLSTATE 22023 and
+-- the throttle as 54000 so the route can answer 400 and 429 instead of 500.
+CREATE INDEX IF NOT EXISTS idx_bellringer_responses_recent
+  ON bellringer_responses(bellringer_id, created_at);
+
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+  student TEXT := LEFT(regexp_replace(TRIM(COALESCE(name, '')), '\s+', ' ', 'g'), 80);
+  answer TEXT := NULLIF(UPPER(TRIM(COALESCE(choice, ''))), '');
+  journal TEXT := LEFT(NULLIF(TRIM(COALESCE(entry, '')), ''), 4000);
+  prompt_slot INTEGER := slot;
+BEGIN
+  IF student = '' THEN
+    RAISE EXCEPTION 'Enter your name' USING ERRCODE = '22023';
+  END IF;
+  IF answer IS NOT NULL AND answer NOT IN ('A', 'B', 'C', 'D') THEN
+    RAISE EXCEPTION 'Pick A, B, C or D' USING ERRCODE = '22023';
+  END IF;
+  IF answer IS NULL AND journal IS NULL THEN
+    RAISE EXCEPTION 'Write a journal entry or pick an answer' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF journal IS NULL THEN
+    prompt_slot := NULL;
+  ELSIF prompt_slot IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bellringer_prompts p WHERE p.bellringer_id = b.id AND p.slot = prompt_slot
+  ) THEN
+    RAISE EXCEPTION 'Unknown journal prompt' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM bellringer_responses r
+    WHERE r.bellringer_id = b.id AND r.created_at > NOW() - INTERVAL '1 minute'
+  ) >= 120 OR (
+    SELECT COUNT(*) FROM bellringer_responses r
+    WHERE r.bellringer_id = b.id AND r.created_at > NOW() - INTERVAL '1 minute'
+      AND LOWER(r.student_name) = LOWER(student)
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many responses right now. Wait a minute and try again.' USING ERRCODE = '54000';
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(student)
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(student)
+    )
+  LIMIT 1;
+
+  -- Classes without a roster still take any name
+  IF matched_student IS NULL AND EXISTS (
+    SELECT 1 FROM students s
+    JOIN class_enrollments e ON e.student_id = s.id
+    WHERE s.user_id = b.user_id
+      AND (response_class_id IS NULL OR e.class_id = response_class_id)
+  ) THEN
+    RAISE EXCEPTION 'That name isn''t on the class roster. Use your first and last name as your teacher has them.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(LEFT(TRIM(response_period), 20), ''), student, matched_student,
+     answer, prompt_slot, journal)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- ============================================================
+-- Migration 026: Display pairing limits and code expiry
+-- Run this in the Supabase SQL Editor after migration 025.
+-- ============================================================
+
+-- Pairing codes lived for a day and pair_display_session() could be called
+-- without limit, so a signed-in user could guess their way onto someone
+-- else's TV; anyone could also create display sessions without limit.
+-- Codes now expire 15 minutes after they are issued (the display's stream
+-- asks for a fresh one), a user gets 10 wrong codes per 15 minutes, and at
+-- most 30 unpaired sessions can start per minute. Limits are raised as
+-- SQLSTATE 54000 so the routes can answer 429.
+ALTER TABLE display_sessions ADD COLUMN IF NOT EXISTS pair_code_issued_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Wrong pairing codes, per teacher. Only the functions below touch it.
+CREATE TABLE IF NOT EXISTS display_pair_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_pair_attempts_user ON display_pair_attempts(user_id, created_at);
+
+ALTER TABLE display_pair_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_display_session(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Unpaired displays that stopped polling are cleared out, freeing their codes
+  DELETE FROM display_sessions
+  WHERE user_id IS NULL AND last_seen_at < NOW() - INTERVAL '1 hour';
+
+  IF (
+    SELECT COUNT(*) FROM display_sessions
+    WHERE user_id IS NULL AND created_at > NOW() - INTERVAL '1 minute'
+  ) >= 30 THEN
+    RAISE EXCEPTION 'Too many displays are starting right now. Try again in a minute.' USING ERRCODE = '54000';
+  END IF;
+
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND pair_code_issued_at <= NOW() - INTERVAL '15 minutes';
+  INSERT INTO display_sessions (token, pair_code, pair_code_issued_at) VALUES (session_token, code, NOW());
+END;
+$$;
+
+-- A new code for an unpaired display whose code has expired
+CREATE OR REPLACE FUNCTION renew_display_pair_code(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND pair_code_issued_at <= NOW() - INTERVAL '15 minutes';
+
+  UPDATE display_sessions SET pair_code = code, pair_code_issued_at = NOW()
+  WHERE token = session_token AND user_id IS NULL
+    AND (pair_code IS NULL OR pair_code_issued_at <= NOW() - INTERVAL '15 minutes');
+END;
+$$;
+
+-- Same as migration 012, except an expired code comes back as null
+CREATE OR REPLACE FUNCTION poll_display_session(session_token TEXT, after_id BIGINT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s display_sessions%ROWTYPE;
+  latest BIGINT;
+BEGIN
+  UPDATE display_sessions SET last_seen_at = NOW() WHERE token = session_token RETURNING * INTO s;
+  IF s.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(id), 0) INTO latest FROM display_commands WHERE session_id = s.id;
+
+  RETURN jsonb_build_object(
+    'paired', s.user_id IS NOT NULL,
+    'pair_code', CASE WHEN s.pair_code_issued_at > NOW() - INTERVAL '15 minutes' THEN s.pair_code END,
+    'name', s.name,
+    'latest_id', latest,
+    -- Without after_id (first connect) history is skipped; only new commands matter
+    'commands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'payload', c.payload) ORDER BY c.id)
+      FROM display_commands c
+      WHERE c.session_id = s.id AND after_id IS NOT NULL AND c.id > after_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pair_display_session(code TEXT, display_name TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paired_id INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM display_pair_attempts
+    WHERE user_id = auth.uid() AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Wait 15 minutes and try again.' USING ERRCODE = '54000';
+  END IF;
+
+  UPDATE display_sessions
+  SET user_id = auth.uid(), paired_at = NOW(), pair_code = NULL, name = COALESCE(NULLIF(display_name, ''), 'Classroom display')
+  WHERE pair_code = UPPER(code) AND user_id IS NULL AND pair_code_issued_at > NOW() - INTERVAL '15 minutes'
+  RETURNING id INTO paired_id;
+
+  IF paired_id IS NULL THEN
+    INSERT INTO display_pair_attempts (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN paired_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION renew_display_pair_code(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,36 @@
+-- ============================================================
+-- Migration 027: Reschedule conflict error code
+-- Run this in the Supabase SQL Editor after migration 026.
+-- ============================================================
+
+-- When activities moved since the preview, reschedule_activities() raised a
+-- plain exception that reached the teacher as a server error. It now raises
+-- SQLSTATE 40001 so the bump and reschedule routes can answer 409.
+CREATE OR REPLACE FUNCTION reschedule_activities(moves JSONB, closed_date TEXT DEFAULT NULL, closed_title TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  expected INTEGER := jsonb_array_length(moves);
+  moved INTEGER;
+BEGIN
+  UPDATE activities a
+  SET date = m.to_date, moved_to_date = m.to_date
+  FROM jsonb_to_recordset(moves) AS m(id INTEGER, from_date TEXT, to_date TEXT)
+  WHERE a.id = m.id AND a.date = m.from_date AND a.user_id = auth.uid();
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  IF moved <> expected THEN
+    RAISE EXCEPTION 'Schedule changed since the preview (% of % activities still in place); nothing was moved', moved, expected
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF closed_date IS NOT NULL THEN
+    INSERT INTO calendar_events (date, event_type, title, notes, user_id)
+    VALUES (closed_date, 'holiday', COALESCE(closed_title, 'No school'), 'Added by reschedule', auth.uid());
+  END IF;
+
+  RETURN moved;
+END;
+$$;
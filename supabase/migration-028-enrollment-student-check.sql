@@ -0,0 +1,29 @@
+-- ============================================================
+-- Migration 028: Enrollment student ownership check
+-- Run this in the Supabase SQL Editor after migration 027.
+-- ============================================================
+
+-- The enrollment policy only checked that the class belonged to the teacher,
+-- so a guessed student id from another account could be enrolled into one of
+-- their classes. Writes now also require the student to be the teacher's own.
+DROP POLICY IF EXISTS "Users manage own class enrollments" ON class_enrollments;
+
+CREATE POLICY "Users manage own class enrollments"
+  ON class_enrollments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM classes
+    WHERE classes.id = class_enrollments.class_id
+      AND classes.user_id = auth.uid()
+  ))
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = class_enrollments.class_id
+        AND classes.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = class_enrollments.student_id
+        AND students.user_id = auth.uid()
+    )
+  );
@@ -445,3 +445,2052 @@ CREATE POLICY "Users manage own email queue"
   ON email_task_queue FOR ALL
   USING (auth.uid() = user_id)
   WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================
+-- Student roster
+-- ============================================================
+
+-- Students (one row per student, reused across classes)
+CREATE TABLE IF NOT EXISTS students (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_number TEXT,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  preferred_name TEXT,
+  grade_level TEXT,
+  email TEXT,
+  accommodations TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  UNIQUE(user_id, student_number)
+);
+
+-- Class enrollments (students <-> classes, with the period they attend)
+CREATE TABLE IF NOT EXISTS class_enrollments (
+  id SERIAL PRIMARY KEY,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  period TEXT,
+  enrolled_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_students_user ON students(user_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_class ON class_enrollments(class_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_student ON class_enrollments(student_id);
+
+ALTER TABLE students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own students"
+  ON students FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own class enrollments"
+  ON class_enrollments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM classes
+    WHERE classes.id = class_enrollments.class_id
+      AND classes.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM classes
+    WHERE classes.id = class_enrollments.class_id
+      AND classes.user_id = auth.uid()
+  ));
+
+-- ============================================================
+-- Gradebook
+-- ============================================================
+
+-- Points possible for graded activities
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS points_possible NUMERIC;
+
+-- One score per student per graded activity
+CREATE TABLE IF NOT EXISTS grades (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_id INTEGER NOT NULL REFERENCES activities(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  score NUMERIC,
+  is_excused BOOLEAN DEFAULT FALSE,
+  is_missing BOOLEAN DEFAULT FALSE,
+  comment TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(activity_id, student_id)
+);
+
+-- Category weights per class (categories are derived from activity_type)
+CREATE TABLE IF NOT EXISTS grade_categories (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  weight NUMERIC NOT NULL DEFAULT 0,
+  UNIQUE(class_id, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grades_activity ON grades(activity_id);
+CREATE INDEX IF NOT EXISTS idx_grades_student ON grades(student_id);
+CREATE INDEX IF NOT EXISTS idx_grades_user ON grades(user_id);
+CREATE INDEX IF NOT EXISTS idx_grade_categories_class ON grade_categories(class_id);
+
+ALTER TABLE grades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE grade_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own grades"
+  ON grades FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own grade categories"
+  ON grade_categories FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Quiz responses (student answers scored against a generated answer key)
+CREATE TABLE IF NOT EXISTS quiz_responses (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  activity_id INTEGER NOT NULL REFERENCES activities(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  answers JSONB NOT NULL DEFAULT '[]',
+  score NUMERIC,
+  possible NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  UNIQUE(activity_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_activity ON quiz_responses(activity_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_responses_user ON quiz_responses(user_id);
+ALTER TABLE quiz_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own quiz responses"
+  ON quiz_responses FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- AI usage log (one row per provider call; feeds the Settings usage chart and daily limit)
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  error TEXT,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own ai usage"
+  ON ai_usage FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Background jobs (slow AI work split into items; see src/lib/jobs.ts)
+CREATE TABLE IF NOT EXISTS jobs (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  items JSONB NOT NULL DEFAULT '[]',
+  result JSONB,
+  error TEXT,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_status ON jobs(user_id, status, created_at);
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own jobs"
+  ON jobs FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Curriculum units (date spans above weekly lesson plans; seed brainstorm context)
+CREATE TABLE IF NOT EXISTS units (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  class_ids INTEGER[] NOT NULL DEFAULT '{}',
+  standard_ids INTEGER[] NOT NULL DEFAULT '{}',
+  anchor_texts TEXT[] NOT NULL DEFAULT '{}',
+  essential_question TEXT,
+  goals TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_units_user_dates ON units(user_id, start_date, end_date);
+ALTER TABLE units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own units"
+  ON units FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Recurring activity rules and reusable week templates (see src/lib/recurrence.ts)
+CREATE TABLE IF NOT EXISTS activity_recurrences (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  activity_type TEXT NOT NULL DEFAULT 'lesson',
+  material_status TEXT NOT NULL DEFAULT 'not_needed',
+  weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS week_templates (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS recurrence_id INTEGER REFERENCES activity_recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_activity_recurrences_user ON activity_recurrences(user_id);
+CREATE INDEX IF NOT EXISTS idx_week_templates_user ON week_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_activities_recurrence ON activities(recurrence_id, date);
+ALTER TABLE activity_recurrences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE week_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own activity recurrences"
+  ON activity_recurrences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own week templates"
+  ON week_templates FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Atomic activity rescheduling (see src/lib/rescheduler.ts)
+CREATE OR REPLACE FUNCTION reschedule_activities(moves JSONB, closed_date TEXT DEFAULT NULL, closed_title TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  expected INTEGER := jsonb_array_length(moves);
+  moved INTEGER;
+BEGIN
+  UPDATE activities a
+  SET date = m.to_date, moved_to_date = m.to_date
+  FROM jsonb_to_recordset(moves) AS m(id INTEGER, from_date TEXT, to_date TEXT)
+  WHERE a.id = m.id AND a.date = m.from_date AND a.user_id = auth.uid();
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  IF moved <> expected THEN
+    RAISE EXCEPTION 'Schedule changed since the preview (% of % activities still in place); nothing was moved', moved, expected;
+  END IF;
+
+  IF closed_date IS NOT NULL THEN
+    INSERT INTO calendar_events (date, event_type, title, notes, user_id)
+    VALUES (closed_date, 'holiday', COALESCE(closed_title, 'No school'), 'Added by reschedule', auth.uid());
+  END IF;
+
+  RETURN moved;
+END;
+$$;
+
+-- ICS calendar subscription feed (see src/lib/ics.ts and /api/calendar/feed)
+-- One secret feed token per teacher; rotating it breaks old subscriptions
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own calendar feed"
+  ON calendar_feeds FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Calendar apps fetch the feed without a session, so the token is checked here
+-- and only the feed's rows (60 days back, a year ahead) are returned.
+CREATE OR REPLACE FUNCTION calendar_feed(feed_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner UUID;
+  range_start TEXT := to_char(CURRENT_DATE - 60, 'YYYY-MM-DD');
+  range_end TEXT := to_char(CURRENT_DATE + 365, 'YYYY-MM-DD');
+BEGIN
+  SELECT user_id INTO owner FROM calendar_feeds WHERE token = feed_token;
+  IF owner IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'school_name', (SELECT value FROM settings WHERE user_id = owner AND key = 'school_name'),
+    'events', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'date', date, 'event_type', event_type, 'title', title, 'notes', notes) ORDER BY date)
+      FROM calendar_events
+      WHERE user_id = owner AND date BETWEEN range_start AND range_end
+    ), '[]'::jsonb),
+    'tasks', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'due_date', due_date, 'text', text, 'class_id', class_id) ORDER BY due_date)
+      FROM tasks
+      WHERE user_id = owner AND is_done = FALSE AND due_date BETWEEN range_start AND range_end
+    ), '[]'::jsonb),
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', a.id, 'date', a.date, 'title', a.title, 'activity_type', a.activity_type,
+                                          'class_id', a.class_id, 'class_name', c.name, 'periods', c.periods)
+                       ORDER BY a.date, a.class_id, a.sort_order)
+      FROM activities a
+      JOIN classes c ON c.id = a.class_id
+      WHERE a.user_id = owner AND a.date BETWEEN range_start AND range_end
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calendar_feed(TEXT) TO anon, authenticated;
+
+-- Bell schedules / day types (see src/lib/bell-schedule.ts)
+CREATE TABLE IF NOT EXISTS bell_schedules (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  rotation_order INTEGER,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  periods JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bell_schedules_user ON bell_schedules(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bell_schedules_one_default ON bell_schedules(user_id) WHERE is_default;
+
+ALTER TABLE bell_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bell schedules"
+  ON bell_schedules FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Classroom display remote control (see src/lib/display-remote.ts)
+-- A TV/projector browser. It starts unpaired showing pair_code; once a teacher
+-- enters the code the session belongs to them and the code is cleared.
+CREATE TABLE IF NOT EXISTS display_sessions (
+  id SERIAL PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  pair_code TEXT UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  paired_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Commands queued for a display (next page, reveal answer, message...), streamed in id order
+CREATE TABLE IF NOT EXISTS display_commands (
+  id BIGSERIAL PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES display_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_commands_session ON display_commands(session_id, id);
+
+ALTER TABLE display_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE display_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own display sessions"
+  ON display_sessions FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users send commands to own displays"
+  ON display_commands FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM display_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+  );
+
+-- The display itself has no login: it creates its session and reads its
+-- commands through these functions, keyed by its secret token.
+CREATE OR REPLACE FUNCTION create_display_session(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  -- Codes from displays that never got paired are recycled after a day
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND created_at < NOW() - INTERVAL '1 day';
+  INSERT INTO display_sessions (token, pair_code) VALUES (session_token, code);
+$$;
+
+CREATE OR REPLACE FUNCTION poll_display_session(session_token TEXT, after_id BIGINT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s display_sessions%ROWTYPE;
+  latest BIGINT;
+BEGIN
+  UPDATE display_sessions SET last_seen_at = NOW() WHERE token = session_token RETURNING * INTO s;
+  IF s.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(id), 0) INTO latest FROM display_commands WHERE session_id = s.id;
+
+  RETURN jsonb_build_object(
+    'paired', s.user_id IS NOT NULL,
+    'pair_code', s.pair_code,
+    'name', s.name,
+    'latest_id', latest,
+    -- Without after_id (first connect) history is skipped; only new commands matter
+    'commands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'payload', c.payload) ORDER BY c.id)
+      FROM display_commands c
+      WHERE c.session_id = s.id AND after_id IS NOT NULL AND c.id > after_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Called by the signed-in teacher with the code shown on the TV
+CREATE OR REPLACE FUNCTION pair_display_session(code TEXT, display_name TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paired_id INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  UPDATE display_sessions
+  SET user_id = auth.uid(), paired_at = NOW(), pair_code = NULL, name = COALESCE(NULLIF(display_name, ''), 'Classroom display')
+  WHERE pair_code = UPPER(code) AND user_id IS NULL AND created_at > NOW() - INTERVAL '1 day'
+  RETURNING id INTO paired_id;
+
+  RETURN paired_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_display_session(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION poll_display_session(TEXT, BIGINT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION pair_display_session(TEXT, TEXT) TO authenticated;
+
+-- Student bellringer responses (see src/lib/bellringer-responses.ts)
+-- Short code shown on the TV (and in its QR) that students use to respond
+ALTER TABLE bellringers ADD COLUMN IF NOT EXISTS response_code TEXT UNIQUE;
+
+-- One row per submission: a journal entry, an ACT letter, or both
+CREATE TABLE IF NOT EXISTS bellringer_responses (
+  id SERIAL PRIMARY KEY,
+  bellringer_id INTEGER NOT NULL REFERENCES bellringers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER REFERENCES classes(id) ON DELETE SET NULL,
+  period TEXT,
+  student_name TEXT NOT NULL,
+  -- Matched against the roster by name when possible
+  student_id INTEGER REFERENCES students(id) ON DELETE SET NULL,
+  act_choice TEXT CHECK (act_choice IN ('A', 'B', 'C', 'D')),
+  journal_slot INTEGER,
+  journal_text TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bellringer_responses_bellringer ON bellringer_responses(bellringer_id);
+
+ALTER TABLE bellringer_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own bellringer responses"
+  ON bellringer_responses FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Students have no account: the response page reads the bellringer and
+-- submits through these functions, keyed by the response code. The ACT
+-- answer is never returned.
+CREATE OR REPLACE FUNCTION bellringer_for_response(code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+BEGIN
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  IF b.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', b.date,
+    'open', b.date::date >= CURRENT_DATE - 1,
+    'prompts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('slot', p.slot, 'journal_type', p.journal_type, 'journal_prompt', p.journal_prompt) ORDER BY p.slot)
+      FROM bellringer_prompts p
+      WHERE p.bellringer_id = b.id AND p.journal_prompt IS NOT NULL AND p.journal_prompt <> ''
+    ), '[]'::jsonb),
+    'act_skill', b.act_skill,
+    'act_question', b.act_question,
+    'act_choices', jsonb_build_object('A', b.act_choice_a, 'B', b.act_choice_b, 'C', b.act_choice_c, 'D', b.act_choice_d),
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name, 'periods', c.periods) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = b.user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+BEGIN
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(TRIM(name))
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(TRIM(name))
+    )
+  LIMIT 1;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(response_period, ''), TRIM(name), matched_student,
+     NULLIF(UPPER(choice), ''), slot, NULLIF(TRIM(entry), ''))
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bellringer_for_response(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_bellringer_response(TEXT, INTEGER, TEXT, TEXT, TEXT, INTEGER, TEXT) TO anon, authenticated;
+
+-- ACT question bank (see src/lib/act-bank.ts)
+-- Vetted ACT questions the teacher can reuse instead of generating new ones.
+-- Seeded from src/data/act-questions-bank.json, added by hand, or promoted
+-- from a past bellringer's AI question.
+CREATE TABLE IF NOT EXISTS act_question_bank (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  skill_category TEXT NOT NULL DEFAULT 'English',
+  skill TEXT NOT NULL DEFAULT '',
+  question TEXT NOT NULL,
+  choice_a TEXT NOT NULL,
+  choice_b TEXT NOT NULL,
+  choice_c TEXT NOT NULL,
+  choice_d TEXT NOT NULL,
+  correct_answer TEXT NOT NULL CHECK (correct_answer IN ('A', 'B', 'C', 'D')),
+  explanation TEXT NOT NULL DEFAULT '',
+  rule TEXT NOT NULL DEFAULT '',
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'bellringer')),
+  source_bellringer_id INTEGER REFERENCES bellringers(id) ON DELETE SET NULL,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_act_question_bank_user ON act_question_bank(user_id, skill_category);
+
+ALTER TABLE act_question_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own ACT question bank"
+  ON act_question_bank FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Journal prompt bank (see src/lib/prompt-bank.ts)
+-- The teacher's own journal prompts: the starter set from
+-- src/data/prompts-bank.json, prompts saved from past bellringers, and ones
+-- written by hand. Usage history comes from bellringer_prompts by matching
+-- text, so nothing here needs updating when a bellringer is saved.
+CREATE TABLE IF NOT EXISTS journal_prompt_bank (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  journal_type TEXT NOT NULL DEFAULT 'creative',
+  prompt TEXT NOT NULL,
+  -- Quotes: who said it, and the question students write about
+  attribution TEXT,
+  writing_prompt TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'bellringer')),
+  is_favorite BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Retired prompts are never given again, and generated prompts too close to them are replaced
+  is_retired BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_journal_prompt_bank_user ON journal_prompt_bank(user_id, journal_type);
+
+ALTER TABLE journal_prompt_bank ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own journal prompt bank"
+  ON journal_prompt_bank FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Seating charts (see src/lib/seating-charts.ts)
+-- Structured seating charts built from the class roster. A class can have
+-- several charts per period (e.g. "Testing" and "Groups"); the active one
+-- for each period goes into sub plans. `desks` holds the room layout:
+-- [{ "row": 0, "col": 2, "kind": "desk" | "teacher" | "door", "student_id": 12 }]
+CREATE TABLE IF NOT EXISTS seating_charts (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  -- Matches class_enrollments.period; NULL covers every period of the class
+  period TEXT,
+  name TEXT NOT NULL DEFAULT 'Seating Chart',
+  rows INTEGER NOT NULL DEFAULT 5 CHECK (rows BETWEEN 1 AND 12),
+  cols INTEGER NOT NULL DEFAULT 6 CHECK (cols BETWEEN 1 AND 12),
+  desks JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seating_charts_class ON seating_charts(class_id, period);
+
+ALTER TABLE seating_charts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own seating charts"
+  ON seating_charts FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Attendance (see src/lib/attendance.ts)
+-- One mark per student per class per day. The teacher takes it from the day
+-- view; a sub takes it from the shared SubDash page, which goes through the
+-- functions below. Sub marks stay unreviewed until the teacher has seen
+-- the summary on the dashboard.
+CREATE TABLE IF NOT EXISTS attendance (
+  id SERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id INTEGER NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  date TEXT NOT NULL,
+  -- Copied from class_enrollments.period when the mark is taken
+  period TEXT,
+  status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'tardy')),
+  note TEXT,
+  recorded_by TEXT NOT NULL DEFAULT 'teacher' CHECK (recorded_by IN ('teacher', 'sub')),
+  subdash_plan_id INTEGER REFERENCES subdash_plans(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(class_id, student_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_user_date ON attendance(user_id, date);
+
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own attendance"
+  ON attendance FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Subs have no account: the SubDash page reads the rosters and submits marks
+-- through these functions, keyed by the plan's share token. Only classes on
+-- that plan's schedule and only the plan's date are reachable, and the plan
+-- stops taking marks the day after.
+CREATE OR REPLACE FUNCTION subdash_attendance(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', p.date,
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'class_id', c.id,
+        'class_name', c.name,
+        'students', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'student_id', s.id,
+            'first_name', s.first_name,
+            'last_name', s.last_name,
+            'preferred_name', s.preferred_name,
+            'period', e.period,
+            'status', a.status,
+            'note', a.note
+          ) ORDER BY s.last_name, s.first_name)
+          FROM class_enrollments e
+          JOIN students s ON s.id = e.student_id
+          LEFT JOIN attendance a ON a.class_id = c.id AND a.student_id = s.id AND a.date = p.date
+          WHERE e.class_id = c.id
+        ), '[]'::jsonb)
+      ) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = p.user_id
+        AND c.id IN (
+          SELECT (entry->>'class_id')::INTEGER
+          FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+          WHERE entry->>'class_id' IS NOT NULL
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- records: [{ "class_id": 3, "student_id": 12, "status": "absent", "note": "..." }]
+CREATE OR REPLACE FUNCTION submit_subdash_attendance(token TEXT, records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+  saved INTEGER;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO attendance
+    (user_id, class_id, student_id, date, period, status, note, recorded_by, subdash_plan_id)
+  SELECT p.user_id, e.class_id, e.student_id, p.date, e.period, r->>'status',
+         NULLIF(TRIM(r->>'note'), ''), 'sub', p.id
+  FROM jsonb_array_elements(records) r
+  JOIN class_enrollments e
+    ON e.class_id = (r->>'class_id')::INTEGER AND e.student_id = (r->>'student_id')::INTEGER
+  JOIN classes c ON c.id = e.class_id AND c.user_id = p.user_id
+  WHERE r->>'status' IN ('present', 'absent', 'tardy')
+    AND e.class_id IN (
+      SELECT (entry->>'class_id')::INTEGER
+      FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+      WHERE entry->>'class_id' IS NOT NULL
+    )
+  ON CONFLICT (class_id, student_id, date) DO UPDATE SET
+    period = EXCLUDED.period,
+    status = EXCLUDED.status,
+    note = EXCLUDED.note,
+    recorded_by = 'sub',
+    subdash_plan_id = EXCLUDED.subdash_plan_id,
+    reviewed_at = NULL,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_attendance(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_subdash_attendance(TEXT, JSONB) TO anon, authenticated;
+
+-- Substitute end-of-day reports (see src/lib/sub-report.ts)
+-- The sub fills in a report on the shared SubDash page: per-period notes,
+-- whether each instruction got done, behavior incidents, helpful students
+-- and materials left behind. It lives on the plan row; the teacher sees it
+-- on the dashboard until marked reviewed. `sub_report` holds:
+-- { "submitted_by": "...", "periods": [{ "period", "class_name", "notes",
+--   "instructions": [{ "title", "status": "done" | "partial" | "not_done" }] }],
+--   "incidents": [{ "period", "students", "description" }],
+--   "helpful_students": "...", "materials_left": "...", "general_notes": "..." }
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report JSONB;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report_submitted_at TIMESTAMPTZ;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS sub_report_reviewed_at TIMESTAMPTZ;
+
+-- Like attendance, the sub reads and writes the report through the share
+-- token, and it stops taking changes the day after the plan's date.
+CREATE OR REPLACE FUNCTION subdash_report(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'report', p.sub_report,
+    'submitted_at', p.sub_report_submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_report(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION submit_subdash_report(TEXT, JSONB) TO anon, authenticated;
+
+-- Share link lifecycle (see src/lib/share-links.ts)
+-- Sub plan and lesson plan links used to be permanent, and the public
+-- policies exposed every row that had a token. Links now carry an optional
+-- expiry, an optional PIN and a revoked time, and anonymous reads only see
+-- the row whose token (and PIN) the request presents in the x-share-token /
+-- x-share-pin headers (see src/lib/share-links.ts). PINs are stored as
+-- "salt$sha256(salt || pin)".
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_expires_at TIMESTAMPTZ;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_pin_hash TEXT;
+ALTER TABLE subdash_plans ADD COLUMN IF NOT EXISTS share_revoked_at TIMESTAMPTZ;
+
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_expires_at TIMESTAMPTZ;
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_pin_hash TEXT;
+ALTER TABLE lesson_plans ADD COLUMN IF NOT EXISTS publish_revoked_at TIMESTAMPTZ;
+
+-- One row per visit to a public link (and per refused visit)
+CREATE TABLE IF NOT EXISTS share_link_access (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  link_kind TEXT NOT NULL CHECK (link_kind IN ('subdash', 'lesson_plan')),
+  link_id INTEGER NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('viewed', 'pin_failed', 'expired', 'revoked')),
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_link_access_link ON share_link_access(link_kind, link_id, created_at);
+
+ALTER TABLE share_link_access ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own share link access"
+  ON share_link_access FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION share_pin_matches(pin_hash TEXT, pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT pin_hash IS NULL OR (
+    pin IS NOT NULL
+    AND encode(sha256(convert_to(split_part(pin_hash, '$', 1) || pin, 'UTF8')), 'hex') = split_part(pin_hash, '$', 2)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION share_link_header(name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json->>name;
+$$;
+
+-- True when the request presents this link's token (and PIN) and the link is live
+CREATE OR REPLACE FUNCTION share_link_allows(token TEXT, pin_hash TEXT, expires_at TIMESTAMPTZ, revoked_at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT token IS NOT NULL
+    AND token = share_link_header('x-share-token')
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW())
+    AND share_pin_matches(pin_hash, share_link_header('x-share-pin'));
+$$;
+
+DROP POLICY IF EXISTS "Subdash plans are public via token" ON subdash_plans;
+CREATE POLICY "Subdash plans are public via token"
+  ON subdash_plans FOR SELECT
+  USING (status = 'shared' AND share_link_allows(share_token, share_pin_hash, share_expires_at, share_revoked_at));
+
+DROP POLICY IF EXISTS "Subdash media readable via public plan" ON subdash_media;
+CREATE POLICY "Subdash media readable via public plan"
+  ON subdash_media FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM subdash_plans
+    WHERE subdash_plans.id = subdash_media.subdash_plan_id
+      AND subdash_plans.status = 'shared'
+      AND share_link_allows(subdash_plans.share_token, subdash_plans.share_pin_hash,
+                            subdash_plans.share_expires_at, subdash_plans.share_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Published plans are public" ON lesson_plans;
+CREATE POLICY "Published plans are public"
+  ON lesson_plans FOR SELECT
+  USING (status = 'published' AND share_link_allows(publish_token, publish_pin_hash, publish_expires_at, publish_revoked_at));
+
+DROP POLICY IF EXISTS "Comments on published plans are public" ON lesson_plan_comments;
+CREATE POLICY "Comments on published plans are public"
+  ON lesson_plan_comments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = lesson_plan_comments.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = lesson_plan_comments.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Activities in published plans are public" ON activities;
+CREATE POLICY "Activities in published plans are public"
+  ON activities FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM lesson_plans
+    WHERE lesson_plans.id = activities.lesson_plan_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+DROP POLICY IF EXISTS "Activity standards in published plans are public" ON activity_standards;
+CREATE POLICY "Activity standards in published plans are public"
+  ON activity_standards FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM activities
+      JOIN lesson_plans ON lesson_plans.id = activities.lesson_plan_id
+    WHERE activities.id = activity_standards.activity_id
+      AND lesson_plans.status = 'published'
+      AND share_link_allows(lesson_plans.publish_token, lesson_plans.publish_pin_hash,
+                            lesson_plans.publish_expires_at, lesson_plans.publish_revoked_at)
+  ));
+
+-- The public pages call this first: it says whether the link may be opened
+-- ('ok', 'not_found', 'revoked', 'expired', 'pin_required', 'pin_invalid',
+-- 'locked') and logs the visit. Ten wrong PINs in 15 minutes lock the link
+-- for the rest of that window.
+CREATE OR REPLACE FUNCTION open_share_link(link_kind TEXT, link_token TEXT, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  link INTEGER;
+  pin_hash TEXT;
+  expires TIMESTAMPTZ;
+  revoked TIMESTAMPTZ;
+  pin TEXT := share_link_header('x-share-pin');
+  outcome TEXT;
+BEGIN
+  IF link_kind = 'subdash' THEN
+    SELECT user_id, id, share_pin_hash, share_expires_at, share_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM subdash_plans WHERE share_token = link_token AND status = 'shared';
+  ELSIF link_kind = 'lesson_plan' THEN
+    SELECT user_id, id, publish_pin_hash, publish_expires_at, publish_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM lesson_plans WHERE publish_token = link_token AND status = 'published';
+  END IF;
+  IF link IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF revoked IS NOT NULL THEN
+    outcome := 'revoked';
+  ELSIF expires IS NOT NULL AND expires <= NOW() THEN
+    outcome := 'expired';
+  ELSIF pin_hash IS NOT NULL AND pin IS NULL THEN
+    RETURN 'pin_required';
+  ELSIF (
+    SELECT COUNT(*) FROM share_link_access a
+    WHERE a.link_kind = open_share_link.link_kind AND a.link_id = link
+      AND a.outcome = 'pin_failed' AND a.created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RETURN 'locked';
+  ELSIF NOT share_pin_matches(pin_hash, pin) THEN
+    outcome := 'pin_failed';
+  ELSE
+    outcome := 'viewed';
+  END IF;
+
+  INSERT INTO share_link_access (user_id, link_kind, link_id, outcome, user_agent)
+  VALUES (owner_id, link_kind, link, outcome, LEFT(visitor_agent, 300));
+
+  RETURN CASE outcome WHEN 'viewed' THEN 'ok' WHEN 'pin_failed' THEN 'pin_invalid' ELSE outcome END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_share_link(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- The sub-facing functions from migrations 017 and 018 now go through the
+-- same checks (PIN from the request header) before touching a plan.
+CREATE OR REPLACE FUNCTION live_subdash_plan(token TEXT)
+RETURNS subdash_plans
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM subdash_plans
+  WHERE share_token = token
+    AND status = 'shared'
+    AND share_revoked_at IS NULL
+    AND (share_expires_at IS NULL OR share_expires_at > NOW())
+    AND share_pin_matches(share_pin_hash, share_link_header('x-share-pin'));
+$$;
+
+REVOKE EXECUTE ON FUNCTION live_subdash_plan(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION subdash_attendance(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'date', p.date,
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'class_id', c.id,
+        'class_name', c.name,
+        'students', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'student_id', s.id,
+            'first_name', s.first_name,
+            'last_name', s.last_name,
+            'preferred_name', s.preferred_name,
+            'period', e.period,
+            'status', a.status,
+            'note', a.note
+          ) ORDER BY s.last_name, s.first_name)
+          FROM class_enrollments e
+          JOIN students s ON s.id = e.student_id
+          LEFT JOIN attendance a ON a.class_id = c.id AND a.student_id = s.id AND a.date = p.date
+          WHERE e.class_id = c.id
+        ), '[]'::jsonb)
+      ) ORDER BY c.name)
+      FROM classes c
+      WHERE c.user_id = p.user_id
+        AND c.id IN (
+          SELECT (entry->>'class_id')::INTEGER
+          FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+          WHERE entry->>'class_id' IS NOT NULL
+        )
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_attendance(token TEXT, records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+  saved INTEGER;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO attendance
+    (user_id, class_id, student_id, date, period, status, note, recorded_by, subdash_plan_id)
+  SELECT p.user_id, e.class_id, e.student_id, p.date, e.period, r->>'status',
+         NULLIF(TRIM(r->>'note'), ''), 'sub', p.id
+  FROM jsonb_array_elements(records) r
+  JOIN class_enrollments e
+    ON e.class_id = (r->>'class_id')::INTEGER AND e.student_id = (r->>'student_id')::INTEGER
+  JOIN classes c ON c.id = e.class_id AND c.user_id = p.user_id
+  WHERE r->>'status' IN ('present', 'absent', 'tardy')
+    AND e.class_id IN (
+      SELECT (entry->>'class_id')::INTEGER
+      FROM jsonb_array_elements(COALESCE(p.snapshot->'schedule', '[]'::jsonb)) entry
+      WHERE entry->>'class_id' IS NOT NULL
+    )
+  ON CONFLICT (class_id, student_id, date) DO UPDATE SET
+    period = EXCLUDED.period,
+    status = EXCLUDED.status,
+    note = EXCLUDED.note,
+    recorded_by = 'sub',
+    subdash_plan_id = EXCLUDED.subdash_plan_id,
+    reviewed_at = NULL,
+    updated_at = NOW();
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION subdash_report(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'open', p.date::date >= CURRENT_DATE - 1,
+    'report', p.sub_report,
+    'submitted_at', p.sub_report_submitted_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
+
+-- Share link lockout on every public path (see src/lib/share-links.ts)
+-- Migration 019 only applied the wrong-PIN lockout, and only logged failed
+-- PINs, in open_share_link(). The sub's attendance and report calls, the
+-- plan comment routes and anon reads through the public RLS policies each
+-- checked the PIN on their own, so a PIN could be guessed there without
+-- limit. share_link_check() is now the one place a token and PIN are judged,
+-- and public reads go through SECURITY DEFINER functions that call it
+-- instead of through RLS.
+
+-- Judge a request by its token and x-share-pin header: 'ok', 'not_found',
+-- 'revoked', 'expired', 'pin_required', 'pin_invalid' or 'locked'. Refused
+-- requests are always logged; allowed ones only when log_visit is set, so a
+-- page load counts as a view but the saves it makes afterwards do not. Ten
+-- wrong PINs in 15 minutes lock the link for the rest of that window.
+CREATE OR REPLACE FUNCTION share_link_check(link_kind TEXT, link_token TEXT, log_visit BOOLEAN, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  link INTEGER;
+  pin_hash TEXT;
+  expires TIMESTAMPTZ;
+  revoked TIMESTAMPTZ;
+  pin TEXT := share_link_header('x-share-pin');
+  outcome TEXT;
+BEGIN
+  IF link_kind = 'subdash' THEN
+    SELECT user_id, id, share_pin_hash, share_expires_at, share_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM subdash_plans WHERE share_token = link_token AND status = 'shared';
+  ELSIF link_kind = 'lesson_plan' THEN
+    SELECT user_id, id, publish_pin_hash, publish_expires_at, publish_revoked_at
+    INTO owner_id, link, pin_hash, expires, revoked
+    FROM lesson_plans WHERE publish_token = link_token AND status = 'published';
+  END IF;
+  IF link IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  IF revoked IS NOT NULL THEN
+    outcome := 'revoked';
+  ELSIF expires IS NOT NULL AND expires <= NOW() THEN
+    outcome := 'expired';
+  ELSIF pin_hash IS NOT NULL AND pin IS NULL THEN
+    RETURN 'pin_required';
+  ELSIF pin_hash IS NOT NULL AND (
+    SELECT COUNT(*) FROM share_link_access a
+    WHERE a.link_kind = share_link_check.link_kind AND a.link_id = link
+      AND a.outcome = 'pin_failed' AND a.created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RETURN 'locked';
+  ELSIF NOT share_pin_matches(pin_hash, pin) THEN
+    outcome := 'pin_failed';
+  ELSIF NOT log_visit THEN
+    RETURN 'ok';
+  ELSE
+    outcome := 'viewed';
+  END IF;
+
+  INSERT INTO share_link_access (user_id, link_kind, link_id, outcome, user_agent)
+  VALUES (owner_id, link_kind, link, outcome, LEFT(visitor_agent, 300));
+
+  RETURN CASE outcome WHEN 'viewed' THEN 'ok' WHEN 'pin_failed' THEN 'pin_invalid' ELSE outcome END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION share_link_check(TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The public pages call this first, on load
+CREATE OR REPLACE FUNCTION open_share_link(link_kind TEXT, link_token TEXT, visitor_agent TEXT)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT share_link_check(link_kind, link_token, true, visitor_agent);
+$$;
+
+-- The plan behind a token, or an empty row when share_link_check() refuses.
+-- These now write to the access log, so the sub-facing readers from
+-- migrations 017 and 018 can no longer be STABLE.
+CREATE OR REPLACE FUNCTION live_subdash_plan(token TEXT)
+RETURNS subdash_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  IF share_link_check('subdash', token, false, NULL) = 'ok' THEN
+    SELECT * INTO p FROM subdash_plans WHERE share_token = token AND status = 'shared';
+  END IF;
+  RETURN p;
+END;
+$$;
+
+ALTER FUNCTION subdash_attendance(TEXT) VOLATILE;
+ALTER FUNCTION subdash_report(TEXT) VOLATILE;
+
+CREATE OR REPLACE FUNCTION live_lesson_plan(token TEXT)
+RETURNS lesson_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  IF share_link_check('lesson_plan', token, false, NULL) = 'ok' THEN
+    SELECT * INTO p FROM lesson_plans WHERE publish_token = token AND status = 'published';
+  END IF;
+  RETURN p;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION live_lesson_plan(TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION plan_comment_list(plan_id INTEGER)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(c) - 'lesson_plan_id' ORDER BY c.created_at), '[]'::jsonb)
+  FROM lesson_plan_comments c
+  WHERE c.lesson_plan_id = plan_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION plan_comment_list(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- The sub's view of a shared plan
+CREATE OR REPLACE FUNCTION subdash_snapshot(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  p := live_subdash_plan(token);
+  RETURN p.snapshot;
+END;
+$$;
+
+-- A published lesson plan with its activities (and their standards) and comments
+CREATE OR REPLACE FUNCTION published_lesson_plan(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan', to_jsonb(p) - 'publish_pin_hash',
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'class_id', a.class_id,
+        'date', a.date,
+        'title', a.title,
+        'description', a.description,
+        'activity_type', a.activity_type,
+        'sort_order', a.sort_order,
+        'material_status', a.material_status,
+        'material_content', a.material_content,
+        'is_done', a.is_done,
+        'is_graded', a.is_graded,
+        'standards', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('code', s.code, 'description', s.description))
+          FROM activity_standards st
+          JOIN standards s ON s.id = st.standard_id
+          WHERE st.activity_id = a.id
+        ), '[]'::jsonb)
+      ) ORDER BY a.date, a.sort_order)
+      FROM activities a
+      WHERE a.lesson_plan_id = p.id
+    ), '[]'::jsonb),
+    'comments', plan_comment_list(p.id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION published_plan_comments(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN plan_comment_list(p.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_plan_comment(token TEXT, commenter TEXT, commenter_role TEXT, body TEXT, reply_to INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  c lesson_plan_comments%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL OR NULLIF(TRIM(commenter), '') IS NULL OR NULLIF(TRIM(body), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO lesson_plan_comments (lesson_plan_id, parent_id, author_role, author_name, content)
+  VALUES (
+    p.id,
+    (SELECT r.id FROM lesson_plan_comments r WHERE r.id = reply_to AND r.lesson_plan_id = p.id),
+    LEFT(COALESCE(NULLIF(TRIM(commenter_role), ''), 'principal'), 40),
+    LEFT(TRIM(commenter), 80),
+    LEFT(TRIM(body), 4000)
+  )
+  RETURNING * INTO c;
+
+  RETURN to_jsonb(c) - 'lesson_plan_id';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION edit_plan_comment(token TEXT, comment_id INTEGER, body TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  c lesson_plan_comments%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL OR NULLIF(TRIM(body), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE lesson_plan_comments
+  SET content = LEFT(TRIM(body), 4000)
+  WHERE id = comment_id AND lesson_plan_id = p.id
+  RETURNING * INTO c;
+
+  IF c.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN to_jsonb(c) - 'lesson_plan_id';
+END;
+$$;
+
+-- NULL when the link is refused, otherwise whether a comment was removed
+CREATE OR REPLACE FUNCTION delete_plan_comment(token TEXT, comment_id INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+  removed INTEGER;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM lesson_plan_comments WHERE id = comment_id AND lesson_plan_id = p.id;
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION subdash_snapshot(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION published_lesson_plan(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION published_plan_comments(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_plan_comment(TEXT, TEXT, TEXT, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION edit_plan_comment(TEXT, INTEGER, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_plan_comment(TEXT, INTEGER) TO anon, authenticated;
+
+-- Anonymous table access is gone: the functions above are the only way in
+DROP POLICY IF EXISTS "Subdash plans are public via token" ON subdash_plans;
+DROP POLICY IF EXISTS "Subdash media readable via public plan" ON subdash_media;
+DROP POLICY IF EXISTS "Published plans are public" ON lesson_plans;
+DROP POLICY IF EXISTS "Comments on published plans are public" ON lesson_plan_comments;
+DROP POLICY IF EXISTS "Activities in published plans are public" ON activities;
+DROP POLICY IF EXISTS "Activity standards in published plans are public" ON activity_standards;
+
+DROP FUNCTION IF EXISTS share_link_allows(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ);
+
+-- Substitute report shape checks (see src/lib/sub-report.ts)
+-- submit_subdash_report() is open to anon and stored whatever JSON it was
+-- given, so a call that skipped the Next route could save '{}' or
+-- '{"periods": null}' and break the teacher's report view. The report must
+-- now have the shape subReportFromBody() produces (src/lib/sub-report.ts),
+-- within the same limits on periods, instructions and incidents.
+CREATE OR REPLACE FUNCTION sub_report_is_valid(report JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(report) = 'object'
+    AND jsonb_typeof(report->'submitted_by') = 'string'
+    AND jsonb_typeof(report->'helpful_students') = 'string'
+    AND jsonb_typeof(report->'materials_left') = 'string'
+    AND jsonb_typeof(report->'general_notes') = 'string'
+    AND jsonb_typeof(report->'periods') = 'array'
+    AND jsonb_typeof(report->'incidents') = 'array'
+    -- About twice the largest report subReportFromBody() lets through
+    AND octet_length(report::text) <= 524288
+    AND CASE WHEN jsonb_typeof(report->'periods') = 'array'
+               AND jsonb_typeof(report->'incidents') = 'array'
+        THEN jsonb_array_length(report->'periods') <= 20
+          AND jsonb_array_length(report->'incidents') <= 20
+          AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(report->'periods') p
+            WHERE CASE WHEN jsonb_typeof(p) = 'object' AND jsonb_typeof(p->'instructions') = 'array'
+                       THEN jsonb_array_length(p->'instructions') > 30
+                       ELSE true END
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(report->'incidents') i
+            WHERE jsonb_typeof(i) <> 'object'
+          )
+        ELSE false END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_subdash_report(token TEXT, report JSONB)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p subdash_plans%ROWTYPE;
+BEGIN
+  IF NOT COALESCE(sub_report_is_valid(report), false) THEN
+    RAISE EXCEPTION 'Invalid report';
+  END IF;
+
+  p := live_subdash_plan(token);
+  IF p.id IS NULL OR p.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE subdash_plans
+  SET sub_report = report,
+      sub_report_submitted_at = NOW(),
+      sub_report_reviewed_at = NULL
+  WHERE id = p.id;
+
+  RETURN NOW();
+END;
+$$;
+
+-- Bellringer response limits (see src/lib/bellringer-responses.ts)
+-- submit_bellringer_response() is open to anon, but the name and entry
+-- limits and the answer checks only lived in the Next route
+-- (responseFieldsFromBody in src/lib/bellringer-responses.ts). The function
+-- now applies them itself: names are capped at 80 characters and entries at
+-- 4000, the ACT answer must be A-D, and a journal slot must be one of the
+-- bellringer's prompts.
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+  student TEXT := LEFT(regexp_replace(TRIM(COALESCE(name, '')), '\s+', ' ', 'g'), 80);
+  answer TEXT := NULLIF(UPPER(TRIM(COALESCE(choice, ''))), '');
+  journal TEXT := LEFT(NULLIF(TRIM(COALESCE(entry, '')), ''), 4000);
+  prompt_slot INTEGER := slot;
+BEGIN
+  IF student = '' THEN
+    RAISE EXCEPTION 'Enter your name';
+  END IF;
+  IF answer IS NOT NULL AND answer NOT IN ('A', 'B', 'C', 'D') THEN
+    RAISE EXCEPTION 'Pick A, B, C or D';
+  END IF;
+  IF answer IS NULL AND journal IS NULL THEN
+    RAISE EXCEPTION 'Write a journal entry or pick an answer';
+  END IF;
+
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF journal IS NULL THEN
+    prompt_slot := NULL;
+  ELSIF prompt_slot IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bellringer_prompts p WHERE p.bellringer_id = b.id AND p.slot = prompt_slot
+  ) THEN
+    RAISE EXCEPTION 'Unknown journal prompt';
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(student)
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(student)
+    )
+  LIMIT 1;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(LEFT(TRIM(response_period), 20), ''), student, matched_student,
+     answer, prompt_slot, journal)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+-- Append-only AI usage log (see src/lib/ai-usage.ts)
+-- The daily AI limit counts today's ai_usage rows, and the FOR ALL policy
+-- from migration 005 let users delete (or edit) their own rows to reset it.
+-- Users can now only read and add their usage.
+DROP POLICY IF EXISTS "Users manage own ai usage" ON ai_usage;
+
+CREATE POLICY "Users read own ai usage"
+  ON ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users log own ai usage"
+  ON ai_usage FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Public fields only for published lesson plans (see src/lib/share-links.ts)
+-- published_lesson_plan() returned the whole lesson_plans row (minus the PIN
+-- hash) to anonymous visitors, including user_id, the publish token, the raw
+-- brainstorm input and the link settings. It now returns only the fields the
+-- /plans/<token> page renders.
+
+CREATE OR REPLACE FUNCTION published_lesson_plan(token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  p lesson_plans%ROWTYPE;
+BEGIN
+  p := live_lesson_plan(token);
+  IF p.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'plan', jsonb_build_object(
+      'id', p.id,
+      'week_of', p.week_of,
+      'class_id', p.class_id,
+      'status', p.status,
+      'announcements', p.announcements,
+      'writers_corner', p.writers_corner,
+      'created_at', p.created_at,
+      'updated_at', p.updated_at
+    ),
+    'activities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'class_id', a.class_id,
+        'date', a.date,
+        'title', a.title,
+        'description', a.description,
+        'activity_type', a.activity_type,
+        'sort_order', a.sort_order,
+        'material_status', a.material_status,
+        'material_content', a.material_content,
+        'is_done', a.is_done,
+        'is_graded', a.is_graded,
+        'standards', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('code', s.code, 'description', s.description))
+          FROM activity_standards st
+          JOIN standards s ON s.id = st.standard_id
+          WHERE st.activity_id = a.id
+        ), '[]'::jsonb)
+      ) ORDER BY a.date, a.sort_order)
+      FROM activities a
+      WHERE a.lesson_plan_id = p.id
+    ), '[]'::jsonb),
+    'comments', plan_comment_list(p.id)
+  );
+END;
+$$;
+
+-- Bellringer response throttle and roster names (see src/lib/bellringer-responses.ts)
+-- Anyone with a response code could send answers without limit under made-up
+-- names, and the ACT tally counts one vote per name. When the class has a
+-- roster the name must now match an enrolled student (the tally then counts
+-- one vote per student), and each code takes at most 120 responses a minute,
+-- 5 of them under any one name. Bad input is raised as SQLSTATE 22023 and
+-- the throttle as 54000 so the route can answer 400 and 429 instead of 500.
+CREATE INDEX IF NOT EXISTS idx_bellringer_responses_recent
+  ON bellringer_responses(bellringer_id, created_at);
+
+CREATE OR REPLACE FUNCTION submit_bellringer_response(
+  code TEXT,
+  response_class_id INTEGER,
+  response_period TEXT,
+  name TEXT,
+  choice TEXT,
+  slot INTEGER,
+  entry TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  b bellringers%ROWTYPE;
+  matched_student INTEGER;
+  new_id INTEGER;
+  student TEXT := LEFT(regexp_replace(TRIM(COALESCE(name, '')), '\s+', ' ', 'g'), 80);
+  answer TEXT := NULLIF(UPPER(TRIM(COALESCE(choice, ''))), '');
+  journal TEXT := LEFT(NULLIF(TRIM(COALESCE(entry, '')), ''), 4000);
+  prompt_slot INTEGER := slot;
+BEGIN
+  IF student = '' THEN
+    RAISE EXCEPTION 'Enter your name' USING ERRCODE = '22023';
+  END IF;
+  IF answer IS NOT NULL AND answer NOT IN ('A', 'B', 'C', 'D') THEN
+    RAISE EXCEPTION 'Pick A, B, C or D' USING ERRCODE = '22023';
+  END IF;
+  IF answer IS NULL AND journal IS NULL THEN
+    RAISE EXCEPTION 'Write a journal entry or pick an answer' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO b FROM bellringers WHERE response_code = UPPER(code);
+  -- Codes stop taking answers the day after the bellringer
+  IF b.id IS NULL OR b.date::date < CURRENT_DATE - 1 THEN
+    RETURN NULL;
+  END IF;
+  IF response_class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = response_class_id AND user_id = b.user_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF journal IS NULL THEN
+    prompt_slot := NULL;
+  ELSIF prompt_slot IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM bellringer_prompts p WHERE p.bellringer_id = b.id AND p.slot = prompt_slot
+  ) THEN
+    RAISE EXCEPTION 'Unknown journal prompt' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM bellringer_responses r
+    WHERE r.bellringer_id = b.id AND r.created_at > NOW() - INTERVAL '1 minute'
+  ) >= 120 OR (
+    SELECT COUNT(*) FROM bellringer_responses r
+    WHERE r.bellringer_id = b.id AND r.created_at > NOW() - INTERVAL '1 minute'
+      AND LOWER(r.student_name) = LOWER(student)
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many responses right now. Wait a minute and try again.' USING ERRCODE = '54000';
+  END IF;
+
+  SELECT s.id INTO matched_student
+  FROM students s
+  JOIN class_enrollments e ON e.student_id = s.id
+  WHERE s.user_id = b.user_id
+    AND (response_class_id IS NULL OR e.class_id = response_class_id)
+    AND (
+      LOWER(s.first_name || ' ' || s.last_name) = LOWER(student)
+      OR LOWER(COALESCE(s.preferred_name, '') || ' ' || s.last_name) = LOWER(student)
+    )
+  LIMIT 1;
+
+  -- Classes without a roster still take any name
+  IF matched_student IS NULL AND EXISTS (
+    SELECT 1 FROM students s
+    JOIN class_enrollments e ON e.student_id = s.id
+    WHERE s.user_id = b.user_id
+      AND (response_class_id IS NULL OR e.class_id = response_class_id)
+  ) THEN
+    RAISE EXCEPTION 'That name isn''t on the class roster. Use your first and last name as your teacher has them.'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO bellringer_responses
+    (bellringer_id, user_id, class_id, period, student_name, student_id, act_choice, journal_slot, journal_text)
+  VALUES
+    (b.id, b.user_id, response_class_id, NULLIF(LEFT(TRIM(response_period), 20), ''), student, matched_student,
+     answer, prompt_slot, journal)
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+-- Display pairing limits and code expiry (see src/lib/display-remote.ts)
+-- Pairing codes lived for a day and pair_display_session() could be called
+-- without limit, so a signed-in user could guess their way onto someone
+-- else's TV; anyone could also create display sessions without limit.
+-- Codes now expire 15 minutes after they are issued (the display's stream
+-- asks for a fresh one), a user gets 10 wrong codes per 15 minutes, and at
+-- most 30 unpaired sessions can start per minute. Limits are raised as
+-- SQLSTATE 54000 so the routes can answer 429.
+ALTER TABLE display_sessions ADD COLUMN IF NOT EXISTS pair_code_issued_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Wrong pairing codes, per teacher. Only the functions below touch it.
+CREATE TABLE IF NOT EXISTS display_pair_attempts (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_display_pair_attempts_user ON display_pair_attempts(user_id, created_at);
+
+ALTER TABLE display_pair_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_display_session(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Unpaired displays that stopped polling are cleared out, freeing their codes
+  DELETE FROM display_sessions
+  WHERE user_id IS NULL AND last_seen_at < NOW() - INTERVAL '1 hour';
+
+  IF (
+    SELECT COUNT(*) FROM display_sessions
+    WHERE user_id IS NULL AND created_at > NOW() - INTERVAL '1 minute'
+  ) >= 30 THEN
+    RAISE EXCEPTION 'Too many displays are starting right now. Try again in a minute.' USING ERRCODE = '54000';
+  END IF;
+
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND pair_code_issued_at <= NOW() - INTERVAL '15 minutes';
+  INSERT INTO display_sessions (token, pair_code, pair_code_issued_at) VALUES (session_token, code, NOW());
+END;
+$$;
+
+-- A new code for an unpaired display whose code has expired
+CREATE OR REPLACE FUNCTION renew_display_pair_code(session_token TEXT, code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE display_sessions SET pair_code = NULL
+  WHERE pair_code = code AND pair_code_issued_at <= NOW() - INTERVAL '15 minutes';
+
+  UPDATE display_sessions SET pair_code = code, pair_code_issued_at = NOW()
+  WHERE token = session_token AND user_id IS NULL
+    AND (pair_code IS NULL OR pair_code_issued_at <= NOW() - INTERVAL '15 minutes');
+END;
+$$;
+
+-- Same as migration 012, except an expired code comes back as null
+CREATE OR REPLACE FUNCTION poll_display_session(session_token TEXT, after_id BIGINT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  s display_sessions%ROWTYPE;
+  latest BIGINT;
+BEGIN
+  UPDATE display_sessions SET last_seen_at = NOW() WHERE token = session_token RETURNING * INTO s;
+  IF s.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(id), 0) INTO latest FROM display_commands WHERE session_id = s.id;
+
+  RETURN jsonb_build_object(
+    'paired', s.user_id IS NOT NULL,
+    'pair_code', CASE WHEN s.pair_code_issued_at > NOW() - INTERVAL '15 minutes' THEN s.pair_code END,
+    'name', s.name,
+    'latest_id', latest,
+    -- Without after_id (first connect) history is skipped; only new commands matter
+    'commands', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', c.id, 'payload', c.payload) ORDER BY c.id)
+      FROM display_commands c
+      WHERE c.session_id = s.id AND after_id IS NOT NULL AND c.id > after_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pair_display_session(code TEXT, display_name TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paired_id INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM display_pair_attempts
+    WHERE user_id = auth.uid() AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 10 THEN
+    RAISE EXCEPTION 'Too many wrong codes. Wait 15 minutes and try again.' USING ERRCODE = '54000';
+  END IF;
+
+  UPDATE display_sessions
+  SET user_id = auth.uid(), paired_at = NOW(), pair_code = NULL, name = COALESCE(NULLIF(display_name, ''), 'Classroom display')
+  WHERE pair_code = UPPER(code) AND user_id IS NULL AND pair_code_issued_at > NOW() - INTERVAL '15 minutes'
+  RETURNING id INTO paired_id;
+
+  IF paired_id IS NULL THEN
+    INSERT INTO display_pair_attempts (user_id) VALUES (auth.uid());
+  END IF;
+
+  RETURN paired_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION renew_display_pair_code(TEXT, TEXT) TO anon, authenticated;
+
+-- Reschedule conflict error code (see src/lib/rescheduler.ts)
+-- When activities moved since the preview, reschedule_activities() raised a
+-- plain exception that reached the teacher as a server error. It now raises
+-- SQLSTATE 40001 so the bump and reschedule routes can answer 409.
+CREATE OR REPLACE FUNCTION reschedule_activities(moves JSONB, closed_date TEXT DEFAULT NULL, closed_title TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  expected INTEGER := jsonb_array_length(moves);
+  moved INTEGER;
+BEGIN
+  UPDATE activities a
+  SET date = m.to_date, moved_to_date = m.to_date
+  FROM jsonb_to_recordset(moves) AS m(id INTEGER, from_date TEXT, to_date TEXT)
+  WHERE a.id = m.id AND a.date = m.from_date AND a.user_id = auth.uid();
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  IF moved <> expected THEN
+    RAISE EXCEPTION 'Schedule changed since the preview (% of % activities still in place); nothing was moved', moved, expected
+      USING ERRCODE = '40001';
+  END IF;
+
+  IF closed_date IS NOT NULL THEN
+    INSERT INTO calendar_events (date, event_type, title, notes, user_id)
+    VALUES (closed_date, 'holiday', COALESCE(closed_title, 'No school'), 'Added by reschedule', auth.uid());
+  END IF;
+
+  RETURN moved;
+END;
+$$;
+
+-- Enrollment student ownership check (see src/app/api/classes/[id]/students/import/route.ts)
+-- The enrollment policy only checked that the class belonged to the teacher,
+-- so a guessed student id from another account could be enrolled into one of
+-- their classes. Writes now also require the student to be the teacher's own.
+DROP POLICY IF EXISTS "Users manage own class enrollments" ON class_enrollments;
+
+CREATE POLICY "Users manage own class enrollments"
+  ON class_enrollments FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM classes
+    WHERE classes.id = class_enrollments.class_id
+      AND classes.user_id = auth.uid()
+  ))
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM classes
+      WHERE classes.id = class_enrollments.class_id
+        AND classes.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = class_enrollments.student_id
+        AND students.user_id = auth.uid()
+    )
+  );